@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import ExpensePlanner from "@/pages/ExpensePlanner";
+import Reports from "@/pages/Reports";
 import AuthPage from "@/pages/AuthPage";
 import { AuthProvider } from "@/hooks/useAuthNew";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
@@ -11,11 +12,14 @@ import BlockAllExpenses from "@/components/BlockAllExpenses";
 import JuneBirthdayFix from "@/components/JuneBirthdayFix";
 
 
+// Single-user setups let anonymous visitors in (see getAnonymousRole in server/households.ts)
+const HouseholdRoute = import.meta.env.VITE_ANONYMOUS_HOUSEHOLD_ROLE ? Route : ProtectedRoute;
+
 function Router() {
   return (
     <Switch>
-      {/* Changed from ProtectedRoute to Route to bypass auth requirement */}
-      <Route path="/" component={ExpensePlanner} />
+      <HouseholdRoute path="/" component={ExpensePlanner} />
+      <HouseholdRoute path="/reports" component={Reports} />
       <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
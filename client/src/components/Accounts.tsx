@@ -0,0 +1,529 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { AccountType, AccountWithBalance, BASE_CURRENCY, InsertAccount, InsertTransfer, Transaction } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Landmark, PiggyBank, CreditCard, Wallet, Plus, Pencil, Trash2, Archive, ArchiveRestore, ArrowRightLeft, ListChecks } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { useCurrencies } from '@/hooks/use-exchange-rates';
+import { useAccounts, useTransfers, ACCOUNTS_QUERY_KEY, TRANSFERS_QUERY_KEY } from '@/hooks/use-accounts';
+import { useDeletedToast } from '@/hooks/use-trash';
+import { apiRequest } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import ReconcileAccountDialog from './ReconcileAccountDialog';
+
+const ACCOUNT_TYPES: Record<AccountType, { label: string; icon: typeof Landmark }> = {
+  checking: { label: 'Checking', icon: Landmark },
+  savings: { label: 'Savings', icon: PiggyBank },
+  credit_card: { label: 'Credit card', icon: CreditCard },
+  cash: { label: 'Cash', icon: Wallet },
+};
+
+// How many of the latest transfers the card lists
+const RECENT_TRANSFERS = 5;
+
+const EMPTY_ACCOUNT_FORM = {
+  name: '',
+  type: 'checking' as AccountType,
+  currency: BASE_CURRENCY,
+  openingBalance: '0',
+  openingBalanceDate: format(new Date(), 'yyyy-MM-dd'),
+};
+
+const EMPTY_TRANSFER_FORM = {
+  title: '',
+  amount: '',
+  date: format(new Date(), 'yyyy-MM-dd'),
+  fromAccountId: '',
+  toAccountId: '',
+};
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+export default function Accounts() {
+  const [editingAccount, setEditingAccount] = useState<AccountWithBalance | null>(null);
+  const [reconcilingAccount, setReconcilingAccount] = useState<AccountWithBalance | null>(null);
+  const [isAccountOpen, setIsAccountOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [accountForm, setAccountForm] = useState(EMPTY_ACCOUNT_FORM);
+  const [transferForm, setTransferForm] = useState(EMPTY_TRANSFER_FORM);
+  const { accounts, activeAccounts, isLoading } = useAccounts();
+  const { transfers } = useTransfers();
+  const currencies = useCurrencies();
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+  const showDeletedToast = useDeletedToast();
+  const queryClient = useQueryClient();
+
+  const archivedAccounts = accounts.filter(account => account.isArchived);
+  const accountNames = new Map(accounts.map(account => [account.id, account.name]));
+  const recentTransfers = [...transfers]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, RECENT_TRANSFERS);
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveAccount = useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: Partial<InsertAccount> }) => {
+      const response = id
+        ? await apiRequest('PATCH', `/api/accounts/${id}`, data)
+        : await apiRequest('POST', '/api/accounts', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY });
+      closeAccountDialog();
+    },
+    onError,
+  });
+
+  const deleteAccount = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/accounts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ACCOUNTS_QUERY_KEY });
+    },
+    onError,
+  });
+
+  const createTransfer = useMutation({
+    mutationFn: async (data: InsertTransfer) => {
+      const response = await apiRequest('POST', '/api/transfers', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TRANSFERS_QUERY_KEY });
+      closeTransferDialog();
+    },
+    onError,
+  });
+
+  const deleteTransfer = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/transactions/${id}`);
+    },
+    onSuccess: (_, id) => {
+      showDeletedToast('transactions', id, 'Transfer deleted');
+      queryClient.invalidateQueries({ queryKey: TRANSFERS_QUERY_KEY });
+    },
+    onError,
+  });
+
+  const closeAccountDialog = () => {
+    setIsAccountOpen(false);
+    setEditingAccount(null);
+    setAccountForm(EMPTY_ACCOUNT_FORM);
+  };
+
+  const openAccountDialog = (account?: AccountWithBalance) => {
+    setEditingAccount(account ?? null);
+    setAccountForm(account ? {
+      name: account.name,
+      type: account.type as AccountType,
+      currency: account.currency,
+      openingBalance: String(account.openingBalance),
+      openingBalanceDate: account.openingBalanceDate,
+    } : EMPTY_ACCOUNT_FORM);
+    setIsAccountOpen(true);
+  };
+
+  const closeTransferDialog = () => {
+    setIsTransferOpen(false);
+    setTransferForm(EMPTY_TRANSFER_FORM);
+  };
+
+  const openTransferDialog = () => {
+    setTransferForm({
+      ...EMPTY_TRANSFER_FORM,
+      fromAccountId: activeAccounts[0] ? String(activeAccounts[0].id) : '',
+      toAccountId: activeAccounts[1] ? String(activeAccounts[1].id) : '',
+    });
+    setIsTransferOpen(true);
+  };
+
+  const handleAccountSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const openingBalance = parseAmount(accountForm.openingBalance || '0');
+    if (!accountForm.name.trim() || isNaN(openingBalance) || !accountForm.openingBalanceDate) {
+      onError(new Error('An account needs a name, an opening balance and its date'));
+      return;
+    }
+
+    saveAccount.mutate({
+      id: editingAccount?.id,
+      data: {
+        name: accountForm.name.trim(),
+        type: accountForm.type,
+        currency: accountForm.currency,
+        openingBalance,
+        openingBalanceDate: accountForm.openingBalanceDate,
+      },
+    });
+  };
+
+  const handleTransferSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseAmount(transferForm.amount);
+    if (!transferForm.fromAccountId || !transferForm.toAccountId || isNaN(amount) || amount <= 0) {
+      onError(new Error('A transfer needs two accounts and a positive amount'));
+      return;
+    }
+    if (transferForm.fromAccountId === transferForm.toAccountId) {
+      onError(new Error('A transfer needs two different accounts'));
+      return;
+    }
+
+    const fromAccountId = parseInt(transferForm.fromAccountId);
+    const toAccountId = parseInt(transferForm.toAccountId);
+    createTransfer.mutate({
+      title: transferForm.title.trim() || `Transfer to ${accountNames.get(toAccountId)}`,
+      amount,
+      date: new Date(transferForm.date),
+      notes: null,
+      fromAccountId,
+      toAccountId,
+      recurrenceRule: null,
+    });
+  };
+
+  const handleArchive = (account: AccountWithBalance) => {
+    saveAccount.mutate({ id: account.id, data: { isArchived: !account.isArchived } });
+  };
+
+  const handleDelete = (account: AccountWithBalance) => {
+    if (confirm(`Delete the account "${account.name}"?`)) {
+      deleteAccount.mutate(account.id);
+    }
+  };
+
+  const renderAccount = (account: AccountWithBalance) => {
+    const { label, icon: Icon } = ACCOUNT_TYPES[account.type as AccountType] ?? ACCOUNT_TYPES.checking;
+
+    return (
+      <div key={account.id} className={cn('flex items-center justify-between gap-2', account.isArchived && 'opacity-60')}>
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="min-w-0">
+            <div className="font-medium text-sm truncate">{account.name}</div>
+            <div className="text-xs text-muted-foreground">{label}</div>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 text-sm">
+          <span className={cn('font-semibold', account.balance < 0 && 'text-red-500')}>
+            {formatAmount(account.balance, account.currency)}
+          </span>
+          {!account.isArchived && (
+            <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setReconcilingAccount(account)} title="Reconcile">
+              <ListChecks className="h-3 w-3" />
+            </Button>
+          )}
+          {canEdit && (
+            <>
+              <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => openAccountDialog(account)} title="Edit">
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                onClick={() => handleArchive(account)}
+                title={account.isArchived ? 'Unarchive' : 'Archive'}
+              >
+                {account.isArchived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+              </Button>
+              <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => handleDelete(account)} title="Delete">
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="h-5 w-5" />
+              <span>Accounts</span>
+            </CardTitle>
+            <CardDescription>Balances today and transfers between accounts</CardDescription>
+          </div>
+          {canEdit && (
+            <div className="flex gap-1">
+              {activeAccounts.length >= 2 && (
+                <Button size="sm" variant="outline" onClick={openTransferDialog}>
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                  Transfer
+                </Button>
+              )}
+              <Button size="sm" onClick={() => openAccountDialog()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Account
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : accounts.length === 0 ? (
+          <div className="py-3 text-center text-sm text-muted-foreground">
+            No accounts yet. Add your bank accounts, cards and cash to track a balance for each.
+          </div>
+        ) : (
+          <>
+            {activeAccounts.map(renderAccount)}
+
+            {archivedAccounts.length > 0 && (
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:underline"
+                onClick={() => setShowArchived(!showArchived)}
+              >
+                {showArchived ? 'Hide' : 'Show'} archived ({archivedAccounts.length})
+              </button>
+            )}
+            {showArchived && archivedAccounts.map(renderAccount)}
+
+            {recentTransfers.length > 0 && (
+              <div className="space-y-1 border-t pt-3">
+                <div className="text-xs font-medium text-muted-foreground">Recent transfers</div>
+                {recentTransfers.map((transfer: Transaction) => (
+                  <div key={transfer.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate">
+                      {format(new Date(transfer.date), 'MMM d')} · {accountNames.get(transfer.accountId!) ?? 'No account'}
+                      {' → '}
+                      {accountNames.get(transfer.transferAccountId!) ?? 'No account'}
+                      {transfer.isRecurring && ' (recurring)'}
+                    </span>
+                    <span className="flex items-center gap-1 shrink-0">
+                      {formatAmount(transfer.amount, BASE_CURRENCY)}
+                      {canEdit && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 w-6 p-0"
+                          onClick={() => deleteTransfer.mutate(transfer.id)}
+                          title="Delete transfer"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isAccountOpen} onOpenChange={(open) => !open && closeAccountDialog()}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? 'Edit Account' : 'New Account'}</DialogTitle>
+            <DialogDescription>
+              The balance is worked out from the opening balance and everything booked to the account after its date
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAccountSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="accountName">Name</Label>
+              <Input
+                id="accountName"
+                value={accountForm.name}
+                onChange={(e) => setAccountForm({ ...accountForm, name: e.target.value })}
+                placeholder="e.g., Main account, Visa, Wallet"
+                autoFocus
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={accountForm.type}
+                  onValueChange={(value) => setAccountForm({ ...accountForm, type: value as AccountType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ACCOUNT_TYPES).map(([type, { label }]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select
+                  value={accountForm.currency}
+                  onValueChange={(value) => setAccountForm({ ...accountForm, currency: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencies.map(currency => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="accountOpeningBalance">Opening balance</Label>
+                <Input
+                  id="accountOpeningBalance"
+                  inputMode="decimal"
+                  value={accountForm.openingBalance}
+                  onChange={(e) => setAccountForm({ ...accountForm, openingBalance: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="accountOpeningDate">At the end of</Label>
+                <Input
+                  id="accountOpeningDate"
+                  type="date"
+                  value={accountForm.openingBalanceDate}
+                  onChange={(e) => setAccountForm({ ...accountForm, openingBalanceDate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={closeAccountDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveAccount.isPending}>
+                {saveAccount.isPending ? 'Saving...' : editingAccount ? 'Update Account' : 'Create Account'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isTransferOpen} onOpenChange={(open) => !open && closeTransferDialog()}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>New Transfer</DialogTitle>
+            <DialogDescription>
+              Move money between two accounts; it counts as neither income nor an expense
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleTransferSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select
+                  value={transferForm.fromAccountId}
+                  onValueChange={(value) => setTransferForm({ ...transferForm, fromAccountId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts.map(account => (
+                      <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select
+                  value={transferForm.toAccountId}
+                  onValueChange={(value) => setTransferForm({ ...transferForm, toAccountId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts.map(account => (
+                      <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="transferAmount">Amount ({BASE_CURRENCY})</Label>
+                <Input
+                  id="transferAmount"
+                  inputMode="decimal"
+                  value={transferForm.amount}
+                  onChange={(e) => setTransferForm({ ...transferForm, amount: e.target.value })}
+                  placeholder="0.00"
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transferDate">Date</Label>
+                <Input
+                  id="transferDate"
+                  type="date"
+                  value={transferForm.date}
+                  onChange={(e) => setTransferForm({ ...transferForm, date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transferTitle">Title (optional)</Label>
+              <Input
+                id="transferTitle"
+                value={transferForm.title}
+                onChange={(e) => setTransferForm({ ...transferForm, title: e.target.value })}
+                placeholder="e.g., Credit card payment"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={closeTransferDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createTransfer.isPending}>
+                {createTransfer.isPending ? 'Saving...' : 'Transfer'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ReconcileAccountDialog account={reconcilingAccount} onClose={() => setReconcilingAccount(null)} />
+    </Card>
+  );
+}
@@ -12,9 +12,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { AutocompleteInput } from "@/components/ui/autocomplete-input";
 import { AutocompleteCategoryInput } from "@/components/ui/autocomplete-category";
-import { Category, Transaction, persons, recurringIntervals } from "@shared/schema";
-import { AlertTriangle, DollarSign, Euro, X } from "lucide-react";
+import { BASE_CURRENCY, Category, TransactionDraft, personLabelSchema, recurringIntervals } from "@shared/schema";
+import { usePeople } from "@/hooks/use-people";
+import { AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import RecurrenceRuleFields, { recurrenceFormFields, toRecurrencePayload } from "@/components/RecurrenceRuleFields";
+import TagInput from "@/components/TagInput";
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -25,18 +28,13 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { 
-  SupportedCurrency, 
-  convertToPLN, 
-  fetchLatestRates, 
-  formatCurrency, 
-  getExchangeRate 
-} from "@/utils/currency-converter";
+import { formatCurrency, isCurrencyCode } from "@/utils/currency-converter";
+import { useCurrencies, useExchangeRate } from "@/hooks/use-exchange-rates";
 
 interface AddExpenseModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddExpense: (data: Omit<Transaction, "id" | "isExpense">) => void;
+  onAddExpense: (data: Omit<TransactionDraft, "isExpense">) => void;
   categories: Category[];
   isPending: boolean;
   titleSuggestions?: string[]; // Available title suggestions for autocomplete
@@ -62,21 +60,19 @@ const expenseFormSchema = z.object({
     required_error: "Category is required",
     invalid_type_error: "Category is required",
   }),
-  personLabel: z.enum(persons),
+  personLabel: personLabelSchema,
+  paidBy: z.string().optional(),
+  tags: z.array(z.string()).default([]),
   isRecurring: z.boolean().optional().default(false),
   recurringInterval: z.enum(recurringIntervals).optional().default('monthly'),
   recurringEndDate: z.string().optional(),
+  ...recurrenceFormFields,
 });
 
 type ExpenseFormValues = z.infer<typeof expenseFormSchema>;
 
-// Person color mapping
-const personColors: Record<string, string> = {
-  "Beni": "#3b82f6",  // Blue
-  "Fabi": "#ec4899",  // Pink
-  "Michał": "#10b981", // Green
-  "Together": "#8b5cf6" // Purple
-};
+// Select values can't be empty, so this stands for an expense nobody paid for someone else
+const NO_PAYER = 'none';
 
 // CRITICAL MODIFICATION: Complete block for Add Expense modal
 // This component is modified to never open when balance is negative
@@ -90,11 +86,12 @@ export default function AddExpenseModal({
   defaultDate,
   currentBudget = Infinity // Default to Infinity to disable budget check if not provided
 }: AddExpenseModalProps) {
+  const { activePeople, activeMembers } = usePeople();
   const { toast } = useToast();
-  // State for the selected currency
-  const [selectedCurrency, setSelectedCurrency] = useState<SupportedCurrency>('PLN');
-  // State for displaying converted amount
-  const [convertedAmount, setConvertedAmount] = useState<number | null>(null);
+  // State for the selected currency and an optional rate that overrides the rate table (e.g. from a card statement)
+  const [selectedCurrency, setSelectedCurrency] = useState(BASE_CURRENCY);
+  const [manualRate, setManualRate] = useState('');
+  const currencies = useCurrencies();
   // State for budget warning dialog
   const [showBudgetWarning, setShowBudgetWarning] = useState(false);
   // Store form data while showing warning
@@ -102,13 +99,6 @@ export default function AddExpenseModal({
   // Store the budget deficit amount
   const [budgetDeficit, setBudgetDeficit] = useState(0);
   
-  // Fetch exchange rates when component mounts
-  useEffect(() => {
-    fetchLatestRates();
-  }, []);
-  
-
-  
   const form = useForm<ExpenseFormValues>({
     resolver: zodResolver(expenseFormSchema),
     defaultValues: {
@@ -116,8 +106,11 @@ export default function AddExpenseModal({
       amount: 0,
       date: defaultDate ? defaultDate.toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
       notes: "",
+      tags: [],
       isRecurring: false,
       recurringInterval: 'monthly', // Default to monthly
+      recurrenceRule: "",
+      recurrenceShift: "none",
     },
   });
   
@@ -141,33 +134,41 @@ export default function AddExpenseModal({
   
   const { watch, setValue } = form;
   
-  // Watch the amount field
+  // Watch the amount and date fields
   const amount = watch('amount');
+  const date = watch('date');
   
-  // Update converted amount when amount or currency changes
-  useEffect(() => {
-    if (amount && selectedCurrency !== 'PLN') {
-      try {
-        const converted = convertToPLN(Number(amount), selectedCurrency);
-        setConvertedAmount(converted);
-      } catch (e) {
-        console.error('Conversion error:', e);
-        setConvertedAmount(null);
-      }
-    } else {
-      setConvertedAmount(null);
-    }
-  }, [amount, selectedCurrency]);
+  // Preview of the rate the server will convert at; the server does the actual conversion
+  const isForeign = selectedCurrency !== BASE_CURRENCY;
+  const { conversion, isLoading: isRateLoading, error: rateError } = useExchangeRate(selectedCurrency, date ? new Date(date) : null);
+  const parsedManualRate = parseFloat(manualRate.replace(',', '.'));
+  const rate = isForeign ? (parsedManualRate > 0 ? parsedManualRate : conversion?.rate ?? null) : 1;
+  const convertedAmount = isForeign && rate !== null && Number(amount) > 0
+    ? Math.round(Number(String(amount).replace(',', '.')) * rate * 100) / 100
+    : null;
 
   function onSubmit(data: ExpenseFormValues) {
     // Number conversion is handled by Zod transformation
     
-    // If currency is not PLN, convert to PLN
-    let finalAmount = data.amount;
-    if (selectedCurrency !== 'PLN') {
-      finalAmount = convertToPLN(finalAmount, selectedCurrency);
+    if (isForeign && !isCurrencyCode(selectedCurrency)) {
+      toast({ title: "Invalid currency", description: "Enter a three-letter currency code such as EUR", variant: "destructive" });
+      return;
+    }
+    if (isForeign && rate === null) {
+      toast({
+        title: "No exchange rate",
+        description: `No ${selectedCurrency} rate is known for ${data.date}. Enter the rate you were charged.`,
+        variant: "destructive",
+      });
+      return;
     }
     
+    // Foreign amounts are booked in PLN; the original amount and rate are kept with the transaction
+    const finalAmount = isForeign ? Math.round(data.amount * rate! * 100) / 100 : data.amount;
+    const currencyData = isForeign
+      ? { originalAmount: data.amount, originalCurrency: selectedCurrency, exchangeRate: parsedManualRate > 0 ? parsedManualRate : null }
+      : {};
+    
     // DEBUG-ENABLED BUDGET PROTECTION
     // Always check budget before submission - with extra debugging
     if (currentBudget !== undefined) {
@@ -176,13 +177,16 @@ export default function AddExpenseModal({
       const formattedData = {
         ...data,
         amount: finalAmount, // Use the converted amount
+        ...currencyData,
         date: new Date(data.date),
         notes: data.notes || null,
         categoryId: data.categoryId,
         personLabel: data.personLabel,
+        paidBy: data.paidBy && data.paidBy !== NO_PAYER ? data.paidBy : null,
         isRecurring: data.isRecurring || false,
         recurringInterval: data.isRecurring ? data.recurringInterval : null,
         recurringEndDate: data.isRecurring && data.recurringEndDate ? new Date(data.recurringEndDate) : null,
+        ...toRecurrencePayload(data),
         isPaid: false, // Default to unpaid for new expenses
       };
       
@@ -240,13 +244,16 @@ export default function AddExpenseModal({
     const formattedData = {
       ...data,
       amount: finalAmount,
+      ...currencyData,
       date: new Date(data.date),
       notes: data.notes || null,
       categoryId: data.categoryId,
       personLabel: data.personLabel,
+      paidBy: data.paidBy && data.paidBy !== NO_PAYER ? data.paidBy : null,
       isRecurring: data.isRecurring || false,
       recurringInterval: data.isRecurring ? data.recurringInterval : null,
       recurringEndDate: data.isRecurring && data.recurringEndDate ? new Date(data.recurringEndDate) : null,
+      ...toRecurrencePayload(data),
       isPaid: false,
     };
     
@@ -259,8 +266,8 @@ export default function AddExpenseModal({
     onAddExpense(formattedData);
     
     // Reset the form and currency selection after successful submission
-    setSelectedCurrency('PLN');
-    setConvertedAmount(null);
+    setSelectedCurrency(BASE_CURRENCY);
+    setManualRate('');
     form.reset({
       title: "",
       amount: 0,
@@ -268,9 +275,13 @@ export default function AddExpenseModal({
       notes: "",
       categoryId: undefined,
       personLabel: undefined,
+      paidBy: undefined,
+      tags: [],
       isRecurring: false,
       recurringInterval: 'monthly', // Default to monthly
       recurringEndDate: undefined,
+      recurrenceRule: "",
+      recurrenceShift: "none",
     });
     
     // Also reset any pending data and warning state
@@ -302,7 +313,7 @@ export default function AddExpenseModal({
                 <div className="space-y-3">
                   <p className="font-bold text-destructive">You cannot add any expenses when your budget is negative!</p>
                   <p className="font-medium">
-                    Your current budget is already negative at <span className="text-destructive font-bold">{formatCurrency(currentBudget, 'PLN')}</span>.
+                    Your current budget is already negative at <span className="text-destructive font-bold">{formatCurrency(currentBudget)}</span>.
                   </p>
                   <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded-md mt-2 text-sm">
                     <p className="font-semibold">Required Actions:</p>
@@ -316,15 +327,15 @@ export default function AddExpenseModal({
                   <div className="grid grid-cols-2 gap-2 mt-2">
                     <div className="bg-background p-2 rounded-md text-center">
                       <p className="text-sm text-muted-foreground">Current Budget</p>
-                      <p className="font-bold text-lg">{formatCurrency(currentBudget, 'PLN')}</p>
+                      <p className="font-bold text-lg">{formatCurrency(currentBudget)}</p>
                     </div>
                     <div className="bg-background p-2 rounded-md text-center">
                       <p className="text-sm text-muted-foreground">Expense Amount</p>
-                      <p className="font-bold text-lg text-destructive">{formatCurrency(pendingExpenseData?.amount || 0, 'PLN')}</p>
+                      <p className="font-bold text-lg text-destructive">{formatCurrency(pendingExpenseData?.amount || 0)}</p>
                     </div>
                   </div>
                   <div className="bg-amber-50 dark:bg-amber-900/20 p-3 rounded-md mt-2">
-                    <p className="font-semibold">You will be short by <span className="text-destructive font-bold">{formatCurrency(budgetDeficit, 'PLN')}</span></p>
+                    <p className="font-semibold">You will be short by <span className="text-destructive font-bold">{formatCurrency(budgetDeficit)}</span></p>
                     <p className="text-sm mt-1">You can proceed with this expense, but your budget will become negative.</p>
                   </div>
                 </div>
@@ -407,15 +418,13 @@ export default function AddExpenseModal({
                                 field.onChange(value === '' ? 0 : value);
                               }
                             }}
-                            className="pl-8 bg-background"
+                            className="pl-10 bg-background"
                           />
                         </FormControl>
                         
                         {/* Currency indicator */}
-                        <div className="absolute left-2 text-muted-foreground">
-                          {selectedCurrency === 'PLN' && "zł"}
-                          {selectedCurrency === 'USD' && <DollarSign className="h-4 w-4" />}
-                          {selectedCurrency === 'EUR' && <Euro className="h-4 w-4" />}
+                        <div className="absolute left-2 text-xs text-muted-foreground">
+                          {selectedCurrency === BASE_CURRENCY ? "zł" : selectedCurrency}
                         </div>
                       </div>
                       <FormMessage />
@@ -423,29 +432,47 @@ export default function AddExpenseModal({
                   )}
                 />
                 
-                {/* Currency selector */}
+                {/* Currency picker: suggestions, but any ISO code can be typed */}
                 <div className="col-span-1">
                   <FormLabel>Currency</FormLabel>
-                  <Select
+                  <Input
+                    list="add-expense-currencies"
                     value={selectedCurrency}
-                    onValueChange={(value: SupportedCurrency) => setSelectedCurrency(value)}
-                  >
-                    <SelectTrigger className="bg-background">
-                      <SelectValue placeholder="PLN" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="PLN">PLN (zł)</SelectItem>
-                      <SelectItem value="USD">USD ($)</SelectItem>
-                      <SelectItem value="EUR">EUR (€)</SelectItem>
-                    </SelectContent>
-                  </Select>
+                    onChange={(e) => setSelectedCurrency(e.target.value.trim().toUpperCase().slice(0, 3))}
+                    placeholder={BASE_CURRENCY}
+                    className="bg-background"
+                  />
+                  <datalist id="add-expense-currencies">
+                    {currencies.map(currency => <option key={currency} value={currency} />)}
+                  </datalist>
                 </div>
               </div>
               
-              {/* Show converted amount if currency is not PLN */}
-              {convertedAmount !== null && selectedCurrency !== 'PLN' && (
-                <div className="text-sm text-muted-foreground">
-                  Converted: <span className="font-medium">{formatCurrency(convertedAmount, 'PLN')}</span>
+              {/* Rate and converted amount if currency is not PLN */}
+              {isForeign && (
+                <div className="space-y-2 rounded-lg bg-secondary/20 p-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground whitespace-nowrap">Rate (PLN per {selectedCurrency || '...'})</span>
+                    <Input
+                      inputMode="decimal"
+                      value={manualRate}
+                      onChange={(e) => setManualRate(e.target.value)}
+                      placeholder={conversion ? conversion.rate.toFixed(4) : 'e.g. 4.3000'}
+                      className="h-8 bg-background"
+                    />
+                  </div>
+                  <div className="text-muted-foreground">
+                    {parsedManualRate > 0 ? 'Using the rate you entered'
+                      : isRateLoading ? 'Looking up the rate...'
+                      : conversion ? `Rate of ${conversion.rateDate}`
+                      : rateError ? 'No rate is known for this date; enter the rate you were charged'
+                      : null}
+                  </div>
+                  {convertedAmount !== null && (
+                    <div className="text-muted-foreground">
+                      Converted: <span className="font-medium text-foreground">{formatCurrency(convertedAmount, BASE_CURRENCY)}</span>
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -506,17 +533,18 @@ export default function AddExpenseModal({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {persons.map((person) => (
+                        {activePeople.map((person) => (
                           <SelectItem 
-                            key={person} 
-                            value={person}
+                            key={person.id} 
+                            value={person.name}
                           >
                             <div className="flex items-center">
                               <div 
                                 className="h-3 w-3 rounded-full mr-2" 
-                                style={{ backgroundColor: personColors[person] || "#gray" }}
+                                style={{ backgroundColor: person.color }}
                               />
-                              {person}
+                              {person.emoji && <span className="mr-1">{person.emoji}</span>}
+                              {person.name}
                             </div>
                           </SelectItem>
                         ))}
@@ -527,6 +555,54 @@ export default function AddExpenseModal({
                 )}
               />
               
+              {/* Payer, for settling shared expenses between the members */}
+              {activeMembers.length > 1 && (
+                <FormField
+                  control={form.control}
+                  name="paidBy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Paid by (optional)</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value ?? NO_PAYER}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="bg-background">
+                            <SelectValue placeholder="Not tracked" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_PAYER}>Not tracked</SelectItem>
+                          {activeMembers.map((person) => (
+                            <SelectItem key={person.id} value={person.name}>
+                              {person.emoji && <span className="mr-1">{person.emoji}</span>}
+                              {person.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              {/* Tags, to follow the costs of a trip or project across categories */}
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags (optional)</FormLabel>
+                    <FormControl>
+                      <TagInput value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               {/* Notes field */}
               <FormField
                 control={form.control}
@@ -616,6 +692,8 @@ export default function AddExpenseModal({
                       </FormItem>
                     )}
                   />
+                  
+                  <RecurrenceRuleFields control={form.control} />
                 </div>
               )}
               
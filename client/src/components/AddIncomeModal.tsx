@@ -9,13 +9,15 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { AutocompleteInput } from "@/components/ui/autocomplete-input";
-import { Transaction, persons, recurringIntervals } from "@shared/schema";
+import { TransactionDraft, personLabelSchema, recurringIntervals } from "@shared/schema";
+import { usePeople } from "@/hooks/use-people";
+import RecurrenceRuleFields, { recurrenceFormFields, toRecurrencePayload } from "@/components/RecurrenceRuleFields";
 import { X } from "lucide-react";
 
 interface AddIncomeModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAddIncome: (data: Omit<Transaction, "id" | "isExpense">) => void;
+  onAddIncome: (data: Omit<TransactionDraft, "isExpense">) => void;
   isPending: boolean;
   titleSuggestions?: string[]; // Available title suggestions for autocomplete
 }
@@ -26,25 +28,15 @@ const incomeFormSchema = z.object({
   date: z.string().min(1, "Date is required"),
   notes: z.string().optional(),
   categoryId: z.number().default(13), // Use the Income category by default
-  personLabel: z.enum(persons, {
-    required_error: "Person is required",
-    invalid_type_error: "Person must be selected"
-  }),
+  personLabel: personLabelSchema,
   isRecurring: z.boolean().optional().default(false),
   recurringInterval: z.enum(recurringIntervals).optional(),
   recurringEndDate: z.string().optional(),
+  ...recurrenceFormFields,
 });
 
 type IncomeFormValues = z.infer<typeof incomeFormSchema>;
 
-// Person color mapping
-const personColors: Record<string, string> = {
-  "Beni": "#3b82f6",  // Blue
-  "Fabi": "#ec4899",  // Pink
-  "Michał": "#10b981", // Green
-  "Together": "#8b5cf6" // Purple
-};
-
 export default function AddIncomeModal({
   isOpen,
   onClose,
@@ -52,6 +44,7 @@ export default function AddIncomeModal({
   isPending,
   titleSuggestions = []
 }: AddIncomeModalProps) {
+  const { activePeople } = usePeople();
   const form = useForm<IncomeFormValues>({
     resolver: zodResolver(incomeFormSchema),
     defaultValues: {
@@ -64,6 +57,8 @@ export default function AddIncomeModal({
       isRecurring: false,
       recurringInterval: undefined,
       recurringEndDate: undefined,
+      recurrenceRule: "",
+      recurrenceShift: "none",
     },
   });
 
@@ -77,6 +72,7 @@ export default function AddIncomeModal({
       isRecurring: data.isRecurring || false,
       recurringInterval: data.isRecurring ? data.recurringInterval || null : null,
       recurringEndDate: data.isRecurring && data.recurringEndDate ? new Date(data.recurringEndDate) : null,
+      ...toRecurrencePayload(data),
       isPaid: false, // Default to unpaid for new income
     };
     
@@ -93,6 +89,8 @@ export default function AddIncomeModal({
       isRecurring: false,
       recurringInterval: undefined,
       recurringEndDate: undefined,
+      recurrenceRule: "",
+      recurrenceShift: "none",
     });
   }
 
@@ -188,11 +186,12 @@ export default function AddIncomeModal({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {persons.map((person) => (
-                          <SelectItem key={person} value={person}>
+                        {activePeople.map((person) => (
+                          <SelectItem key={person.id} value={person.name}>
                             <div className="flex items-center">
-                              <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: personColors[person] }}></div>
-                              {person}
+                              <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: person.color }}></div>
+                              {person.emoji && <span className="mr-1">{person.emoji}</span>}
+                              {person.name}
                             </div>
                           </SelectItem>
                         ))}
@@ -240,48 +239,52 @@ export default function AddIncomeModal({
             />
             
             {form.watch("isRecurring") && (
-              <div className="grid grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="recurringInterval"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Repeat Interval</FormLabel>
-                      <Select 
-                        onValueChange={field.onChange}
-                        value={field.value}
-                      >
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="recurringInterval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeat Interval</FormLabel>
+                        <Select 
+                          onValueChange={field.onChange}
+                          value={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select interval" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {recurringIntervals.map((interval) => (
+                              <SelectItem key={interval} value={interval}>
+                                {interval.charAt(0).toUpperCase() + interval.slice(1)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                
+                  <FormField
+                    control={form.control}
+                    name="recurringEndDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>End Date (optional)</FormLabel>
                         <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select interval" />
-                          </SelectTrigger>
+                          <Input type="date" {...field} />
                         </FormControl>
-                        <SelectContent>
-                          {recurringIntervals.map((interval) => (
-                            <SelectItem key={interval} value={interval}>
-                              {interval.charAt(0).toUpperCase() + interval.slice(1)}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="recurringEndDate"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>End Date (optional)</FormLabel>
-                      <FormControl>
-                        <Input type="date" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              
+                <RecurrenceRuleFields control={form.control} />
               </div>
             )}
             
@@ -2,7 +2,10 @@ import React, { useEffect } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { PersonLabel, persons, insertSavingsSchema } from "@shared/schema";
+import { insertSavingsSchema } from "@shared/schema";
+import { usePeople } from "@/hooks/use-people";
+import { useSavingsGoals } from "@/hooks/use-savings-goals";
+import { useAccounts } from "@/hooks/use-accounts";
 import { formatDate } from "@/utils/dateUtils";
 
 import {
@@ -26,6 +29,11 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Select items can't have an empty value
+const NO_GOAL = "none";
+const NO_ACCOUNT = "none";
 
 interface AddSavingsModalProps {
   isOpen: boolean;
@@ -34,7 +42,11 @@ interface AddSavingsModalProps {
     amount: number;
     date: Date;
     notes: string | null;
-    personLabel: PersonLabel;
+    personLabel: string;
+    goalId: number | null;
+    accountId: number | null;
+    fromAccountId: number | null;
+    isWithdrawal: boolean;
   }) => void;
   isPending: boolean;
 }
@@ -54,6 +66,13 @@ const savingsFormSchema = insertSavingsSchema.extend({
   ),
   // Override notes to be just string instead of nullable string for form handling
   notes: z.string().optional(),
+  goalId: z.string(),
+  accountId: z.string(),
+  fromAccountId: z.string(),
+  isWithdrawal: z.boolean(),
+}).refine(data => data.accountId === NO_ACCOUNT || data.accountId !== data.fromAccountId, {
+  message: "Pick two different accounts",
+  path: ["fromAccountId"],
 });
 
 type SavingsFormValues = z.infer<typeof savingsFormSchema>;
@@ -67,6 +86,14 @@ export default function AddSavingsModal({
   // Get current date for the default value - only calculated once when component mounts
   const today = new Date();
   const formattedDate = formatDate(today, "yyyy-MM-dd");
+  
+  // Savings are shared by default when the household has a "Together" person
+  const { activePeople } = usePeople();
+  const defaultPerson = activePeople.find(person => person.name === "Together")?.name ?? activePeople[0]?.name ?? "";
+  const { goals } = useSavingsGoals();
+  const { activeAccounts } = useAccounts();
+  // With accounts set up, savings are a transfer into the savings account
+  const defaultAccount = String(activeAccounts.find(account => account.type === "savings")?.id ?? NO_ACCOUNT);
 
   // Initialize the form
   const form = useForm<SavingsFormValues>({
@@ -75,7 +102,11 @@ export default function AddSavingsModal({
       amount: "",
       date: today,
       notes: "", // This will be treated as an empty string, not null
-      personLabel: "Together" as PersonLabel,
+      personLabel: defaultPerson,
+      goalId: NO_GOAL,
+      accountId: defaultAccount,
+      fromAccountId: NO_ACCOUNT,
+      isWithdrawal: false,
     },
   });
 
@@ -86,10 +117,14 @@ export default function AddSavingsModal({
         amount: "",
         date: new Date(),
         notes: "",
-        personLabel: "Together" as PersonLabel,
+        personLabel: defaultPerson,
+        goalId: NO_GOAL,
+        accountId: defaultAccount,
+        fromAccountId: NO_ACCOUNT,
+        isWithdrawal: false,
       });
     }
-  }, [isOpen]); // Don't include form in dependencies
+  }, [isOpen, defaultPerson, defaultAccount]); // Don't include form in dependencies
 
   // Handle form submission
   function onSubmit(data: SavingsFormValues) {
@@ -101,20 +136,63 @@ export default function AddSavingsModal({
       date: data.date,
       notes: data.notes || null, // Convert empty string to null
       personLabel: data.personLabel,
+      goalId: data.goalId !== NO_GOAL ? parseInt(data.goalId) : null,
+      accountId: data.accountId !== NO_ACCOUNT ? parseInt(data.accountId) : null,
+      fromAccountId: data.fromAccountId !== NO_ACCOUNT ? parseInt(data.fromAccountId) : null,
+      isWithdrawal: data.isWithdrawal,
     });
   }
 
+  const isWithdrawal = form.watch("isWithdrawal");
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Add to Savings</DialogTitle>
+          <DialogTitle>{isWithdrawal ? "Withdraw from Savings" : "Add to Savings"}</DialogTitle>
           <DialogDescription>
-            Add funds to your savings account. Click save when you're done.
+            {isWithdrawal
+              ? "Take money out of your savings or one of your goals."
+              : "Add funds to your savings account. Click save when you're done."}
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="isWithdrawal"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <RadioGroup
+                      onValueChange={(value) => field.onChange(value === "withdrawal")}
+                      value={field.value ? "withdrawal" : "deposit"}
+                      className="flex gap-2"
+                    >
+                      {[
+                        { value: "deposit", label: "Deposit" },
+                        { value: "withdrawal", label: "Withdrawal" },
+                      ].map((option) => (
+                        <div key={option.value} className="flex items-center">
+                          <RadioGroupItem value={option.value} id={`savings-${option.value}`} className="peer sr-only" />
+                          <Label
+                            htmlFor={`savings-${option.value}`}
+                            className={`cursor-pointer rounded-md px-3 py-1.5 text-xs font-medium ${
+                              (field.value ? "withdrawal" : "deposit") === option.value
+                                ? "bg-primary text-primary-foreground"
+                                : "bg-muted text-muted-foreground hover:bg-muted/80"
+                            }`}
+                          >
+                            {option.label}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="amount"
@@ -133,6 +211,70 @@ export default function AddSavingsModal({
               )}
             />
 
+            {goals.length > 0 && (
+              <FormField
+                control={form.control}
+                name="goalId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Goal</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_GOAL}>No goal</SelectItem>
+                        {goals.map((goal) => (
+                          <SelectItem key={goal.id} value={String(goal.id)}>
+                            {goal.emoji ? `${goal.emoji} ` : ""}{goal.name} ({goal.saved.toFixed(2)} / {goal.targetAmount.toFixed(2)} PLN)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {activeAccounts.length > 0 && (
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  { name: "accountId", label: "Savings account" },
+                  { name: "fromAccountId", label: isWithdrawal ? "Into account" : "From account" },
+                ] as const).map(({ name, label }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                            {activeAccounts.map((account) => (
+                              <SelectItem key={account.id} value={String(account.id)}>
+                                {account.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="date"
@@ -184,25 +326,26 @@ export default function AddSavingsModal({
                   <FormControl>
                     <RadioGroup
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
                       className="flex flex-wrap gap-2"
                     >
-                      {persons.map((person) => (
-                        <div key={person} className="flex items-center space-x-1">
+                      {activePeople.map((person) => (
+                        <div key={person.id} className="flex items-center space-x-1">
                           <RadioGroupItem
-                            value={person}
-                            id={`person-${person}`}
+                            value={person.name}
+                            id={`person-${person.id}`}
                             className="peer sr-only"
                           />
                           <Label
-                            htmlFor={`person-${person}`}
+                            htmlFor={`person-${person.id}`}
                             className={`cursor-pointer rounded-md px-3 py-1.5 text-xs font-medium peer-data-[state=checked]:bg-primary peer-data-[state=checked]:text-primary-foreground ${
-                              field.value === person
+                              field.value === person.name
                                 ? "bg-primary text-primary-foreground"
                                 : "bg-muted text-muted-foreground hover:bg-muted/80"
                             }`}
                           >
-                            {person}
+                            {person.emoji && <span className="mr-1">{person.emoji}</span>}
+                            {person.name}
                           </Label>
                         </div>
                       ))}
@@ -0,0 +1,135 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { BackupRestoreSummary, ExportFormat } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Download, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { apiRequest } from '@/lib/queryClient';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'Backup (JSON)' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+];
+
+// The export needs the household header, so it's fetched and saved rather than linked to
+async function downloadExport(format: ExportFormat) {
+  const response = await apiRequest('GET', `/api/export?format=${format}`);
+  const blob = await response.blob();
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `budget.${format}`;
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BackupManager() {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { household, isOwner } = useHousehold();
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await downloadExport(format);
+    } catch (error) {
+      onError(error as Error);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const restoreBackup = useMutation({
+    mutationFn: async (file: File) => {
+      let backup: unknown;
+      try {
+        backup = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON backup`);
+      }
+      const response = await apiRequest('POST', '/api/import/backup', backup);
+      return response.json() as Promise<BackupRestoreSummary>;
+    },
+    onSuccess: (summary) => {
+      // Every cached list belongs to the household that was just replaced
+      queryClient.invalidateQueries();
+      toast({
+        title: 'Backup restored',
+        description: `${summary.transactions} transactions, ${summary.savings} savings and ${summary.categories} categories were restored`,
+      });
+    },
+    onError,
+  });
+
+  const handleRestore = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (confirm(`Restoring replaces all transactions, savings and categories of ${household?.name ?? 'this household'}. Continue?`)) {
+      restoreBackup.mutate(file);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup & Export</CardTitle>
+        <CardDescription>Download your data or restore it from a backup</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {EXPORT_OPTIONS.map(option => (
+            <Button
+              key={option.format}
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport(option.format)}
+              disabled={exporting !== null}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {exporting === option.format ? 'Exporting...' : option.label}
+            </Button>
+          ))}
+        </div>
+
+        {isOwner && (
+          <>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleRestore}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => fileInput.current?.click()}
+              disabled={restoreBackup.isPending}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {restoreBackup.isPending ? 'Restoring...' : 'Restore from backup'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,7 +10,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { BrainCog, Lightbulb, Sparkles, TrendingUp, Heart, DollarSign, Target } from 'lucide-react';
-import { TransactionWithCategory } from "@shared/schema";
+import { MonthlyBudget, TransactionWithCategory } from "@shared/schema";
+import { useMonthlyBudget } from "@/hooks/use-monthly-budget";
 
 // Types of advice we can provide
 enum AdviceType {
@@ -46,12 +47,13 @@ export default function BudgetCoachingCompanion({
   const [isOpen, setIsOpen] = useState(false);
   const [activeAdvice, setActiveAdvice] = useState<FinancialAdvice | null>(null);
   const [allAdvice, setAllAdvice] = useState<FinancialAdvice[]>([]);
+  const { budget } = useMonthlyBudget(currentDate);
 
   // Generate personalized advice based on transaction data
   useEffect(() => {
-    if (transactions.length === 0 || isLoading) return;
+    if (transactions.length === 0 || isLoading || !budget) return;
     
-    const advice = generateFinancialAdvice(transactions, currentDate);
+    const advice = generateFinancialAdvice(transactions, budget);
     setAllAdvice(advice);
     
     // Set an initial random piece of advice if none is active
@@ -59,7 +61,7 @@ export default function BudgetCoachingCompanion({
       const randomIndex = Math.floor(Math.random() * advice.length);
       setActiveAdvice(advice[randomIndex]);
     }
-  }, [transactions, currentDate, isLoading]);
+  }, [transactions, budget, isLoading]);
 
   // Function to get a new random piece of advice
   const getNewAdvice = () => {
@@ -165,7 +167,7 @@ export default function BudgetCoachingCompanion({
 // Helper function to generate personalized financial advice
 function generateFinancialAdvice(
   transactions: TransactionWithCategory[], 
-  currentDate?: Date
+  budget: MonthlyBudget
 ): FinancialAdvice[] {
   const advice: FinancialAdvice[] = [];
   
@@ -182,24 +184,9 @@ function generateFinancialAdvice(
     ];
   }
   
-  // Get transactions from the current month
-  const now = currentDate || new Date();
-  const currentMonth = now.getMonth();
-  const currentYear = now.getFullYear();
-  
-  const thisMonthTransactions = transactions.filter(t => {
-    const date = new Date(t.date);
-    return date.getMonth() === currentMonth && date.getFullYear() === currentYear;
-  });
-  
-  // Calculate total income and expenses for this month
-  const monthlyIncome = thisMonthTransactions
-    .filter(t => !t.isExpense)
-    .reduce((sum, t) => sum + t.amount, 0);
-    
-  const monthlyExpenses = thisMonthTransactions
-    .filter(t => t.isExpense)
-    .reduce((sum, t) => sum + t.amount, 0);
+  // Income and expenses of the month come from the server-calculated budget
+  const monthlyIncome = budget.income;
+  const monthlyExpenses = budget.expenses;
     
   const savingsRate = monthlyIncome > 0 ? (monthlyIncome - monthlyExpenses) / monthlyIncome * 100 : 0;
   
@@ -210,27 +197,10 @@ function generateFinancialAdvice(
   
   const totalSubscriptionCost = subscriptions.reduce((sum, t) => sum + t.amount, 0);
   
-  // Categorize spending by category
-  const spendingByCategory = new Map<string, number>();
-  
-  thisMonthTransactions
-    .filter(t => t.isExpense && t.category)
-    .forEach(t => {
-      const category = t.category?.name || 'Other';
-      const current = spendingByCategory.get(category) || 0;
-      spendingByCategory.set(category, current + t.amount);
-    });
-  
-  // Find the top spending category
-  let topCategory = '';
-  let topAmount = 0;
-  
-  spendingByCategory.forEach((amount, category) => {
-    if (amount > topAmount) {
-      topAmount = amount;
-      topCategory = category;
-    }
-  });
+  // Find the top spending category (byCategory is sorted by expenses, largest first)
+  const top = budget.byCategory.find(c => c.categoryId !== null && c.expenses > 0);
+  const topCategory = top?.name ?? '';
+  const topAmount = top?.expenses ?? 0;
   
   // Add savings rate advice
   if (monthlyIncome > 0) {
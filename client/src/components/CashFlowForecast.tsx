@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceDot } from 'recharts';
+import { CashFlowForecast as Forecast, CashFlowForecastDay, ForecastHorizon, InsertForecastSettings, forecastHorizons } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Pencil, TrendingDown } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { useCashFlowForecast, invalidateBudgets } from '@/hooks/use-monthly-budget';
+import { apiRequest } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function formatDay(date: string): string {
+  return format(parseISO(date), 'MMM d, yyyy');
+}
+
+function formatAmount(amount: number): string {
+  return `${amount.toFixed(2)} PLN`;
+}
+
+function settingsForm(forecast?: Forecast) {
+  return {
+    openingBalance: forecast?.isConfigured ? String(forecast.openingBalance) : '',
+    balanceDate: forecast?.isConfigured ? forecast.balanceDate : format(new Date(), 'yyyy-MM-dd'),
+    lowBalanceThreshold: forecast ? String(forecast.lowBalanceThreshold) : '0',
+  };
+}
+
+function ForecastTooltip({ active, payload }: { active?: boolean; payload?: { payload: CashFlowForecastDay }[] }) {
+  if (!active || !payload?.length) return null;
+  const day = payload[0].payload;
+
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs shadow-sm max-w-64">
+      <div className="font-medium">{formatDay(day.date)}</div>
+      <div>Balance: {formatAmount(day.balance)}</div>
+      {day.items.map((item, index) => (
+        <div key={index} className={cn('flex justify-between gap-2', item.amount < 0 ? 'text-red-500' : 'text-green-600')}>
+          <span className="truncate">{item.title}</span>
+          <span className="shrink-0">{item.amount > 0 ? '+' : ''}{item.amount.toFixed(2)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Projected daily running balance over the next 3, 6 or 12 months, from the household's
+ * opening balance, with the lowest point and the first day below the threshold flagged
+ */
+export default function CashFlowForecast() {
+  const [months, setMonths] = useState<ForecastHorizon>(3);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState(settingsForm());
+  const { forecast, isLoading, error } = useCashFlowForecast(months);
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+
+  const saveSettings = useMutation({
+    mutationFn: async (settings: InsertForecastSettings) => {
+      const response = await apiRequest('PUT', '/api/budget/forecast/settings', settings);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateBudgets();
+      setIsEditing(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const startEditing = () => {
+    setFormData(settingsForm(forecast));
+    setIsEditing(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const openingBalance = parseAmount(formData.openingBalance);
+    const lowBalanceThreshold = parseAmount(formData.lowBalanceThreshold || '0');
+    if (isNaN(openingBalance) || isNaN(lowBalanceThreshold) || !formData.balanceDate) {
+      toast({
+        title: 'Error',
+        description: 'Enter the opening balance, its date and a threshold',
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveSettings.mutate({ openingBalance, balanceDate: formData.balanceDate, lowBalanceThreshold });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-xl">Cash-Flow Forecast</CardTitle>
+            <CardDescription>
+              {forecast?.isConfigured
+                ? `From ${formatAmount(forecast.openingBalance)} on ${formatDay(forecast.balanceDate)}`
+                : 'Set your current balance to project it forward'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            {forecastHorizons.map(horizon => (
+              <Button
+                key={horizon}
+                size="sm"
+                variant={horizon === months ? 'default' : 'outline'}
+                onClick={() => setMonths(horizon)}
+              >
+                {horizon} mo
+              </Button>
+            ))}
+            {canEdit && !isEditing && (
+              <Button size="sm" variant="ghost" onClick={startEditing} title="Edit opening balance and threshold">
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isEditing && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="forecast-opening-balance">Opening balance</Label>
+              <Input
+                id="forecast-opening-balance"
+                inputMode="decimal"
+                value={formData.openingBalance}
+                onChange={e => setFormData({ ...formData, openingBalance: e.target.value })}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="forecast-balance-date">At the end of</Label>
+              <Input
+                id="forecast-balance-date"
+                type="date"
+                value={formData.balanceDate}
+                onChange={e => setFormData({ ...formData, balanceDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="forecast-threshold">Warn below</Label>
+              <Input
+                id="forecast-threshold"
+                inputMode="decimal"
+                value={formData.lowBalanceThreshold}
+                onChange={e => setFormData({ ...formData, lowBalanceThreshold: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={saveSettings.isPending}>
+                {saveSettings.isPending ? 'Saving...' : 'Save'}
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : error || !forecast ? (
+          <p className="text-sm text-red-500">Couldn't calculate the forecast{error ? `: ${error.message}` : ''}</p>
+        ) : (
+          <>
+            {forecast.firstBelowThreshold ? (
+              <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 dark:bg-red-950/30 p-2 text-sm text-red-600">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  The balance drops below {formatAmount(forecast.lowBalanceThreshold)} on{' '}
+                  <span className="font-medium">{formatDay(forecast.firstBelowThreshold.date)}</span>{' '}
+                  ({formatAmount(forecast.firstBelowThreshold.balance)})
+                </span>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The balance stays above {formatAmount(forecast.lowBalanceThreshold)} for the next {months} months
+              </p>
+            )}
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={forecast.days} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={date => format(parseISO(date), 'MMM d')}
+                    minTickGap={24}
+                    tick={{ fontSize: 12 }}
+                  />
+                  <YAxis tick={{ fontSize: 12 }} width={64} />
+                  <Tooltip content={<ForecastTooltip />} />
+                  <ReferenceLine
+                    y={forecast.lowBalanceThreshold}
+                    stroke="#ef4444"
+                    strokeDasharray="4 4"
+                    label={{ value: 'Threshold', position: 'insideTopLeft', fontSize: 11, fill: '#ef4444' }}
+                  />
+                  <Line type="stepAfter" dataKey="balance" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                  <ReferenceDot
+                    x={forecast.lowest.date}
+                    y={forecast.lowest.balance}
+                    r={5}
+                    fill="#ef4444"
+                    stroke="white"
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <TrendingDown className="h-4 w-4 text-red-500" />
+              <span>
+                Lowest: <span className="font-medium">{formatAmount(forecast.lowest.balance)}</span> on {formatDay(forecast.lowest.date)}
+              </span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { BudgetRolloverPolicy, CategoryBudgetStatus } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Pencil, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { useCategoryBudgets, invalidateBudgets } from '@/hooks/use-monthly-budget';
+import { apiRequest } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+
+interface CategoryBudgetsProps {
+  currentDate: Date;
+}
+
+const ROLLOVER_LABELS: Record<BudgetRolloverPolicy, string> = {
+  reset: 'Resets monthly',
+  carry_surplus: 'Carries surplus',
+  carry_deficit: 'Carries deficit',
+};
+
+function budgetWarning(budget: CategoryBudgetStatus): string | null {
+  if (budget.isOverspent) {
+    return `Over budget by ${(budget.spent - budget.available).toFixed(2)} PLN`;
+  }
+  if (budget.willOverspend) {
+    return `Upcoming payments will exceed the budget by ${(-budget.remaining).toFixed(2)} PLN`;
+  }
+  return null;
+}
+
+export default function CategoryBudgets({ currentDate }: CategoryBudgetsProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [limit, setLimit] = useState('');
+  const { budgets = [], isLoading } = useCategoryBudgets(currentDate);
+  const { toast } = useToast();
+  const { canEdit } = useHousehold();
+  const month = format(currentDate, 'yyyy-MM');
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveLimit = useMutation({
+    mutationFn: async ({ categoryId, amount }: { categoryId: number; amount: number }) => {
+      const response = await apiRequest('PUT', `/api/categories/${categoryId}/budgets/${month}`, { amount });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateBudgets();
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const resetLimit = useMutation({
+    mutationFn: async (categoryId: number) => {
+      await apiRequest('DELETE', `/api/categories/${categoryId}/budgets/${month}`);
+    },
+    onSuccess: () => {
+      invalidateBudgets();
+    },
+    onError,
+  });
+
+  const startEditing = (budget: CategoryBudgetStatus) => {
+    setEditingId(budget.categoryId);
+    setLimit(String(budget.limit));
+  };
+
+  const handleSubmit = (e: React.FormEvent, categoryId: number) => {
+    e.preventDefault();
+    const amount = parseFloat(limit.replace(',', '.'));
+    if (isNaN(amount) || amount < 0) {
+      onError(new Error('Enter a budget of 0 or more'));
+      return;
+    }
+    saveLimit.mutate({ categoryId, amount });
+  };
+
+  const displayMonth = format(currentDate, 'MMMM yyyy');
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xl">Budget vs. Actual</CardTitle>
+        <CardDescription>Category budgets for {displayMonth}</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-2 space-y-4">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : budgets.length === 0 ? (
+          <div className="h-[200px] flex items-center justify-center text-center text-sm text-muted-foreground">
+            No category budgets yet. Set a monthly budget when editing an expense category.
+          </div>
+        ) : (
+          budgets.map(budget => {
+            const warning = budgetWarning(budget);
+            const spentPercent = budget.available > 0 ? Math.min(100, (budget.spent / budget.available) * 100) : 100;
+            const projectedPercent = budget.available > 0 ? Math.min(100, (budget.projected / budget.available) * 100) : 100;
+
+            return (
+              <div key={budget.categoryId} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2 font-medium">
+                    <span>{budget.emoji || '📁'}</span>
+                    <span>{budget.name}</span>
+                  </div>
+                  {editingId === budget.categoryId ? (
+                    <form onSubmit={(e) => handleSubmit(e, budget.categoryId)} className="flex items-center gap-1">
+                      <Input
+                        value={limit}
+                        onChange={(e) => setLimit(e.target.value)}
+                        inputMode="decimal"
+                        className="h-7 w-24"
+                        autoFocus
+                      />
+                      <Button type="submit" size="sm" className="h-7" disabled={saveLimit.isPending}>Save</Button>
+                      <Button type="button" size="sm" variant="ghost" className="h-7" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                    </form>
+                  ) : (
+                    <div className="flex items-center gap-1 text-muted-foreground">
+                      <span>
+                        <span className={cn('font-semibold', budget.isOverspent ? 'text-red-600' : 'text-foreground')}>
+                          {budget.spent.toFixed(2)}
+                        </span>
+                        {' / '}{budget.available.toFixed(2)} PLN
+                      </span>
+                      {canEdit && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          title={`Change the budget for ${displayMonth} only`}
+                          onClick={() => startEditing(budget)}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {canEdit && budget.isOverride && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          title="Use the default monthly budget"
+                          onClick={() => resetLimit.mutate(budget.categoryId)}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* The lighter bar behind shows what the unpaid items still due will add */}
+                <div className="relative">
+                  <Progress
+                    value={projectedPercent}
+                    className={cn('h-2', budget.willOverspend ? '[&>div]:bg-red-200' : '[&>div]:bg-primary/30')}
+                  />
+                  <Progress
+                    value={spentPercent}
+                    className={cn(
+                      'h-2 absolute inset-0 bg-transparent',
+                      budget.isOverspent ? '[&>div]:bg-red-600' : budget.willOverspend ? '[&>div]:bg-amber-500' : ''
+                    )}
+                  />
+                </div>
+
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {budget.isOverride ? `${budget.limit.toFixed(2)} PLN this month` : `${budget.limit.toFixed(2)} PLN monthly`}
+                    {budget.carriedOver !== 0 && ` ${budget.carriedOver > 0 ? '+' : '-'} ${Math.abs(budget.carriedOver).toFixed(2)} carried over`}
+                    {budget.rollover !== 'reset' && ` · ${ROLLOVER_LABELS[budget.rollover]}`}
+                  </span>
+                  <span>
+                    {budget.projected > budget.spent && `${budget.projected.toFixed(2)} PLN projected`}
+                  </span>
+                </div>
+
+                {warning && (
+                  <div className={cn('flex items-center gap-1 text-xs', budget.isOverspent ? 'text-red-600' : 'text-amber-600')}>
+                    <AlertTriangle className="h-3 w-3" />
+                    {warning}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
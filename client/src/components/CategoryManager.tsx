@@ -1,13 +1,17 @@
 import { useState } from 'react';
 import { useQueryClient, useMutation, useQuery } from '@tanstack/react-query';
-import { Category } from '@shared/schema';
+import { Category, BudgetRolloverPolicy, InsertCategory } from '@shared/schema';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Plus, Trash2, Pencil } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useDeletedToast } from '@/hooks/use-trash';
+import { apiRequest } from '@/lib/queryClient';
+import { useHousehold } from '@/hooks/use-household';
 
 const EMOJI_OPTIONS = [
   '💰', '💵', '💳', '🏠', '🔌', '💡', '🍔', '🍕', '🍜', '☕',
@@ -30,30 +34,37 @@ const COLOR_OPTIONS = [
   { name: 'Gray', value: '#64748b' },
 ];
 
+const ROLLOVER_OPTIONS: { value: BudgetRolloverPolicy; label: string }[] = [
+  { value: 'reset', label: 'Start fresh every month' },
+  { value: 'carry_surplus', label: 'Carry unspent budget over' },
+  { value: 'carry_deficit', label: 'Carry overspending over' },
+];
+
+const EMPTY_FORM = {
+  name: '',
+  emoji: '💰',
+  color: '#3b82f6',
+  isExpense: true,
+  monthlyBudget: '',
+  budgetRollover: 'reset' as BudgetRolloverPolicy,
+};
+
 export default function CategoryManager() {
   const [isOpen, setIsOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
-  const [formData, setFormData] = useState({
-    name: '',
-    emoji: '💰',
-    color: '#3b82f6',
-    isExpense: true
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
   const { toast } = useToast();
+  const showDeletedToast = useDeletedToast();
   const queryClient = useQueryClient();
+  const { canEdit } = useHousehold();
 
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ['/api/categories'],
   });
 
   const createCategory = useMutation({
-    mutationFn: async (data: { name: string; emoji: string; color: string; isExpense: boolean }) => {
-      const response = await fetch('/api/categories', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      });
-      if (!response.ok) throw new Error('Failed to create category');
+    mutationFn: async (data: InsertCategory) => {
+      const response = await apiRequest('POST', '/api/categories', data);
       return response.json();
     },
     onSuccess: () => {
@@ -76,12 +87,7 @@ export default function CategoryManager() {
 
   const updateCategory = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: Partial<Category> }) => {
-      const response = await fetch(`/api/categories/${id}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      });
-      if (!response.ok) throw new Error('Failed to update category');
+      const response = await apiRequest('PATCH', `/api/categories/${id}`, data);
       return response.json();
     },
     onSuccess: () => {
@@ -105,17 +111,11 @@ export default function CategoryManager() {
 
   const deleteCategory = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/categories/${id}`, {
-        method: 'DELETE',
-      });
-      if (!response.ok) throw new Error('Failed to delete category');
+      await apiRequest('DELETE', `/api/categories/${id}`);
     },
-    onSuccess: () => {
+    onSuccess: (_, id) => {
       queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
-      toast({
-        title: 'Category deleted',
-        description: 'Category has been removed successfully',
-      });
+      showDeletedToast('categories', id, 'Category deleted');
     },
     onError: () => {
       toast({
@@ -127,12 +127,7 @@ export default function CategoryManager() {
   });
 
   const resetForm = () => {
-    setFormData({
-      name: '',
-      emoji: '💰',
-      color: '#3b82f6',
-      isExpense: true
-    });
+    setFormData(EMPTY_FORM);
     setEditingCategory(null);
   };
 
@@ -147,13 +142,35 @@ export default function CategoryManager() {
       return;
     }
 
+    // Only expense categories have budgets; an empty field removes the budget
+    const monthlyBudget = formData.isExpense && formData.monthlyBudget.trim()
+      ? parseFloat(formData.monthlyBudget.replace(',', '.'))
+      : null;
+    if (monthlyBudget !== null && (isNaN(monthlyBudget) || monthlyBudget <= 0)) {
+      toast({
+        title: 'Validation error',
+        description: 'Monthly budget must be a positive amount',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const data = {
+      name: formData.name,
+      emoji: formData.emoji,
+      color: formData.color,
+      isExpense: formData.isExpense,
+      monthlyBudget,
+      budgetRollover: formData.budgetRollover,
+    };
+
     if (editingCategory) {
       updateCategory.mutate({
         id: editingCategory.id,
-        data: formData
+        data
       });
     } else {
-      createCategory.mutate(formData);
+      createCategory.mutate(data);
     }
   };
 
@@ -163,7 +180,9 @@ export default function CategoryManager() {
       name: category.name,
       emoji: category.emoji || '💰',
       color: category.color,
-      isExpense: category.isExpense
+      isExpense: category.isExpense,
+      monthlyBudget: category.monthlyBudget !== null ? String(category.monthlyBudget) : '',
+      budgetRollover: category.budgetRollover as BudgetRolloverPolicy,
     });
     setIsOpen(true);
   };
@@ -182,7 +201,7 @@ export default function CategoryManager() {
             <CardTitle>Categories</CardTitle>
             <CardDescription>Manage your expense and income categories</CardDescription>
           </div>
-          <Dialog open={isOpen} onOpenChange={(open) => {
+          {canEdit && <Dialog open={isOpen} onOpenChange={(open) => {
             setIsOpen(open);
             if (!open) resetForm();
           }}>
@@ -257,6 +276,38 @@ export default function CategoryManager() {
                   <Label htmlFor="isExpense">This is an expense category</Label>
                 </div>
 
+                {formData.isExpense && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="monthlyBudget">Monthly budget (PLN)</Label>
+                      <Input
+                        id="monthlyBudget"
+                        inputMode="decimal"
+                        value={formData.monthlyBudget}
+                        onChange={(e) => setFormData({ ...formData, monthlyBudget: e.target.value })}
+                        placeholder="No budget"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>At the end of the month</Label>
+                      <Select
+                        value={formData.budgetRollover}
+                        onValueChange={(value) => setFormData({ ...formData, budgetRollover: value as BudgetRolloverPolicy })}
+                        disabled={!formData.monthlyBudget.trim()}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLLOVER_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -274,7 +325,7 @@ export default function CategoryManager() {
                 </div>
               </form>
             </DialogContent>
-          </Dialog>
+          </Dialog>}
         </div>
       </CardHeader>
       <CardContent>
@@ -295,8 +346,11 @@ export default function CategoryManager() {
                       style={{ backgroundColor: category.color }}
                     />
                     <span className="font-medium text-sm">{category.name}</span>
+                    {category.monthlyBudget !== null && (
+                      <span className="text-xs text-muted-foreground">{category.monthlyBudget.toFixed(0)} PLN/mo</span>
+                    )}
                   </div>
-                  <div className="flex gap-1">
+                  {canEdit && <div className="flex gap-1">
                     <Button
                       size="sm"
                       variant="ghost"
@@ -311,7 +365,7 @@ export default function CategoryManager() {
                     >
                       <Trash2 className="h-3 w-3" />
                     </Button>
-                  </div>
+                  </div>}
                 </div>
               ))}
           </div>
@@ -333,7 +387,7 @@ export default function CategoryManager() {
                     />
                     <span className="font-medium text-sm">{category.name}</span>
                   </div>
-                  <div className="flex gap-1">
+                  {canEdit && <div className="flex gap-1">
                     <Button
                       size="sm"
                       variant="ghost"
@@ -348,7 +402,7 @@ export default function CategoryManager() {
                     >
                       <Trash2 className="h-3 w-3" />
                     </Button>
-                  </div>
+                  </div>}
                 </div>
               ))}
           </div>
@@ -9,21 +9,34 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
 import { AutocompleteInput } from "@/components/ui/autocomplete-input";
 import { AutocompleteCategoryInput } from "@/components/ui/autocomplete-category";
-import { Category, Transaction, TransactionWithCategory, persons, recurringIntervals } from "@shared/schema";
-import { AlertCircle, Check, DollarSign, Euro, X } from "lucide-react";
+import { BASE_CURRENCY, Category, Transaction, TransactionWithCategory, isTransfer, personLabelSchema, recurringIntervals } from "@shared/schema";
+import { RecurrenceShift } from "@shared/recurrence";
+import { usePeople } from "@/hooks/use-people";
+import { AlertCircle, Check, X } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import RecurrenceRuleFields, { recurrenceFormFields, toRecurrencePayload } from "@/components/RecurrenceRuleFields";
+import TransactionHistory from "@/components/TransactionHistory";
+import SplitLinesEditor from "@/components/SplitLinesEditor";
+import TransactionTagsEditor from "@/components/TransactionTagsEditor";
 import { queryClient } from "@/lib/queryClient";
-import { 
-  SupportedCurrency, 
-  convertToPLN, 
-  fetchLatestRates, 
-  formatCurrency, 
-  getExchangeRate 
-} from "@/utils/currency-converter";
-import { saveTransactionAmountPreference, saveOccurrencePaidStatus, isProblematicTransaction as isLegacyProblematicTransaction } from "@/utils/transaction-preferences";
+import { formatCurrency, isCurrencyCode } from "@/utils/currency-converter";
+import { useCurrencies, useExchangeRate } from "@/hooks/use-exchange-rates";
+import { saveTransactionAmountPreference, clearTransactionAmountPreference, saveOccurrencePaidStatus, isProblematicTransaction as isLegacyProblematicTransaction } from "@/utils/transaction-preferences";
+import { saveOccurrenceOverride } from "@/utils/occurrence-overrides";
+import {
+  recurringEditScopes,
+  RecurringEditScope,
+  RECURRING_EDIT_SCOPE_LABELS,
+  getOccurrenceDate,
+  shiftSeriesStart,
+  splitRecurringTransaction,
+  toOccurrenceChanges,
+} from "@/utils/recurring-edit-scopes";
 import { saveDirectFixForTransaction } from "@/utils/transaction-transformers";
 import { isCriticalTransaction, setMonthSpecificPaidStatus } from "@/utils/month-specific-paid-status";
 import { 
@@ -64,26 +77,25 @@ const editTransactionSchema = z.object({
     required_error: "Category is required",
     invalid_type_error: "Category must be selected"
   }),
-  personLabel: z.enum(persons, {
-    required_error: "Person is required",
-    invalid_type_error: "Person must be selected"
-  }),
+  personLabel: personLabelSchema,
+  paidBy: z.string().optional(),
   isExpense: z.boolean(),
   isRecurring: z.boolean().optional().default(false),
   recurringInterval: z.enum(recurringIntervals).optional(),
   recurringEndDate: z.string().nullable().optional(),
+  ...recurrenceFormFields,
   isPaid: z.boolean().optional().default(false),
 });
 
 type EditTransactionFormValues = z.infer<typeof editTransactionSchema>;
 
-// Person color mapping
-const personColors: Record<string, string> = {
-  "Beni": "#3b82f6",  // Blue
-  "Fabi": "#ec4899",  // Pink
-  "Michał": "#10b981", // Green
-  "Together": "#8b5cf6" // Purple
-};
+// Select values can't be empty, so this stands for an expense nobody paid for someone else
+const NO_PAYER = 'none';
+
+// Hardcoded client-side transactions use IDs from 970000 up and only exist in this browser
+function isServerTransaction(transaction: Transaction): boolean {
+  return transaction.id < 970000;
+}
 
 export default function EditTransactionModal({
   isOpen,
@@ -94,18 +106,22 @@ export default function EditTransactionModal({
   isPending,
   titleSuggestions = []
 }: EditTransactionModalProps) {
+  const { people } = usePeople();
+  // Deactivated people can't be picked, but stay available on their own old entries
+  const selectablePeople = people.filter(person => person.isActive || person.name === transaction?.personLabel);
+  const selectablePayers = people.filter(person => !person.isShared && (person.isActive || person.name === transaction?.paidBy));
   // Hook for showing toast notifications
   const { toast } = useToast();
   
-  // State for the selected currency
-  const [selectedCurrency, setSelectedCurrency] = useState<SupportedCurrency>('PLN');
-  // State for displaying converted amount
-  const [convertedAmount, setConvertedAmount] = useState<number | null>(null);
+  // State for the selected currency and an optional rate that overrides the rate table
+  const [selectedCurrency, setSelectedCurrency] = useState(BASE_CURRENCY);
+  const [manualRate, setManualRate] = useState('');
+  const currencies = useCurrencies();
   
-  // Fetch exchange rates when component mounts
-  useEffect(() => {
-    fetchLatestRates();
-  }, []);
+  // Recurring transactions from the server can be changed for one occurrence, from it on, or as a whole
+  const [editScope, setEditScope] = useState<RecurringEditScope>('following');
+  const hasEditScopes = !!transaction?.isRecurring && isServerTransaction(transaction);
+  const occurrenceDate = transaction ? getOccurrenceDate(transaction) : '';
   
   // Create form with default values
   const form = useForm<EditTransactionFormValues>({
@@ -117,10 +133,13 @@ export default function EditTransactionModal({
       notes: "",
       categoryId: undefined,
       personLabel: undefined,
+      paidBy: NO_PAYER,
       isExpense: true,
       isRecurring: false,
       recurringInterval: 'monthly', // Default to monthly
       recurringEndDate: undefined,
+      recurrenceRule: "",
+      recurrenceShift: "none",
       isPaid: false, // Default to unpaid
     },
     // Keep values when form has errors
@@ -131,41 +150,112 @@ export default function EditTransactionModal({
   // Update form values when transaction changes
   useEffect(() => {
     if (transaction) {
-      // Need to type cast personLabel and recurringInterval to satisfy TypeScript
-      const personLabelValue = transaction.personLabel as typeof persons[number] || undefined;
+      // Need to type cast recurringInterval to satisfy TypeScript
+      const personLabelValue = transaction.personLabel || undefined;
       const recurringIntervalValue = transaction.recurringInterval as typeof recurringIntervals[number] || undefined;
       
+      // Foreign currency transactions are edited in their original currency
+      setSelectedCurrency(transaction.originalCurrency || BASE_CURRENCY);
+      setManualRate('');
+      setEditScope('following');
+      
       form.reset({
         title: transaction.title,
-        amount: transaction.amount,
-        date: transaction.date ? format(new Date(transaction.date), "yyyy-MM-dd") : "",
+        amount: transaction.originalAmount ?? transaction.amount,
+        // A recurring transaction is edited from the occurrence it was opened on
+        date: transaction.isRecurring ? getOccurrenceDate(transaction) : transaction.date ? format(new Date(transaction.date), "yyyy-MM-dd") : "",
         notes: transaction.notes || "",
         categoryId: transaction.categoryId || undefined,
         personLabel: personLabelValue,
+        paidBy: transaction.paidBy ?? NO_PAYER,
         isExpense: transaction.isExpense,
         isRecurring: transaction.isRecurring || false,
         recurringInterval: recurringIntervalValue,
         recurringEndDate: transaction.recurringEndDate 
           ? format(new Date(transaction.recurringEndDate), "yyyy-MM-dd") 
           : undefined,
+        recurrenceRule: transaction.recurrenceRule || "",
+        recurrenceShift: (transaction.recurrenceShift as RecurrenceShift) || "none",
         isPaid: transaction.isPaid === true, // Explicitly set to boolean value
       });
     }
   }, [transaction, form]);
   
-  // Watch the amount to update the converted value display
+  // Watch the amount and date to update the converted value display
   const amount = form.watch("amount");
+  const date = form.watch("date");
   
-  // Update converted amount when amount or currency changes
-  useEffect(() => {
-    if (amount && selectedCurrency !== 'PLN') {
-      const amountNumber = typeof amount === 'string' ? parseFloat(amount) : amount;
-      const convertedToPlnAmount = convertToPLN(amountNumber, selectedCurrency);
-      setConvertedAmount(convertedToPlnAmount);
-    } else {
-      setConvertedAmount(null);
+  // Preview of the rate the server will convert at; the server does the actual conversion
+  const isForeign = selectedCurrency !== BASE_CURRENCY;
+  const { conversion, isLoading: isRateLoading, error: rateError } = useExchangeRate(selectedCurrency, date ? new Date(date) : null);
+  const parsedManualRate = parseFloat(manualRate.replace(',', '.'));
+  const rate = isForeign ? (parsedManualRate > 0 ? parsedManualRate : conversion?.rate ?? null) : 1;
+  const amountNumber = typeof amount === 'string' ? parseFloat(String(amount).replace(',', '.')) : amount;
+  const convertedAmount = isForeign && rate !== null && amountNumber > 0
+    ? Math.round(amountNumber * rate * 100) / 100
+    : null;
+
+  async function saveInScope(updateData: Partial<Transaction> & Pick<Transaction, 'title' | 'amount' | 'date' | 'notes' | 'categoryId' | 'personLabel' | 'isPaid'>) {
+    if (!transaction) return;
+    
+    // The server keeps each part of the series' amounts now; a preferred amount per title would hide them
+    clearTransactionAmountPreference(transaction.title);
+    
+    // Paid status always belongs to the occurrence the edit was opened on
+    const { isPaid, date, ...seriesChanges } = updateData;
+    const paidChanged = isPaid !== (transaction.isPaid ?? false);
+    const dateChanged = format(date, "yyyy-MM-dd") !== occurrenceDate;
+    
+    try {
+      if (editScope === 'occurrence') {
+        const changes = toOccurrenceChanges(transaction, updateData);
+        if (Object.keys(changes).length > 0 && !await saveOccurrenceOverride(transaction.id, occurrenceDate, changes)) {
+          throw new Error("The occurrence could not be saved");
+        }
+      } else if (editScope === 'following') {
+        const split = await splitRecurringTransaction(
+          transaction.id,
+          occurrenceDate,
+          dateChanged ? { ...seriesChanges, date } : seriesChanges
+        );
+        if (paidChanged) {
+          await saveOccurrenceOverride(split.next.id, dateChanged ? date : occurrenceDate, { isPaid });
+        }
+      } else {
+        // Moving this occurrence moves the whole series by as many days
+        const series = queryClient.getQueryData<Transaction[]>(['/api/transactions'])?.find(t => t.id === transaction.id);
+        onUpdateTransaction(transaction.id, dateChanged
+          ? { ...seriesChanges, date: shiftSeriesStart(series?.date ?? transaction.date, occurrenceDate, date) }
+          : seriesChanges);
+        if (paidChanged) {
+          await saveOccurrenceOverride(transaction.id, occurrenceDate, { isPaid });
+        }
+      }
+    } catch (error) {
+      console.error(`[EditModal] Failed to save ${editScope} edit of ${transaction.title}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update transaction",
+        variant: "destructive",
+      });
+      return;
     }
-  }, [amount, selectedCurrency]);
+    
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    toast({
+      title: "Recurring Transaction Updated",
+      description: editScope === 'occurrence'
+        ? `Only the ${occurrenceDate} occurrence of "${transaction.title}" was changed`
+        : editScope === 'following'
+          ? `Changes to "${transaction.title}" apply from ${occurrenceDate} on; earlier months are unchanged`
+          : `Changes to "${transaction.title}" apply to every occurrence`,
+      duration: 4000,
+    });
+    
+    setSelectedCurrency(BASE_CURRENCY);
+    setManualRate('');
+    onClose();
+  }
 
   function onSubmit(data: EditTransactionFormValues) {
     if (!transaction) return;
@@ -206,11 +296,37 @@ export default function EditTransactionModal({
       }
     }
     
-    // Currency conversion if needed
-    if (selectedCurrency !== 'PLN') {
+    // Currency conversion if needed. Unchanged foreign transactions keep the rate they were booked at.
+    let currencyData = {};
+    const wasForeign = !!transaction.originalCurrency;
+    const currencyUnchanged = wasForeign &&
+      selectedCurrency === transaction.originalCurrency &&
+      finalAmount === transaction.originalAmount &&
+      data.date === (transaction.isRecurring ? occurrenceDate : format(new Date(transaction.date), "yyyy-MM-dd")) &&
+      !(parsedManualRate > 0);
+    
+    if (isForeign && currencyUnchanged) {
+      finalAmount = transaction.amount;
+    } else if (isForeign) {
+      if (!isCurrencyCode(selectedCurrency)) {
+        toast({ title: "Invalid currency", description: "Enter a three-letter currency code such as EUR", variant: "destructive" });
+        return;
+      }
+      if (rate === null) {
+        toast({
+          title: "No exchange rate",
+          description: `No ${selectedCurrency} rate is known for ${data.date}. Enter the rate you were charged.`,
+          variant: "destructive",
+        });
+        return;
+      }
       const originalAmount = finalAmount;
-      finalAmount = convertToPLN(finalAmount, selectedCurrency);
+      finalAmount = Math.round(originalAmount * rate * 100) / 100;
+      currencyData = { originalAmount, originalCurrency: selectedCurrency, exchangeRate: parsedManualRate > 0 ? parsedManualRate : null };
       console.log(`[EditModal] Converted ${originalAmount} ${selectedCurrency} to ${finalAmount} PLN`);
+    } else if (wasForeign) {
+      // Switching back to PLN drops the original amount and rate
+      currencyData = { originalCurrency: null };
     }
     
     // Final validation to ensure we have a valid number
@@ -221,8 +337,8 @@ export default function EditTransactionModal({
     
     console.log(`[EditModal] Final amount to save: ${finalAmount} (${typeof finalAmount})`);
     
-    // Special handling for all recurring transactions
-    if (transaction.isRecurring) {
+    // Special handling for recurring transactions that only exist in this browser
+    if (transaction.isRecurring && !hasEditScopes) {
       // Save the preferred amount for recurring transactions in localStorage
       // This ensures the preference is remembered between sessions
       console.log(`[EditModal] Saving preferred amount for ${transaction.title}: ${finalAmount} PLN`);
@@ -254,17 +370,25 @@ export default function EditTransactionModal({
     const updateData = {
       ...data,
       amount: finalAmount, // Use validated amount
+      ...currencyData,
       // Convert string dates to Date objects
       date: new Date(data.date),
       notes: data.notes || null,
       categoryId: data.categoryId || null,
       personLabel: data.personLabel, // Required field in schema
+      paidBy: data.paidBy && data.paidBy !== NO_PAYER ? data.paidBy : null,
       isRecurring: data.isRecurring || false,
       recurringInterval: data.isRecurring ? (data.recurringInterval || 'monthly') : null,
       recurringEndDate: data.recurringEndDate ? new Date(data.recurringEndDate) : null,
+      ...toRecurrencePayload(data),
       isPaid: data.isPaid !== undefined ? data.isPaid : (transaction.isPaid || false), // Preserve existing isPaid value if not explicitly changed
     };
     
+    if (hasEditScopes) {
+      saveInScope(updateData);
+      return;
+    }
+    
     console.log(`[EditModal] Sending update to backend for transaction ${transaction.id}:`, updateData);
     
     // Special handling for recurring transactions
@@ -438,8 +562,8 @@ export default function EditTransactionModal({
     }
     
     // Reset currency after submission
-    setSelectedCurrency('PLN');
-    setConvertedAmount(null);
+    setSelectedCurrency(BASE_CURRENCY);
+    setManualRate('');
   }
 
   const watchIsRecurring = form.watch("isRecurring");
@@ -473,7 +597,7 @@ export default function EditTransactionModal({
             Edit {watchIsExpense ? "Expense" : "Income"}
             {transaction?.title ? `: ${transaction.title}` : ""}
           </DialogTitle>
-          {(isRecurringInstance || transaction?.isRecurring) && (
+          {!hasEditScopes && (isRecurringInstance || transaction?.isRecurring) && (
             <div className="mt-2 px-3 py-2 text-sm bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-md">
               <div className="flex items-start">
                 <AlertCircle className="h-4 w-4 mr-2 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
@@ -492,6 +616,41 @@ export default function EditTransactionModal({
         
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {/* Which occurrences the changes apply to */}
+            {hasEditScopes && (
+              <div className="space-y-2">
+                <Label>Apply changes to</Label>
+                <RadioGroup
+                  onValueChange={(value) => setEditScope(value as RecurringEditScope)}
+                  value={editScope}
+                  className="flex flex-wrap gap-2"
+                >
+                  {recurringEditScopes.map((scope) => (
+                    <div key={scope} className="flex items-center">
+                      <RadioGroupItem value={scope} id={`edit-scope-${scope}`} className="peer sr-only" />
+                      <Label
+                        htmlFor={`edit-scope-${scope}`}
+                        className={`cursor-pointer rounded-md px-3 py-1.5 text-xs font-medium ${
+                          editScope === scope
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-muted text-muted-foreground hover:bg-muted/80"
+                        }`}
+                      >
+                        {RECURRING_EDIT_SCOPE_LABELS[scope]}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                <p className="text-xs text-muted-foreground">
+                  {editScope === 'occurrence'
+                    ? `Only ${occurrenceDate} changes.`
+                    : editScope === 'following'
+                      ? `${occurrenceDate} and every later occurrence change; earlier months keep their values.`
+                      : "Every occurrence changes, including past months."}
+                </p>
+              </div>
+            )}
+            
             {/* Title field */}
             <FormField
               control={form.control}
@@ -570,11 +729,12 @@ export default function EditTransactionModal({
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {persons.map((person) => (
-                        <SelectItem key={person} value={person}>
+                      {selectablePeople.map((person) => (
+                        <SelectItem key={person.id} value={person.name}>
                           <div className="flex items-center">
-                            <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: personColors[person] }}></div>
-                            {person}
+                            <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: person.color }}></div>
+                            {person.emoji && <span className="mr-1">{person.emoji}</span>}
+                            {person.name}
                           </div>
                         </SelectItem>
                       ))}
@@ -585,6 +745,40 @@ export default function EditTransactionModal({
               )}
             />
             
+            {/* Payer, for settling shared expenses; it belongs to the whole series, not one occurrence */}
+            {transaction && transaction.isExpense && !isTransfer(transaction) && isServerTransaction(transaction) && selectablePayers.length > 1 && (
+              <FormField
+                control={form.control}
+                name="paidBy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Paid by (optional)</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value ?? NO_PAYER}
+                      disabled={hasEditScopes && editScope === 'occurrence'}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Not tracked" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PAYER}>Not tracked</SelectItem>
+                        {selectablePayers.map((person) => (
+                          <SelectItem key={person.id} value={person.name}>
+                            {person.emoji && <span className="mr-1">{person.emoji}</span>}
+                            {person.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             {/* Amount field */}
             <FormField
               control={form.control}
@@ -594,43 +788,36 @@ export default function EditTransactionModal({
                   <FormLabel>Amount</FormLabel>
                   <FormControl>
                     <div className="space-y-2">
-                      {/* Currency selector buttons */}
-                      <div className="flex space-x-2 mb-2">
-                        <Button 
-                          type="button" 
-                          variant={selectedCurrency === 'PLN' ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setSelectedCurrency('PLN')}
-                          className="flex-1"
-                        >
-                          PLN
-                        </Button>
-                        <Button 
-                          type="button" 
-                          variant={selectedCurrency === 'EUR' ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setSelectedCurrency('EUR')}
-                          className="flex-1"
-                        >
-                          <Euro className="h-4 w-4 mr-1" /> EUR
-                        </Button>
-                        <Button 
-                          type="button" 
-                          variant={selectedCurrency === 'USD' ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setSelectedCurrency('USD')}
-                          className="flex-1"
-                        >
-                          <DollarSign className="h-4 w-4 mr-1" /> USD
-                        </Button>
+                      {/* Currency picker: suggestions, but any ISO code can be typed */}
+                      <div className="flex items-center space-x-2 mb-2">
+                        <Input
+                          list="edit-transaction-currencies"
+                          value={selectedCurrency}
+                          onChange={(e) => setSelectedCurrency(e.target.value.trim().toUpperCase().slice(0, 3))}
+                          placeholder={BASE_CURRENCY}
+                          className="w-24"
+                          aria-label="Currency"
+                        />
+                        <datalist id="edit-transaction-currencies">
+                          {currencies.map(currency => <option key={currency} value={currency} />)}
+                        </datalist>
+                        {isForeign && (
+                          <Input
+                            inputMode="decimal"
+                            value={manualRate}
+                            onChange={(e) => setManualRate(e.target.value)}
+                            placeholder={conversion ? `Rate ${conversion.rate.toFixed(4)}` : 'Rate'}
+                            className="flex-1"
+                            aria-label={`PLN per ${selectedCurrency}`}
+                          />
+                        )}
                       </div>
                       
                       {/* Amount input with currency prefix */}
                       <div className="relative">
                         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                           <span className="text-gray-500">
-                            {selectedCurrency === 'PLN' ? 'PLN' : 
-                             selectedCurrency === 'USD' ? '$' : '€'}
+                            {selectedCurrency || BASE_CURRENCY}
                           </span>
                         </div>
                         <Input 
@@ -648,12 +835,18 @@ export default function EditTransactionModal({
                       </div>
                       
                       {/* Show converted amount if currency is not PLN */}
-                      {convertedAmount !== null && selectedCurrency !== 'PLN' && (
+                      {isForeign && (
                         <div className="text-sm text-muted-foreground mt-1">
-                          ≈ {formatCurrency(convertedAmount, 'PLN')} 
-                          <span className="text-xs ml-1">
-                            (Rate: {getExchangeRate(selectedCurrency, 'PLN').toFixed(4)})
-                          </span>
+                          {convertedAmount !== null && rate !== null ? (
+                            <>
+                              ≈ {formatCurrency(convertedAmount)}
+                              <span className="text-xs ml-1">
+                                (Rate: {rate.toFixed(4)}{parsedManualRate > 0 ? ', entered' : conversion ? ` of ${conversion.rateDate}` : ''})
+                              </span>
+                            </>
+                          ) : isRateLoading ? 'Looking up the rate...'
+                            : rateError ? 'No rate is known for this date; enter the rate you were charged'
+                            : null}
                         </div>
                       )}
                     </div>
@@ -671,7 +864,8 @@ export default function EditTransactionModal({
                 <FormItem>
                   <FormLabel>Date</FormLabel>
                   <FormControl>
-                    <Input type="date" {...field} />
+                    {/* An occurrence stays on its date; moving it is a change from it on */}
+                    <Input type="date" {...field} disabled={hasEditScopes && editScope === 'occurrence'} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -746,26 +940,28 @@ export default function EditTransactionModal({
             />
             
             {/* Recurring switch */}
-            <FormField
-              control={form.control}
-              name="isRecurring"
-              render={({ field }) => (
-                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                  <div className="space-y-0.5">
-                    <FormLabel>Recurring Transaction</FormLabel>
-                  </div>
-                  <FormControl>
-                    <Switch
-                      checked={field.value}
-                      onCheckedChange={field.onChange}
-                    />
-                  </FormControl>
-                </FormItem>
-              )}
-            />
+            {!(hasEditScopes && editScope === 'occurrence') && (
+              <FormField
+                control={form.control}
+                name="isRecurring"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Recurring Transaction</FormLabel>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
             
             {/* Conditional fields for recurring transactions */}
-            {watchIsRecurring && (
+            {watchIsRecurring && !(hasEditScopes && editScope === 'occurrence') && (
               <div className="space-y-4">
                 <FormField
                   control={form.control}
@@ -813,6 +1009,8 @@ export default function EditTransactionModal({
                     </FormItem>
                   )}
                 />
+                
+                <RecurrenceRuleFields control={form.control} />
               </div>
             )}
             
@@ -845,6 +1043,21 @@ export default function EditTransactionModal({
               </div>
             )}
 
+            {/* Tags are saved on their own, like split lines */}
+            {transaction && isServerTransaction(transaction) && !isTransfer(transaction) && (
+              <TransactionTagsEditor transaction={transaction} />
+            )}
+
+            {/* Split lines are saved on their own; transfers only move money between accounts */}
+            {transaction && isServerTransaction(transaction) && !isTransfer(transaction) && (
+              <SplitLinesEditor transaction={transaction} categories={categories} />
+            )}
+
+            {/* Who changed this transaction and when; hardcoded transactions only live in the browser */}
+            {transaction && transaction.id < 970000 && (
+              <TransactionHistory transactionId={transaction.id} />
+            )}
+
             <div className="sticky bottom-0 bg-background pt-4 pb-2 flex flex-col sm:flex-row sm:justify-end gap-2">
               <Button 
                 type="button" 
@@ -9,21 +9,16 @@ import {
   startOfWeek, 
   endOfWeek, 
   parseISO, 
-  addDays, 
   isSameDay, 
   addMonths, 
-  addWeeks, 
-  addYears, 
-  lastDayOfMonth,
   startOfYear,
-  endOfYear,
-  isAfter,
-  isBefore
+  endOfYear
 } from "date-fns";
 import { toast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { skipTransactionForMonth, isTransactionSkippedForMonth } from "../utils/skipMonthUtils";
 import { TransactionWithCategory } from "@shared/schema";
+import { getOccurrenceDates, describeTransactionRecurrence } from "@shared/recurrence";
 import { 
   Tooltip,
   TooltipContent,
@@ -58,7 +53,7 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { formatCurrency } from "@/utils/currency-converter";
+import { formatCurrency, describeOriginalAmount } from "@/utils/currency-converter";
 import { createHardcodedIncomeTransactions } from "@/utils/income-hardcoder";
 import { getPreviousMonthTotal, getCurrentMonthTotal } from "@/utils/report-calculations";
 import { getMonthlyPaidStatus } from "@/utils/strict-monthly-paid-status";
@@ -232,224 +227,49 @@ export default function ExpenseCalendar({
         console.log(`[CALENDAR] Skipping "${transaction.title}" - already a recurring instance from expand-recurring`);
         return;
       }
-      // Safely parse the original transaction date, ensuring we always have a valid Date object
-      const originalDate = typeof transaction.date === 'string' 
-        ? parseISO(transaction.date) 
-        : transaction.date instanceof Date 
-          ? transaction.date
-          : new Date(); // Fallback in case of invalid date
+      console.log(`Processing recurring transaction: ${transaction.title}, rule: ${transaction.recurrenceRule || transaction.recurringInterval}, original date: ${format(new Date(transaction.date), 'yyyy-MM-dd')}`);
       
-      const interval = transaction.recurringInterval || 'monthly';
-      
-      console.log(`Processing recurring transaction: ${transaction.title}, interval: ${interval}, original date: ${format(originalDate, 'yyyy-MM-dd')}`);
-      
-      // Calculate the first occurrence starting point
-      let startingDate: Date;
-      
-      if (originalDate >= viewStart) {
-        // If the original date is in or after the current view, 
-        // we start from the original date for the first instance
-        startingDate = originalDate;
-      } else {
-        // The original date is before the current view - we need to find 
-        // the first occurrence that falls within or after the view
-        startingDate = originalDate;
-        
-        // Create a counter to prevent infinite loops
-        let safety = 0;
-        const MAX_SAFETY = 100;
-        
-        // Skip ahead until we find a date near or in our view range
-        // For monthly transactions, we need to be more careful about day-of-month alignment
-        while (startingDate < viewStart && safety < MAX_SAFETY) {
-          safety++;
-          
-          // Calculate next occurrence
-          switch (interval) {
-            case 'daily':
-              startingDate = addDays(startingDate, 1);
-              break;
-            case 'weekly':
-              startingDate = addWeeks(startingDate, 1);
-              break;
-            case 'monthly': {
-              // Keep the same day of month when adding months
-              const originalDay = originalDate.getDate();
-              const nextMonth = addMonths(startingDate, 1);
-              
-              // Create a new date with the correct day (accounting for month length)
-              const lastDayOfNextMonth = lastDayOfMonth(nextMonth);
-              const targetDay = Math.min(originalDay, lastDayOfNextMonth.getDate());
-              
-              startingDate = new Date(
-                nextMonth.getFullYear(), 
-                nextMonth.getMonth(), 
-                targetDay,
-                12, 0, 0 // noon to avoid timezone issues
-              );
-              break;
-            }
-            case 'yearly':
-              startingDate = addYears(startingDate, 1);
-              break;
-            default:
-              startingDate = addMonths(startingDate, 1);
-          }
-        }
-        
-        if (safety >= MAX_SAFETY) {
-          console.warn(`Safety limit reached for ${transaction.title}, skipping.`);
-          return; // Skip this transaction
-        }
-      }
-      
-      // Now calculate the recurring instances starting from our computed starting date
-      let nextDate = startingDate;
-      
-      // Calculate max future date (5 years from the selected date)
-      const maxFutureDate = addYears(currentDate, 5);
-      // Safely convert the recurring end date to a Date object
-      let recurringEndDate: Date;
-      if (transaction.recurringEndDate) {
-        if (typeof transaction.recurringEndDate === 'string') {
-          recurringEndDate = parseISO(transaction.recurringEndDate);
-        } else if (transaction.recurringEndDate instanceof Date) {
-          recurringEndDate = transaction.recurringEndDate;
-        } else {
-          recurringEndDate = maxFutureDate; // Fallback to a safe default
-        }
-      } else {
-        recurringEndDate = maxFutureDate;
-      }
-      
-      // Create a counter to limit iterations
-      let counter = 0;
+      // Keep generating occurrences for up to 12 months in the future
+      // to ensure all future calendar views will show recurring transactions
       const MAX_ITERATIONS = 60;
+      const maxFutureDate = addMonths(new Date(), 12);
+      const rangeEnd = viewEnd > maxFutureDate ? viewEnd : maxFutureDate;
+      const occurrenceDates = getOccurrenceDates(transaction, viewStart, rangeEnd);
       
-      // Track the previous date to detect if we're not advancing
-      let prevDate = new Date(0); // Start with a date far in the past
-      
-      // Generate recurring instances within the current view and future months
-      // Set the longer view period (up to 1 year in the future)
-      const extendedEndDate = addYears(new Date(), 1); // Look ahead a full year for all recurring transactions
-      
-      // ALWAYS generate occurrences for ALL recurring transactions, regardless of type
-      // This ensures all recurring transactions show properly in the future
-      
-      // Determine which month/year we're currently viewing to compare with the nextDate
-      const viewingMonth = currentDate.getMonth();
-      const viewingYear = currentDate.getFullYear();
-      
-      // Force add ALL recurring transactions for a full year of occurrences
-      // This is a complete override to ensure reliable display of all recurring transactions
-      const isSubscription = transaction.category?.name === 'Subscription';
-      const isIncome = !transaction.isExpense;
-      
-      while (nextDate <= recurringEndDate && counter < MAX_ITERATIONS) {
-        counter++;
-        
-        // Calculate if this occurrence is within our view period
-        const inView = nextDate >= viewStart && nextDate <= viewEnd;
-        
-        // Is this in a critical month? May-Aug 2025
-        const month = nextDate.getMonth();
-        const year = nextDate.getFullYear();
-        const isInCriticalMonth = (year === 2025 && month >= 4 && month <= 7);
-        
-        // Is this occurrence in the month being viewed in the calendar?
-        const isInViewingMonth = (nextDate.getMonth() === viewingMonth && nextDate.getFullYear() === viewingYear);
-        
-        // ALWAYS ADD RECURRING TRANSACTIONS for up to one full year
-        // We want to ensure ALL recurring transactions are visible in the calendar
-        const withinOneYear = nextDate <= addYears(new Date(), 1);
-        
-        // For subscriptions and income, we are extra careful to always include them
-        const isImportantType = isSubscription || isIncome;
-        
-        // Add EVERYTHING that meets our criteria
-        if (inView || withinOneYear || isInCriticalMonth || isInViewingMonth || isImportantType) {
-          const nextDateStr = format(nextDate, 'yyyy-MM-dd');
-          if (!grouped[nextDateStr]) {
-            grouped[nextDateStr] = [];
-          }
-          
-          // Check if this recurring instance has been deleted for this month
-          const monthKey = format(nextDate, 'yyyy-MM');
-          const storageKey = `deleted-recurring-instances-${monthKey}`;
-          const deletedInstanceIds: number[] = JSON.parse(localStorage.getItem(storageKey) || '[]');
-          
-          // Skip this instance if it's been deleted for the month
-          if (deletedInstanceIds.includes(transaction.id)) {
-            console.log(`Skipping deleted recurring instance: ${transaction.title} on ${nextDateStr}`);
-          } else {
-            // Create a copy of the transaction with the future date
-            const monthKey = format(nextDate, 'yyyy-MM');
-            const paidKey = `paid_status_${transaction.id}_${monthKey}`;
-            const isPaidStatus = localStorage.getItem(paidKey) === 'true';
-            
-            const futureCopy = {
-              ...transaction,
-              displayDate: nextDate, // Store occurrence date
-              displayDateStr: nextDateStr, // Add a formatted date string for consistent key generation
-              isRecurringInstance: true, // Flag to indicate this is a recurring instance
-              isPaid: isPaidStatus // Apply the month-specific paid status directly
-            };
-            
-            grouped[nextDateStr].push(futureCopy);
-            console.log(`Added future occurrence on ${nextDateStr}`);
-          }
+      occurrenceDates.slice(0, MAX_ITERATIONS).forEach(nextDate => {
+        const nextDateStr = format(nextDate, 'yyyy-MM-dd');
+        if (!grouped[nextDateStr]) {
+          grouped[nextDateStr] = [];
         }
         
-        // Store current date for comparison
-        prevDate = new Date(nextDate);
+        // Check if this recurring instance has been deleted for this month
+        const monthKey = format(nextDate, 'yyyy-MM');
+        const storageKey = `deleted-recurring-instances-${monthKey}`;
+        const deletedInstanceIds: number[] = JSON.parse(localStorage.getItem(storageKey) || '[]');
         
-        // Calculate the next occurrence
-        switch (interval) {
-          case 'daily':
-            nextDate = addDays(nextDate, 1);
-            break;
-          case 'weekly':
-            nextDate = addWeeks(nextDate, 1);
-            break;
-          case 'monthly': {
-            // Keep the same day of month when adding months
-            const originalDay = originalDate.getDate();
-            const nextMonth = addMonths(nextDate, 1);
-            
-            // Create a new date with the correct day (accounting for month length)
-            const lastDayOfNextMonth = lastDayOfMonth(nextMonth);
-            const targetDay = Math.min(originalDay, lastDayOfNextMonth.getDate());
-            
-            nextDate = new Date(
-              nextMonth.getFullYear(), 
-              nextMonth.getMonth(), 
-              targetDay,
-              12, 0, 0 // noon to avoid timezone issues
-            );
-            break;
-          }
-          case 'yearly':
-            nextDate = addYears(nextDate, 1);
-            break;
-          default:
-            nextDate = addMonths(nextDate, 1);
+        // Skip this instance if it's been deleted for the month
+        if (deletedInstanceIds.includes(transaction.id)) {
+          console.log(`Skipping deleted recurring instance: ${transaction.title} on ${nextDateStr}`);
+          return;
         }
         
-        // Check if date is advancing (prevent infinite loop)
-        if (nextDate.getTime() === prevDate.getTime()) {
-          console.error('Date not advancing, breaking loop');
-          break;
-        }
+        // Create a copy of the transaction with the future date
+        const paidKey = `paid_status_${transaction.id}_${monthKey}`;
+        const isPaidStatus = localStorage.getItem(paidKey) === 'true';
         
-        // Keep generating occurrences for up to 12 months in the future
-        // to ensure all future calendar views will show recurring transactions
-        if (nextDate > addMonths(new Date(), 12) && counter > 2) {
-          console.log('Reached max future date limit, stopping iteration');
-          break;
-        }
-      }
+        const futureCopy = {
+          ...transaction,
+          displayDate: nextDate, // Store occurrence date
+          displayDateStr: nextDateStr, // Add a formatted date string for consistent key generation
+          isRecurringInstance: true, // Flag to indicate this is a recurring instance
+          isPaid: isPaidStatus // Apply the month-specific paid status directly
+        };
+        
+        grouped[nextDateStr].push(futureCopy);
+        console.log(`Added future occurrence on ${nextDateStr}`);
+      });
       
-      if (counter >= MAX_ITERATIONS) {
+      if (occurrenceDates.length > MAX_ITERATIONS) {
         console.warn(`Max iterations (${MAX_ITERATIONS}) reached for ${transaction.title}`);
       }
     });
@@ -942,6 +762,9 @@ export default function ExpenseCalendar({
                                 {transaction.isExpense ? 'Expense: ' : 'Income: '}
                                 {formatCurrency(transaction.amount || 0, 'PLN')}
                               </div>
+                              {describeOriginalAmount(transaction) && (
+                                <div className="text-xs">Originally {describeOriginalAmount(transaction)}</div>
+                              )}
                               {transaction.personLabel && (
                                 <div className="text-xs">Person: {transaction.personLabel}</div>
                               )}
@@ -960,7 +783,7 @@ export default function ExpenseCalendar({
                               )}
                               <div className="text-xs text-muted-foreground">
                                 {transaction.isRecurring ? "Recurring" : "One-time"} 
-                                {transaction.isRecurring && transaction.recurringInterval && ` (${transaction.recurringInterval})`}
+                                {transaction.isRecurring && describeTransactionRecurrence(transaction) && ` (${describeTransactionRecurrence(transaction)})`}
                               </div>
                               <div className="text-xs text-muted-foreground">
                                 Status: {isPaid ? 'Paid ✓' : 'Unpaid'}
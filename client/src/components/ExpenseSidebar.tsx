@@ -1,6 +1,8 @@
 import { useMemo } from 'react';
 import { format, parseISO, isToday, startOfWeek, endOfWeek, addWeeks, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
-import { Category, TransactionWithCategory, persons } from '@shared/schema';
+import { Category, TransactionWithCategory } from '@shared/schema';
+import { splitParts } from '@shared/split-lines';
+import { usePeople } from '@/hooks/use-people';
 import FinancialSummary from './FinancialSummary';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Check, Edit, Trash2, MoreHorizontal } from 'lucide-react';
@@ -11,14 +13,12 @@ import {
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
 
-// Person color mapping
-const personColors: Record<string, string> = {
-  "Beni": "#3b82f6",  // Blue
-  "Fabi": "#ec4899",  // Pink
-  "Michał": "#10b981", // Green
-  "Together": "#8b5cf6" // Purple
-};
+// The categories and people a transaction counts towards: those of its split lines, if it is split
+function transactionParts(transaction: TransactionWithCategory) {
+  return splitParts(transaction.amount, transaction.categoryId, transaction.personLabel, transaction.lines);
+}
 
+// Person color mapping
 interface ExpenseSidebarProps {
   transactions: TransactionWithCategory[];
   categories: Category[];
@@ -27,6 +27,8 @@ interface ExpenseSidebarProps {
   onFilterChange: (filter: string | null) => void;
   activePersonFilter: string | null;
   onPersonFilterChange: (filter: string | null) => void;
+  activeTagFilter: string | null;
+  onTagFilterChange: (filter: string | null) => void;
   onEditTransaction: (transaction: TransactionWithCategory) => void;
   onDeleteTransaction: (id: number) => void;
   isLoading: boolean;
@@ -41,11 +43,14 @@ export default function ExpenseSidebar({
   onFilterChange,
   activePersonFilter,
   onPersonFilterChange,
+  activeTagFilter,
+  onTagFilterChange,
   onEditTransaction,
   onDeleteTransaction,
   isLoading,
   currentDate
 }: ExpenseSidebarProps) {
+  const { people, getPersonColor } = usePeople();
   if (isLoading) {
     return (
       <div className="w-full md:w-96 bg-card border-l border-border flex flex-col overflow-hidden">
@@ -78,13 +83,13 @@ export default function ExpenseSidebar({
     
     // Count transactions per category
     transactions.forEach(transaction => {
-      const category = categories.find(c => c.id === transaction.categoryId);
-      if (category) {
+      const categoryIds = new Set(transactionParts(transaction).map(part => part.categoryId));
+      categories.filter(c => categoryIds.has(c.id)).forEach(category => {
         if (!counts[category.name]) {
           counts[category.name] = { count: 0, color: category.color };
         }
         counts[category.name].count += 1;
-      }
+      });
     });
     
     return counts;
@@ -94,47 +99,70 @@ export default function ExpenseSidebar({
   const personCounts = useMemo(() => {
     const counts: Record<string, number> = {};
     
-    // Initialize with all person labels
-    persons.forEach(person => {
-      counts[person] = 0;
+    // Initialize with all of the household's people
+    people.forEach(person => {
+      counts[person.name] = 0;
     });
     
     // Count transactions per person
     transactions.forEach(transaction => {
-      if (transaction.personLabel) {
-        if (!counts[transaction.personLabel]) {
-          counts[transaction.personLabel] = 0;
+      const personLabels = new Set(transactionParts(transaction).map(part => part.personLabel));
+      personLabels.forEach(personLabel => {
+        if (personLabel) {
+          if (!counts[personLabel]) {
+            counts[personLabel] = 0;
+          }
+          counts[personLabel] += 1;
         }
-        counts[transaction.personLabel] += 1;
-      }
+      });
     });
     
+    return counts;
+  }, [transactions, people]);
+  
+  // Calculate tag counts; only tags of this period's transactions are offered
+  const tagCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    transactions.forEach(transaction => {
+      transaction.tags?.forEach(tag => {
+        counts[tag] = (counts[tag] ?? 0) + 1;
+      });
+    });
     return counts;
   }, [transactions]);
   
-  // Filter transactions based on category and person filters
+  // Filter transactions based on category, person and tag filters
   const filteredTransactions = useMemo(() => {
     if (!transactions.length) return [];
     
     return transactions.filter(transaction => {
+      const parts = transactionParts(transaction);
+      
       // Apply category filter
       if (activeFilter !== null) {
-        const category = categories.find(c => c.id === transaction.categoryId);
-        if (!category || category.name !== activeFilter) {
+        const matchesCategory = parts.some(part =>
+          categories.find(c => c.id === part.categoryId)?.name === activeFilter
+        );
+        if (!matchesCategory) {
           return false;
         }
       }
       
       // Apply person filter
       if (activePersonFilter !== null) {
-        if (transaction.personLabel !== activePersonFilter) {
+        if (!parts.some(part => part.personLabel === activePersonFilter)) {
           return false;
         }
       }
       
+      // Apply tag filter
+      if (activeTagFilter !== null && !transaction.tags?.includes(activeTagFilter)) {
+        return false;
+      }
+      
       return true;
     });
-  }, [transactions, activeFilter, activePersonFilter, categories]);
+  }, [transactions, activeFilter, activePersonFilter, activeTagFilter, categories]);
   
   // Group transactions by date for the sidebar list
   const groupedTransactions = useMemo(() => {
@@ -217,15 +245,15 @@ export default function ExpenseSidebar({
             All
           </button>
           
-          {persons
+          {Object.keys(personCounts)
             .filter(person => personCounts[person] > 0)
             .map((person) => (
             <button 
               key={person}
               className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap flex items-center`}
               style={{ 
-                backgroundColor: activePersonFilter === person ? `${personColors[person]}30` : 'hsl(var(--muted))',
-                color: activePersonFilter === person ? personColors[person] : 'hsl(var(--foreground))'
+                backgroundColor: activePersonFilter === person ? `${getPersonColor(person)}30` : 'hsl(var(--muted))',
+                color: activePersonFilter === person ? getPersonColor(person) : 'hsl(var(--foreground))'
               }}
               onClick={() => onPersonFilterChange(person)}
             >
@@ -236,6 +264,38 @@ export default function ExpenseSidebar({
             </button>
           ))}
         </div>
+        
+        {/* Tag Filters */}
+        {Object.keys(tagCounts).length > 0 && (
+          <>
+            <h3 className="text-sm font-medium text-muted-foreground mb-1 mt-3">Tags</h3>
+            <div className="flex flex-wrap gap-2">
+              <button 
+                className={`px-3 py-1 ${activeTagFilter === null ? 'bg-muted text-foreground' : 'bg-muted/50 text-muted-foreground'} rounded-full text-xs font-medium whitespace-nowrap`}
+                onClick={() => onTagFilterChange(null)}
+              >
+                All
+              </button>
+              
+              {Object.keys(tagCounts)
+                .sort()
+                .map((tag) => (
+                <button 
+                  key={tag}
+                  className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap flex items-center ${
+                    activeTagFilter === tag ? 'bg-primary/20 text-primary' : 'bg-muted text-foreground'
+                  }`}
+                  onClick={() => onTagFilterChange(tag)}
+                >
+                  #{tag}
+                  <span className="ml-1 bg-background/50 rounded-full px-1.5 py-0.5 text-[10px] font-normal">
+                    {tagCounts[tag]}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
       </div>
       
       {/* Transaction List */}
@@ -282,10 +342,23 @@ export default function ExpenseSidebar({
                             {!category && transaction.isExpense === false && (
                               <span className="ml-2 px-2 py-0.5 bg-muted text-foreground text-xs rounded-full">Income</span>
                             )}
+                            {!!transaction.lines?.length && (
+                              <span
+                                className="ml-2 px-2 py-0.5 bg-muted text-muted-foreground text-xs rounded-full"
+                                title={`Split into ${transaction.lines.length} lines`}
+                              >
+                                Split
+                              </span>
+                            )}
                           </div>
                           {transaction.notes && (
                             <div className="text-sm text-muted-foreground mt-0.5">{transaction.notes}</div>
                           )}
+                          {!!transaction.tags?.length && (
+                            <div className="text-xs text-muted-foreground mt-0.5">
+                              {transaction.tags.map(tag => `#${tag}`).join(' ')}
+                            </div>
+                          )}
                         </div>
                         <div className="flex items-start gap-2">
                           <div className="flex flex-col items-end">
@@ -294,7 +367,7 @@ export default function ExpenseSidebar({
                             </div>
                             {transaction.personLabel && (
                               <div className="flex items-center mt-1">
-                                <div className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: personColors[transaction.personLabel as keyof typeof personColors] }}></div>
+                                <div className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: getPersonColor(transaction.personLabel) }}></div>
                                 <span className="text-xs text-muted-foreground">{transaction.personLabel}</span>
                               </div>
                             )}
@@ -347,7 +420,7 @@ export default function ExpenseSidebar({
       </div>
       
       {/* Financial Summary */}
-      <FinancialSummary transactions={transactions} currentDate={currentDate} />
+      <FinancialSummary currentDate={currentDate} />
     </div>
   );
 }
@@ -1,11 +1,13 @@
 import React, { useMemo } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { TransactionWithCategory } from '@shared/schema';
+import { Category, TransactionWithCategory } from '@shared/schema';
+import { splitParts } from '@shared/split-lines';
 import { format, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
 
 interface ExpensesByCategoryChartProps {
   transactions: TransactionWithCategory[];
+  categories: Category[];
   currentDate: Date;
   isLoading: boolean;
 }
@@ -18,6 +20,7 @@ interface ChartData {
 
 export default function ExpensesByCategoryChart({ 
   transactions, 
+  categories,
   currentDate, 
   isLoading 
 }: ExpensesByCategoryChartProps) {
@@ -33,18 +36,23 @@ export default function ExpensesByCategoryChart({
       isWithinInterval(new Date(tx.date), { start: monthStart, end: monthEnd })
     );
     
-    // Group by category and calculate totals
+    // Group by category and calculate totals; split transactions count each line towards its category
     const categoryTotals: Record<string, { total: number, color: string }> = {};
     
     filteredTransactions.forEach(tx => {
-      const categoryName = tx.category?.name || 'Uncategorized';
-      const categoryColor = tx.category?.color || '#6b7280';
-      
-      if (!categoryTotals[categoryName]) {
-        categoryTotals[categoryName] = { total: 0, color: categoryColor };
-      }
-      
-      categoryTotals[categoryName].total += tx.amount;
+      splitParts(tx.amount, tx.categoryId, tx.personLabel, tx.lines).forEach(part => {
+        const category = tx.lines?.length
+          ? categories.find(c => c.id === part.categoryId)
+          : tx.category;
+        const categoryName = category?.name || 'Uncategorized';
+        const categoryColor = category?.color || '#6b7280';
+        
+        if (!categoryTotals[categoryName]) {
+          categoryTotals[categoryName] = { total: 0, color: categoryColor };
+        }
+        
+        categoryTotals[categoryName].total += part.amount;
+      });
     });
     
     // Convert to chart data format
@@ -57,7 +65,7 @@ export default function ExpensesByCategoryChart({
       }));
     
     return data;
-  }, [transactions, currentDate]);
+  }, [transactions, categories, currentDate]);
   
   const totalAmount = useMemo(() => 
     chartData.reduce((sum, item) => sum + item.value, 0),
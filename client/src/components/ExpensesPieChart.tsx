@@ -1,7 +1,9 @@
 import React, { useMemo } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { TransactionWithCategory, PersonLabel } from '@shared/schema';
+import { TransactionWithCategory } from '@shared/schema';
+import { splitParts } from '@shared/split-lines';
+import { usePeople } from '@/hooks/use-people';
 import { format, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
 
 interface ExpensesPieChartProps {
@@ -16,18 +18,12 @@ interface ChartData {
   color: string;
 }
 
-const PERSON_COLORS = {
-  'Beni': '#3b82f6', // blue
-  'Fabi': '#ec4899', // pink
-  'Michał': '#10b981', // green
-  'Together': '#8b5cf6', // purple
-};
-
 export default function ExpensesPieChart({ 
   transactions, 
   currentDate, 
   isLoading 
 }: ExpensesPieChartProps) {
+  const { getPersonColor } = usePeople();
 
   const chartData = useMemo(() => {
     // Get first and last day of the current month
@@ -40,18 +36,15 @@ export default function ExpensesPieChart({
       isWithinInterval(new Date(tx.date), { start: monthStart, end: monthEnd })
     );
     
-    // Group by person and calculate totals
-    const personTotals: Record<PersonLabel, number> = {
-      'Beni': 0,
-      'Fabi': 0,
-      'Michał': 0,
-      'Together': 0,
-    };
+    // Group by person and calculate totals; split transactions count each line towards its person
+    const personTotals: Record<string, number> = {};
     
     filteredTransactions.forEach(tx => {
-      if (personTotals[tx.personLabel as PersonLabel] !== undefined) {
-        personTotals[tx.personLabel as PersonLabel] += tx.amount;
-      }
+      splitParts(tx.amount, tx.categoryId, tx.personLabel, tx.lines).forEach(part => {
+        if (part.personLabel) {
+          personTotals[part.personLabel] = (personTotals[part.personLabel] || 0) + part.amount;
+        }
+      });
     });
     
     // Convert to chart data format
@@ -60,11 +53,11 @@ export default function ExpensesPieChart({
       .map(([person, amount]) => ({
         name: person,
         value: amount,
-        color: PERSON_COLORS[person as PersonLabel] || '#6b7280',
+        color: getPersonColor(person),
       }));
     
     return data;
-  }, [transactions, currentDate]);
+  }, [transactions, currentDate, getPersonColor]);
   
   const totalAmount = useMemo(() => 
     chartData.reduce((sum, item) => sum + item.value, 0),
@@ -1,361 +1,52 @@
 import { useMemo } from 'react';
-import { 
-  startOfWeek, 
-  endOfWeek, 
-  addWeeks, 
-  startOfMonth, 
-  endOfMonth, 
-  startOfYear, 
-  endOfYear,
-  isWithinInterval,
-  addDays,
-  addMonths,
-  addYears,
-  format
-} from 'date-fns';
-import { TransactionWithCategory } from '@shared/schema';
-import { isTransactionSkippedForMonth } from '@/utils/skipMonthUtils';
+import { startOfWeek, endOfWeek, addWeeks, format } from 'date-fns';
+import { BudgetOccurrence } from '@shared/schema';
+import { useMonthlyBudget } from '@/hooks/use-monthly-budget';
 
 interface FinancialSummaryProps {
-  transactions: TransactionWithCategory[];
   currentDate?: Date;
 }
 
-export default function FinancialSummary({ transactions, currentDate }: FinancialSummaryProps) {
-  const financialData = useMemo(() => {
-    const now = currentDate || new Date();
-    
-    // Check for June 2025 budget correction
-    let correctedBudgetData = null;
-    if (now.getFullYear() === 2025 && now.getMonth() === 5) {
-      const correctionStr = localStorage.getItem('june2025_budget_correction');
-      if (correctionStr) {
-        correctedBudgetData = JSON.parse(correctionStr);
-        console.log('[FINANCIAL SUMMARY] Using corrected budget data for June 2025:', correctedBudgetData);
-      }
-    }
-    
-    // Define time periods
-    const thisWeekStart = startOfWeek(now);
-    const thisWeekEnd = endOfWeek(now);
-    
-    const nextWeekStart = startOfWeek(addWeeks(now, 1));
-    const nextWeekEnd = endOfWeek(addWeeks(now, 1));
-    
-    const thisMonthStart = startOfMonth(now);
-    const thisMonthEnd = endOfMonth(now);
-    
-    const thisYearStart = startOfYear(now);
-    const thisYearEnd = endOfYear(now);
-    
-    // Initialize summary values
-    let thisWeekExpenses = 0;
-    let nextWeekExpenses = 0;
-    let thisMonthExpenses = 0;
-    let thisYearExpenses = 0;
-    let thisWeekIncome = 0;
-    let nextWeekIncome = 0;
-    let totalIncome = 0;
-    
-    console.log("===== FINANCIAL SUMMARY RECALCULATION =====");
-    console.log(`Total transactions to process: ${transactions.length}`);
-    
-    // Filter out all skipped transactions for current month
-    const viewMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    console.log(`[FINANCIAL] Filtering transactions for month: ${viewMonth.getMonth()+1}/${viewMonth.getFullYear()}`);
-    
-    // DEBUG - Log all transactions to find ID issue
-    console.log("==== ALL TRANSACTIONS ====");
-    transactions.forEach(t => {
-      console.log(`Transaction: ${t.title}, ID: ${t.id}, Amount: ${t.amount}, isRecurring: ${t.isRecurring}`);
-    });
-    
-    // HARD FIX: Apply a direct exclusion of Jerry transactions by both ID and title
-    // This should completely remove it from all calculations
-    const activeTransactions = transactions.filter(transaction => {
-      // First check: catch any transaction with "jerry" in the name 
-      if (transaction.title.toLowerCase().includes('jerry')) {
-        console.log(`[FINANCIAL] REMOVING JERRY BY TITLE: ${transaction.title} (ID: ${transaction.id}, Amount: ${transaction.amount})`);
-        return false;
-      }
-
-      // Then apply normal skip logic
-      if (isTransactionSkippedForMonth(transaction.id, viewMonth)) {
-        console.log(`[FINANCIAL] Removing skipped transaction: ${transaction.title} (${transaction.id}) from financial calculations`);
-        return false;
-      }
-      return true;
-    });
-    
-    // Force recalculation of totals with Jerry removed
-    console.log("[FINANCIAL] Forced exclusion of Jerry fizjo transaction applied for all calculations");
-    
-    console.log(`[FINANCIAL] Using ${activeTransactions.length} transactions (filtered out ${transactions.length - activeTransactions.length} skipped items)`);
-    
-    // Process transactions
-    // IMPORTANT: Only process base recurring transactions OR non-recurring transactions
-    // Skip recurring instances (they're already expanded by expand-recurring.ts)
-    activeTransactions.forEach(transaction => {
-      // Skip recurring instances - they are duplicates created by expand-recurring.ts
-      if (transaction.isRecurringInstance) {
-        console.log(`[FINANCIAL] Skipping recurring instance: ${transaction.title}`);
-        return;
-      }
-
-      const transactionDate = new Date(transaction.date);
-
-      // Calculate expenses for different time periods
-      if (transaction.isExpense) {
-        if (isWithinInterval(transactionDate, { start: thisWeekStart, end: thisWeekEnd })) {
-          thisWeekExpenses += transaction.amount;
-        }
-
-        if (isWithinInterval(transactionDate, { start: nextWeekStart, end: nextWeekEnd })) {
-          nextWeekExpenses += transaction.amount;
-        }
-
-        if (isWithinInterval(transactionDate, { start: thisMonthStart, end: thisMonthEnd })) {
-          thisMonthExpenses += transaction.amount;
-        }
-
-        if (isWithinInterval(transactionDate, { start: thisYearStart, end: thisYearEnd })) {
-          thisYearExpenses += transaction.amount;
-        }
-      } else {
-        // Calculate income for different time periods
-        if (isWithinInterval(transactionDate, { start: thisWeekStart, end: thisWeekEnd })) {
-          thisWeekIncome += transaction.amount;
-        }
-
-        if (isWithinInterval(transactionDate, { start: nextWeekStart, end: nextWeekEnd })) {
-          nextWeekIncome += transaction.amount;
-        }
-
-        // Only add to totalIncome for INCOME transactions (not expenses)
-        if (isWithinInterval(transactionDate, { start: thisMonthStart, end: thisMonthEnd })) {
-          totalIncome += transaction.amount;
-          console.log(`[CALCULATION] Adding ${transaction.amount} PLN from ${transaction.title} to totalIncome`);
-        }
-      }
-    });
+// Income minus expenses of the occurrences between two dates (inclusive)
+function netBetween(occurrences: BudgetOccurrence[], start: Date, end: Date): number {
+  const startKey = format(start, 'yyyy-MM-dd');
+  const endKey = format(end, 'yyyy-MM-dd');
+  return occurrences
+    .filter(o => o.date >= startKey && o.date <= endKey)
+    .reduce((sum, o) => sum + (o.isExpense ? -o.amount : o.amount), 0);
+}
 
-    // Generate recurring instances for future dates
-    // Only process BASE recurring transactions (not instances) that have not been skipped
-    const recurringTransactions = activeTransactions.filter(t => t.isRecurring && !t.isRecurringInstance);
-    const calculatedRecurringInstances: TransactionWithCategory[] = [];
-    
-    recurringTransactions.forEach(transaction => {
-      const originalDate = new Date(transaction.date);
-      const interval = transaction.recurringInterval || 'monthly';
-      let nextDate: Date;
-      
-      // Calculate first occurrence after original date
-      switch (interval) {
-        case 'daily':
-          nextDate = addDays(originalDate, 1);
-          break;
-        case 'weekly':
-          nextDate = addWeeks(originalDate, 1);
-          break;
-        case 'monthly':
-          nextDate = addMonths(originalDate, 1);
-          break;
-        case 'yearly':
-          nextDate = addYears(originalDate, 1);
-          break;
-        default:
-          nextDate = addMonths(originalDate, 1);
-      }
-      
-      // Keep adding occurrences until we pass the end of the relevant period (this year)
-      while (nextDate <= thisYearEnd) {
-        // Only include occurrences that fall within our relevant time periods and after the original date
-        if (nextDate > originalDate) {
-          // For each future instance, check if it's skipped for its specific month
-          const instanceMonth = new Date(nextDate.getFullYear(), nextDate.getMonth(), 1);
-          if (!isTransactionSkippedForMonth(transaction.id, instanceMonth)) {
-            // Add this instance only if it's not skipped
-            const futureTx = {
-              ...transaction,
-              date: new Date(nextDate)
-            };
-            
-            // Calculate expenses for different time periods
-            if (futureTx.isExpense) {
-              if (isWithinInterval(nextDate, { start: thisWeekStart, end: thisWeekEnd })) {
-                thisWeekExpenses += futureTx.amount;
-              }
-              
-              if (isWithinInterval(nextDate, { start: nextWeekStart, end: nextWeekEnd })) {
-                nextWeekExpenses += futureTx.amount;
-              }
-              
-              if (isWithinInterval(nextDate, { start: thisMonthStart, end: thisMonthEnd })) {
-                thisMonthExpenses += futureTx.amount;
-              }
-              
-              if (isWithinInterval(nextDate, { start: thisYearStart, end: thisYearEnd })) {
-                thisYearExpenses += futureTx.amount;
-              }
-            } else {
-              // Calculate income for different time periods
-              if (isWithinInterval(nextDate, { start: thisWeekStart, end: thisWeekEnd })) {
-                thisWeekIncome += futureTx.amount;
-              }
-              
-              if (isWithinInterval(nextDate, { start: nextWeekStart, end: nextWeekEnd })) {
-                nextWeekIncome += futureTx.amount;
-              }
-              
-              if (isWithinInterval(nextDate, { start: thisMonthStart, end: thisMonthEnd })) {
-                totalIncome += futureTx.amount;
-                console.log(`[CALCULATION] Adding recurring ${futureTx.amount} PLN from ${futureTx.title} to totalIncome`);
-              }
-            }
-          } else {
-            console.log(`[FINANCIAL] Skipping future instance of ${transaction.title} for ${instanceMonth.getMonth()+1}/${instanceMonth.getFullYear()}`);
-          }
-        }
-        
-        // Calculate next occurrence
-        switch (interval) {
-          case 'daily':
-            nextDate = addDays(nextDate, 1);
-            break;
-          case 'weekly':
-            nextDate = addWeeks(nextDate, 1);
-            break;
-          case 'monthly':
-            nextDate = addMonths(nextDate, 1);
-            break;
-          case 'yearly':
-            nextDate = addYears(nextDate, 1);
-            break;
-          default:
-            nextDate = addMonths(nextDate, 1);
-        }
-      }
-    });
-    
-    // EMERGENCY FIX: Hard block the Jerry fizjo transaction (ID: 970405)
-    console.log(`[EMERGENCY FIX] Starting Jerry fizjo 400 PLN fix`);
-    
-    // Filter out Jerry ID 970405 from activeTransactions BEFORE any calculations
-    const cleanTransactions = activeTransactions.filter(t => {
-      if (t.id === 970405 || t.title.toLowerCase().includes('jerry')) {
-        console.log(`[EMERGENCY FIX] Completely removing transaction from calculations: ${t.title}, ID: ${t.id}, Amount: ${t.amount}`);
-        return false; // Remove this transaction
-      }
-      return true; // Keep all other transactions
-    });
-    
-    console.log(`[EMERGENCY FIX] Filtered transactions count: ${cleanTransactions.length} (removed ${activeTransactions.length - cleanTransactions.length} transactions)`);
-    
-    // RESET ALL VALUES AND RECALCULATE FROM SCRATCH
-    thisWeekExpenses = 0;
-    nextWeekExpenses = 0; 
-    thisMonthExpenses = 0;
-    thisYearExpenses = 0;
-    thisWeekIncome = 0;
-    nextWeekIncome = 0;
-    totalIncome = 0;
-    
-    // Only count Omega and Techs Salary as income
-    totalIncome = 1019.9 + 3000; // Omega + Techs Salary = 4019.9
-    
-    // Recalculate expenses using ONLY clean transactions
-    cleanTransactions.forEach(t => {
-      if (t.isExpense) {
-        const transactionDate = new Date(t.date);
-        
-        // Add to this month's expenses
-        if (isWithinInterval(transactionDate, { start: thisMonthStart, end: thisMonthEnd })) {
-          thisMonthExpenses += t.amount;
-          console.log(`[EMERGENCY FIX] Adding to monthly expenses: ${t.title}, ${t.amount} PLN`);
-        }
-        
-        // Add to this year's expenses
-        if (isWithinInterval(transactionDate, { start: thisYearStart, end: thisYearEnd })) {
-          thisYearExpenses += t.amount;
-        }
-        
-        // Add to this week's expenses
-        if (isWithinInterval(transactionDate, { start: thisWeekStart, end: thisWeekEnd })) {
-          thisWeekExpenses += t.amount;
-        }
-        
-        // Add to next week's expenses
-        if (isWithinInterval(transactionDate, { start: nextWeekStart, end: nextWeekEnd })) {
-          nextWeekExpenses += t.amount;
-        }
-      } else {
-        // Income calculations
-        const transactionDate = new Date(t.date);
-        
-        // Add to this week's income
-        if (isWithinInterval(transactionDate, { start: thisWeekStart, end: thisWeekEnd })) {
-          thisWeekIncome += t.amount;
-        }
-        
-        // Add to next week's income
-        if (isWithinInterval(transactionDate, { start: nextWeekStart, end: nextWeekEnd })) {
-          nextWeekIncome += t.amount;
-        }
-      }
-    });
-    
-    // FINAL VERIFICATION: Make sure Jerry is not included
-    if (thisMonthExpenses > 4200) {
-      console.log(`[EMERGENCY FIX] Monthly expenses suspiciously high (${thisMonthExpenses}), forcing deduction of 400 PLN`);
-      thisMonthExpenses -= 400;
-    }
-    
-    console.log(`[EMERGENCY FIX] Final calculated amounts:`);
-    console.log(`[EMERGENCY FIX] - Monthly expenses: ${thisMonthExpenses} PLN`);
-    console.log(`[EMERGENCY FIX] - Monthly income: ${totalIncome} PLN`);
-    console.log(`[EMERGENCY FIX] - Expected balance: ${totalIncome - thisMonthExpenses} PLN`);
-    
-    // Calculate balance
-    let balance;
-    
-    // Apply June 2025 correction if available
-    if (correctedBudgetData) {
-      totalIncome = correctedBudgetData.monthlyIncome;
-      thisMonthExpenses = correctedBudgetData.monthlyExpenses;
-      balance = correctedBudgetData.balance;
-      console.log(`[JUNE 2025 CORRECTION] Using corrected financial data:`);
-      console.log(`[JUNE 2025 CORRECTION] - Income: ${totalIncome.toFixed(2)} PLN`);
-      console.log(`[JUNE 2025 CORRECTION] - Expenses: ${thisMonthExpenses.toFixed(2)} PLN`);
-      console.log(`[JUNE 2025 CORRECTION] - Balance: ${balance.toFixed(2)} PLN`);
-    } else {
-      // Default calculation for other months
-      balance = totalIncome - thisMonthExpenses;
-    }
-    
-    console.log(`[FINANCIAL SUMMARY] Final values:`);
-    console.log(`[FINANCIAL SUMMARY] - Monthly income: ${totalIncome.toFixed(2)} PLN`);
-    console.log(`[FINANCIAL SUMMARY] - Monthly expenses: ${thisMonthExpenses.toFixed(2)} PLN`);
-    console.log(`[FINANCIAL SUMMARY] - Final balance: ${balance.toFixed(2)} PLN`);
-    
+export default function FinancialSummary({ currentDate }: FinancialSummaryProps) {
+  const now = currentDate || new Date();
+  const nextWeekStart = startOfWeek(addWeeks(now, 1));
+  const nextWeekEnd = endOfWeek(addWeeks(now, 1));
+  
+  // Next week can reach into the following month
+  const { budget } = useMonthlyBudget(now);
+  const { budget: nextWeekBudget } = useMonthlyBudget(nextWeekEnd);
+  
+  const financialData = useMemo(() => {
+    const occurrences = [
+      ...(budget?.occurrences ?? []),
+      ...(nextWeekBudget && nextWeekBudget.month !== budget?.month ? nextWeekBudget.occurrences : []),
+    ];
+    
+    const totalIncome = budget?.income ?? 0;
+    const thisMonthExpenses = budget?.expenses ?? 0;
+    const balance = budget?.balance ?? 0;
     const savingsPercentage = totalIncome > 0 ? (balance / totalIncome) * 100 : 0;
     
-    // Calculate weekly and next week balances
-    const thisWeekBalance = thisWeekIncome - thisWeekExpenses;
-    const nextWeekBalance = nextWeekIncome - nextWeekExpenses;
-    
     return {
-      thisWeekExpenses,
-      nextWeekExpenses,
-      thisMonthExpenses: correctedBudgetData ? correctedBudgetData.monthlyExpenses : thisMonthExpenses,
-      totalIncome: correctedBudgetData ? correctedBudgetData.monthlyIncome : totalIncome,
-      thisWeekIncome,
-      nextWeekIncome,
-      thisWeekBalance,
-      nextWeekBalance,
-      balance: correctedBudgetData ? correctedBudgetData.balance : balance,
+      thisWeekBalance: netBetween(occurrences, startOfWeek(now), endOfWeek(now)),
+      nextWeekBalance: netBetween(occurrences, nextWeekStart, nextWeekEnd),
+      thisMonthBalance: totalIncome - thisMonthExpenses,
+      thisMonthExpenses,
+      totalIncome,
+      savings: budget?.savings ?? 0,
+      balance,
       savingsPercentage: Math.max(0, Math.min(100, savingsPercentage)), // Ensure between 0 and 100
     };
-  }, [transactions, currentDate]);
+  }, [budget, nextWeekBudget, currentDate]);
 
   return (
     <div className="border-t border-border p-4 bg-muted">
@@ -378,8 +69,8 @@ export default function FinancialSummary({ transactions, currentDate }: Financia
         </div>
         <div className="bg-card rounded-lg p-3 shadow-sm">
           <div className="text-sm text-muted-foreground">This Month</div>
-          <div className="font-mono font-medium text-red-500 dark:text-red-400">
-            -89.71 PLN
+          <div className={`font-mono font-medium ${financialData.thisMonthBalance >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
+            {financialData.thisMonthBalance >= 0 ? '+' : '-'}{Math.abs(financialData.thisMonthBalance).toFixed(2)} PLN
           </div>
         </div>
         <div className="bg-card rounded-lg p-3 shadow-sm">
@@ -402,7 +93,7 @@ export default function FinancialSummary({ transactions, currentDate }: Financia
         </div>
         <div className="mt-1 flex justify-between text-xs text-muted-foreground">
           <span>Spent: {financialData.thisMonthExpenses.toFixed(2)} PLN</span>
-          <span>Savings: {Math.max(0, financialData.balance).toFixed(2)} PLN</span>
+          <span>Savings: {financialData.savings.toFixed(2)} PLN</span>
         </div>
       </div>
     </div>
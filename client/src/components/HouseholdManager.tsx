@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { useQueryClient, useMutation, useQuery } from '@tanstack/react-query';
+import { HouseholdMember, HouseholdMembership, HouseholdRole, householdRoles } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, UserPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { useAuth } from '@/hooks/useAuthNew';
+import { apiRequest } from '@/lib/queryClient';
+
+type MemberWithUsername = HouseholdMember & { username: string };
+
+const ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export default function HouseholdManager() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newHouseholdName, setNewHouseholdName] = useState('');
+  const [inviteData, setInviteData] = useState<{ username: string; role: HouseholdRole }>({
+    username: '',
+    role: 'editor'
+  });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { household, role, memberships, isOwner, switchHousehold } = useHousehold();
+
+  const { data: members = [] } = useQuery<MemberWithUsername[]>({
+    queryKey: ['/api/households/current/members'],
+    enabled: !!household,
+  });
+
+  const invalidateMembers = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/households/current/members'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const createHousehold = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/households', { name });
+      return response.json() as Promise<HouseholdMembership>;
+    },
+    onSuccess: (membership) => {
+      toast({
+        title: 'Household created',
+        description: `You are now working in ${membership.household.name}`,
+      });
+      setNewHouseholdName('');
+      setIsCreateOpen(false);
+      switchHousehold(membership.household.id);
+    },
+    onError,
+  });
+
+  const addMember = useMutation({
+    mutationFn: async (data: { username: string; role: HouseholdRole }) => {
+      const response = await apiRequest('POST', '/api/households/current/members', data);
+      return response.json() as Promise<MemberWithUsername>;
+    },
+    onSuccess: (member) => {
+      invalidateMembers();
+      toast({
+        title: 'Member added',
+        description: `${member.username} was added as ${ROLE_LABELS[member.role as HouseholdRole].toLowerCase()}`,
+      });
+      setInviteData({ username: '', role: 'editor' });
+    },
+    onError,
+  });
+
+  const updateMemberRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: HouseholdRole }) => {
+      const response = await apiRequest('PATCH', `/api/households/current/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: invalidateMembers,
+    onError,
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest('DELETE', `/api/households/current/members/${userId}`);
+    },
+    onSuccess: () => {
+      invalidateMembers();
+      toast({
+        title: 'Member removed',
+        description: 'The member no longer has access to this household',
+      });
+    },
+    onError,
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteData.username.trim()) {
+      toast({
+        title: 'Validation error',
+        description: 'Username is required',
+        variant: 'destructive',
+      });
+      return;
+    }
+    addMember.mutate({ ...inviteData, username: inviteData.username.trim() });
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newHouseholdName.trim()) return;
+    createHousehold.mutate(newHouseholdName.trim());
+  };
+
+  const handleRemove = (member: MemberWithUsername) => {
+    if (confirm(`Remove ${member.username} from this household?`)) {
+      removeMember.mutate(member.userId);
+    }
+  };
+
+  if (!household) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Household</CardTitle>
+            <CardDescription>
+              {household.name}{role && <> &middot; you are {ROLE_LABELS[role].toLowerCase()}</>}
+            </CardDescription>
+          </div>
+          {user && <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" variant="outline">
+                <Plus className="h-4 w-4 mr-2" />
+                New Household
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create Household</DialogTitle>
+                <DialogDescription>Start a separate budget you can share with other people</DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="household-name">Household Name</Label>
+                  <Input
+                    id="household-name"
+                    value={newHouseholdName}
+                    onChange={(e) => setNewHouseholdName(e.target.value)}
+                    placeholder="e.g., Family, Flat share"
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createHousehold.isPending}>
+                    Create Household
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {memberships.length > 1 && (
+          <div className="space-y-2">
+            <Label>Switch Household</Label>
+            <Select
+              value={household.id.toString()}
+              onValueChange={(value) => switchHousehold(parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {memberships.map(({ household: h, role: r }) => (
+                  <SelectItem key={h.id} value={h.id.toString()}>
+                    {h.name} ({ROLE_LABELS[r].toLowerCase()})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="font-semibold text-sm mb-2">Members</div>
+          {members.map((member) => (
+            <div
+              key={member.id}
+              className="flex items-center justify-between p-2 rounded border hover:bg-muted/50"
+            >
+              <span className="font-medium text-sm">{member.username}</span>
+              <div className="flex items-center gap-1">
+                {isOwner ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => updateMemberRole.mutate({ userId: member.userId, role: value as HouseholdRole })}
+                  >
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {householdRoles.map((r) => (
+                        <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary">{ROLE_LABELS[member.role as HouseholdRole]}</Badge>
+                )}
+                {isOwner && (
+                  <Button size="sm" variant="ghost" onClick={() => handleRemove(member)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+          {members.length === 0 && (
+            <p className="text-sm text-muted-foreground">Log in to share this household with other people</p>
+          )}
+        </div>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="invite-username">Add Member</Label>
+              <Input
+                id="invite-username"
+                value={inviteData.username}
+                onChange={(e) => setInviteData({ ...inviteData, username: e.target.value })}
+                placeholder="Username"
+              />
+            </div>
+            <Select
+              value={inviteData.role}
+              onValueChange={(value) => setInviteData({ ...inviteData, role: value as HouseholdRole })}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {householdRoles.map((r) => (
+                  <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={addMember.isPending}>
+              <UserPlus className="h-4 w-4" />
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
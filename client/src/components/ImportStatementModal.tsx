@@ -0,0 +1,530 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Category,
+  CsvMapping,
+  ImportFormat,
+  ImportPreview,
+  ImportPreviewRow,
+  ImportProfile,
+  importDateFormats,
+} from '@shared/schema';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usePeople } from '@/hooks/use-people';
+import { apiRequest } from '@/lib/queryClient';
+
+const IMPORT_PROFILES_QUERY_KEY = ['/api/import-profiles'];
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX / QFX',
+  mt940: 'MT940',
+};
+
+// Polish banks still export in Windows-1250 more often than not
+const ENCODINGS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1250', label: 'Windows-1250 (Polish)' },
+];
+
+const DELIMITERS: { value: CsvMapping['delimiter']; label: string }[] = [
+  { value: ';', label: 'Semicolon ;' },
+  { value: ',', label: 'Comma ,' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe |' },
+];
+
+const EMPTY_MAPPING: CsvMapping = {
+  delimiter: ';',
+  dateColumn: '',
+  dateFormat: 'yyyy-MM-dd',
+  amountColumn: '',
+  titleColumn: '',
+  notesColumn: null,
+  decimalSeparator: ',',
+};
+
+type ReviewRow = ImportPreviewRow & { include: boolean };
+
+function formatFromFileName(name: string): ImportFormat {
+  const extension = name.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'sta' || extension === 'mt940' || extension === '940') return 'mt940';
+  return 'csv';
+}
+
+interface ImportStatementModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: Category[];
+}
+
+export default function ImportStatementModal({ isOpen, onClose, categories }: ImportStatementModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [encoding, setEncoding] = useState('utf-8');
+  const [mapping, setMapping] = useState<CsvMapping>(EMPTY_MAPPING);
+  const [profileId, setProfileId] = useState<number | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [personLabel, setPersonLabel] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { activePeople } = usePeople();
+
+  const { data: profiles = [] } = useQuery<ImportProfile[]>({
+    queryKey: IMPORT_PROFILES_QUERY_KEY,
+    enabled: isOpen,
+  });
+
+  // Imports default to the shared person, like savings
+  useEffect(() => {
+    if (!personLabel && activePeople.length > 0) {
+      setPersonLabel(activePeople.find(person => person.name === 'Together')?.name ?? activePeople[0].name);
+    }
+  }, [activePeople, personLabel]);
+
+  const resetState = () => {
+    setFile(null);
+    setFormat('csv');
+    setPreview(null);
+    setRows([]);
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const readPreview = useMutation({
+    mutationFn: async () => {
+      const buffer = await file!.arrayBuffer();
+      const content = new TextDecoder(encoding).decode(buffer);
+      const response = await apiRequest('POST', '/api/import/preview', {
+        format,
+        content,
+        mapping: format === 'csv' ? mapping : undefined,
+      });
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      // Likely duplicates start out unticked
+      setRows(result.rows.map(row => ({ ...row, include: row.duplicateOf === null })));
+    },
+    onError,
+  });
+
+  const saveProfile = useMutation({
+    mutationFn: async () => {
+      const existing = profiles.find(profile => profile.name === profileName.trim());
+      const data = { ...mapping, name: profileName.trim() };
+      const response = existing
+        ? await apiRequest('PATCH', `/api/import-profiles/${existing.id}`, data)
+        : await apiRequest('POST', '/api/import-profiles', data);
+      return response.json() as Promise<ImportProfile>;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: IMPORT_PROFILES_QUERY_KEY });
+      setProfileId(profile.id);
+      toast({
+        title: 'Profile saved',
+        description: `The column mapping was saved as "${profile.name}"`,
+      });
+    },
+    onError,
+  });
+
+  const commitImport = useMutation({
+    mutationFn: async (selected: ReviewRow[]) => {
+      const response = await apiRequest('POST', '/api/import/commit', {
+        transactions: selected.map(row => ({
+          title: row.title,
+          amount: row.amount,
+          date: row.date,
+          notes: row.notes,
+          isExpense: row.isExpense,
+          categoryId: row.categoryId,
+          personLabel,
+          isRecurring: false,
+          // Booked by the bank, so already paid
+          isPaid: true,
+        })),
+      });
+      return response.json() as Promise<unknown[]>;
+    },
+    onSuccess: (imported) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      toast({
+        title: 'Statement imported',
+        description: `${imported.length} transactions were added`,
+      });
+      handleClose();
+    },
+    onError,
+  });
+
+  const selectProfile = (value: string) => {
+    const profile = profiles.find(p => p.id === parseInt(value));
+    if (!profile) return;
+    setProfileId(profile.id);
+    setProfileName(profile.name);
+    setMapping({
+      delimiter: profile.delimiter as CsvMapping['delimiter'],
+      dateColumn: profile.dateColumn,
+      dateFormat: profile.dateFormat as CsvMapping['dateFormat'],
+      amountColumn: profile.amountColumn,
+      titleColumn: profile.titleColumn,
+      notesColumn: profile.notesColumn,
+      decimalSeparator: profile.decimalSeparator as CsvMapping['decimalSeparator'],
+    });
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const selectedRows = useMemo(() => rows.filter(row => row.include), [rows]);
+  const missingCategories = selectedRows.filter(row => row.categoryId === null).length;
+  const duplicateCount = rows.filter(row => row.duplicateOf !== null).length;
+
+  const mappingComplete = format !== 'csv' ||
+    (!!mapping.dateColumn.trim() && !!mapping.amountColumn.trim() && !!mapping.titleColumn.trim());
+
+  const categoryName = (id: number | null) => categories.find(c => c.id === id)?.name;
+
+  // Households without income categories can still file income somewhere
+  const categoriesFor = (isExpense: boolean) => {
+    const matching = categories.filter(category => category.isExpense === isExpense);
+    return matching.length > 0 ? matching : categories;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+          <DialogDescription>
+            {preview
+              ? 'Review the rows before they are added. Likely duplicates of existing transactions are unticked.'
+              : 'Read transactions from a CSV, OFX/QFX or MT940 export of your bank.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="statement-file">Statement file</Label>
+              <Input
+                id="statement-file"
+                type="file"
+                accept=".csv,.txt,.ofx,.qfx,.sta,.mt940,.940"
+                onChange={(e) => {
+                  const selected = e.target.files?.[0] ?? null;
+                  setFile(selected);
+                  if (selected) setFormat(formatFromFileName(selected.name));
+                }}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as ImportFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map(value => (
+                      <SelectItem key={value} value={value}>{FORMAT_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Encoding</Label>
+                <Select value={encoding} onValueChange={setEncoding}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ENCODINGS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Person</Label>
+                <Select value={personLabel} onValueChange={setPersonLabel}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a person" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activePeople.map(person => (
+                      <SelectItem key={person.id} value={person.name}>
+                        {person.emoji && <span className="mr-1">{person.emoji}</span>}
+                        {person.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {format === 'csv' && (
+              <div className="space-y-4 rounded-md border border-border p-4">
+                <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+                  <div className="space-y-2 flex-1">
+                    <Label>Bank profile</Label>
+                    <Select value={profileId?.toString() ?? ''} onValueChange={selectProfile}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={profiles.length ? 'Choose a saved mapping' : 'No saved mappings yet'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map(profile => (
+                          <SelectItem key={profile.id} value={profile.id.toString()}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex gap-2 flex-1">
+                    <Input
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      placeholder="e.g., mBank, PKO BP"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => saveProfile.mutate()}
+                      disabled={!profileName.trim() || !mappingComplete || saveProfile.isPending}
+                    >
+                      Save mapping
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="date-column">Date column</Label>
+                    <Input
+                      id="date-column"
+                      value={mapping.dateColumn}
+                      onChange={(e) => setMapping({ ...mapping, dateColumn: e.target.value })}
+                      placeholder="e.g., #Data operacji"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Date format</Label>
+                    <Select
+                      value={mapping.dateFormat}
+                      onValueChange={(value) => setMapping({ ...mapping, dateFormat: value as CsvMapping['dateFormat'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {importDateFormats.map(pattern => (
+                          <SelectItem key={pattern} value={pattern}>{pattern}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="amount-column">Amount column</Label>
+                    <Input
+                      id="amount-column"
+                      value={mapping.amountColumn}
+                      onChange={(e) => setMapping({ ...mapping, amountColumn: e.target.value })}
+                      placeholder="e.g., #Kwota"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="title-column">Description column</Label>
+                    <Input
+                      id="title-column"
+                      value={mapping.titleColumn}
+                      onChange={(e) => setMapping({ ...mapping, titleColumn: e.target.value })}
+                      placeholder="e.g., #Opis operacji"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="notes-column">Notes column (optional)</Label>
+                    <Input
+                      id="notes-column"
+                      value={mapping.notesColumn ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, notesColumn: e.target.value || null })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Delimiter</Label>
+                      <Select
+                        value={mapping.delimiter}
+                        onValueChange={(value) => setMapping({ ...mapping, delimiter: value as CsvMapping['delimiter'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DELIMITERS.map(option => (
+                            <SelectItem key={option.label} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Decimals</Label>
+                      <Select
+                        value={mapping.decimalSeparator}
+                        onValueChange={(value) => setMapping({ ...mapping, decimalSeparator: value as CsvMapping['decimalSeparator'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value=",">1 234,56</SelectItem>
+                          <SelectItem value=".">1,234.56</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-4 pt-2">
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={() => readPreview.mutate()}
+                disabled={!file || !personLabel || !mappingComplete || readPreview.isPending}
+              >
+                <FileUp className="h-4 w-4 mr-2" />
+                {readPreview.isPending ? 'Reading...' : 'Preview'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {preview.errors.length > 0 && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-3 text-sm">
+                <div className="flex items-center font-medium text-amber-700 dark:text-amber-400 mb-1">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  {preview.errors.length} {preview.errors.length === 1 ? 'line was' : 'lines were'} skipped
+                </div>
+                <ul className="list-disc pl-6 text-muted-foreground">
+                  {preview.errors.slice(0, 5).map(error => <li key={error}>{error}</li>)}
+                  {preview.errors.length > 5 && <li>and {preview.errors.length - 5} more</li>}
+                </ul>
+              </div>
+            )}
+
+            <div className="text-sm text-muted-foreground">
+              {rows.length} rows read, {duplicateCount} likely {duplicateCount === 1 ? 'duplicate' : 'duplicates'}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">
+                    <Checkbox
+                      checked={rows.length > 0 && selectedRows.length === rows.length}
+                      onCheckedChange={(checked) => setRows(current => current.map(row => ({ ...row, include: !!checked })))}
+                    />
+                  </TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Category</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={`${row.line}-${index}`} className={row.include ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <Checkbox
+                        checked={row.include}
+                        onCheckedChange={(checked) => updateRow(index, { include: !!checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{row.date}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{row.title}</div>
+                      {row.notes && <div className="text-xs text-muted-foreground">{row.notes}</div>}
+                      {row.duplicateOf !== null && (
+                        <Badge variant="outline" className="mt-1 border-amber-400 text-amber-600">
+                          Already added?
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-mono whitespace-nowrap ${row.isExpense ? 'text-red-500' : 'text-green-500'}`}>
+                      {row.isExpense ? '-' : '+'}{row.amount.toFixed(2)} PLN
+                    </TableCell>
+                    <TableCell className="min-w-[160px]">
+                      <Select
+                        value={row.categoryId?.toString() ?? ''}
+                        onValueChange={(value) => updateRow(index, { categoryId: parseInt(value) })}
+                      >
+                        <SelectTrigger className={row.include && row.categoryId === null ? 'border-red-400' : ''}>
+                          <SelectValue placeholder="Choose">{categoryName(row.categoryId)}</SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categoriesFor(row.isExpense).map(category => (
+                            <SelectItem key={category.id} value={category.id.toString()}>
+                              {category.emoji && <span className="mr-1">{category.emoji}</span>}
+                              {category.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-muted-foreground">
+                {missingCategories > 0 && `Choose a category for ${missingCategories} selected ${missingCategories === 1 ? 'row' : 'rows'}`}
+              </span>
+              <div className="flex space-x-4">
+                <Button type="button" variant="outline" onClick={() => setPreview(null)} disabled={commitImport.isPending}>
+                  Back
+                </Button>
+                <Button
+                  type="button"
+                  onClick={() => commitImport.mutate(selectedRows)}
+                  disabled={selectedRows.length === 0 || missingCategories > 0 || commitImport.isPending}
+                >
+                  {commitImport.isPending ? 'Importing...' : `Import ${selectedRows.length} transactions`}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,7 @@ export default function KeyboardShortcuts() {
     { key: "i", description: "Add Income" },
     { key: "s", description: "Add to Savings" },
     { key: "t", description: "Today" },
+    { key: "/", description: "Search" },
     { key: "←", description: "Previous Month" },
     { key: "→", description: "Next Month" },
   ];
@@ -1,111 +1,27 @@
-import { useState, useEffect } from 'react';
-import { TransactionWithCategory } from '@shared/schema';
-import { 
-  startOfMonth, 
-  endOfMonth, 
-  format,
-  addMonths,
-  addWeeks,
-  addDays,
-  addYears
-} from 'date-fns';
+import { format } from 'date-fns';
 import { TrendingUp, TrendingDown, DollarSign } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useMonthlyBudget } from '@/hooks/use-monthly-budget';
 
 interface MonthlySavingsSummaryProps {
-  transactions: TransactionWithCategory[];
   currentDate?: Date;
   isLoading: boolean;
 }
 
 export default function MonthlySavingsSummary({ 
-  transactions, 
   currentDate,
   isLoading
 }: MonthlySavingsSummaryProps) {
-  const [monthlyIncome, setMonthlyIncome] = useState(0);
-  const [monthlyExpenses, setMonthlyExpenses] = useState(0);
-  const [monthlySavings, setMonthlySavings] = useState(0);
+  const { budget, isLoading: isLoadingBudget } = useMonthlyBudget(currentDate);
   
-  useEffect(() => {
-    // Use currentDate if provided, otherwise use today's date
-    const referenceDate = currentDate || new Date();
-    
-    // Get the start and end of the current month
-    const monthStart = startOfMonth(referenceDate);
-    const monthEnd = endOfMonth(referenceDate);
-    
-    // Calculate income and expenses for the current month (including recurring transactions)
-    let income = 0;
-    let expenses = 0;
-    
-    // Process regular transactions
-    transactions.forEach(transaction => {
-      const txDate = new Date(transaction.date);
-      const isInCurrentMonth = (txDate >= monthStart && txDate <= monthEnd);
-      
-      if (!isInCurrentMonth) return;
-      
-      if (transaction.isExpense) {
-        expenses += transaction.amount;
-      } else {
-        income += transaction.amount;
-      }
-    });
-    
-    // Process recurring transactions
-    const processedTxIds = new Set();
-    
-    transactions.forEach(transaction => {
-      // Skip if not recurring or already processed
-      if (!transaction.isRecurring || processedTxIds.has(transaction.id)) {
-        return;
-      }
-      
-      processedTxIds.add(transaction.id);
-      
-      const originalDate = new Date(transaction.date);
-      const interval = transaction.recurringInterval || 'monthly';
-      
-      // Skip if the original date itself is in this month
-      if (originalDate >= monthStart && originalDate <= monthEnd) {
-        // Already counted above, so skip
-        return;
-      }
-      
-      // Calculate the next occurrence based on interval
-      let nextDate = new Date(originalDate);
-      
-      // Find the first occurrence in the current month
-      while (nextDate < monthStart) {
-        switch (interval) {
-          case 'daily': nextDate = addDays(nextDate, 1); break;
-          case 'weekly': nextDate = addWeeks(nextDate, 1); break;
-          case 'monthly': nextDate = addMonths(nextDate, 1); break;
-          case 'yearly': nextDate = addYears(nextDate, 1); break;
-          default: nextDate = addMonths(nextDate, 1);
-        }
-      }
-      
-      // If it falls in this month, add it
-      if (nextDate <= monthEnd) {
-        if (transaction.isExpense) {
-          expenses += transaction.amount;
-        } else {
-          income += transaction.amount;
-        }
-      }
-    });
-    
-    setMonthlyIncome(income);
-    setMonthlyExpenses(expenses);
-    setMonthlySavings(income - expenses);
-  }, [transactions, currentDate]);
+  const monthlyIncome = budget?.income ?? 0;
+  const monthlyExpenses = budget?.expenses ?? 0;
+  const monthlySavings = monthlyIncome - monthlyExpenses;
   
   // Get the month name for display
   const displayMonth = currentDate ? format(currentDate, 'MMMM yyyy') : format(new Date(), 'MMMM yyyy');
   
-  if (isLoading) {
+  if (isLoading || isLoadingBudget) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
         <Skeleton className="h-24 w-full rounded-lg" />
@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { useQueryClient, useMutation } from '@tanstack/react-query';
+import { Person } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, Trash2, Pencil } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { usePeople, PEOPLE_QUERY_KEY } from '@/hooks/use-people';
+import { apiRequest } from '@/lib/queryClient';
+
+const AVATAR_OPTIONS = [
+  '🙂', '😎', '👩', '👨', '👧', '👦', '👶', '👵', '👴', '🧑',
+  '👩‍💻', '👨‍💻', '👩‍🍳', '👨‍🍳', '🧑‍🎓', '🐶', '🐱', '🏠', '❤️', '⭐'
+];
+
+const COLOR_OPTIONS = [
+  { name: 'Blue', value: '#3b82f6' },
+  { name: 'Pink', value: '#ec4899' },
+  { name: 'Green', value: '#10b981' },
+  { name: 'Purple', value: '#8b5cf6' },
+  { name: 'Orange', value: '#f59e0b' },
+  { name: 'Red', value: '#ef4444' },
+  { name: 'Indigo', value: '#6366f1' },
+  { name: 'Cyan', value: '#0ea5e9' },
+  { name: 'Teal', value: '#14b8a6' },
+  { name: 'Yellow', value: '#eab308' },
+  { name: 'Gray', value: '#64748b' },
+];
+
+type PersonFormData = {
+  name: string;
+  emoji: string;
+  color: string;
+  isActive: boolean;
+  isShared: boolean;
+};
+
+const EMPTY_FORM: PersonFormData = {
+  name: '',
+  emoji: '🙂',
+  color: '#3b82f6',
+  isActive: true,
+  isShared: false
+};
+
+export default function PeopleManager() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingPerson, setEditingPerson] = useState<Person | null>(null);
+  const [formData, setFormData] = useState<PersonFormData>(EMPTY_FORM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { canEdit } = useHousehold();
+  const { people } = usePeople();
+
+  // Renaming a person also renames it on transactions and savings
+  const invalidatePeople = () => {
+    queryClient.invalidateQueries({ queryKey: PEOPLE_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/savings'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const createPerson = useMutation({
+    mutationFn: async (data: PersonFormData) => {
+      const response = await apiRequest('POST', '/api/people', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidatePeople();
+      toast({
+        title: 'Person added',
+        description: 'New person can now be picked on transactions and savings',
+      });
+      resetForm();
+      setIsOpen(false);
+    },
+    onError,
+  });
+
+  const updatePerson = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<PersonFormData> }) => {
+      const response = await apiRequest('PATCH', `/api/people/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidatePeople();
+      toast({
+        title: 'Person updated',
+        description: 'Person has been updated successfully',
+      });
+      resetForm();
+      setIsOpen(false);
+    },
+    onError,
+  });
+
+  const deletePerson = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/people/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePeople();
+      toast({
+        title: 'Person removed',
+        description: 'Person has been removed successfully',
+      });
+    },
+    onError,
+  });
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingPerson(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast({
+        title: 'Validation error',
+        description: 'Name is required',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (editingPerson) {
+      updatePerson.mutate({
+        id: editingPerson.id,
+        data: formData
+      });
+    } else {
+      createPerson.mutate(formData);
+    }
+  };
+
+  const handleEdit = (person: Person) => {
+    setEditingPerson(person);
+    setFormData({
+      name: person.name,
+      emoji: person.emoji || '🙂',
+      color: person.color,
+      isActive: person.isActive,
+      isShared: person.isShared
+    });
+    setIsOpen(true);
+  };
+
+  const handleDelete = (person: Person) => {
+    if (confirm(`Are you sure you want to remove ${person.name}?`)) {
+      deletePerson.mutate(person.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>People</CardTitle>
+            <CardDescription>Who transactions and savings belong to</CardDescription>
+          </div>
+          {canEdit && <Dialog open={isOpen} onOpenChange={(open) => {
+            setIsOpen(open);
+            if (!open) resetForm();
+          }}>
+            <DialogTrigger asChild>
+              <Button size="sm">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Person
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingPerson ? 'Edit Person' : 'Add Person'}</DialogTitle>
+                <DialogDescription>
+                  {editingPerson ? 'Renaming also updates existing transactions and savings' : 'Add a person with avatar and color'}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="person-name">Name</Label>
+                  <Input
+                    id="person-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., Anna, Kids, Together"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Select Avatar</Label>
+                  <div className="grid grid-cols-10 gap-2">
+                    {AVATAR_OPTIONS.map((emoji) => (
+                      <button
+                        key={emoji}
+                        type="button"
+                        onClick={() => setFormData({ ...formData, emoji })}
+                        className={`text-2xl p-2 rounded border-2 hover:scale-110 transition-transform ${
+                          formData.emoji === emoji ? 'border-primary bg-primary/10' : 'border-transparent'
+                        }`}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Select Color</Label>
+                  <div className="grid grid-cols-6 gap-2">
+                    {COLOR_OPTIONS.map((color) => (
+                      <button
+                        key={color.value}
+                        type="button"
+                        onClick={() => setFormData({ ...formData, color: color.value })}
+                        className={`h-10 rounded border-2 hover:scale-105 transition-transform ${
+                          formData.color === color.value ? 'border-foreground' : 'border-transparent'
+                        }`}
+                        style={{ backgroundColor: color.value }}
+                        title={color.name}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="person-active"
+                    checked={formData.isActive}
+                    onCheckedChange={(isActive) => setFormData({ ...formData, isActive })}
+                  />
+                  <Label htmlFor="person-active">Active (can be picked on new entries)</Label>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="person-shared"
+                    checked={formData.isShared}
+                    onCheckedChange={(isShared) => setFormData({ ...formData, isShared })}
+                  />
+                  <Label htmlFor="person-shared">Shared (its expenses are split between the members)</Label>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      resetForm();
+                      setIsOpen(false);
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingPerson ? 'Update' : 'Add'} Person
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+          {people.map((person) => (
+            <div
+              key={person.id}
+              className={`flex items-center justify-between p-2 rounded border hover:bg-muted/50 ${person.isActive ? '' : 'opacity-50'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xl">{person.emoji || '🙂'}</span>
+                <div
+                  className="w-3 h-3 rounded-full"
+                  style={{ backgroundColor: person.color }}
+                />
+                <span className="font-medium text-sm">{person.name}</span>
+                {person.isShared && <span className="text-xs text-muted-foreground">(shared)</span>}
+                {!person.isActive && <span className="text-xs text-muted-foreground">(inactive)</span>}
+              </div>
+              {canEdit && <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleEdit(person)}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDelete(person)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
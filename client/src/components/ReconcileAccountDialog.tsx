@@ -0,0 +1,406 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import {
+  AccountEntry,
+  AccountReconciliation,
+  AccountWithBalance,
+  ImportFormat,
+  ImportProfile,
+  InsertReconciliation,
+  ReconciliationSuggestion,
+} from '@shared/schema';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle2, FileUp, Lock, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { useAccountReconciliation, accountReconciliationQueryKey } from '@/hooks/use-accounts';
+import { OCCURRENCES_QUERY_KEY } from '@/utils/occurrence-overrides';
+import { apiRequest } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+
+const IMPORT_PROFILES_QUERY_KEY = ['/api/import-profiles'];
+
+function formatFromFileName(name: string): ImportFormat {
+  const extension = name.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'sta' || extension === 'mt940' || extension === '940') return 'mt940';
+  return 'csv';
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+interface ReconcileAccountDialogProps {
+  account: AccountWithBalance | null;
+  onClose: () => void;
+}
+
+/**
+ * Reconcile an account against its bank statement: tick off the entries the statement shows
+ * until the cleared balance matches the statement balance, then finish to lock them
+ */
+export default function ReconcileAccountDialog({ account, onClose }: ReconcileAccountDialogProps) {
+  const [statementDate, setStatementDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [statementBalance, setStatementBalance] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [profileId, setProfileId] = useState<string>('');
+  const [suggestion, setSuggestion] = useState<ReconciliationSuggestion | null>(null);
+  const { data, isLoading } = useAccountReconciliation(account?.id ?? null);
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [] } = useQuery<ImportProfile[]>({
+    queryKey: IMPORT_PROFILES_QUERY_KEY,
+    enabled: account !== null,
+  });
+
+  const currency = account?.currency ?? '';
+  const reconciliation = data?.reconciliation ?? null;
+  const fileFormat = file ? formatFromFileName(file.name) : null;
+
+  const handleClose = () => {
+    setStatementBalance('');
+    setFile(null);
+    setSuggestion(null);
+    onClose();
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: accountReconciliationQueryKey(account!.id) });
+  };
+
+  // Clearing marks entries paid, so the planner's paid state changes with it
+  const setReconciliation = (result: AccountReconciliation) => {
+    queryClient.setQueryData(accountReconciliationQueryKey(account!.id), result);
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    queryClient.invalidateQueries({ queryKey: OCCURRENCES_QUERY_KEY });
+  };
+
+  const startReconciliation = useMutation({
+    mutationFn: async (data: InsertReconciliation) => {
+      const response = await apiRequest('POST', `/api/accounts/${account!.id}/reconciliations`, data);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const setCleared = useMutation({
+    mutationFn: async ({ entry, isCleared }: { entry: AccountEntry; isCleared: boolean }) => {
+      const response = await apiRequest('PUT', `/api/accounts/${account!.id}/cleared`, {
+        transactionId: entry.transactionId,
+        occurrenceDate: entry.occurrenceDate,
+        isCleared,
+      });
+      return response.json() as Promise<AccountReconciliation>;
+    },
+    onSuccess: setReconciliation,
+    onError,
+  });
+
+  const matchStatement = useMutation({
+    mutationFn: async () => {
+      const profile = profiles.find(p => String(p.id) === profileId);
+      const content = await file!.text();
+      const response = await apiRequest('POST', `/api/reconciliations/${reconciliation!.id}/suggest`, {
+        format: fileFormat,
+        content,
+        mapping: fileFormat === 'csv' && profile ? profile : undefined,
+      });
+      const result = await response.json() as ReconciliationSuggestion;
+
+      // Tick off the matched entries one by one; the last response has the final balances
+      const uncleared = new Set(data!.entries
+        .filter(entry => entry.status === 'uncleared')
+        .map(entry => `${entry.transactionId}:${entry.occurrenceDate}`));
+      let latest: AccountReconciliation | null = null;
+      for (const match of result.matches) {
+        if (!uncleared.has(`${match.transactionId}:${match.occurrenceDate}`)) continue;
+        const cleared = await apiRequest('PUT', `/api/accounts/${account!.id}/cleared`, {
+          transactionId: match.transactionId,
+          occurrenceDate: match.occurrenceDate,
+          isCleared: true,
+        });
+        latest = await cleared.json();
+      }
+      return { result, latest };
+    },
+    onSuccess: ({ result, latest }) => {
+      setSuggestion(result);
+      if (latest) setReconciliation(latest);
+      toast({
+        title: 'Statement matched',
+        description: `${result.matches.length} entries matched, ${result.unmatched.length} statement rows without an entry`,
+      });
+    },
+    onError,
+  });
+
+  const finishReconciliation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/reconciliations/${reconciliation!.id}/finish`);
+    },
+    onSuccess: () => {
+      refresh();
+      setSuggestion(null);
+      toast({ title: 'Reconciled', description: `${account!.name} is reconciled up to ${reconciliation!.statementDate}` });
+    },
+    onError,
+  });
+
+  const deleteReconciliation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/reconciliations/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      setSuggestion(null);
+    },
+    onError,
+  });
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const balance = parseAmount(statementBalance);
+    if (!statementDate || isNaN(balance)) {
+      onError(new Error('Enter the closing date and balance of the statement'));
+      return;
+    }
+    startReconciliation.mutate({ statementDate, statementBalance: balance });
+  };
+
+  const handleFinish = () => {
+    if (data?.difference && !confirm(
+      `The cleared balance is ${formatAmount(data.difference, currency)} off the statement. Finish anyway?`
+    )) {
+      return;
+    }
+    finishReconciliation.mutate();
+  };
+
+  const handleUndo = (id: number) => {
+    if (confirm('Undo the last reconciliation? Its entries stay cleared but are no longer locked.')) {
+      deleteReconciliation.mutate(id);
+    }
+  };
+
+  const renderEntry = (entry: AccountEntry) => (
+    <label
+      key={`${entry.transactionId}:${entry.occurrenceDate}`}
+      className="flex items-center gap-2 py-1 text-sm"
+    >
+      <Checkbox
+        checked={entry.status === 'cleared'}
+        disabled={!canEdit || setCleared.isPending}
+        onCheckedChange={(checked) => setCleared.mutate({ entry, isCleared: checked === true })}
+      />
+      <span className="w-16 shrink-0 text-muted-foreground">{format(parseISO(entry.occurrenceDate), 'MMM d')}</span>
+      <span className="flex-1 truncate">{entry.title}</span>
+      <span className={cn('shrink-0 font-medium', entry.amount < 0 ? 'text-red-500' : 'text-green-600')}>
+        {formatAmount(entry.amount, currency)}
+      </span>
+    </label>
+  );
+
+  return (
+    <Dialog open={account !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reconcile {account?.name}</DialogTitle>
+          <DialogDescription>
+            Tick off the entries your statement shows. Finishing locks them, so later edits can't change a balance the bank confirmed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : !reconciliation ? (
+          <div className="space-y-4">
+            {data.lastReconciliation && (
+              <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                <span className="flex items-center gap-2">
+                  <Lock className="h-4 w-4 text-muted-foreground" />
+                  Reconciled up to {data.lastReconciliation.statementDate} at{' '}
+                  {formatAmount(data.lastReconciliation.statementBalance, currency)}
+                </span>
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleUndo(data.lastReconciliation!.id)}
+                    disabled={deleteReconciliation.isPending}
+                  >
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Undo
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {canEdit ? (
+              <form onSubmit={handleStart} className="space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="statementDate">Statement closing date</Label>
+                    <Input
+                      id="statementDate"
+                      type="date"
+                      value={statementDate}
+                      onChange={(e) => setStatementDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="statementBalance">Closing balance ({currency})</Label>
+                    <Input
+                      id="statementBalance"
+                      inputMode="decimal"
+                      value={statementBalance}
+                      onChange={(e) => setStatementBalance(e.target.value)}
+                      placeholder="0.00"
+                      autoFocus
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={startReconciliation.isPending}>
+                    {startReconciliation.isPending ? 'Starting...' : 'Start Reconciliation'}
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="text-sm text-muted-foreground">There is no reconciliation in progress.</div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 rounded-md border p-3 text-sm">
+              <div>
+                <div className="text-xs text-muted-foreground">Statement ({reconciliation.statementDate})</div>
+                <div className="font-semibold">{formatAmount(reconciliation.statementBalance, currency)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Cleared balance</div>
+                <div className="font-semibold">{formatAmount(data.clearedBalance, currency)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Difference</div>
+                <div className={cn('flex items-center gap-1 font-semibold', data.difference ? 'text-red-500' : 'text-green-600')}>
+                  {!data.difference && <CheckCircle2 className="h-4 w-4" />}
+                  {formatAmount(data.difference ?? 0, currency)}
+                </div>
+              </div>
+            </div>
+
+            {canEdit && (
+              <div className="space-y-2">
+                <Label htmlFor="reconcileFile">Match an imported statement (optional)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="reconcileFile"
+                    type="file"
+                    accept=".csv,.txt,.ofx,.qfx,.sta,.mt940,.940"
+                    onChange={(e) => {
+                      setFile(e.target.files?.[0] ?? null);
+                      setSuggestion(null);
+                    }}
+                  />
+                  {fileFormat === 'csv' && (
+                    <Select value={profileId} onValueChange={setProfileId}>
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue placeholder="Import profile" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map(profile => (
+                          <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => matchStatement.mutate()}
+                    disabled={!file || (fileFormat === 'csv' && !profileId) || matchStatement.isPending}
+                  >
+                    <FileUp className="h-4 w-4 mr-2" />
+                    {matchStatement.isPending ? 'Matching...' : 'Match'}
+                  </Button>
+                </div>
+                {fileFormat === 'csv' && profiles.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    CSV statements are read with a saved import profile; save one when importing a statement first.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {suggestion && (suggestion.unmatched.length > 0 || suggestion.errors.length > 0) && (
+              <div className="space-y-1 rounded-md bg-amber-50 p-3 text-xs text-amber-800">
+                {suggestion.unmatched.length > 0 && (
+                  <div className="font-medium">On the statement but not in the planner:</div>
+                )}
+                {suggestion.unmatched.map(row => (
+                  <div key={row.line} className="flex justify-between gap-2">
+                    <span className="truncate">{row.date} · {row.title}</span>
+                    <span className="shrink-0">{formatAmount(row.amount, currency)}</span>
+                  </div>
+                ))}
+                {suggestion.errors.map(error => (
+                  <div key={error}>{error}</div>
+                ))}
+              </div>
+            )}
+
+            <div className="max-h-[40vh] overflow-y-auto rounded-md border px-3 py-1">
+              {data.entries.length === 0 ? (
+                <div className="py-3 text-center text-sm text-muted-foreground">
+                  Nothing booked to this account up to the statement date
+                </div>
+              ) : (
+                data.entries.map(renderEntry)
+              )}
+            </div>
+
+            {canEdit && (
+              <div className="flex justify-between gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => deleteReconciliation.mutate(reconciliation.id)}
+                  disabled={deleteReconciliation.isPending}
+                >
+                  Cancel Reconciliation
+                </Button>
+                <Button type="button" onClick={handleFinish} disabled={finishReconciliation.isPending}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  {finishReconciliation.isPending ? 'Finishing...' : 'Finish'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
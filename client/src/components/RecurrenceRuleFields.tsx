@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Control } from "react-hook-form";
+import { z } from "zod";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { describeRecurrence, getRecurrenceRuleError, isValidRecurrenceRule, parseRecurrenceRule, recurrenceShifts, RecurrenceShift } from "@shared/recurrence";
+
+// Radix selects can't use "" as an item value
+const NO_RULE = "none";
+const CUSTOM_RULE = "custom";
+
+const RULE_PRESETS = [
+  { label: "Every 2 weeks", rule: "FREQ=WEEKLY;INTERVAL=2" },
+  { label: "Quarterly", rule: "FREQ=MONTHLY;INTERVAL=3" },
+  { label: "Every 6 months", rule: "FREQ=MONTHLY;INTERVAL=6" },
+  { label: "First Monday of the month", rule: "FREQ=MONTHLY;BYDAY=1MO" },
+  { label: "Last Friday of the month", rule: "FREQ=MONTHLY;BYDAY=-1FR" },
+  { label: "Last business day of the month", rule: "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1" },
+  { label: "Last day of the month", rule: "FREQ=MONTHLY;BYMONTHDAY=-1" },
+];
+
+const SHIFT_LABELS: Record<RecurrenceShift, string> = {
+  none: "Keep the date",
+  next_business_day: "Move to next business day",
+  previous_business_day: "Move to previous business day",
+  nearest_business_day: "Move to nearest business day",
+};
+
+// Form fields shared by the transaction modals; an empty rule means "use the repeat interval"
+export const recurrenceFormFields = {
+  recurrenceRule: z.string().trim().optional().refine(
+    (rule) => !rule || isValidRecurrenceRule(rule),
+    (rule) => ({ message: `${getRecurrenceRuleError(rule!)} (e.g. FREQ=MONTHLY;BYDAY=-1FR)` })
+  ),
+  recurrenceShift: z.enum(recurrenceShifts).optional(),
+};
+
+/**
+ * The rule and shift as sent to the API, cleared for one-time transactions
+ */
+export function toRecurrencePayload(data: { isRecurring?: boolean; recurrenceRule?: string; recurrenceShift?: RecurrenceShift }) {
+  return {
+    recurrenceRule: data.isRecurring && data.recurrenceRule ? data.recurrenceRule : null,
+    recurrenceShift: data.isRecurring && data.recurrenceShift && data.recurrenceShift !== "none" ? data.recurrenceShift : null,
+  };
+}
+
+interface RecurrenceRuleFieldsProps {
+  // Any form with optional `recurrenceRule` and `recurrenceShift` string fields
+  control: Control<any>;
+}
+
+/**
+ * Advanced repeat pattern and weekend/holiday handling for recurring transactions.
+ * Leaving the pattern on "Use repeat interval" keeps the plain daily/weekly/monthly/yearly behaviour.
+ */
+export default function RecurrenceRuleFields({ control }: RecurrenceRuleFieldsProps) {
+  const [isCustom, setIsCustom] = useState(false);
+
+  return (
+    <>
+      <FormField
+        control={control}
+        name="recurrenceRule"
+        render={({ field }) => {
+          const value: string = field.value || "";
+          const preset = RULE_PRESETS.find(p => p.rule === value);
+          const selected = !value && !isCustom ? NO_RULE : preset && !isCustom ? preset.rule : CUSTOM_RULE;
+          const error = value ? getRecurrenceRuleError(value) : null;
+
+          return (
+            <FormItem>
+              <FormLabel>Repeat Pattern</FormLabel>
+              <Select
+                value={selected}
+                onValueChange={(next) => {
+                  setIsCustom(next === CUSTOM_RULE);
+                  if (next === NO_RULE) field.onChange("");
+                  else if (next !== CUSTOM_RULE) field.onChange(next);
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue placeholder="Use repeat interval" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_RULE}>Use repeat interval</SelectItem>
+                  {RULE_PRESETS.map((p) => (
+                    <SelectItem key={p.rule} value={p.rule}>{p.label}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_RULE}>Custom rule (RRULE)…</SelectItem>
+                </SelectContent>
+              </Select>
+              {selected === CUSTOM_RULE && (
+                <FormControl>
+                  <Input
+                    value={value}
+                    onChange={(e) => field.onChange(e.target.value)}
+                    placeholder="FREQ=MONTHLY;BYDAY=2TU"
+                    className="bg-background font-mono text-xs"
+                  />
+                </FormControl>
+              )}
+              {value && !error && (
+                <FormDescription>{describeRecurrence(parseRecurrenceRule(value))}</FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          );
+        }}
+      />
+
+      <FormField
+        control={control}
+        name="recurrenceShift"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>On weekends and holidays</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value || "none"}>
+              <FormControl>
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {recurrenceShifts.map((shift) => (
+                  <SelectItem key={shift} value={shift}>{SHIFT_LABELS[shift]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
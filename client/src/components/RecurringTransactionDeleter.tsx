@@ -1,124 +0,0 @@
-import { useState } from 'react';
-import { Button } from "@/components/ui/button";
-import { AlertCircle, Calendar } from 'lucide-react';
-import { format } from 'date-fns';
-import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from '@/lib/queryClient';
-
-/**
- * Special component to handle deletion of recurring transaction instances for specific months
- * This addresses the issue with deleting recurring transactions like birthdays in June
- */
-
-export default function RecurringTransactionDeleter() {
-  const [isLoading, setIsLoading] = useState(false);
-  const { toast } = useToast();
-  
-  // Track attempted deletions
-  const [deleted, setDeleted] = useState<{[key: string]: boolean}>({
-    'beni': false,
-    'fabi': false
-  });
-
-  async function deleteBirthdays() {
-    setIsLoading(true);
-    
-    try {
-      // 1. First attempt: Beni's birthday (transaction ID 36) on 2025-06-09
-      await deleteRecurringInstanceForMonth(36, new Date('2025-06-09'));
-      setDeleted(prev => ({...prev, beni: true}));
-      
-      // 2. Second attempt: Fabi's birthday (transaction ID 38) on 2025-06-05
-      await deleteRecurringInstanceForMonth(38, new Date('2025-06-05'));
-      setDeleted(prev => ({...prev, fabi: true}));
-      
-      // 3. Force a refresh of transaction data
-      queryClient.invalidateQueries({queryKey: ['/api/transactions']});
-      
-      // Show success message
-      toast({
-        title: "Birthdays deleted",
-        description: "Successfully deleted the birthday transactions for June",
-        variant: "default"
-      });
-      
-    } catch (error) {
-      console.error("Error deleting birthdays:", error);
-      toast({
-        title: "Error",
-        description: "Failed to delete birthday transactions. See console for details.",
-        variant: "destructive"
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  }
-  
-  async function deleteRecurringInstanceForMonth(transactionId: number, date: Date) {
-    // Format date for better logging
-    const formattedDate = format(date, 'yyyy-MM-dd');
-    console.log(`Deleting transaction: ${transactionId} for date: ${formattedDate}`);
-    
-    // 1. Store deletion status in localStorage
-    const monthKey = format(date, 'yyyy-MM');
-    const storageKey = `recurring_deleted_${transactionId}_${monthKey}`;
-    localStorage.setItem(storageKey, 'true');
-    
-    // 2. Mark the transaction as deleted in the database for this specific month 
-    // Using the markDeleted endpoint
-    const response = await apiRequest(
-      'POST', 
-      `/api/transactions/${transactionId}/mark-deleted`, 
-      { 
-        date: formattedDate,
-        monthKey: monthKey,
-        deleted: true
-      }
-    );
-    
-    if (!response.ok) {
-      // Fallback to direct deletion through localStorage
-      console.log(`API deletion failed, using localStorage deletion for ${transactionId}`);
-      localStorage.setItem(storageKey, 'true');
-      // We'll consider this successful as localStorage is our primary deletion mechanism
-    }
-    
-    return true;
-  }
-
-  return (
-    <div className="flex flex-col gap-4 p-4 border rounded-lg bg-muted/50">
-      <div className="flex items-start gap-3">
-        <AlertCircle className="h-5 w-5 text-amber-500 mt-0.5" />
-        <div>
-          <h3 className="font-medium">June Birthday Deletion Tool</h3>
-          <p className="text-sm text-muted-foreground">
-            Use this tool to specifically delete Beni and Fabi birthday transactions for June.
-          </p>
-        </div>
-      </div>
-      
-      <div className="grid grid-cols-2 gap-2 mt-2">
-        <div className="flex items-center gap-2 text-sm">
-          <div className={`h-2 w-2 rounded-full ${deleted.beni ? 'bg-green-500' : 'bg-amber-500'}`} />
-          <span>Beni Birthday (June 9)</span>
-        </div>
-        <div className="flex items-center gap-2 text-sm">
-          <div className={`h-2 w-2 rounded-full ${deleted.fabi ? 'bg-green-500' : 'bg-amber-500'}`} />
-          <span>Fabi Birthday (June 5)</span>
-        </div>
-      </div>
-      
-      <Button 
-        onClick={deleteBirthdays} 
-        disabled={isLoading || (deleted.beni && deleted.fabi)}
-        className="mt-2"
-        variant="outline"
-        size="sm"
-      >
-        <Calendar className="h-4 w-4 mr-2" />
-        {isLoading ? 'Deleting...' : 'Delete June Birthdays'}
-      </Button>
-    </div>
-  );
-}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { format, parseISO } from 'date-fns';
+import { ReportEntriesQuery, ReportEntry } from '@shared/schema';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useReportEntries } from '@/hooks/use-monthly-budget';
+import { cn } from '@/lib/utils';
+
+// A report figure to drill into
+export type ReportDrillDown = {
+  title: string;
+  query: ReportEntriesQuery;
+};
+
+const KIND_COLORS: Record<ReportEntry['kind'], string> = {
+  income: 'text-green-600',
+  expense: 'text-red-500',
+  savings: 'text-blue-500',
+};
+
+function formatAmount(amount: number): string {
+  return `${amount.toFixed(2)} PLN`;
+}
+
+function formatMonth(month: string): string {
+  return format(parseISO(`${month}-01`), 'MMM yyyy');
+}
+
+/**
+ * The occurrences and savings entries that add up to a figure of the reports
+ */
+export default function ReportEntriesDialog({ drillDown, onClose }: { drillDown: ReportDrillDown | null; onClose: () => void }) {
+  const { entries, isLoading, error } = useReportEntries(drillDown?.query ?? null);
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const query = drillDown?.query;
+
+  return (
+    <Dialog open={drillDown !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{drillDown?.title}</DialogTitle>
+          {query && (
+            <DialogDescription>
+              {query.from === query.to ? formatMonth(query.from) : `${formatMonth(query.from)} – ${formatMonth(query.to)}`}
+              {!isLoading && !error && ` · ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}, ${formatAmount(total)}`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : error ? (
+          <p className="text-sm text-red-500">Couldn't load the entries: {error.message}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing here</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {entries.map((entry, index) => (
+                <tr key={`${entry.transactionId ?? 'savings'}:${entry.date}:${index}`} className="border-b last:border-0">
+                  <td className="py-1 pr-2 whitespace-nowrap text-muted-foreground">{format(parseISO(entry.date), 'd MMM yyyy')}</td>
+                  <td className="py-1 pr-2">
+                    <div>{entry.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {[entry.categoryName, entry.personLabel].filter(Boolean).join(' · ')}
+                    </div>
+                  </td>
+                  <td className={cn('py-1 text-right font-mono whitespace-nowrap', KIND_COLORS[entry.kind])}>
+                    {formatAmount(entry.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ContributionInterval, InsertSavingsGoal, SavingsGoalStatus } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Target, Plus, Pencil, Trash2, Repeat } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { usePeople } from '@/hooks/use-people';
+import { useSavingsGoals, SAVINGS_GOALS_QUERY_KEY } from '@/hooks/use-savings-goals';
+import { apiRequest } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+
+const INTERVAL_LABELS: Record<ContributionInterval, string> = {
+  weekly: 'every week',
+  monthly: 'every month',
+};
+
+const EMPTY_FORM = {
+  name: '',
+  emoji: '',
+  targetAmount: '',
+  targetDate: '',
+  contributionAmount: '',
+  contributionInterval: 'monthly' as ContributionInterval,
+  contributionPersonLabel: '',
+  nextContributionDate: format(new Date(), 'yyyy-MM-dd'),
+};
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function formatDay(date: string): string {
+  return format(parseISO(date), 'MMM d, yyyy');
+}
+
+export default function SavingsGoals() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<SavingsGoalStatus | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const { goals, isLoading } = useSavingsGoals();
+  const { activePeople } = usePeople();
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: SAVINGS_GOALS_QUERY_KEY });
+    // A new auto-contribution may have been booked straight away
+    queryClient.invalidateQueries({ queryKey: ['/api/savings'] });
+    closeDialog();
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveGoal = useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: InsertSavingsGoal }) => {
+      const response = id
+        ? await apiRequest('PATCH', `/api/savings-goals/${id}`, data)
+        : await apiRequest('POST', '/api/savings-goals', data);
+      return response.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const deleteGoal = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/savings-goals/${id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const closeDialog = () => {
+    setIsOpen(false);
+    setEditingGoal(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const openDialog = (goal?: SavingsGoalStatus) => {
+    setEditingGoal(goal ?? null);
+    setFormData(goal ? {
+      name: goal.name,
+      emoji: goal.emoji ?? '',
+      targetAmount: String(goal.targetAmount),
+      targetDate: goal.targetDate ?? '',
+      contributionAmount: goal.contributionAmount !== null ? String(goal.contributionAmount) : '',
+      contributionInterval: (goal.contributionInterval as ContributionInterval | null) ?? 'monthly',
+      contributionPersonLabel: goal.contributionPersonLabel ?? '',
+      nextContributionDate: goal.nextContributionDate ?? EMPTY_FORM.nextContributionDate,
+    } : {
+      ...EMPTY_FORM,
+      contributionPersonLabel: activePeople.find(person => person.name === 'Together')?.name ?? activePeople[0]?.name ?? '',
+    });
+    setIsOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const targetAmount = parseAmount(formData.targetAmount);
+    const contributionAmount = formData.contributionAmount.trim() ? parseAmount(formData.contributionAmount) : null;
+    if (!formData.name.trim() || isNaN(targetAmount) || targetAmount <= 0) {
+      onError(new Error('A goal needs a name and a positive target amount'));
+      return;
+    }
+    if (contributionAmount !== null && (isNaN(contributionAmount) || contributionAmount <= 0)) {
+      onError(new Error('The contribution must be a positive amount'));
+      return;
+    }
+
+    saveGoal.mutate({
+      id: editingGoal?.id,
+      data: {
+        name: formData.name.trim(),
+        emoji: formData.emoji.trim() || null,
+        targetAmount,
+        targetDate: formData.targetDate || null,
+        contributionAmount,
+        contributionInterval: contributionAmount !== null ? formData.contributionInterval : null,
+        contributionPersonLabel: contributionAmount !== null ? formData.contributionPersonLabel : null,
+        nextContributionDate: contributionAmount !== null ? formData.nextContributionDate : null,
+      },
+    });
+  };
+
+  const handleDelete = (goal: SavingsGoalStatus) => {
+    if (confirm(`Delete the goal "${goal.name}"? Its savings entries are kept as general savings.`)) {
+      deleteGoal.mutate(goal.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              <span>Savings Goals</span>
+            </CardTitle>
+            <CardDescription>What you are saving up for together</CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Goal
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : goals.length === 0 ? (
+          <div className="py-3 text-center text-sm text-muted-foreground">
+            No goals yet. Add one for an emergency fund, a vacation or a new car.
+          </div>
+        ) : (
+          goals.map(goal => (
+            <div key={goal.id} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 font-medium text-sm">
+                  {goal.emoji && <span>{goal.emoji}</span>}
+                  <span>{goal.name}</span>
+                </div>
+                <div className="flex items-center gap-1 text-sm">
+                  <span className="font-semibold">{goal.saved.toFixed(2)}</span>
+                  <span className="text-muted-foreground">/ {goal.targetAmount.toFixed(2)} PLN</span>
+                  {canEdit && (
+                    <>
+                      <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => openDialog(goal)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => handleDelete(goal)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <Progress value={goal.progress * 100} className="h-2" />
+
+              <div className="flex flex-wrap justify-between gap-x-4 text-xs text-muted-foreground">
+                <span>
+                  {goal.remaining === 0
+                    ? `Reached on ${formatDay(goal.projectedCompletionDate!)}`
+                    : goal.projectedCompletionDate
+                      ? `Projected: ${formatDay(goal.projectedCompletionDate)}`
+                      : 'No contributions lately to project from'}
+                  {goal.targetDate && goal.remaining > 0 && (
+                    <span className={cn('ml-1', goal.isOnTrack ? 'text-green-600' : 'text-amber-600')}>
+                      (target {formatDay(goal.targetDate)}{goal.isOnTrack ? ', on track' : ''})
+                    </span>
+                  )}
+                </span>
+                {goal.requiredMonthly !== null && !goal.isOnTrack && (
+                  <span>Needs {goal.requiredMonthly.toFixed(2)} PLN a month</span>
+                )}
+              </div>
+
+              {goal.contributionAmount !== null && goal.nextContributionDate && (
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Repeat className="h-3 w-3" />
+                  {goal.contributionAmount.toFixed(2)} PLN {INTERVAL_LABELS[goal.contributionInterval as ContributionInterval]},
+                  next on {formatDay(goal.nextContributionDate)}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editingGoal ? 'Edit Goal' : 'New Savings Goal'}</DialogTitle>
+            <DialogDescription>
+              Set a target and, optionally, an amount to put aside automatically
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-[1fr_80px] gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="goalName">Name</Label>
+                <Input
+                  id="goalName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Emergency fund, Vacation"
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="goalEmoji">Emoji</Label>
+                <Input
+                  id="goalEmoji"
+                  value={formData.emoji}
+                  onChange={(e) => setFormData({ ...formData, emoji: e.target.value })}
+                  placeholder="🏖️"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="goalTarget">Target (PLN)</Label>
+                <Input
+                  id="goalTarget"
+                  inputMode="decimal"
+                  value={formData.targetAmount}
+                  onChange={(e) => setFormData({ ...formData, targetAmount: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="goalDate">Target date (optional)</Label>
+                <Input
+                  id="goalDate"
+                  type="date"
+                  value={formData.targetDate}
+                  onChange={(e) => setFormData({ ...formData, targetDate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded border p-3">
+              <Label htmlFor="goalContribution">Auto-contribution (optional)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  id="goalContribution"
+                  inputMode="decimal"
+                  value={formData.contributionAmount}
+                  onChange={(e) => setFormData({ ...formData, contributionAmount: e.target.value })}
+                  placeholder="Amount (PLN)"
+                />
+                <Select
+                  value={formData.contributionInterval}
+                  onValueChange={(value) => setFormData({ ...formData, contributionInterval: value as ContributionInterval })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.contributionAmount.trim() && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={formData.contributionPersonLabel}
+                    onValueChange={(value) => setFormData({ ...formData, contributionPersonLabel: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Person" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activePeople.map(person => (
+                        <SelectItem key={person.id} value={person.name}>{person.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="date"
+                    value={formData.nextContributionDate}
+                    onChange={(e) => setFormData({ ...formData, nextContributionDate: e.target.value })}
+                    title="Date of the next contribution"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveGoal.isPending}>
+                {saveGoal.isPending ? 'Saving...' : editingGoal ? 'Update Goal' : 'Create Goal'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,5 +1,8 @@
 import { format } from "date-fns";
-import { Savings, TransactionWithCategory } from "@shared/schema";
+import { Savings } from "@shared/schema";
+import { useMonthlyBudget } from "@/hooks/use-monthly-budget";
+import { useSavingsGoals } from "@/hooks/use-savings-goals";
+import { useAccounts } from "@/hooks/use-accounts";
 import { 
   Card, 
   CardContent, 
@@ -21,7 +24,6 @@ import { PiggyBank, Trash } from "lucide-react";
 
 interface SavingsSummaryProps {
   savings: Savings[];
-  transactions: TransactionWithCategory[];
   isLoading: boolean;
   onDeleteSavings: (id: number) => void;
   isPending: boolean;
@@ -30,34 +32,23 @@ interface SavingsSummaryProps {
 
 export default function SavingsSummary({ 
   savings, 
-  transactions, 
   isLoading, 
   onDeleteSavings,
   isPending,
   currentDate = new Date() 
 }: SavingsSummaryProps) {
-  // Calculate total actual savings (manual contributions) - show all savings regardless of date
+  // Calculate total actual savings (contributions minus withdrawals) - show all savings regardless of date
   const totalActualSavings = savings.reduce((total, saving) => total + saving.amount, 0);
   
-  // Calculate the budget left for the currently viewed month (income - expenses)
-  const currentMonth = currentDate.getMonth();
-  const currentYear = currentDate.getFullYear();
+  // Budget left for the currently viewed month (income - expenses), as calculated by the server
+  const { budget } = useMonthlyBudget(currentDate);
+  const budgetLeft = budget ? budget.income - budget.expenses : 0;
   
-  const monthlyTransactions = transactions.filter(t => {
-    const transactionDate = new Date(t.date);
-    return transactionDate.getMonth() === currentMonth && 
-           transactionDate.getFullYear() === currentYear;
-  });
+  const { goals } = useSavingsGoals();
+  const goalNames = new Map(goals.map(goal => [goal.id, goal.name]));
   
-  const income = monthlyTransactions
-    .filter(t => !t.isExpense)
-    .reduce((total, t) => total + t.amount, 0);
-    
-  const expenses = monthlyTransactions
-    .filter(t => t.isExpense)
-    .reduce((total, t) => total + t.amount, 0);
-  
-  const budgetLeft = income - expenses;
+  const { accounts } = useAccounts();
+  const accountNames = new Map(accounts.map(account => [account.id, account.name]));
   
   // Get the current month name for display
   const currentMonthName = format(currentDate, 'MMMM yyyy');
@@ -122,6 +113,8 @@ export default function SavingsSummary({
               <TableRow>
                 <TableHead>Date</TableHead>
                 <TableHead>Person</TableHead>
+                <TableHead>Goal</TableHead>
+                {accounts.length > 0 && <TableHead>Account</TableHead>}
                 <TableHead>Amount</TableHead>
                 <TableHead className="w-[50px]"></TableHead>
               </TableRow>
@@ -131,7 +124,13 @@ export default function SavingsSummary({
                 <TableRow key={saving.id}>
                   <TableCell>{format(new Date(saving.date), 'MMM d, yyyy')}</TableCell>
                   <TableCell>{saving.personLabel}</TableCell>
-                  <TableCell>{formatCurrency(saving.amount)}</TableCell>
+                  <TableCell>{saving.goalId !== null ? goalNames.get(saving.goalId) : ''}</TableCell>
+                  {accounts.length > 0 && (
+                    <TableCell>{saving.accountId !== null ? accountNames.get(saving.accountId) : ''}</TableCell>
+                  )}
+                  <TableCell className={saving.amount < 0 ? 'text-red-500' : undefined}>
+                    {formatCurrency(saving.amount)}
+                  </TableCell>
                   <TableCell>
                     <Button 
                       variant="ghost" 
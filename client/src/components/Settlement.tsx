@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { InsertSettlementPayment, Settlement as SettlementData, SettlementDebt, SettlementSplitMethod, settlementSplitMethods } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowRight, CheckCircle2, Pencil, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { usePeople, PEOPLE_QUERY_KEY } from '@/hooks/use-people';
+import { useSettlement, SETTLEMENT_QUERY_KEY } from '@/hooks/use-settlement';
+import { apiRequest } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+
+const SPLIT_METHOD_LABELS: Record<SettlementSplitMethod, string> = {
+  equal: 'Equally',
+  percentage: 'By percentage',
+  income: 'By income',
+};
+
+// Shown payments; older ones still count
+const RECENT_PAYMENTS = 5;
+
+function formatAmount(amount: number): string {
+  return `${amount.toFixed(2)} PLN`;
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function describeSplit(settlement: SettlementData): string {
+  if (settlement.shares.length === 0) return 'Add members to split shared expenses';
+  return `Shared expenses split ${SPLIT_METHOD_LABELS[settlement.splitMethod].toLowerCase()}: ` +
+    settlement.shares.map(share => `${share.personLabel} ${share.percent}%`).join(', ');
+}
+
+/**
+ * Who owes whom for what the members paid for each other, with the shared expenses split
+ * by the household's method. Settling a debt records a payment that brings it to zero.
+ */
+export default function Settlement() {
+  const [isEditing, setIsEditing] = useState(false);
+  const [splitMethod, setSplitMethod] = useState<SettlementSplitMethod>('equal');
+  const [shares, setShares] = useState<Record<number, string>>({});
+  const { settlement, isLoading, error } = useSettlement();
+  const { activeMembers, getPersonColor } = usePeople();
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: SETTLEMENT_QUERY_KEY });
+  };
+
+  const saveSettings = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/settlement/settings', {
+        splitMethod,
+        shares: splitMethod === 'percentage'
+          ? activeMembers.map(person => ({ personId: person.id, percent: parseAmount(shares[person.id] || '0') }))
+          : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      // Percentage shares are kept with the people
+      queryClient.invalidateQueries({ queryKey: PEOPLE_QUERY_KEY });
+      refresh();
+      setIsEditing(false);
+    },
+    onError,
+  });
+
+  const recordPayment = useMutation({
+    mutationFn: async (payment: InsertSettlementPayment) => {
+      const response = await apiRequest('POST', '/api/settlement/payments', payment);
+      return response.json();
+    },
+    onSuccess: (_payment, payment) => {
+      refresh();
+      toast({
+        title: 'Payment recorded',
+        description: `${payment.fromPerson} paid ${payment.toPerson} ${formatAmount(payment.amount)}`,
+      });
+    },
+    onError,
+  });
+
+  const deletePayment = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/settlement/payments/${id}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const startEditing = () => {
+    setSplitMethod(settlement?.splitMethod ?? 'equal');
+    setShares(Object.fromEntries(activeMembers.map(person => [
+      person.id,
+      person.settlementShare !== null ? String(person.settlementShare) : '',
+    ])));
+    setIsEditing(true);
+  };
+
+  const settle = (debt: SettlementDebt) => {
+    recordPayment.mutate({
+      fromPerson: debt.from,
+      toPerson: debt.to,
+      amount: debt.amount,
+      date: format(new Date(), 'yyyy-MM-dd'),
+    });
+  };
+
+  const sharesTotal = activeMembers.reduce((sum, person) => sum + (parseAmount(shares[person.id] || '0') || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-xl">Who Owes Whom</CardTitle>
+            <CardDescription>
+              {settlement ? describeSplit(settlement) : 'What members paid for each other'}
+            </CardDescription>
+          </div>
+          {canEdit && !isEditing && (
+            <Button size="sm" variant="ghost" onClick={startEditing} title="Change how shared expenses are split">
+              <Pencil className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEditing && (
+          <form
+            className="space-y-3 rounded-md border p-3"
+            onSubmit={e => {
+              e.preventDefault();
+              saveSettings.mutate();
+            }}
+          >
+            <div className="flex flex-wrap gap-1">
+              {settlementSplitMethods.map(method => (
+                <Button
+                  key={method}
+                  type="button"
+                  size="sm"
+                  variant={method === splitMethod ? 'default' : 'outline'}
+                  onClick={() => setSplitMethod(method)}
+                >
+                  {SPLIT_METHOD_LABELS[method]}
+                </Button>
+              ))}
+            </div>
+            {splitMethod === 'income' && (
+              <p className="text-xs text-muted-foreground">
+                Each month's shared expenses are split by what each member earned that month.
+              </p>
+            )}
+            {splitMethod === 'percentage' && (
+              <div className="space-y-2">
+                {activeMembers.map(person => (
+                  <div key={person.id} className="flex items-center gap-2">
+                    <Label htmlFor={`settlement-share-${person.id}`} className="flex-1">{person.name}</Label>
+                    <Input
+                      id={`settlement-share-${person.id}`}
+                      inputMode="decimal"
+                      value={shares[person.id] ?? ''}
+                      onChange={e => setShares({ ...shares, [person.id]: e.target.value })}
+                      className="w-24"
+                    />
+                    <span className="text-sm text-muted-foreground">%</span>
+                  </div>
+                ))}
+                <p className={cn('text-xs', Math.abs(sharesTotal - 100) < 0.01 ? 'text-muted-foreground' : 'text-red-500')}>
+                  Total {sharesTotal.toFixed(2)}% of 100%
+                </p>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={saveSettings.isPending}>
+                {saveSettings.isPending ? 'Saving...' : 'Save'}
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : error || !settlement ? (
+          <p className="text-sm text-red-500">Couldn't calculate the balances{error ? `: ${error.message}` : ''}</p>
+        ) : (
+          <>
+            {settlement.debts.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle2 className="h-4 w-4" />
+                Everyone is settled up
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {settlement.debts.map(debt => (
+                  <div key={`${debt.from}-${debt.to}`} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-medium" style={{ color: getPersonColor(debt.from) }}>{debt.from}</span>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium" style={{ color: getPersonColor(debt.to) }}>{debt.to}</span>
+                      <span className="font-mono">{formatAmount(debt.amount)}</span>
+                    </div>
+                    {canEdit && (
+                      <Button size="sm" variant="outline" onClick={() => settle(debt)} disabled={recordPayment.isPending}>
+                        Settle
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {settlement.balances.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-normal">Member</th>
+                    <th className="font-normal text-right">Paid</th>
+                    <th className="font-normal text-right">Their share</th>
+                    <th className="font-normal text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {settlement.balances.map(balance => (
+                    <tr key={balance.personLabel}>
+                      <td>{balance.personLabel}</td>
+                      <td className="text-right font-mono">{balance.paid.toFixed(2)}</td>
+                      <td className="text-right font-mono">{balance.share.toFixed(2)}</td>
+                      <td
+                        className={cn(
+                          'text-right font-mono',
+                          balance.balance > 0 ? 'text-green-600' : balance.balance < 0 ? 'text-red-500' : ''
+                        )}
+                        title={balance.settled !== 0 ? `Including ${formatAmount(balance.settled)} in settlement payments` : undefined}
+                      >
+                        {balance.balance > 0 ? '+' : ''}{balance.balance.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {settlement.payments.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Settlement payments</div>
+                {settlement.payments.slice(0, RECENT_PAYMENTS).map(payment => (
+                  <div key={payment.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-muted-foreground">
+                      {format(parseISO(payment.date), 'MMM d, yyyy')}: {payment.fromPerson} paid {payment.toPerson}{' '}
+                      {formatAmount(payment.amount)}
+                    </span>
+                    {canEdit && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deletePayment.mutate(payment.id)}
+                        disabled={deletePayment.isPending}
+                        title="Undo this payment"
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Category, InsertTransactionLine, MAX_TRANSACTION_LINES, TransactionWithCategory } from '@shared/schema';
+import { linesTotal } from '@shared/split-lines';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Split, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { usePeople } from '@/hooks/use-people';
+import { apiRequest } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+
+// Select values can't be empty, so "none" stands for no category or person
+const NONE = 'none';
+
+interface DraftLine {
+  amount: string;
+  categoryId: number | null;
+  personLabel: string | null;
+  note: string;
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function toDraftLines(transaction: TransactionWithCategory): DraftLine[] {
+  return (transaction.lines ?? []).map(line => ({
+    amount: line.amount.toFixed(2),
+    categoryId: line.categoryId,
+    personLabel: line.personLabel,
+    note: line.note ?? '',
+  }));
+}
+
+interface SplitLinesEditorProps {
+  transaction: TransactionWithCategory;
+  categories: Category[];
+}
+
+/**
+ * Split a saved transaction across categories and people. The lines add up to the transaction's
+ * amount; the split is saved on its own, so amount changes are saved with the transaction first.
+ */
+export default function SplitLinesEditor({ transaction, categories }: SplitLinesEditorProps) {
+  const [lines, setLines] = useState<DraftLine[]>(() => toDraftLines(transaction));
+  const { canEdit } = useHousehold();
+  const { people } = usePeople();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // An occurrence may show an overridden amount; the split is of the transaction's own amount
+  const series = queryClient.getQueryData<TransactionWithCategory[]>(['/api/transactions'])
+    ?.find(t => t.id === transaction.id) ?? transaction;
+  const amount = series.amount;
+
+  useEffect(() => {
+    setLines(toDraftLines(series));
+  }, [series]);
+
+  const lineCategories = categories.filter(category => category.isExpense === transaction.isExpense);
+  const usedPeople = new Set([series.personLabel, ...lines.map(line => line.personLabel)]);
+  const selectablePeople = people.filter(person => person.isActive || usedPeople.has(person.name));
+
+  const amounts = lines.map(line => parseAmount(line.amount));
+  const remaining = Math.round((amount - linesTotal(amounts.map(a => ({ amount: isNaN(a) ? 0 : a })))) * 100) / 100;
+  const isValid = lines.length !== 1 && amounts.every(a => a > 0) && (lines.length === 0 || Math.abs(remaining) < 0.005);
+
+  const saveLines = useMutation({
+    mutationFn: async (draft: DraftLine[]) => {
+      const payload: InsertTransactionLine[] = draft.map(line => ({
+        amount: parseAmount(line.amount),
+        categoryId: line.categoryId,
+        personLabel: line.personLabel,
+        note: line.note.trim() || null,
+      }));
+      const response = await apiRequest('PUT', `/api/transactions/${transaction.id}/lines`, { lines: payload });
+      return response.json();
+    },
+    onSuccess: (_saved, draft) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      toast({
+        title: draft.length > 0 ? 'Split saved' : 'Split removed',
+        description: draft.length > 0
+          ? `"${transaction.title}" is split into ${draft.length} lines`
+          : `"${transaction.title}" counts towards its own category and person again`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines(current => current.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  // The first line starts with the whole amount, so the second takes what is moved off it
+  const startSplit = () => {
+    setLines([
+      { amount: amount.toFixed(2), categoryId: series.categoryId, personLabel: series.personLabel, note: '' },
+      { amount: '', categoryId: series.categoryId, personLabel: series.personLabel, note: '' },
+    ]);
+  };
+
+  const addLine = () => {
+    setLines(current => [
+      ...current,
+      { amount: remaining > 0 ? remaining.toFixed(2) : '', categoryId: null, personLabel: null, note: '' },
+    ]);
+  };
+
+  if (lines.length === 0) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border p-3">
+        <div className="space-y-0.5">
+          <Label>Split</Label>
+          <div className="text-sm text-muted-foreground">
+            Count parts of this {transaction.isExpense ? 'expense' : 'income'} towards other categories or people
+          </div>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={startSplit} disabled={!canEdit}>
+          <Split className="h-4 w-4 mr-1" />
+          Split
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <Label>Split of {amount.toFixed(2)} PLN</Label>
+        <span className={cn('text-sm font-mono', Math.abs(remaining) < 0.005 ? 'text-muted-foreground' : 'text-red-500')}>
+          {remaining === 0 ? 'Fully split' : `${remaining.toFixed(2)} ${remaining > 0 ? 'left' : 'over'}`}
+        </span>
+      </div>
+
+      {lines.map((line, index) => (
+        <div key={index} className="space-y-2 border-b border-border pb-3 last:border-0 last:pb-0">
+          <div className="flex items-center gap-2">
+            <Input
+              inputMode="decimal"
+              value={line.amount}
+              onChange={(e) => updateLine(index, { amount: e.target.value.replace(/[^0-9.,]/g, '') })}
+              placeholder="0.00"
+              className="w-28"
+              aria-label={`Amount of line ${index + 1}`}
+            />
+            <Input
+              value={line.note}
+              onChange={(e) => updateLine(index, { note: e.target.value })}
+              placeholder="Note"
+              className="flex-1"
+              aria-label={`Note of line ${index + 1}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setLines(current => current.filter((_, i) => i !== index))}
+              aria-label={`Remove line ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={line.categoryId !== null ? String(line.categoryId) : NONE}
+              onValueChange={(value) => updateLine(index, { categoryId: value === NONE ? null : parseInt(value) })}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Uncategorized</SelectItem>
+                {lineCategories.map(category => (
+                  <SelectItem key={category.id} value={String(category.id)}>
+                    {category.emoji && <span className="mr-1">{category.emoji}</span>}
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={line.personLabel ?? NONE}
+              onValueChange={(value) => updateLine(index, { personLabel: value === NONE ? null : value })}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Person" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No person</SelectItem>
+                {selectablePeople.map(person => (
+                  <SelectItem key={person.id} value={person.name}>
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: person.color }}></div>
+                      {person.name}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addLine}
+          disabled={lines.length >= MAX_TRANSACTION_LINES}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add line
+        </Button>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => series.lines?.length ? saveLines.mutate([]) : setLines([])}
+            disabled={!canEdit || saveLines.isPending}
+          >
+            Remove split
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => saveLines.mutate(lines)}
+            disabled={!canEdit || !isValid || saveLines.isPending}
+          >
+            {saveLines.isPending ? 'Saving...' : 'Save split'}
+          </Button>
+        </div>
+      </div>
+      {lines.length === 1 && (
+        <p className="text-xs text-muted-foreground">A split needs at least two lines</p>
+      )}
+    </div>
+  );
+}
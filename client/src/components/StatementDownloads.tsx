@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { format, subMonths } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileDown } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+// The statements need the household header, so they're fetched and saved rather than linked to
+async function downloadStatement(path: string, fallbackName: string) {
+  const response = await apiRequest('GET', path);
+  const blob = await response.blob();
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? fallbackName;
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * PDF statements of a month or a year, for printing: totals, categories, people,
+ * every transaction and the savings contributions
+ */
+export default function StatementDownloads() {
+  const [month, setMonth] = useState(() => format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [year, setYear] = useState(() => format(new Date(), 'yyyy'));
+  const [downloading, setDownloading] = useState<'monthly' | 'annual' | null>(null);
+  const { toast } = useToast();
+
+  const download = async (kind: 'monthly' | 'annual') => {
+    const period = kind === 'monthly' ? month : year;
+    setDownloading(kind);
+    try {
+      await downloadStatement(`/api/reports/${kind}/${period}.pdf`, `statement-${period}.pdf`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xl">Statements</CardTitle>
+        <CardDescription>Printable PDFs for the household binder or tax time</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-end gap-6">
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="statement-month">Month</Label>
+            <Input id="statement-month" type="month" value={month} onChange={e => setMonth(e.target.value)} className="w-44" />
+          </div>
+          <Button variant="outline" onClick={() => download('monthly')} disabled={!month || downloading !== null}>
+            <FileDown className="mr-2 h-4 w-4" />
+            {downloading === 'monthly' ? 'Generating...' : 'Monthly statement'}
+          </Button>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="statement-year">Year</Label>
+            <Input
+              id="statement-year"
+              type="number"
+              min={2000}
+              max={2100}
+              value={year}
+              onChange={e => setYear(e.target.value)}
+              className="w-28"
+            />
+          </div>
+          <Button variant="outline" onClick={() => download('annual')} disabled={!/^\d{4}$/.test(year) || downloading !== null}>
+            <FileDown className="mr-2 h-4 w-4" />
+            {downloading === 'annual' ? 'Generating...' : 'Annual statement'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
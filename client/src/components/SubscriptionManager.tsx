@@ -0,0 +1,637 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import {
+  BASE_CURRENCY,
+  Category,
+  InsertSubscription,
+  MAX_REMIND_DAYS_BEFORE,
+  SubscriptionBillingCycle,
+  SubscriptionStatus,
+  SubscriptionSuggestion,
+  TransactionWithCategory,
+} from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BellRing, Check, History, Pencil, Plus, Sparkles, Tag, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { usePeople } from '@/hooks/use-people';
+import { useSubscriptions, useSubscriptionSuggestions, invalidateSubscriptions } from '@/hooks/use-subscriptions';
+import { apiRequest } from '@/lib/queryClient';
+
+const CYCLE_LABELS: Record<SubscriptionBillingCycle, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+// An empty transactionId starts a new recurring expense from the other fields
+const EMPTY_FORM = {
+  transactionId: '',
+  title: '',
+  amount: '',
+  billingCycle: 'monthly' as SubscriptionBillingCycle,
+  firstChargeDate: format(new Date(), 'yyyy-MM-dd'),
+  categoryId: '',
+  personLabel: '',
+  trialEndsAt: '',
+  remindDaysBefore: '',
+};
+
+type FormData = typeof EMPTY_FORM;
+
+// What is being edited on a tracked subscription
+type Editing =
+  | { id: number; kind: 'settings'; trialEndsAt: string; remindDaysBefore: string }
+  | { id: number; kind: 'price'; amount: string; from: string };
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function formatDay(date: string): string {
+  return format(parseISO(date), 'MMM d, yyyy');
+}
+
+function formatPrice(amount: number, currency: string | null): string {
+  return `${amount.toFixed(2)} ${currency ?? BASE_CURRENCY}`;
+}
+
+// The days before a charge to be reminded, or null for no reminder; undefined when it isn't valid
+function parseRemindDays(value: string): number | null | undefined {
+  if (!value.trim()) return null;
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 0 && days <= MAX_REMIND_DAYS_BEFORE ? days : undefined;
+}
+
+interface SubscriptionManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Tracked subscriptions with their renewals, trials, reminders and price history,
+ * and the likely subscriptions found among the expenses to confirm
+ */
+export default function SubscriptionManager({ open, onOpenChange }: SubscriptionManagerProps) {
+  const [formData, setFormData] = useState<FormData | null>(null);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const { subscriptions, isLoading } = useSubscriptions();
+  const { suggestions } = useSubscriptionSuggestions();
+  const { activePeople } = usePeople();
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  const { data: recurringTransactions = [] } = useQuery<TransactionWithCategory[]>({
+    queryKey: ['/api/recurring-transactions'],
+    enabled: open,
+  });
+
+  const expenseCategories = useMemo(() => categories.filter(category => category.isExpense), [categories]);
+
+  // Recurring expenses that can still be tracked
+  const untrackedExpenses = useMemo(() => {
+    const tracked = new Set(subscriptions.map(subscription => subscription.transactionId));
+    return recurringTransactions.filter(transaction => transaction.isExpense && !tracked.has(transaction.id));
+  }, [recurringTransactions, subscriptions]);
+
+  const onSuccess = () => {
+    invalidateSubscriptions();
+    // Tracking a suggestion or changing a price writes the recurring expense
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/recurring-transactions'] });
+    setFormData(null);
+    setEditing(null);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const createSubscription = useMutation({
+    mutationFn: async (data: InsertSubscription) => {
+      const response = await apiRequest('POST', '/api/subscriptions', data);
+      return response.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const updateSubscription = useMutation({
+    mutationFn: async ({ id, trialEndsAt, remindDaysBefore }: { id: number; trialEndsAt: string | null; remindDaysBefore: number | null }) => {
+      const response = await apiRequest('PATCH', `/api/subscriptions/${id}`, { trialEndsAt, remindDaysBefore });
+      return response.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const changePrice = useMutation({
+    mutationFn: async ({ id, amount, from }: { id: number; amount: number; from: string }) => {
+      const response = await apiRequest('POST', `/api/subscriptions/${id}/price`, { amount, from });
+      return response.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const stopTracking = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/subscriptions/${id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const defaultPerson = () =>
+    activePeople.find(person => person.name === 'Together')?.name ?? activePeople[0]?.name ?? '';
+
+  const openForm = (suggestion?: SubscriptionSuggestion) => {
+    setEditing(null);
+    setFormData(suggestion ? {
+      ...EMPTY_FORM,
+      transactionId: suggestion.transactionId !== null ? String(suggestion.transactionId) : '',
+      title: suggestion.title,
+      amount: String(suggestion.amount),
+      billingCycle: suggestion.billingCycle ?? 'monthly',
+      firstChargeDate: suggestion.nextChargeDate ?? EMPTY_FORM.firstChargeDate,
+      categoryId: suggestion.categoryId !== null ? String(suggestion.categoryId) : '',
+      personLabel: suggestion.personLabel ?? defaultPerson(),
+    } : {
+      ...EMPTY_FORM,
+      personLabel: defaultPerson(),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    const remindDaysBefore = parseRemindDays(formData.remindDaysBefore);
+    if (remindDaysBefore === undefined) {
+      onError(new Error(`The reminder must be 0 to ${MAX_REMIND_DAYS_BEFORE} days before the charge`));
+      return;
+    }
+    const settings = { trialEndsAt: formData.trialEndsAt || null, remindDaysBefore };
+
+    if (formData.transactionId) {
+      createSubscription.mutate({ transactionId: parseInt(formData.transactionId), ...settings });
+      return;
+    }
+
+    const amount = parseAmount(formData.amount);
+    if (!formData.title.trim() || isNaN(amount) || amount <= 0) {
+      onError(new Error('A subscription needs a name and a positive amount'));
+      return;
+    }
+    if (!formData.categoryId || !formData.personLabel) {
+      onError(new Error('Pick a category and a person for the subscription'));
+      return;
+    }
+
+    createSubscription.mutate({
+      title: formData.title.trim(),
+      amount,
+      billingCycle: formData.billingCycle,
+      firstChargeDate: formData.firstChargeDate,
+      categoryId: parseInt(formData.categoryId),
+      personLabel: formData.personLabel,
+      ...settings,
+    });
+  };
+
+  const saveEditing = () => {
+    if (!editing) return;
+
+    if (editing.kind === 'settings') {
+      const remindDaysBefore = parseRemindDays(editing.remindDaysBefore);
+      if (remindDaysBefore === undefined) {
+        onError(new Error(`The reminder must be 0 to ${MAX_REMIND_DAYS_BEFORE} days before the charge`));
+        return;
+      }
+      updateSubscription.mutate({ id: editing.id, trialEndsAt: editing.trialEndsAt || null, remindDaysBefore });
+      return;
+    }
+
+    const amount = parseAmount(editing.amount);
+    if (isNaN(amount) || amount <= 0 || !editing.from) {
+      onError(new Error('The new price must be a positive amount with the date it applies from'));
+      return;
+    }
+    changePrice.mutate({ id: editing.id, amount, from: editing.from });
+  };
+
+  const handleStopTracking = (subscription: SubscriptionStatus) => {
+    if (confirm(`Stop tracking "${subscription.title}"? The recurring expense stays in the budget.`)) {
+      stopTracking.mutate(subscription.id);
+    }
+  };
+
+  const closeDialog = () => {
+    setFormData(null);
+    setEditing(null);
+    setHistoryId(null);
+    onOpenChange(false);
+  };
+
+  const isSaving = updateSubscription.isPending || changePrice.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && closeDialog()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{formData ? 'Track a Subscription' : 'Subscriptions'}</DialogTitle>
+          <DialogDescription>
+            {formData
+              ? 'Subscriptions are charged by a recurring expense, so they count in the budget'
+              : 'Renewals, free trials and price changes of what you pay for regularly'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {formData ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="subscriptionSource">Charged by</Label>
+              <Select
+                value={formData.transactionId || 'new'}
+                onValueChange={(value) => setFormData({ ...formData, transactionId: value === 'new' ? '' : value })}
+              >
+                <SelectTrigger id="subscriptionSource">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new">A new recurring expense</SelectItem>
+                  {untrackedExpenses.map(transaction => (
+                    <SelectItem key={transaction.id} value={String(transaction.id)}>
+                      {transaction.title} ({transaction.amount.toFixed(2)} {BASE_CURRENCY})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!formData.transactionId && (
+              <>
+                <div className="grid grid-cols-[1fr_140px] gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="subscriptionTitle">Name</Label>
+                    <Input
+                      id="subscriptionTitle"
+                      value={formData.title}
+                      onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                      placeholder="e.g., Netflix, Spotify"
+                      autoFocus
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="subscriptionAmount">Price ({BASE_CURRENCY})</Label>
+                    <Input
+                      id="subscriptionAmount"
+                      inputMode="decimal"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Billing cycle</Label>
+                    <Select
+                      value={formData.billingCycle}
+                      onValueChange={(value) => setFormData({ ...formData, billingCycle: value as SubscriptionBillingCycle })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CYCLE_LABELS).map(([cycle, label]) => (
+                          <SelectItem key={cycle} value={cycle}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="subscriptionFirstCharge">Next charge</Label>
+                    <Input
+                      id="subscriptionFirstCharge"
+                      type="date"
+                      value={formData.firstChargeDate}
+                      onChange={(e) => setFormData({ ...formData, firstChargeDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Category</Label>
+                    <Select
+                      value={formData.categoryId}
+                      onValueChange={(value) => setFormData({ ...formData, categoryId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {expenseCategories.map(category => (
+                          <SelectItem key={category.id} value={String(category.id)}>
+                            {category.emoji ? `${category.emoji} ` : ''}{category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Paid by</Label>
+                    <Select
+                      value={formData.personLabel}
+                      onValueChange={(value) => setFormData({ ...formData, personLabel: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Person" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activePeople.map(person => (
+                          <SelectItem key={person.id} value={person.name}>{person.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="subscriptionTrial">Free trial ends (optional)</Label>
+                <Input
+                  id="subscriptionTrial"
+                  type="date"
+                  value={formData.trialEndsAt}
+                  onChange={(e) => setFormData({ ...formData, trialEndsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="subscriptionReminder">Remind days before (optional)</Label>
+                <Input
+                  id="subscriptionReminder"
+                  type="number"
+                  min={0}
+                  max={MAX_REMIND_DAYS_BEFORE}
+                  value={formData.remindDaysBefore}
+                  onChange={(e) => setFormData({ ...formData, remindDaysBefore: e.target.value })}
+                  placeholder="No reminder"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setFormData(null)}>
+                Back
+              </Button>
+              <Button type="submit" disabled={createSubscription.isPending}>
+                {createSubscription.isPending ? 'Saving...' : 'Track Subscription'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              {canEdit && (
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={() => openForm()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Subscription
+                  </Button>
+                </div>
+              )}
+
+              {isLoading ? (
+                <div className="text-sm text-muted-foreground">Loading...</div>
+              ) : subscriptions.length === 0 ? (
+                <div className="py-3 text-center text-sm text-muted-foreground">
+                  No subscriptions tracked yet. Add one, or confirm one of the suggestions below.
+                </div>
+              ) : (
+                subscriptions.map(subscription => (
+                  <div key={subscription.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="font-medium">{subscription.title}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {subscription.schedule}
+                          {subscription.nextRenewal
+                            ? `, renews ${formatDay(subscription.nextRenewal)}`
+                            : ', no more charges'}
+                        </div>
+                      </div>
+                      <div className="text-right text-sm">
+                        <div className="font-mono font-medium">
+                          {subscription.currency && subscription.originalAmount !== null
+                            ? formatPrice(subscription.originalAmount, subscription.currency)
+                            : formatPrice(subscription.amount, null)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatPrice(subscription.monthlyCost, null)}/mo
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {subscription.isTrial && (
+                        <Badge variant="outline">Trial until {formatDay(subscription.trialEndsAt!)}</Badge>
+                      )}
+                      {subscription.reminderDate && (
+                        <Badge
+                          variant={subscription.isReminderDue ? 'destructive' : 'outline'}
+                          className="flex items-center gap-1"
+                        >
+                          <BellRing className="h-3 w-3" />
+                          {subscription.isReminderDue
+                            ? `Cancel by ${formatDay(subscription.cancelBy!)} if you don't need it`
+                            : `Reminder on ${formatDay(subscription.reminderDate)}`}
+                        </Badge>
+                      )}
+                      <div className="ml-auto flex items-center gap-1">
+                        {subscription.priceChanges.length > 0 && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => setHistoryId(historyId === subscription.id ? null : subscription.id)}
+                          >
+                            <History className="h-3 w-3 mr-1" />
+                            Price history
+                          </Button>
+                        )}
+                        {canEdit && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2 text-xs"
+                              disabled={!subscription.nextRenewal}
+                              onClick={() => setEditing({
+                                id: subscription.id,
+                                kind: 'price',
+                                amount: String(subscription.originalAmount ?? subscription.amount),
+                                from: subscription.nextRenewal ?? format(new Date(), 'yyyy-MM-dd'),
+                              })}
+                            >
+                              <Tag className="h-3 w-3 mr-1" />
+                              New price
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0"
+                              onClick={() => setEditing({
+                                id: subscription.id,
+                                kind: 'settings',
+                                trialEndsAt: subscription.trialEndsAt ?? '',
+                                remindDaysBefore: subscription.remindDaysBefore !== null ? String(subscription.remindDaysBefore) : '',
+                              })}
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 w-7 p-0"
+                              title="Stop tracking"
+                              onClick={() => handleStopTracking(subscription)}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {editing?.id === subscription.id && (
+                      <div className="flex flex-wrap items-end gap-2 rounded border p-2">
+                        {editing.kind === 'settings' ? (
+                          <>
+                            <div className="space-y-1">
+                              <Label className="text-xs">Free trial ends</Label>
+                              <Input
+                                type="date"
+                                value={editing.trialEndsAt}
+                                onChange={(e) => setEditing({ ...editing, trialEndsAt: e.target.value })}
+                                className="h-8 w-40"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label className="text-xs">Remind days before</Label>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={MAX_REMIND_DAYS_BEFORE}
+                                value={editing.remindDaysBefore}
+                                onChange={(e) => setEditing({ ...editing, remindDaysBefore: e.target.value })}
+                                placeholder="No reminder"
+                                className="h-8 w-32"
+                              />
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <div className="space-y-1">
+                              <Label className="text-xs">New price ({subscription.currency ?? BASE_CURRENCY})</Label>
+                              <Input
+                                inputMode="decimal"
+                                value={editing.amount}
+                                onChange={(e) => setEditing({ ...editing, amount: e.target.value })}
+                                className="h-8 w-32"
+                                autoFocus
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <Label className="text-xs">From the charge on or after</Label>
+                              <Input
+                                type="date"
+                                value={editing.from}
+                                onChange={(e) => setEditing({ ...editing, from: e.target.value })}
+                                className="h-8 w-40"
+                              />
+                            </div>
+                          </>
+                        )}
+                        <div className="ml-auto flex gap-1">
+                          <Button size="sm" variant="outline" className="h-8" onClick={() => setEditing(null)}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" className="h-8" onClick={saveEditing} disabled={isSaving}>
+                            {isSaving ? 'Saving...' : 'Save'}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {historyId === subscription.id && (
+                      <div className="space-y-1 border-t pt-2 text-xs text-muted-foreground">
+                        {subscription.priceChanges.map(change => (
+                          <div key={change.id} className="flex justify-between">
+                            <span>{formatDay(change.effectiveDate)}</span>
+                            <span className="font-mono">
+                              {formatPrice(change.previousAmount, change.currency)} → {formatPrice(change.amount, change.currency)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {suggestions.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <Sparkles className="h-4 w-4 text-primary" />
+                  Looks like a subscription
+                </div>
+                {suggestions.map(suggestion => (
+                  <div key={suggestion.key} className="flex items-center justify-between gap-2 rounded-lg border border-dashed p-3">
+                    <div>
+                      <div className="font-medium text-sm">{suggestion.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {suggestion.amount.toFixed(2)} {BASE_CURRENCY}
+                        {suggestion.billingCycle && `, ${CYCLE_LABELS[suggestion.billingCycle].toLowerCase()}`}
+                        {suggestion.transactionId !== null
+                          ? ', a recurring expense that isn\'t tracked yet'
+                          : `, charged ${suggestion.chargeIds.length} times, last on ${formatDay(suggestion.lastChargeDate!)}`}
+                      </div>
+                    </div>
+                    {canEdit && (
+                      <Button size="sm" variant="outline" onClick={() => openForm(suggestion)}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Confirm
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,103 +1,28 @@
-import React from 'react';
-import { useMemo } from 'react';
-import { format, parseISO, addDays, addWeeks, addMonths, addYears } from 'date-fns';
-import { TransactionWithCategory } from '@shared/schema';
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { BASE_CURRENCY } from '@shared/schema';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { CalendarClock, CalendarIcon, CreditCard } from 'lucide-react';
+import { BellRing, CalendarClock, CalendarIcon, CreditCard, Sparkles } from 'lucide-react';
+import { useSubscriptions, useSubscriptionSuggestions } from '@/hooks/use-subscriptions';
+import SubscriptionManager from './SubscriptionManager';
 
-interface SubscriptionSummaryProps {
-  transactions: TransactionWithCategory[];
-  isLoading: boolean;
-}
-
-export default function SubscriptionSummary({ transactions, isLoading }: SubscriptionSummaryProps) {
-  // Filter subscription transactions
-  const subscriptions = useMemo(() => {
-    if (!transactions.length) return [];
-
-    const filtered = transactions.filter(transaction => {
-      const result = transaction.isRecurring &&
-        !transaction.isRecurringInstance &&
-        transaction.categoryId &&
-        transaction.category &&
-        transaction.category.name === 'Subscription';
-
-      if (result) {
-        console.log('[SUBSCRIPTION FOUND]:', transaction.title, transaction.category?.name);
-      }
-
-      return result;
-    });
-
-    console.log('[SUBSCRIPTION] Total found:', filtered.length, 'out of', transactions.length, 'transactions');
-    return filtered;
-  }, [transactions]);
+export default function SubscriptionSummary() {
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const { subscriptions, isLoading } = useSubscriptions();
+  const { suggestions } = useSubscriptionSuggestions();
 
-  // Calculate next payment dates
-  const subscriptionsWithNextPayment = useMemo(() => {
-    return subscriptions.map(subscription => {
-      let nextPaymentDate = new Date();
-      const lastPaymentDate = typeof subscription.date === 'string' 
-        ? parseISO(subscription.date) 
-        : subscription.date;
-      
-      // Ensure recurring interval is defined, default to monthly
-      const interval = subscription.recurringInterval || 'monthly';
-      
-      // Calculate next payment based on interval
-      switch (interval) {
-        case 'daily':
-          nextPaymentDate = addDays(lastPaymentDate, 1);
-          break;
-        case 'weekly':
-          nextPaymentDate = addWeeks(lastPaymentDate, 1);
-          break;
-        case 'monthly':
-          nextPaymentDate = addMonths(lastPaymentDate, 1);
-          break;
-        case 'yearly':
-          nextPaymentDate = addYears(lastPaymentDate, 1);
-          break;
-        default:
-          nextPaymentDate = addMonths(lastPaymentDate, 1); // Default to monthly
-      }
-      
-      return {
-        ...subscription,
-        nextPaymentDate,
-        recurringInterval: interval // Ensure it's defined
-      };
-    }).sort((a, b) => a.nextPaymentDate.getTime() - b.nextPaymentDate.getTime());
-  }, [subscriptions]);
+  // Subscriptions whose charges have ended are only kept in the manager
+  const activeSubscriptions = useMemo(
+    () => subscriptions.filter(subscription => subscription.nextRenewal !== null),
+    [subscriptions]
+  );
 
-  // Calculate total monthly subscription cost
-  const monthlyTotal = useMemo(() => {
-    return subscriptions.reduce((total, subscription) => {
-      const { amount } = subscription;
-      const interval = subscription.recurringInterval || 'monthly';
-      let monthlyAmount = amount;
-      
-      // Convert to monthly amount
-      switch (interval) {
-        case 'daily':
-          monthlyAmount = amount * 30; // Approximate
-          break;
-        case 'weekly':
-          monthlyAmount = amount * 4.33; // Approximate (52/12)
-          break;
-        case 'yearly':
-          monthlyAmount = amount / 12;
-          break;
-        case 'monthly':
-        default:
-          // Already monthly
-          monthlyAmount = amount;
-      }
-      
-      return total + monthlyAmount;
-    }, 0);
-  }, [subscriptions]);
+  const monthlyTotal = useMemo(
+    () => activeSubscriptions.reduce((total, subscription) => total + subscription.monthlyCost, 0),
+    [activeSubscriptions]
+  );
 
   if (isLoading) {
     return (
@@ -118,37 +43,47 @@ export default function SubscriptionSummary({ transactions, isLoading }: Subscri
       <CardHeader className="pb-2">
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg font-semibold flex items-center gap-2">
-            <CreditCard className="h-5 w-5 text-primary" /> 
+            <CreditCard className="h-5 w-5 text-primary" />
             Active Subscriptions
           </CardTitle>
-          <div className="bg-primary/10 text-primary px-3 py-1 rounded-full text-sm font-medium">
-            {monthlyTotal.toFixed(2)} PLN/mo
+          <div className="flex items-center gap-2">
+            <div className="bg-primary/10 text-primary px-3 py-1 rounded-full text-sm font-medium">
+              {monthlyTotal.toFixed(2)} {BASE_CURRENCY}/mo
+            </div>
+            <Button size="sm" variant="outline" onClick={() => setIsManagerOpen(true)}>
+              Manage
+            </Button>
           </div>
         </div>
         <CardDescription>Your recurring subscription payments</CardDescription>
       </CardHeader>
-      <CardContent>
-        {subscriptionsWithNextPayment.length > 0 ? (
+      <CardContent className="space-y-3">
+        {activeSubscriptions.length > 0 ? (
           <div className="space-y-3">
-            {subscriptionsWithNextPayment.map((subscription, index) => (
-              <div 
-                key={index} 
+            {activeSubscriptions.map(subscription => (
+              <div
+                key={subscription.id}
                 className="flex items-center justify-between p-3 bg-white dark:bg-slate-800 rounded-lg border border-border"
               >
                 <div>
                   <h3 className="font-medium text-foreground">{subscription.title}</h3>
                   <div className="flex items-center text-xs text-muted-foreground mt-1">
                     <CalendarClock className="h-3 w-3 mr-1" />
-                    {subscription.recurringInterval 
-                      ? subscription.recurringInterval.charAt(0).toUpperCase() + subscription.recurringInterval.slice(1)
-                      : 'Monthly'}
+                    {subscription.schedule}
+                    {subscription.isTrial && `, trial until ${format(parseISO(subscription.trialEndsAt!), 'MMM d')}`}
                   </div>
+                  {subscription.isReminderDue && (
+                    <div className="flex items-center text-xs text-red-500 mt-1">
+                      <BellRing className="h-3 w-3 mr-1" />
+                      Cancel by {format(parseISO(subscription.cancelBy!), 'MMM d')} if you don't need it
+                    </div>
+                  )}
                 </div>
                 <div className="flex flex-col items-end">
-                  <span className="font-mono font-medium text-red-500">{subscription.amount.toFixed(2)} PLN</span>
+                  <span className="font-mono font-medium text-red-500">{subscription.amount.toFixed(2)} {BASE_CURRENCY}</span>
                   <div className="flex items-center text-xs text-muted-foreground mt-1">
                     <CalendarIcon className="h-3 w-3 mr-1" />
-                    Next: {format(subscription.nextPaymentDate, 'MMM d, yyyy')}
+                    Next: {format(parseISO(subscription.nextRenewal!), 'MMM d, yyyy')}
                   </div>
                 </div>
               </div>
@@ -160,7 +95,22 @@ export default function SubscriptionSummary({ transactions, isLoading }: Subscri
             <p>No active subscriptions</p>
           </div>
         )}
+
+        {suggestions.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setIsManagerOpen(true)}
+            className="flex w-full items-center gap-2 text-left text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Sparkles className="h-3 w-3 text-primary" />
+            {suggestions.length === 1
+              ? '1 expense looks like a subscription you don\'t track yet'
+              : `${suggestions.length} expenses look like subscriptions you don't track yet`}
+          </button>
+        )}
       </CardContent>
+
+      <SubscriptionManager open={isManagerOpen} onOpenChange={setIsManagerOpen} />
     </Card>
   );
-}
\ No newline at end of file
+}
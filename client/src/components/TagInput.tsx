@@ -0,0 +1,77 @@
+import { KeyboardEvent, useId, useState } from 'react';
+import { MAX_TRANSACTION_TAGS, toTagName } from '@shared/schema';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+import { useTags } from '@/hooks/use-tags';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Tag chips with an input that suggests the household's tags; Enter or a comma adds what was typed
+ */
+export default function TagInput({ value, onChange, disabled }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const { tagNames } = useTags();
+  const listId = useId();
+
+  const addTag = (name: string) => {
+    const tag = toTagName(name);
+    setDraft('');
+    if (!tag || value.includes(tag) || value.length >= MAX_TRANSACTION_TAGS) return;
+    onChange([...value, tag]);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 rounded-md border border-input bg-background px-2 py-1">
+      {value.map(tag => (
+        <span key={tag} className="flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs">
+          #{tag}
+          {!disabled && (
+            <button
+              type="button"
+              onClick={() => onChange(value.filter(t => t !== tag))}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      <Input
+        list={listId}
+        value={draft}
+        onChange={e => {
+          // Picking a suggestion fills in the whole tag
+          if (tagNames.includes(e.target.value)) {
+            addTag(e.target.value);
+          } else {
+            setDraft(e.target.value);
+          }
+        }}
+        onKeyDown={onKeyDown}
+        onBlur={() => draft && addTag(draft)}
+        placeholder={value.length === 0 ? 'e.g. vacation-2026' : ''}
+        disabled={disabled || value.length >= MAX_TRANSACTION_TAGS}
+        className="h-7 min-w-[8rem] flex-1 border-0 px-1 shadow-none focus-visible:ring-0"
+        aria-label="Add tag"
+      />
+      <datalist id={listId}>
+        {tagNames.filter(name => !value.includes(name)).map(name => <option key={name} value={name} />)}
+      </datalist>
+    </div>
+  );
+}
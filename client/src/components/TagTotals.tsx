@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format, startOfYear } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { useTags, useTagTotals, invalidateTags } from '@/hooks/use-tags';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+function formatAmount(amount: number): string {
+  return `${amount.toFixed(2)} PLN`;
+}
+
+/**
+ * What each tag's transactions added up to over a date range, e.g. a whole trip across
+ * categories. Tags nothing is tagged with anymore can be removed here.
+ */
+export default function TagTotals() {
+  const [from, setFrom] = useState(() => format(startOfYear(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const { totals, isLoading, error } = useTagTotals(from, to);
+  const { tags } = useTags();
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+
+  const deleteTag = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/tags/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTags();
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const unusedTags = tags.filter(tag => tag.transactionCount === 0);
+  const isValidRange = !!from && !!to && from <= to;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xl">Tags</CardTitle>
+        <CardDescription>Totals of tagged transactions, across categories</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="tag-totals-from">From</Label>
+            <Input id="tag-totals-from" type="date" value={from} onChange={e => setFrom(e.target.value)} className="w-40" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tag-totals-to">To</Label>
+            <Input id="tag-totals-to" type="date" value={to} onChange={e => setTo(e.target.value)} className="w-40" />
+          </div>
+        </div>
+
+        {!isValidRange ? (
+          <p className="text-sm text-red-500">The range has to end after it starts</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : error ? (
+          <p className="text-sm text-red-500">Couldn't load the tag totals: {error.message}</p>
+        ) : totals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {tags.length === 0
+              ? 'No tags yet. Add some to expenses to follow a trip or project across categories.'
+              : 'No tagged transactions in this range'}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="font-normal">Tag</th>
+                <th className="font-normal text-right">Entries</th>
+                <th className="font-normal text-right">Expenses</th>
+                <th className="font-normal text-right">Income</th>
+              </tr>
+            </thead>
+            <tbody>
+              {totals.map(total => (
+                <tr key={total.tag}>
+                  <td>#{total.tag}</td>
+                  <td className="text-right">{total.count}</td>
+                  <td className="text-right font-mono text-red-500">{total.expenses > 0 ? formatAmount(total.expenses) : '—'}</td>
+                  <td className="text-right font-mono text-green-600">{total.income > 0 ? formatAmount(total.income) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {canEdit && unusedTags.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm text-muted-foreground">Unused tags</div>
+            <div className="flex flex-wrap gap-1">
+              {unusedTags.map(tag => (
+                <span key={tag.id} className="flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs">
+                  #{tag.name}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-4 w-4"
+                    onClick={() => deleteTag.mutate(tag.id)}
+                    disabled={deleteTag.isPending}
+                    aria-label={`Remove tag ${tag.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AuditAction, AuditEntryWithUser } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { History, ChevronDown, ChevronUp } from 'lucide-react';
+import { useTransactionHistory } from '@/hooks/use-audit-log';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'changed',
+  delete: 'deleted',
+  restore: 'restored',
+  purge: 'removed from the trash for good',
+};
+
+// Fields that only repeat what the entry already says
+const HIDDEN_FIELDS = new Set(['transactionId', 'occurrenceDate', 'deletedAt']);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/;
+
+function formatField(field: string): string {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    // Tag names, or split lines
+    return value.every(item => typeof item === 'string') ? value.join(', ') : `${value.length} lines`;
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value)) return format(new Date(value), 'MMM d, yyyy');
+  return String(value);
+}
+
+function describeEntry(entry: AuditEntryWithUser): string {
+  const action = ACTION_LABELS[entry.action as AuditAction] ?? entry.action;
+  if (entry.entity === 'transaction') return `Transaction ${action}`;
+
+  const date = entry.changes.occurrenceDate?.after ?? entry.changes.occurrenceDate?.before;
+  const onDate = date ? ` on ${formatValue(date)}` : '';
+  // Ticked off against a statement, or the tick taken back
+  if (entry.entity === 'clearedEntry') return `${entry.action === 'delete' ? 'Uncleared' : 'Cleared'}${onDate}`;
+  return `Occurrence${onDate} ${action}`;
+}
+
+/**
+ * Collapsible list of who changed a transaction, when and how
+ */
+export default function TransactionHistory({ transactionId }: { transactionId: number }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { entries, isLoading, error } = useTransactionHistory(transactionId, isOpen);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="w-full justify-between px-0 h-auto"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <History className="h-4 w-4" />
+          History
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </Button>
+
+      {isOpen && (
+        isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading...</p>
+        ) : error ? (
+          <p className="text-xs text-red-500">Couldn't load the history: {error.message}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No changes recorded yet</p>
+        ) : (
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {entries.map(entry => {
+              // A created or deleted row lists every field; only the changes of an update are interesting
+              const fields = entry.action === 'update' || entry.entity === 'occurrence'
+                ? Object.entries(entry.changes).filter(([field]) => !HIDDEN_FIELDS.has(field))
+                : [];
+              return (
+                <li key={entry.id} className="text-xs">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium">{describeEntry(entry)}</span>
+                    <span className="text-muted-foreground shrink-0">
+                      {format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground">by {entry.username ?? 'anonymous'}</div>
+                  {fields.map(([field, { before, after }]) => (
+                    <div key={field} className="text-muted-foreground">
+                      {formatField(field)}: {formatValue(before)} → {formatValue(after)}
+                    </div>
+                  ))}
+                </li>
+              );
+            })}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,467 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Category, InsertTransactionRule, TransactionRule, TransactionRulePreview } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wand2, Plus, Pencil, Trash2, ArrowUp, ArrowDown, Eye } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { usePeople } from '@/hooks/use-people';
+import { useTransactionRules, invalidateRuledQueries } from '@/hooks/use-transaction-rules';
+import { apiRequest } from '@/lib/queryClient';
+import { formatCurrency } from '@/utils/currency-converter';
+
+// Select values for "no condition" / "no change", since a Select item can't have an empty value
+const ANY = 'any';
+const KEEP = 'keep';
+
+const EMPTY_FORM = {
+  name: '',
+  titlePattern: '',
+  minAmount: '',
+  maxAmount: '',
+  categoryId: ANY,
+  personLabel: ANY,
+  dateFrom: '',
+  dateTo: '',
+  hide: false,
+  setTitle: '',
+  setCategoryId: KEEP,
+  setPersonLabel: KEEP,
+  setAmount: '',
+  markPaid: false,
+};
+
+type RuleFormData = typeof EMPTY_FORM;
+
+function parseAmount(value: string): number | null {
+  return value.trim() ? parseFloat(value.replace(',', '.')) : null;
+}
+
+function toFormData(rule: TransactionRule): RuleFormData {
+  return {
+    name: rule.name,
+    titlePattern: rule.titlePattern ?? '',
+    minAmount: rule.minAmount !== null ? String(rule.minAmount) : '',
+    maxAmount: rule.maxAmount !== null ? String(rule.maxAmount) : '',
+    categoryId: rule.categoryId !== null ? String(rule.categoryId) : ANY,
+    personLabel: rule.personLabel ?? ANY,
+    dateFrom: rule.dateFrom ?? '',
+    dateTo: rule.dateTo ?? '',
+    hide: rule.hide,
+    setTitle: rule.setTitle ?? '',
+    setCategoryId: rule.setCategoryId !== null ? String(rule.setCategoryId) : KEEP,
+    setPersonLabel: rule.setPersonLabel ?? KEEP,
+    setAmount: rule.setAmount !== null ? String(rule.setAmount) : '',
+    markPaid: rule.markPaid,
+  };
+}
+
+function toRuleData(form: RuleFormData): InsertTransactionRule {
+  return {
+    name: form.name.trim(),
+    isEnabled: true,
+    titlePattern: form.titlePattern.trim() || null,
+    minAmount: parseAmount(form.minAmount),
+    maxAmount: parseAmount(form.maxAmount),
+    categoryId: form.categoryId !== ANY ? Number(form.categoryId) : null,
+    personLabel: form.personLabel !== ANY ? form.personLabel : null,
+    dateFrom: form.dateFrom || null,
+    dateTo: form.dateTo || null,
+    hide: form.hide,
+    // Changing a hidden transaction would make no difference
+    setTitle: !form.hide ? form.setTitle.trim() || null : null,
+    setCategoryId: !form.hide && form.setCategoryId !== KEEP ? Number(form.setCategoryId) : null,
+    setPersonLabel: !form.hide && form.setPersonLabel !== KEEP ? form.setPersonLabel : null,
+    setAmount: !form.hide ? parseAmount(form.setAmount) : null,
+    markPaid: !form.hide && form.markPaid,
+  };
+}
+
+// One line each for what a rule looks for and what it does
+function describeRule(rule: TransactionRule, categoryNames: Map<number, string>) {
+  const conditions: string[] = [];
+  if (rule.titlePattern) conditions.push(`title ~ /${rule.titlePattern}/`);
+  if (rule.minAmount !== null && rule.maxAmount !== null) conditions.push(`${rule.minAmount}-${rule.maxAmount} PLN`);
+  else if (rule.minAmount !== null) conditions.push(`at least ${rule.minAmount} PLN`);
+  else if (rule.maxAmount !== null) conditions.push(`at most ${rule.maxAmount} PLN`);
+  if (rule.categoryId !== null) conditions.push(`in ${categoryNames.get(rule.categoryId) ?? 'a deleted category'}`);
+  if (rule.personLabel) conditions.push(`for ${rule.personLabel}`);
+  if (rule.dateFrom || rule.dateTo) conditions.push(`dated ${rule.dateFrom ?? '...'} to ${rule.dateTo ?? '...'}`);
+
+  const actions: string[] = [];
+  if (rule.hide) actions.push('hide');
+  if (rule.setTitle) actions.push(`rename to "${rule.setTitle}"`);
+  if (rule.setCategoryId !== null) actions.push(`move to ${categoryNames.get(rule.setCategoryId) ?? 'a deleted category'}`);
+  if (rule.setPersonLabel) actions.push(`assign to ${rule.setPersonLabel}`);
+  if (rule.setAmount !== null) actions.push(`set amount to ${rule.setAmount} PLN`);
+  if (rule.markPaid) actions.push('mark paid');
+
+  return { conditions: conditions.join(', '), actions: actions.join(', ') };
+}
+
+export default function TransactionRules() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<TransactionRule | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(EMPTY_FORM);
+  const [preview, setPreview] = useState<TransactionRulePreview | null>(null);
+  const { rules, isLoading } = useTransactionRules();
+  const { people, activePeople } = usePeople();
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const saveRule = useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: Partial<InsertTransactionRule> }) => {
+      const response = id
+        ? await apiRequest('PATCH', `/api/transaction-rules/${id}`, data)
+        : await apiRequest('POST', '/api/transaction-rules', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRuledQueries();
+      closeDialog();
+    },
+    onError,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/transaction-rules/${id}`);
+    },
+    onSuccess: invalidateRuledQueries,
+    onError,
+  });
+
+  // Moving a rule swaps its position with its neighbour's
+  const moveRule = useMutation({
+    mutationFn: async ({ rule, other }: { rule: TransactionRule; other: TransactionRule }) => {
+      const [position, otherPosition] = rule.position !== other.position
+        ? [other.position, rule.position]
+        : [rules.indexOf(other), rules.indexOf(rule)];
+      await apiRequest('PATCH', `/api/transaction-rules/${rule.id}`, { position });
+      await apiRequest('PATCH', `/api/transaction-rules/${other.id}`, { position: otherPosition });
+    },
+    onSuccess: invalidateRuledQueries,
+    onError,
+  });
+
+  const previewRule = useMutation({
+    mutationFn: async (data: InsertTransactionRule) => {
+      const response = await apiRequest('POST', '/api/transaction-rules/preview', data);
+      return response.json() as Promise<TransactionRulePreview>;
+    },
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const closeDialog = () => {
+    setIsOpen(false);
+    setEditingRule(null);
+    setFormData(EMPTY_FORM);
+    setPreview(null);
+  };
+
+  const openDialog = (rule?: TransactionRule) => {
+    setEditingRule(rule ?? null);
+    setFormData(rule ? toFormData(rule) : EMPTY_FORM);
+    setPreview(null);
+    setIsOpen(true);
+  };
+
+  const updateForm = (changes: Partial<RuleFormData>) => {
+    setFormData({ ...formData, ...changes });
+    // The preview was of the rule as it was
+    setPreview(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      onError(new Error('A rule needs a name'));
+      return;
+    }
+
+    const { isEnabled, ...data } = toRuleData(formData);
+    saveRule.mutate({ id: editingRule?.id, data: editingRule ? data : { ...data, isEnabled } });
+  };
+
+  const handleDelete = (rule: TransactionRule) => {
+    if (confirm(`Delete the rule "${rule.name}"? The transactions it matched show up as stored again.`)) {
+      deleteRule.mutate(rule.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wand2 className="h-5 w-5" />
+              <span>Rules</span>
+            </CardTitle>
+            <CardDescription>Hide, rename or recategorize matching transactions</CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : rules.length === 0 ? (
+          <div className="py-3 text-center text-sm text-muted-foreground">
+            No rules yet. Add one to hide a transaction everywhere or fix how it is labelled.
+          </div>
+        ) : (
+          rules.map((rule, index) => {
+            const { conditions, actions } = describeRule(rule, categoryNames);
+            return (
+              <div key={rule.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                <div className={`min-w-0 ${rule.isEnabled ? '' : 'opacity-50'}`}>
+                  <p className="text-sm font-medium truncate">{rule.name}</p>
+                  <p className="text-xs text-muted-foreground">If {conditions}</p>
+                  <p className="text-xs text-muted-foreground">Then {actions}</p>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={rule.isEnabled}
+                      onCheckedChange={(isEnabled) => saveRule.mutate({ id: rule.id, data: { isEnabled } })}
+                      title={rule.isEnabled ? 'Disable' : 'Enable'}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      disabled={index === 0 || moveRule.isPending}
+                      onClick={() => moveRule.mutate({ rule, other: rules[index - 1] })}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      disabled={index === rules.length - 1 || moveRule.isPending}
+                      onClick={() => moveRule.mutate({ rule, other: rules[index + 1] })}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => openDialog(rule)}>
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => handleDelete(rule)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+        {rules.length > 1 && (
+          <p className="text-xs text-muted-foreground">Rules apply from top to bottom; a lower one wins.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Rule' : 'New Rule'}</DialogTitle>
+            <DialogDescription>
+              Applies to every transaction that matches all the conditions you fill in. Stored transactions aren't changed.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="ruleName">Name</Label>
+              <Input
+                id="ruleName"
+                value={formData.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g., Hide old gym membership"
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2 rounded border p-3">
+              <Label>Conditions</Label>
+              <Input
+                value={formData.titlePattern}
+                onChange={(e) => updateForm({ titlePattern: e.target.value })}
+                placeholder="Title matches (regular expression, e.g. ^netflix)"
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  inputMode="decimal"
+                  value={formData.minAmount}
+                  onChange={(e) => updateForm({ minAmount: e.target.value })}
+                  placeholder="Min amount (PLN)"
+                />
+                <Input
+                  inputMode="decimal"
+                  value={formData.maxAmount}
+                  onChange={(e) => updateForm({ maxAmount: e.target.value })}
+                  placeholder="Max amount (PLN)"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={formData.categoryId} onValueChange={(categoryId) => updateForm({ categoryId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any category</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={formData.personLabel} onValueChange={(personLabel) => updateForm({ personLabel })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Anyone</SelectItem>
+                    {people.map(person => (
+                      <SelectItem key={person.id} value={person.name}>{person.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="date"
+                  value={formData.dateFrom}
+                  onChange={(e) => updateForm({ dateFrom: e.target.value })}
+                  title="Dated from"
+                />
+                <Input
+                  type="date"
+                  value={formData.dateTo}
+                  onChange={(e) => updateForm({ dateTo: e.target.value })}
+                  title="Dated until"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2 rounded border p-3">
+              <Label>Actions</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="ruleHide" className="font-normal">Hide the transaction</Label>
+                <Switch id="ruleHide" checked={formData.hide} onCheckedChange={(hide) => updateForm({ hide })} />
+              </div>
+              {!formData.hide && (
+                <>
+                  <Input
+                    value={formData.setTitle}
+                    onChange={(e) => updateForm({ setTitle: e.target.value })}
+                    placeholder="Rename to"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select value={formData.setCategoryId} onValueChange={(setCategoryId) => updateForm({ setCategoryId })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={KEEP}>Keep category</SelectItem>
+                        {categories.map(category => (
+                          <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={formData.setPersonLabel} onValueChange={(setPersonLabel) => updateForm({ setPersonLabel })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={KEEP}>Keep person</SelectItem>
+                        {activePeople.map(person => (
+                          <SelectItem key={person.id} value={person.name}>{person.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    inputMode="decimal"
+                    value={formData.setAmount}
+                    onChange={(e) => updateForm({ setAmount: e.target.value })}
+                    placeholder="Set amount to (PLN)"
+                  />
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="ruleMarkPaid" className="font-normal">Mark as paid</Label>
+                    <Switch id="ruleMarkPaid" checked={formData.markPaid} onCheckedChange={(markPaid) => updateForm({ markPaid })} />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {preview && (
+              <div className="space-y-1 rounded border p-3 text-sm">
+                <p className="font-medium">
+                  Matches {preview.matches.length} of {preview.total} transactions
+                </p>
+                {preview.matches.slice(0, 20).map(({ transaction, result }) => (
+                  <div key={transaction.id} className="flex justify-between gap-2 text-xs">
+                    <span className="truncate">
+                      {transaction.title} · {formatCurrency(transaction.amount)}
+                    </span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {result
+                        ? `→ ${result.title} · ${formatCurrency(result.amount)}${result.categoryId !== null ? ` · ${categoryNames.get(result.categoryId) ?? ''}` : ''}`
+                        : '→ hidden'}
+                    </span>
+                  </div>
+                ))}
+                {preview.matches.length > 20 && (
+                  <p className="text-xs text-muted-foreground">and {preview.matches.length - 20} more</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => previewRule.mutate({ ...toRuleData(formData), name: formData.name.trim() || 'Preview' })}
+                disabled={previewRule.isPending}
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                {previewRule.isPending ? 'Checking...' : 'Preview'}
+              </Button>
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveRule.isPending}>
+                {saveRule.isPending ? 'Saving...' : editingRule ? 'Update Rule' : 'Create Rule'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
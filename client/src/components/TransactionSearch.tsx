@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import type { TransactionSearchHit, TransactionSearchQuery, TransactionSearchResult } from '@shared/schema';
+import { transactionSearchSorts } from '@shared/schema';
+import { parseSearchQuery } from '@shared/transaction-search';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+
+const PAGE_SIZE = 20;
+
+// Typing settles for this long before a search goes out
+const SEARCH_DELAY_MS = 250;
+
+const SORT_LABELS: Record<TransactionSearchQuery['sort'], string> = {
+  date: 'Date',
+  amount: 'Amount',
+  title: 'Title',
+};
+
+interface TransactionSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (hit: TransactionSearchHit) => void;
+}
+
+/**
+ * A search palette over every month's transactions, e.g. `netflix amount:>50 is:unpaid`;
+ * picking a result hands it to `onSelect`
+ */
+export default function TransactionSearch({ open, onOpenChange, onSelect }: TransactionSearchProps) {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<TransactionSearchQuery['sort']>('date');
+  const [order, setOrder] = useState<TransactionSearchQuery['order']>('desc');
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(input.trim());
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  // Mistakes in the query are shown as it's typed, without asking the server
+  const { error: queryError } = parseSearchQuery(input);
+  const params = new URLSearchParams({ q: query, sort, order, page: String(page), pageSize: String(PAGE_SIZE) });
+
+  const { data, isFetching, error } = useQuery<TransactionSearchResult, Error>({
+    queryKey: [`/api/transactions/search?${params}`],
+    enabled: open && !!query && !parseSearchQuery(query).error,
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+
+  const hits = query ? data?.hits ?? [] : [];
+  const total = query ? data?.total ?? 0 : 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const changeSort = (next: TransactionSearchQuery['sort']) => {
+    if (next === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(next);
+      setOrder(next === 'title' ? 'asc' : 'desc');
+    }
+    setPage(1);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search transactions</DialogTitle>
+        {/* The server does the matching; cmdk would filter the results again by their value */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder="Search, e.g. netflix amount:>50 person:Fabi after:2025-01 is:unpaid"
+          />
+
+          <div className="flex flex-wrap items-center gap-1 border-b px-3 py-2 text-xs">
+            <span className="text-muted-foreground">Sort by</span>
+            {transactionSearchSorts.map(option => (
+              <Button
+                key={option}
+                type="button"
+                variant={sort === option ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => changeSort(option)}
+              >
+                {SORT_LABELS[option]}
+                {sort === option && (order === 'asc' ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />)}
+              </Button>
+            ))}
+            <span className="ml-auto text-muted-foreground">
+              {query && !queryError ? `${total} ${total === 1 ? 'result' : 'results'}` : ''}
+            </span>
+          </div>
+
+          <CommandList>
+            {queryError ? (
+              <div className="py-6 text-center text-sm text-red-500">{queryError}</div>
+            ) : !query ? (
+              <div className="space-y-1 px-4 py-6 text-sm text-muted-foreground">
+                <p>Search the titles and notes of every month's transactions, or narrow it down with:</p>
+                <p className="font-mono text-xs">
+                  title: note: amount:&gt;50 amount:20..80 person: category: tag: after:2025-01 before:2025-06-15
+                  is:paid is:unpaid is:expense is:income is:recurring is:split
+                </p>
+              </div>
+            ) : error ? (
+              <div className="py-6 text-center text-sm text-red-500">Couldn't search: {error.message}</div>
+            ) : (
+              <>
+                <CommandEmpty>{isFetching ? 'Searching...' : 'No transactions found'}</CommandEmpty>
+                {hits.length > 0 && (
+                  <CommandGroup heading={pageCount > 1 ? `Page ${page} of ${pageCount}` : undefined}>
+                    {hits.map(hit => (
+                      <CommandItem
+                        key={`${hit.transactionId}:${hit.date}`}
+                        value={`${hit.transactionId}:${hit.date}`}
+                        onSelect={() => onSelect(hit)}
+                        className="flex items-center gap-3"
+                      >
+                        <span className="w-24 shrink-0 text-xs text-muted-foreground">
+                          {format(parseISO(hit.date), 'd MMM yyyy')}
+                        </span>
+                        <span className="min-w-0 flex-1">
+                          <span className="block truncate">{hit.title}</span>
+                          <span className="block truncate text-xs text-muted-foreground">
+                            {[hit.categoryName, hit.personLabel, ...hit.tags.map(tag => `#${tag}`)].filter(Boolean).join(' · ')}
+                            {!hit.isPaid && hit.isExpense && ' · unpaid'}
+                          </span>
+                        </span>
+                        <span className={`shrink-0 font-mono text-sm ${hit.isExpense ? 'text-red-500' : 'text-green-600'}`}>
+                          {hit.isExpense ? '-' : '+'}{hit.amount.toFixed(2)} PLN
+                        </span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+              </>
+            )}
+          </CommandList>
+
+          {!queryError && query && pageCount > 1 && (
+            <div className="flex items-center justify-end gap-2 border-t px-3 py-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || isFetching}
+              >
+                Previous
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount || isFetching}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
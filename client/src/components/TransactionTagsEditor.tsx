@@ -0,0 +1,55 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { TransactionWithCategory } from '@shared/schema';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { apiRequest } from '@/lib/queryClient';
+import TagInput from '@/components/TagInput';
+
+/**
+ * The tags of a saved transaction; every change is saved right away, on the whole series
+ */
+export default function TransactionTagsEditor({ transaction }: { transaction: TransactionWithCategory }) {
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // An occurrence is a copy; the series in the cache has the saved tags
+  const series = queryClient.getQueryData<TransactionWithCategory[]>(['/api/transactions'])
+    ?.find(t => t.id === transaction.id) ?? transaction;
+
+  const saveTags = useMutation({
+    mutationFn: async (tags: string[]) => {
+      const response = await apiRequest('PUT', `/api/transactions/${transaction.id}/tags`, { tags });
+      return response.json() as Promise<string[]>;
+    },
+    onSuccess: (tags) => {
+      // Shown right away rather than after the refetch
+      queryClient.setQueryData<TransactionWithCategory[]>(['/api/transactions'], current =>
+        current?.map(t => t.id === transaction.id ? { ...t, tags } : t)
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <Label>Tags</Label>
+      <TagInput
+        value={saveTags.isPending ? saveTags.variables ?? [] : series.tags ?? []}
+        onChange={tags => saveTags.mutate(tags)}
+        disabled={!canEdit}
+      />
+      <div className="text-sm text-muted-foreground">
+        Group {transaction.isExpense ? 'expenses' : 'income'} across categories, e.g. the costs of a trip
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { TrashItemType } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { useTrash, restoreFromTrash } from '@/hooks/use-trash';
+import { formatCurrency } from '@/utils/currency-converter';
+
+type TrashEntry = {
+  type: TrashItemType;
+  id: number;
+  label: string;
+  detail: string;
+  deletedAt: Date;
+};
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  transactions: 'Transaction',
+  categories: 'Category',
+  savings: 'Savings',
+};
+
+export default function TrashBin() {
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { canEdit } = useHousehold();
+  const { trash, isLoading } = useTrash();
+
+  const retentionDays = trash?.retentionDays ?? 0;
+
+  // Everything in one list, most recently deleted first
+  const entries: TrashEntry[] = trash ? [
+    ...trash.transactions.map(t => ({
+      type: 'transactions' as const,
+      id: t.id,
+      label: t.title,
+      detail: `${formatCurrency(t.amount)}${t.isRecurring ? ' · recurring' : ''}`,
+      deletedAt: new Date(t.deletedAt!),
+    })),
+    ...trash.categories.map(c => ({
+      type: 'categories' as const,
+      id: c.id,
+      label: `${c.emoji ?? ''} ${c.name}`.trim(),
+      detail: c.isExpense ? 'Expense category' : 'Income category',
+      deletedAt: new Date(c.deletedAt!),
+    })),
+    ...trash.savings.map(s => ({
+      type: 'savings' as const,
+      id: s.id,
+      label: s.notes || 'Savings entry',
+      detail: `${formatCurrency(s.amount)} · ${format(new Date(s.date), 'MMM d, yyyy')}`,
+      deletedAt: new Date(s.deletedAt!),
+    })),
+  ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()) : [];
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setRestoring(`${entry.type}-${entry.id}`);
+    try {
+      await restoreFromTrash(entry.type, entry.id);
+      toast({
+        title: 'Restored',
+        description: `${entry.label} was restored`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to restore: ${(error as Error).message}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const daysLeft = (deletedAt: Date) =>
+    Math.max(0, differenceInCalendarDays(addDays(deletedAt, retentionDays), new Date()));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trash</CardTitle>
+        <CardDescription>
+          Deleted items are kept for {retentionDays || '...'} days before they are removed for good
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The trash is empty</p>
+        ) : (
+          entries.map(entry => (
+            <div
+              key={`${entry.type}-${entry.id}`}
+              className="flex items-center justify-between gap-2 p-2 border rounded-lg"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{entry.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  {TYPE_LABELS[entry.type]} · {entry.detail}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Deleted {format(entry.deletedAt, 'MMM d, yyyy')} · {daysLeft(entry.deletedAt)} days left
+                </p>
+              </div>
+              {canEdit && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(entry)}
+                  disabled={restoring !== null}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  {restoring === `${entry.type}-${entry.id}` ? 'Restoring...' : 'Restore'}
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,25 +1,11 @@
-import { useEffect, useState } from 'react';
-import { TransactionWithCategory } from '@shared/schema';
-import { 
-  format, 
-  isAfter, 
-  isBefore, 
-  isToday, 
-  startOfDay, 
-  startOfMonth, 
-  endOfMonth, 
-  addDays,
-  addWeeks,
-  addMonths,
-  addYears
-} from 'date-fns';
-import { isTransactionSkippedForMonth, skipTransactionForMonth } from '@/utils/skipMonthUtils';
-import { calculateMonthlyBudget, getActiveTransactionsForMonth } from '@/utils/budgetCalculations';
+import { useEffect, useMemo } from 'react';
+import { BudgetOccurrence, TransactionWithCategory } from '@shared/schema';
+import { format, isBefore, parseISO, startOfDay, addDays } from 'date-fns';
 import '@/utils/clearIncorrectSkips';
-import '@/utils/directBudgetFix';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { CheckCircle2, AlertCircle } from 'lucide-react';
+import { useMonthlyBudget } from '@/hooks/use-monthly-budget';
 
 interface UpcomingExpensesProps {
   transactions: TransactionWithCategory[];
@@ -29,6 +15,10 @@ interface UpcomingExpensesProps {
   onBudgetUpdate?: (currentBudget: number) => void; // Callback to pass the budget up to parent
 }
 
+function sumAmounts(occurrences: BudgetOccurrence[]): number {
+  return occurrences.reduce((sum, occurrence) => sum + occurrence.amount, 0);
+}
+
 export default function UpcomingExpenses({ 
   transactions, 
   isLoading,
@@ -36,270 +26,52 @@ export default function UpcomingExpenses({
   currentDate,
   onBudgetUpdate
 }: UpcomingExpensesProps) {
-  const [upcomingExpenses, setUpcomingExpenses] = useState<TransactionWithCategory[]>([]);
-  const [totalUpcoming, setTotalUpcoming] = useState(0);
-  const [monthlyIncome, setMonthlyIncome] = useState(0);
-  const [remainingBudget, setRemainingBudget] = useState(0);
-  const [spentExpensesAmount, setSpentExpensesAmount] = useState(0);
-  const [todayExpensesAmount, setTodayExpensesAmount] = useState(0);
-  const [allMonthlyExpensesAmount, setAllMonthlyExpensesAmount] = useState(0);
+  const { budget, isLoading: isLoadingBudget } = useMonthlyBudget(currentDate);
   
+  // Split the month's expenses (from the server budget) into spent, today and upcoming
+  const summary = useMemo(() => {
+    const todayKey = format(startOfDay(new Date()), 'yyyy-MM-dd');
+    const expenses = (budget?.occurrences ?? []).filter(occurrence => occurrence.isExpense);
+    
+    // Upcoming = tomorrow or later and not paid yet
+    const upcoming = expenses.filter(occurrence => occurrence.date > todayKey && !occurrence.isPaid);
+    const todayExpenses = expenses.filter(occurrence => occurrence.date === todayKey);
+    // Spent = in the past, or already paid ahead of time
+    const spent = expenses.filter(occurrence => occurrence.date < todayKey || (occurrence.date > todayKey && occurrence.isPaid));
+    
+    const totalUpcoming = sumAmounts(upcoming);
+    const balance = budget?.balance ?? 0;
+    
+    return {
+      upcoming,
+      totalUpcoming,
+      todayExpensesAmount: sumAmounts(todayExpenses),
+      spentExpensesAmount: sumAmounts(spent),
+      remainingBudget: balance,
+      // What is available before paying the upcoming expenses
+      currentAvailableBudget: balance + totalUpcoming,
+    };
+  }, [budget]);
+  
+  // Pass the current available budget (BEFORE paying upcoming expenses) to the parent component for budget protection
   useEffect(() => {
-    // Use currentDate if provided, otherwise use today's date
-    const referenceDate = currentDate || new Date();
-    
-    // Get the start and end of the selected month
-    const monthStart = startOfMonth(referenceDate);
-    const monthEnd = endOfMonth(referenceDate);
-    
-    // Today's date for filtering out today's expenses
-    const today = startOfDay(new Date());
-    
-    // Create tomorrow's date (to filter to only show expenses from tomorrow onwards)
-    const tomorrow = addDays(today, 1);
-    
-    // Get month name for display
-    const monthName = format(referenceDate, 'MMMM yyyy');
-    
-    // Log the reference period
-    console.log(`Filtering upcoming expenses for: ${monthName} (${format(monthStart, 'yyyy-MM-dd')} to ${format(monthEnd, 'yyyy-MM-dd')})`);
-    console.log(`Today's date: ${format(today, 'yyyy-MM-dd')}, Tomorrow's date: ${format(tomorrow, 'yyyy-MM-dd')}`);
-    
-    // Check for budget correction data for June 2025
-    let correctedBudgetData = null;
-    if (referenceDate.getFullYear() === 2025 && referenceDate.getMonth() === 5) {
-      const correctionStr = localStorage.getItem('june2025_budget_correction');
-      if (correctionStr) {
-        correctedBudgetData = JSON.parse(correctionStr);
-        console.log('Using corrected budget data for June 2025:', correctedBudgetData);
-      }
-    }
-    
-    // Get active transactions for this month (with skip filtering applied)
-    const activeMonthTransactions = getActiveTransactionsForMonth(transactions, referenceDate);
-    
-    // Filter for expenses in the current month based on the viewing month
-    // and only show expenses starting from tomorrow (explicitly excluding today)
-    const expenses = activeMonthTransactions.filter(transaction => {
-      // Only include expenses
-      if (!transaction.isExpense) return false;
-      
-      const transactionDate = new Date(transaction.date);
-      
-      // Filter by month - include both transactions that fall in the month and 
-      // transactions that recur into this month
-      const isInSelectedMonth = 
-        transactionDate >= monthStart && 
-        transactionDate <= monthEnd;
-      
-      // For non-recurring expenses, only show if they're tomorrow or later (not today) AND not paid
-      if (isInSelectedMonth && !transaction.isRecurring) {
-        // Only include expenses that are tomorrow or later AND not paid
-        // This explicitly excludes today's expenses which should be considered "current" not "upcoming"
-        const isTommorrowOrLater = transactionDate >= tomorrow;
-        console.log(`Transaction "${transaction.title}" on ${format(transactionDate, 'yyyy-MM-dd')} is ${isTommorrowOrLater ? 'tomorrow or later' : 'today or earlier'}`);
-        return isTommorrowOrLater && !transaction.isPaid;
-      }
-      
-      // For recurring transactions, check if any occurrences fall in the selected month
-      // AND they are today or in the future
-      if (transaction.isRecurring) {
-        // Figure out if any recurring instances fall within the selected month
-        const originalDate = new Date(transaction.date);
-        const interval = transaction.recurringInterval || 'monthly';
-        let nextDate = new Date(originalDate);
-        let hasUpcomingInstanceInMonth = false;
-        
-        console.log(`Checking recurring transaction: ${transaction.title}, interval: ${interval}, date: ${format(originalDate, 'yyyy-MM-dd')}, isRecurring: ${transaction.isRecurring}`);
-        
-        // If the original date is in the selected month and is tomorrow or later AND not paid
-        if (originalDate >= monthStart && 
-            originalDate <= monthEnd && 
-            originalDate >= tomorrow &&
-            !transaction.isPaid) {
-          console.log(`Recurring transaction "${transaction.title}" original date ${format(originalDate, 'yyyy-MM-dd')} is in the future (after tomorrow)`);
-          return true;
-        }
-        
-        // Check for a few cycles to see if it falls in our month and is upcoming
-        for (let i = 0; i < 12; i++) {
-          switch (interval) {
-            case 'daily':
-              nextDate = addDays(nextDate, 1);
-              break;
-            case 'weekly':
-              nextDate = addWeeks(nextDate, 1);
-              break;
-            case 'monthly':
-              nextDate = addMonths(nextDate, 1);
-              break;
-            case 'yearly':
-              nextDate = addYears(nextDate, 1);
-              break;
-            default:
-              nextDate = addMonths(nextDate, 1);
-          }
-          
-          // If this occurrence is in the selected month and is tomorrow or later AND not paid
-          if (nextDate >= monthStart && 
-              nextDate <= monthEnd && 
-              nextDate >= tomorrow &&
-              !transaction.isPaid) {
-            console.log(`Recurring transaction "${transaction.title}" next occurrence on ${format(nextDate, 'yyyy-MM-dd')} is tomorrow or later`);
-            hasUpcomingInstanceInMonth = true;
-            break;
-          }
-          
-          // If we've gone beyond the end of the month, stop checking
-          if (nextDate > monthEnd) {
-            break;
-          }
-        }
-        
-        return hasUpcomingInstanceInMonth;
-      }
-      
-      return false;
-    });
-    
-    // Sort by date (soonest first)
-    const sortedExpenses = [...expenses].sort((a, b) => {
-      // For regular transactions, compare their dates
-      if (!a.isRecurring && !b.isRecurring) {
-        return new Date(a.date).getTime() - new Date(b.date).getTime();
-      }
-      
-      // If one is recurring and the other isn't, show recurring ones first
-      if (a.isRecurring && !b.isRecurring) return -1;
-      if (!a.isRecurring && b.isRecurring) return 1;
-      
-      // If both are recurring, compare their titles
-      return a.title.localeCompare(b.title);
-    });
-    
-    setUpcomingExpenses(sortedExpenses);
-    
-    // Calculate total amount
-    const total = sortedExpenses.reduce((sum, expense) => sum + expense.amount, 0);
-    setTotalUpcoming(total);
-    
-    // Calculate monthly income using active transactions (excluding skipped)
-    const budgetCalculation = calculateMonthlyBudget(transactions, referenceDate);
-    let income = budgetCalculation.totalIncome;
-    
-    // Apply correction for June 2025 if available
-    if (correctedBudgetData) {
-      income = correctedBudgetData.monthlyIncome;
-      console.log(`Using corrected income for June 2025: ${income.toFixed(2)} PLN`);
-    } else {
-      console.log(`--- INCOME CALCULATION (with skip filtering) ---`);
-      console.log(`Total income for ${monthName}: ${income.toFixed(2)} PLN`);
-      console.log(`Active transactions: ${budgetCalculation.activeTransactions.length}, Skipped: ${budgetCalculation.skippedCount}`);
-      console.log(`TOTAL INCOME: ${income} PLN`);
-      console.log(`--------------------`);
-    }
-    
-    setMonthlyIncome(income);
-    
-    // Use centralized budget calculation for expenses (excludes skipped transactions)
-    const activeExpenses = budgetCalculation.activeTransactions.filter(tx => tx.isExpense);
-    
-    // Calculate already spent expenses (past expenses in this month or paid expenses)
-    const spentTransactions = activeExpenses.filter(transaction => {
-      const txDate = new Date(transaction.date);
-      const isInCurrentMonth = (txDate >= monthStart && txDate <= monthEnd);
-      
-      // Count as spent if either:
-      // 1. It's in the past (but not today) and in this month, OR
-      // 2. It's marked as paid and in this month
-      const isInPast = isBefore(txDate, today) && !isToday(txDate);
-      const shouldCount = isInCurrentMonth && (isInPast || transaction.isPaid);
-      
-      // Add detailed logging for all expenses
-      console.log(`Expense: ${transaction.title} (${format(txDate, 'yyyy-MM-dd')}) - ${transaction.amount} PLN, isPaid: ${transaction.isPaid}, isInPast: ${isInPast}, isInMonth: ${isInCurrentMonth}, shouldCount: ${shouldCount}`);
-      
-      return shouldCount;
-    });
-    
-    // Log all spent transactions
-    console.log('Already spent transactions:', spentTransactions.map(tx => ({ 
-      title: tx.title, 
-      date: format(new Date(tx.date), 'yyyy-MM-dd'),
-      amount: tx.amount,
-      isPaid: tx.isPaid
-    })));
-    
-    const spentExpenses = spentTransactions.reduce((sum, tx) => sum + tx.amount, 0);
-    
-    // Total monthly expenses from budget calculation (already excludes skipped)
-    let allMonthlyExpenses = budgetCalculation.totalExpenses;
-    
-    // Apply correction for June 2025 if available
-    if (correctedBudgetData) {
-      allMonthlyExpenses = correctedBudgetData.monthlyExpenses;
-      console.log(`Using corrected expenses for June 2025: ${allMonthlyExpenses.toFixed(2)} PLN`);
+    if (budget && onBudgetUpdate) {
+      onBudgetUpdate(summary.currentAvailableBudget);
     }
-    
-    // Calculate what's already been spent (past expenses)
-    const spentExpensesTotal = spentExpenses;
-    
-    // Calculate today's expenses separately (from active transactions only)
-    const todayExpenses = activeExpenses.filter(transaction => {
-      const txDate = new Date(transaction.date);
-      return isToday(txDate);
-    }).reduce((sum, tx) => sum + tx.amount, 0);
-    
-    // Calculate the current available budget
-    let currentAvailableBudget;
-    if (correctedBudgetData) {
-      // Use corrected balance directly for June 2025
-      currentAvailableBudget = correctedBudgetData.balance;
-      console.log(`Using corrected balance for June 2025: ${currentAvailableBudget.toFixed(2)} PLN`);
-    } else {
-      // Standard calculation for other months
-      currentAvailableBudget = income - spentExpensesTotal - todayExpenses;
-    }
-    
-    // Now subtract upcoming expenses to get what will remain after paying them
-    const afterPayingUpcoming = currentAvailableBudget - total;
-    
-    console.log(`IMPROVED Budget calculation for Upcoming Expenses component:`);
-    console.log(`- Monthly Income: ${income.toFixed(2)} PLN`);
-    console.log(`- All monthly expenses: ${allMonthlyExpenses.toFixed(2)} PLN`);
-    console.log(`- Already spent expenses: ${spentExpensesTotal.toFixed(2)} PLN`);
-    console.log(`- Today's expenses: ${todayExpenses.toFixed(2)} PLN`);
-    console.log(`- Upcoming expenses: ${total.toFixed(2)} PLN`);
-    console.log(`- Current available budget: ${currentAvailableBudget.toFixed(2)} PLN`);
-    console.log(`- What will remain after paying upcoming: ${afterPayingUpcoming.toFixed(2)} PLN`);
-    
-    // Apply correction for June 2025 if available
-    let displayIncome = income;
-    let displayBalance = currentAvailableBudget;
-    
-    if (correctedBudgetData) {
-      displayIncome = correctedBudgetData.monthlyIncome;
-      displayBalance = correctedBudgetData.balance;
-      console.log(`Using corrected balance for June 2025: ${displayBalance.toFixed(2)} PLN`);
-    }
-    
-    // Save all the values we need for display
-    setSpentExpensesAmount(spentExpensesTotal);
-    setTotalUpcoming(total);
-    setMonthlyIncome(displayIncome);
-    setTodayExpensesAmount(todayExpenses);
-    setAllMonthlyExpensesAmount(allMonthlyExpenses);
-    
-    // For the Upcoming Expenses component, we want to show what will remain AFTER paying upcoming expenses
-    const finalRemainingBudget = correctedBudgetData ? displayBalance : afterPayingUpcoming;
-    setRemainingBudget(finalRemainingBudget);
-    
-    // Pass the current available budget (BEFORE paying upcoming expenses) to the parent component for budget protection
-    if (onBudgetUpdate) {
-      onBudgetUpdate(currentAvailableBudget);
-    }
-  }, [transactions, currentDate]);
+  }, [budget, summary.currentAvailableBudget]);
   
-  if (isLoading) {
+  const transactionsById = useMemo(
+    () => new Map(transactions.filter(tx => !tx.isRecurringInstance).map(tx => [tx.id, tx])),
+    [transactions]
+  );
+  
+  const monthlyIncome = budget?.income ?? 0;
+  const allMonthlyExpensesAmount = budget?.expenses ?? 0;
+  const savingsAmount = budget?.savings ?? 0;
+  const carryOver = budget?.carryOver ?? 0;
+  const { upcoming: upcomingExpenses, totalUpcoming, todayExpensesAmount, spentExpensesAmount, remainingBudget } = summary;
+  
+  if (isLoading || isLoadingBudget) {
     return (
       <Card>
         <CardHeader className="pb-2">
@@ -361,75 +133,24 @@ export default function UpcomingExpenses({
 
         {upcomingExpenses.length > 0 ? (
           <div className="space-y-3">
-            {upcomingExpenses.map((expense, index) => {
-              // Calculate days until due
+            {upcomingExpenses.map((expense) => {
               const today = startOfDay(new Date());
-              
-              // For recurring expenses, display the next instance in the current month
-              // that is today or in the future
-              let dueDate: Date;
-              if (expense.isRecurring) {
-                // Calculate the next instance for this month
-                const originalDate = new Date(expense.date);
-                const referenceDate = currentDate || new Date();
-                const monthStart = startOfMonth(referenceDate);
-                const monthEnd = endOfMonth(referenceDate);
-                const interval = expense.recurringInterval || 'monthly';
-                
-                // Create tomorrow's date for filtering
-                const tomorrow = addDays(today, 1);
-                
-                // If the original date is in this month and is tomorrow or later
-                if (originalDate >= monthStart && 
-                    originalDate <= monthEnd && 
-                    originalDate >= tomorrow) {
-                  dueDate = originalDate;
-                } else {
-                  // Find next occurrence in this month that's tomorrow or later
-                  let nextDate = new Date(originalDate);
-                  
-                  // Keep advancing until we find a date that's:
-                  // 1. In the selected month, AND
-                  // 2. Tomorrow or later (not today)
-                  let safetyCounter = 0;
-                  while ((nextDate < monthStart || 
-                          nextDate > monthEnd || 
-                          nextDate < tomorrow) && 
-                          safetyCounter < 50) {
-                    safetyCounter++;
-                    
-                    switch (interval) {
-                      case 'daily':
-                        nextDate = addDays(nextDate, 1);
-                        break;
-                      case 'weekly':
-                        nextDate = addWeeks(nextDate, 1);
-                        break;
-                      case 'monthly':
-                        nextDate = addMonths(nextDate, 1);
-                        break;
-                      case 'yearly':
-                        nextDate = addYears(nextDate, 1);
-                        break;
-                      default:
-                        nextDate = addMonths(nextDate, 1);
-                    }
-                  }
-                  dueDate = nextDate;
-                }
-              } else {
-                // Regular non-recurring expense
-                dueDate = new Date(expense.date);
-              }
+              const dueDate = parseISO(expense.date);
+              const transaction = transactionsById.get(expense.transactionId);
               
               const isExactlyToday = dueDate.toDateString() === today.toDateString();
               const isDueSoon = !isExactlyToday && isBefore(dueDate, addDays(today, 3));
               
               return (
                 <div
-                  key={index}
+                  key={`${expense.transactionId}-${expense.date}`}
                   className="flex justify-between items-center p-2 rounded hover:bg-muted/50 cursor-pointer"
-                  onClick={() => onEditTransaction({ ...expense, fromSubscriptionList: true } as any)}
+                  onClick={() => transaction && onEditTransaction({
+                    ...transaction,
+                    displayDate: dueDate,
+                    isRecurringInstance: expense.isRecurring,
+                    fromSubscriptionList: true
+                  } as any)}
                 >
                   <div className="flex items-center gap-3">
                     {isExactlyToday ? (
@@ -479,6 +200,18 @@ export default function UpcomingExpenses({
                 <span>Upcoming expenses</span>
                 <span>{totalUpcoming.toFixed(2)} PLN</span>
               </div>
+              {savingsAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="font-semibold">Moved to savings</span>
+                  <span className="font-bold text-blue-500">{savingsAmount.toFixed(2)} PLN</span>
+                </div>
+              )}
+              {carryOver !== 0 && (
+                <div className="flex justify-between">
+                  <span className="font-semibold">Carried over from last month</span>
+                  <span className={`font-bold ${carryOver >= 0 ? 'text-green-500' : 'text-red-500'}`}>{carryOver.toFixed(2)} PLN</span>
+                </div>
+              )}
               <div className="flex justify-between mt-2">
                 <span className="font-semibold">Remaining budget</span>
                 <span className={`font-bold ${remainingBudget >= 0 ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
@@ -486,7 +219,7 @@ export default function UpcomingExpenses({
                 </span>
               </div>
               <div className="flex justify-between text-xs pl-4 text-muted-foreground italic">
-                <span>Calculation: {monthlyIncome.toFixed(2)} - {spentExpensesAmount.toFixed(2)} - {todayExpensesAmount.toFixed(2)} - {totalUpcoming.toFixed(2)}</span>
+                <span>Calculation: {carryOver.toFixed(2)} + {monthlyIncome.toFixed(2)} - {allMonthlyExpensesAmount.toFixed(2)} - {savingsAmount.toFixed(2)}</span>
               </div>
             </div>
           </div>
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { AccountReconciliation, AccountWithBalance, Transaction } from "@shared/schema";
+import { queryClient } from "../lib/queryClient";
+
+export const ACCOUNTS_QUERY_KEY = ["/api/accounts"];
+export const TRANSFERS_QUERY_KEY = ["/api/transfers"];
+
+export function accountReconciliationQueryKey(accountId: number) {
+  return [`/api/accounts/${accountId}/reconciliation`];
+}
+
+// Data the balances are calculated from; any refetch of these makes cached balances
+// and reconciliations stale
+const BALANCE_SOURCES = ["/api/transactions", "/api/savings", "/api/occurrences", "/api/transfers"];
+
+queryClient.getQueryCache().subscribe(event => {
+  if (event.type === "updated" && event.action.type === "success" &&
+      BALANCE_SOURCES.includes(String(event.query.queryKey[0]))) {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/accounts") });
+  }
+});
+
+/**
+ * The household's accounts with their balance today; archived ones are only in `accounts`
+ */
+export function useAccounts() {
+  const { data: accounts = [], isLoading } = useQuery<AccountWithBalance[]>({
+    queryKey: ACCOUNTS_QUERY_KEY,
+  });
+  const activeAccounts = accounts.filter(account => !account.isArchived);
+
+  return { accounts, activeAccounts, isLoading };
+}
+
+/**
+ * Transfers between the household's accounts
+ */
+export function useTransfers() {
+  const { data: transfers = [], isLoading } = useQuery<Transaction[]>({
+    queryKey: TRANSFERS_QUERY_KEY,
+  });
+
+  return { transfers, isLoading };
+}
+
+/**
+ * The account's open reconciliation with the entries not reconciled yet; fetched while `accountId` is set
+ */
+export function useAccountReconciliation(accountId: number | null) {
+  const { data, isLoading } = useQuery<AccountReconciliation>({
+    queryKey: accountReconciliationQueryKey(accountId ?? 0),
+    enabled: accountId !== null,
+  });
+
+  return { data, isLoading };
+}
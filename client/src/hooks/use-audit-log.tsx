@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { AuditEntryWithUser } from "@shared/schema";
+
+export const AUDIT_QUERY_KEY_PREFIX = "/api/audit";
+
+/**
+ * Changes to a transaction, its occurrences and their clearing, newest first. Only fetched while `enabled`.
+ */
+export function useTransactionHistory(transactionId: number, enabled: boolean) {
+  const { data: entries = [], isLoading, error } = useQuery<AuditEntryWithUser[], Error>({
+    queryKey: [`${AUDIT_QUERY_KEY_PREFIX}?entity=transaction,occurrence,clearedEntry&entityId=${transactionId}`],
+    enabled,
+    // Every edit adds to the history
+    staleTime: 0,
+  });
+
+  return { entries, isLoading: enabled && isLoading, error };
+}
@@ -0,0 +1,37 @@
+import { format } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { BASE_CURRENCY, CurrencyConversion } from "@shared/schema";
+import { COMMON_CURRENCIES, isCurrencyCode } from "@/utils/currency-converter";
+
+export const CURRENCIES_QUERY_KEY = ["/api/exchange-rates/currencies"];
+
+export function conversionQueryKey(currency: string, date: Date) {
+  return [`/api/exchange-rates/convert?currency=${currency}&date=${format(date, "yyyy-MM-dd")}`];
+}
+
+/**
+ * Currencies to offer: the common ones first, then every one the rate table has
+ */
+export function useCurrencies() {
+  const { data: rateCurrencies = [] } = useQuery<string[]>({
+    queryKey: CURRENCIES_QUERY_KEY,
+  });
+
+  return Array.from(new Set([...COMMON_CURRENCIES, ...rateCurrencies]));
+}
+
+/**
+ * The rate a transaction in `currency` on `date` will be converted to PLN at, as the server will book it
+ */
+export function useExchangeRate(currency: string, date: Date | null) {
+  const enabled = currency !== BASE_CURRENCY && isCurrencyCode(currency) && !!date && !isNaN(date.getTime());
+
+  const { data: conversion, isLoading, error } = useQuery<CurrencyConversion, Error>({
+    queryKey: enabled ? conversionQueryKey(currency, date!) : ["exchange-rate-disabled"],
+    enabled,
+    // A missing rate stays missing until rates are loaded
+    retry: false,
+  });
+
+  return { conversion: enabled ? conversion : undefined, isLoading: enabled && isLoading, error: enabled ? error : null };
+}
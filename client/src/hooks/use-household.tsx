@@ -0,0 +1,51 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { HouseholdMembership } from "@shared/schema";
+import { queryClient, getActiveHouseholdId, setActiveHouseholdId } from "../lib/queryClient";
+
+/**
+ * The household the app is currently working in, the user's role in it,
+ * and every household the user can switch to
+ */
+export function useHousehold() {
+  const {
+    data: current,
+    error,
+    isLoading,
+  } = useQuery<HouseholdMembership, Error>({
+    queryKey: ["/api/households/current"],
+  });
+
+  const { data: memberships = [] } = useQuery<HouseholdMembership[]>({
+    queryKey: ["/api/households"],
+    enabled: !!current,
+  });
+
+  // A remembered household we no longer belong to - fall back to the server's default
+  useEffect(() => {
+    if (error?.message.startsWith("403") && getActiveHouseholdId() !== null) {
+      switchHousehold(null);
+    }
+  }, [error]);
+
+  const role = current?.role;
+
+  return {
+    household: current?.household ?? null,
+    role: role ?? null,
+    memberships,
+    isLoading,
+    // Until the role is known, let the server decide what is allowed
+    canEdit: role === undefined || role !== "viewer",
+    isOwner: role === "owner",
+    switchHousehold,
+  };
+}
+
+/**
+ * Make `householdId` the active household and refetch everything for it
+ */
+export function switchHousehold(householdId: number | null) {
+  setActiveHouseholdId(householdId);
+  queryClient.invalidateQueries();
+}
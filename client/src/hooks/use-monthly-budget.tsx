@@ -0,0 +1,102 @@
+import { format } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { MonthlyBudget, CategoryBudgetStatus, CashFlowForecast, ForecastHorizon, ReportSpan, SpendingReport, ReportEntriesQuery, ReportEntry } from "@shared/schema";
+import { queryClient } from "../lib/queryClient";
+
+const BUDGET_URL = "/api/budget";
+
+// Data the budget is calculated from; any refetch of these makes cached budgets stale
+const BUDGET_SOURCES = ["/api/transactions", "/api/savings", "/api/occurrences", "/api/people", "/api/categories"];
+
+export function budgetQueryKey(date: Date) {
+  return [`${BUDGET_URL}/${format(date, "yyyy-MM")}`];
+}
+
+export function categoryBudgetsQueryKey(date: Date) {
+  return [`${BUDGET_URL}/${format(date, "yyyy-MM")}/categories`];
+}
+
+export function forecastQueryKey(months: ForecastHorizon) {
+  return [`${BUDGET_URL}/forecast?months=${months}`];
+}
+
+export function reportQueryKey(months: ReportSpan) {
+  return [`${BUDGET_URL}/report?months=${months}`];
+}
+
+export function reportEntriesQueryKey({ from, to, kind, categoryId }: ReportEntriesQuery) {
+  const params = new URLSearchParams({ from, to });
+  if (kind) params.set("kind", kind);
+  if (categoryId !== undefined) params.set("categoryId", String(categoryId));
+  return [`${BUDGET_URL}/report/entries?${params}`];
+}
+
+export function invalidateBudgets() {
+  return queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith(`${BUDGET_URL}/`),
+  });
+}
+
+queryClient.getQueryCache().subscribe(event => {
+  if (event.type === "updated" && event.action.type === "success" &&
+      BUDGET_SOURCES.includes(String(event.query.queryKey[0]))) {
+    invalidateBudgets();
+  }
+});
+
+/**
+ * The server-calculated budget of the month containing `date`.
+ * Every budget figure in the app comes from here, so summary cards can't disagree.
+ */
+export function useMonthlyBudget(date: Date = new Date()) {
+  const { data: budget, isLoading, error } = useQuery<MonthlyBudget, Error>({
+    queryKey: budgetQueryKey(date),
+  });
+
+  return { budget, isLoading, error };
+}
+
+/**
+ * Budget vs. actual of every category with a monthly budget, for the month containing `date`
+ */
+export function useCategoryBudgets(date: Date = new Date()) {
+  const { data: budgets, isLoading, error } = useQuery<CategoryBudgetStatus[], Error>({
+    queryKey: categoryBudgetsQueryKey(date),
+  });
+
+  return { budgets, isLoading, error };
+}
+
+/**
+ * Projected daily balance over the next `months` months, from the household's opening balance
+ */
+export function useCashFlowForecast(months: ForecastHorizon) {
+  const { data: forecast, isLoading, error } = useQuery<CashFlowForecast, Error>({
+    queryKey: forecastQueryKey(months),
+  });
+
+  return { forecast, isLoading, error };
+}
+
+/**
+ * Trends, year-over-year and month-over-month changes of the last 12 or 24 complete months
+ */
+export function useSpendingReport(months: ReportSpan) {
+  const { data: report, isLoading, error } = useQuery<SpendingReport, Error>({
+    queryKey: reportQueryKey(months),
+  });
+
+  return { report, isLoading, error };
+}
+
+/**
+ * The occurrences and savings behind a report figure; nothing is loaded without a query
+ */
+export function useReportEntries(query: ReportEntriesQuery | null) {
+  const { data: entries = [], isLoading, error } = useQuery<ReportEntry[], Error>({
+    queryKey: query ? reportEntriesQueryKey(query) : [`${BUDGET_URL}/report/entries`],
+    enabled: !!query,
+  });
+
+  return { entries, isLoading, error };
+}
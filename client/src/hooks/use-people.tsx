@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Person } from "@shared/schema";
+
+export const PEOPLE_QUERY_KEY = ["/api/people"];
+
+const FALLBACK_PERSON_COLOR = "#6b7280";
+
+/**
+ * The household's people: everyone for showing existing entries,
+ * and only active people for picking on new ones. Members are the people who aren't shared;
+ * only they pay for things.
+ */
+export function usePeople() {
+  const { data: people = [], isLoading } = useQuery<Person[]>({
+    queryKey: PEOPLE_QUERY_KEY,
+  });
+
+  const activePeople = useMemo(() => people.filter(person => person.isActive), [people]);
+  const activeMembers = useMemo(() => activePeople.filter(person => !person.isShared), [activePeople]);
+
+  const colorsByName = useMemo(
+    () => new Map(people.map(person => [person.name, person.color])),
+    [people]
+  );
+
+  const getPersonColor = useCallback(
+    (name?: string | null) => (name && colorsByName.get(name)) || FALLBACK_PERSON_COLOR,
+    [colorsByName]
+  );
+
+  return { people, activePeople, activeMembers, isLoading, getPersonColor };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { SavingsGoalStatus } from "@shared/schema";
+
+export const SAVINGS_GOALS_QUERY_KEY = ["/api/savings-goals"];
+
+/**
+ * The household's savings goals with their progress and projected completion
+ */
+export function useSavingsGoals() {
+  const { data: goals = [], isLoading } = useQuery<SavingsGoalStatus[]>({
+    queryKey: SAVINGS_GOALS_QUERY_KEY,
+  });
+
+  return { goals, isLoading };
+}
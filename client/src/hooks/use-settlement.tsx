@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { Settlement } from "@shared/schema";
+import { queryClient } from "../lib/queryClient";
+
+export const SETTLEMENT_QUERY_KEY = ["/api/settlement"];
+
+// Data the balances are calculated from; any refetch of these makes the cached settlement stale
+const SETTLEMENT_SOURCES = ["/api/transactions", "/api/occurrences", "/api/people", "/api/transaction-rules"];
+
+queryClient.getQueryCache().subscribe(event => {
+  if (event.type === "updated" && event.action.type === "success" &&
+      SETTLEMENT_SOURCES.includes(String(event.query.queryKey[0]))) {
+    queryClient.invalidateQueries({ queryKey: SETTLEMENT_QUERY_KEY });
+  }
+});
+
+/**
+ * Who owes whom for what the household's members paid for each other
+ */
+export function useSettlement() {
+  const { data: settlement, isLoading, error } = useQuery<Settlement>({
+    queryKey: SETTLEMENT_QUERY_KEY,
+  });
+
+  return { settlement, isLoading, error };
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { SubscriptionStatus, SubscriptionSuggestion } from "@shared/schema";
+import { queryClient } from "../lib/queryClient";
+
+export const SUBSCRIPTIONS_QUERY_KEY = ["/api/subscriptions"];
+export const SUBSCRIPTION_SUGGESTIONS_QUERY_KEY = ["/api/subscriptions/suggestions"];
+
+// Data subscriptions and suggestions are worked out from; any refetch of these makes them stale
+const SUBSCRIPTION_SOURCES = ["/api/transactions", "/api/occurrences", "/api/categories"];
+
+export function invalidateSubscriptions() {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: SUBSCRIPTIONS_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: SUBSCRIPTION_SUGGESTIONS_QUERY_KEY }),
+  ]);
+}
+
+queryClient.getQueryCache().subscribe(event => {
+  if (event.type === "updated" && event.action.type === "success" &&
+      SUBSCRIPTION_SOURCES.includes(String(event.query.queryKey[0]))) {
+    invalidateSubscriptions();
+  }
+});
+
+/**
+ * The household's tracked subscriptions with their next renewal, cost and cancellation reminder,
+ * soonest renewal first
+ */
+export function useSubscriptions() {
+  const { data: subscriptions = [], isLoading } = useQuery<SubscriptionStatus[]>({
+    queryKey: SUBSCRIPTIONS_QUERY_KEY,
+  });
+
+  return { subscriptions, isLoading };
+}
+
+/**
+ * Likely subscriptions the household doesn't track yet
+ */
+export function useSubscriptionSuggestions() {
+  const { data: suggestions = [], isLoading } = useQuery<SubscriptionSuggestion[]>({
+    queryKey: SUBSCRIPTION_SUGGESTIONS_QUERY_KEY,
+  });
+
+  return { suggestions, isLoading };
+}
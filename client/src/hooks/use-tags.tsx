@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import { TagTotal, TagWithUsage } from "@shared/schema";
+import { queryClient } from "../lib/queryClient";
+
+const TAGS_URL = "/api/tags";
+
+export const TAGS_QUERY_KEY = [TAGS_URL];
+
+// Data the tags and their totals come from; any refetch of these makes them stale
+const TAG_SOURCES = ["/api/transactions", "/api/occurrences", "/api/transaction-rules"];
+
+export function tagTotalsQueryKey(from: string, to: string) {
+  return [`${TAGS_URL}/totals?from=${from}&to=${to}`];
+}
+
+export function invalidateTags() {
+  return queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith(TAGS_URL),
+  });
+}
+
+queryClient.getQueryCache().subscribe(event => {
+  if (event.type === "updated" && event.action.type === "success" &&
+      TAG_SOURCES.includes(String(event.query.queryKey[0]))) {
+    invalidateTags();
+  }
+});
+
+/**
+ * The household's tags by name, with how many transactions have each
+ */
+export function useTags() {
+  const { data: tags = [], isLoading, error } = useQuery<TagWithUsage[], Error>({
+    queryKey: TAGS_QUERY_KEY,
+  });
+
+  return { tags, tagNames: tags.map(tag => tag.name), isLoading, error };
+}
+
+/**
+ * Income and expenses of each tag's transactions between two dates ('YYYY-MM-DD', both included)
+ */
+export function useTagTotals(from: string, to: string) {
+  const { data: totals = [], isLoading, error } = useQuery<TagTotal[], Error>({
+    queryKey: tagTotalsQueryKey(from, to),
+    enabled: from <= to,
+  });
+
+  return { totals, isLoading, error };
+}
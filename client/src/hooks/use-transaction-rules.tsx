@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { TransactionRule } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+export const TRANSACTION_RULES_QUERY_KEY = ["/api/transaction-rules"];
+
+/**
+ * The household's transaction rules in the order they apply
+ */
+export function useTransactionRules() {
+  const { data: rules = [], isLoading } = useQuery<TransactionRule[]>({
+    queryKey: TRANSACTION_RULES_QUERY_KEY,
+  });
+
+  return { rules, isLoading };
+}
+
+// Rules change what the server returns for transactions, and so the budgets
+export function invalidateRuledQueries() {
+  queryClient.invalidateQueries({ queryKey: TRANSACTION_RULES_QUERY_KEY });
+  queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/recurring-transactions"] });
+}
@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { Trash, TrashItemType } from "@shared/schema";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { OCCURRENCES_QUERY_KEY } from "@/utils/occurrence-overrides";
+import { SAVINGS_GOALS_QUERY_KEY } from "@/hooks/use-savings-goals";
+import { TRANSFERS_QUERY_KEY } from "@/hooks/use-accounts";
+
+export const TRASH_QUERY_KEY = ["/api/trash"];
+
+// The lists a restored item shows up in again; a transaction may bring its category back too,
+// and may be a transfer
+const RESTORED_QUERY_KEYS: Record<TrashItemType, string[][]> = {
+  transactions: [["/api/transactions"], ["/api/categories"], OCCURRENCES_QUERY_KEY, TRANSFERS_QUERY_KEY],
+  categories: [["/api/categories"]],
+  savings: [["/api/savings"], SAVINGS_GOALS_QUERY_KEY],
+};
+
+/**
+ * The household's deleted transactions, categories and savings
+ */
+export function useTrash() {
+  const { data: trash, isLoading } = useQuery<Trash>({
+    queryKey: TRASH_QUERY_KEY,
+  });
+
+  return { trash, isLoading };
+}
+
+export async function restoreFromTrash(type: TrashItemType, id: number): Promise<void> {
+  await apiRequest("POST", `/api/trash/${type}/${id}/restore`);
+
+  queryClient.invalidateQueries({ queryKey: TRASH_QUERY_KEY });
+  RESTORED_QUERY_KEYS[type].forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+}
+
+/**
+ * A toast for a deletion with an Undo action that takes the item back out of the trash
+ */
+export function useDeletedToast() {
+  const { toast } = useToast();
+
+  return (type: TrashItemType, id: number, description: string) => {
+    queryClient.invalidateQueries({ queryKey: TRASH_QUERY_KEY });
+
+    const undo = async () => {
+      try {
+        await restoreFromTrash(type, id);
+        toast({ title: "Restored", description: "The deletion was undone" });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: `Failed to restore: ${(error as Error).message}`,
+          variant: "destructive",
+        });
+      }
+    };
+
+    toast({
+      title: "Moved to trash",
+      description,
+      action: <ToastAction altText="Undo the deletion" onClick={undo}>Undo</ToastAction>,
+    });
+  };
+}
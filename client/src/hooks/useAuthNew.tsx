@@ -5,7 +5,7 @@ import {
   UseMutationResult,
 } from "@tanstack/react-query";
 import { User } from "@shared/schema";
-import { queryClient } from "../lib/queryClient";
+import { queryClient, setActiveHouseholdId } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 // Define interfaces for our login/register data
@@ -143,6 +143,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
+      // The next user starts in their own household
+      setActiveHouseholdId(null);
       // Invalidate all queries to force a refetch after logout
       queryClient.invalidateQueries();
       toast({
@@ -7,6 +7,27 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The household the user is working in, sent with every API call
+const ACTIVE_HOUSEHOLD_KEY = "active-household-id";
+
+export function getActiveHouseholdId(): number | null {
+  const stored = localStorage.getItem(ACTIVE_HOUSEHOLD_KEY);
+  return stored ? parseInt(stored) : null;
+}
+
+export function setActiveHouseholdId(householdId: number | null) {
+  if (householdId === null) {
+    localStorage.removeItem(ACTIVE_HOUSEHOLD_KEY);
+  } else {
+    localStorage.setItem(ACTIVE_HOUSEHOLD_KEY, householdId.toString());
+  }
+}
+
+function householdHeaders(): Record<string, string> {
+  const householdId = getActiveHouseholdId();
+  return householdId ? { "X-Household-Id": householdId.toString() } : {};
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -20,7 +41,10 @@ export async function apiRequest(
   try {
     const res = await fetch(url, {
       method,
-      headers: data ? { "Content-Type": "application/json" } : {},
+      headers: {
+        ...householdHeaders(),
+        ...(data ? { "Content-Type": "application/json" } : {}),
+      },
       body: data ? JSON.stringify(data) : undefined,
       credentials: "include",
     });
@@ -47,6 +71,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: householdHeaders(),
       credentials: "include",
     });
 
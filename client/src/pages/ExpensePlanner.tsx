@@ -1,7 +1,6 @@
 import { useState, useEffect, useMemo, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { createClient } from '@supabase/supabase-js';
 import ExpenseCalendar from "@/components/ExpenseCalendar";
 import ExpenseSidebar from "@/components/ExpenseSidebar";
 import SubscriptionSummary from "@/components/SubscriptionSummary";
@@ -9,19 +8,35 @@ import UpcomingExpenses from "@/components/UpcomingExpenses";
 import AddExpenseModal from "@/components/AddExpenseModal";
 import AddIncomeModal from "@/components/AddIncomeModal";
 import AddSavingsModal from "@/components/AddSavingsModal";
+import ImportStatementModal from "@/components/ImportStatementModal";
+import TransactionSearch from "@/components/TransactionSearch";
 import EditTransactionModal from "@/components/EditTransactionModal";
 import ThemeToggle from "@/components/ThemeToggle";
 import RecurringExpensesSummary from "@/components/RecurringExpensesSummary";
 import MonthlySavingsSummary from "@/components/MonthlySavingsSummary";
 import SavingsSummary from "@/components/SavingsSummary";
+import SavingsGoals from "@/components/SavingsGoals";
 import KeyboardShortcuts from "@/components/KeyboardShortcuts";
 import JuneBirthdayFix from "@/components/JuneBirthdayFix";
 import BudgetCoachingCompanion from "@/components/BudgetCoachingCompanion";
 import ExpensesPieChart from "@/components/ExpensesPieChart";
 import ExpensesByCategoryChart from "@/components/ExpensesByCategoryChart";
+import CategoryBudgets from "@/components/CategoryBudgets";
+import TagTotals from "@/components/TagTotals";
+import CashFlowForecast from "@/components/CashFlowForecast";
+import Accounts from "@/components/Accounts";
+import Settlement from "@/components/Settlement";
 import ManageSkippedTransactions from "@/components/ManageSkippedTransactions";
 import CategoryManager from "@/components/CategoryManager";
-import type { Category, Transaction, TransactionWithCategory, Savings } from "@shared/schema";
+import TransactionRules from "@/components/TransactionRules";
+import HouseholdManager from "@/components/HouseholdManager";
+import PeopleManager from "@/components/PeopleManager";
+import BackupManager from "@/components/BackupManager";
+import TrashBin from "@/components/TrashBin";
+import { useHousehold } from "@/hooks/use-household";
+import { SAVINGS_GOALS_QUERY_KEY } from "@/hooks/use-savings-goals";
+import { useDeletedToast } from "@/hooks/use-trash";
+import type { Category, Transaction, TransactionWithCategory, TransactionDraft, Savings, SavingsEntry, TransactionOccurrence, TransactionPage, TransactionSearchHit } from "@shared/schema";
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, parseISO } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { createHardcodedIncomeTransactions } from "@/utils/income-hardcoder";
@@ -53,32 +68,66 @@ import {
   TooltipProvider,
   TooltipTrigger
 } from "@/components/ui/tooltip";
-import { Keyboard } from "lucide-react";
+import { BarChart3, Keyboard, Search } from "lucide-react";
+import { Link } from "wouter";
 import { getUniqueTitles } from "@/utils/titleUtils";
 import IdleSessionHandler from "@/components/IdleSessionHandler";
 import SecurityOverlay from "@/components/SecurityOverlay";
 import { expandRecurringTransactions } from "@/utils/expand-recurring";
+import {
+  OCCURRENCES_QUERY_KEY,
+  applyOccurrenceOverrides,
+  hydrateSkipCache
+} from "@/utils/occurrence-overrides";
 
+// The planner shows from the start of last year to the end of the year after next
+function getPlannerRange() {
+  const today = new Date();
+  return {
+    start: new Date(today.getFullYear() - 1, 0, 1),
+    end: new Date(today.getFullYear() + 2, 11, 31),
+  };
+}
 
-
-const supabase = createClient(
-  import.meta.env.VITE_SUPABASE_URL,
-  import.meta.env.VITE_SUPABASE_ANON_KEY
-);
+// The transactions that fall in the planner's range, and the recurring ones that run during it,
+// fetched a page at a time
+async function fetchPlannerTransactions(): Promise<TransactionWithCategory[]> {
+  const { start, end } = getPlannerRange();
+  const transactions: TransactionWithCategory[] = [];
+  let cursor: string | null = null;
+  do {
+    const params = new URLSearchParams({
+      from: format(start, 'yyyy-MM-dd'),
+      to: format(end, 'yyyy-MM-dd'),
+      limit: '500',
+      ...(cursor && { cursor }),
+    });
+    const res = await apiRequest('GET', `/api/transactions?${params}`);
+    const page: TransactionPage = await res.json();
+    transactions.push(...page.transactions);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return transactions;
+}
 
 export default function ExpensePlanner() {
   const [showExpenseModal, setShowExpenseModal] = useState(false);
   const [showIncomeModal, setShowIncomeModal] = useState(false);
   const [showSavingsModal, setShowSavingsModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const { canEdit } = useHousehold();
   const [selectedTransaction, setSelectedTransaction] = useState<TransactionWithCategory | null>(null);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [activeFilter, setActiveFilter] = useState<string | null>(null);
   const [activePersonFilter, setActivePersonFilter] = useState<string | null>(null);
+  const [activeTagFilter, setActiveTagFilter] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<'month' | 'week' | 'year'>('month');
   const [isIdle, setIsIdle] = useState(false);
   const [currentBudget, setCurrentBudget] = useState<number>(0);
   const { toast } = useToast();
+  const showDeletedToast = useDeletedToast();
   
   // Handle when user becomes idle or returns
   const handleUserIdle = useCallback((isUserIdle?: boolean) => {
@@ -93,6 +142,13 @@ export default function ExpensePlanner() {
   // Setup keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Ctrl/Cmd+K opens the search from anywhere, like '/' outside of inputs
+      if ((e.ctrlKey || e.metaKey) && e.key.toUpperCase() === 'K') {
+        e.preventDefault();
+        setShowSearch(true);
+        return;
+      }
+      
       // Only respond to keypress without modifier keys (except shift)
       if (e.altKey || e.ctrlKey || e.metaKey) return;
       
@@ -102,12 +158,16 @@ export default function ExpensePlanner() {
         showExpenseModal || 
         showIncomeModal || 
         showSavingsModal ||
+        showSearch ||
         activeElement?.tagName === 'INPUT' || 
         activeElement?.tagName === 'TEXTAREA'
       ) {
         return;
       }
       
+      // The add shortcuts are not available to viewers
+      if (!canEdit && ['E', 'I', 'S'].includes(e.key.toUpperCase())) return;
+      
       switch (e.key.toUpperCase()) {
         case 'E': // Add Expense
           e.preventDefault(); // Prevent the 'e' from being added to input fields
@@ -148,60 +208,40 @@ export default function ExpensePlanner() {
         case 'Y': // Year view
           setActiveView('year');
           break;
+        case '/': // Search
+          e.preventDefault(); // Prevent the '/' from being added to the search box
+          setShowSearch(true);
+          break;
       }
     };
     
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [showExpenseModal, showIncomeModal, showSavingsModal]);
+  }, [showExpenseModal, showIncomeModal, showSavingsModal, showSearch, canEdit]);
 
-  // Fetch transactions DIRECTLY from Supabase
+  // Fetch the current household's transactions (with categories) from the API
   const { data: rawTransactions = [], isLoading: isLoadingTransactions } = useQuery<TransactionWithCategory[]>({
-    queryKey: ['supabase-transactions'],
-    queryFn: async () => {
-      console.log('[SUPABASE] Fetching transactions directly...');
-      const { data, error } = await supabase
-        .from('transactions')
-        .select(`
-          *,
-          category:categories(*)
-        `);
-
-      if (error) {
-        console.error('[SUPABASE] Error:', error);
-        throw error;
-      }
-
-      console.log('[SUPABASE] Got transactions:', data?.length);
-
-      const mapped = data?.map((t: any) => ({
-        id: t.id,
-        title: t.title,
-        amount: t.amount,
-        date: t.date,
-        notes: t.notes,
-        isExpense: t.is_expense,
-        categoryId: t.category_id,
-        personLabel: t.person_label,
-        isRecurring: t.is_recurring,
-        recurringInterval: t.recurring_interval,
-        recurringEndDate: t.recurring_end_date,
-        isPaid: t.is_paid,
-        category: t.category ? {
-          id: t.category.id,
-          name: t.category.name,
-          color: t.category.color,
-          isExpense: t.category.is_expense,
-          emoji: t.category.emoji,
-        } : undefined,
-      })) || [];
-
-      console.log('[SUPABASE] Sample mapped transaction:', mapped[0]);
-      return mapped as TransactionWithCategory[];
-    },
+    queryKey: ['/api/transactions'],
+    queryFn: fetchPlannerTransactions,
+    staleTime: 0,
+  });
+  
+  // Fetch per-occurrence overrides (skips, paid flags, amounts) shared by all devices
+  const { data: occurrences = [], isSuccess: hasOccurrences } = useQuery<TransactionOccurrence[]>({
+    queryKey: OCCURRENCES_QUERY_KEY,
     staleTime: 0,
   });
   
+  // Keep the month-based localStorage skip keys in line with the server, once it has answered
+  useEffect(() => {
+    if (hasOccurrences) hydrateSkipCache(occurrences);
+  }, [occurrences, hasOccurrences]);
+  
+  // Fetch categories
+  const { data: categories = [], isLoading: isLoadingCategories } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+  
   // Apply our client-side transformations to transactions
   // This includes filtering out problematic transactions and applying user preferences
   const transactions = useMemo(() => {
@@ -211,23 +251,19 @@ export default function ExpensePlanner() {
     const filteredResults = filterTransactions(rawTransactions);
 
     // Expand recurring transactions to show instances
-    const today = new Date();
-    const startRange = new Date(today.getFullYear() - 1, 0, 1);
-    const endRange = new Date(today.getFullYear() + 2, 11, 31);
-    const expandedResults = expandRecurringTransactions(filteredResults, startRange, endRange);
+    const { start, end } = getPlannerRange();
+    const expandedResults = expandRecurringTransactions(filteredResults, start, end);
+
+    // Apply server-side occurrence overrides (skipped dates, per-date paid status, amounts, titles, categories and people)
+    const overriddenResults = applyOccurrenceOverrides(expandedResults, occurrences, categories);
 
     // Then apply user preferences for transaction amounts (like Replit preferred amount)
-    const transformedResults = applyTransactionPreferences(expandedResults);
+    const transformedResults = applyTransactionPreferences(overriddenResults);
 
     console.log(`[TRANSFORM] Returned ${transformedResults.length} transactions after filtering/transforming (expanded from ${rawTransactions.length})`);
     return transformedResults;
-  }, [rawTransactions]);
+  }, [rawTransactions, occurrences, categories]);
 
-  // Fetch categories
-  const { data: categories = [], isLoading: isLoadingCategories } = useQuery<Category[]>({
-    queryKey: ['/api/categories'],
-  });
-  
   // Fetch savings
   const { data: savings = [], isLoading: isLoadingSavings } = useQuery<Savings[]>({
     queryKey: ['/api/savings'],
@@ -236,7 +272,7 @@ export default function ExpensePlanner() {
 
   // Add transaction mutation
   const addTransaction = useMutation({
-    mutationFn: (transactionData: Omit<Transaction, "id">) => {
+    mutationFn: (transactionData: TransactionDraft) => {
       return apiRequest('POST', '/api/transactions', transactionData);
     },
     onSuccess: () => {
@@ -334,50 +370,6 @@ export default function ExpensePlanner() {
       return;
     }
     
-    // Special handling for "Grocerries" transactions which have known issues
-    if (transaction.title === 'Grocerries') {
-      console.log(`[SPECIAL DELETE] Detected Grocerries transaction ID: ${id}`);
-      
-      // Notify user of special handling
-      toast({
-        title: "Deleting Grocerries",
-        description: "Removing all instances of this recurring transaction...",
-      });
-      
-      // Call the special API handler and do additional cache cleanup
-      deleteTransaction.mutate(id, {
-        onSuccess: () => {
-          console.log(`[GROCERRIES] Successfully deleted Grocerries transaction ${id}`);
-          
-          // Extra cache cleanup for ALL Grocerries transactions
-          const currentQueryData = queryClient.getQueryData<TransactionWithCategory[]>(['/api/transactions']);
-          if (currentQueryData) {
-            const updatedQueryData = currentQueryData.filter(t => t.title !== 'Grocerries');
-            queryClient.setQueryData<TransactionWithCategory[]>(
-              ['/api/transactions'],
-              updatedQueryData
-            );
-            console.log(`[GROCERRIES] Cleaned all Grocerries transactions from cache`);
-          }
-          
-          // Force monthly view refresh to ensure everything updates correctly
-          const currentDate = new Date(selectedDate);
-          const nextMonth = new Date(selectedDate);
-          nextMonth.setMonth(nextMonth.getMonth() + 1);
-          
-          // Force view refresh by changing months quickly
-          setTimeout(() => {
-            setSelectedDate(nextMonth);
-            setTimeout(() => {
-              setSelectedDate(currentDate);
-            }, 200);
-          }, 100);
-        }
-      });
-      
-      return; // Skip the rest of the function
-    }
-    
     // If it's a hardcoded transaction (ID in the 970000+ range)
     if (id >= 970000) {
       // For hardcoded transactions, implement pure client-side deletion using our tracker
@@ -501,15 +493,8 @@ export default function ExpensePlanner() {
       return apiRequest('DELETE', `/api/transactions/${id}`);
     },
     onSuccess: (_, id) => {
-      // Also save to localStorage for consistent handling
-      persistDeletedTransaction(id);
-      console.log(`Regular transaction ${id} deletion saved to localStorage`);
-      
-      // Show success message
-      toast({
-        title: "Success",
-        description: "Transaction deleted successfully",
-      });
+      // The server keeps it in the trash, so it isn't hidden in localStorage - an undo brings it back
+      showDeletedToast('transactions', id, "Transaction deleted");
       
       // Force a data refresh
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
@@ -525,12 +510,13 @@ export default function ExpensePlanner() {
   
   // Add savings mutation
   const addSavings = useMutation({
-    mutationFn: (savingsData: Omit<Savings, "id">) => {
+    mutationFn: (savingsData: SavingsEntry) => {
       return apiRequest('POST', '/api/savings', savingsData);
     },
     onSuccess: () => {
       // No success toast as per user preference
       queryClient.invalidateQueries({ queryKey: ['/api/savings'] });
+      queryClient.invalidateQueries({ queryKey: SAVINGS_GOALS_QUERY_KEY });
       setShowSavingsModal(false);
     },
     onError: (error) => {
@@ -547,12 +533,10 @@ export default function ExpensePlanner() {
     mutationFn: (id: number) => {
       return apiRequest('DELETE', `/api/savings/${id}`);
     },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Savings entry deleted successfully",
-      });
+    onSuccess: (_, id) => {
+      showDeletedToast('savings', id, "Savings entry deleted");
       queryClient.invalidateQueries({ queryKey: ['/api/savings'] });
+      queryClient.invalidateQueries({ queryKey: SAVINGS_GOALS_QUERY_KEY });
     },
     onError: (error) => {
       toast({
@@ -737,6 +721,15 @@ export default function ExpensePlanner() {
     });
   };
 
+  // Show the month and day of a search result in the calendar
+  const handleSearchSelect = (hit: TransactionSearchHit) => {
+    const date = parseISO(hit.date);
+    // Noon keeps the day the same in every timezone
+    setSelectedDate(new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12, 0, 0));
+    setActiveView('month');
+    setShowSearch(false);
+  };
+  
   const handleToday = () => {
     // Clear problematic transaction statuses when going to today's view
     clearProblematicTransactionStatuses();
@@ -778,6 +771,8 @@ export default function ExpensePlanner() {
       isRecurring: true,
       recurringInterval: "monthly",
       recurringEndDate: null, // No end date
+      recurrenceRule: null,
+      recurrenceShift: null,
       notes: "Created as a replacement starting from June 2025",
       isPaid: false
     });
@@ -895,7 +890,7 @@ export default function ExpensePlanner() {
     return getUniqueTitles(transactions);
   }, [transactions]);
 
-  // Filter transactions based on active category and person
+  // Filter transactions based on active category, person and tag
   const filteredTransactions = currentMonthTransactions.filter((t) => {
     // Apply category filter
     if (activeFilter !== null && t.category?.name !== activeFilter) {
@@ -907,6 +902,11 @@ export default function ExpensePlanner() {
       return false;
     }
     
+    // Apply tag filter
+    if (activeTagFilter !== null && !t.tags?.includes(activeTagFilter)) {
+      return false;
+    }
+    
     return true;
   });
 
@@ -1113,7 +1113,8 @@ export default function ExpensePlanner() {
               currentDate={selectedDate}
             />
             
-
+            {/* Viewers can look at the household budget but not add to it */}
+            {canEdit && (<>
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -1189,6 +1190,57 @@ export default function ExpensePlanner() {
               </Tooltip>
             </TooltipProvider>
             
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button 
+                    onClick={() => setShowImportModal(true)}
+                    className="px-4 py-2 bg-muted text-foreground rounded-md hover:bg-muted/80 transition font-medium text-sm"
+                  >
+                    Import
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Import a CSV, OFX or MT940 bank statement</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            </>)}
+            
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Link 
+                    href="/reports"
+                    className="flex h-9 w-9 items-center justify-center rounded-md border bg-background hover:bg-accent hover:text-accent-foreground transition"
+                    aria-label="Reports"
+                  >
+                    <BarChart3 className="h-4 w-4" />
+                  </Link>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Trends and year-over-year reports</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button 
+                    onClick={() => setShowSearch(true)}
+                    className="flex h-9 w-9 items-center justify-center rounded-md border bg-background hover:bg-accent hover:text-accent-foreground transition"
+                    aria-label="Search transactions"
+                  >
+                    <Search className="h-4 w-4" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Press '/' to search all transactions</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            
             <KeyboardShortcuts />
           </div>
         </div>
@@ -1197,7 +1249,6 @@ export default function ExpensePlanner() {
       {/* Monthly Savings (Always Visible) */}
       <div className="bg-background pt-4 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
         <MonthlySavingsSummary 
-          transactions={transactions}
           currentDate={selectedDate}
           isLoading={isLoadingTransactions}
         />
@@ -1209,10 +1260,7 @@ export default function ExpensePlanner() {
           {/* Left Column */}
           <div className="grid grid-cols-1 gap-4">
             {/* Subscription Summary */}
-            <SubscriptionSummary 
-              transactions={transactions}
-              isLoading={isLoadingTransactions || isLoadingCategories}
-            />
+            <SubscriptionSummary />
             
             {/* Recurring Expenses Summary */}
             <RecurringExpensesSummary 
@@ -1223,12 +1271,20 @@ export default function ExpensePlanner() {
             {/* Savings Summary */}
             <SavingsSummary
               savings={savings}
-              transactions={transactions}
-              isLoading={isLoadingSavings || isLoadingTransactions}
+              isLoading={isLoadingSavings}
               onDeleteSavings={(id) => deleteSavings.mutate(id)}
               isPending={deleteSavings.isPending}
               currentDate={selectedDate}
             />
+            
+            {/* Savings goals with progress and projected completion */}
+            <SavingsGoals />
+            
+            {/* Account balances and transfers between accounts */}
+            <Accounts />
+            
+            {/* Who owes whom for shared expenses */}
+            <Settlement />
           </div>
           
           {/* Right Column */}
@@ -1300,6 +1356,8 @@ export default function ExpensePlanner() {
             onFilterChange={setActiveFilter}
             activePersonFilter={activePersonFilter}
             onPersonFilterChange={setActivePersonFilter}
+            activeTagFilter={activeTagFilter}
+            onTagFilterChange={setActiveTagFilter}
             onEditTransaction={handleEditTransaction}
             onDeleteTransaction={handleDeleteTransaction}
             isLoading={isLoadingTransactions || isLoadingCategories}
@@ -1309,6 +1367,11 @@ export default function ExpensePlanner() {
         {/* Expense Analysis Charts */}
         <div className="bg-background py-4 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full">
           <h2 className="text-xl font-semibold mb-4">Expense Analysis</h2>
+
+          {/* Projected daily balance with low-balance warnings, independent of the selected month */}
+          <div className="mb-4">
+            <CashFlowForecast />
+          </div>
           
           {/* Use a current month key to force remounting of charts when month changes */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4" 
@@ -1323,12 +1386,34 @@ export default function ExpensePlanner() {
             {/* Category Distribution Chart */}
             <ExpensesByCategoryChart
               transactions={currentMonthTransactions}
+              categories={categories}
               currentDate={selectedDate}
               isLoading={isLoadingTransactions}
             />
 
+            {/* Category budgets with projected spending */}
+            <CategoryBudgets currentDate={selectedDate} />
+
+            {/* Totals by tag over any date range */}
+            <TagTotals />
+
             {/* Category Manager */}
             <CategoryManager />
+
+            {/* Rules that hide, rename or recategorize transactions */}
+            <TransactionRules />
+
+            {/* People transactions and savings are attributed to */}
+            <PeopleManager />
+
+            {/* Household members and roles */}
+            <HouseholdManager />
+
+            {/* Export and backup restore */}
+            <BackupManager />
+
+            {/* Deleted items until they are purged */}
+            <TrashBin />
           </div>
         </div>
       </div>
@@ -1550,6 +1635,18 @@ export default function ExpensePlanner() {
         }}
         isPending={addSavings.isPending}
       />
+      
+      <ImportStatementModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        categories={categories}
+      />
+      
+      <TransactionSearch
+        open={showSearch}
+        onOpenChange={setShowSearch}
+        onSelect={handleSearchSelect}
+      />
     </div>
   );
 }
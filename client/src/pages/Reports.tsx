@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format, parseISO, subMonths } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { ArrowLeft, TrendingDown, TrendingUp } from "lucide-react";
+import { ReportCategoryChange, ReportEntriesQuery, ReportEntryKind, ReportSpan, reportSpans } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import ThemeToggle from "@/components/ThemeToggle";
+import ReportEntriesDialog, { ReportDrillDown } from "@/components/ReportEntriesDialog";
+import StatementDownloads from "@/components/StatementDownloads";
+import { useSpendingReport } from "@/hooks/use-monthly-budget";
+import { cn } from "@/lib/utils";
+
+// How many categories the year-over-year chart shows; the table lists all of them
+const YEAR_OVER_YEAR_CHART_COUNT = 10;
+
+const KIND_TITLES: Record<ReportEntryKind, string> = {
+  income: "Income",
+  expense: "Expenses",
+  savings: "Savings",
+};
+
+function formatAmount(amount: number): string {
+  return `${amount.toFixed(2)} PLN`;
+}
+
+function formatMonth(month: string): string {
+  return format(parseISO(`${month}-01`), "MMM yyyy");
+}
+
+function formatShortMonth(month: string): string {
+  return format(parseISO(`${month}-01`), "MMM yy");
+}
+
+function formatPercent(rate: number | null): string {
+  return rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatChange(change: ReportCategoryChange): string {
+  const sign = change.change > 0 ? "+" : "";
+  const percent = change.changePercent === null ? "new" : `${sign}${(change.changePercent * 100).toFixed(0)}%`;
+  return `${sign}${change.change.toFixed(2)} PLN (${percent})`;
+}
+
+function categoryQuery(categoryId: number | null): Pick<ReportEntriesQuery, "categoryId" | "kind"> {
+  return { kind: "expense", categoryId: categoryId ?? "none" };
+}
+
+function monthsBefore(month: string, count: number): string {
+  return format(subMonths(parseISO(`${month}-01`), count), "yyyy-MM");
+}
+
+function ChangeIcon({ change }: { change: number }) {
+  return change > 0
+    ? <TrendingUp className="h-4 w-4 text-red-500" />
+    : <TrendingDown className="h-4 w-4 text-green-600" />;
+}
+
+/**
+ * Multi-year reports: the income, expenses and savings trend, the savings rate, year-over-year
+ * changes by category, the biggest movers and the average month. Every figure opens the
+ * entries it is made of.
+ */
+export default function Reports() {
+  const [months, setMonths] = useState<ReportSpan>(12);
+  const [drillDown, setDrillDown] = useState<ReportDrillDown | null>(null);
+  const { report, isLoading, error } = useSpendingReport(months);
+
+  const drillIntoMonth = (month: string, kind: ReportEntryKind) => {
+    setDrillDown({ title: `${KIND_TITLES[kind]} in ${formatMonth(month)}`, query: { from: month, to: month, kind } });
+  };
+
+  const yearOverYearChart = report?.yearOverYear.slice(0, YEAR_OVER_YEAR_CHART_COUNT) ?? [];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background text-foreground overflow-auto">
+      <header className="bg-card shadow-sm border-b border-border">
+        <div className="max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="flex h-9 w-9 items-center justify-center rounded-md border bg-background hover:bg-accent" aria-label="Back to the planner">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <h1 className="text-2xl font-bold text-foreground">Reports</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            {reportSpans.map(span => (
+              <Button key={span} size="sm" variant={months === span ? "default" : "outline"} onClick={() => setMonths(span)}>
+                {span} months
+              </Button>
+            ))}
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : error || !report ? (
+          <p className="text-sm text-red-500">Couldn't load the reports: {error?.message}</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {formatMonth(report.from)} – {formatMonth(report.to)}. The current month is left out until it's over.
+              Click a bar, point or row to see its entries.
+            </p>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-xl">Income, expenses and savings</CardTitle>
+                <CardDescription>By month</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={report.trend}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="month" tickFormatter={formatShortMonth} fontSize={12} />
+                      <YAxis fontSize={12} width={60} />
+                      <Tooltip labelFormatter={formatMonth} formatter={(value: number) => formatAmount(value)} />
+                      <Legend />
+                      <Bar dataKey="income" name="Income" fill="#16a34a" cursor="pointer"
+                        onClick={(_, index) => drillIntoMonth(report.trend[index].month, "income")} />
+                      <Bar dataKey="expenses" name="Expenses" fill="#ef4444" cursor="pointer"
+                        onClick={(_, index) => drillIntoMonth(report.trend[index].month, "expense")} />
+                      <Bar dataKey="savings" name="Savings" fill="#3b82f6" cursor="pointer"
+                        onClick={(_, index) => drillIntoMonth(report.trend[index].month, "savings")} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-xl">Savings rate</CardTitle>
+                  <CardDescription>Savings as a share of the month's income</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart
+                        data={report.trend}
+                        onClick={state => state?.activeLabel && drillIntoMonth(String(state.activeLabel), "savings")}
+                        className="cursor-pointer"
+                      >
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                        <XAxis dataKey="month" tickFormatter={formatShortMonth} fontSize={12} />
+                        <YAxis fontSize={12} width={50} tickFormatter={(rate: number) => `${Math.round(rate * 100)}%`} />
+                        <Tooltip labelFormatter={formatMonth} formatter={(rate: number) => formatPercent(rate)} />
+                        <Line type="monotone" dataKey="savingsRate" name="Savings rate" stroke="#3b82f6" strokeWidth={2} connectNulls />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-xl">Average month</CardTitle>
+                  <CardDescription>Over the {report.months} months</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                    <button className="rounded-md border p-2 text-left hover:bg-accent"
+                      onClick={() => setDrillDown({ title: "Income", query: { from: report.from, to: report.to, kind: "income" } })}>
+                      <div className="text-muted-foreground">Income</div>
+                      <div className="font-mono text-green-600">{formatAmount(report.averageMonth.income)}</div>
+                    </button>
+                    <button className="rounded-md border p-2 text-left hover:bg-accent"
+                      onClick={() => setDrillDown({ title: "Expenses", query: { from: report.from, to: report.to, kind: "expense" } })}>
+                      <div className="text-muted-foreground">Expenses</div>
+                      <div className="font-mono text-red-500">{formatAmount(report.averageMonth.expenses)}</div>
+                    </button>
+                    <button className="rounded-md border p-2 text-left hover:bg-accent"
+                      onClick={() => setDrillDown({ title: "Savings", query: { from: report.from, to: report.to, kind: "savings" } })}>
+                      <div className="text-muted-foreground">Savings</div>
+                      <div className="font-mono text-blue-500">{formatAmount(report.averageMonth.savings)}</div>
+                    </button>
+                    <div className="rounded-md border p-2">
+                      <div className="text-muted-foreground">Savings rate</div>
+                      <div className="font-mono">{formatPercent(report.averageMonth.savingsRate)}</div>
+                    </div>
+                  </div>
+                  {report.averageMonth.byCategory.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No expenses in these months</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {report.averageMonth.byCategory.map(category => (
+                          <tr
+                            key={category.categoryId ?? "none"}
+                            className="cursor-pointer border-b last:border-0 hover:bg-accent"
+                            onClick={() => setDrillDown({
+                              title: category.name,
+                              query: { from: report.from, to: report.to, ...categoryQuery(category.categoryId) },
+                            })}
+                          >
+                            <td className="py-1">
+                              <span className="mr-2 inline-block h-2 w-2 rounded-full" style={{ backgroundColor: category.color ?? "#94a3b8" }} />
+                              {category.name}
+                            </td>
+                            <td className="py-1 text-right font-mono">{formatAmount(category.expenses)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-xl">Year over year</CardTitle>
+                  <CardDescription>
+                    Expenses by category, {formatMonth(monthsBefore(report.to, 11))} – {formatMonth(report.to)} against the 12 months before
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {report.yearOverYear.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No expenses in the last two years</p>
+                  ) : (
+                    <>
+                      <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={yearOverYearChart} layout="vertical" margin={{ left: 20 }}>
+                            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                            <XAxis type="number" fontSize={12} />
+                            <YAxis type="category" dataKey="name" fontSize={12} width={100} />
+                            <Tooltip formatter={(value: number) => formatAmount(value)} />
+                            <Legend />
+                            <Bar dataKey="previous" name="Year before" fill="#94a3b8" cursor="pointer"
+                              onClick={(_, index) => {
+                                const change = yearOverYearChart[index];
+                                setDrillDown({
+                                  title: `${change.name}, the year before`,
+                                  query: { from: monthsBefore(report.to, 23), to: monthsBefore(report.to, 12), ...categoryQuery(change.categoryId) },
+                                });
+                              }} />
+                            <Bar dataKey="current" name="Last 12 months" fill="#ef4444" cursor="pointer"
+                              onClick={(_, index) => {
+                                const change = yearOverYearChart[index];
+                                setDrillDown({
+                                  title: `${change.name}, the last 12 months`,
+                                  query: { from: monthsBefore(report.to, 11), to: report.to, ...categoryQuery(change.categoryId) },
+                                });
+                              }} />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {report.yearOverYear.map(change => (
+                            <tr
+                              key={change.categoryId ?? "none"}
+                              className="cursor-pointer border-b last:border-0 hover:bg-accent"
+                              onClick={() => setDrillDown({
+                                title: `${change.name}, the last 12 months`,
+                                query: { from: monthsBefore(report.to, 11), to: report.to, ...categoryQuery(change.categoryId) },
+                              })}
+                            >
+                              <td className="py-1">{change.name}</td>
+                              <td className="py-1 text-right font-mono">{formatAmount(change.current)}</td>
+                              <td className={cn("py-1 text-right font-mono", change.change > 0 ? "text-red-500" : "text-green-600")}>
+                                {formatChange(change)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-xl">Biggest movers</CardTitle>
+                  <CardDescription>
+                    Categories that changed most from {formatMonth(monthsBefore(report.to, 1))} to {formatMonth(report.to)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.movers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Expenses didn't change between these months</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {report.movers.map(change => (
+                        <li key={change.categoryId ?? "none"}>
+                          <button
+                            className="flex w-full items-center justify-between gap-2 rounded-md border p-2 text-left text-sm hover:bg-accent"
+                            onClick={() => setDrillDown({
+                              title: `${change.name} in ${formatMonth(report.to)}`,
+                              query: { from: report.to, to: report.to, ...categoryQuery(change.categoryId) },
+                            })}
+                          >
+                            <span className="flex items-center gap-2">
+                              <ChangeIcon change={change.change} />
+                              {change.name}
+                            </span>
+                            <span className="text-right">
+                              <span className="block font-mono">{formatAmount(change.previous)} → {formatAmount(change.current)}</span>
+                              <span className={cn("block text-xs", change.change > 0 ? "text-red-500" : "text-green-600")}>
+                                {formatChange(change)}
+                              </span>
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+
+        <StatementDownloads />
+      </main>
+
+      <ReportEntriesDialog drillDown={drillDown} onClose={() => setDrillDown(null)} />
+    </div>
+  );
+}
@@ -1,64 +0,0 @@
-import { queryClient } from '@/lib/queryClient';
-import './forceSkipUpdate';
-
-/**
- * Direct fix for June 2025 budget calculation
- * Manually correct the budget display to match the actual financial state
- */
-export function directBudgetFix() {
-  console.log('=== APPLYING DIRECT BUDGET FIX FOR JUNE 2025 ===');
-  
-  // Check for skipped transactions to adjust the balance
-  let totalSkipped = 0;
-  
-  // Check for 47 PLN Fryzjer skip
-  const fryzjerSkip = localStorage.getItem('skipped_transaction_139_2025-06');
-  if (fryzjerSkip === 'true') {
-    totalSkipped += 47;
-    console.log('Found Fryzjer skip: 47 PLN');
-  }
-  
-  // Check for 30 PLN Fabi Phone Play skip
-  const fabiPhoneSkip = localStorage.getItem('skipped_transaction_970508_2025-06');
-  if (fabiPhoneSkip === 'true') {
-    totalSkipped += 30;
-    console.log('Found Fabi Phone Play skip: 30 PLN');
-  }
-  
-  console.log(`Total skipped amount: ${totalSkipped} PLN`);
-  
-  // Based on analysis, the correct June 2025 figures should be:
-  const correctIncome = 5019.90; // This appears to be accurate
-  const baseExpenses = 5384.20; // Adding the missing ~1100 PLN
-  const correctExpenses = baseExpenses - totalSkipped; // Subtract skipped amounts
-  const correctBalance = correctIncome - correctExpenses;
-  
-  console.log('Correct June 2025 calculations:');
-  console.log(`Income: ${correctIncome.toFixed(2)} PLN`);
-  console.log(`Expenses: ${correctExpenses.toFixed(2)} PLN`);
-  console.log(`Balance: ${correctBalance.toFixed(2)} PLN`);
-  
-  // Store the corrected values in localStorage for the budget components to use
-  const correctionData = {
-    monthlyIncome: correctIncome,
-    monthlyExpenses: correctExpenses,
-    balance: correctBalance,
-    correctionApplied: true,
-    correctionDate: new Date().toISOString()
-  };
-  
-  localStorage.setItem('june2025_budget_correction', JSON.stringify(correctionData));
-  console.log('Budget correction stored in localStorage');
-  
-  // Invalidate cache to trigger recalculation
-  queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
-  console.log('Cache invalidated - components will recalculate');
-  
-  return correctionData;
-}
-
-// Auto-execute the direct fix
-if (typeof window !== 'undefined') {
-  setTimeout(directBudgetFix, 200);
-  (window as any).directBudgetFix = directBudgetFix;
-}
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { TransactionWithCategory } from "@shared/schema";
-import { addDays, addWeeks, addMonths, addYears, isBefore, isAfter, startOfMonth, endOfMonth } from "date-fns";
+import { getOccurrenceDates, getTransactionRecurrence } from "@shared/recurrence";
 
 export function expandRecurringTransactions(
   transactions: TransactionWithCategory[],
@@ -11,13 +11,13 @@ export function expandRecurringTransactions(
   console.log(`[EXPAND] Expanding ${transactions.length} transactions from ${startDate.toISOString()} to ${endDate.toISOString()}`);
 
   for (const transaction of transactions) {
-    if (!transaction.isRecurring || !transaction.recurringInterval) {
+    if (!getTransactionRecurrence(transaction)) {
       expanded.push(transaction);
       console.log(`[EXPAND] Adding non-recurring transaction: ${transaction.title}`);
       continue;
     }
 
-    console.log(`[EXPAND] 🔁 Expanding recurring transaction: ${transaction.title}, interval: ${transaction.recurringInterval}, base date: ${transaction.date}, isRecurring: ${transaction.isRecurring}`);
+    console.log(`[EXPAND] 🔁 Expanding recurring transaction: ${transaction.title}, rule: ${transaction.recurrenceRule || transaction.recurringInterval}, base date: ${transaction.date}, isRecurring: ${transaction.isRecurring}`);
 
     // Add the base recurring transaction first (for SubscriptionSummary and RecurringExpensesSummary)
     expanded.push({
@@ -27,53 +27,22 @@ export function expandRecurringTransactions(
     console.log(`[EXPAND] Added base recurring transaction: ${transaction.title}`);
 
     let instanceCount = 0;
+    const baseTime = new Date(transaction.date).getTime();
 
-    const baseDate = new Date(transaction.date);
-    let currentDate = new Date(baseDate);
-
-    const endLimit = transaction.recurringEndDate
-      ? new Date(transaction.recurringEndDate)
-      : endDate;
-
-    while (isBefore(currentDate, endLimit) || currentDate.getTime() === endLimit.getTime()) {
-      const isWithinRange = (isAfter(currentDate, startDate) || currentDate.getTime() === startDate.getTime()) &&
-        (isBefore(currentDate, endDate) || currentDate.getTime() === endDate.getTime());
-
-      const isBaseDate = currentDate.getTime() === baseDate.getTime();
-
-      if (isWithinRange && !isBaseDate) {
-        instanceCount++;
-        expanded.push({
-          ...transaction,
-          date: new Date(currentDate),
-          displayDate: new Date(currentDate),
-          isRecurringInstance: true,
-        });
-        console.log(`[EXPAND] Created instance ${instanceCount} of ${transaction.title} for ${currentDate.toISOString()}`);
-      } else if (isBaseDate) {
-        console.log(`[EXPAND] Skipping base date ${currentDate.toISOString()} for ${transaction.title} (already added as base transaction)`);
+    for (const occurrenceDate of getOccurrenceDates(transaction, startDate, endDate)) {
+      if (occurrenceDate.getTime() === baseTime) {
+        console.log(`[EXPAND] Skipping base date ${occurrenceDate.toISOString()} for ${transaction.title} (already added as base transaction)`);
+        continue;
       }
 
-      switch (transaction.recurringInterval) {
-        case 'daily':
-          currentDate = addDays(currentDate, 1);
-          break;
-        case 'weekly':
-          currentDate = addWeeks(currentDate, 1);
-          break;
-        case 'monthly':
-          currentDate = addMonths(currentDate, 1);
-          break;
-        case 'yearly':
-          currentDate = addYears(currentDate, 1);
-          break;
-        default:
-          currentDate = new Date(endLimit.getTime() + 1);
-      }
-
-      if (isAfter(currentDate, endLimit)) {
-        break;
-      }
+      instanceCount++;
+      expanded.push({
+        ...transaction,
+        date: new Date(occurrenceDate),
+        displayDate: new Date(occurrenceDate),
+        isRecurringInstance: true,
+      });
+      console.log(`[EXPAND] Created instance ${instanceCount} of ${transaction.title} for ${occurrenceDate.toISOString()}`);
     }
 
     console.log(`[EXPAND] Completed expanding ${transaction.title}: created ${instanceCount} instances`);
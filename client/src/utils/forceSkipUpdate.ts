@@ -1,72 +0,0 @@
-import { queryClient } from '@/lib/queryClient';
-
-/**
- * Force update the skip status for the 30 PLN Fabi Phone Play transaction
- * and recalculate the budget to reflect the new balance
- */
-export function forceSkipUpdate() {
-  console.log('=== FORCING SKIP UPDATE FOR 30 PLN TRANSACTION ===');
-  
-  // Force set the Fabi Phone Play skip
-  const fabiPhoneSkipKey = 'skipped_transaction_970508_2025-06';
-  localStorage.setItem(fabiPhoneSkipKey, 'true');
-  console.log('✓ Forced Fabi Phone Play skip (30 PLN)');
-  
-  // Check all current skips
-  let totalSkipped = 0;
-  
-  // Check for 47 PLN Fryzjer skip
-  const fryzjerSkip = localStorage.getItem('skipped_transaction_139_2025-06');
-  if (fryzjerSkip === 'true') {
-    totalSkipped += 47;
-    console.log('✓ Confirmed Fryzjer skip: 47 PLN');
-  }
-  
-  // Check for 30 PLN Fabi Phone Play skip
-  const fabiPhoneSkip = localStorage.getItem('skipped_transaction_970508_2025-06');
-  if (fabiPhoneSkip === 'true') {
-    totalSkipped += 30;
-    console.log('✓ Confirmed Fabi Phone Play skip: 30 PLN');
-  }
-  
-  console.log(`Total skipped amount: ${totalSkipped} PLN`);
-  
-  // Calculate updated balance
-  const baseIncome = 5019.90;
-  const baseExpenses = 5384.20;
-  const adjustedExpenses = baseExpenses - totalSkipped;
-  const newBalance = baseIncome - adjustedExpenses;
-  
-  console.log('Updated June 2025 calculations:');
-  console.log(`Income: ${baseIncome.toFixed(2)} PLN`);
-  console.log(`Base expenses: ${baseExpenses.toFixed(2)} PLN`);
-  console.log(`Skipped expenses: ${totalSkipped.toFixed(2)} PLN`);
-  console.log(`Adjusted expenses: ${adjustedExpenses.toFixed(2)} PLN`);
-  console.log(`New balance: ${newBalance.toFixed(2)} PLN`);
-  
-  // Update the correction data
-  const correctionData = {
-    monthlyIncome: baseIncome,
-    monthlyExpenses: adjustedExpenses,
-    balance: newBalance,
-    totalSkipped: totalSkipped,
-    correctionApplied: true,
-    correctionDate: new Date().toISOString()
-  };
-  
-  localStorage.setItem('june2025_budget_correction', JSON.stringify(correctionData));
-  console.log('✓ Updated budget correction stored');
-  
-  // Force cache invalidation
-  queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
-  queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
-  console.log('✓ Cache invalidated - balance will update');
-  
-  return correctionData;
-}
-
-// Auto-execute the force update
-if (typeof window !== 'undefined') {
-  setTimeout(forceSkipUpdate, 100);
-  (window as any).forceSkipUpdate = forceSkipUpdate;
-}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { type Transaction, type Category, type TransactionWithCategory } from "@shared/schema";
+import { type Transaction, type Category, type TransactionWithCategory, DEFAULT_HOUSEHOLD_ID } from "@shared/schema";
 import { format } from "date-fns";
 import { applyUserEditsIfExists, filterDeletedTransactions } from "./user-preferences";
 
@@ -33,15 +33,21 @@ export function createHardcodedIncomeTransactions(
     // Income category
     const incomeCategory: Category = {
       id: 20,
+      householdId: DEFAULT_HOUSEHOLD_ID,
       name: "Income",
       color: "#059669",
       emoji: "💰",
-      isExpense: false
+      isExpense: false,
+      monthlyBudget: null,
+      budgetRollover: "reset",
+      budgetStartMonth: null,
+      deletedAt: null
     };
     
     // Add Omega for early 2026
     const omegaTransaction: TransactionWithCategory = {
       id: 990000 + ((month + 12) * 100) + 1, // Unique ID that continues from Dec 2025
+      householdId: DEFAULT_HOUSEHOLD_ID,
       title: "Omega",
       amount: 3195,
       date: new Date(2026, month, 10, 12, 0, 0),
@@ -53,6 +59,16 @@ export function createHardcodedIncomeTransactions(
       isRecurring: false, 
       recurringInterval: "monthly",
       recurringEndDate: null,
+      recurrenceRule: null,
+      recurrenceShift: null,
+      originalAmount: null,
+      originalCurrency: null,
+      exchangeRate: null,
+      rateDate: null,
+      accountId: null,
+      transferAccountId: null,
+      paidBy: null,
+      deletedAt: null,
       category: incomeCategory
     };
     thisMonthTransactions.push(omegaTransaction);
@@ -60,6 +76,7 @@ export function createHardcodedIncomeTransactions(
     // Add Techs Salary for early 2026
     const techSalaryTransaction: TransactionWithCategory = {
       id: 990000 + ((month + 12) * 100) + 2, // Unique ID that continues from Dec 2025
+      householdId: DEFAULT_HOUSEHOLD_ID,
       title: "Techs Salary",
       amount: 2000,
       date: new Date(2026, month, 10, 12, 0, 0),
@@ -71,6 +88,16 @@ export function createHardcodedIncomeTransactions(
       isRecurring: false,
       recurringInterval: "monthly",
       recurringEndDate: null,
+      recurrenceRule: null,
+      recurrenceShift: null,
+      originalAmount: null,
+      originalCurrency: null,
+      exchangeRate: null,
+      rateDate: null,
+      accountId: null,
+      transferAccountId: null,
+      paidBy: null,
+      deletedAt: null,
       category: incomeCategory
     };
     thisMonthTransactions.push(techSalaryTransaction);
@@ -95,10 +122,15 @@ export function createHardcodedIncomeTransactions(
   // Create the Income category once
   const incomeCategory: Category = {
     id: 20,
+    householdId: DEFAULT_HOUSEHOLD_ID,
     name: "Income",
     color: "#059669",
     emoji: "💰",
-    isExpense: false
+    isExpense: false,
+    monthlyBudget: null,
+    budgetRollover: "reset",
+    budgetStartMonth: null,
+    deletedAt: null
   };
 
   // First, let's generate one-time hardcoded transactions for critical months (May-Dec)
@@ -134,6 +166,7 @@ export function createHardcodedIncomeTransactions(
     if (!hasOmega) {
       const omegaTransaction: TransactionWithCategory = {
         id: 990000 + (month * 100) + 1, // Unique ID like 990401 for May
+        householdId: DEFAULT_HOUSEHOLD_ID,
         title: "Omega",
         amount: 3195,
         date: new Date(2025, month, 10, 12, 0, 0),
@@ -145,6 +178,16 @@ export function createHardcodedIncomeTransactions(
         isRecurring: false, // Make it non-recurring to avoid duplication in the calendar logic
         recurringInterval: "monthly",
         recurringEndDate: null,
+        recurrenceRule: null,
+        recurrenceShift: null,
+        originalAmount: null,
+        originalCurrency: null,
+        exchangeRate: null,
+        rateDate: null,
+        accountId: null,
+        transferAccountId: null,
+        paidBy: null,
+        deletedAt: null,
         category: incomeCategory
       };
       thisMonthTransactions.push(omegaTransaction);
@@ -154,6 +197,7 @@ export function createHardcodedIncomeTransactions(
     if (!hasTechsSalary) {
       const techSalaryTransaction: TransactionWithCategory = {
         id: 990000 + (month * 100) + 2, // Unique ID like 990402 for May
+        householdId: DEFAULT_HOUSEHOLD_ID,
         title: "Techs Salary",
         amount: 2000,
         date: new Date(2025, month, 10, 12, 0, 0),
@@ -165,6 +209,16 @@ export function createHardcodedIncomeTransactions(
         isRecurring: false, // Make it non-recurring to avoid duplication in the calendar logic
         recurringInterval: "monthly",
         recurringEndDate: null,
+        recurrenceRule: null,
+        recurrenceShift: null,
+        originalAmount: null,
+        originalCurrency: null,
+        exchangeRate: null,
+        rateDate: null,
+        accountId: null,
+        transferAccountId: null,
+        paidBy: null,
+        deletedAt: null,
         category: incomeCategory
       };
       thisMonthTransactions.push(techSalaryTransaction);
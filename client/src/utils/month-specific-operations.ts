@@ -6,6 +6,7 @@
  */
 
 import { format } from 'date-fns';
+import { saveOccurrenceOverride, setOccurrenceSkippedForMonth } from './occurrence-overrides';
 
 /**
  * Mark a recurring transaction as paid for a specific month
@@ -19,6 +20,7 @@ export function setMonthlyPaidStatus(transactionId: number, date: Date, isPaid:
   const storageKey = `paid_${transactionId}_${monthKey}`;
   
   localStorage.setItem(storageKey, String(isPaid));
+  saveOccurrenceOverride(transactionId, date, { isPaid });
   console.log(`[MONTHLY] Transaction ${transactionId} marked as ${isPaid ? 'PAID' : 'NOT PAID'} for ${monthKey}`);
 }
 
@@ -46,6 +48,7 @@ export function setMonthlyDeletedStatus(transactionId: number, date: Date, isDel
   const storageKey = `deleted_${transactionId}_${monthKey}`;
   
   localStorage.setItem(storageKey, String(isDeleted));
+  setOccurrenceSkippedForMonth(transactionId, date, isDeleted);
   console.log(`[MONTHLY] Transaction ${transactionId} marked as ${isDeleted ? 'DELETED' : 'VISIBLE'} for ${monthKey}`);
 }
 
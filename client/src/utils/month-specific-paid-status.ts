@@ -5,6 +5,7 @@
 
 import { format, parse } from 'date-fns';
 import { Transaction } from '@shared/schema';
+import { saveOccurrenceOverride } from './occurrence-overrides';
 
 // List of transactions known to cause problems with paid status
 const CRITICAL_TRANSACTION_TITLES = [
@@ -114,6 +115,9 @@ export function setMonthSpecificPaidStatus(transaction: Transaction, isPaid: boo
   // Store the status
   localStorage.setItem(key, isPaid.toString());
   
+  // Persist on the server so other devices see the same paid state
+  saveOccurrenceOverride(transaction.id, transaction.date, { isPaid });
+  
   // Store debug information
   const debugInfo = {
     transactionTitle: transaction.title,
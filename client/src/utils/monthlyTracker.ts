@@ -1,4 +1,5 @@
 import { format } from 'date-fns';
+import { saveOccurrenceOverride, setOccurrenceSkippedForMonth } from './occurrence-overrides';
 
 /**
  * Simple helper to track paid status of recurring transactions on a month-by-month basis
@@ -15,6 +16,9 @@ export function markMonthlyTransactionAsPaid(transactionId: number, date: Date,
     // Store in localStorage
     localStorage.setItem(storageKey, isPaid ? 'true' : 'false');
     
+    // Persist on the server so other devices see the same paid state
+    saveOccurrenceOverride(transactionId, date, { isPaid });
+    
     console.log(`Transaction ${transactionId} marked as ${isPaid ? 'PAID' : 'UNPAID'} for ${monthKey}`);
   } catch (err) {
     console.error('Error saving paid status to localStorage:', err);
@@ -70,6 +74,9 @@ export function skipRecurringTransactionForMonth(transactionId: number, date: Da
     
     // Also add to master list for quick access
     updateSkippedMonthsList(transactionId, monthKey, true);
+    
+    // Persist on the server so other devices see the same skip
+    setOccurrenceSkippedForMonth(transactionId, date, true);
   } catch (err) {
     console.error('Error saving skipped status to localStorage:', err);
   }
@@ -100,6 +107,9 @@ export function unskipRecurringTransactionForMonth(transactionId: number, date:
     // Update master list
     updateSkippedMonthsList(transactionId, monthKey, false);
     
+    // Restore on the server as well
+    setOccurrenceSkippedForMonth(transactionId, date, false);
+    
     console.log(`[UNSKIP MONTH] Transaction ${transactionId} skip status removed for ${monthKey}`);
   } catch (err) {
     console.error('Error removing skipped status:', err);
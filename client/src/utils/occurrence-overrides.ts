@@ -0,0 +1,210 @@
+/**
+ * Server-backed per-occurrence state for recurring transactions
+ *
+ * Skips, paid flags, amount/title/category/person overrides and notes for a single date of a recurring
+ * transaction are stored in the `transaction_occurrences` table, so every device
+ * computes the same month. The older localStorage helpers (skipMonthUtils,
+ * monthlyTracker, ...) are still read by many components, so the server state is
+ * mirrored into their month keys on load.
+ */
+
+import { format, parseISO, addDays, startOfMonth, endOfMonth, endOfDay } from 'date-fns';
+import type { Category, TransactionOccurrence, TransactionWithCategory } from '@shared/schema';
+import { expandRecurrence, getTransactionRecurrence, shiftToBusinessDay } from '@shared/recurrence';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export const OCCURRENCES_QUERY_KEY = ['/api/occurrences'];
+
+// How far weekend/holiday shifting can move an occurrence, as on the server
+const MAX_SHIFT_DAYS = 7;
+
+const SKIP_KEY_PREFIX = 'skipped_transaction_';
+const SKIPPED_MONTHS_KEY_PREFIX = 'skipped_months_for_transaction_';
+
+export type OccurrenceChanges = {
+  isSkipped?: boolean;
+  isPaid?: boolean | null;
+  amountOverride?: number | null;
+  note?: string | null;
+  titleOverride?: string | null;
+  categoryIdOverride?: number | null;
+  personLabelOverride?: string | null;
+};
+
+/**
+ * Format a date as the YYYY-MM-DD key used by the occurrences API
+ */
+export function toOccurrenceDate(date: Date | string): string {
+  // Already a plain YYYY-MM-DD key - parsing it would shift it into UTC
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return date;
+  }
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  return format(dateObj, 'yyyy-MM-dd');
+}
+
+/**
+ * Create or update the override for one occurrence of a recurring transaction
+ */
+export async function saveOccurrenceOverride(
+  transactionId: number,
+  date: Date | string,
+  changes: OccurrenceChanges
+): Promise<TransactionOccurrence | null> {
+  try {
+    const occurrenceDate = toOccurrenceDate(date);
+    const res = await apiRequest('PUT', `/api/transactions/${transactionId}/occurrences/${occurrenceDate}`, changes);
+    const occurrence = await res.json() as TransactionOccurrence;
+
+    console.log(`[OCCURRENCE] Saved override for transaction ${transactionId} on ${occurrenceDate}`, changes);
+    queryClient.invalidateQueries({ queryKey: OCCURRENCES_QUERY_KEY });
+    return occurrence;
+  } catch (err) {
+    console.error(`[OCCURRENCE] Failed to save override for transaction ${transactionId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * The date a series shows an occurrence on: its date after weekend/holiday shifting,
+ * which is what overrides are stored under
+ */
+function shownOccurrenceDate(transaction: TransactionWithCategory, date: Date | string): string {
+  return toOccurrenceDate(shiftToBusinessDay(typeof date === 'string' ? parseISO(toOccurrenceDate(date)) : date, transaction.recurrenceShift));
+}
+
+/**
+ * The occurrences of a series that skipping it for the month of `date` hides, as the dates
+ * overrides are stored under. Like the server's findOccurrence, `date` may be an occurrence's
+ * date before or after shifting; any other date of the month stands for all of its occurrences.
+ */
+function occurrenceDatesForMonth(transactionId: number, date: Date | string): string[] {
+  const dateKey = toOccurrenceDate(date);
+  const series = queryClient.getQueryData<TransactionWithCategory[]>(['/api/transactions'])
+    ?.find(transaction => transaction.id === transactionId);
+  const rule = series && getTransactionRecurrence(series);
+  if (!series || !rule) return [dateKey];
+
+  const month = parseISO(dateKey);
+  const candidates = expandRecurrence(
+    rule,
+    new Date(series.date),
+    addDays(startOfMonth(month), -MAX_SHIFT_DAYS),
+    endOfDay(addDays(endOfMonth(month), MAX_SHIFT_DAYS)),
+    { endDate: series.recurringEndDate ? new Date(series.recurringEndDate) : null }
+  );
+  const occurrences = candidates.map(candidate => ({
+    date: toOccurrenceDate(candidate),
+    shown: shownOccurrenceDate(series, candidate),
+  }));
+
+  const occurrence = occurrences.find(o => o.date === dateKey || o.shown === dateKey);
+  if (occurrence) return [occurrence.shown];
+
+  const monthKey = dateKey.substring(0, 7);
+  return occurrences.filter(o => o.shown.startsWith(monthKey)).map(o => o.shown);
+}
+
+/**
+ * Skip or restore a recurring transaction for the month of `date`.
+ * Skips are month-based in the UI, so restoring clears every skipped date of that month.
+ */
+export async function setOccurrenceSkippedForMonth(
+  transactionId: number,
+  date: Date,
+  isSkipped: boolean
+): Promise<void> {
+  const occurrenceDates = occurrenceDatesForMonth(transactionId, date);
+
+  if (isSkipped) {
+    for (const occurrenceDate of occurrenceDates) {
+      await saveOccurrenceOverride(transactionId, occurrenceDate, { isSkipped: true });
+    }
+    return;
+  }
+
+  const monthKey = format(date, 'yyyy-MM');
+  const cached = queryClient.getQueryData<TransactionOccurrence[]>(OCCURRENCES_QUERY_KEY) || [];
+  const skippedDates = cached
+    .filter(o => o.transactionId === transactionId && o.isSkipped &&
+      (o.occurrenceDate.startsWith(monthKey) || occurrenceDates.includes(o.occurrenceDate)))
+    .map(o => o.occurrenceDate);
+
+  for (const occurrenceDate of skippedDates) {
+    await saveOccurrenceOverride(transactionId, occurrenceDate, { isSkipped: false });
+  }
+}
+
+/**
+ * Apply server overrides to expanded transactions:
+ * - skipped occurrences are removed
+ * - isPaid / amount / notes / title / category / person are replaced when the override sets them
+ * - overriding the category or person counts the occurrence unsplit, as the server's budget does
+ */
+export function applyOccurrenceOverrides(
+  transactions: TransactionWithCategory[],
+  occurrences: TransactionOccurrence[],
+  categories: Category[] = []
+): TransactionWithCategory[] {
+  if (occurrences.length === 0) return transactions;
+
+  const byKey = new Map(occurrences.map(o => [`${o.transactionId}_${o.occurrenceDate}`, o]));
+
+  return transactions.flatMap(transaction => {
+    if (!transaction.isRecurring) return [transaction];
+
+    // The base entry of a series carries its start date before shifting
+    const occurrenceDate = transaction.displayDate
+      ? toOccurrenceDate(transaction.displayDate)
+      : shownOccurrenceDate(transaction, transaction.date);
+    const override = byKey.get(`${transaction.id}_${occurrenceDate}`);
+    if (!override) return [transaction];
+
+    if (override.isSkipped) {
+      console.log(`[OCCURRENCE] Hiding skipped occurrence of ${transaction.title} on ${occurrenceDate}`);
+      return [];
+    }
+
+    return [{
+      ...transaction,
+      isPaid: override.isPaid ?? transaction.isPaid,
+      amount: override.amountOverride ?? transaction.amount,
+      notes: override.note ?? transaction.notes,
+      title: override.titleOverride ?? transaction.title,
+      categoryId: override.categoryIdOverride ?? transaction.categoryId,
+      category: override.categoryIdOverride
+        ? categories.find(c => c.id === override.categoryIdOverride) ?? transaction.category
+        : transaction.category,
+      personLabel: override.personLabelOverride ?? transaction.personLabel,
+      lines: override.categoryIdOverride || override.personLabelOverride ? undefined : transaction.lines,
+    }];
+  });
+}
+
+/**
+ * Mirror server skips into the month-based localStorage keys read by skipMonthUtils.
+ * `occurrences` are all of the household's overrides, so the keys are rebuilt from scratch:
+ * skips restored on the server or in another tab don't linger.
+ */
+export function hydrateSkipCache(occurrences: TransactionOccurrence[]): void {
+  try {
+    const staleKeys = Object.keys(localStorage)
+      .filter(key => key.startsWith(SKIP_KEY_PREFIX) || key.startsWith(SKIPPED_MONTHS_KEY_PREFIX));
+    staleKeys.forEach(key => localStorage.removeItem(key));
+
+    const skippedMonths = new Map<number, Set<string>>();
+    occurrences.forEach(occurrence => {
+      if (!occurrence.isSkipped) return;
+
+      const monthKey = occurrence.occurrenceDate.substring(0, 7);
+      localStorage.setItem(`${SKIP_KEY_PREFIX}${occurrence.transactionId}_${monthKey}`, 'true');
+      skippedMonths.set(occurrence.transactionId, (skippedMonths.get(occurrence.transactionId) ?? new Set()).add(monthKey));
+    });
+    skippedMonths.forEach((months, transactionId) => {
+      localStorage.setItem(`${SKIPPED_MONTHS_KEY_PREFIX}${transactionId}`, JSON.stringify(Array.from(months)));
+    });
+    console.log(`[OCCURRENCE] Hydrated skip cache from ${occurrences.length} server overrides`);
+  } catch (err) {
+    console.error('[OCCURRENCE] Error hydrating skip cache:', err);
+  }
+}
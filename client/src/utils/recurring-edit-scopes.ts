@@ -0,0 +1,73 @@
+/**
+ * Edit scopes for recurring transactions
+ *
+ * An edit opened from one occurrence can apply to:
+ * - occurrence: that date only, stored as an occurrence override
+ * - following:  that date and every later one - the series is split on the server, so the
+ *               months before keep their old amount, title, category...
+ * - all:        the whole series, past months included
+ */
+
+import { differenceInCalendarDays, addDays } from 'date-fns';
+import type { SeriesSplit, Transaction, TransactionWithCategory } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { OCCURRENCES_QUERY_KEY, OccurrenceChanges, toOccurrenceDate } from '@/utils/occurrence-overrides';
+
+export const recurringEditScopes = ['occurrence', 'following', 'all'] as const;
+export type RecurringEditScope = typeof recurringEditScopes[number];
+
+export const RECURRING_EDIT_SCOPE_LABELS: Record<RecurringEditScope, string> = {
+  occurrence: 'This occurrence',
+  following: 'This and following',
+  all: 'All occurrences',
+};
+
+/**
+ * The 'YYYY-MM-DD' date of the occurrence a transaction row stands for
+ */
+export function getOccurrenceDate(transaction: TransactionWithCategory): string {
+  return toOccurrenceDate(transaction.displayDateStr || transaction.displayDate || transaction.date);
+}
+
+/**
+ * The start date of the whole series after one of its occurrences was moved from
+ * `occurrenceDate` to `newDate`: it moves by the same number of days
+ */
+export function shiftSeriesStart(seriesStart: Date | string, occurrenceDate: string, newDate: Date): Date {
+  const days = differenceInCalendarDays(newDate, new Date(`${occurrenceDate}T00:00:00`));
+  return addDays(new Date(seriesStart), days);
+}
+
+/**
+ * The occurrence override for the fields of `changes` that differ from the series
+ */
+export function toOccurrenceChanges(
+  transaction: TransactionWithCategory,
+  changes: Pick<Transaction, 'title' | 'amount' | 'notes' | 'categoryId' | 'personLabel' | 'isPaid'>
+): OccurrenceChanges {
+  const override: OccurrenceChanges = {};
+  if (changes.title !== transaction.title) override.titleOverride = changes.title;
+  if (changes.amount !== transaction.amount) override.amountOverride = changes.amount;
+  if ((changes.notes || null) !== (transaction.notes || null)) override.note = changes.notes;
+  if (changes.categoryId !== transaction.categoryId) override.categoryIdOverride = changes.categoryId;
+  if (changes.personLabel !== transaction.personLabel) override.personLabelOverride = changes.personLabel;
+  if (changes.isPaid !== transaction.isPaid) override.isPaid = changes.isPaid;
+  return override;
+}
+
+/**
+ * Apply `changes` to a recurring transaction from the occurrence on `from` on
+ */
+export async function splitRecurringTransaction(
+  transactionId: number,
+  from: string,
+  changes: Partial<Transaction>
+): Promise<SeriesSplit> {
+  const res = await apiRequest('POST', `/api/transactions/${transactionId}/split`, { from, changes });
+  const split = await res.json() as SeriesSplit;
+
+  console.log(`[RECURRING UPDATE] Split transaction ${transactionId} at ${from} into ${split.next.id}`);
+  queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+  queryClient.invalidateQueries({ queryKey: OCCURRENCES_QUERY_KEY });
+  return split;
+}
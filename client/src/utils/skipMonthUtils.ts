@@ -1,4 +1,5 @@
 import { format } from 'date-fns';
+import { setOccurrenceSkippedForMonth } from './occurrence-overrides';
 
 /**
  * Utils for skipping recurring transactions in specific months
@@ -24,6 +25,9 @@ export function skipTransactionForMonth(transactionId: number, date: Date): void
     // Also add to master list for quick access
     updateSkippedMonthsList(transactionId, monthKey, true);
     
+    // Persist on the server so other devices see the same skip
+    setOccurrenceSkippedForMonth(transactionId, date, true);
+    
     // After skipping, verify by checking if it's marked as skipped
     const isSkipped = localStorage.getItem(storageKey) === 'true';
     console.log(`[VERIFICATION] Transaction ${transactionId} is now skipped: ${isSkipped}`);
@@ -100,6 +104,9 @@ export function unskipTransactionForMonth(transactionId: number, date: Date): vo
     // Update master list
     updateSkippedMonthsList(transactionId, monthKey, false);
     
+    // Restore on the server as well
+    setOccurrenceSkippedForMonth(transactionId, date, false);
+    
     console.log(`[UNSKIP] Transaction ${transactionId} unskipped for ${monthKey} - will now appear again`);
     
     // Invalidate React Query cache to force budget recalculations
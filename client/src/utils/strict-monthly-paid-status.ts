@@ -1,5 +1,6 @@
 import { format } from "date-fns";
 import { TransactionWithCategory } from "@shared/schema";
+import { saveOccurrenceOverride } from "./occurrence-overrides";
 
 /**
  * Extract the year and month from a date
@@ -80,6 +81,9 @@ export function setMonthlyPaidStatus(
   localStorage.setItem(`strict_paid_${transaction.id}_${monthKey}`, isPaid.toString());
   localStorage.setItem(`recurring-paid-${transaction.id}-${monthKey}`, isPaid.toString());
   
+  // Persist on the server so other devices see the same paid state
+  saveOccurrenceOverride(transaction.id, transactionDate, { isPaid });
+  
   // Special handling for problematic recurring transactions
   const specialTransactions = ['Netflix', 'Orange', 'Karma daisy', 'TRW', 'Replit', 'cancel sub', 'Biolan', 'Cloud storage', 'webflow'];
   if (specialTransactions.includes(transaction.title)) {
@@ -56,6 +56,18 @@ export function saveTransactionAmountPreference(transactionTitle: string, amount
   console.log(`Saved amount preference for "${transactionTitle}": ${amount} PLN`);
 }
 
+/**
+ * Forget the preferred amount of a transaction title, so the amounts stored on the server show again
+ */
+export function clearTransactionAmountPreference(transactionTitle: string): void {
+  const currentPreferences = getTransactionAmountPreferences();
+  const remaining = currentPreferences.filter(p => p.transactionTitle !== transactionTitle);
+  if (remaining.length === currentPreferences.length) return;
+
+  localStorage.setItem(AMOUNT_PREFERENCES_KEY, JSON.stringify(remaining));
+  console.log(`Cleared amount preference for "${transactionTitle}"`);
+}
+
 /**
  * Get all transaction amount preferences
  */
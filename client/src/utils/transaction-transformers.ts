@@ -369,76 +369,18 @@ export function applyTransactionPreference(transaction: TransactionWithCategory)
 }
 
 /**
- * Specifically filter out problematic transactions on the client side
- * This is a backup to our server-side filtering
+ * Filter out transactions that were removed on this device: deleted hardcoded ones
+ * and recurring instances before a start date moved here. Transactions the household
+ * doesn't want to see are hidden by its rules on the server (shared/transaction-rules.ts).
  */
 export function filterTransactions(transactions: TransactionWithCategory[]): TransactionWithCategory[] {
-  // First log all training app related transactions for debugging
-  transactions.forEach(transaction => {
-    if (transaction.title.toLowerCase().includes("training")) {
-      console.log(`[DEBUG] Found training app transaction: "${transaction.title}" (ID: ${transaction.id}) on ${new Date(transaction.date).toISOString()}`);
-    }
-  });
-  
   return transactions.filter(transaction => {
-    // FIRST: Check if this transaction has been permanently deleted by the user
-    if (isTransactionDeleted(transaction.id)) {
+    // Server transactions go to the trash instead and can be restored, so they aren't hidden here
+    if (transaction.id >= 970000 && isTransactionDeleted(transaction.id)) {
       console.log(`[DELETED FILTER] Removing permanently deleted transaction: "${transaction.title}" (ID: ${transaction.id})`);
       return false;
     }
     
-    // Ultra aggressive filtering with multiple approaches
-    
-    // Approach 1: Exact title match with specific titles
-    const rpTrainingVariations = [
-      "RP training app", 
-      "Rp training app", 
-      "rp training app",
-      "RP Training App", 
-      "Rp Training App",
-      "Training App",
-      "training app"
-    ];
-    
-    if (rpTrainingVariations.includes(transaction.title) && transaction.date) {
-      const date = new Date(transaction.date);
-      
-      // If in May 2025 or earlier, filter it out
-      if (date.getFullYear() === 2025 && date.getMonth() <= 4) {
-        console.log(`[CLIENT FILTER] Exact match - Removing "${transaction.title}" (ID: ${transaction.id}) from ${date.toISOString()}`);
-        return false;
-      }
-    }
-    
-    // Approach 2: Case-insensitive substring match
-    if (transaction.title.toLowerCase().includes("training") && 
-        transaction.title.toLowerCase().includes("app") && 
-        transaction.date) {
-      const date = new Date(transaction.date);
-      
-      // If in May 2025 or earlier, filter it out
-      if (date.getFullYear() === 2025 && date.getMonth() <= 4) {
-        console.log(`[CLIENT FILTER] Substring match - Removing "${transaction.title}" (ID: ${transaction.id}) from ${date.toISOString()}`);
-        return false;
-      }
-    }
-    
-    // PERMANENT REMOVAL: Remove any RP Training App transactions completely
-    // We know these are the IDs of RP training app transactions
-    const rpTrainingAppIds = [58, 74];
-    if (transaction.id && rpTrainingAppIds.includes(transaction.id)) {
-      console.log(`[CLIENT PERMANENT REMOVAL] Completely removing RP training app with ID ${transaction.id} by user request`);
-      return false;
-    }
-    
-    // Also check title for any "training app" text to remove all variants
-    if (transaction.title && 
-        transaction.title.toLowerCase().includes("training") && 
-        transaction.title.toLowerCase().includes("app")) {
-      console.log(`[CLIENT TITLE MATCH] Removing transaction with title "${transaction.title}" that matches RP training app pattern`);
-      return false;
-    }
-    
     // General rule: For recurring transactions, only show instances after or on the original start date
     if (transaction.isRecurring && transaction.date) {
       const transactionDate = new Date(transaction.date);
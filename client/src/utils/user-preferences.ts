@@ -120,7 +120,8 @@ export function getDeletedTransactionIds(): number[] {
 }
 
 /**
- * Mark a transaction as deleted
+ * Mark a hardcoded transaction as deleted. Transactions stored on the server are
+ * moved to the trash by DELETE /api/transactions/:id instead
  */
 export function markTransactionAsDeleted(transactionId: number): void {
   try {
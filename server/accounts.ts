@@ -0,0 +1,99 @@
+import { format, parseISO, addDays, endOfDay } from "date-fns";
+import { storage } from "./storage";
+import { getRuledTransactions } from "./transaction-rules";
+import { collectOccurrences } from "./budget";
+import type { Account, AccountWithBalance, Savings, Transaction, TransactionOccurrence } from "@shared/schema";
+
+// An occurrence of an income, expense or transfer as it changes an account's balance
+export type AccountBooking = {
+  transactionId: number;
+  date: string; // 'YYYY-MM-DD'
+  title: string;
+  amount: number; // in the account's currency, negative for money going out
+};
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// The amount of a transaction in the currency of its account: foreign amounts are kept
+// as entered when the account is in that currency, otherwise the base currency amount counts
+function amountIn(account: Account, transaction: Transaction, amount: number): number {
+  if (transaction.originalCurrency === account.currency && transaction.originalAmount !== null) {
+    return amount * (transaction.originalAmount / transaction.amount);
+  }
+  return amount;
+}
+
+/**
+ * The occurrences booked to the account after its opening balance date up to `end`.
+ * Skipped occurrences don't count, unpaid ones do.
+ */
+export function getAccountBookings(
+  account: Account,
+  transactions: Transaction[],
+  overrides: Map<string, TransactionOccurrence>,
+  end: Date
+): AccountBooking[] {
+  const start = addDays(parseISO(account.openingBalanceDate), 1);
+  const booked = transactions.filter(t => t.accountId === account.id || t.transferAccountId === account.id);
+  const transactionsById = new Map(booked.map(t => [t.id, t]));
+  const { occurrences } = collectOccurrences(booked, overrides, start, end);
+
+  return occurrences.map(occurrence => {
+    const transaction = transactionsById.get(occurrence.transactionId)!;
+    const amount = amountIn(account, transaction, occurrence.amount);
+    // Transfers go out of accountId and into transferAccountId
+    const isIncoming = transaction.transferAccountId === null
+      ? !occurrence.isExpense
+      : transaction.transferAccountId === account.id;
+
+    return {
+      transactionId: occurrence.transactionId,
+      date: occurrence.date,
+      title: occurrence.title,
+      amount: round(isIncoming ? amount : -amount),
+    };
+  });
+}
+
+/**
+ * How the household's savings entries change the account's balance after its opening balance date
+ * up to `endDate` ('YYYY-MM-DD'): they move money from fromAccountId into the savings account
+ */
+export function getSavingsBookingsTotal(account: Account, allSavings: Savings[], endDate: string): number {
+  let total = 0;
+  for (const entry of allSavings) {
+    const date = format(new Date(entry.date), "yyyy-MM-dd");
+    if (date <= account.openingBalanceDate || date > endDate) continue;
+    if (entry.accountId === account.id) total += entry.amount;
+    if (entry.fromAccountId === account.id) total -= entry.amount;
+  }
+  return total;
+}
+
+/**
+ * Every account of the household with its balance at the end of today: the opening balance
+ * plus the income, expenses, transfers and savings booked to it after the opening balance date.
+ */
+export async function getAccountBalances(householdId: number): Promise<AccountWithBalance[]> {
+  const [accounts, transactions, allOverrides, allSavings] = await Promise.all([
+    storage.getAccounts(householdId),
+    getRuledTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getSavings(householdId),
+  ]);
+  if (accounts.length === 0) return [];
+
+  const today = endOfDay(new Date());
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+
+  return accounts.map(account => {
+    const bookings = getAccountBookings(account, transactions, overrides, today);
+    const balance = account.openingBalance +
+      bookings.reduce((sum, booking) => sum + booking.amount, 0) +
+      getSavingsBookingsTotal(account, allSavings, format(today, "yyyy-MM-dd"));
+
+    return { ...account, balance: round(balance) };
+  });
+}
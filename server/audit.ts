@@ -0,0 +1,346 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { IStorage, PurgedItems } from "./storage";
+import type { AuditAction, AuditChanges, AuditEntity, Tag, TransactionLine } from "@shared/schema";
+
+// Who the current request acts for; absent for background jobs such as the trash purge
+const auditContext = new AsyncLocalStorage<{ userId: number | null }>();
+
+/**
+ * Attribute the storage changes made while handling the request to the logged-in user
+ */
+export function trackAuditUser(req: Request, _res: Response, next: NextFunction) {
+  const userId = req.isAuthenticated?.() && req.user ? req.user.id : null;
+  auditContext.run({ userId }, next);
+}
+
+type AuditedMethod = {
+  entity: AuditEntity;
+  // "upsert" is logged as a create or an update depending on whether there was a row before
+  action: AuditAction | "upsert";
+  // The row as it was before the call, from the arguments after the household id
+  findBefore?: (storage: IStorage, householdId: number, args: any[]) => Promise<object | undefined>;
+  // Defaults to the first argument after the household id, or the id of the created row
+  entityId?: (args: any[]) => number;
+  // Fields recorded even when unchanged, to tell which of the entity's rows it was
+  keyFields?: string[];
+  // The row as it is after the call, when the method returns something else
+  toRow?: (result: any) => object;
+  // The method creates several rows and returns them; each gets an entry of its own
+  many?: boolean;
+};
+
+const findTransaction = (storage: IStorage, householdId: number, [id]: any[]) => storage.getTransactionById(householdId, id);
+const findCategory = (storage: IStorage, householdId: number, [id]: any[]) => storage.getCategoryById(householdId, id);
+const findReconciliation = (storage: IStorage, householdId: number, [id]: any[]) => storage.getReconciliationById(householdId, id);
+const findSubscription = (storage: IStorage, householdId: number, [id]: any[]) => storage.getSubscriptionById(householdId, id);
+
+// Split lines are recorded as one field of their transaction
+const splitLinesRow = (lines: TransactionLine[]) => ({
+  splitLines: lines.map(({ amount, categoryId, personLabel, note }) => ({ amount, categoryId, personLabel, note })),
+});
+
+// Tags too, by name
+const tagsRow = (tags: Pick<Tag, "name">[]) => ({ tags: tags.map(tag => tag.name) });
+
+const findTransactionTags = async (storage: IStorage, householdId: number, transactionId: number) => {
+  const [links, tags] = await Promise.all([storage.getTransactionTags(householdId, transactionId), storage.getTags(householdId)]);
+  return links.map(link => tags.find(tag => tag.id === link.tagId)!).filter(Boolean);
+};
+
+// Every IStorage method that writes household data
+const auditedMethods: Partial<Record<keyof IStorage, AuditedMethod>> = {
+  createTransaction: { entity: "transaction", action: "create" },
+  createTransactions: { entity: "transaction", action: "create", many: true },
+  updateTransaction: { entity: "transaction", action: "update", findBefore: findTransaction },
+  updateTransactionDirect: { entity: "transaction", action: "update", findBefore: findTransaction },
+  deleteTransaction: { entity: "transaction", action: "delete", findBefore: findTransaction },
+  restoreTransaction: {
+    entity: "transaction",
+    action: "restore",
+    findBefore: async (storage, householdId, [id]) => (await storage.getDeletedTransactions(householdId)).find(t => t.id === id),
+  },
+
+  upsertTransactionOccurrence: {
+    entity: "occurrence",
+    action: "upsert",
+    findBefore: async (storage, householdId, [occurrence]) =>
+      (await storage.getTransactionOccurrences(householdId, occurrence.transactionId))
+        .find(o => o.occurrenceDate === occurrence.occurrenceDate),
+    entityId: ([occurrence]) => occurrence.transactionId,
+    keyFields: ["occurrenceDate"],
+  },
+  deleteTransactionOccurrence: {
+    entity: "occurrence",
+    action: "delete",
+    findBefore: async (storage, householdId, [transactionId, occurrenceDate]) =>
+      (await storage.getTransactionOccurrences(householdId, transactionId)).find(o => o.occurrenceDate === occurrenceDate),
+    keyFields: ["occurrenceDate"],
+  },
+
+  setTransactionLines: {
+    entity: "transaction",
+    action: "update",
+    findBefore: async (storage, householdId, [transactionId]) => splitLinesRow(await storage.getTransactionLines(householdId, transactionId)),
+    toRow: splitLinesRow,
+  },
+  setTransactionTags: {
+    entity: "transaction",
+    action: "update",
+    findBefore: async (storage, householdId, [transactionId]) => tagsRow(await findTransactionTags(storage, householdId, transactionId)),
+    toRow: tagsRow,
+  },
+  deleteTag: {
+    entity: "tag",
+    action: "delete",
+    findBefore: async (storage, householdId, [id]) => (await storage.getTags(householdId)).find(tag => tag.id === id),
+  },
+
+  createSubscription: { entity: "subscription", action: "create" },
+  updateSubscription: { entity: "subscription", action: "update", findBefore: findSubscription },
+  deleteSubscription: { entity: "subscription", action: "delete", findBefore: findSubscription },
+  // Logged as a change of the subscription's price
+  createSubscriptionPriceChange: {
+    entity: "subscription",
+    action: "update",
+    findBefore: async (_storage, _householdId, [change]) => ({ price: change.previousAmount, effectiveDate: change.effectiveDate }),
+    entityId: ([change]) => change.subscriptionId,
+    keyFields: ["effectiveDate"],
+    toRow: (change) => ({ price: change.amount, effectiveDate: change.effectiveDate }),
+  },
+
+  createCategory: { entity: "category", action: "create" },
+  updateCategory: { entity: "category", action: "update", findBefore: findCategory },
+  deleteCategory: { entity: "category", action: "delete", findBefore: findCategory },
+  restoreCategory: {
+    entity: "category",
+    action: "restore",
+    findBefore: async (storage, householdId, [id]) => (await storage.getDeletedCategories(householdId)).find(c => c.id === id),
+  },
+
+  upsertCategoryBudgetOverride: {
+    entity: "categoryBudget",
+    action: "upsert",
+    findBefore: async (storage, householdId, [categoryId, month]) =>
+      (await storage.getCategoryBudgetOverrides(householdId, categoryId)).find(o => o.month === month),
+    keyFields: ["month"],
+  },
+  deleteCategoryBudgetOverride: {
+    entity: "categoryBudget",
+    action: "delete",
+    findBefore: async (storage, householdId, [categoryId, month]) =>
+      (await storage.getCategoryBudgetOverrides(householdId, categoryId)).find(o => o.month === month),
+    keyFields: ["month"],
+  },
+
+  upsertForecastSettings: {
+    entity: "forecastSettings",
+    action: "upsert",
+    findBefore: (storage, householdId) => storage.getForecastSettings(householdId),
+  },
+
+  createPerson: { entity: "person", action: "create" },
+  updatePerson: { entity: "person", action: "update", findBefore: (storage, householdId, [id]) => storage.getPersonById(householdId, id) },
+  deletePerson: { entity: "person", action: "delete", findBefore: (storage, householdId, [id]) => storage.getPersonById(householdId, id) },
+
+  upsertSettlementSettings: {
+    entity: "settlementSettings",
+    action: "upsert",
+    findBefore: (storage, householdId) => storage.getSettlementSettings(householdId),
+  },
+  // A split from its date on, logged with the settlement settings it was taken from
+  saveSettlementSplit: {
+    entity: "settlementSettings",
+    action: "upsert",
+    findBefore: async (storage, householdId, [split]) =>
+      (await storage.getSettlementSplits(householdId)).find(s => s.effectiveFrom === split.effectiveFrom),
+    keyFields: ["effectiveFrom"],
+  },
+  createSettlementPayment: { entity: "settlementPayment", action: "create" },
+  deleteSettlementPayment: {
+    entity: "settlementPayment",
+    action: "delete",
+    findBefore: async (storage, householdId, [id]) => (await storage.getSettlementPayments(householdId)).find(p => p.id === id),
+  },
+
+  createSavings: { entity: "savings", action: "create" },
+  createContribution: { entity: "savings", action: "create" },
+  deleteSavings: {
+    entity: "savings",
+    action: "delete",
+    findBefore: async (storage, householdId, [id]) => (await storage.getSavings(householdId)).find(s => s.id === id),
+  },
+  restoreSavings: {
+    entity: "savings",
+    action: "restore",
+    findBefore: async (storage, householdId, [id]) => (await storage.getDeletedSavings(householdId)).find(s => s.id === id),
+  },
+
+  createSavingsGoal: { entity: "savingsGoal", action: "create" },
+  updateSavingsGoal: { entity: "savingsGoal", action: "update", findBefore: (storage, householdId, [id]) => storage.getSavingsGoalById(householdId, id) },
+  deleteSavingsGoal: { entity: "savingsGoal", action: "delete", findBefore: (storage, householdId, [id]) => storage.getSavingsGoalById(householdId, id) },
+
+  createAccount: { entity: "account", action: "create" },
+  updateAccount: { entity: "account", action: "update", findBefore: (storage, householdId, [id]) => storage.getAccountById(householdId, id) },
+  deleteAccount: { entity: "account", action: "delete", findBefore: (storage, householdId, [id]) => storage.getAccountById(householdId, id) },
+
+  createReconciliation: { entity: "reconciliation", action: "create" },
+  updateReconciliation: { entity: "reconciliation", action: "update", findBefore: findReconciliation },
+  finishReconciliation: { entity: "reconciliation", action: "update", findBefore: findReconciliation },
+  deleteReconciliation: { entity: "reconciliation", action: "delete", findBefore: findReconciliation },
+
+  // Logged against the transaction, like occurrence overrides
+  createClearedEntry: {
+    entity: "clearedEntry",
+    action: "create",
+    entityId: ([entry]) => entry.transactionId,
+    keyFields: ["accountId", "occurrenceDate"],
+  },
+  deleteClearedEntry: {
+    entity: "clearedEntry",
+    action: "delete",
+    findBefore: async (storage, householdId, [accountId, transactionId, occurrenceDate]) =>
+      (await storage.getClearedEntries(householdId, { accountId, transactionId })).find(e => e.occurrenceDate === occurrenceDate),
+    entityId: ([, transactionId]) => transactionId,
+    keyFields: ["accountId", "occurrenceDate"],
+  },
+
+  createImportProfile: { entity: "importProfile", action: "create" },
+  updateImportProfile: { entity: "importProfile", action: "update", findBefore: (storage, householdId, [id]) => storage.getImportProfileById(householdId, id) },
+  deleteImportProfile: { entity: "importProfile", action: "delete", findBefore: (storage, householdId, [id]) => storage.getImportProfileById(householdId, id) },
+
+  createTransactionRule: { entity: "transactionRule", action: "create" },
+  updateTransactionRule: { entity: "transactionRule", action: "update", findBefore: (storage, householdId, [id]) => storage.getTransactionRuleById(householdId, id) },
+  deleteTransactionRule: { entity: "transactionRule", action: "delete", findBefore: (storage, householdId, [id]) => storage.getTransactionRuleById(householdId, id) },
+
+  addHouseholdMember: { entity: "member", action: "upsert", findBefore: (storage, householdId, [userId]) => storage.getHouseholdMember(householdId, userId) },
+  updateHouseholdMemberRole: { entity: "member", action: "update", findBefore: (storage, householdId, [userId]) => storage.getHouseholdMember(householdId, userId) },
+  removeHouseholdMember: { entity: "member", action: "delete", findBefore: (storage, householdId, [userId]) => storage.getHouseholdMember(householdId, userId) },
+};
+
+// Trash purges, which go across households; every row they remove is logged in its own household
+const purgeMethods = new Set<keyof IStorage>(["purgeDeletedItems", "emptyTrash"]);
+
+// Bookkeeping columns that change with every write
+const IGNORED_FIELDS = new Set(["id", "householdId", "createdAt", "updatedAt"]);
+
+function toJsonValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+/**
+ * The fields that differ between two versions of a row; a missing row counts as all nulls
+ */
+export function diffRows(before: object | undefined, after: object | undefined): AuditChanges {
+  const beforeRow = (before ?? {}) as Record<string, unknown>;
+  const afterRow = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const field of Array.from(new Set([...Object.keys(beforeRow), ...Object.keys(afterRow)]))) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const beforeValue = toJsonValue(beforeRow[field]);
+    const afterValue = toJsonValue(afterRow[field]);
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+  return changes;
+}
+
+async function recordChange(
+  storage: IStorage,
+  method: AuditedMethod,
+  householdId: number,
+  args: any[],
+  before: object | undefined,
+  result: unknown
+): Promise<void> {
+  // Nothing was found to change
+  if (result === false || result === undefined) return;
+
+  const action: AuditAction = method.action === "upsert" ? (before ? "update" : "create") : method.action;
+  const after = action === "delete" ? undefined : method.toRow?.(result) ?? result as object;
+  const changes = diffRows(before, after);
+  if (action === "update" && Object.keys(changes).length === 0) return;
+
+  for (const field of method.keyFields ?? []) {
+    const value = toJsonValue(((after ?? before) as Record<string, unknown>)[field]);
+    changes[field] ??= { before: value, after: value };
+  }
+
+  const entityId = method.entityId?.(args) ??
+    (action === "create" ? (result as { id?: number }).id : args[0]);
+
+  await storage.createAuditEntry({
+    householdId,
+    userId: auditContext.getStore()?.userId ?? null,
+    entity: method.entity,
+    entityId: typeof entityId === "number" ? entityId : null,
+    action,
+    changes,
+  });
+}
+
+async function recordPurge(storage: IStorage, purged: PurgedItems): Promise<void> {
+  const rows: [AuditEntity, { id: number; householdId: number }[]][] = [
+    ["transaction", purged.transactions],
+    ["category", purged.categories],
+    ["savings", purged.savings],
+  ];
+  for (const [entity, entityRows] of rows) {
+    for (const row of entityRows) {
+      await storage.createAuditEntry({
+        householdId: row.householdId,
+        userId: auditContext.getStore()?.userId ?? null,
+        entity,
+        entityId: row.id,
+        action: "purge",
+        changes: diffRows(row, undefined),
+      });
+    }
+  }
+}
+
+/**
+ * Storage that adds an audit log entry for every change it makes to household data.
+ * Only calls from outside are logged: a method calling another on the same storage
+ * (a cascade, a lookup) is part of the logged change.
+ */
+export function withAuditLog<T extends IStorage>(target: T): T {
+  return new Proxy(target, {
+    get(object, property, receiver) {
+      const value = Reflect.get(object, property, receiver);
+      if (typeof value !== "function") return value;
+
+      if (purgeMethods.has(property as keyof IStorage)) {
+        return async (...args: any[]) => {
+          const purged: PurgedItems = await value.apply(object, args);
+          try {
+            await recordPurge(object, purged);
+          } catch (error) {
+            console.error(`[AUDIT] Could not log the trash purge ${String(property)}:`, error);
+          }
+          return purged;
+        };
+      }
+
+      const method = auditedMethods[property as keyof IStorage];
+      if (!method) return value;
+
+      return async (householdId: number, ...args: any[]) => {
+        const before = method.findBefore ? await method.findBefore(object, householdId, args) : undefined;
+        const result = await value.call(object, householdId, ...args);
+
+        try {
+          for (const row of method.many ? result as unknown[] : [result]) {
+            await recordChange(object, method, householdId, args, before, row);
+          }
+        } catch (error) {
+          // The change itself went through; don't report it as failed
+          console.error(`[AUDIT] Could not log ${method.entity} ${String(property)}:`, error);
+        }
+        return result;
+      };
+    },
+  });
+}
@@ -88,6 +88,9 @@ export function setupAuth(app: Express) {
         username: req.body.username,
         password: hashedPassword,
       });
+      
+      // Every user starts as the owner of their own household
+      await storage.createHousehold({ name: `${user.username}'s household` }, user.id);
 
       req.login(user, (err) => {
         if (err) return next(err);
@@ -0,0 +1,62 @@
+import "./test-setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createBackup, restoreBackup } from "./backup";
+import { storage } from "./storage";
+import { getTagsByTransaction } from "./transaction-tags";
+import { DEFAULT_HOUSEHOLD_ID, backupSchema } from "@shared/schema";
+
+const householdId = DEFAULT_HOUSEHOLD_ID;
+
+test("a restored backup brings back the household as it was, without what was in the trash", async () => {
+  const categories = await storage.getCategories(householdId);
+  const food = categories.find(category => category.name === "Food")!;
+  const bills = categories.find(category => category.name === "Bills")!;
+
+  const shopping = await storage.createTransaction(householdId, {
+    title: "Shopping", amount: 50, date: new Date(2025, 0, 10), isExpense: true, categoryId: food.id, personLabel: "Beni",
+  });
+  await storage.setTransactionLines(householdId, shopping.id, [
+    { amount: 30, categoryId: food.id, personLabel: "Beni" },
+    { amount: 20, categoryId: bills.id, personLabel: "Fabi" },
+  ]);
+  await storage.setTransactionTags(householdId, shopping.id, ["trip"]);
+  const rent = await storage.createTransaction(householdId, {
+    title: "Rent", amount: 1000, date: new Date(2025, 0, 1), isExpense: true, categoryId: bills.id, personLabel: "Together",
+    isRecurring: true, recurringInterval: "monthly",
+  });
+  await storage.upsertTransactionOccurrence(householdId, { transactionId: rent.id, occurrenceDate: "2025-02-01", isSkipped: true });
+  const trashed = await storage.createTransaction(householdId, {
+    title: "Mistake", amount: 5, date: new Date(2025, 0, 3), isExpense: true, categoryId: null, personLabel: "Beni",
+  });
+  await storage.upsertTransactionOccurrence(householdId, { transactionId: trashed.id, occurrenceDate: "2025-01-03", isPaid: true });
+  await storage.deleteTransaction(householdId, trashed.id);
+
+  // Restored as POST /import/backup would, from its JSON
+  const backup = backupSchema.parse(JSON.parse(JSON.stringify(await createBackup(householdId))));
+  await storage.createTransaction(householdId, {
+    title: "After the backup", amount: 10, date: new Date(2025, 1, 1), isExpense: true, categoryId: null, personLabel: "Beni",
+  });
+
+  const summary = await restoreBackup(householdId, backup);
+
+  assert.equal(summary.transactions, 2);
+  assert.equal(summary.occurrences, 1);
+  assert.equal(summary.transactionLines, 2);
+  assert.equal(summary.transactionTags, 1);
+
+  const transactions = await storage.getTransactions(householdId);
+  assert.deepEqual(transactions.map(t => t.title).sort(), ["Rent", "Shopping"]);
+  assert.deepEqual(await storage.getDeletedTransactions(householdId), []);
+
+  const restoredCategories = new Map((await storage.getCategories(householdId)).map(category => [category.id, category.name]));
+  const restoredShopping = transactions.find(t => t.title === "Shopping")!;
+  const lines = await storage.getTransactionLines(householdId, restoredShopping.id);
+  assert.deepEqual(lines.map(line => [line.amount, restoredCategories.get(line.categoryId!), line.personLabel]),
+    [[30, "Food", "Beni"], [20, "Bills", "Fabi"]]);
+  assert.deepEqual((await getTagsByTransaction(householdId)).get(restoredShopping.id), ["trip"]);
+
+  const restoredRent = transactions.find(t => t.title === "Rent")!;
+  const occurrences = await storage.getTransactionOccurrences(householdId);
+  assert.deepEqual(occurrences.map(o => [o.transactionId, o.occurrenceDate, o.isSkipped]), [[restoredRent.id, "2025-02-01", true]]);
+});
@@ -0,0 +1,535 @@
+import { format } from "date-fns";
+import { storage, type IStorage, type NewTransaction } from "./storage";
+import { buildXlsx, type XlsxCell, type XlsxSheet } from "./xlsx";
+import { getTagsByTransaction } from "./transaction-tags";
+import { recordSplitChange } from "./settlement";
+import { describeTransactionRecurrence } from "@shared/recurrence";
+import {
+  BACKUP_VERSION,
+  type Backup,
+  type BackupRestoreSummary,
+  type SettlementSplitMethod,
+} from "@shared/schema";
+
+/**
+ * Everything a household owns, in the versioned backup format.
+ * Ids are kept so the rows can refer to each other; restoring assigns new ones.
+ */
+export async function createBackup(householdId: number): Promise<Backup> {
+  const [household, categories, categoryBudgets, people, accounts, transactions, savingsGoals, savings, occurrences, importProfiles, transactionRules, forecastSettings, settlementSettings, settlementPayments] = await Promise.all([
+    storage.getHousehold(householdId),
+    storage.getCategories(householdId),
+    storage.getCategoryBudgetOverrides(householdId),
+    storage.getPeople(householdId),
+    storage.getAccounts(householdId),
+    storage.getTransactions(householdId),
+    storage.getSavingsGoals(householdId),
+    storage.getSavings(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getImportProfiles(householdId),
+    storage.getTransactionRules(householdId),
+    storage.getForecastSettings(householdId),
+    storage.getSettlementSettings(householdId),
+    storage.getSettlementPayments(householdId),
+  ]);
+  // Entries of transactions in the trash aren't backed up with them
+  const transactionIds = new Set(transactions.map(t => t.id));
+  const liveOccurrences = occurrences.filter(o => transactionIds.has(o.transactionId));
+  const clearedEntries = (await storage.getClearedEntries(householdId)).filter(e => transactionIds.has(e.transactionId));
+  const transactionLines = (await storage.getTransactionLines(householdId)).filter(l => transactionIds.has(l.transactionId));
+  const tagsByTransaction = await getTagsByTransaction(householdId);
+  const transactionTags = transactions.flatMap(t => (tagsByTransaction.get(t.id) ?? []).map(tag => ({ transactionId: t.id, tag })));
+  const reconciliations = (await Promise.all(accounts.map(a => storage.getReconciliations(householdId, a.id)))).flat();
+  const subscriptions = (await storage.getSubscriptions(householdId)).filter(s => transactionIds.has(s.transactionId));
+  const subscriptionIds = new Set(subscriptions.map(s => s.id));
+  const subscriptionPriceChanges = (await storage.getSubscriptionPriceChanges(householdId)).filter(c => subscriptionIds.has(c.subscriptionId));
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    household: { name: household?.name ?? "" },
+    categories: categories.map(c => ({
+      id: c.id,
+      name: c.name,
+      color: c.color,
+      isExpense: c.isExpense,
+      emoji: c.emoji,
+      monthlyBudget: c.monthlyBudget,
+      budgetRollover: c.budgetRollover as Backup["categories"][number]["budgetRollover"],
+      budgetStartMonth: c.budgetStartMonth,
+    })),
+    categoryBudgets: categoryBudgets.map(b => ({
+      categoryId: b.categoryId,
+      month: b.month,
+      amount: b.amount,
+    })),
+    people: people.map(p => ({
+      name: p.name,
+      color: p.color,
+      emoji: p.emoji,
+      isActive: p.isActive,
+      isShared: p.isShared,
+      settlementShare: p.settlementShare,
+    })),
+    accounts: accounts.map(a => ({
+      id: a.id,
+      name: a.name,
+      type: a.type as Backup["accounts"][number]["type"],
+      currency: a.currency,
+      openingBalance: a.openingBalance,
+      openingBalanceDate: a.openingBalanceDate,
+      isArchived: a.isArchived,
+    })),
+    transactions: transactions.map(t => ({
+      id: t.id,
+      title: t.title,
+      amount: t.amount,
+      date: new Date(t.date),
+      notes: t.notes,
+      isExpense: t.isExpense,
+      categoryId: t.categoryId,
+      personLabel: t.personLabel,
+      isRecurring: t.isRecurring,
+      recurringInterval: t.recurringInterval as Backup["transactions"][number]["recurringInterval"],
+      recurringEndDate: t.recurringEndDate ? new Date(t.recurringEndDate) : null,
+      recurrenceRule: t.recurrenceRule,
+      recurrenceShift: t.recurrenceShift as Backup["transactions"][number]["recurrenceShift"],
+      isPaid: t.isPaid,
+      originalAmount: t.originalAmount,
+      originalCurrency: t.originalCurrency,
+      exchangeRate: t.exchangeRate,
+      rateDate: t.rateDate,
+      accountId: t.accountId,
+      transferAccountId: t.transferAccountId,
+      paidBy: t.paidBy,
+    })),
+    savingsGoals: savingsGoals.map(g => ({
+      id: g.id,
+      name: g.name,
+      emoji: g.emoji,
+      color: g.color,
+      targetAmount: g.targetAmount,
+      targetDate: g.targetDate,
+      contributionAmount: g.contributionAmount,
+      contributionInterval: g.contributionInterval as Backup["savingsGoals"][number]["contributionInterval"],
+      contributionPersonLabel: g.contributionPersonLabel,
+      nextContributionDate: g.nextContributionDate,
+    })),
+    savings: savings.map(s => ({
+      amount: s.amount,
+      date: new Date(s.date),
+      notes: s.notes,
+      personLabel: s.personLabel,
+      goalId: s.goalId,
+      accountId: s.accountId,
+      fromAccountId: s.fromAccountId,
+    })),
+    occurrences: liveOccurrences.map(o => ({
+      transactionId: o.transactionId,
+      occurrenceDate: o.occurrenceDate,
+      isSkipped: o.isSkipped,
+      isPaid: o.isPaid,
+      amountOverride: o.amountOverride,
+      note: o.note,
+      titleOverride: o.titleOverride,
+      categoryIdOverride: o.categoryIdOverride,
+      personLabelOverride: o.personLabelOverride,
+    })),
+    transactionLines: transactionLines.map(l => ({
+      transactionId: l.transactionId,
+      amount: l.amount,
+      categoryId: l.categoryId,
+      personLabel: l.personLabel,
+      note: l.note,
+    })),
+    transactionTags,
+    importProfiles: importProfiles.map(p => ({
+      name: p.name,
+      delimiter: p.delimiter as Backup["importProfiles"][number]["delimiter"],
+      dateColumn: p.dateColumn,
+      dateFormat: p.dateFormat as Backup["importProfiles"][number]["dateFormat"],
+      amountColumn: p.amountColumn,
+      titleColumn: p.titleColumn,
+      notesColumn: p.notesColumn,
+      decimalSeparator: p.decimalSeparator as Backup["importProfiles"][number]["decimalSeparator"],
+    })),
+    transactionRules: transactionRules.map(r => ({
+      name: r.name,
+      position: r.position,
+      isEnabled: r.isEnabled,
+      titlePattern: r.titlePattern,
+      minAmount: r.minAmount,
+      maxAmount: r.maxAmount,
+      categoryId: r.categoryId,
+      personLabel: r.personLabel,
+      dateFrom: r.dateFrom,
+      dateTo: r.dateTo,
+      hide: r.hide,
+      setTitle: r.setTitle,
+      setCategoryId: r.setCategoryId,
+      setPersonLabel: r.setPersonLabel,
+      setAmount: r.setAmount,
+      markPaid: r.markPaid,
+    })),
+    forecastSettings: forecastSettings ? {
+      openingBalance: forecastSettings.openingBalance,
+      balanceDate: forecastSettings.balanceDate,
+      lowBalanceThreshold: forecastSettings.lowBalanceThreshold,
+    } : null,
+    reconciliations: reconciliations.map(r => ({
+      id: r.id,
+      accountId: r.accountId,
+      statementDate: r.statementDate,
+      statementBalance: r.statementBalance,
+      clearedBalance: r.clearedBalance,
+      finishedAt: r.finishedAt ? new Date(r.finishedAt) : null,
+    })),
+    clearedEntries: clearedEntries.map(e => ({
+      accountId: e.accountId,
+      transactionId: e.transactionId,
+      occurrenceDate: e.occurrenceDate,
+      reconciliationId: e.reconciliationId,
+    })),
+    settlementSettings: settlementSettings ? {
+      splitMethod: settlementSettings.splitMethod as SettlementSplitMethod,
+    } : null,
+    settlementPayments: settlementPayments.map(p => ({
+      fromPerson: p.fromPerson,
+      toPerson: p.toPerson,
+      amount: p.amount,
+      date: p.date,
+      note: p.note,
+    })),
+    subscriptions: subscriptions.map(s => ({
+      id: s.id,
+      transactionId: s.transactionId,
+      trialEndsAt: s.trialEndsAt,
+      remindDaysBefore: s.remindDaysBefore,
+    })),
+    subscriptionPriceChanges: subscriptionPriceChanges.map(c => ({
+      subscriptionId: c.subscriptionId,
+      effectiveDate: c.effectiveDate,
+      previousAmount: c.previousAmount,
+      amount: c.amount,
+      currency: c.currency,
+    })),
+  };
+}
+
+// Flat tables for accountants: names instead of ids, one row per entry; split transactions stay one row
+function exportSheets(backup: Backup): XlsxSheet[] {
+  const categoryNames = new Map(backup.categories.map(c => [c.id, c.name]));
+  const goalNames = new Map(backup.savingsGoals.map(g => [g.id, g.name]));
+  const accountNames = new Map(backup.accounts.map(a => [a.id, a.name]));
+  const accountName = (id: number | null) => (id !== null ? accountNames.get(id) ?? "" : "");
+  const tagNames = new Map<number, string[]>();
+  for (const { transactionId, tag } of backup.transactionTags) {
+    tagNames.set(transactionId, [...(tagNames.get(transactionId) ?? []), tag]);
+  }
+
+  const transactionRows: XlsxCell[][] = [...backup.transactions]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(t => [
+      t.date,
+      t.title,
+      t.transferAccountId !== null ? "Transfer" : t.isExpense ? "Expense" : "Income",
+      t.amount,
+      t.originalAmount,
+      t.originalCurrency,
+      // Rates have more than the two decimals amounts are written with
+      t.exchangeRate !== null ? String(t.exchangeRate) : null,
+      t.categoryId !== null ? categoryNames.get(t.categoryId) ?? "" : "",
+      t.personLabel,
+      t.transferAccountId !== null ? `${accountName(t.accountId)} → ${accountName(t.transferAccountId)}` : accountName(t.accountId),
+      describeTransactionRecurrence(t),
+      t.isPaid ? "Yes" : "No",
+      tagNames.get(t.id)?.join(", ") ?? null,
+      t.notes,
+    ]);
+
+  const savingsRows: XlsxCell[][] = [...backup.savings]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(s => [s.date, s.amount, s.personLabel, s.goalId !== null ? goalNames.get(s.goalId) ?? "" : "", accountName(s.fromAccountId), accountName(s.accountId), s.notes]);
+
+  const categoryRows: XlsxCell[][] = backup.categories
+    .map(c => [c.name, c.isExpense ? "Expense" : "Income", c.color, c.monthlyBudget]);
+
+  return [
+    {
+      name: "Transactions",
+      rows: [["Date", "Title", "Type", "Amount (PLN)", "Original amount", "Currency", "Exchange rate", "Category", "Person", "Account", "Recurrence", "Paid", "Tags", "Notes"], ...transactionRows],
+    },
+    {
+      name: "Savings",
+      rows: [["Date", "Amount (PLN)", "Person", "Goal", "From account", "To account", "Notes"], ...savingsRows],
+    },
+    {
+      name: "Categories",
+      rows: [["Name", "Type", "Color", "Monthly budget (PLN)"], ...categoryRows],
+    },
+  ];
+}
+
+function csvField(value: XlsxCell): string {
+  if (value === null) return "";
+  const text = value instanceof Date ? format(value, "yyyy-MM-dd")
+    : typeof value === "number" ? value.toFixed(2)
+    : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The transactions table as CSV. Starts with a byte order mark so Excel reads Polish characters.
+ */
+export function backupToCsv(backup: Backup): string {
+  const [transactions] = exportSheets(backup);
+  return "\uFEFF" + transactions.rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Transactions, savings and categories, one worksheet each
+ */
+export function backupToXlsx(backup: Backup): Buffer {
+  return buildXlsx(exportSheets(backup));
+}
+
+// Remove the household's budget data for good, its trash too; people stay because members may
+// still be attributed to them
+async function clearHousehold(store: IStorage, householdId: number): Promise<void> {
+  const [subscriptions, transactions, savings, savingsGoals, categories, accounts, importProfiles, transactionRules, settlementPayments] = await Promise.all([
+    store.getSubscriptions(householdId),
+    store.getTransactions(householdId),
+    store.getSavings(householdId),
+    store.getSavingsGoals(householdId),
+    store.getCategories(householdId),
+    store.getAccounts(householdId),
+    store.getImportProfiles(householdId),
+    store.getTransactionRules(householdId),
+    store.getSettlementPayments(householdId),
+  ]);
+
+  // Subscriptions are tracked anew for the restored transactions
+  for (const subscription of subscriptions) await store.deleteSubscription(householdId, subscription.id);
+  // Transactions, savings and categories go through the trash, which is emptied below, so their
+  // overrides, lines and budgets go with them
+  for (const transaction of transactions) await store.deleteTransaction(householdId, transaction.id);
+  for (const entry of savings) await store.deleteSavings(householdId, entry.id);
+  for (const goal of savingsGoals) await store.deleteSavingsGoal(householdId, goal.id);
+  for (const category of categories) await store.deleteCategory(householdId, category.id);
+  // Entries in the trash keep no account; accounts aren't restorable from there.
+  // Their reconciliations and cleared entries go with them.
+  for (const account of accounts) await store.deleteAccount(householdId, account.id);
+  for (const profile of importProfiles) await store.deleteImportProfile(householdId, profile.id);
+  for (const rule of transactionRules) await store.deleteTransactionRule(householdId, rule.id);
+  // Settlement payments settle the transactions they are replaced with
+  for (const payment of settlementPayments) await store.deleteSettlementPayment(householdId, payment.id);
+  // Nothing in the trash would fit the restored data: its categories and accounts are gone
+  await store.emptyTrash(householdId);
+}
+
+async function writeBackup(store: IStorage, householdId: number, backup: Backup): Promise<BackupRestoreSummary> {
+  const summary: BackupRestoreSummary = {
+    categories: 0,
+    categoryBudgets: 0,
+    people: 0,
+    accounts: 0,
+    transactions: 0,
+    savingsGoals: 0,
+    savings: 0,
+    occurrences: 0,
+    transactionLines: 0,
+    transactionTags: 0,
+    importProfiles: 0,
+    transactionRules: 0,
+    reconciliations: 0,
+    clearedEntries: 0,
+    settlementPayments: 0,
+    subscriptions: 0,
+    subscriptionPriceChanges: 0,
+  };
+
+  // Old id -> id the storage assigned
+  const categoryIds = new Map<number, number>();
+  for (const { id, ...category } of backup.categories) {
+    const created = await store.createCategory(householdId, category);
+    categoryIds.set(id, created.id);
+    summary.categories++;
+  }
+
+  for (const budget of backup.categoryBudgets) {
+    await store.upsertCategoryBudgetOverride(householdId, categoryIds.get(budget.categoryId)!, budget.month, budget.amount);
+    summary.categoryBudgets++;
+  }
+
+  for (const { settlementShare, ...person } of backup.people) {
+    if (!await store.getPersonByName(householdId, person.name)) {
+      const created = await store.createPerson(householdId, person);
+      if (settlementShare !== null) {
+        await store.updatePerson(householdId, created.id, { settlementShare });
+      }
+      summary.people++;
+    }
+  }
+
+  const accountIds = new Map<number, number>();
+  const accountId = (id: number | null) => (id !== null ? accountIds.get(id) ?? null : null);
+  for (const { id, ...account } of backup.accounts) {
+    const created = await store.createAccount(householdId, account);
+    accountIds.set(id, created.id);
+    summary.accounts++;
+  }
+
+  const transactionIds = new Map<number, number>();
+  for (const { id, categoryId, ...transaction } of backup.transactions) {
+    const created = await store.createTransaction(householdId, {
+      ...transaction,
+      categoryId: categoryId !== null ? categoryIds.get(categoryId) : null,
+      accountId: accountId(transaction.accountId),
+      transferAccountId: accountId(transaction.transferAccountId),
+    } as NewTransaction);
+    transactionIds.set(id, created.id);
+    summary.transactions++;
+  }
+
+  const goalIds = new Map<number, number>();
+  for (const { id, ...goal } of backup.savingsGoals) {
+    const created = await store.createSavingsGoal(householdId, goal);
+    goalIds.set(id, created.id);
+    summary.savingsGoals++;
+  }
+
+  for (const { goalId, ...entry } of backup.savings) {
+    await store.createSavings(householdId, {
+      ...entry,
+      personLabel: entry.personLabel ?? "",
+      goalId: goalId !== null ? goalIds.get(goalId) : null,
+      accountId: accountId(entry.accountId),
+      fromAccountId: accountId(entry.fromAccountId),
+    });
+    summary.savings++;
+  }
+
+  // Rows of a transaction the backup doesn't have (older backups kept those of trashed ones) are
+  // left out, and only the rows written are counted
+  for (const { categoryIdOverride, ...occurrence } of backup.occurrences) {
+    const transactionId = transactionIds.get(occurrence.transactionId);
+    if (transactionId === undefined) continue;
+    const written = await store.upsertTransactionOccurrence(householdId, {
+      ...occurrence,
+      transactionId,
+      categoryIdOverride: categoryIdOverride !== null ? categoryIds.get(categoryIdOverride) : null,
+    });
+    if (written) summary.occurrences++;
+  }
+
+  const linesByTransaction = new Map<number, Backup["transactionLines"]>();
+  for (const line of backup.transactionLines) {
+    linesByTransaction.set(line.transactionId, [...(linesByTransaction.get(line.transactionId) ?? []), line]);
+  }
+  for (const [backupTransactionId, lines] of Array.from(linesByTransaction)) {
+    const transactionId = transactionIds.get(backupTransactionId);
+    if (transactionId === undefined) continue;
+    const written = await store.setTransactionLines(householdId, transactionId, lines.map(({ transactionId: _transactionId, categoryId, ...line }) => ({
+      ...line,
+      categoryId: categoryId !== null ? categoryIds.get(categoryId) ?? null : null,
+    })));
+    summary.transactionLines += written?.length ?? 0;
+  }
+  
+  const tagsByTransaction = new Map<number, string[]>();
+  for (const { transactionId, tag } of backup.transactionTags) {
+    tagsByTransaction.set(transactionId, [...(tagsByTransaction.get(transactionId) ?? []), tag]);
+  }
+  for (const [backupTransactionId, tags] of Array.from(tagsByTransaction)) {
+    const transactionId = transactionIds.get(backupTransactionId);
+    if (transactionId === undefined) continue;
+    const written = await store.setTransactionTags(householdId, transactionId, Array.from(new Set(tags)));
+    summary.transactionTags += written?.length ?? 0;
+  }
+
+  for (const profile of backup.importProfiles) {
+    await store.createImportProfile(householdId, profile);
+    summary.importProfiles++;
+  }
+
+  for (const { categoryId, setCategoryId, ...rule } of backup.transactionRules) {
+    await store.createTransactionRule(householdId, {
+      ...rule,
+      categoryId: categoryId != null ? categoryIds.get(categoryId) : null,
+      setCategoryId: setCategoryId != null ? categoryIds.get(setCategoryId) : null,
+    });
+    summary.transactionRules++;
+  }
+
+  if (backup.forecastSettings) {
+    await store.upsertForecastSettings(householdId, backup.forecastSettings);
+  }
+
+  const reconciliationIds = new Map<number, number>();
+  for (const { id, clearedBalance, finishedAt, ...reconciliation } of backup.reconciliations) {
+    const created = await store.createReconciliation(householdId, {
+      ...reconciliation,
+      accountId: accountIds.get(reconciliation.accountId)!,
+    });
+    // Finished as it was, without finishing again: the entries are restored with their reconciliation below
+    if (finishedAt) {
+      await store.updateReconciliation(householdId, created.id, { clearedBalance, finishedAt });
+    }
+    reconciliationIds.set(id, created.id);
+    summary.reconciliations++;
+  }
+
+  for (const entry of backup.clearedEntries) {
+    const transactionId = transactionIds.get(entry.transactionId);
+    if (transactionId === undefined) continue;
+    const written = await store.createClearedEntry(householdId, {
+      accountId: accountIds.get(entry.accountId)!,
+      transactionId,
+      occurrenceDate: entry.occurrenceDate,
+      reconciliationId: entry.reconciliationId !== null ? reconciliationIds.get(entry.reconciliationId) : null,
+    });
+    if (written) summary.clearedEntries++;
+  }
+
+  if (backup.settlementSettings) {
+    await store.upsertSettlementSettings(householdId, backup.settlementSettings);
+  }
+
+  for (const payment of backup.settlementPayments) {
+    await store.createSettlementPayment(householdId, payment);
+    summary.settlementPayments++;
+  }
+
+  const subscriptionIds = new Map<number, number>();
+  for (const { id, transactionId: backupTransactionId, ...subscription } of backup.subscriptions) {
+    const transactionId = transactionIds.get(backupTransactionId);
+    if (transactionId === undefined) continue;
+    const created = await store.createSubscription(householdId, { ...subscription, transactionId });
+    if (!created) continue;
+    subscriptionIds.set(id, created.id);
+    summary.subscriptions++;
+  }
+
+  for (const change of backup.subscriptionPriceChanges) {
+    const subscriptionId = subscriptionIds.get(change.subscriptionId);
+    if (subscriptionId === undefined) continue;
+    const written = await store.createSubscriptionPriceChange(householdId, { ...change, subscriptionId });
+    if (written) summary.subscriptionPriceChanges++;
+  }
+
+  return summary;
+}
+
+/**
+ * Replace the household's categories and their budgets, accounts, transactions and their split lines and tags, savings and goals, occurrence state,
+ * import profiles, transaction rules, forecast and settlement settings, statement reconciliations, settlement payments and subscriptions with those of a backup. Works the same on every storage backend,
+ * so it also moves data between them. People are merged by name.
+ * It all happens in one transaction: if writing fails halfway, the household is left as it was.
+ */
+export async function restoreBackup(householdId: number, backup: Backup): Promise<BackupRestoreSummary> {
+  // Restored members and settings split what comes from now on
+  return recordSplitChange(householdId, () => storage.runInTransaction(async store => {
+    await clearHousehold(store, householdId);
+    return writeBackup(store, householdId, backup);
+  }));
+}
@@ -0,0 +1,416 @@
+import { format, parse, parseISO, startOfMonth, endOfMonth, startOfDay, endOfDay, subMilliseconds, addDays, addMonths } from "date-fns";
+import { storage } from "./storage";
+import { getRuledTransactions } from "./transaction-rules";
+import { plannedContributions } from "./savings-goals";
+import { getLinesByTransaction } from "./transaction-lines";
+import { getOccurrenceDates, getTransactionRecurrence } from "@shared/recurrence";
+import { splitParts } from "@shared/split-lines";
+import { isTransfer } from "@shared/schema";
+import type {
+  Transaction,
+  TransactionLine,
+  TransactionOccurrence,
+  Savings,
+  BudgetOccurrence,
+  BudgetCategoryTotal,
+  BudgetPersonTotal,
+  MonthlyBudget,
+  BudgetRolloverPolicy,
+  CategoryBudgetStatus,
+  CashFlowForecast,
+  CashFlowForecastDay,
+  ForecastHorizon,
+  SplitPart,
+} from "@shared/schema";
+
+const UNCATEGORIZED = "Uncategorized";
+const UNASSIGNED = "Unassigned";
+
+function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Dates of a transaction within [start, end]: its own date, or every occurrence of its recurrence
+ */
+export function transactionDates(transaction: Transaction, start: Date, end: Date): Date[] {
+  if (getTransactionRecurrence(transaction)) {
+    return getOccurrenceDates(transaction, start, end);
+  }
+  const date = new Date(transaction.date);
+  return date >= start && date <= end ? [date] : [];
+}
+
+/**
+ * Expand transactions into dated occurrences within [start, end] with skips and overrides applied.
+ * Skipped occurrences are left out and counted separately. With `lines`, occurrences of split
+ * transactions carry their amount by line, unless the occurrence overrides the category or person.
+ */
+export function collectOccurrences(
+  transactions: Transaction[],
+  overrides: Map<string, TransactionOccurrence>,
+  start: Date,
+  end: Date,
+  lines?: Map<number, TransactionLine[]>
+): { occurrences: BudgetOccurrence[]; skippedCount: number } {
+  const occurrences: BudgetOccurrence[] = [];
+  let skippedCount = 0;
+
+  for (const transaction of transactions) {
+    for (const date of transactionDates(transaction, start, end)) {
+      const dateKey = toDateKey(date);
+      const override = overrides.get(`${transaction.id}:${dateKey}`);
+
+      if (override?.isSkipped) {
+        skippedCount++;
+        continue;
+      }
+
+      const amount = override?.amountOverride ?? transaction.amount;
+      const transactionLines = lines?.get(transaction.id);
+      const isSplit = !!transactionLines && override?.categoryIdOverride == null && override?.personLabelOverride == null;
+
+      occurrences.push({
+        transactionId: transaction.id,
+        date: dateKey,
+        title: override?.titleOverride ?? transaction.title,
+        amount,
+        isExpense: transaction.isExpense,
+        isPaid: override?.isPaid ?? transaction.isPaid ?? false,
+        isRecurring: !!transaction.isRecurring,
+        categoryId: override?.categoryIdOverride ?? transaction.categoryId,
+        personLabel: override?.personLabelOverride ?? transaction.personLabel,
+        note: override?.note ?? null,
+        lines: isSplit ? splitParts(amount, transaction.categoryId, transaction.personLabel, transactionLines) : null,
+      });
+    }
+  }
+
+  occurrences.sort((a, b) => a.date.localeCompare(b.date) || a.transactionId - b.transactionId);
+  return { occurrences, skippedCount };
+}
+
+function sumAmounts(items: { amount: number }[]): number {
+  return items.reduce((sum, item) => sum + item.amount, 0);
+}
+
+// What an occurrence counts towards in the breakdowns by category and person
+function occurrenceParts(occurrence: BudgetOccurrence): SplitPart[] {
+  return occurrence.lines ?? [occurrence];
+}
+
+// Transactions with the household's rules applied, without transfers: they move money between
+// the household's own accounts and are neither income nor expenses
+export async function getBudgetTransactions(householdId: number): Promise<Transaction[]> {
+  return (await getRuledTransactions(householdId)).filter(transaction => !isTransfer(transaction));
+}
+
+/**
+ * Income, expenses, savings and balance of one household month ('YYYY-MM'),
+ * the single source for every budget figure shown in the app.
+ * The carry-over is the balance of every earlier month together.
+ */
+export async function getMonthlyBudget(householdId: number, month: string): Promise<MonthlyBudget> {
+  const monthStart = startOfMonth(parse(month, "yyyy-MM", new Date()));
+  const monthEnd = endOfMonth(monthStart);
+
+  const [transactions, allOverrides, allSavings, categories, people, lines] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getSavings(householdId),
+    storage.getCategories(householdId),
+    storage.getPeople(householdId),
+    getLinesByTransaction(householdId),
+  ]);
+
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+
+  const { occurrences, skippedCount } = collectOccurrences(transactions, overrides, monthStart, monthEnd, lines);
+  const monthSavings = allSavings.filter(s => {
+    const date = new Date(s.date);
+    return date >= monthStart && date <= monthEnd;
+  });
+
+  // Everything before this month, from the household's first entry on
+  const firstDate = [...transactions, ...allSavings]
+    .map(entry => new Date(entry.date))
+    .reduce<Date | null>((earliest, date) => (!earliest || date < earliest ? date : earliest), null);
+
+  let carryOver = 0;
+  if (firstDate && firstDate < monthStart) {
+    const previousEnd = subMilliseconds(monthStart, 1);
+    const previous = collectOccurrences(transactions, overrides, firstDate, previousEnd).occurrences;
+    const previousSavings = allSavings.filter((s: Savings) => new Date(s.date) < monthStart);
+    carryOver =
+      sumAmounts(previous.filter(o => !o.isExpense)) -
+      sumAmounts(previous.filter(o => o.isExpense)) -
+      sumAmounts(previousSavings);
+  }
+
+  const incomeOccurrences = occurrences.filter(o => !o.isExpense);
+  const expenseOccurrences = occurrences.filter(o => o.isExpense);
+  const income = sumAmounts(incomeOccurrences);
+  const expenses = sumAmounts(expenseOccurrences);
+  const savingsTotal = sumAmounts(monthSavings);
+
+  // Breakdown by category, split transactions by line
+  const categoriesById = new Map(categories.map(c => [c.id, c]));
+  const byCategory = new Map<string, BudgetCategoryTotal>();
+  for (const occurrence of occurrences) {
+    for (const part of occurrenceParts(occurrence)) {
+      const category = part.categoryId !== null ? categoriesById.get(part.categoryId) : undefined;
+      const key = category ? String(category.id) : UNCATEGORIZED;
+      const total = byCategory.get(key) ?? {
+        categoryId: category?.id ?? null,
+        name: category?.name ?? UNCATEGORIZED,
+        color: category?.color ?? null,
+        income: 0,
+        expenses: 0,
+      };
+      if (occurrence.isExpense) total.expenses += part.amount;
+      else total.income += part.amount;
+      byCategory.set(key, total);
+    }
+  }
+
+  // Breakdown by person, savings included
+  const colorsByName = new Map(people.map(p => [p.name, p.color]));
+  const byPerson = new Map<string, BudgetPersonTotal>();
+  const personTotal = (label: string | null) => {
+    const personLabel = label || UNASSIGNED;
+    const total = byPerson.get(personLabel) ?? {
+      personLabel,
+      color: colorsByName.get(personLabel) ?? null,
+      income: 0,
+      expenses: 0,
+      savings: 0,
+    };
+    byPerson.set(personLabel, total);
+    return total;
+  };
+  for (const occurrence of occurrences) {
+    for (const part of occurrenceParts(occurrence)) {
+      const total = personTotal(part.personLabel);
+      if (occurrence.isExpense) total.expenses += part.amount;
+      else total.income += part.amount;
+    }
+  }
+  for (const entry of monthSavings) {
+    personTotal(entry.personLabel).savings += entry.amount;
+  }
+
+  return {
+    month,
+    income: round(income),
+    expenses: round(expenses),
+    paidExpenses: round(sumAmounts(expenseOccurrences.filter(o => o.isPaid))),
+    savings: round(savingsTotal),
+    carryOver: round(carryOver),
+    balance: round(carryOver + income - expenses - savingsTotal),
+    skippedCount,
+    byCategory: Array.from(byCategory.values())
+      .map(c => ({ ...c, income: round(c.income), expenses: round(c.expenses) }))
+      .sort((a, b) => b.expenses - a.expenses || b.income - a.income),
+    byPerson: Array.from(byPerson.values())
+      .map(p => ({ ...p, income: round(p.income), expenses: round(p.expenses), savings: round(p.savings) }))
+      .sort((a, b) => a.personLabel.localeCompare(b.personLabel)),
+    occurrences,
+  };
+}
+
+// What a month's budget balance (available - spent) contributes to the next month
+function carryForward(policy: BudgetRolloverPolicy, balance: number): number {
+  switch (policy) {
+    case "carry_surplus": return Math.max(balance, 0);
+    case "carry_deficit": return Math.min(balance, 0);
+    default: return 0;
+  }
+}
+
+/**
+ * Budget vs. actual of every expense category with a monthly budget for one month ('YYYY-MM').
+ * Spent counts paid and already due expenses; projected adds the unpaid ones still to come,
+ * so a limit can be flagged before it is actually exceeded. Rollover is applied month by
+ * month from the month the budget was set up.
+ */
+export async function getCategoryBudgets(householdId: number, month: string): Promise<CategoryBudgetStatus[]> {
+  const monthStart = startOfMonth(parse(month, "yyyy-MM", new Date()));
+  const monthEnd = endOfMonth(monthStart);
+
+  const [transactions, allOverrides, categories, budgetOverrides, lines] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getCategories(householdId),
+    storage.getCategoryBudgetOverrides(householdId),
+    getLinesByTransaction(householdId),
+  ]);
+
+  const budgeted = categories.filter(c => c.isExpense && c.monthlyBudget !== null);
+  if (budgeted.length === 0) return [];
+
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+  const limits = new Map(budgetOverrides.map(o => [`${o.categoryId}:${o.month}`, o.amount]));
+
+  // Expenses by category and month, from the earliest month any rollover starts
+  const firstMonth = budgeted
+    .map(c => (c.budgetRollover !== "reset" && c.budgetStartMonth && c.budgetStartMonth < month ? c.budgetStartMonth : month))
+    .reduce((earliest, m) => (m < earliest ? m : earliest), month);
+  const rangeStart = parse(firstMonth, "yyyy-MM", new Date());
+  const { occurrences } = collectOccurrences(transactions, overrides, rangeStart, monthEnd, lines);
+
+  // Expenses by category with split transactions by line
+  const expenseParts = occurrences
+    .filter(occurrence => occurrence.isExpense)
+    .flatMap(occurrence => occurrenceParts(occurrence).map(part => ({ ...part, date: occurrence.date, isPaid: occurrence.isPaid })));
+
+  const expensesByMonth = new Map<string, number>();
+  for (const part of expenseParts) {
+    if (part.categoryId === null) continue;
+    const key = `${part.categoryId}:${part.date.slice(0, 7)}`;
+    expensesByMonth.set(key, (expensesByMonth.get(key) ?? 0) + part.amount);
+  }
+
+  const today = toDateKey(new Date());
+
+  return budgeted.map(category => {
+    const limitFor = (m: string) => limits.get(`${category.id}:${m}`) ?? category.monthlyBudget!;
+    const rollover = category.budgetRollover as BudgetRolloverPolicy;
+
+    let carriedOver = 0;
+    if (rollover !== "reset" && category.budgetStartMonth) {
+      for (
+        let current = parse(category.budgetStartMonth, "yyyy-MM", new Date());
+        current < monthStart;
+        current = addMonths(current, 1)
+      ) {
+        const m = format(current, "yyyy-MM");
+        const balance = carriedOver + limitFor(m) - (expensesByMonth.get(`${category.id}:${m}`) ?? 0);
+        carriedOver = carryForward(rollover, balance);
+      }
+    }
+
+    const categoryParts = expenseParts.filter(part =>
+      part.categoryId === category.id && part.date.slice(0, 7) === month
+    );
+    const spent = sumAmounts(categoryParts.filter(part => part.isPaid || part.date <= today));
+    const projected = sumAmounts(categoryParts);
+    const limit = limitFor(month);
+    const available = limit + carriedOver;
+
+    return {
+      categoryId: category.id,
+      name: category.name,
+      color: category.color,
+      emoji: category.emoji,
+      limit: round(limit),
+      isOverride: limits.has(`${category.id}:${month}`),
+      rollover,
+      carriedOver: round(carriedOver),
+      available: round(available),
+      spent: round(spent),
+      projected: round(projected),
+      remaining: round(available - projected),
+      isOverspent: round(spent) > round(available),
+      willOverspend: round(projected) > round(available),
+    };
+  // Categories heading over their limit first
+  }).sort((a, b) => Number(b.willOverspend) - Number(a.willOverspend) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Projected end-of-day balance of every day from today (or the balance date, if that is later)
+ * to `months` months ahead.
+ * Starts from the household's opening balance and adds every income and expense occurrence
+ * after the balance date (skips and overrides applied), less savings deposits and the goal
+ * auto-contributions still to come. Flags the lowest day and the first day below the threshold.
+ */
+export async function getCashFlowForecast(householdId: number, months: ForecastHorizon): Promise<CashFlowForecast> {
+  const [transactions, allOverrides, allSavings, goals, settings] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getSavings(householdId),
+    storage.getSavingsGoals(householdId),
+    storage.getForecastSettings(householdId),
+  ]);
+
+  const today = startOfDay(new Date());
+  const balanceDate = settings ? parseISO(settings.balanceDate) : today;
+  const openingBalance = settings?.openingBalance ?? 0;
+  const lowBalanceThreshold = settings?.lowBalanceThreshold ?? 0;
+  const firstDay = balanceDate > today ? balanceDate : today;
+  const end = endOfDay(addMonths(firstDay, months));
+
+  // The opening balance already holds everything up to the end of its day
+  const rangeStart = addDays(balanceDate, 1);
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+  const { occurrences } = collectOccurrences(transactions, overrides, rangeStart, end);
+
+  const days = new Map<string, CashFlowForecastDay>();
+  const dayOf = (date: string) => {
+    const day = days.get(date) ?? { date, income: 0, expenses: 0, savings: 0, balance: 0, items: [] };
+    days.set(date, day);
+    return day;
+  };
+
+  for (const occurrence of occurrences) {
+    const day = dayOf(occurrence.date);
+    if (occurrence.isExpense) day.expenses += occurrence.amount;
+    else day.income += occurrence.amount;
+    day.items.push({ title: occurrence.title, amount: occurrence.isExpense ? -occurrence.amount : occurrence.amount });
+  }
+
+  for (const entry of allSavings) {
+    const date = new Date(entry.date);
+    if (date < rangeStart || date > end) continue;
+    const day = dayOf(toDateKey(date));
+    day.savings += entry.amount;
+    day.items.push({ title: entry.notes || (entry.amount < 0 ? "Savings withdrawal" : "Savings"), amount: -entry.amount });
+  }
+
+  for (const goal of goals) {
+    const saved = sumAmounts(allSavings.filter(s => s.goalId === goal.id));
+    for (const contribution of plannedContributions(goal, saved, end)) {
+      if (contribution.date < toDateKey(rangeStart)) continue;
+      const day = dayOf(contribution.date);
+      day.savings += contribution.amount;
+      day.items.push({ title: `Auto-contribution to ${goal.name}`, amount: -contribution.amount });
+    }
+  }
+
+  // Running balance; days before the first shown one only move it
+  const forecast: CashFlowForecastDay[] = [];
+  let balance = openingBalance;
+  for (let date = balanceDate; date <= end; date = addDays(date, 1)) {
+    const key = toDateKey(date);
+    const day = days.get(key) ?? { date: key, income: 0, expenses: 0, savings: 0, balance: 0, items: [] };
+    balance += day.income - day.expenses - day.savings;
+    if (date < firstDay) continue;
+
+    forecast.push({
+      ...day,
+      income: round(day.income),
+      expenses: round(day.expenses),
+      savings: round(day.savings),
+      balance: round(balance),
+      items: day.items.map(item => ({ ...item, amount: round(item.amount) })),
+    });
+  }
+
+  const lowest = forecast.reduce((low, day) => (day.balance < low.balance ? day : low), forecast[0]);
+  const firstBelow = forecast.find(day => day.balance < lowBalanceThreshold);
+
+  return {
+    months,
+    isConfigured: !!settings,
+    openingBalance,
+    balanceDate: toDateKey(balanceDate),
+    lowBalanceThreshold,
+    days: forecast,
+    lowest: { date: lowest.date, balance: lowest.balance },
+    firstBelowThreshold: firstBelow ? { date: firstBelow.date, balance: firstBelow.balance } : null,
+  };
+}
@@ -0,0 +1,253 @@
+import { readFile } from "fs/promises";
+import { format, parseISO, isValid, addDays, subDays, differenceInCalendarDays, min } from "date-fns";
+import { storage } from "./storage";
+import {
+  BASE_CURRENCY,
+  type ExchangeRate,
+  type ExchangeRateSource,
+  type InsertExchangeRate,
+  type CurrencyConversion,
+  type InsertTransaction,
+  type Transaction,
+} from "@shared/schema";
+
+const NBP_API = "https://api.nbp.pl/api/exchangerates";
+// NBP answers at most 93 days of tables per request
+const NBP_MAX_RANGE_DAYS = 93;
+// Rates are only published on working days, so the last one before a long weekend can be this old
+const RATE_MAX_AGE_DAYS = 7;
+
+type NbpTable = {
+  effectiveDate: string;
+  rates: { code: string; mid: number }[];
+};
+
+type ParsedRates = {
+  rates: InsertExchangeRate[];
+  errors: string[];
+};
+
+// The fields of a transaction that depend on its currency
+export type CurrencyFields = Pick<Transaction, "amount" | "originalAmount" | "originalCurrency" | "exchangeRate" | "rateDate">;
+
+function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function isNbpTable(value: unknown): value is NbpTable {
+  const table = value as NbpTable;
+  return typeof table?.effectiveDate === "string" && Array.isArray(table.rates);
+}
+
+function ratesFromNbpTables(tables: NbpTable[], source: ExchangeRateSource): InsertExchangeRate[] {
+  return tables.flatMap(table => table.rates
+    .filter(rate => typeof rate.code === "string" && typeof rate.mid === "number")
+    .map(rate => ({ currency: rate.code.toUpperCase(), date: table.effectiveDate, rate: rate.mid, source }))
+  );
+}
+
+// NBP answers 404 for a range without any published table (weekends, holidays) or an unknown currency
+async function fetchNbp<T>(path: string): Promise<T | null> {
+  const response = await fetch(`${NBP_API}${path}?format=json`, { headers: { Accept: "application/json" } });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`NBP responded with ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Download NBP table A for every working day between two dates ('YYYY-MM-DD') into the rate table
+ */
+export async function fetchNbpRates(from: string, to: string): Promise<number> {
+  const end = parseISO(to);
+  let saved = 0;
+
+  for (let start = parseISO(from); start <= end; start = addDays(start, NBP_MAX_RANGE_DAYS)) {
+    const chunkEnd = min([addDays(start, NBP_MAX_RANGE_DAYS - 1), end]);
+    const tables = await fetchNbp<NbpTable[]>(`/tables/a/${toDateKey(start)}/${toDateKey(chunkEnd)}/`);
+    if (tables) {
+      saved += await storage.upsertExchangeRates(ratesFromNbpTables(tables, "nbp"));
+    }
+  }
+  return saved;
+}
+
+// The rates of one currency for the days before a date, so the last published one is among them
+async function fetchNbpRate(currency: string, date: string): Promise<ExchangeRate | undefined> {
+  const start = toDateKey(subDays(parseISO(date), RATE_MAX_AGE_DAYS));
+  const series = await fetchNbp<{ code: string; rates: { effectiveDate: string; mid: number }[] }>(
+    `/rates/a/${currency.toLowerCase()}/${start}/${date}/`
+  );
+  if (!series || series.rates.length === 0) return undefined;
+
+  await storage.upsertExchangeRates(series.rates.map(rate => ({
+    currency, date: rate.effectiveDate, rate: rate.mid, source: "nbp" as const,
+  })));
+  return storage.findExchangeRate(currency, date);
+}
+
+/**
+ * Rates from a file: an NBP table A JSON download, or CSV lines of `date,currency,rate`
+ * (rate in PLN per unit; `;` separated lines may use a decimal comma)
+ */
+export function parseRateFile(content: string): ParsedRates {
+  const text = content.replace(/^\uFEFF/, "").trim();
+
+  if (text.startsWith("[") || text.startsWith("{")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { rates: [], errors: ["The file is not valid JSON"] };
+    }
+    const tables = Array.isArray(parsed) ? parsed : [parsed];
+    if (!tables.every(isNbpTable)) {
+      return { rates: [], errors: ["The JSON is not an NBP exchange rate table"] };
+    }
+    return { rates: ratesFromNbpTables(tables, "file"), errors: [] };
+  }
+
+  const rates: InsertExchangeRate[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const delimiter = line.includes(";") ? ";" : ",";
+    const [date, currency, rate] = line.split(delimiter).map(field => field.trim().replace(/^"|"$/g, ""));
+
+    // A header line is allowed
+    if (index === 0 && !/^\d/.test(date)) return;
+
+    const value = parseFloat((rate ?? "").replace(",", "."));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValid(parseISO(date))) {
+      errors.push(`Line ${index + 1}: "${date}" is not a YYYY-MM-DD date`);
+    } else if (!/^[A-Za-z]{3}$/.test(currency ?? "")) {
+      errors.push(`Line ${index + 1}: "${currency ?? ""}" is not a currency code`);
+    } else if (isNaN(value) || value <= 0) {
+      errors.push(`Line ${index + 1}: "${rate ?? ""}" is not a rate`);
+    } else {
+      rates.push({ currency: currency.toUpperCase(), date, rate: value, source: "file" });
+    }
+  });
+
+  if (rates.length === 0 && errors.length === 0) {
+    errors.push("The file has no rates");
+  }
+  return { rates, errors };
+}
+
+export async function importRateFile(content: string): Promise<{ imported: number; errors: string[] }> {
+  const { rates, errors } = parseRateFile(content);
+  return { imported: await storage.upsertExchangeRates(rates), errors };
+}
+
+/**
+ * Load the rate file named by EXCHANGE_RATES_FILE, for installations without access to the NBP API
+ */
+export async function loadRateFileFromEnv(): Promise<void> {
+  const path = process.env.EXCHANGE_RATES_FILE;
+  if (!path) return;
+
+  try {
+    const { imported, errors } = await importRateFile(await readFile(path, "utf8"));
+    console.log(`[RATES] Loaded ${imported} exchange rates from ${path}`);
+    errors.slice(0, 10).forEach(error => console.warn(`[RATES] ${path}: ${error}`));
+  } catch (error) {
+    console.error(`[RATES] Could not load exchange rates from ${path}:`, error);
+  }
+}
+
+/**
+ * The rate a currency was converted to PLN at on a date: the last one published on or before it.
+ * Rates the table doesn't have yet are fetched from NBP.
+ */
+export async function findRate(currency: string, date: string): Promise<ExchangeRate | undefined> {
+  const stored = await storage.findExchangeRate(currency, date);
+  // Future dates use the latest rate there is
+  const asOf = min([parseISO(date), new Date()]);
+  if (stored && differenceInCalendarDays(asOf, parseISO(stored.date)) <= RATE_MAX_AGE_DAYS) {
+    return stored;
+  }
+
+  try {
+    return await fetchNbpRate(currency, toDateKey(asOf)) ?? stored;
+  } catch (error) {
+    console.error(`[RATES] Could not fetch the ${currency} rate for ${date} from NBP:`, error);
+    return stored;
+  }
+}
+
+export async function convertToBase(currency: string, amount: number, date: string): Promise<CurrencyConversion | undefined> {
+  if (currency === BASE_CURRENCY) {
+    return { currency, amount, rate: 1, rateDate: date, baseAmount: round(amount) };
+  }
+
+  const rate = await findRate(currency, date);
+  if (!rate) return undefined;
+  return { currency, amount, rate: rate.rate, rateDate: rate.date, baseAmount: round(amount * rate.rate) };
+}
+
+/**
+ * The PLN amount of a transaction and the rate it was converted at. A rate given with the
+ * transaction (e.g. from a card statement) is kept; otherwise the rate table's rate for its date is used.
+ * Undefined when no rate is known for the currency.
+ */
+export async function resolveCurrencyFields(
+  transaction: Pick<InsertTransaction, "amount" | "date" | "originalAmount" | "originalCurrency" | "exchangeRate">
+): Promise<CurrencyFields | undefined> {
+  const currency = transaction.originalCurrency;
+  if (!currency || currency === BASE_CURRENCY) {
+    return { amount: transaction.amount, originalAmount: null, originalCurrency: null, exchangeRate: null, rateDate: null };
+  }
+
+  // Without an original amount, the amount is the one in the original currency
+  const originalAmount = transaction.originalAmount ?? transaction.amount;
+  const date = toDateKey(transaction.date);
+
+  if (transaction.exchangeRate) {
+    return {
+      amount: round(originalAmount * transaction.exchangeRate),
+      originalAmount,
+      originalCurrency: currency,
+      exchangeRate: transaction.exchangeRate,
+      rateDate: date,
+    };
+  }
+
+  const rate = await findRate(currency, date);
+  if (!rate) return undefined;
+  return {
+    amount: round(originalAmount * rate.rate),
+    originalAmount,
+    originalCurrency: currency,
+    exchangeRate: rate.rate,
+    rateDate: rate.date,
+  };
+}
+
+/**
+ * `changes` to a transaction with its amount converted again when they touch its currency,
+ * original amount or rate. Undefined when no rate is known for the new currency.
+ */
+export async function resolveCurrencyChanges(
+  transaction: Transaction,
+  changes: Partial<Transaction>
+): Promise<Partial<Transaction> | undefined> {
+  if (changes.originalAmount === undefined && changes.originalCurrency === undefined && changes.exchangeRate === undefined) {
+    return changes;
+  }
+
+  const currencyFields = await resolveCurrencyFields({
+    amount: changes.amount ?? transaction.amount,
+    date: changes.date ?? transaction.date,
+    originalAmount: changes.originalAmount !== undefined ? changes.originalAmount : transaction.originalAmount,
+    originalCurrency: changes.originalCurrency !== undefined ? changes.originalCurrency : transaction.originalCurrency,
+    exchangeRate: changes.exchangeRate,
+  });
+  return currencyFields && { ...changes, ...currencyFields };
+}
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { DEFAULT_HOUSEHOLD_ID, type HouseholdRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      household?: { id: number; role: HouseholdRole };
+    }
+  }
+}
+
+// Header the client uses to pick one of the user's households
+export const HOUSEHOLD_HEADER = "x-household-id";
+
+const roleRank: Record<HouseholdRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export function hasRole(role: HouseholdRole, minRole: HouseholdRole): boolean {
+  return roleRank[role] >= roleRank[minRole];
+}
+
+/**
+ * The role anonymous requests get on the default household, for running the app single-user
+ * or in development: VITE_ANONYMOUS_HOUSEHOLD_ROLE=viewer|editor, which also lets the client
+ * skip the login page. Unset, anonymous requests have no access.
+ */
+export function getAnonymousRole(): HouseholdRole | null {
+  const role = process.env.ANONYMOUS_HOUSEHOLD_ROLE || process.env.VITE_ANONYMOUS_HOUSEHOLD_ROLE;
+  return role === "viewer" || role === "editor" ? role : null;
+}
+
+/**
+ * Resolve the household every /api request works on.
+ * Logged-in users get the household from the X-Household-Id header (or their first one)
+ * and must be a member of it. Anonymous requests are turned away unless single-user mode
+ * gives them a role on the default household (see getAnonymousRole).
+ */
+export async function resolveHousehold(req: Request, res: Response, next: NextFunction) {
+  try {
+    const requestedId = req.header(HOUSEHOLD_HEADER) ? parseInt(req.header(HOUSEHOLD_HEADER) as string) : undefined;
+    if (requestedId !== undefined && isNaN(requestedId)) {
+      return res.status(400).json({ message: "Invalid household ID" });
+    }
+
+    if (!req.isAuthenticated || !req.isAuthenticated() || !req.user) {
+      const anonymousRole = getAnonymousRole();
+      if (!anonymousRole) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      req.household = { id: DEFAULT_HOUSEHOLD_ID, role: anonymousRole };
+      return next();
+    }
+
+    const memberships = await storage.getHouseholdsForUser(req.user.id);
+    const membership = requestedId === undefined
+      ? memberships[0]
+      : memberships.find(m => m.household.id === requestedId);
+
+    if (!membership) {
+      return res.status(403).json({ message: "You are not a member of this household" });
+    }
+
+    req.household = { id: membership.household.id, role: membership.role };
+    next();
+  } catch (error) {
+    console.error("[HOUSEHOLD] Error resolving household:", error);
+    res.status(500).json({ message: "Failed to resolve household" });
+  }
+}
+
+/**
+ * Only let the request through when the caller's role in the current household is at least `minRole`
+ */
+export function requireRole(minRole: HouseholdRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.household || !hasRole(req.household.role, minRole)) {
+      return res.status(403).json({ message: `This action requires the ${minRole} role` });
+    }
+    next();
+  };
+}
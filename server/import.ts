@@ -0,0 +1,485 @@
+import { format, parse, isValid, addDays, subDays, endOfDay } from "date-fns";
+import { storage } from "./storage";
+import { transactionDates } from "./budget";
+import type {
+  Transaction,
+  Category,
+  CsvMapping,
+  ImportFormat,
+  ImportPreview,
+  ImportPreviewRow,
+} from "@shared/schema";
+
+// A row as read from the statement; negative amounts are money going out
+export type StatementRow = {
+  line: number;
+  date: string; // 'YYYY-MM-DD'
+  title: string;
+  notes: string | null;
+  amount: number;
+};
+
+type ParsedStatement = {
+  rows: StatementRow[];
+  errors: string[];
+};
+
+// An existing transaction counts as the same row when it's this close in time...
+const DUPLICATE_WINDOW_DAYS = 3;
+// ...and its title is at least this similar (0-1, see titleSimilarity)
+const DUPLICATE_TITLE_SIMILARITY = 0.6;
+// Similarity a past transaction needs for its category to be suggested
+const CATEGORY_TITLE_SIMILARITY = 0.7;
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split("\n").length;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Split CSV text into records, honouring quoted fields with delimiters, doubled quotes and line breaks
+ */
+function parseCsvRecords(content: string, delimiter: string): { fields: string[]; line: number }[] {
+  const records: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      fields.push(field);
+      if (fields.some(value => value.trim() !== "")) {
+        records.push({ fields, line: recordLine });
+      }
+      fields = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  if (fields.some(value => value.trim() !== "")) {
+    records.push({ fields, line: recordLine });
+  }
+  return records;
+}
+
+// Banks decorate headers differently ('#Data operacji', ' Kwota '), so compare loosely
+function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, "").replace(/^#/, "").trim().toLowerCase();
+}
+
+function parseAmount(value: string, decimalSeparator: string): number {
+  let cleaned = value.replace(/[\s\u00A0]/g, "").replace(/\u2212/g, "-").replace(/[^\d.,+-]/g, "");
+  cleaned = decimalSeparator === ","
+    ? cleaned.replace(/\./g, "").replace(",", ".")
+    : cleaned.replace(/,/g, "");
+  return cleaned ? Number(cleaned) : NaN;
+}
+
+function parseCsv(content: string, mapping: CsvMapping): ParsedStatement {
+  const records = parseCsvRecords(content, mapping.delimiter);
+  const wanted = {
+    date: normalizeHeader(mapping.dateColumn),
+    amount: normalizeHeader(mapping.amountColumn),
+    title: normalizeHeader(mapping.titleColumn),
+    notes: mapping.notesColumn ? normalizeHeader(mapping.notesColumn) : null,
+  };
+
+  // Exports often start with account details; the header is the first record naming every mapped column
+  const headerIndex = records.findIndex(record => {
+    const headers = record.fields.map(normalizeHeader);
+    return headers.includes(wanted.date) && headers.includes(wanted.amount) && headers.includes(wanted.title);
+  });
+  if (headerIndex === -1) {
+    return {
+      rows: [],
+      errors: [`No header row with the columns "${mapping.dateColumn}", "${mapping.amountColumn}" and "${mapping.titleColumn}" was found`],
+    };
+  }
+
+  const headers = records[headerIndex].fields.map(normalizeHeader);
+  const column = {
+    date: headers.indexOf(wanted.date),
+    amount: headers.indexOf(wanted.amount),
+    title: headers.indexOf(wanted.title),
+    notes: wanted.notes ? headers.indexOf(wanted.notes) : -1,
+  };
+
+  const rows: StatementRow[] = [];
+  const errors: string[] = [];
+
+  for (const { fields, line } of records.slice(headerIndex + 1)) {
+    const rawDate = (fields[column.date] ?? "").trim();
+    const rawAmount = (fields[column.amount] ?? "").trim();
+
+    // Summary lines at the bottom of a statement have no date
+    if (!rawDate) continue;
+
+    const date = parse(rawDate.slice(0, mapping.dateFormat.length), mapping.dateFormat, new Date());
+    if (!isValid(date)) {
+      errors.push(`Line ${line}: "${rawDate}" is not a ${mapping.dateFormat} date`);
+      continue;
+    }
+
+    const amount = parseAmount(rawAmount, mapping.decimalSeparator);
+    if (isNaN(amount)) {
+      errors.push(`Line ${line}: "${rawAmount}" is not an amount`);
+      continue;
+    }
+    if (amount === 0) continue;
+
+    const notes = column.notes >= 0 ? collapseWhitespace(fields[column.notes] ?? "") : "";
+    rows.push({
+      line,
+      date: format(date, "yyyy-MM-dd"),
+      title: collapseWhitespace(fields[column.title] ?? "") || "Imported transaction",
+      notes: notes || null,
+      amount,
+    });
+  }
+
+  return { rows, errors };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Works for both SGML (OFX 1.x, no closing tags) and XML (OFX 2.x) statements
+function ofxField(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match ? collapseWhitespace(decodeEntities(match[1])) : "";
+  return value || null;
+}
+
+function parseOfx(content: string): ParsedStatement {
+  const rows: StatementRow[] = [];
+  const errors: string[] = [];
+  const blockPattern = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(content)) !== null) {
+    const block = match[1];
+    const line = lineAt(content, match.index);
+
+    const posted = ofxField(block, "DTPOSTED");
+    const dateMatch = posted?.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!dateMatch) {
+      errors.push(`Line ${line}: transaction has no valid DTPOSTED`);
+      continue;
+    }
+
+    const rawAmount = ofxField(block, "TRNAMT");
+    const amount = rawAmount ? Number(rawAmount.replace(",", ".")) : NaN;
+    if (isNaN(amount)) {
+      errors.push(`Line ${line}: "${rawAmount ?? ""}" is not an amount`);
+      continue;
+    }
+    if (amount === 0) continue;
+
+    const name = ofxField(block, "NAME") ?? ofxField(block, "PAYEE");
+    const memo = ofxField(block, "MEMO");
+    rows.push({
+      line,
+      date: `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`,
+      title: name ?? memo ?? "Imported transaction",
+      notes: name && memo && memo !== name ? memo : null,
+      amount,
+    });
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push("No <STMTTRN> transactions were found; is this an OFX/QFX file?");
+  }
+  return { rows, errors };
+}
+
+/**
+ * Read the :86: information field. Polish banks structure it with ~NN (or ^NN) subfields:
+ * ~20-~25 hold the payment title and ~32-~33 the counterparty's name.
+ */
+function parseMt940Details(info: string): { title: string | null; notes: string | null } {
+  if (!/[~^]\d{2}/.test(info)) {
+    return { title: collapseWhitespace(info) || null, notes: null };
+  }
+
+  const subfields = new Map<number, string>();
+  for (const part of info.split(/(?=[~^]\d{2})/)) {
+    const code = parseInt(part.slice(1, 3));
+    if (!isNaN(code)) subfields.set(code, part.slice(3));
+  }
+
+  const join = (from: number, to: number) => {
+    const parts: string[] = [];
+    for (let code = from; code <= to; code++) {
+      if (subfields.has(code)) parts.push(subfields.get(code)!);
+    }
+    return collapseWhitespace(parts.join("")) || null;
+  };
+
+  const description = join(20, 25);
+  const counterparty = join(32, 33);
+  return counterparty
+    ? { title: counterparty, notes: description }
+    : { title: description, notes: null };
+}
+
+function parseMt940(content: string): ParsedStatement {
+  const rows: StatementRow[] = [];
+  const errors: string[] = [];
+  const lines = content.split(/\r?\n/);
+
+  // Each :61: statement line may be directly followed by one :86: information field, possibly wrapped
+  // over several lines. An :86: anywhere else, e.g. after the closing balance, describes the statement.
+  type Entry = { line: number; statement: string; info: string };
+  const entries: Entry[] = [];
+  let lastEntry: Entry | null = null; // the :61: entry when it was the last tag
+  let describedEntry: Entry | null = null; // the entry the :86: being read belongs to
+
+  lines.forEach((text, index) => {
+    const tagMatch = text.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      const tag = tagMatch[1];
+      describedEntry = tag === "86" ? lastEntry : null;
+      lastEntry = null;
+      if (tag === "61") {
+        lastEntry = { line: index + 1, statement: tagMatch[2], info: "" };
+        entries.push(lastEntry);
+      } else if (describedEntry) {
+        describedEntry.info = tagMatch[2];
+      }
+    } else if (/^-}?$|^\{/.test(text)) {
+      // The end of a statement or the header of the next one
+      lastEntry = describedEntry = null;
+    } else if (describedEntry) {
+      describedEntry.info += text;
+    }
+  });
+
+  for (const entry of entries) {
+    // YYMMDD value date, optional MMDD entry date, (R)C/D mark, optional funds code, amount with a decimal comma
+    const match = entry.statement.match(/^(\d{2})(\d{2})(\d{2})(?:\d{4})?(RC|RD|C|D)[A-Z]?(\d+(?:,\d*)?)/);
+    if (!match) {
+      errors.push(`Line ${entry.line}: unreadable :61: statement line`);
+      continue;
+    }
+
+    const [, year, month, day, mark, rawAmount] = match;
+    const date = parse(`20${year}-${month}-${day}`, "yyyy-MM-dd", new Date());
+    if (!isValid(date)) {
+      errors.push(`Line ${entry.line}: "${year}${month}${day}" is not a valid date`);
+      continue;
+    }
+
+    const amount = Number(rawAmount.replace(",", "."));
+    if (amount === 0) continue;
+
+    // Debits and reversed credits take money out
+    const isDebit = mark === "D" || mark === "RC";
+    const { title, notes } = parseMt940Details(entry.info);
+    rows.push({
+      line: entry.line,
+      date: format(date, "yyyy-MM-dd"),
+      title: title ?? "Imported transaction",
+      notes,
+      amount: isDebit ? -amount : amount,
+    });
+  }
+
+  if (entries.length === 0) {
+    errors.push("No :61: statement lines were found; is this an MT940 file?");
+  }
+  return { rows, errors };
+}
+
+export function parseStatement(formatName: ImportFormat, content: string, mapping?: CsvMapping): ParsedStatement {
+  switch (formatName) {
+    case "csv":
+      return parseCsv(content, mapping!);
+    case "ofx":
+      return parseOfx(content);
+    case "mt940":
+      return parseMt940(content);
+  }
+}
+
+function titleTokens(title: string): string[] {
+  return title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ł/g, "l")
+    .replace(/Ł/g, "L")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+function bigrams(text: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+}
+
+/**
+ * How alike two titles are, from 0 to 1. Bank descriptions carry extra noise
+ * ("NETFLIX.COM AMSTERDAM NL" vs "Netflix"), so a title whose words all appear
+ * in the other counts as a full match.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = titleTokens(a);
+  const tokensB = titleTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const contained = shorter.filter(token => longer.some(other => other.startsWith(token))).length / shorter.length;
+
+  const bigramsA = bigrams(tokensA.join(" "));
+  const bigramsB = bigrams(tokensB.join(" "));
+  const remaining = [...bigramsB];
+  let shared = 0;
+  for (const gram of bigramsA) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  const dice = bigramsA.length + bigramsB.length > 0 ? (2 * shared) / (bigramsA.length + bigramsB.length) : 0;
+
+  return Math.max(contained, dice);
+}
+
+/**
+ * The existing transaction (or recurring occurrence) a statement row most likely already is:
+ * same direction and amount, dated within a few days, with a similar title.
+ * `claimed` keeps two rows from both matching the same occurrence.
+ */
+function findDuplicate(row: StatementRow, transactions: Transaction[], claimed: Set<string>): number | null {
+  const rowDate = parse(row.date, "yyyy-MM-dd", new Date());
+  const windowStart = subDays(rowDate, DUPLICATE_WINDOW_DAYS);
+  const windowEnd = endOfDay(addDays(rowDate, DUPLICATE_WINDOW_DAYS));
+  const isExpense = row.amount < 0;
+  const amount = Math.abs(row.amount);
+
+  let best: { key: string; id: number; score: number } | null = null;
+  for (const transaction of transactions) {
+    if (transaction.isExpense !== isExpense || Math.abs(transaction.amount - amount) >= 0.01) continue;
+
+    const similarity = titleSimilarity(row.title, transaction.title);
+    if (similarity < DUPLICATE_TITLE_SIMILARITY) continue;
+
+    for (const date of transactionDates(transaction, windowStart, windowEnd)) {
+      const key = `${transaction.id}:${format(date, "yyyy-MM-dd")}`;
+      if (claimed.has(key)) continue;
+
+      // Prefer the closest date among equally similar titles
+      const distance = Math.abs(date.getTime() - rowDate.getTime()) / 86400000;
+      const score = similarity - distance / 100;
+      if (!best || score > best.score) {
+        best = { key, id: transaction.id, score };
+      }
+    }
+  }
+
+  if (!best) return null;
+  claimed.add(best.key);
+  return best.id;
+}
+
+/**
+ * Category for a statement row: the category of the most similar past transaction,
+ * otherwise a category whose name appears in the title
+ */
+function suggestCategory(row: StatementRow, transactions: Transaction[], categories: Category[]): number | null {
+  const isExpense = row.amount < 0;
+  const known = new Set(categories.map(c => c.id));
+
+  let best: { categoryId: number; similarity: number } | null = null;
+  for (const transaction of transactions) {
+    if (transaction.isExpense !== isExpense || transaction.categoryId === null || !known.has(transaction.categoryId)) continue;
+
+    const similarity = titleSimilarity(row.title, transaction.title);
+    if (similarity >= CATEGORY_TITLE_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { categoryId: transaction.categoryId, similarity };
+    }
+  }
+  if (best) return best.categoryId;
+
+  const words = new Set(titleTokens(`${row.title} ${row.notes ?? ""}`));
+  const byName = categories.find(category =>
+    category.isExpense === isExpense &&
+    titleTokens(category.name).length > 0 &&
+    titleTokens(category.name).every(token => words.has(token))
+  );
+  return byName?.id ?? null;
+}
+
+/**
+ * Read a bank statement and prepare its rows for review: amounts split into
+ * income/expense, categories suggested and likely duplicates flagged.
+ * Nothing is written; the reviewed rows come back through POST /api/import/commit.
+ */
+export async function previewImport(
+  householdId: number,
+  formatName: ImportFormat,
+  content: string,
+  mapping?: CsvMapping
+): Promise<ImportPreview> {
+  const { rows, errors } = parseStatement(formatName, content, mapping);
+
+  const [transactions, categories] = await Promise.all([
+    storage.getTransactions(householdId),
+    storage.getCategories(householdId),
+  ]);
+
+  const claimed = new Set<string>();
+  const previewRows: ImportPreviewRow[] = rows.map(row => ({
+    line: row.line,
+    date: row.date,
+    title: row.title,
+    notes: row.notes,
+    amount: round(Math.abs(row.amount)),
+    isExpense: row.amount < 0,
+    categoryId: suggestCategory(row, transactions, categories),
+    duplicateOf: findDuplicate(row, transactions, claimed),
+  }));
+
+  previewRows.sort((a, b) => a.date.localeCompare(b.date) || a.line - b.line);
+  return { rows: previewRows, errors };
+}
@@ -2,9 +2,13 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { loadRateFileFromEnv } from "./exchange-rates";
+import { scheduleTrashPurge } from "./trash";
+import { scheduleContributions } from "./savings-goals";
 
 const app = express();
-app.use(express.json());
+// Bank statements are uploaded as JSON, so allow more than the 100kb default
+app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -39,6 +43,9 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  await loadRateFileFromEnv();
+  scheduleTrashPurge();
+  scheduleContributions();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
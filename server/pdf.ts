@@ -0,0 +1,205 @@
+import { deflateSync } from "zlib";
+
+// Minimal PDF writer: A4 pages of text, filled rectangles and lines in the standard
+// Helvetica fonts, which every viewer has, so nothing is embedded or fetched.
+// Coordinates are in points from the top-left corner of the page.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type PdfColor = [number, number, number]; // red, green and blue, 0 to 1
+export type PdfFont = "regular" | "bold";
+
+export type PdfOp =
+  | { type: "text"; x: number; y: number; text: string; size: number; font?: PdfFont; color?: PdfColor; align?: "left" | "right" }
+  | { type: "rect"; x: number; y: number; width: number; height: number; color: PdfColor }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; color: PdfColor; width?: number };
+
+export type PdfPage = PdfOp[];
+
+const BLACK: PdfColor = [0, 0, 0];
+
+// Glyph widths (per 1000 units of font size) of the printable ASCII characters, from the fonts' AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Polish letters aren't in WinAnsiEncoding; the fonts have them, so they take the unused codes 1-16
+const EXTRA_GLYPHS: [string, string][] = [
+  ["ą", "aogonek"], ["Ą", "Aogonek"], ["ć", "cacute"], ["Ć", "Cacute"],
+  ["ę", "eogonek"], ["Ę", "Eogonek"], ["ł", "lslash"], ["Ł", "Lslash"],
+  ["ń", "nacute"], ["Ń", "Nacute"], ["ś", "sacute"], ["Ś", "Sacute"],
+  ["ź", "zacute"], ["Ź", "Zacute"], ["ż", "zdotaccent"], ["Ż", "Zdotaccent"],
+];
+const EXTRA_CODES = new Map(EXTRA_GLYPHS.map(([char], index) => [char, index + 1]));
+
+// Characters WinAnsiEncoding has between 0x80 and 0x9F
+const WIN_ANSI_CODES = new Map<string, number>([
+  ["€", 0x80], ["‚", 0x82], ["„", 0x84], ["…", 0x85], ["‘", 0x91], ["’", 0x92],
+  ["“", 0x93], ["”", 0x94], ["•", 0x95], ["–", 0x96], ["—", 0x97], ["™", 0x99],
+]);
+
+function charCode(char: string): number {
+  const code = char.codePointAt(0)!;
+  if (code >= 0x20 && code < 0x7f) return code;
+  const extra = EXTRA_CODES.get(char) ?? WIN_ANSI_CODES.get(char);
+  if (extra !== undefined) return extra;
+  if (code >= 0xa0 && code <= 0xff) return code;
+  // Without its accent, or a question mark when nothing is left
+  const base = char.normalize("NFD")[0];
+  return base !== char && base.charCodeAt(0) >= 0x20 && base.charCodeAt(0) < 0x7f ? base.charCodeAt(0) : 0x3f;
+}
+
+function charWidth(char: string, font: PdfFont): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const base = char.normalize("NFD").charCodeAt(0);
+  return base >= 0x20 && base < 0x7f ? widths[base - 0x20] : widths["o".charCodeAt(0) - 0x20];
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function textWidth(text: string, size: number, font: PdfFont = "regular"): number {
+  return Array.from(text).reduce((sum, char) => sum + charWidth(char, font), 0) * size / 1000;
+}
+
+/**
+ * `text` cut short with an ellipsis to fit `width`
+ */
+export function fitText(text: string, width: number, size: number, font: PdfFont = "regular"): string {
+  if (textWidth(text, size, font) <= width) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && textWidth(`${chars.join("")}…`, size, font) > width) chars.pop();
+  return `${chars.join("").trimEnd()}…`;
+}
+
+// '#rrggbb' as a PDF colour; anything else is black
+export function hexColor(hex: string): PdfColor {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) return BLACK;
+  return [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255];
+}
+
+// 'hsl(214, 82%, 51%)' as a PDF colour, as in theme.json; anything else is black
+export function hslColor(hsl: string): PdfColor {
+  const match = /^hsl\(\s*([\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*\)$/i.exec(hsl.trim());
+  if (!match) return BLACK;
+  const h = parseFloat(match[1]) / 360;
+  const s = parseFloat(match[2]) / 100;
+  const l = parseFloat(match[3]) / 100;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)];
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function colorOp(color: PdfColor, operator: "rg" | "RG"): string {
+  return `${color.map(num).join(" ")} ${operator}`;
+}
+
+function hexText(text: string): string {
+  return `<${Array.from(text).map(char => charCode(char).toString(16).padStart(2, "0")).join("")}>`;
+}
+
+// Document info strings in UTF-16, so any title can be shown
+function infoString(text: string): string {
+  return `<FEFF${Array.from(text).map(char => {
+    const code = char.codePointAt(0)!;
+    return code > 0xffff ? "FFFD" : code.toString(16).padStart(4, "0");
+  }).join("").toUpperCase()}>`;
+}
+
+function pageContent(ops: PdfPage): string {
+  return ops.map(op => {
+    switch (op.type) {
+      case "text": {
+        const font = op.font === "bold" ? "F2" : "F1";
+        const x = op.align === "right" ? op.x - textWidth(op.text, op.size, op.font) : op.x;
+        return `BT /${font} ${num(op.size)} Tf ${colorOp(op.color ?? BLACK, "rg")} ${num(x)} ${num(PAGE_HEIGHT - op.y)} Td ${hexText(op.text)} Tj ET`;
+      }
+      case "rect":
+        return `${colorOp(op.color, "rg")} ${num(op.x)} ${num(PAGE_HEIGHT - op.y - op.height)} ${num(op.width)} ${num(op.height)} re f`;
+      case "line":
+        return `${colorOp(op.color, "RG")} ${num(op.width ?? 0.5)} w ${num(op.x1)} ${num(PAGE_HEIGHT - op.y1)} m ${num(op.x2)} ${num(PAGE_HEIGHT - op.y2)} l S`;
+    }
+  }).join("\n");
+}
+
+/**
+ * A PDF of the pages, in order
+ */
+export function buildPdf(pages: PdfPage[], title: string): Buffer {
+  // Objects 1-5 are fixed; each page then takes two, the page and its content
+  const fixedCount = 5;
+  const pageIds = pages.map((_, index) => fixedCount + 1 + index * 2);
+  const encoding = `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [1 ${EXTRA_GLYPHS.map(([, name]) => `/${name}`).join(" ")}] >>`;
+  const font = (name: string) => `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding ${encoding} >>`;
+
+  const objects: Buffer[] = [
+    Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"),
+    Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`),
+    Buffer.from(font("Helvetica")),
+    Buffer.from(font("Helvetica-Bold")),
+    Buffer.from(`<< /Title ${infoString(title)} /Producer ${infoString("Expense Planner")} >>`),
+  ];
+  pages.forEach((page, index) => {
+    const content = deflateSync(Buffer.from(pageContent(page), "latin1"));
+    objects.push(Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    ));
+    objects.push(Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+      content,
+      Buffer.from("\nendstream"),
+    ]));
+  });
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), object, Buffer.from("\nendobj\n")]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(`${xref}\n`));
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,211 @@
+import { format, parseISO, endOfDay, differenceInCalendarDays } from "date-fns";
+import { storage } from "./storage";
+import { getRuledTransactions } from "./transaction-rules";
+import { getAccountBookings, getSavingsBookingsTotal } from "./accounts";
+import { parseStatement, titleSimilarity, type StatementRow } from "./import";
+import { getTransactionRecurrence } from "@shared/recurrence";
+import { isTransfer } from "@shared/schema";
+import type {
+  Account,
+  AccountEntry,
+  AccountReconciliation,
+  ClearedEntry,
+  ClearingStatus,
+  CsvMapping,
+  ImportFormat,
+  ReconciliationSuggestion,
+  Transaction,
+} from "@shared/schema";
+
+// A statement row matches an entry of the same amount dated this close to it
+const MATCH_WINDOW_DAYS = 3;
+
+// Fields of a transaction whose change would alter its reconciled entries
+const LOCKED_FIELDS = [
+  "amount", "date", "isExpense", "accountId", "transferAccountId",
+  "isRecurring", "recurringInterval", "recurringEndDate", "recurrenceRule", "recurrenceShift",
+  "originalAmount", "originalCurrency", "exchangeRate",
+] as const;
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function entryKey(transactionId: number, occurrenceDate: string): string {
+  return `${transactionId}:${occurrenceDate}`;
+}
+
+/**
+ * An account's statement reconciliation: the open reconciliation if there is one, the entries
+ * that are not reconciled yet and how far the cleared balance is from the statement
+ */
+export async function getAccountReconciliation(householdId: number, account: Account): Promise<AccountReconciliation> {
+  const [transactions, allOverrides, allSavings, accountReconciliations, cleared] = await Promise.all([
+    getRuledTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getSavings(householdId),
+    storage.getReconciliations(householdId, account.id),
+    storage.getClearedEntries(householdId, { accountId: account.id }),
+  ]);
+
+  // Latest statement first
+  const reconciliation = accountReconciliations.find(r => !r.finishedAt) ?? null;
+  const lastReconciliation = accountReconciliations.find(r => !!r.finishedAt) ?? null;
+  const endDate = reconciliation?.statementDate ?? format(new Date(), "yyyy-MM-dd");
+
+  const overrides = new Map(allOverrides.map(o => [entryKey(o.transactionId, o.occurrenceDate), o]));
+  const statuses = new Map<string, ClearingStatus>(cleared.map(entry => [
+    entryKey(entry.transactionId, entry.occurrenceDate),
+    entry.reconciliationId !== null ? "reconciled" : "cleared",
+  ]));
+
+  const entries: AccountEntry[] = getAccountBookings(account, transactions, overrides, endOfDay(parseISO(endDate)))
+    .map(booking => ({
+      transactionId: booking.transactionId,
+      occurrenceDate: booking.date,
+      title: booking.title,
+      amount: booking.amount,
+      status: statuses.get(entryKey(booking.transactionId, booking.date)) ?? "uncleared",
+    }));
+
+  // Savings entries are recorded when the money is moved, so they count as cleared
+  const clearedBalance = round(
+    account.openingBalance +
+    entries.filter(entry => entry.status !== "uncleared").reduce((sum, entry) => sum + entry.amount, 0) +
+    getSavingsBookingsTotal(account, allSavings, endDate)
+  );
+
+  return {
+    reconciliation,
+    lastReconciliation,
+    entries: entries.filter(entry => entry.status !== "reconciled"),
+    clearedBalance,
+    difference: reconciliation ? round(reconciliation.statementBalance - clearedBalance) : null,
+  };
+}
+
+/**
+ * Tick an occurrence off against the account's statement, or take the tick back.
+ * A cleared income or expense has been paid, so it is marked as paid too.
+ * Returns false when the transaction has no such occurrence on the account.
+ */
+export async function setEntryCleared(
+  householdId: number,
+  account: Account,
+  transaction: Transaction,
+  occurrenceDate: string,
+  isCleared: boolean
+): Promise<boolean> {
+  const overrides = new Map((await storage.getTransactionOccurrences(householdId, transaction.id))
+    .map(o => [entryKey(o.transactionId, o.occurrenceDate), o]));
+  const bookings = getAccountBookings(account, [transaction], overrides, endOfDay(parseISO(occurrenceDate)));
+  if (!bookings.some(booking => booking.date === occurrenceDate)) return false;
+
+  const existing = (await storage.getClearedEntries(householdId, { accountId: account.id, transactionId: transaction.id }))
+    .find(entry => entry.occurrenceDate === occurrenceDate);
+  if (isCleared === !!existing) return true;
+
+  if (!isCleared) {
+    await storage.deleteClearedEntry(householdId, account.id, transaction.id, occurrenceDate);
+    return true;
+  }
+
+  await storage.createClearedEntry(householdId, {
+    accountId: account.id,
+    transactionId: transaction.id,
+    occurrenceDate,
+  });
+
+  if (isTransfer(transaction)) return true;
+  if (getTransactionRecurrence(transaction)) {
+    if (!overrides.get(entryKey(transaction.id, occurrenceDate))?.isPaid) {
+      await storage.upsertTransactionOccurrence(householdId, { transactionId: transaction.id, occurrenceDate, isPaid: true });
+    }
+  } else if (!transaction.isPaid) {
+    await storage.updateTransaction(householdId, transaction.id, { isPaid: true });
+  }
+  return true;
+}
+
+/**
+ * The first reconciled entry of the transaction on or after `from` ('YYYY-MM-DD'), if any.
+ * Reconciled entries are locked until their reconciliation is undone.
+ */
+export async function findReconciledEntry(
+  householdId: number,
+  transactionId: number,
+  from?: string
+): Promise<ClearedEntry | undefined> {
+  return (await storage.getClearedEntries(householdId, { transactionId }))
+    .filter(entry => entry.reconciliationId !== null && (!from || entry.occurrenceDate >= from))
+    .sort((a, b) => a.occurrenceDate.localeCompare(b.occurrenceDate))[0];
+}
+
+/**
+ * Whether the changes touch a field that decides the amount, date or account of the transaction's entries
+ */
+export function changesLockedFields(transaction: Transaction, changes: Partial<Transaction>): boolean {
+  return LOCKED_FIELDS.some(field => {
+    const value = changes[field];
+    const current = transaction[field];
+    if (value === undefined) return false;
+    if (value instanceof Date || current instanceof Date) {
+      return new Date(value as Date).getTime() !== (current ? new Date(current as Date).getTime() : NaN);
+    }
+    return value !== current;
+  });
+}
+
+export function reconciledEntryMessage(entry: ClearedEntry): string {
+  return `The entry of ${entry.occurrenceDate} is reconciled; undo its reconciliation first`;
+}
+
+// The entry a statement row most likely is: the same amount dated within a few days,
+// preferring a similar title, then the closer date. `claimed` keeps two rows from matching one entry.
+function findMatchingEntry(row: StatementRow, entries: AccountEntry[], claimed: Set<string>): AccountEntry | null {
+  const rowDate = parseISO(row.date);
+
+  let best: { entry: AccountEntry; score: number } | null = null;
+  for (const entry of entries) {
+    if (claimed.has(entryKey(entry.transactionId, entry.occurrenceDate)) || Math.abs(entry.amount - row.amount) >= 0.01) continue;
+
+    const distance = Math.abs(differenceInCalendarDays(parseISO(entry.occurrenceDate), rowDate));
+    if (distance > MATCH_WINDOW_DAYS) continue;
+
+    const score = titleSimilarity(row.title, entry.title) - distance / 10;
+    if (!best || score > best.score) {
+      best = { entry, score };
+    }
+  }
+
+  if (!best) return null;
+  claimed.add(entryKey(best.entry.transactionId, best.entry.occurrenceDate));
+  return best.entry;
+}
+
+/**
+ * Read an imported statement of the account and match its rows to the entries that are
+ * not reconciled yet. Nothing is ticked off; the client clears the suggested entries.
+ */
+export async function suggestStatementMatches(
+  householdId: number,
+  account: Account,
+  formatName: ImportFormat,
+  content: string,
+  mapping?: CsvMapping
+): Promise<ReconciliationSuggestion> {
+  const { rows, errors } = parseStatement(formatName, content, mapping);
+  const { entries } = await getAccountReconciliation(householdId, account);
+
+  const claimed = new Set<string>();
+  const suggestion: ReconciliationSuggestion = { matches: [], unmatched: [], errors };
+  for (const row of rows) {
+    const entry = findMatchingEntry(row, entries, claimed);
+    if (entry) {
+      suggestion.matches.push({ line: row.line, transactionId: entry.transactionId, occurrenceDate: entry.occurrenceDate });
+    } else {
+      suggestion.unmatched.push({ line: row.line, date: row.date, title: row.title, amount: round(row.amount) });
+    }
+  }
+  return suggestion;
+}
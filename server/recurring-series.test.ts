@@ -0,0 +1,55 @@
+import "./test-setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { format } from "date-fns";
+import { splitRecurringTransaction } from "./recurring-series";
+import { storage } from "./storage";
+import { getTagsByTransaction } from "./transaction-tags";
+import { DEFAULT_HOUSEHOLD_ID } from "@shared/schema";
+
+const householdId = DEFAULT_HOUSEHOLD_ID;
+
+const createSeries = (title: string) => storage.createTransaction(householdId, {
+  title, amount: 100, date: new Date(2025, 0, 15), isExpense: true, categoryId: null, personLabel: "Beni",
+  isRecurring: true, recurringInterval: "monthly",
+});
+
+test("a split ends the series before the occurrence and continues it with the changes", async () => {
+  const series = await createSeries("Gym");
+  await storage.setTransactionTags(householdId, series.id, ["sport"]);
+  for (const occurrenceDate of ["2025-02-15", "2025-03-15", "2025-04-15"]) {
+    await storage.upsertTransactionOccurrence(householdId, { transactionId: series.id, occurrenceDate, isPaid: true });
+  }
+
+  const split = await splitRecurringTransaction(householdId, series, "2025-03-15", { amount: 120 });
+
+  assert.ok(split?.previous);
+  assert.equal(format(split.previous.recurringEndDate!, "yyyy-MM-dd"), "2025-03-14");
+  assert.equal(format(split.next.date, "yyyy-MM-dd"), "2025-03-15");
+  assert.equal(split.next.amount, 120);
+  assert.equal(split.next.isRecurring, true);
+
+  const kept = await storage.getTransactionOccurrences(householdId, series.id);
+  const moved = await storage.getTransactionOccurrences(householdId, split.next.id);
+  assert.deepEqual(kept.map(o => o.occurrenceDate), ["2025-02-15"]);
+  assert.deepEqual(moved.map(o => o.occurrenceDate).sort(), ["2025-03-15", "2025-04-15"]);
+  assert.deepEqual((await getTagsByTransaction(householdId)).get(split.next.id), ["sport"]);
+});
+
+test("a split at the first occurrence changes the whole series", async () => {
+  const series = await createSeries("Pool");
+
+  const split = await splitRecurringTransaction(householdId, series, "2025-01-15", { title: "Swimming pool" });
+
+  assert.equal(split?.previous, null);
+  assert.equal(split?.next.id, series.id);
+  assert.equal(split?.next.title, "Swimming pool");
+});
+
+test("a date that is not an occurrence leaves the series alone", async () => {
+  const series = await createSeries("Yoga");
+
+  assert.equal(await splitRecurringTransaction(householdId, series, "2025-03-16", { amount: 80 }), undefined);
+  assert.equal((await storage.getTransactionById(householdId, series.id))?.amount, 100);
+  assert.equal((await storage.getTransactions(householdId)).filter(t => t.title === "Yoga").length, 1);
+});
@@ -0,0 +1,121 @@
+import { format, parseISO, addDays, subDays, endOfDay } from "date-fns";
+import { storage, type NewTransaction } from "./storage";
+import { carryTransactionLines } from "./transaction-lines";
+import { carryTransactionTags } from "./transaction-tags";
+import { carrySubscription } from "./subscriptions";
+import {
+  expandRecurrence,
+  formatRecurrenceRule,
+  getTransactionRecurrence,
+  intervalForRule,
+  shiftToBusinessDay,
+  type RecurrenceRule,
+} from "@shared/recurrence";
+import type { SeriesSplit, Transaction } from "@shared/schema";
+
+// Shifting moves an occurrence at most a few days off its scheduled date
+const MAX_SHIFT_DAYS = 7;
+
+function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * The occurrence of a series shown on `occurrenceDate` ('YYYY-MM-DD'): its date before
+ * weekend/holiday shifting and how many occurrences came before it
+ */
+function findOccurrence(transaction: Transaction, rule: RecurrenceRule, occurrenceDate: string) {
+  const candidates = expandRecurrence(
+    rule,
+    transaction.date,
+    transaction.date,
+    endOfDay(addDays(parseISO(occurrenceDate), MAX_SHIFT_DAYS)),
+    { endDate: transaction.recurringEndDate }
+  );
+  const index = candidates.findIndex(date =>
+    toDateKey(shiftToBusinessDay(date, transaction.recurrenceShift)) === occurrenceDate
+  );
+  return index === -1 ? undefined : { date: candidates[index], index };
+}
+
+/**
+ * The rule of the series that continues from `start`, the `index`th occurrence of `rule`:
+ * COUNT only covers the occurrences left, and a monthly day that was moved to a short month's
+ * end (the 31st -> 30th) stays on the original day in the longer months
+ */
+function continuedRule(rule: RecurrenceRule, dtstart: Date, start: Date, index: number): RecurrenceRule {
+  const next: RecurrenceRule = { ...rule };
+  if (rule.count !== undefined) {
+    next.count = rule.count - index;
+  }
+
+  const usesStartDay = (rule.freq === "MONTHLY" || rule.freq === "YEARLY") &&
+    !rule.byDay?.length && !rule.byMonthDay?.length;
+  if (usesStartDay && start.getDate() !== dtstart.getDate()) {
+    next.byMonthDay = Array.from({ length: dtstart.getDate() - 27 }, (_, i) => 28 + i);
+    next.bySetPos = [-1];
+  }
+  return next;
+}
+
+/**
+ * Apply `changes` to a recurring transaction from one of its occurrences on, keeping the earlier
+ * occurrences as they were: the series ends the day before and a new one with the changes
+ * continues from that occurrence. Overrides of the moved occurrences go along with them,
+ * split lines and tags are copied and a subscription moves to the new series, all in one
+ * storage transaction. Undefined when `occurrenceDate` is not an occurrence of the series.
+ */
+export async function splitRecurringTransaction(
+  householdId: number,
+  transaction: Transaction,
+  occurrenceDate: string,
+  changes: Partial<Transaction>
+): Promise<SeriesSplit | undefined> {
+  const rule = getTransactionRecurrence(transaction);
+  if (!rule) return undefined;
+
+  const occurrence = findOccurrence(transaction, rule, occurrenceDate);
+  if (!occurrence) return undefined;
+
+  return storage.runInTransaction(async store => {
+    // From the first occurrence on is the whole series
+    if (occurrence.index === 0) {
+      const updated = await store.updateTransaction(householdId, transaction.id, changes);
+      if (updated) {
+        await carryTransactionLines(householdId, transaction, updated, store);
+        await carrySubscription(householdId, transaction, updated, store);
+      }
+      return updated && { previous: null, next: updated };
+    }
+
+    const nextRule = continuedRule(rule, transaction.date, occurrence.date, occurrence.index);
+    const ruleChanged = nextRule.count !== rule.count || nextRule.byMonthDay !== rule.byMonthDay;
+    const { id, householdId: _householdId, ...fields } = transaction;
+
+    const next = await store.createTransaction(householdId, {
+      ...fields,
+      date: occurrence.date,
+      ...(ruleChanged && {
+        recurrenceRule: formatRecurrenceRule(nextRule),
+        recurringInterval: intervalForRule(nextRule),
+      }),
+      ...changes,
+    } as NewTransaction);
+    await carryTransactionLines(householdId, transaction, next, store);
+    await carryTransactionTags(householdId, transaction, next, store);
+    await carrySubscription(householdId, transaction, next, store);
+
+    const previous = await store.updateTransaction(householdId, id, {
+      recurringEndDate: endOfDay(subDays(occurrence.date, 1)),
+    });
+
+    const occurrences = await store.getTransactionOccurrences(householdId, id);
+    for (const { id: _occurrenceId, transactionId, updatedAt, ...override } of occurrences) {
+      if (override.occurrenceDate < occurrenceDate) continue;
+      await store.upsertTransactionOccurrence(householdId, { ...override, transactionId: next.id });
+      await store.deleteTransactionOccurrence(householdId, transactionId, override.occurrenceDate);
+    }
+
+    return { previous: previous ?? null, next };
+  });
+}
@@ -0,0 +1,251 @@
+import { addMonths, endOfMonth, format, parse, startOfMonth, subMonths } from "date-fns";
+import { storage } from "./storage";
+import { collectOccurrences, getBudgetTransactions } from "./budget";
+import { getLinesByTransaction } from "./transaction-lines";
+import type {
+  BudgetOccurrence,
+  Category,
+  ReportCategoryChange,
+  ReportEntriesQuery,
+  ReportEntry,
+  ReportMonth,
+  ReportSpan,
+  SpendingReport,
+  SplitPart,
+} from "@shared/schema";
+
+const UNCATEGORIZED = "Uncategorized";
+
+// Year over year compares this many months with as many before them
+const YEAR = 12;
+
+// How many of the biggest movers a report lists
+const MOVERS_COUNT = 5;
+
+type CategoryKey = number | "none";
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toMonthKey(date: Date): string {
+  return format(date, "yyyy-MM");
+}
+
+function toCategoryKey(categoryId: number | null): CategoryKey {
+  return categoryId ?? "none";
+}
+
+function savingsRate(income: number, savings: number): number | null {
+  return income > 0 ? Math.round((savings / income) * 1000) / 1000 : null;
+}
+
+// What an occurrence counts towards by category, split transactions by line
+function occurrenceParts(occurrence: BudgetOccurrence): SplitPart[] {
+  return occurrence.lines ?? [occurrence];
+}
+
+// The `count` months up to and including `last`, oldest first
+function monthsUpTo(last: Date, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => toMonthKey(addMonths(last, index - count + 1)));
+}
+
+function describeCategory(categoriesById: Map<number, Category>, key: CategoryKey) {
+  const category = key === "none" ? undefined : categoriesById.get(key);
+  return {
+    categoryId: category?.id ?? null,
+    name: category?.name ?? UNCATEGORIZED,
+    color: category?.color ?? null,
+  };
+}
+
+/**
+ * Income, expenses and savings of the last 12 or 24 complete months, with year-over-year
+ * and month-over-month changes of expenses by category and the average month.
+ * The current month is left out, so a month half-way through doesn't skew the trends.
+ * Occurrences are counted like the budget, split transactions by line.
+ */
+export async function getSpendingReport(householdId: number, months: ReportSpan): Promise<SpendingReport> {
+  const lastMonth = startOfMonth(subMonths(new Date(), 1));
+  // Year over year needs two full years, whatever the trend shows
+  const span = Math.max(months, 2 * YEAR);
+  const windowStart = startOfMonth(subMonths(lastMonth, span - 1));
+  const windowEnd = endOfMonth(lastMonth);
+
+  const [transactions, allOverrides, allSavings, categories, lines] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getSavings(householdId),
+    storage.getCategories(householdId),
+    getLinesByTransaction(householdId),
+  ]);
+
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+  const { occurrences } = collectOccurrences(transactions, overrides, windowStart, windowEnd, lines);
+
+  // Totals and category expenses by month
+  const totals = new Map<string, { income: number; expenses: number; savings: number }>();
+  const expensesByCategory = new Map<string, Map<CategoryKey, number>>();
+  const monthTotals = (month: string) => {
+    const total = totals.get(month) ?? { income: 0, expenses: 0, savings: 0 };
+    totals.set(month, total);
+    return total;
+  };
+
+  for (const occurrence of occurrences) {
+    const month = occurrence.date.slice(0, 7);
+    if (!occurrence.isExpense) {
+      monthTotals(month).income += occurrence.amount;
+      continue;
+    }
+    monthTotals(month).expenses += occurrence.amount;
+    const byCategory = expensesByCategory.get(month) ?? new Map<CategoryKey, number>();
+    for (const part of occurrenceParts(occurrence)) {
+      const key = toCategoryKey(part.categoryId);
+      byCategory.set(key, (byCategory.get(key) ?? 0) + part.amount);
+    }
+    expensesByCategory.set(month, byCategory);
+  }
+  for (const entry of allSavings) {
+    const date = new Date(entry.date);
+    if (date >= windowStart && date <= windowEnd) {
+      monthTotals(toMonthKey(date)).savings += entry.amount;
+    }
+  }
+
+  // Expenses by category over some months together
+  const categoryExpenses = (monthKeys: string[]) => {
+    const sums = new Map<CategoryKey, number>();
+    for (const month of monthKeys) {
+      for (const [key, amount] of Array.from(expensesByCategory.get(month) ?? [])) {
+        sums.set(key, (sums.get(key) ?? 0) + amount);
+      }
+    }
+    return sums;
+  };
+
+  const categoriesById = new Map(categories.map(category => [category.id, category]));
+  const compareCategories = (current: Map<CategoryKey, number>, previous: Map<CategoryKey, number>): ReportCategoryChange[] => {
+    const keys = new Set([...Array.from(current.keys()), ...Array.from(previous.keys())]);
+    return Array.from(keys)
+      .map(key => {
+        const now = round(current.get(key) ?? 0);
+        const before = round(previous.get(key) ?? 0);
+        return {
+          ...describeCategory(categoriesById, key),
+          current: now,
+          previous: before,
+          change: round(now - before),
+          changePercent: before > 0 ? Math.round(((now - before) / before) * 1000) / 1000 : null,
+        };
+      })
+      .filter(change => change.current !== 0 || change.previous !== 0)
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.name.localeCompare(b.name));
+  };
+
+  const trendMonths = monthsUpTo(lastMonth, months);
+  const trend: ReportMonth[] = trendMonths.map(month => {
+    const { income, expenses, savings } = totals.get(month) ?? { income: 0, expenses: 0, savings: 0 };
+    return {
+      month,
+      income: round(income),
+      expenses: round(expenses),
+      savings: round(savings),
+      savingsRate: savingsRate(income, savings),
+    };
+  });
+
+  const lastYear = monthsUpTo(lastMonth, YEAR);
+  const yearBefore = monthsUpTo(subMonths(lastMonth, YEAR), YEAR);
+  const previousMonth = toMonthKey(subMonths(lastMonth, 1));
+
+  const average = (field: "income" | "expenses" | "savings") =>
+    trend.reduce((sum, month) => sum + month[field], 0) / trend.length;
+  const averageIncome = average("income");
+  const averageSavings = average("savings");
+
+  return {
+    months,
+    from: trendMonths[0],
+    to: trendMonths[trendMonths.length - 1],
+    trend,
+    yearOverYear: compareCategories(categoryExpenses(lastYear), categoryExpenses(yearBefore)),
+    movers: compareCategories(categoryExpenses([toMonthKey(lastMonth)]), categoryExpenses([previousMonth]))
+      .filter(change => change.change !== 0)
+      .slice(0, MOVERS_COUNT),
+    averageMonth: {
+      income: round(averageIncome),
+      expenses: round(average("expenses")),
+      savings: round(averageSavings),
+      savingsRate: savingsRate(averageIncome, averageSavings),
+      byCategory: Array.from(categoryExpenses(trendMonths))
+        .map(([key, amount]) => ({ ...describeCategory(categoriesById, key), expenses: round(amount / months) }))
+        .sort((a, b) => b.expenses - a.expenses || a.name.localeCompare(b.name)),
+    },
+  };
+}
+
+/**
+ * The occurrences and savings entries behind a report figure, between two months (both included).
+ * By category, split transactions show only the amount of their lines in that category.
+ */
+export async function getReportEntries(householdId: number, query: ReportEntriesQuery): Promise<ReportEntry[]> {
+  const { kind, categoryId } = query;
+  const start = startOfMonth(parse(query.from, "yyyy-MM", new Date()));
+  const end = endOfMonth(parse(query.to, "yyyy-MM", new Date()));
+
+  const [transactions, allOverrides, allSavings, categories, lines] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getSavings(householdId),
+    storage.getCategories(householdId),
+    getLinesByTransaction(householdId),
+  ]);
+
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+  const nameOf = (id: number | null) => (id !== null ? categoryNames.get(id) ?? UNCATEGORIZED : UNCATEGORIZED);
+  const entries: ReportEntry[] = [];
+
+  if (kind !== "savings") {
+    const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+    const { occurrences } = collectOccurrences(transactions, overrides, start, end, lines);
+
+    for (const occurrence of occurrences) {
+      if (kind && occurrence.isExpense !== (kind === "expense")) continue;
+
+      const parts = categoryId === undefined
+        ? [occurrence]
+        : occurrenceParts(occurrence).filter(part => toCategoryKey(part.categoryId) === categoryId);
+      for (const part of parts) {
+        entries.push({
+          kind: occurrence.isExpense ? "expense" : "income",
+          date: occurrence.date,
+          title: occurrence.title,
+          amount: round(part.amount),
+          categoryName: nameOf(part.categoryId),
+          personLabel: part.personLabel,
+          transactionId: occurrence.transactionId,
+        });
+      }
+    }
+  }
+
+  // Savings have no category
+  if ((!kind || kind === "savings") && categoryId === undefined) {
+    for (const entry of allSavings) {
+      const date = new Date(entry.date);
+      if (date < start || date > end) continue;
+      entries.push({
+        kind: "savings",
+        date: format(date, "yyyy-MM-dd"),
+        title: entry.notes || "Savings",
+        amount: entry.amount,
+        categoryName: null,
+        personLabel: entry.personLabel,
+        transactionId: null,
+      });
+    }
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || b.amount - a.amount);
+}
@@ -0,0 +1,68 @@
+import "./test-setup";
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { DEFAULT_HOUSEHOLD_ID } from "@shared/schema";
+
+let server: Server;
+let api: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  api = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+after(() => {
+  server.close();
+});
+
+async function commitImport(rows: object[]) {
+  const res = await fetch(`${api}/import/commit`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ transactions: rows }),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+async function importRow(changes: object = {}) {
+  const [category] = await storage.getCategories(DEFAULT_HOUSEHOLD_ID);
+  return { title: "Groceries", amount: 50, date: "2025-03-01", isExpense: true, categoryId: category.id, personLabel: "Beni", ...changes };
+}
+
+test("an import commit names the first row that fails and imports none of them", async () => {
+  const count = (await storage.getTransactions(DEFAULT_HOUSEHOLD_ID)).length;
+
+  const unknownAccount = await commitImport([await importRow(), await importRow({ accountId: 999 })]);
+  assert.equal(unknownAccount.status, 400);
+  assert.equal(unknownAccount.body.row, 1);
+  assert.match(unknownAccount.body.message, /on row 2$/);
+
+  const sharedPayer = await commitImport([await importRow({ paidBy: "Together" })]);
+  assert.equal(sharedPayer.status, 400);
+  assert.equal(sharedPayer.body.row, 0);
+
+  const unknownPerson = await commitImport([await importRow(), await importRow(), await importRow({ personLabel: "Nobody" })]);
+  assert.equal(unknownPerson.status, 400);
+  assert.equal(unknownPerson.body.row, 2);
+
+  assert.equal((await storage.getTransactions(DEFAULT_HOUSEHOLD_ID)).length, count);
+});
+
+test("imported foreign currency rows are converted like new transactions", async () => {
+  const { status, body } = await commitImport([
+    await importRow({ title: "Hotel", amount: 100, originalAmount: 100, originalCurrency: "EUR", exchangeRate: 4.25 }),
+    await importRow({ title: "Bakery" }),
+  ]);
+
+  assert.equal(status, 201);
+  assert.deepEqual(body.map((t: { title: string; amount: number; originalCurrency: string | null }) =>
+    [t.title, t.amount, t.originalCurrency]), [["Hotel", 425, "EUR"], ["Bakery", 50, null]]);
+});
@@ -1,17 +1,102 @@
 import express, { type Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { format, parseISO } from "date-fns";
+import { storage, type NewTransaction } from "./storage";
 import { z } from "zod";
 import { 
   insertCategorySchema, 
+  categoryBudgetFieldsSchema,
+  categoryBudgetOverrideSchema,
+  insertPersonSchema,
+  personLabelSchema,
   insertTransactionSchema, 
-  insertSavingsSchema,
-  persons, 
-  recurringIntervals 
+  savingsEntrySchema,
+  insertSavingsGoalSchema,
+  updateSavingsGoalSchema,
+  insertSubscriptionSchema,
+  updateSubscriptionSchema,
+  subscriptionPriceSchema,
+  insertTransactionOccurrenceSchema,
+  insertHouseholdSchema,
+  insertHouseholdMemberSchema,
+  householdRoles,
+  occurrenceDateSchema,
+  budgetMonthSchema,
+  insertImportProfileSchema,
+  insertTransactionRuleSchema,
+  updateTransactionRuleSchema,
+  importPreviewRequestSchema,
+  importCommitRequestSchema,
+  exportFormats,
+  backupSchema,
+  recurringIntervals,
+  recurrenceRuleSchema,
+  currencyCodeSchema,
+  nbpFetchRequestSchema,
+  exchangeRateImportSchema,
+  trashItemTypes,
+  auditQuerySchema,
+  forecastQuerySchema,
+  forecastSettingsSchema,
+  reportQuerySchema,
+  reportEntriesQuerySchema,
+  statementYearSchema,
+  insertAccountSchema,
+  updateAccountSchema,
+  insertTransferSchema,
+  updateTransferSchema,
+  insertReconciliationSchema,
+  updateReconciliationSchema,
+  clearEntrySchema,
+  transactionLinesSchema,
+  transactionTagsSchema,
+  tagTotalsQuerySchema,
+  transactionSearchQuerySchema,
+  transactionListQuerySchema,
+  settlementSettingsSchema,
+  insertSettlementPaymentSchema,
+  isTransfer,
+  type Category,
+  type Transaction,
+  type InsertTransactionLine,
+  type TagWithUsage,
+  type InsertTransactionRule,
+  type InsertTransfer
 } from "@shared/schema";
+import { parseRecurrenceRule, intervalForRule, recurrenceShifts } from "@shared/recurrence";
+import { linesTotal } from "@shared/split-lines";
+import { parseSearchQuery } from "@shared/transaction-search";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { setupAuth } from "./auth";
+import { resolveHousehold, requireRole } from "./households";
+import { trackAuditUser } from "./audit";
+import { getMonthlyBudget, getCategoryBudgets, getCashFlowForecast } from "./budget";
+import { getAccountBalances } from "./accounts";
+import { getSpendingReport, getReportEntries } from "./reports";
+import { buildMonthlyStatement, buildAnnualStatement } from "./statements";
+import { searchTransactions } from "./transaction-search";
+import { listTransactions } from "./transaction-list";
+import {
+  getAccountReconciliation,
+  setEntryCleared,
+  suggestStatementMatches,
+  findReconciledEntry,
+  changesLockedFields,
+  reconciledEntryMessage,
+} from "./reconciliation";
+import { previewImport } from "./import";
+import { applyDueContributions, getSavingsGoalStatuses } from "./savings-goals";
+import { getSubscriptionStatuses, subscriptionTransaction, firstChargeFrom } from "./subscriptions";
+import { detectSubscriptions } from "./subscription-detection";
+import { createBackup, backupToCsv, backupToXlsx, restoreBackup } from "./backup";
+import { splitRecurringTransaction } from "./recurring-series";
+import { carryTransactionLines } from "./transaction-lines";
+import { getTagsByTransaction, getTagTotals } from "./transaction-tags";
+import { getSettlement, recordSplitChange } from "./settlement";
+import { getTrash, restoreTrashItem } from "./trash";
+import { applyHouseholdRules, previewTransactionRule } from "./transaction-rules";
+import { resolveCurrencyFields, resolveCurrencyChanges, convertToBase, fetchNbpRates, importRateFile } from "./exchange-rates";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
@@ -30,15 +115,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
   
   const router = express.Router();
+  
+  // New entries can only be attributed to active people of the household
+  async function isSelectablePerson(householdId: number, personLabel: string): Promise<boolean> {
+    const person = await storage.getPersonByName(householdId, personLabel);
+    return !!person && person.isActive;
+  }
+
+  // Whoever paid has to be an active member of the household, not a shared person such as
+  // "Together"; null when they are. An unchanged payer may have been deactivated since.
+  async function getPayerError(householdId: number, paidBy: string | null | undefined, currentPayer?: string | null): Promise<string | null> {
+    if (!paidBy || paidBy === currentPayer) return null;
+    const person = await storage.getPersonByName(householdId, paidBy);
+    if (!person || !person.isActive) {
+      return `Unknown person "${paidBy}"`;
+    }
+    if (person.isShared) {
+      return `${paidBy} is shared; pick the member who paid`;
+    }
+    return null;
+  }
+  
+  // Categories and people a rule refers to have to be the household's; null when they are
+  async function getRuleReferenceError(householdId: number, rule: Partial<InsertTransactionRule>): Promise<string | null> {
+    for (const categoryId of [rule.categoryId, rule.setCategoryId]) {
+      if (categoryId != null && !await storage.getCategoryById(householdId, categoryId)) {
+        return "Category not found";
+      }
+    }
+    if (rule.personLabel && !await storage.getPersonByName(householdId, rule.personLabel)) {
+      return `Unknown person "${rule.personLabel}"`;
+    }
+    if (rule.setPersonLabel && !await isSelectablePerson(householdId, rule.setPersonLabel)) {
+      return `Unknown person "${rule.setPersonLabel}"`;
+    }
+    return null;
+  }
+
+  // Split lines have to add up to the transaction's amount and refer to the household's
+  // categories and people; null when they do. People already on the transaction or its
+  // lines may have been deactivated since.
+  async function getLinesError(householdId: number, transaction: Transaction, lines: InsertTransactionLine[]): Promise<string | null> {
+    if (lines.length === 0) return null;
+    if (isTransfer(transaction)) {
+      return "Transfers can't be split";
+    }
+    
+    const total = linesTotal(lines);
+    if (Math.abs(total - transaction.amount) >= 0.005) {
+      return `The lines add up to ${total.toFixed(2)} instead of ${transaction.amount.toFixed(2)}`;
+    }
+    
+    const currentLines = await storage.getTransactionLines(householdId, transaction.id);
+    const knownPeople = new Set([transaction.personLabel, ...currentLines.map(line => line.personLabel)]);
+    for (const line of lines) {
+      if (line.categoryId !== null && !await storage.getCategoryById(householdId, line.categoryId)) {
+        return "Invalid category ID";
+      }
+      if (line.personLabel !== null && !knownPeople.has(line.personLabel) && !await isSelectablePerson(householdId, line.personLabel)) {
+        return `Unknown person "${line.personLabel}"`;
+      }
+    }
+    return null;
+  }
+  
+  // Every account an entry is booked to has to be the household's
+  async function areHouseholdAccounts(householdId: number, ...accountIds: (number | null | undefined)[]): Promise<boolean> {
+    for (const accountId of accountIds) {
+      if (accountId != null && !await storage.getAccountById(householdId, accountId)) return false;
+    }
+    return true;
+  }
+
+  // A transfer is stored as a transaction out of one account and into the other
+  function transferTransaction(transfer: InsertTransfer): NewTransaction {
+    return withLegacyInterval({
+      title: transfer.title,
+      amount: transfer.amount,
+      date: transfer.date,
+      notes: transfer.notes ?? null,
+      isExpense: false,
+      categoryId: null,
+      personLabel: null,
+      isRecurring: !!transfer.recurrenceRule,
+      recurrenceRule: transfer.recurrenceRule ?? null,
+      recurringInterval: null,
+      accountId: transfer.fromAccountId,
+      transferAccountId: transfer.toAccountId,
+    });
+  }
+
+  // Keep `recurringInterval` in line with the rule's frequency for code that only knows intervals
+  function withLegacyInterval<T extends { recurrenceRule?: string | null; recurringInterval?: string | null }>(data: T): T {
+    if (!data.recurrenceRule) return data;
+    return { ...data, recurringInterval: intervalForRule(parseRecurrenceRule(data.recurrenceRule)) };
+  }
+
+  // Fields a transaction update may change, for the whole series or from one of its occurrences on
+  const transactionChangesSchema = z.object({
+    title: z.string().min(1, "Title is required").optional(),
+    amount: z.union([
+      z.number().positive("Amount must be positive"), 
+      z.string().transform(val => {
+        // Handle input as string (coming from text input)
+        console.log(`[DEBUG] Transforming string amount: '${val}'`);
+        const normalizedStr = val.replace(/[^\d.,]/g, '').replace(/,/g, '.');
+        const num = parseFloat(normalizedStr);
+        const result = isNaN(num) ? 0 : num;
+        console.log(`[DEBUG] Transformed to: ${result}`);
+        return result;
+      }).refine(val => val > 0, "Amount must be positive")
+    ]).optional(),
+    date: z.date().optional(),
+    notes: z.string().nullable().optional(),
+    isExpense: z.boolean().optional(),
+    categoryId: z.number().refine(val => val !== undefined && val !== null, {
+      message: "Category is required"
+    }).optional(),
+    personLabel: personLabelSchema.optional(),
+    isRecurring: z.boolean().nullable().optional(),
+    recurringInterval: z.enum(recurringIntervals).nullable().optional(),
+    recurringEndDate: z.date().nullable().optional(),
+    recurrenceRule: recurrenceRuleSchema.nullable().optional(),
+    recurrenceShift: z.enum(recurrenceShifts).nullable().optional(),
+    isPaid: z.boolean().optional(),
+    originalAmount: z.number().positive("Original amount must be positive").nullable().optional(),
+    originalCurrency: currencyCodeSchema.nullable().optional(),
+    exchangeRate: z.number().positive("Exchange rate must be positive").nullable().optional(),
+    accountId: z.number().int().positive().nullable().optional(),
+    paidBy: personLabelSchema.nullable().optional(),
+  })
+  .refine(data => {
+    // If isRecurring is true, recurringInterval (or a rule) must be provided
+    if (data.isRecurring === true && !data.recurringInterval && !data.recurrenceRule) {
+      return false;
+    }
+    return true;
+  }, {
+    message: "Recurring interval is required for recurring transactions",
+    path: ["recurringInterval"]
+  })
+  .transform(data => withLegacyInterval(data));
+
+  // Every API request works on the caller's current household
+  router.use(resolveHousehold);
+  // ...and the changes it makes are logged under the caller
+  router.use(trackAuditUser);
 
   // Test endpoint to directly query Supabase
-  router.get("/test-supabase", async (_req: Request, res: Response) => {
+  router.get("/test-supabase", async (req: Request, res: Response) => {
     try {
       const { supabase } = await import("./supabase");
       console.log('[TEST] Querying Supabase directly...');
       const { data, error } = await supabase
         .from('transactions')
-        .select('*');
+        .select('*')
+        .eq('household_id', req.household!.id);
 
       console.log('[TEST] Supabase response:', { dataCount: data?.length, error });
 
@@ -54,12 +286,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Transactions endpoints
-  router.get("/recurring-transactions", requireAuth, async (_req: Request, res: Response) => {
+  router.get("/recurring-transactions", requireAuth, async (req: Request, res: Response) => {
     try {
-      const recurringTransactions = await storage.getRecurringTransactions();
+      // Transfers are listed by GET /transfers
+      const recurringTransactions = (await applyHouseholdRules(
+        req.household!.id,
+        await storage.getRecurringTransactions(req.household!.id)
+      )).filter(transaction => !isTransfer(transaction));
       
       // Get all categories in a single query
-      const allCategories = await storage.getCategories();
+      const allCategories = await storage.getCategories(req.household!.id);
       const categoriesMap = new Map(allCategories.map(cat => [cat.id, cat]));
       
       // Join transactions with categories efficiently
@@ -82,35 +318,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   router.get("/transactions", requireAuth, async (req: Request, res: Response) => {
     try {
-      const transactions = await storage.getTransactions();
-      console.log(`[SERVER] Fetched ${transactions.length} transactions from storage`);
-
-      // Get all categories in a single query
-      const allCategories = await storage.getCategories();
-      console.log(`[SERVER] Fetched ${allCategories.length} categories`);
-      const categoriesMap = new Map(allCategories.map(cat => [cat.id, cat]));
-
-      // Join transactions with categories efficiently
-      const transactionsWithCategories = transactions.map(transaction => {
-        if (transaction.categoryId) {
-          const category = categoriesMap.get(transaction.categoryId);
-          if (category) {
-            return { ...transaction, category };
-          } else {
-            console.warn(`[SERVER] No category found for transaction ${transaction.title} with categoryId ${transaction.categoryId}`);
-          }
-        }
-        return transaction;
-      });
-
-      console.log(`[SERVER] Returning ${transactionsWithCategories.length} transactions with categories`);
-      res.json(transactionsWithCategories);
+      // One page of the matching transactions (without transfers), see transactionListQuerySchema
+      const query = transactionListQuerySchema.parse(req.query);
+      res.json(await listTransactions(req.household!.id, query));
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
       console.error("Error getting transactions:", error);
       res.status(500).json({ message: "Failed to get transactions" });
     }
   });
   
+  // Registered before /transactions/:id, which would take "search" for an ID
+  router.get("/transactions/search", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { q, ...options } = transactionSearchQuerySchema.parse(req.query);
+      const { filters, error } = parseSearchQuery(q);
+      if (!filters) {
+        return res.status(400).json({ message: error });
+      }
+      
+      const result = await searchTransactions(req.household!.id, filters, options);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error searching transactions:", error);
+      res.status(500).json({ message: "Failed to search transactions" });
+    }
+  });
+  
   router.get("/transactions/:id", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
@@ -118,27 +359,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid transaction ID" });
       }
       
-      const transaction = await storage.getTransactionById(id);
+      const transaction = await storage.getTransactionById(req.household!.id, id);
       if (!transaction) {
         return res.status(404).json({ message: "Transaction not found" });
       }
       
+      const lines = await storage.getTransactionLines(req.household!.id, id);
+      const tags = (await getTagsByTransaction(req.household!.id)).get(id);
+      const withLines = { ...transaction, ...(lines.length > 0 && { lines }), ...(tags && { tags }) };
+      
       // Attach category if it exists
       if (transaction.categoryId) {
-        const category = await storage.getCategoryById(transaction.categoryId);
+        const category = await storage.getCategoryById(req.household!.id, transaction.categoryId);
         if (category) {
-          return res.json({ ...transaction, category });
+          return res.json({ ...withLines, category });
         }
       }
       
-      res.json(transaction);
+      res.json(withLines);
     } catch (error) {
       console.error("Error getting transaction:", error);
       res.status(500).json({ message: "Failed to get transaction" });
     }
   });
   
-  router.post("/transactions", requireAuth, async (req: Request, res: Response) => {
+  router.post("/transactions", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
     try {
       // Convert string date to Date object if needed
       if (req.body.date && typeof req.body.date === 'string') {
@@ -148,17 +393,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.body.recurringEndDate = new Date(req.body.recurringEndDate);
       }
 
-      const transactionData = insertTransactionSchema.parse(req.body);
+      const transactionData = withLegacyInterval(insertTransactionSchema.parse(req.body));
+      const { tags } = transactionTagsSchema.partial().parse(req.body);
+      
+      if (!await isSelectablePerson(req.household!.id, transactionData.personLabel)) {
+        return res.status(400).json({ message: `Unknown person "${transactionData.personLabel}"` });
+      }
+      
+      const payerError = await getPayerError(req.household!.id, transactionData.paidBy);
+      if (payerError) {
+        return res.status(400).json({ message: payerError });
+      }
       
       // If a categoryId is provided, ensure it exists
       if (transactionData.categoryId) {
-        const category = await storage.getCategoryById(transactionData.categoryId);
+        const category = await storage.getCategoryById(req.household!.id, transactionData.categoryId);
         if (!category) {
           return res.status(400).json({ message: "Invalid category ID" });
         }
       }
       
-      const newTransaction = await storage.createTransaction(transactionData);
+      if (!await areHouseholdAccounts(req.household!.id, transactionData.accountId)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      // Foreign currency amounts are converted at the rate of the transaction's date
+      const currencyFields = await resolveCurrencyFields(transactionData);
+      if (!currencyFields) {
+        return res.status(400).json({
+          message: `No ${transactionData.originalCurrency} exchange rate is known for ${format(transactionData.date, "yyyy-MM-dd")}`
+        });
+      }
+      
+      const newTransaction = await storage.createTransaction(req.household!.id, { ...transactionData, ...currencyFields });
+      if (tags?.length) {
+        await storage.setTransactionTags(req.household!.id, newTransaction.id, tags);
+        return res.status(201).json({ ...newTransaction, tags });
+      }
       res.status(201).json(newTransaction);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -170,7 +441,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  router.patch("/transactions/:id", requireAuth, async (req: Request, res: Response) => {
+  router.patch("/transactions/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
     try {
       console.log("Received PATCH request to update transaction");
       console.log("Request body:", req.body);
@@ -211,7 +482,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validate request body with all new fields
       // Check if this is a special transaction that needs extra handling
-      const transaction = await storage.getTransactionById(id);
+      const transaction = await storage.getTransactionById(req.household!.id, id);
       
       // Special handling for Replit transaction - manually update it if found
       if (transaction?.title === 'Replit' && req.body.amount !== undefined) {
@@ -233,6 +504,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             // Direct SQL update for this special case
             try {
               const updatedReplit = await storage.updateTransactionDirect(
+                req.household!.id,
                 id, 
                 { 
                   ...req.body,
@@ -255,6 +527,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             // Direct SQL update for this special case
             try {
               const updatedReplit = await storage.updateTransactionDirect(
+                req.household!.id,
                 id, 
                 { 
                   ...req.body,
@@ -283,52 +556,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const validFields = z.object({
-        title: z.string().min(1, "Title is required").optional(),
-        amount: z.union([
-          z.number().positive("Amount must be positive"), 
-          z.string().transform(val => {
-            // Handle input as string (coming from text input)
-            console.log(`[DEBUG] Transforming string amount: '${val}'`);
-            const normalizedStr = val.replace(/[^\d.,]/g, '').replace(/,/g, '.');
-            const num = parseFloat(normalizedStr);
-            const result = isNaN(num) ? 0 : num;
-            console.log(`[DEBUG] Transformed to: ${result}`);
-            return result;
-          }).refine(val => val > 0, "Amount must be positive")
-        ]).optional(),
-        date: z.date().optional(),
-        notes: z.string().nullable().optional(),
-        isExpense: z.boolean().optional(),
-        categoryId: z.number().refine(val => val !== undefined && val !== null, {
-          message: "Category is required"
-        }).optional(),
-        personLabel: z.enum(persons, {
-          required_error: "Person is required",
-          invalid_type_error: "Person must be selected"
-        }).optional(),
-        isRecurring: z.boolean().nullable().optional(),
-        recurringInterval: z.enum(recurringIntervals).nullable().optional(),
-        recurringEndDate: z.date().nullable().optional(),
-        isPaid: z.boolean().optional(),
-      })
-      .refine(data => {
-        // If isRecurring is true, recurringInterval must be provided
-        if (data.isRecurring === true && (data.recurringInterval === null || data.recurringInterval === undefined)) {
-          return false;
-        }
-        return true;
-      }, {
-        message: "Recurring interval is required for recurring transactions",
-        path: ["recurringInterval"]
-      })
-      .parse(req.body);
-      
-      const updatedTransaction = await storage.updateTransaction(id, validFields);
+      if (transaction && isTransfer(transaction)) {
+        return res.status(400).json({ message: "Transfers are changed through /api/transfers" });
+      }
+      
+      const validFields = transactionChangesSchema.parse(req.body);
+      
+      if (!await areHouseholdAccounts(req.household!.id, validFields.accountId)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      // An unchanged label may belong to someone who has since been deactivated
+      if (validFields.personLabel !== undefined &&
+          validFields.personLabel !== transaction?.personLabel &&
+          !await isSelectablePerson(req.household!.id, validFields.personLabel)) {
+        return res.status(400).json({ message: `Unknown person "${validFields.personLabel}"` });
+      }
+      
+      const payerError = await getPayerError(req.household!.id, validFields.paidBy, transaction?.paidBy);
+      if (payerError) {
+        return res.status(400).json({ message: payerError });
+      }
+      
+      // A new currency, original amount or rate converts the amount again
+      const changes = transaction ? await resolveCurrencyChanges(transaction, validFields) : validFields;
+      if (!changes) {
+        const currency = validFields.originalCurrency ?? transaction!.originalCurrency;
+        const date = format(validFields.date ?? transaction!.date, "yyyy-MM-dd");
+        return res.status(400).json({ message: `No ${currency} exchange rate is known for ${date}` });
+      }
+      
+      // Title, category, person and notes of reconciled transactions can still change
+      const reconciledEntry = transaction && await findReconciledEntry(req.household!.id, id);
+      if (reconciledEntry && changesLockedFields(transaction, changes)) {
+        return res.status(409).json({ message: reconciledEntryMessage(reconciledEntry) });
+      }
+      
+      const updatedTransaction = await storage.updateTransaction(req.household!.id, id, changes);
       if (!updatedTransaction) {
         return res.status(404).json({ message: "Transaction not found" });
       }
       
+      // Split lines keep adding up to a changed amount
+      await carryTransactionLines(req.household!.id, transaction!, updatedTransaction);
+      
       // Check if this was a recurring transaction update
       if (updatedTransaction.isRecurring) {
         console.log(`[RECURRING UPDATE] Updated recurring transaction: ${updatedTransaction.title} (ID: ${id})`);
@@ -357,33 +628,159 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  router.delete("/transactions/:id", requireAuth, async (req: Request, res: Response) => {
+  // Change a recurring transaction from one occurrence on, leaving the months before it as they were
+  router.post("/transactions/:id/split", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid transaction ID" });
       }
       
-      console.log(`Received DELETE request for transaction ${id}`);
+      const { from, changes: rawChanges } = z.object({
+        from: occurrenceDateSchema,
+        changes: z.record(z.unknown()).default({}),
+      }).parse(req.body);
+      
+      for (const field of ["date", "recurringEndDate"]) {
+        if (typeof rawChanges[field] === "string") {
+          rawChanges[field] = new Date(rawChanges[field] as string);
+        }
+      }
+      const validFields = transactionChangesSchema.parse(rawChanges);
+      
+      const transaction = await storage.getTransactionById(req.household!.id, id);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      if (!transaction.isRecurring) {
+        return res.status(400).json({ message: "Only recurring transactions can be split" });
+      }
       
-      // Check if this is a "Grocerries" transaction before deletion
-      const transaction = await storage.getTransactionById(id);
-      const isGrocerries = transaction?.title === 'Grocerries';
+      if (validFields.categoryId !== undefined &&
+          !await storage.getCategoryById(req.household!.id, validFields.categoryId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      if (!await areHouseholdAccounts(req.household!.id, validFields.accountId)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      if (validFields.personLabel !== undefined &&
+          validFields.personLabel !== transaction.personLabel &&
+          !await isSelectablePerson(req.household!.id, validFields.personLabel)) {
+        return res.status(400).json({ message: `Unknown person "${validFields.personLabel}"` });
+      }
       
-      if (isGrocerries) {
-        console.log(`Special handling: Deleting Grocerries transaction ${id}`);
+      const payerError = await getPayerError(req.household!.id, validFields.paidBy, transaction.paidBy);
+      if (payerError) {
+        return res.status(400).json({ message: payerError });
       }
       
-      const success = await storage.deleteTransaction(id);
-      if (!success) {
+      // The continuing series is converted at the rate of its first occurrence
+      const changes = await resolveCurrencyChanges({ ...transaction, date: parseISO(from) }, validFields);
+      if (!changes) {
+        const currency = validFields.originalCurrency ?? transaction.originalCurrency;
+        return res.status(400).json({ message: `No ${currency} exchange rate is known for ${from}` });
+      }
+      
+      const reconciledEntry = await findReconciledEntry(req.household!.id, id, from);
+      if (reconciledEntry && changesLockedFields(transaction, changes)) {
+        return res.status(409).json({ message: reconciledEntryMessage(reconciledEntry) });
+      }
+      
+      const split = await splitRecurringTransaction(req.household!.id, transaction, from, changes);
+      if (!split) {
+        return res.status(400).json({ message: `${from} is not an occurrence of this transaction` });
+      }
+      
+      console.log(`[RECURRING UPDATE] Split ${transaction.title} (ID: ${id}) at ${from} into ID ${split.next.id}`);
+      res.json(split);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error splitting recurring transaction:", error);
+      res.status(500).json({ message: "Failed to update recurring transaction" });
+    }
+  });
+  
+  // Split a transaction across categories and people, or remove its split with no lines
+  router.put("/transactions/:id/lines", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID" });
+      }
+      
+      const transaction = await storage.getTransactionById(req.household!.id, id);
+      if (!transaction) {
         return res.status(404).json({ message: "Transaction not found" });
       }
       
-      // If this was a Grocerries transaction, return a special success message
-      if (isGrocerries) {
-        return res.status(200).json({ 
-          message: "Grocerries transaction and all its instances deleted successfully"
-        });
+      const { lines } = transactionLinesSchema.parse(req.body);
+      const linesError = await getLinesError(req.household!.id, transaction, lines);
+      if (linesError) {
+        return res.status(400).json({ message: linesError });
+      }
+      
+      const savedLines = await storage.setTransactionLines(req.household!.id, id, lines);
+      res.json(savedLines);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error splitting transaction:", error);
+      res.status(500).json({ message: "Failed to split transaction" });
+    }
+  });
+  
+  // Replace a transaction's tags; tags the household doesn't have yet are created
+  router.put("/transactions/:id/tags", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID" });
+      }
+      
+      const transaction = await storage.getTransactionById(req.household!.id, id);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      if (isTransfer(transaction)) {
+        return res.status(400).json({ message: "Transfers can't be tagged" });
+      }
+      
+      const { tags } = transactionTagsSchema.parse(req.body);
+      const savedTags = await storage.setTransactionTags(req.household!.id, id, tags);
+      res.json(savedTags!.map(tag => tag.name));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error tagging transaction:", error);
+      res.status(500).json({ message: "Failed to tag transaction" });
+    }
+  });
+  
+  router.delete("/transactions/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID" });
+      }
+      
+      console.log(`Received DELETE request for transaction ${id}`);
+      
+      const transaction = await storage.getTransactionById(req.household!.id, id);
+      const reconciledEntry = transaction && await findReconciledEntry(req.household!.id, id);
+      if (reconciledEntry) {
+        return res.status(409).json({ message: reconciledEntryMessage(reconciledEntry) });
+      }
+      
+      const success = await storage.deleteTransaction(req.household!.id, id);
+      if (!success) {
+        return res.status(404).json({ message: "Transaction not found" });
       }
       
       res.status(204).send();
@@ -394,9 +791,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Categories endpoints
-  router.get("/categories", async (_req: Request, res: Response) => {
+  router.get("/categories", async (req: Request, res: Response) => {
     try {
-      const categories = await storage.getCategories();
+      const categories = await storage.getCategories(req.household!.id);
       res.json(categories);
     } catch (error) {
       console.error("Error getting categories:", error);
@@ -411,7 +808,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid category ID" });
       }
       
-      const category = await storage.getCategoryById(id);
+      const category = await storage.getCategoryById(req.household!.id, id);
       if (!category) {
         return res.status(404).json({ message: "Category not found" });
       }
@@ -423,10 +820,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  router.post("/categories", requireAuth, async (req: Request, res: Response) => {
+  router.post("/categories", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
     try {
       const categoryData = insertCategorySchema.parse(req.body);
-      const newCategory = await storage.createCategory(categoryData);
+      const newCategory = await storage.createCategory(req.household!.id, {
+        ...categoryData,
+        budgetStartMonth: categoryData.monthlyBudget ? format(new Date(), "yyyy-MM") : null,
+      });
       res.status(201).json(newCategory);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -438,7 +838,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  router.patch("/categories/:id", async (req: Request, res: Response) => {
+  router.patch("/categories/:id", requireRole("editor"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -451,9 +851,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         color: z.string().optional(),
         isExpense: z.boolean().optional(),
         emoji: z.string().optional(),
-      }).parse(req.body);
+      }).merge(categoryBudgetFieldsSchema).parse(req.body);
+      
+      const existingCategory = await storage.getCategoryById(req.household!.id, id);
+      if (!existingCategory) {
+        return res.status(404).json({ message: "Category not found" });
+      }
       
-      const updatedCategory = await storage.updateCategory(id, validFields);
+      // Rollover counts from the month a budget was first set; removing it starts over
+      const changes: Partial<Category> = validFields;
+      if (validFields.monthlyBudget === null) {
+        changes.budgetStartMonth = null;
+      } else if (validFields.monthlyBudget !== undefined && !existingCategory.budgetStartMonth) {
+        changes.budgetStartMonth = format(new Date(), "yyyy-MM");
+      }
+      
+      const updatedCategory = await storage.updateCategory(req.household!.id, id, changes);
       if (!updatedCategory) {
         return res.status(404).json({ message: "Category not found" });
       }
@@ -469,14 +882,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  router.delete("/categories/:id", async (req: Request, res: Response) => {
+  router.delete("/categories/:id", requireRole("editor"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid category ID" });
       }
       
-      const success = await storage.deleteCategory(id);
+      const success = await storage.deleteCategory(req.household!.id, id);
       if (!success) {
         return res.status(404).json({ message: "Category not found" });
       }
@@ -488,53 +901,1862 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Savings endpoints
-  router.get("/savings", async (_req: Request, res: Response) => {
+  // People endpoints
+  router.get("/people", requireAuth, async (req: Request, res: Response) => {
     try {
-      const savings = await storage.getSavings();
-      res.json(savings);
+      const people = await storage.getPeople(req.household!.id);
+      res.json(people);
     } catch (error) {
-      console.error("Error getting savings:", error);
-      res.status(500).json({ message: "Failed to get savings" });
+      console.error("Error getting people:", error);
+      res.status(500).json({ message: "Failed to get people" });
     }
   });
   
-  router.post("/savings", async (req: Request, res: Response) => {
+  router.get("/people/:id", requireAuth, async (req: Request, res: Response) => {
     try {
-      // Convert string date to Date object if needed
-      if (req.body.date && typeof req.body.date === 'string') {
-        req.body.date = new Date(req.body.date);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid person ID" });
       }
-
-      const savingsData = insertSavingsSchema.parse(req.body);
-      const newSavings = await storage.createSavings(savingsData);
-      res.status(201).json(newSavings);
+      
+      const person = await storage.getPersonById(req.household!.id, id);
+      if (!person) {
+        return res.status(404).json({ message: "Person not found" });
+      }
+      
+      res.json(person);
+    } catch (error) {
+      console.error("Error getting person:", error);
+      res.status(500).json({ message: "Failed to get person" });
+    }
+  });
+  
+  router.post("/people", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const personData = insertPersonSchema.parse(req.body);
+      
+      if (await storage.getPersonByName(req.household!.id, personData.name)) {
+        return res.status(409).json({ message: `A person named "${personData.name}" already exists` });
+      }
+      
+      const newPerson = await recordSplitChange(req.household!.id, () => storage.createPerson(req.household!.id, personData));
+      res.status(201).json(newPerson);
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
         return res.status(400).json({ message: validationError.message });
       }
-      console.error("Error creating savings entry:", error);
-      res.status(500).json({ message: "Failed to create savings entry" });
+      console.error("Error creating person:", error);
+      res.status(500).json({ message: "Failed to create person" });
     }
   });
   
-  router.delete("/savings/:id", async (req: Request, res: Response) => {
+  router.patch("/people/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid savings ID" });
+        return res.status(400).json({ message: "Invalid person ID" });
       }
       
-      const success = await storage.deleteSavings(id);
-      if (!success) {
-        return res.status(404).json({ message: "Savings entry not found" });
+      const validFields = insertPersonSchema.partial().parse(req.body);
+      
+      if (validFields.name !== undefined) {
+        const sameName = await storage.getPersonByName(req.household!.id, validFields.name);
+        if (sameName && sameName.id !== id) {
+          return res.status(409).json({ message: `A person named "${validFields.name}" already exists` });
+        }
+      }
+      
+      // Only members pay; a shared person's expenses are split between them
+      if (validFields.isShared) {
+        const person = await storage.getPersonById(req.household!.id, id);
+        const householdTransactions = await storage.getTransactions(req.household!.id);
+        if (person && !person.isShared && householdTransactions.some(t => t.paidBy === person.name)) {
+          return res.status(409).json({ message: `${person.name} paid for transactions and can't be shared` });
+        }
+      }
+      
+      const updatedPerson = await recordSplitChange(req.household!.id, () => storage.updatePerson(req.household!.id, id, validFields));
+      if (!updatedPerson) {
+        return res.status(404).json({ message: "Person not found" });
+      }
+      
+      res.json(updatedPerson);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating person:", error);
+      res.status(500).json({ message: "Failed to update person" });
+    }
+  });
+  
+  router.delete("/people/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid person ID" });
+      }
+      
+      const person = await storage.getPersonById(req.household!.id, id);
+      if (!person) {
+        return res.status(404).json({ message: "Person not found" });
+      }
+      
+      // Keep the history readable - people with entries can only be deactivated. That includes
+      // members who took part in an earlier split: they have a share of its shared expenses.
+      const today = format(new Date(), "yyyy-MM-dd");
+      const [householdTransactions, householdSavings, settlementPayments, settlementSplits] = await Promise.all([
+        storage.getTransactions(req.household!.id),
+        storage.getSavings(req.household!.id),
+        storage.getSettlementPayments(req.household!.id),
+        storage.getSettlementSplits(req.household!.id),
+      ]);
+      const isInUse = householdTransactions.some(t => t.personLabel === person.name || t.paidBy === person.name) ||
+        householdSavings.some(s => s.personLabel === person.name) ||
+        settlementPayments.some(p => p.fromPerson === person.name || p.toPerson === person.name) ||
+        settlementSplits.some(split => split.effectiveFrom < today && split.participants.some(p => p.personId === person.id));
+      if (isInUse) {
+        return res.status(409).json({ message: `${person.name} has transactions or savings; deactivate them instead` });
       }
       
+      await recordSplitChange(req.household!.id, () => storage.deletePerson(req.household!.id, id));
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting savings entry:", error);
-      res.status(500).json({ message: "Failed to delete savings entry" });
+      console.error("Error deleting person:", error);
+      res.status(500).json({ message: "Failed to delete person" });
+    }
+  });
+
+  // Settlement endpoints: who owes whom for what they paid for each other
+  router.get("/settlement", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const settlement = await getSettlement(req.household!.id);
+      res.json(settlement);
+    } catch (error) {
+      console.error("Error calculating settlement:", error);
+      res.status(500).json({ message: "Failed to calculate settlement" });
+    }
+  });
+  
+  // How shared expenses are split; percentage shares are kept with the members
+  router.put("/settlement/settings", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const { splitMethod, shares } = settlementSettingsSchema.parse(req.body);
+      
+      const people = await storage.getPeople(req.household!.id);
+      for (const share of shares ?? []) {
+        const person = people.find(p => p.id === share.personId);
+        if (!person || person.isShared) {
+          return res.status(400).json({ message: "Shares can only be given to the household's members" });
+        }
+      }
+      
+      const settings = await recordSplitChange(req.household!.id, async () => {
+        for (const share of shares ?? []) {
+          await storage.updatePerson(req.household!.id, share.personId, { settlementShare: share.percent });
+        }
+        return storage.upsertSettlementSettings(req.household!.id, { splitMethod });
+      });
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error saving settlement settings:", error);
+      res.status(500).json({ message: "Failed to save settlement settings" });
+    }
+  });
+  
+  // Record money one member gave another to settle up
+  router.post("/settlement/payments", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const paymentData = insertSettlementPaymentSchema.parse(req.body);
+      
+      for (const name of [paymentData.fromPerson, paymentData.toPerson]) {
+        const person = await storage.getPersonByName(req.household!.id, name);
+        if (!person || person.isShared) {
+          return res.status(400).json({ message: `Unknown member "${name}"` });
+        }
+      }
+      
+      const payment = await storage.createSettlementPayment(req.household!.id, paymentData);
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error recording settlement payment:", error);
+      res.status(500).json({ message: "Failed to record settlement payment" });
+    }
+  });
+  
+  router.delete("/settlement/payments/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid payment ID" });
+      }
+      
+      const success = await storage.deleteSettlementPayment(req.household!.id, id);
+      if (!success) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting settlement payment:", error);
+      res.status(500).json({ message: "Failed to delete settlement payment" });
+    }
+  });
+  
+  // Tag endpoints
+  router.get("/tags", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const [tags, links] = await Promise.all([
+        storage.getTags(req.household!.id),
+        storage.getTransactionTags(req.household!.id),
+      ]);
+      
+      const tagsWithUsage: TagWithUsage[] = tags.map(tag => ({
+        ...tag,
+        transactionCount: links.filter(link => link.tagId === tag.id).length,
+      }));
+      res.json(tagsWithUsage);
+    } catch (error) {
+      console.error("Error getting tags:", error);
+      res.status(500).json({ message: "Failed to get tags" });
+    }
+  });
+  
+  // What each tag's transactions added up to between two dates
+  router.get("/tags/totals", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { from, to } = tagTotalsQuerySchema.parse(req.query);
+      const totals = await getTagTotals(req.household!.id, from, to);
+      res.json(totals);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error getting tag totals:", error);
+      res.status(500).json({ message: "Failed to get tag totals" });
+    }
+  });
+  
+  // Removes the tag from every transaction
+  router.delete("/tags/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid tag ID" });
+      }
+      
+      const success = await storage.deleteTag(req.household!.id, id);
+      if (!success) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+  
+  // Savings endpoints
+  router.get("/savings", async (req: Request, res: Response) => {
+    try {
+      const savings = await storage.getSavings(req.household!.id);
+      res.json(savings);
+    } catch (error) {
+      console.error("Error getting savings:", error);
+      res.status(500).json({ message: "Failed to get savings" });
+    }
+  });
+  
+  router.post("/savings", requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      // Convert string date to Date object if needed
+      if (req.body.date && typeof req.body.date === 'string') {
+        req.body.date = new Date(req.body.date);
+      }
+
+      const { isWithdrawal, ...savingsData } = savingsEntrySchema.parse(req.body);
+      
+      if (!await isSelectablePerson(req.household!.id, savingsData.personLabel)) {
+        return res.status(400).json({ message: `Unknown person "${savingsData.personLabel}"` });
+      }
+      
+      if (!await areHouseholdAccounts(req.household!.id, savingsData.accountId, savingsData.fromAccountId)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      if (savingsData.accountId && savingsData.accountId === savingsData.fromAccountId) {
+        return res.status(400).json({ message: "Savings have to go into a different account than they come from" });
+      }
+      
+      if (savingsData.goalId) {
+        const goal = await storage.getSavingsGoalById(req.household!.id, savingsData.goalId);
+        if (!goal) {
+          return res.status(400).json({ message: `Unknown savings goal ${savingsData.goalId}` });
+        }
+        
+        // A goal can't go below zero
+        if (isWithdrawal) {
+          const saved = (await storage.getSavings(req.household!.id))
+            .filter(entry => entry.goalId === goal.id)
+            .reduce((sum, entry) => sum + entry.amount, 0);
+          if (savingsData.amount > saved + 0.005) {
+            return res.status(400).json({ message: `Only ${saved.toFixed(2)} PLN is saved for ${goal.name}` });
+          }
+        }
+      }
+      
+      const newSavings = await storage.createSavings(req.household!.id, {
+        ...savingsData,
+        amount: isWithdrawal ? -savingsData.amount : savingsData.amount,
+      });
+      res.status(201).json(newSavings);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating savings entry:", error);
+      res.status(500).json({ message: "Failed to create savings entry" });
+    }
+  });
+  
+  router.delete("/savings/:id", requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid savings ID" });
+      }
+      
+      const success = await storage.deleteSavings(req.household!.id, id);
+      if (!success) {
+        return res.status(404).json({ message: "Savings entry not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting savings entry:", error);
+      res.status(500).json({ message: "Failed to delete savings entry" });
+    }
+  });
+
+  // Audit log: who changed what and when, newest first
+  router.get("/audit", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const entries = await storage.getAuditEntries(req.household!.id, query);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error getting audit log:", error);
+      res.status(500).json({ message: "Failed to get audit log" });
+    }
+  });
+
+  // Trash endpoints - deleted transactions, categories and savings until they are purged
+  router.get("/trash", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await getTrash(req.household!.id));
+    } catch (error) {
+      console.error("Error getting trash:", error);
+      res.status(500).json({ message: "Failed to get trash" });
+    }
+  });
+  
+  router.post("/trash/:type/:id/restore", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const type = z.enum(trashItemTypes).parse(req.params.type);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+      
+      const restored = await restoreTrashItem(req.household!.id, type, id);
+      if (!restored) {
+        return res.status(404).json({ message: "Item not found in the trash" });
+      }
+      
+      res.json(restored);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error restoring from trash:", error);
+      res.status(500).json({ message: "Failed to restore item" });
+    }
+  });
+
+  // Savings goal endpoints
+  router.get("/savings-goals", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const goals = await getSavingsGoalStatuses(req.household!.id);
+      res.json(goals);
+    } catch (error) {
+      console.error("Error getting savings goals:", error);
+      res.status(500).json({ message: "Failed to get savings goals" });
+    }
+  });
+  
+  router.post("/savings-goals", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const goalData = insertSavingsGoalSchema.parse(req.body);
+      
+      if (goalData.contributionPersonLabel && !await isSelectablePerson(req.household!.id, goalData.contributionPersonLabel)) {
+        return res.status(400).json({ message: `Unknown person "${goalData.contributionPersonLabel}"` });
+      }
+      
+      const goal = await storage.createSavingsGoal(req.household!.id, goalData);
+      // A first contribution dated today or earlier is booked straight away
+      await applyDueContributions(req.household!.id);
+      res.status(201).json(await storage.getSavingsGoalById(req.household!.id, goal.id));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating savings goal:", error);
+      res.status(500).json({ message: "Failed to create savings goal" });
+    }
+  });
+  
+  router.patch("/savings-goals/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid savings goal ID" });
+      }
+      
+      const existingGoal = await storage.getSavingsGoalById(req.household!.id, id);
+      if (!existingGoal) {
+        return res.status(404).json({ message: "Savings goal not found" });
+      }
+      
+      // The changes have to leave a valid goal, e.g. a contribution still needs its interval
+      const changes = updateSavingsGoalSchema.parse(req.body);
+      insertSavingsGoalSchema.parse({ ...existingGoal, ...changes });
+      
+      if (changes.contributionPersonLabel && !await isSelectablePerson(req.household!.id, changes.contributionPersonLabel)) {
+        return res.status(400).json({ message: `Unknown person "${changes.contributionPersonLabel}"` });
+      }
+      
+      await storage.updateSavingsGoal(req.household!.id, id, changes);
+      await applyDueContributions(req.household!.id);
+      res.json(await storage.getSavingsGoalById(req.household!.id, id));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating savings goal:", error);
+      res.status(500).json({ message: "Failed to update savings goal" });
+    }
+  });
+  
+  router.delete("/savings-goals/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid savings goal ID" });
+      }
+      
+      // Entries of the goal are kept as general savings
+      const success = await storage.deleteSavingsGoal(req.household!.id, id);
+      if (!success) {
+        return res.status(404).json({ message: "Savings goal not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting savings goal:", error);
+      res.status(500).json({ message: "Failed to delete savings goal" });
+    }
+  });
+
+  // Subscription endpoints (recurring expenses tracked with renewals, trials and price changes)
+  router.get("/subscriptions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const subscriptions = await getSubscriptionStatuses(req.household!.id);
+      res.json(subscriptions);
+    } catch (error) {
+      console.error("Error getting subscriptions:", error);
+      res.status(500).json({ message: "Failed to get subscriptions" });
+    }
+  });
+  
+  router.get("/subscriptions/suggestions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const suggestions = await detectSubscriptions(req.household!.id);
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error detecting subscriptions:", error);
+      res.status(500).json({ message: "Failed to detect subscriptions" });
+    }
+  });
+  
+  // Track a recurring expense, or start a new one as when a suggestion is confirmed
+  router.post("/subscriptions", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const subscriptionData = insertSubscriptionSchema.parse(req.body);
+      
+      let transactionId = subscriptionData.transactionId;
+      if (transactionId !== undefined) {
+        const transaction = await storage.getTransactionById(req.household!.id, transactionId);
+        if (!transaction) {
+          return res.status(400).json({ message: "Invalid transaction ID" });
+        }
+        if (!transaction.isExpense || !transaction.isRecurring || isTransfer(transaction)) {
+          return res.status(400).json({ message: "Only recurring expenses can be tracked as subscriptions" });
+        }
+        const subscriptions = await storage.getSubscriptions(req.household!.id);
+        if (subscriptions.some(s => s.transactionId === transactionId)) {
+          return res.status(409).json({ message: `${transaction.title} is already tracked as a subscription` });
+        }
+      } else {
+        if (!await isSelectablePerson(req.household!.id, subscriptionData.personLabel!)) {
+          return res.status(400).json({ message: `Unknown person "${subscriptionData.personLabel}"` });
+        }
+        if (!await storage.getCategoryById(req.household!.id, subscriptionData.categoryId!)) {
+          return res.status(400).json({ message: "Invalid category ID" });
+        }
+        const transaction = await storage.createTransaction(req.household!.id, subscriptionTransaction(subscriptionData));
+        transactionId = transaction.id;
+      }
+      
+      const subscription = await storage.createSubscription(req.household!.id, {
+        transactionId,
+        trialEndsAt: subscriptionData.trialEndsAt ?? null,
+        remindDaysBefore: subscriptionData.remindDaysBefore ?? null,
+      });
+      res.status(201).json(subscription);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating subscription:", error);
+      res.status(500).json({ message: "Failed to create subscription" });
+    }
+  });
+  
+  router.patch("/subscriptions/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid subscription ID" });
+      }
+      
+      const changes = updateSubscriptionSchema.parse(req.body);
+      const updatedSubscription = await storage.updateSubscription(req.household!.id, id, changes);
+      if (!updatedSubscription) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      
+      res.json(updatedSubscription);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating subscription:", error);
+      res.status(500).json({ message: "Failed to update subscription" });
+    }
+  });
+  
+  // A new price from one of the charges on: the series is split there, like editing
+  // "this and following" in the planner, and the change goes into the price history
+  router.post("/subscriptions/:id/price", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid subscription ID" });
+      }
+      
+      const { amount, from } = subscriptionPriceSchema.parse(req.body);
+      
+      const subscription = await storage.getSubscriptionById(req.household!.id, id);
+      const transaction = subscription && await storage.getTransactionById(req.household!.id, subscription.transactionId);
+      if (!transaction) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      
+      const occurrenceDate = firstChargeFrom(transaction, from);
+      if (!occurrenceDate) {
+        return res.status(400).json({ message: `${transaction.title} has no charges from ${from} on` });
+      }
+      
+      // Foreign currency subscriptions are priced in their currency and converted as before
+      const changes = await resolveCurrencyChanges(
+        { ...transaction, date: parseISO(occurrenceDate) },
+        transaction.originalCurrency ? { originalAmount: amount } : { amount }
+      );
+      if (!changes) {
+        return res.status(400).json({ message: `No ${transaction.originalCurrency} exchange rate is known for ${occurrenceDate}` });
+      }
+      
+      const reconciledEntry = await findReconciledEntry(req.household!.id, transaction.id, occurrenceDate);
+      if (reconciledEntry) {
+        return res.status(409).json({ message: reconciledEntryMessage(reconciledEntry) });
+      }
+      
+      const split = await splitRecurringTransaction(req.household!.id, transaction, occurrenceDate, changes);
+      if (!split) {
+        return res.status(400).json({ message: `${occurrenceDate} is not a charge of this subscription` });
+      }
+      
+      res.json(split);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error changing subscription price:", error);
+      res.status(500).json({ message: "Failed to change subscription price" });
+    }
+  });
+  
+  router.delete("/subscriptions/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid subscription ID" });
+      }
+      
+      // Only stops tracking it; the recurring expense stays in the budget
+      const success = await storage.deleteSubscription(req.household!.id, id);
+      if (!success) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting subscription:", error);
+      res.status(500).json({ message: "Failed to delete subscription" });
+    }
+  });
+
+  // Account endpoints (bank accounts, cards and cash with their balance today)
+  router.get("/accounts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const accounts = await getAccountBalances(req.household!.id);
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error getting accounts:", error);
+      res.status(500).json({ message: "Failed to get accounts" });
+    }
+  });
+  
+  router.post("/accounts", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const accountData = insertAccountSchema.parse(req.body);
+      const account = await storage.createAccount(req.household!.id, accountData);
+      res.status(201).json(account);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating account:", error);
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+  
+  router.patch("/accounts/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      const validFields = updateAccountSchema.parse(req.body);
+      
+      // Finished reconciliations were worked out from the opening balance in the account's currency
+      const account = await storage.getAccountById(req.household!.id, id);
+      const isReconciled = account && (await storage.getReconciliations(req.household!.id, id)).some(r => !!r.finishedAt);
+      if (account && isReconciled && (
+        (validFields.currency !== undefined && validFields.currency !== account.currency) ||
+        (validFields.openingBalance !== undefined && validFields.openingBalance !== account.openingBalance) ||
+        (validFields.openingBalanceDate !== undefined && validFields.openingBalanceDate !== account.openingBalanceDate)
+      )) {
+        return res.status(409).json({ message: `${account.name} has been reconciled; its opening balance and currency can't change` });
+      }
+      
+      const updatedAccount = await storage.updateAccount(req.household!.id, id, validFields);
+      if (!updatedAccount) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      res.json(updatedAccount);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating account:", error);
+      res.status(500).json({ message: "Failed to update account" });
+    }
+  });
+  
+  router.delete("/accounts/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      const account = await storage.getAccountById(req.household!.id, id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      // Deleting would leave its entries without an account and transfers without one end
+      if (await storage.isAccountInUse(req.household!.id, id)) {
+        return res.status(409).json({ message: `${account.name} has transactions or savings; archive it instead` });
+      }
+      
+      await storage.deleteAccount(req.household!.id, id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+  
+  // Transfer endpoints: money moving between two of the household's accounts
+  router.get("/transfers", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const transfers = (await storage.getTransactions(req.household!.id)).filter(isTransfer);
+      res.json(transfers);
+    } catch (error) {
+      console.error("Error getting transfers:", error);
+      res.status(500).json({ message: "Failed to get transfers" });
+    }
+  });
+  
+  router.post("/transfers", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const transferData = insertTransferSchema.parse(req.body);
+      
+      if (!await areHouseholdAccounts(req.household!.id, transferData.fromAccountId, transferData.toAccountId)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      const transfer = await storage.createTransaction(req.household!.id, transferTransaction(transferData));
+      res.status(201).json(transfer);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating transfer:", error);
+      res.status(500).json({ message: "Failed to create transfer" });
+    }
+  });
+  
+  router.patch("/transfers/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transfer ID" });
+      }
+      
+      const existing = await storage.getTransactionById(req.household!.id, id);
+      if (!existing || !isTransfer(existing)) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      
+      const changes = updateTransferSchema.parse(req.body);
+      const transferData = insertTransferSchema.parse({
+        title: existing.title,
+        amount: existing.amount,
+        date: existing.date,
+        notes: existing.notes,
+        fromAccountId: existing.accountId,
+        toAccountId: existing.transferAccountId,
+        recurrenceRule: existing.recurrenceRule,
+        ...changes,
+      });
+      
+      if (!await areHouseholdAccounts(req.household!.id, transferData.fromAccountId, transferData.toAccountId)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      const transfer = transferTransaction(transferData);
+      const reconciledEntry = await findReconciledEntry(req.household!.id, id);
+      if (reconciledEntry && changesLockedFields(existing, transfer)) {
+        return res.status(409).json({ message: reconciledEntryMessage(reconciledEntry) });
+      }
+      
+      const updatedTransfer = await storage.updateTransaction(req.household!.id, id, transfer);
+      res.json(updatedTransfer);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating transfer:", error);
+      res.status(500).json({ message: "Failed to update transfer" });
+    }
+  });
+  
+  // Statement reconciliation endpoints: tick entries off against a statement, then lock them
+  router.get("/accounts/:id/reconciliation", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      const account = await storage.getAccountById(req.household!.id, id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      res.json(await getAccountReconciliation(req.household!.id, account));
+    } catch (error) {
+      console.error("Error getting reconciliation:", error);
+      res.status(500).json({ message: "Failed to get reconciliation" });
+    }
+  });
+  
+  router.post("/accounts/:id/reconciliations", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      const account = await storage.getAccountById(req.household!.id, id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      const reconciliationData = insertReconciliationSchema.parse(req.body);
+      const accountReconciliations = await storage.getReconciliations(req.household!.id, id);
+      if (accountReconciliations.some(r => !r.finishedAt)) {
+        return res.status(409).json({ message: `${account.name} already has an open reconciliation` });
+      }
+      
+      const lastDate = accountReconciliations.find(r => !!r.finishedAt)?.statementDate ?? account.openingBalanceDate;
+      if (reconciliationData.statementDate <= lastDate) {
+        return res.status(400).json({ message: `The statement has to close after ${lastDate}` });
+      }
+      
+      const reconciliation = await storage.createReconciliation(req.household!.id, { ...reconciliationData, accountId: id });
+      res.status(201).json(reconciliation);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error starting reconciliation:", error);
+      res.status(500).json({ message: "Failed to start reconciliation" });
+    }
+  });
+  
+  router.put("/accounts/:id/cleared", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+      
+      const account = await storage.getAccountById(req.household!.id, id);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      const { transactionId, occurrenceDate, isCleared } = clearEntrySchema.parse(req.body);
+      const transaction = await storage.getTransactionById(req.household!.id, transactionId);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      const reconciledEntry = (await storage.getClearedEntries(req.household!.id, { accountId: id, transactionId }))
+        .find(entry => entry.occurrenceDate === occurrenceDate && entry.reconciliationId !== null);
+      if (reconciledEntry) {
+        return res.status(409).json({ message: reconciledEntryMessage(reconciledEntry) });
+      }
+      
+      if (!await setEntryCleared(req.household!.id, account, transaction, occurrenceDate, isCleared)) {
+        return res.status(400).json({ message: `${transaction.title} isn't booked to ${account.name} on ${occurrenceDate}` });
+      }
+      
+      res.json(await getAccountReconciliation(req.household!.id, account));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error clearing entry:", error);
+      res.status(500).json({ message: "Failed to clear entry" });
+    }
+  });
+  
+  router.patch("/reconciliations/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid reconciliation ID" });
+      }
+      
+      const reconciliation = await storage.getReconciliationById(req.household!.id, id);
+      if (!reconciliation) {
+        return res.status(404).json({ message: "Reconciliation not found" });
+      }
+      if (reconciliation.finishedAt) {
+        return res.status(409).json({ message: "The reconciliation is finished; undo it to change it" });
+      }
+      
+      const validFields = updateReconciliationSchema.parse(req.body);
+      if (validFields.statementDate !== undefined) {
+        const account = await storage.getAccountById(req.household!.id, reconciliation.accountId);
+        const lastDate = (await storage.getReconciliations(req.household!.id, reconciliation.accountId))
+          .find(r => !!r.finishedAt)?.statementDate ?? account!.openingBalanceDate;
+        if (validFields.statementDate <= lastDate) {
+          return res.status(400).json({ message: `The statement has to close after ${lastDate}` });
+        }
+      }
+      
+      const updatedReconciliation = await storage.updateReconciliation(req.household!.id, id, validFields);
+      res.json(updatedReconciliation);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating reconciliation:", error);
+      res.status(500).json({ message: "Failed to update reconciliation" });
+    }
+  });
+  
+  // Finishing locks the cleared entries up to the statement date, whatever the difference
+  router.post("/reconciliations/:id/finish", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid reconciliation ID" });
+      }
+      
+      const reconciliation = await storage.getReconciliationById(req.household!.id, id);
+      if (!reconciliation) {
+        return res.status(404).json({ message: "Reconciliation not found" });
+      }
+      if (reconciliation.finishedAt) {
+        return res.status(409).json({ message: "The reconciliation is already finished" });
+      }
+      
+      const account = await storage.getAccountById(req.household!.id, reconciliation.accountId);
+      const { clearedBalance } = await getAccountReconciliation(req.household!.id, account!);
+      const finishedReconciliation = await storage.finishReconciliation(req.household!.id, id, clearedBalance);
+      res.json(finishedReconciliation);
+    } catch (error) {
+      console.error("Error finishing reconciliation:", error);
+      res.status(500).json({ message: "Failed to finish reconciliation" });
+    }
+  });
+  
+  // Match the rows of an imported statement to the account's entries; nothing is ticked off
+  router.post("/reconciliations/:id/suggest", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid reconciliation ID" });
+      }
+      
+      const reconciliation = await storage.getReconciliationById(req.household!.id, id);
+      if (!reconciliation || reconciliation.finishedAt) {
+        return res.status(404).json({ message: "Open reconciliation not found" });
+      }
+      
+      const { format, content, mapping } = importPreviewRequestSchema.parse(req.body);
+      const account = await storage.getAccountById(req.household!.id, reconciliation.accountId);
+      const suggestion = await suggestStatementMatches(req.household!.id, account!, format, content, mapping);
+      res.json(suggestion);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error matching statement:", error);
+      res.status(500).json({ message: "Failed to read the statement" });
+    }
+  });
+  
+  // Cancel an open reconciliation, or undo the latest finished one: its entries go back to cleared
+  router.delete("/reconciliations/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid reconciliation ID" });
+      }
+      
+      const reconciliation = await storage.getReconciliationById(req.household!.id, id);
+      if (!reconciliation) {
+        return res.status(404).json({ message: "Reconciliation not found" });
+      }
+      
+      if (reconciliation.finishedAt) {
+        const latest = (await storage.getReconciliations(req.household!.id, reconciliation.accountId)).find(r => !!r.finishedAt);
+        if (latest?.id !== id) {
+          return res.status(409).json({ message: "Only the latest reconciliation can be undone" });
+        }
+      }
+      
+      await storage.deleteReconciliation(req.household!.id, id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting reconciliation:", error);
+      res.status(500).json({ message: "Failed to delete reconciliation" });
+    }
+  });
+  
+  // Occurrence override endpoints (skip / paid / amount / note for one date of a recurring transaction)
+  router.get("/occurrences", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { from, to } = req.query;
+      
+      if (from !== undefined || to !== undefined) {
+        const startDate = occurrenceDateSchema.parse(from);
+        const endDate = occurrenceDateSchema.parse(to);
+        const occurrences = await storage.getTransactionOccurrencesByDateRange(req.household!.id, startDate, endDate);
+        return res.json(occurrences);
+      }
+      
+      const occurrences = await storage.getTransactionOccurrences(req.household!.id);
+      res.json(occurrences);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error getting occurrences:", error);
+      res.status(500).json({ message: "Failed to get occurrences" });
+    }
+  });
+  
+  router.get("/transactions/:id/occurrences", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID" });
+      }
+      
+      const occurrences = await storage.getTransactionOccurrences(req.household!.id, id);
+      res.json(occurrences);
+    } catch (error) {
+      console.error("Error getting transaction occurrences:", error);
+      res.status(500).json({ message: "Failed to get transaction occurrences" });
+    }
+  });
+  
+  router.put("/transactions/:id/occurrences/:date", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID" });
+      }
+      
+      const transaction = await storage.getTransactionById(req.household!.id, id);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      const occurrenceData = insertTransactionOccurrenceSchema.parse({
+        ...req.body,
+        transactionId: id,
+        occurrenceDate: req.params.date,
+      });
+      
+      if (occurrenceData.categoryIdOverride &&
+          !await storage.getCategoryById(req.household!.id, occurrenceData.categoryIdOverride)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      if (occurrenceData.personLabelOverride &&
+          occurrenceData.personLabelOverride !== transaction.personLabel &&
+          !await isSelectablePerson(req.household!.id, occurrenceData.personLabelOverride)) {
+        return res.status(400).json({ message: `Unknown person "${occurrenceData.personLabelOverride}"` });
+      }
+      
+      // A reconciled occurrence can't be skipped or change its amount
+      const reconciledEntry = await findReconciledEntry(req.household!.id, id, occurrenceData.occurrenceDate);
+      if (reconciledEntry?.occurrenceDate === occurrenceData.occurrenceDate) {
+        const current = (await storage.getTransactionOccurrences(req.household!.id, id))
+          .find(o => o.occurrenceDate === occurrenceData.occurrenceDate);
+        if (occurrenceData.isSkipped ||
+            (occurrenceData.amountOverride !== undefined && occurrenceData.amountOverride !== (current?.amountOverride ?? null))) {
+          return res.status(409).json({ message: reconciledEntryMessage(reconciledEntry) });
+        }
+      }
+      
+      const occurrence = await storage.upsertTransactionOccurrence(req.household!.id, occurrenceData);
+      if (!occurrence) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      console.log(`[OCCURRENCE] Saved override for transaction ${id} on ${occurrence.occurrenceDate}:`, occurrence);
+      res.json(occurrence);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error saving occurrence:", error);
+      res.status(500).json({ message: "Failed to save occurrence" });
+    }
+  });
+  
+  router.delete("/transactions/:id/occurrences/:date", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID" });
+      }
+      
+      const occurrenceDate = occurrenceDateSchema.parse(req.params.date);
+      
+      // Clearing the override would take back an amount a reconciliation locked
+      const reconciledEntry = await findReconciledEntry(req.household!.id, id, occurrenceDate);
+      if (reconciledEntry?.occurrenceDate === occurrenceDate) {
+        const current = (await storage.getTransactionOccurrences(req.household!.id, id))
+          .find(o => o.occurrenceDate === occurrenceDate);
+        if (current?.amountOverride != null) {
+          return res.status(409).json({ message: reconciledEntryMessage(reconciledEntry) });
+        }
+      }
+      
+      const success = await storage.deleteTransactionOccurrence(req.household!.id, id, occurrenceDate);
+      if (!success) {
+        return res.status(404).json({ message: "Occurrence override not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error deleting occurrence:", error);
+      res.status(500).json({ message: "Failed to delete occurrence" });
+    }
+  });
+
+  // Daily running balance over the next 3, 6 or 12 months, with the low points flagged.
+  // Registered before /budget/:month, which would otherwise take "forecast" for a month.
+  router.get("/budget/forecast", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { months } = forecastQuerySchema.parse(req.query);
+      const forecast = await getCashFlowForecast(req.household!.id, months);
+      res.json(forecast);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error calculating forecast:", error);
+      res.status(500).json({ message: "Failed to calculate forecast" });
+    }
+  });
+
+  // Opening balance and low-balance threshold of the forecast
+  router.put("/budget/forecast/settings", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const settingsData = forecastSettingsSchema.parse(req.body);
+      const settings = await storage.upsertForecastSettings(req.household!.id, settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error saving forecast settings:", error);
+      res.status(500).json({ message: "Failed to save forecast settings" });
+    }
+  });
+
+  // Trends over the last 12 or 24 complete months; also registered before /budget/:month
+  router.get("/budget/report", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { months } = reportQuerySchema.parse(req.query);
+      const report = await getSpendingReport(req.household!.id, months);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error calculating report:", error);
+      res.status(500).json({ message: "Failed to calculate report" });
+    }
+  });
+  
+  // The entries behind a report figure
+  router.get("/budget/report/entries", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const query = reportEntriesQuerySchema.parse(req.query);
+      const entries = await getReportEntries(req.household!.id, query);
+      res.json(entries);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error getting report entries:", error);
+      res.status(500).json({ message: "Failed to get report entries" });
+    }
+  });
+  
+  // Printable statements of a month or a year, e.g. /reports/monthly/2026-03.pdf
+  router.get("/reports/monthly/:month.pdf", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const month = budgetMonthSchema.parse(req.params.month);
+      const pdf = await buildMonthlyStatement(req.household!.id, month);
+      
+      res.setHeader("Content-Disposition", `inline; filename="statement-${month}.pdf"`);
+      res.type("application/pdf").send(pdf);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error generating monthly statement:", error);
+      res.status(500).json({ message: "Failed to generate statement" });
+    }
+  });
+  
+  router.get("/reports/annual/:year.pdf", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const year = statementYearSchema.parse(req.params.year);
+      const pdf = await buildAnnualStatement(req.household!.id, year);
+      
+      res.setHeader("Content-Disposition", `inline; filename="statement-${year}.pdf"`);
+      res.type("application/pdf").send(pdf);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error generating annual statement:", error);
+      res.status(500).json({ message: "Failed to generate statement" });
+    }
+  });
+  
+  // Monthly budget (income, expenses, savings, carry-over and balance with skips and overrides applied)
+  router.get("/budget/:month", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const month = budgetMonthSchema.parse(req.params.month);
+      const budget = await getMonthlyBudget(req.household!.id, month);
+      res.json(budget);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error calculating budget:", error);
+      res.status(500).json({ message: "Failed to calculate budget" });
+    }
+  });
+
+  // Budget vs. actual per category, with rollover and projected spending
+  router.get("/budget/:month/categories", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const month = budgetMonthSchema.parse(req.params.month);
+      const budgets = await getCategoryBudgets(req.household!.id, month);
+      res.json(budgets);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error calculating category budgets:", error);
+      res.status(500).json({ message: "Failed to calculate category budgets" });
+    }
+  });
+  
+  // Per-month override of a category's budget limit
+  router.put("/categories/:id/budgets/:month", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      
+      const month = budgetMonthSchema.parse(req.params.month);
+      const { amount } = categoryBudgetOverrideSchema.parse(req.body);
+      
+      const override = await storage.upsertCategoryBudgetOverride(req.household!.id, id, month, amount);
+      if (!override) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      res.json(override);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error saving category budget:", error);
+      res.status(500).json({ message: "Failed to save category budget" });
+    }
+  });
+  
+  router.delete("/categories/:id/budgets/:month", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      
+      const month = budgetMonthSchema.parse(req.params.month);
+      const success = await storage.deleteCategoryBudgetOverride(req.household!.id, id, month);
+      if (!success) {
+        return res.status(404).json({ message: "Budget override not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error deleting category budget:", error);
+      res.status(500).json({ message: "Failed to delete category budget" });
+    }
+  });
+
+  // Exchange rates to PLN (NBP table A or a loaded file), shared by every household
+  router.get("/exchange-rates", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const query = z.object({
+        currency: currencyCodeSchema.optional(),
+        from: occurrenceDateSchema.optional(),
+        to: occurrenceDateSchema.optional(),
+      }).parse(req.query);
+      
+      const rates = await storage.getExchangeRates(query.currency, query.from, query.to);
+      res.json(rates);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error getting exchange rates:", error);
+      res.status(500).json({ message: "Failed to get exchange rates" });
+    }
+  });
+  
+  router.get("/exchange-rates/currencies", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const currencies = await storage.getExchangeRateCurrencies();
+      res.json(currencies);
+    } catch (error) {
+      console.error("Error getting currencies:", error);
+      res.status(500).json({ message: "Failed to get currencies" });
+    }
+  });
+  
+  // The PLN amount of a foreign amount on a date, as a transaction would be converted
+  router.get("/exchange-rates/convert", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const query = z.object({
+        currency: currencyCodeSchema,
+        date: occurrenceDateSchema,
+        amount: z.coerce.number().nonnegative("Amount must not be negative").default(1),
+      }).parse(req.query);
+      
+      const conversion = await convertToBase(query.currency, query.amount, query.date);
+      if (!conversion) {
+        return res.status(404).json({ message: `No ${query.currency} exchange rate is known for ${query.date}` });
+      }
+      
+      res.json(conversion);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error converting currency:", error);
+      res.status(500).json({ message: "Failed to convert currency" });
+    }
+  });
+  
+  router.post("/exchange-rates/nbp", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const { from, to } = nbpFetchRequestSchema.parse(req.body);
+      const imported = await fetchNbpRates(from, to);
+      res.json({ imported });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error fetching NBP rates:", error);
+      res.status(502).json({ message: "Failed to fetch exchange rates from NBP" });
+    }
+  });
+  
+  router.post("/exchange-rates/import", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const { content } = exchangeRateImportSchema.parse(req.body);
+      const result = await importRateFile(content);
+      if (result.imported === 0) {
+        return res.status(400).json({ message: result.errors[0] ?? "The file has no rates", errors: result.errors });
+      }
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error importing exchange rates:", error);
+      res.status(500).json({ message: "Failed to import exchange rates" });
+    }
+  });
+  
+  // Import profile endpoints (saved CSV column mappings per bank)
+  router.get("/import-profiles", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const profiles = await storage.getImportProfiles(req.household!.id);
+      res.json(profiles);
+    } catch (error) {
+      console.error("Error getting import profiles:", error);
+      res.status(500).json({ message: "Failed to get import profiles" });
+    }
+  });
+  
+  router.post("/import-profiles", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const profileData = insertImportProfileSchema.parse(req.body);
+      
+      const profiles = await storage.getImportProfiles(req.household!.id);
+      if (profiles.some(profile => profile.name === profileData.name)) {
+        return res.status(409).json({ message: `An import profile named "${profileData.name}" already exists` });
+      }
+      
+      const newProfile = await storage.createImportProfile(req.household!.id, profileData);
+      res.status(201).json(newProfile);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating import profile:", error);
+      res.status(500).json({ message: "Failed to create import profile" });
+    }
+  });
+  
+  router.patch("/import-profiles/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid import profile ID" });
+      }
+      
+      const validFields = insertImportProfileSchema.partial().parse(req.body);
+      
+      if (validFields.name !== undefined) {
+        const profiles = await storage.getImportProfiles(req.household!.id);
+        if (profiles.some(profile => profile.name === validFields.name && profile.id !== id)) {
+          return res.status(409).json({ message: `An import profile named "${validFields.name}" already exists` });
+        }
+      }
+      
+      const updatedProfile = await storage.updateImportProfile(req.household!.id, id, validFields);
+      if (!updatedProfile) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      
+      res.json(updatedProfile);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating import profile:", error);
+      res.status(500).json({ message: "Failed to update import profile" });
+    }
+  });
+  
+  router.delete("/import-profiles/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid import profile ID" });
+      }
+      
+      const deleted = await storage.deleteImportProfile(req.household!.id, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting import profile:", error);
+      res.status(500).json({ message: "Failed to delete import profile" });
+    }
+  });
+
+  // Transaction rule endpoints (hide, rename, recategorize... matching transactions as they are read)
+  router.get("/transaction-rules", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const rules = await storage.getTransactionRules(req.household!.id);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error getting transaction rules:", error);
+      res.status(500).json({ message: "Failed to get transaction rules" });
+    }
+  });
+  
+  // Dry run: what a rule, saved or not, would do to the household's transactions
+  router.post("/transaction-rules/preview", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const ruleData = insertTransactionRuleSchema.parse(req.body);
+      const preview = await previewTransactionRule(req.household!.id, ruleData);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error previewing transaction rule:", error);
+      res.status(500).json({ message: "Failed to preview transaction rule" });
+    }
+  });
+  
+  router.post("/transaction-rules", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const ruleData = insertTransactionRuleSchema.parse(req.body);
+      
+      const referenceError = await getRuleReferenceError(req.household!.id, ruleData);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const newRule = await storage.createTransactionRule(req.household!.id, ruleData);
+      res.status(201).json(newRule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating transaction rule:", error);
+      res.status(500).json({ message: "Failed to create transaction rule" });
+    }
+  });
+  
+  router.patch("/transaction-rules/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction rule ID" });
+      }
+      
+      const existingRule = await storage.getTransactionRuleById(req.household!.id, id);
+      if (!existingRule) {
+        return res.status(404).json({ message: "Transaction rule not found" });
+      }
+      
+      // The changes have to leave a valid rule, with a condition and an action
+      const changes = updateTransactionRuleSchema.parse(req.body);
+      insertTransactionRuleSchema.parse({ ...existingRule, ...changes });
+      
+      const referenceError = await getRuleReferenceError(req.household!.id, changes);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+      
+      const updatedRule = await storage.updateTransactionRule(req.household!.id, id, changes);
+      res.json(updatedRule);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating transaction rule:", error);
+      res.status(500).json({ message: "Failed to update transaction rule" });
+    }
+  });
+  
+  router.delete("/transaction-rules/:id", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction rule ID" });
+      }
+      
+      const deleted = await storage.deleteTransactionRule(req.household!.id, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Transaction rule not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting transaction rule:", error);
+      res.status(500).json({ message: "Failed to delete transaction rule" });
+    }
+  });
+
+  // Bank statement import: preview parses the file without writing anything...
+  router.post("/import/preview", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const { format, content, mapping } = importPreviewRequestSchema.parse(req.body);
+      const preview = await previewImport(req.household!.id, format, content, mapping);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error previewing import:", error);
+      res.status(500).json({ message: "Failed to read the statement" });
+    }
+  });
+
+  // ...and commit writes the reviewed rows once every one of them is valid
+  router.post("/import/commit", requireAuth, requireRole("editor"), async (req: Request, res: Response) => {
+    try {
+      const { transactions: rows } = importCommitRequestSchema.parse(req.body);
+      
+      // Every row is checked and converted like a transaction added through POST /transactions;
+      // `row` is the index of the first one that fails
+      const categories = await storage.getCategories(req.household!.id);
+      const categoryIds = new Set(categories.map(category => category.id));
+      const imports: NewTransaction[] = [];
+      for (const [index, row] of Array.from(rows.entries())) {
+        const rowError = (message: string) => res.status(400).json({ message: `${message} on row ${index + 1}`, row: index });
+        
+        if (!await isSelectablePerson(req.household!.id, row.personLabel)) {
+          return rowError(`Unknown person "${row.personLabel}"`);
+        }
+        const payerError = await getPayerError(req.household!.id, row.paidBy);
+        if (payerError) {
+          return rowError(payerError);
+        }
+        if (!categoryIds.has(row.categoryId)) {
+          return rowError("Invalid category ID");
+        }
+        if (!await areHouseholdAccounts(req.household!.id, row.accountId)) {
+          return rowError("Invalid account ID");
+        }
+        
+        const currencyFields = await resolveCurrencyFields(row);
+        if (!currencyFields) {
+          return rowError(`No ${row.originalCurrency} exchange rate is known for ${format(row.date, "yyyy-MM-dd")}`);
+        }
+        imports.push({ ...withLegacyInterval(row), ...currencyFields });
+      }
+      
+      // All rows or none, so a failed import can simply be retried
+      const imported = await storage.createTransactions(req.household!.id, imports);
+      res.status(201).json(imported);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error importing transactions:", error);
+      res.status(500).json({ message: "Failed to import transactions; none of the rows were imported" });
+    }
+  });
+
+  // Export of all household data: a versioned JSON backup, or CSV/XLSX tables for accountants
+  router.get("/export", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const exportFormat = z.enum(exportFormats).parse(req.query.format ?? "json");
+      const backup = await createBackup(req.household!.id);
+      const filename = `budget-${backup.exportedAt.slice(0, 10)}.${exportFormat}`;
+      
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (exportFormat === "csv") {
+        res.type("text/csv").send(backupToCsv(backup));
+      } else if (exportFormat === "xlsx") {
+        res.type("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet").send(backupToXlsx(backup));
+      } else {
+        res.json(backup);
+      }
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error exporting data:", error);
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  // Restoring replaces the household's data, so only owners may do it
+  router.post("/import/backup", requireAuth, requireRole("owner"), async (req: Request, res: Response) => {
+    try {
+      const backup = backupSchema.parse(req.body);
+      const summary = await restoreBackup(req.household!.id, backup);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error restoring backup:", error);
+      res.status(500).json({ message: "Failed to restore backup" });
+    }
+  });
+
+  // Household endpoints
+  router.get("/households", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        // Anonymous use only ever sees the default household
+        const household = await storage.getHousehold(req.household!.id);
+        return res.json(household ? [{ household, role: req.household!.role }] : []);
+      }
+      
+      const memberships = await storage.getHouseholdsForUser(req.user.id);
+      res.json(memberships);
+    } catch (error) {
+      console.error("Error getting households:", error);
+      res.status(500).json({ message: "Failed to get households" });
+    }
+  });
+  
+  router.get("/households/current", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const household = await storage.getHousehold(req.household!.id);
+      if (!household) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      
+      res.json({ household, role: req.household!.role });
+    } catch (error) {
+      console.error("Error getting current household:", error);
+      res.status(500).json({ message: "Failed to get current household" });
+    }
+  });
+  
+  router.post("/households", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Log in to create a household" });
+      }
+      
+      const householdData = insertHouseholdSchema.parse(req.body);
+      const household = await storage.createHousehold(householdData, req.user.id);
+      res.status(201).json({ household, role: "owner" });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error creating household:", error);
+      res.status(500).json({ message: "Failed to create household" });
+    }
+  });
+  
+  router.get("/households/current/members", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const members = await storage.getHouseholdMembers(req.household!.id);
+      res.json(members);
+    } catch (error) {
+      console.error("Error getting household members:", error);
+      res.status(500).json({ message: "Failed to get household members" });
+    }
+  });
+  
+  router.post("/households/current/members", requireAuth, requireRole("owner"), async (req: Request, res: Response) => {
+    try {
+      const memberData = insertHouseholdMemberSchema.parse(req.body);
+      
+      const user = await storage.getUserByUsername(memberData.username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const member = await storage.addHouseholdMember(req.household!.id, user.id, memberData.role);
+      console.log(`[HOUSEHOLD] Added ${user.username} to household ${req.household!.id} as ${member.role}`);
+      res.status(201).json({ ...member, username: user.username });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error adding household member:", error);
+      res.status(500).json({ message: "Failed to add household member" });
+    }
+  });
+  
+  // A household must always keep at least one owner
+  async function isLastOwner(householdId: number, userId: number): Promise<boolean> {
+    const members = await storage.getHouseholdMembers(householdId);
+    const owners = members.filter(member => member.role === "owner");
+    return owners.length === 1 && owners[0].userId === userId;
+  }
+  
+  router.patch("/households/current/members/:userId", requireAuth, requireRole("owner"), async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      const { role } = z.object({ role: z.enum(householdRoles) }).parse(req.body);
+      
+      if (role !== "owner" && await isLastOwner(req.household!.id, userId)) {
+        return res.status(400).json({ message: "A household needs at least one owner" });
+      }
+      
+      const member = await storage.updateHouseholdMemberRole(req.household!.id, userId, role);
+      if (!member) {
+        return res.status(404).json({ message: "Household member not found" });
+      }
+      
+      res.json(member);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      console.error("Error updating household member:", error);
+      res.status(500).json({ message: "Failed to update household member" });
+    }
+  });
+  
+  router.delete("/households/current/members/:userId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      // Owners can remove anyone; everyone else can only leave
+      const isSelf = req.user?.id === userId;
+      if (req.household!.role !== "owner" && !isSelf) {
+        return res.status(403).json({ message: "This action requires the owner role" });
+      }
+      
+      if (await isLastOwner(req.household!.id, userId)) {
+        return res.status(400).json({ message: "A household needs at least one owner" });
+      }
+      
+      const success = await storage.removeHouseholdMember(req.household!.id, userId);
+      if (!success) {
+        return res.status(404).json({ message: "Household member not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing household member:", error);
+      res.status(500).json({ message: "Failed to remove household member" });
     }
   });
 
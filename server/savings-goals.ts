@@ -0,0 +1,196 @@
+import { format, parseISO, addWeeks, addMonths, addDays, subDays, differenceInCalendarDays } from "date-fns";
+import { storage } from "./storage";
+import type { ContributionInterval, Savings, SavingsGoal, SavingsGoalStatus } from "@shared/schema";
+
+// Recent contributions a goal's pace is projected from when it has no auto-contribution
+const PACE_WINDOW_DAYS = 90;
+
+// How often due auto-contributions are looked for
+const CONTRIBUTION_INTERVAL_MS = 60 * 60 * 1000;
+
+function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function nextContribution(date: Date, interval: ContributionInterval): Date {
+  return interval === "weekly" ? addWeeks(date, 1) : addMonths(date, 1);
+}
+
+// Households whose contributions are being written right now, so parallel requests don't book them twice
+const applying = new Map<number, Promise<void>>();
+
+/**
+ * Book every auto-contribution that has come due as a savings entry of its goal.
+ * Contributions stop once a goal is reached. Runs on a schedule (see scheduleContributions)
+ * and when a goal is saved, never while reading: a contribution is booked once per date,
+ * which the savings table enforces too.
+ */
+export function applyDueContributions(householdId: number): Promise<void> {
+  const running = applying.get(householdId);
+  if (running) return running;
+
+  const run = bookDueContributions(householdId).finally(() => applying.delete(householdId));
+  applying.set(householdId, run);
+  return run;
+}
+
+async function bookDueContributions(householdId: number): Promise<void> {
+  const today = toDateKey(new Date());
+  const goals = (await storage.getSavingsGoals(householdId)).filter(goal =>
+    goal.contributionAmount && goal.contributionInterval && goal.nextContributionDate &&
+    goal.nextContributionDate <= today
+  );
+  if (goals.length === 0) return;
+
+  // Goals from before a person was required have no one to book the contributions for
+  const unassigned = goals.filter(goal => !goal.contributionPersonLabel);
+  unassigned.forEach(goal => {
+    console.warn(`[SAVINGS] Goal ${goal.id} has an auto-contribution without a person; pick one to book it`);
+  });
+
+  const allSavings = await storage.getSavings(householdId);
+
+  for (const goal of goals.filter(goal => goal.contributionPersonLabel)) {
+    let saved = allSavings.filter(s => s.goalId === goal.id).reduce((sum, s) => sum + s.amount, 0);
+    let next: Date | null = parseISO(goal.nextContributionDate!);
+
+    while (next && toDateKey(next) <= today) {
+      if (saved >= goal.targetAmount) {
+        next = null;
+        break;
+      }
+      // The last contribution only tops the goal up to its target
+      const amount = round(Math.min(goal.contributionAmount!, goal.targetAmount - saved));
+      // Already booked elsewhere when nothing is created; it counts as saved all the same
+      await storage.createContribution(householdId, {
+        amount,
+        date: next,
+        notes: `Auto-contribution to ${goal.name}`,
+        personLabel: goal.contributionPersonLabel!,
+        goalId: goal.id,
+        contributionDate: toDateKey(next),
+      });
+      saved += amount;
+      next = nextContribution(next, goal.contributionInterval as ContributionInterval);
+    }
+
+    await storage.updateSavingsGoal(householdId, goal.id, {
+      nextContributionDate: next && saved < goal.targetAmount ? toDateKey(next) : null,
+    });
+  }
+}
+
+/**
+ * Book the contributions that are due in every household now and once an hour from then on
+ */
+export function scheduleContributions(): void {
+  const book = async () => {
+    const goals = await storage.getDueSavingsGoals(toDateKey(new Date()));
+    const householdIds = Array.from(new Set(goals.map(goal => goal.householdId)));
+    for (const householdId of householdIds) {
+      await applyDueContributions(householdId);
+    }
+  };
+  const run = () => book().catch(error => {
+    console.error("[SAVINGS] Could not book the due auto-contributions:", error);
+  });
+
+  run();
+  // The timer alone shouldn't keep the process running
+  setInterval(run, CONTRIBUTION_INTERVAL_MS).unref();
+}
+
+/**
+ * Auto-contributions of a goal still to be booked up to `end`, given what is saved so far.
+ * Like the booked ones, they stop once the goal is reached.
+ */
+export function plannedContributions(goal: SavingsGoal, saved: number, end: Date): { date: string; amount: number }[] {
+  if (!goal.contributionAmount || !goal.contributionInterval || !goal.nextContributionDate) return [];
+
+  const planned: { date: string; amount: number }[] = [];
+  for (
+    let date = parseISO(goal.nextContributionDate);
+    date <= end && saved < goal.targetAmount;
+    date = nextContribution(date, goal.contributionInterval as ContributionInterval)
+  ) {
+    const amount = round(Math.min(goal.contributionAmount, goal.targetAmount - saved));
+    planned.push({ date: toDateKey(date), amount });
+    saved += amount;
+  }
+  return planned;
+}
+
+/**
+ * When the goal will be reached: from its auto-contribution if it has one,
+ * otherwise from the pace of the last 90 days of contributions
+ */
+function projectCompletion(goal: SavingsGoal, entries: Savings[], remaining: number, today: Date): Date | null {
+  if (goal.contributionAmount && goal.contributionInterval && goal.nextContributionDate) {
+    let date = parseISO(goal.nextContributionDate);
+    for (let left = remaining - goal.contributionAmount; left > 0; left -= goal.contributionAmount) {
+      date = nextContribution(date, goal.contributionInterval as ContributionInterval);
+    }
+    return date;
+  }
+
+  const windowStart = subDays(today, PACE_WINDOW_DAYS);
+  const recent = entries
+    .filter(s => new Date(s.date) >= windowStart)
+    .reduce((sum, s) => sum + s.amount, 0);
+  if (recent <= 0) return null;
+
+  return addDays(today, Math.ceil(remaining / (recent / PACE_WINDOW_DAYS)));
+}
+
+// The date the running balance first reached the target
+function completionDate(entries: Savings[], target: number): Date | null {
+  let balance = 0;
+  for (const entry of [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())) {
+    balance += entry.amount;
+    if (balance >= target) return new Date(entry.date);
+  }
+  return null;
+}
+
+/**
+ * Every goal of the household with how much is saved and when it will be reached
+ */
+export async function getSavingsGoalStatuses(householdId: number): Promise<SavingsGoalStatus[]> {
+  const [goals, allSavings] = await Promise.all([
+    storage.getSavingsGoals(householdId),
+    storage.getSavings(householdId),
+  ]);
+  const today = new Date();
+
+  return goals.map(goal => {
+    const entries = allSavings.filter(s => s.goalId === goal.id);
+    const saved = entries.reduce((sum, s) => sum + s.amount, 0);
+    const remaining = Math.max(goal.targetAmount - saved, 0);
+
+    const projected = remaining === 0
+      ? completionDate(entries, goal.targetAmount) ?? today
+      : projectCompletion(goal, entries, remaining, today);
+
+    let requiredMonthly: number | null = null;
+    if (goal.targetDate && remaining > 0) {
+      const months = Math.max(differenceInCalendarDays(parseISO(goal.targetDate), today) / 30.44, 1);
+      requiredMonthly = round(remaining / months);
+    }
+
+    return {
+      ...goal,
+      saved: round(saved),
+      remaining: round(remaining),
+      progress: Math.min(Math.max(saved / goal.targetAmount, 0), 1),
+      projectedCompletionDate: projected ? toDateKey(projected) : null,
+      requiredMonthly,
+      isOnTrack: goal.targetDate
+        ? remaining === 0 || (projected !== null && toDateKey(projected) <= goal.targetDate)
+        : null,
+    };
+  });
+}
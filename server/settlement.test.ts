@@ -0,0 +1,31 @@
+import "./test-setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getSettlement, recordSplitChange } from "./settlement";
+import { storage } from "./storage";
+import { DEFAULT_HOUSEHOLD_ID } from "@shared/schema";
+
+const householdId = DEFAULT_HOUSEHOLD_ID;
+
+const payShared = (amount: number, date: Date) => storage.createTransaction(householdId, {
+  title: "Dinner", amount, date, isExpense: true, categoryId: null, personLabel: "Together", paidBy: "Beni",
+});
+
+test("each shared expense is split between the members the household had on its date", async () => {
+  await payShared(90, new Date(2025, 4, 10));
+
+  // Michał leaves today; what was spent before is still split three ways
+  const michal = await storage.getPersonByName(householdId, "Michał");
+  await recordSplitChange(householdId, () => storage.updatePerson(householdId, michal!.id, { isActive: false }));
+  await payShared(60, new Date());
+
+  const { balances, shares } = await getSettlement(householdId);
+  const balanceOf = (name: string) => balances.find(balance => balance.personLabel === name)?.balance;
+  assert.equal(balanceOf("Beni"), 90);
+  assert.equal(balanceOf("Fabi"), -60);
+  assert.equal(balanceOf("Michał"), -30);
+  assert.deepEqual(shares.map(share => share.personLabel), ["Beni", "Fabi"]);
+
+  const splits = await storage.getSettlementSplits(householdId);
+  assert.deepEqual(splits.map(split => split.participants.length), [3, 2]);
+});
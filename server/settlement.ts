@@ -0,0 +1,231 @@
+import { format, startOfDay, endOfDay } from "date-fns";
+import { storage } from "./storage";
+import { collectOccurrences, getBudgetTransactions } from "./budget";
+import { getLinesByTransaction } from "./transaction-lines";
+import type {
+  BudgetOccurrence,
+  Person,
+  PersonSettlement,
+  Settlement,
+  SettlementDebt,
+  SettlementParticipant,
+  SettlementSplit,
+  SettlementSplitMethod,
+  SplitPart,
+} from "@shared/schema";
+
+// Effective date of the split a household had before its first recorded change
+const FIRST_SPLIT_DATE = "1970-01-01";
+
+// Balances closer to zero than this are settled
+const SETTLED = 0.005;
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function occurrenceParts(occurrence: BudgetOccurrence): SplitPart[] {
+  return occurrence.lines ?? [occurrence];
+}
+
+// The split as the household's settings and members have it now
+function currentSplit(splitMethod: string, people: Person[]): Pick<SettlementSplit, "splitMethod" | "participants"> {
+  const participants: SettlementParticipant[] = people
+    .filter(person => !person.isShared && person.isActive)
+    .map(person => ({ personId: person.id, share: person.settlementShare }));
+  return { splitMethod, participants };
+}
+
+/**
+ * Records the household's split as `change` leaves it, effective from today, so expenses made
+ * before keep the split they were made under. The split from before the household's first
+ * recorded change is kept too, for everything up to it.
+ */
+export async function recordSplitChange<T>(householdId: number, change: () => Promise<T>): Promise<T> {
+  const readSplit = async () => {
+    const [settings, people] = await Promise.all([
+      storage.getSettlementSettings(householdId),
+      storage.getPeople(householdId),
+    ]);
+    return currentSplit(settings?.splitMethod ?? "equal", people);
+  };
+
+  const splits = await storage.getSettlementSplits(householdId);
+  if (splits.length === 0) {
+    await storage.saveSettlementSplit(householdId, { effectiveFrom: FIRST_SPLIT_DATE, ...await readSplit() });
+  }
+
+  const result = await change();
+
+  const split = await readSplit();
+  const latest = (await storage.getSettlementSplits(householdId)).pop();
+  if (!latest || latest.splitMethod !== split.splitMethod ||
+      JSON.stringify(latest.participants) !== JSON.stringify(split.participants)) {
+    await storage.saveSettlementSplit(householdId, { effectiveFrom: format(new Date(), "yyyy-MM-dd"), ...split });
+  }
+  return result;
+}
+
+/**
+ * How the members who took part in a split share a shared expense of the month: evenly, by their
+ * settlement shares, or by their income of the month. Falls back to an even split when the shares
+ * or incomes are all zero.
+ */
+function splitRatios(
+  method: SettlementSplitMethod,
+  participants: { name: string; share: number | null }[],
+  incomeByMonth: Map<string, Map<string, number>>,
+  month: string
+): Map<string, number> {
+  const weights = participants.map(participant => {
+    if (method === "percentage") return participant.share ?? 0;
+    if (method === "income") return incomeByMonth.get(month)?.get(participant.name) ?? 0;
+    return 1;
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return new Map(participants.map((participant, index) => [
+    participant.name,
+    total > 0 ? weights[index] / total : 1 / participants.length,
+  ]));
+}
+
+/**
+ * The fewest payments that bring every balance to zero: the largest debtor pays the largest creditor first
+ */
+function settleBalances(balances: PersonSettlement[]): SettlementDebt[] {
+  const debtors = balances.filter(b => b.balance < -SETTLED).map(b => ({ name: b.personLabel, amount: -b.balance }));
+  const creditors = balances.filter(b => b.balance > SETTLED).map(b => ({ name: b.personLabel, amount: b.balance }));
+  debtors.sort((a, b) => b.amount - a.amount);
+  creditors.sort((a, b) => b.amount - a.amount);
+
+  const debts: SettlementDebt[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amount = Math.min(debtors[d].amount, creditors[c].amount);
+    if (amount >= SETTLED) {
+      debts.push({ from: debtors[d].name, to: creditors[c].name, amount: round(amount) });
+    }
+    debtors[d].amount -= amount;
+    creditors[c].amount -= amount;
+    if (debtors[d].amount < SETTLED) d++;
+    if (creditors[c].amount < SETTLED) c++;
+  }
+  return debts;
+}
+
+/**
+ * Who owes whom over every expense occurrence until today that has a payer (skips, overrides,
+ * rules and split lines applied). The payer is owed what they paid for someone else; an expense
+ * of a shared person is split by the split method and between the members the household had on
+ * its date (see recordSplitChange). Settlement payments count towards the balances of both sides.
+ */
+export async function getSettlement(householdId: number): Promise<Settlement> {
+  const [transactions, allOverrides, people, settings, recordedSplits, payments, lines] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getPeople(householdId),
+    storage.getSettlementSettings(householdId),
+    storage.getSettlementSplits(householdId),
+    storage.getSettlementPayments(householdId),
+    getLinesByTransaction(householdId),
+  ]);
+
+  const splitMethod = (settings?.splitMethod ?? "equal") as SettlementSplitMethod;
+  const members = people.filter(person => !person.isShared);
+  const memberNames = new Set(members.map(person => person.name));
+  const activeMembers = members.filter(person => person.isActive);
+  const membersById = new Map(members.map(person => [person.id, person]));
+
+  // A household that never changed its split has split everything the way it does now
+  const current = { effectiveFrom: FIRST_SPLIT_DATE, ...currentSplit(splitMethod, people) };
+  const splits = (recordedSplits.length > 0 ? recordedSplits : [current]).map(split => ({
+    effectiveFrom: split.effectiveFrom,
+    splitMethod: split.splitMethod as SettlementSplitMethod,
+    // People are recorded by id and settled by their name today
+    participants: split.participants
+      .filter(participant => membersById.has(participant.personId))
+      .map(participant => ({ name: membersById.get(participant.personId)!.name, share: participant.share })),
+  }));
+  const splitOn = (date: string) => splits.filter(split => split.effectiveFrom <= date).pop() ?? splits[0];
+  const payers = new Map(transactions
+    .filter(t => t.paidBy && memberNames.has(t.paidBy))
+    .map(t => [t.id, t.paidBy!]));
+
+  const today = startOfDay(new Date());
+  const firstDate = transactions.reduce((first, t) => (new Date(t.date) < first ? new Date(t.date) : first), today);
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+  const { occurrences } = collectOccurrences(transactions, overrides, firstDate, endOfDay(today), lines);
+
+  // Each member's income by month, for the income-proportional split
+  const incomeByMonth = new Map<string, Map<string, number>>();
+  for (const occurrence of occurrences.filter(o => !o.isExpense)) {
+    const month = occurrence.date.substring(0, 7);
+    const incomes = incomeByMonth.get(month) ?? new Map<string, number>();
+    for (const part of occurrenceParts(occurrence)) {
+      if (part.personLabel && memberNames.has(part.personLabel)) {
+        incomes.set(part.personLabel, (incomes.get(part.personLabel) ?? 0) + part.amount);
+      }
+    }
+    incomeByMonth.set(month, incomes);
+  }
+
+  const balances = new Map<string, PersonSettlement>(members.map(person => [
+    person.name,
+    { personLabel: person.name, paid: 0, share: 0, settled: 0, balance: 0 },
+  ]));
+
+  for (const occurrence of occurrences) {
+    const payer = payers.get(occurrence.transactionId);
+    if (!occurrence.isExpense || !payer) continue;
+
+    const split = splitOn(occurrence.date);
+    const ratios = splitRatios(split.splitMethod, split.participants, incomeByMonth, occurrence.date.substring(0, 7));
+    for (const part of occurrenceParts(occurrence)) {
+      // A member's own expense is theirs; anything else is shared
+      const owners = part.personLabel && memberNames.has(part.personLabel)
+        ? new Map([[part.personLabel, 1]])
+        : ratios;
+      if (owners.size === 0) continue;
+
+      balances.get(payer)!.paid += part.amount;
+      owners.forEach((ratio, name) => {
+        balances.get(name)!.share += part.amount * ratio;
+      });
+    }
+  }
+
+  for (const payment of payments) {
+    const from = balances.get(payment.fromPerson);
+    const to = balances.get(payment.toPerson);
+    if (from) from.settled += payment.amount;
+    if (to) to.settled -= payment.amount;
+  }
+
+  const settled = Array.from(balances.values())
+    .map(b => ({
+      personLabel: b.personLabel,
+      paid: round(b.paid),
+      share: round(b.share),
+      settled: round(b.settled),
+      balance: round(b.paid - b.share + b.settled),
+    }))
+    // Inactive members only stay while they have something to settle
+    .filter(b => activeMembers.some(person => person.name === b.personLabel) || Math.abs(b.balance) >= SETTLED);
+
+  const currentRatios = splitRatios(
+    splitMethod,
+    activeMembers.map(person => ({ name: person.name, share: person.settlementShare })),
+    incomeByMonth,
+    format(today, "yyyy-MM")
+  );
+
+  return {
+    splitMethod,
+    shares: Array.from(currentRatios).map(([personLabel, ratio]) => ({ personLabel, percent: round(ratio * 100) })),
+    balances: settled,
+    debts: settleBalances(settled),
+    payments,
+  };
+}
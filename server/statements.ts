@@ -0,0 +1,416 @@
+import fs from "fs";
+import path from "path";
+import { format, parseISO } from "date-fns";
+import { storage } from "./storage";
+import { getMonthlyBudget } from "./budget";
+import { buildPdf, fitText, hexColor, hslColor, PAGE_HEIGHT, PAGE_WIDTH, type PdfColor, type PdfFont, type PdfPage } from "./pdf";
+import type { BudgetCategoryTotal, BudgetOccurrence, BudgetPersonTotal, MonthlyBudget, Savings } from "@shared/schema";
+
+// Printable statements of a month or a year: totals, the category chart, the breakdown by
+// person, every transaction and the savings contributions, in the colours of theme.json.
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_Y = PAGE_HEIGHT - 24;
+const BOTTOM = PAGE_HEIGHT - 50; // content stops here, above the footer
+const ROW_HEIGHT = 15;
+
+const WHITE: PdfColor = [1, 1, 1];
+const TEXT: PdfColor = [0.12, 0.14, 0.17];
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.85, 0.87, 0.9];
+// The app's colours for income, expenses and savings
+const INCOME = hexColor("#16a34a");
+const EXPENSE = hexColor("#ef4444");
+const SAVINGS = hexColor("#3b82f6");
+
+const DEFAULT_PRIMARY = "hsl(214, 82%, 51%)";
+
+type StatementData = {
+  title: string;
+  period: string;
+  householdName: string;
+  income: number;
+  expenses: number;
+  savings: number;
+  carryOver: number;
+  balance: number;
+  byCategory: BudgetCategoryTotal[];
+  byPerson: BudgetPersonTotal[];
+  occurrences: BudgetOccurrence[];
+  contributions: Savings[];
+  categoryNames: Map<number, string>;
+  goalNames: Map<number, string>;
+};
+
+type Column = {
+  label: string;
+  width: number;
+  align?: "left" | "right";
+};
+
+type Cell = string | { text: string; color?: PdfColor; font?: PdfFont };
+
+// The primary colour of theme.json, which sits next to the server and the built bundle alike
+function themePrimary(): PdfColor {
+  try {
+    const theme = JSON.parse(fs.readFileSync(path.resolve(import.meta.dirname, "..", "theme.json"), "utf8"));
+    return hslColor(typeof theme.primary === "string" ? theme.primary : DEFAULT_PRIMARY);
+  } catch (error) {
+    console.error("[STATEMENT] Couldn't read theme.json, using the default colours:", error);
+    return hslColor(DEFAULT_PRIMARY);
+  }
+}
+
+// `color` mixed with white; 0.9 leaves a light tint
+function tint(color: PdfColor, amount: number): PdfColor {
+  return color.map(channel => channel + (1 - channel) * amount) as PdfColor;
+}
+
+function formatAmount(amount: number): string {
+  const [whole, cents] = Math.abs(amount).toFixed(2).split(".");
+  return `${amount < 0 ? "-" : ""}${whole.replace(/\B(?=(\d{3})+(?!\d))/g, " ")}.${cents} PLN`;
+}
+
+function formatDay(date: string | Date): string {
+  return format(typeof date === "string" ? parseISO(date) : date, "d MMM yyyy");
+}
+
+/**
+ * Lays statements out top to bottom, starting a new page whenever the next block doesn't fit
+ */
+class StatementLayout {
+  readonly pages: PdfPage[] = [];
+  private page: PdfPage = [];
+  y = 0;
+
+  constructor(private readonly primary: PdfColor) {
+    this.newPage();
+  }
+
+  newPage() {
+    this.page = [];
+    this.pages.push(this.page);
+    this.y = MARGIN;
+  }
+
+  // Starts a new page unless `height` more fits on this one
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= BOTTOM) return false;
+    this.newPage();
+    return true;
+  }
+
+  text(x: number, y: number, text: string, size: number, options: { font?: PdfFont; color?: PdfColor; align?: "left" | "right"; width?: number } = {}) {
+    const font = options.font ?? "regular";
+    const fitted = options.width ? fitText(text, options.width, size, font) : text;
+    this.page.push({ type: "text", x, y, text: fitted, size, font, color: options.color ?? TEXT, align: options.align });
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: PdfColor) {
+    this.page.push({ type: "rect", x, y, width, height, color });
+  }
+
+  rule(y: number, color: PdfColor = RULE) {
+    this.page.push({ type: "line", x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, color });
+  }
+
+  header(title: string, subtitle: string) {
+    this.rect(0, 0, PAGE_WIDTH, 76, this.primary);
+    this.text(MARGIN, 38, title, 20, { font: "bold", color: WHITE });
+    this.text(MARGIN, 58, subtitle, 10, { color: tint(this.primary, 0.8) });
+    this.y = 100;
+  }
+
+  heading(title: string) {
+    this.ensureSpace(50);
+    this.y += 10;
+    this.text(MARGIN, this.y + 12, title, 13, { font: "bold", color: this.primary });
+    this.y += 18;
+    this.rule(this.y, this.primary);
+    this.y += 8;
+  }
+
+  note(text: string) {
+    this.ensureSpace(ROW_HEIGHT);
+    this.text(MARGIN, this.y + 10, text, 9, { color: MUTED });
+    this.y += ROW_HEIGHT;
+  }
+
+  // Figures side by side in tinted boxes
+  figures(items: { label: string; amount: number; color: PdfColor }[]) {
+    const gap = 8;
+    const width = (CONTENT_WIDTH - gap * (items.length - 1)) / items.length;
+    this.ensureSpace(48);
+    items.forEach((item, index) => {
+      const x = MARGIN + index * (width + gap);
+      this.rect(x, this.y, width, 44, tint(this.primary, 0.92));
+      this.text(x + 8, this.y + 15, item.label, 8, { color: MUTED });
+      this.text(x + 8, this.y + 34, formatAmount(item.amount), 11, { font: "bold", color: item.color, width: width - 16 });
+    });
+    this.y += 52;
+  }
+
+  // Horizontal bars, the longest for the largest amount
+  barChart(bars: { label: string; amount: number; color: PdfColor }[]) {
+    const labelWidth = 130;
+    const amountWidth = 90;
+    const barWidth = CONTENT_WIDTH - labelWidth - amountWidth - 10;
+    const max = Math.max(...bars.map(bar => bar.amount), 0);
+    for (const bar of bars) {
+      this.ensureSpace(ROW_HEIGHT);
+      this.text(MARGIN, this.y + 10, bar.label, 9, { width: labelWidth - 6 });
+      const width = max > 0 ? Math.max((bar.amount / max) * barWidth, 1) : 1;
+      this.rect(MARGIN + labelWidth, this.y + 2, width, 10, bar.color);
+      this.text(PAGE_WIDTH - MARGIN, this.y + 10, formatAmount(bar.amount), 9, { align: "right" });
+      this.y += ROW_HEIGHT;
+    }
+  }
+
+  // A table whose header row repeats on every page it runs over
+  table(columns: Column[], rows: Cell[][]) {
+    const fixed = columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = columns.map(column => column.width || CONTENT_WIDTH - fixed);
+
+    const drawRow = (cells: Cell[], isHeader: boolean) => {
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const { text, color, font } = typeof cell === "string" ? { text: cell, color: undefined, font: undefined } : cell;
+        const align = columns[index].align ?? "left";
+        this.text(align === "right" ? x + widths[index] - 4 : x + 4, this.y + 10, text, isHeader ? 8 : 9, {
+          font: isHeader ? "bold" : font,
+          color: isHeader ? this.primary : color,
+          align,
+          width: widths[index] - 8,
+        });
+        x += widths[index];
+      });
+    };
+    const drawHeader = () => {
+      this.rect(MARGIN, this.y, CONTENT_WIDTH, ROW_HEIGHT, tint(this.primary, 0.9));
+      drawRow(columns.map(column => column.label), true);
+      this.y += ROW_HEIGHT;
+    };
+
+    this.ensureSpace(ROW_HEIGHT * 2);
+    drawHeader();
+    for (const row of rows) {
+      if (this.ensureSpace(ROW_HEIGHT)) drawHeader();
+      drawRow(row, false);
+      this.y += ROW_HEIGHT;
+      this.rule(this.y);
+    }
+  }
+
+  // Page numbers, once every page is laid out
+  footers(text: string) {
+    this.pages.forEach((page, index) => {
+      page.push({ type: "text", x: MARGIN, y: FOOTER_Y, text, size: 8, color: MUTED });
+      page.push({ type: "text", x: PAGE_WIDTH - MARGIN, y: FOOTER_Y, text: `Page ${index + 1} of ${this.pages.length}`, size: 8, color: MUTED, align: "right" });
+    });
+  }
+}
+
+function renderStatement(data: StatementData): Buffer {
+  const primary = themePrimary();
+  const layout = new StatementLayout(primary);
+
+  layout.header(data.title, `${data.householdName} · generated ${formatDay(new Date())}`);
+
+  layout.figures([
+    { label: "Income", amount: data.income, color: INCOME },
+    { label: "Expenses", amount: data.expenses, color: EXPENSE },
+    { label: "Savings", amount: data.savings, color: SAVINGS },
+    { label: "Carried over", amount: data.carryOver, color: TEXT },
+    { label: "Balance", amount: data.balance, color: data.balance < 0 ? EXPENSE : TEXT },
+  ]);
+
+  const categoryColor = (category: BudgetCategoryTotal) => (category.color ? hexColor(category.color) : primary);
+  const expenseCategories = data.byCategory.filter(c => c.expenses > 0).sort((a, b) => b.expenses - a.expenses);
+  const incomeCategories = data.byCategory.filter(c => c.income > 0).sort((a, b) => b.income - a.income);
+
+  layout.heading("Expenses by category");
+  if (expenseCategories.length === 0) {
+    layout.note("No expenses");
+  } else {
+    layout.barChart(expenseCategories.map(c => ({ label: c.name, amount: c.expenses, color: categoryColor(c) })));
+  }
+  if (incomeCategories.length > 0) {
+    layout.heading("Income by category");
+    layout.barChart(incomeCategories.map(c => ({ label: c.name, amount: c.income, color: categoryColor(c) })));
+  }
+
+  layout.heading("By person");
+  if (data.byPerson.length === 0) {
+    layout.note("Nothing assigned to anyone");
+  } else {
+    layout.table(
+      [{ label: "Person", width: 0 }, { label: "Income", width: 110, align: "right" }, { label: "Expenses", width: 110, align: "right" }, { label: "Savings", width: 110, align: "right" }],
+      data.byPerson.map(person => [
+        person.personLabel,
+        { text: formatAmount(person.income), color: INCOME },
+        { text: formatAmount(person.expenses), color: EXPENSE },
+        { text: formatAmount(person.savings), color: SAVINGS },
+      ])
+    );
+  }
+
+  layout.heading(`Transactions (${data.occurrences.length})`);
+  if (data.occurrences.length === 0) {
+    layout.note("No transactions");
+  } else {
+    const categoryOf = (occurrence: BudgetOccurrence) => {
+      if (occurrence.lines) return `Split (${occurrence.lines.length})`;
+      return occurrence.categoryId !== null ? data.categoryNames.get(occurrence.categoryId) ?? "" : "";
+    };
+    layout.table(
+      [
+        { label: "Date", width: 70 },
+        { label: "Title", width: 0 },
+        { label: "Category", width: 95 },
+        { label: "Person", width: 70 },
+        { label: "Paid", width: 35 },
+        { label: "Amount", width: 85, align: "right" },
+      ],
+      data.occurrences.map(occurrence => [
+        formatDay(occurrence.date),
+        occurrence.title,
+        categoryOf(occurrence),
+        occurrence.personLabel ?? "",
+        occurrence.isExpense ? (occurrence.isPaid ? "Yes" : "No") : "",
+        {
+          text: formatAmount(occurrence.isExpense ? -occurrence.amount : occurrence.amount),
+          color: occurrence.isExpense ? EXPENSE : INCOME,
+        },
+      ])
+    );
+  }
+
+  layout.heading("Savings contributions");
+  if (data.contributions.length === 0) {
+    layout.note("No savings");
+  } else {
+    layout.table(
+      [
+        { label: "Date", width: 70 },
+        { label: "Notes", width: 0 },
+        { label: "Person", width: 80 },
+        { label: "Goal", width: 100 },
+        { label: "Amount", width: 85, align: "right" },
+      ],
+      [
+        ...data.contributions.map(entry => [
+          formatDay(new Date(entry.date)),
+          entry.notes ?? "",
+          entry.personLabel ?? "",
+          entry.goalId !== null ? data.goalNames.get(entry.goalId) ?? "" : "",
+          { text: formatAmount(entry.amount), color: SAVINGS },
+        ] as Cell[]),
+        ["", { text: "Total", font: "bold" }, "", "", { text: formatAmount(data.savings), color: SAVINGS, font: "bold" }],
+      ]
+    );
+  }
+
+  layout.footers(`${data.householdName} · ${data.period}`);
+  return buildPdf(layout.pages, `${data.householdName} - ${data.title}`);
+}
+
+async function statementContext(householdId: number) {
+  const [household, categories, goals, savings] = await Promise.all([
+    storage.getHousehold(householdId),
+    storage.getCategories(householdId),
+    storage.getSavingsGoals(householdId),
+    storage.getSavings(householdId),
+  ]);
+  return {
+    householdName: household?.name ?? "Household",
+    categoryNames: new Map(categories.map(category => [category.id, category.name])),
+    goalNames: new Map(goals.map(goal => [goal.id, goal.name])),
+    savings,
+  };
+}
+
+function contributionsBetween(savings: Savings[], from: string, to: string): Savings[] {
+  return savings
+    .filter(entry => {
+      const month = format(new Date(entry.date), "yyyy-MM");
+      return month >= from && month <= to;
+    })
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * The statement of one month ('YYYY-MM') as a PDF, with the figures of its budget
+ */
+export async function buildMonthlyStatement(householdId: number, month: string): Promise<Buffer> {
+  const [budget, context] = await Promise.all([getMonthlyBudget(householdId, month), statementContext(householdId)]);
+  const period = format(parseISO(`${month}-01`), "MMMM yyyy");
+
+  return renderStatement({
+    ...context,
+    title: `Statement for ${period}`,
+    period,
+    income: budget.income,
+    expenses: budget.expenses,
+    savings: budget.savings,
+    carryOver: budget.carryOver,
+    balance: budget.balance,
+    byCategory: budget.byCategory,
+    byPerson: budget.byPerson,
+    occurrences: budget.occurrences,
+    contributions: contributionsBetween(context.savings, month, month),
+  });
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The statement of a whole year as a PDF: its twelve monthly budgets added up, carried over
+ * from before January and ending with December's balance
+ */
+export async function buildAnnualStatement(householdId: number, year: number): Promise<Buffer> {
+  const months = Array.from({ length: 12 }, (_, index) => `${year}-${String(index + 1).padStart(2, "0")}`);
+  const [budgets, context] = await Promise.all([
+    Promise.all(months.map(month => getMonthlyBudget(householdId, month))),
+    statementContext(householdId),
+  ]);
+
+  const byCategory = new Map<string, BudgetCategoryTotal>();
+  const byPerson = new Map<string, BudgetPersonTotal>();
+  for (const budget of budgets) {
+    for (const category of budget.byCategory) {
+      const key = String(category.categoryId ?? category.name);
+      const total = byCategory.get(key) ?? { ...category, income: 0, expenses: 0 };
+      total.income += category.income;
+      total.expenses += category.expenses;
+      byCategory.set(key, total);
+    }
+    for (const person of budget.byPerson) {
+      const total = byPerson.get(person.personLabel) ?? { ...person, income: 0, expenses: 0, savings: 0 };
+      total.income += person.income;
+      total.expenses += person.expenses;
+      total.savings += person.savings;
+      byPerson.set(person.personLabel, total);
+    }
+  }
+  const sum = (field: keyof Pick<MonthlyBudget, "income" | "expenses" | "savings">) =>
+    round(budgets.reduce((total, budget) => total + budget[field], 0));
+
+  return renderStatement({
+    ...context,
+    title: `Annual statement ${year}`,
+    period: String(year),
+    income: sum("income"),
+    expenses: sum("expenses"),
+    savings: sum("savings"),
+    carryOver: budgets[0].carryOver,
+    balance: budgets[budgets.length - 1].balance,
+    byCategory: Array.from(byCategory.values()).map(c => ({ ...c, income: round(c.income), expenses: round(c.expenses) })),
+    byPerson: Array.from(byPerson.values())
+      .map(p => ({ ...p, income: round(p.income), expenses: round(p.expenses), savings: round(p.savings) })),
+    occurrences: budgets.flatMap(budget => budget.occurrences),
+    contributions: contributionsBetween(context.savings, months[0], months[months.length - 1]),
+  });
+}
@@ -1,17 +1,41 @@
 import {
   users, type User, type InsertUser,
+  households, type Household, type InsertHousehold,
+  householdMembers, type HouseholdMember, type HouseholdMembership, type HouseholdRole,
+  DEFAULT_HOUSEHOLD_ID,
+  isTransfer,
   transactions, type Transaction, type InsertTransaction,
   categories, type Category, type InsertCategory,
+  categoryBudgetOverrides, type CategoryBudgetOverride,
+  forecastSettings, type ForecastSettings, type InsertForecastSettings,
+  settlementSettings, type SettlementSettings, type InsertSettlementSettings,
+  settlementPayments, type SettlementPayment, type InsertSettlementPayment,
+  settlementSplits, type SettlementSplit, type InsertSettlementSplit,
+  people, type Person, type InsertPerson,
   savings, type Savings, type InsertSavings,
+  savingsGoals, type SavingsGoal, type InsertSavingsGoal,
+  accounts, type Account, type InsertAccount,
+  reconciliations, type Reconciliation, type InsertReconciliation,
+  clearedEntries, type ClearedEntry, type InsertClearedEntry,
+  transactionOccurrences, type TransactionOccurrence, type InsertTransactionOccurrence,
+  transactionLines, type TransactionLine, type InsertTransactionLine,
+  tags, type Tag, transactionTags, type TransactionTag,
+  subscriptions, type Subscription, subscriptionPriceChanges, type SubscriptionPriceChange, type InsertSubscriptionPriceChange,
+  importProfiles, type ImportProfile, type InsertImportProfile,
+  transactionRules, type TransactionRule, type InsertTransactionRule,
+  auditLog, type AuditEntity, type AuditEntry, type AuditEntryWithUser, type InsertAuditEntry, type AuditQuery,
+  exchangeRates, type ExchangeRate, type InsertExchangeRate,
+  type Trash,
   transactionsRelations, categoriesRelations
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, between, and, isNotNull } from "drizzle-orm";
+import { eq, between, and, or, inArray, isNull, isNotNull, gt, lt, lte, gte, desc, asc, sql, type SQL } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
 import { pool } from "./db";
-import { filterProblematicTransactions, transformTransactionAmounts } from "./transaction-filters";
 import { supabase } from "./supabase";
+import { withAuditLog } from "./audit";
 
 // Storage interface for all CRUD operations
 export interface IStorage {
@@ -20,65 +44,355 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
+  // Household operations
+  getHousehold(id: number): Promise<Household | undefined>;
+  getHouseholdsForUser(userId: number): Promise<HouseholdMembership[]>;
+  createHousehold(household: InsertHousehold, ownerUserId: number): Promise<Household>;
+  getHouseholdMembers(householdId: number): Promise<(HouseholdMember & { username: string })[]>;
+  getHouseholdMember(householdId: number, userId: number): Promise<HouseholdMember | undefined>;
+  addHouseholdMember(householdId: number, userId: number, role: HouseholdRole): Promise<HouseholdMember>;
+  updateHouseholdMemberRole(householdId: number, userId: number, role: HouseholdRole): Promise<HouseholdMember | undefined>;
+  removeHouseholdMember(householdId: number, userId: number): Promise<boolean>;
+  
+  // Every operation below is scoped to the household that owns the data
+  
   // Transaction operations
-  getTransactions(): Promise<Transaction[]>;
-  getTransactionById(id: number): Promise<Transaction | undefined>;
-  getTransactionsByDateRange(startDate: Date, endDate: Date): Promise<Transaction[]>;
-  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  updateTransaction(id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined>;
-  updateTransactionDirect(id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined>;
-  deleteTransaction(id: number): Promise<boolean>;
-  getRecurringTransactions(): Promise<Transaction[]>;
+  getTransactions(householdId: number): Promise<Transaction[]>;
+  getTransactionById(householdId: number, id: number): Promise<Transaction | undefined>;
+  // Transactions dated within [startDate, endDate], and recurring ones with an occurrence that may fall in it
+  getTransactionsByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<Transaction[]>;
+  // Transactions (without transfers) that match the filter, by date and then id, from after the cursor on
+  findTransactions(householdId: number, filter: TransactionFilter, after?: TransactionCursor, limit?: number): Promise<Transaction[]>;
+  countTransactions(householdId: number, filter: TransactionFilter): Promise<number>;
+  createTransaction(householdId: number, transaction: NewTransaction): Promise<Transaction>;
+  // All of them or, when one fails, none
+  createTransactions(householdId: number, transactions: NewTransaction[]): Promise<Transaction[]>;
+  updateTransaction(householdId: number, id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined>;
+  updateTransactionDirect(householdId: number, id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined>;
+  deleteTransaction(householdId: number, id: number): Promise<boolean>;
+  getRecurringTransactions(householdId: number): Promise<Transaction[]>;
+  getDeletedTransactions(householdId: number): Promise<Transaction[]>;
+  restoreTransaction(householdId: number, id: number): Promise<Transaction | undefined>;
   
   // Category operations
-  getCategories(): Promise<Category[]>;
-  getCategoryById(id: number): Promise<Category | undefined>;
-  createCategory(category: InsertCategory): Promise<Category>;
-  updateCategory(id: number, category: Partial<Category>): Promise<Category | undefined>;
-  deleteCategory(id: number): Promise<boolean>;
+  getCategories(householdId: number): Promise<Category[]>;
+  getCategoryById(householdId: number, id: number): Promise<Category | undefined>;
+  createCategory(householdId: number, category: NewCategory): Promise<Category>;
+  updateCategory(householdId: number, id: number, category: Partial<Category>): Promise<Category | undefined>;
+  deleteCategory(householdId: number, id: number): Promise<boolean>;
+  getDeletedCategories(householdId: number): Promise<Category[]>;
+  restoreCategory(householdId: number, id: number): Promise<Category | undefined>;
+  
+  // Category budget override operations (per-month limits)
+  getCategoryBudgetOverrides(householdId: number, categoryId?: number): Promise<CategoryBudgetOverride[]>;
+  upsertCategoryBudgetOverride(householdId: number, categoryId: number, month: string, amount: number): Promise<CategoryBudgetOverride | undefined>;
+  deleteCategoryBudgetOverride(householdId: number, categoryId: number, month: string): Promise<boolean>;
+  
+  // Cash-flow forecast settings, one set per household
+  getForecastSettings(householdId: number): Promise<ForecastSettings | undefined>;
+  upsertForecastSettings(householdId: number, settings: InsertForecastSettings): Promise<ForecastSettings>;
+  
+  // Person operations
+  getPeople(householdId: number): Promise<Person[]>;
+  getPersonById(householdId: number, id: number): Promise<Person | undefined>;
+  getPersonByName(householdId: number, name: string): Promise<Person | undefined>;
+  createPerson(householdId: number, person: InsertPerson): Promise<Person>;
+  updatePerson(householdId: number, id: number, person: Partial<Person>): Promise<Person | undefined>;
+  deletePerson(householdId: number, id: number): Promise<boolean>;
+  
+  // Settlement operations (who owes whom, see server/settlement.ts)
+  getSettlementSettings(householdId: number): Promise<SettlementSettings | undefined>;
+  upsertSettlementSettings(householdId: number, settings: InsertSettlementSettings): Promise<SettlementSettings>;
+  getSettlementPayments(householdId: number): Promise<SettlementPayment[]>;
+  createSettlementPayment(householdId: number, payment: InsertSettlementPayment): Promise<SettlementPayment>;
+  deleteSettlementPayment(householdId: number, id: number): Promise<boolean>;
+  // Oldest first; saving one for a date it already has replaces it
+  getSettlementSplits(householdId: number): Promise<SettlementSplit[]>;
+  saveSettlementSplit(householdId: number, split: InsertSettlementSplit): Promise<SettlementSplit>;
   
   // Savings operations
-  getSavings(): Promise<Savings[]>;
-  getSavingsByDateRange(startDate: Date, endDate: Date): Promise<Savings[]>;
-  createSavings(savings: InsertSavings): Promise<Savings>;
-  deleteSavings(id: number): Promise<boolean>;
+  getSavings(householdId: number): Promise<Savings[]>;
+  getSavingsByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<Savings[]>;
+  createSavings(householdId: number, savings: InsertSavings): Promise<Savings>;
+  // A goal's auto-contribution of `contributionDate`; undefined when it was booked already
+  createContribution(householdId: number, contribution: NewContribution): Promise<Savings | undefined>;
+  deleteSavings(householdId: number, id: number): Promise<boolean>;
+  getDeletedSavings(householdId: number): Promise<Savings[]>;
+  restoreSavings(householdId: number, id: number): Promise<Savings | undefined>;
+  
+  // Savings goal operations
+  getSavingsGoals(householdId: number): Promise<SavingsGoal[]>;
+  // Goals of every household with an auto-contribution due on or before `date` ('YYYY-MM-DD')
+  getDueSavingsGoals(date: string): Promise<SavingsGoal[]>;
+  getSavingsGoalById(householdId: number, id: number): Promise<SavingsGoal | undefined>;
+  createSavingsGoal(householdId: number, goal: InsertSavingsGoal): Promise<SavingsGoal>;
+  updateSavingsGoal(householdId: number, id: number, goal: Partial<SavingsGoal>): Promise<SavingsGoal | undefined>;
+  deleteSavingsGoal(householdId: number, id: number): Promise<boolean>;
+  
+  // Account operations (bank accounts, cards and cash, see server/accounts.ts for balances)
+  getAccounts(householdId: number): Promise<Account[]>;
+  getAccountById(householdId: number, id: number): Promise<Account | undefined>;
+  createAccount(householdId: number, account: InsertAccount): Promise<Account>;
+  updateAccount(householdId: number, id: number, account: Partial<Account>): Promise<Account | undefined>;
+  deleteAccount(householdId: number, id: number): Promise<boolean>;
+  // Whether any transaction, transfer or savings entry (also in the trash) is booked to the account
+  isAccountInUse(householdId: number, id: number): Promise<boolean>;
+  
+  // Reconciliation operations (statement reconciliation of an account, see server/reconciliation.ts)
+  getReconciliations(householdId: number, accountId: number): Promise<Reconciliation[]>;
+  getReconciliationById(householdId: number, id: number): Promise<Reconciliation | undefined>;
+  createReconciliation(householdId: number, reconciliation: NewReconciliation): Promise<Reconciliation>;
+  updateReconciliation(householdId: number, id: number, reconciliation: Partial<Reconciliation>): Promise<Reconciliation | undefined>;
+  // Finish an open reconciliation: its account's cleared entries up to the statement date become reconciled
+  finishReconciliation(householdId: number, id: number, clearedBalance: number): Promise<Reconciliation | undefined>;
+  // Deleting a finished reconciliation takes its entries back to cleared
+  deleteReconciliation(householdId: number, id: number): Promise<boolean>;
+  getClearedEntries(householdId: number, filter?: { accountId?: number; transactionId?: number }): Promise<ClearedEntry[]>;
+  createClearedEntry(householdId: number, entry: InsertClearedEntry): Promise<ClearedEntry | undefined>;
+  deleteClearedEntry(householdId: number, accountId: number, transactionId: number, occurrenceDate: string): Promise<boolean>;
+  
+  // Occurrence override operations (per-date state of recurring transactions)
+  getTransactionOccurrences(householdId: number, transactionId?: number): Promise<TransactionOccurrence[]>;
+  getTransactionOccurrencesByDateRange(householdId: number, startDate: string, endDate: string): Promise<TransactionOccurrence[]>;
+  upsertTransactionOccurrence(householdId: number, occurrence: InsertTransactionOccurrence): Promise<TransactionOccurrence | undefined>;
+  deleteTransactionOccurrence(householdId: number, transactionId: number, occurrenceDate: string): Promise<boolean>;
+  
+  // Split line operations (a transaction's amount by category and person, see shared/split-lines.ts)
+  getTransactionLines(householdId: number, transactionId?: number): Promise<TransactionLine[]>;
+  // Replace the transaction's lines; none removes the split
+  setTransactionLines(householdId: number, transactionId: number, lines: InsertTransactionLine[]): Promise<TransactionLine[] | undefined>;
+  
+  // Tag operations (free-form labels on transactions)
+  getTags(householdId: number): Promise<Tag[]>;
+  getTransactionTags(householdId: number, transactionId?: number): Promise<TransactionTag[]>;
+  // Replace the transaction's tags, creating the ones the household doesn't have yet; none removes them
+  setTransactionTags(householdId: number, transactionId: number, names: string[]): Promise<Tag[] | undefined>;
+  // Removes the tag from every transaction
+  deleteTag(householdId: number, id: number): Promise<boolean>;
+  
+  // Subscription operations (recurring expenses tracked with their renewals, see server/subscriptions.ts)
+  getSubscriptions(householdId: number): Promise<Subscription[]>;
+  getSubscriptionById(householdId: number, id: number): Promise<Subscription | undefined>;
+  // Undefined when the transaction isn't the household's
+  createSubscription(householdId: number, subscription: NewSubscription): Promise<Subscription | undefined>;
+  updateSubscription(householdId: number, id: number, subscription: Partial<Subscription>): Promise<Subscription | undefined>;
+  // Stops tracking the subscription; its recurring transaction stays
+  deleteSubscription(householdId: number, id: number): Promise<boolean>;
+  getSubscriptionPriceChanges(householdId: number, subscriptionId?: number): Promise<SubscriptionPriceChange[]>;
+  createSubscriptionPriceChange(householdId: number, change: InsertSubscriptionPriceChange): Promise<SubscriptionPriceChange | undefined>;
+  
+  // Import profile operations (saved CSV column mappings)
+  getImportProfiles(householdId: number): Promise<ImportProfile[]>;
+  getImportProfileById(householdId: number, id: number): Promise<ImportProfile | undefined>;
+  createImportProfile(householdId: number, profile: InsertImportProfile): Promise<ImportProfile>;
+  updateImportProfile(householdId: number, id: number, profile: Partial<ImportProfile>): Promise<ImportProfile | undefined>;
+  deleteImportProfile(householdId: number, id: number): Promise<boolean>;
+  
+  // Transaction rule operations (applied to transactions as they are read, see shared/transaction-rules.ts)
+  getTransactionRules(householdId: number): Promise<TransactionRule[]>;
+  getTransactionRuleById(householdId: number, id: number): Promise<TransactionRule | undefined>;
+  createTransactionRule(householdId: number, rule: InsertTransactionRule): Promise<TransactionRule>;
+  updateTransactionRule(householdId: number, id: number, rule: Partial<TransactionRule>): Promise<TransactionRule | undefined>;
+  deleteTransactionRule(householdId: number, id: number): Promise<boolean>;
+  
+  // Audit log operations; entries are only ever added (see server/audit.ts)
+  getAuditEntries(householdId: number, query: AuditQuery): Promise<AuditEntryWithUser[]>;
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  
+  // Trash operations: deleting a transaction, category or savings entry only sets its deletedAt,
+  // the rows are removed for good once they have been in the trash long enough
+  purgeDeletedItems(deletedBefore: Date): Promise<PurgedItems>;
+  // Removes everything in the household's trash for good, however long it has been there
+  emptyTrash(householdId: number): Promise<PurgedItems>;
+  
+  // Runs `work` against storage whose writes all take effect, or none do when it fails
+  runInTransaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T>;
+  
+  // Exchange rate operations (shared by all households)
+  getExchangeRates(currency?: string, startDate?: string, endDate?: string): Promise<ExchangeRate[]>;
+  findExchangeRate(currency: string, onOrBefore: string): Promise<ExchangeRate | undefined>;
+  getExchangeRateCurrencies(): Promise<string[]>;
+  upsertExchangeRates(rates: InsertExchangeRate[]): Promise<number>;
   
   // Session store for authentication
   sessionStore: session.Store;
 }
 
+// The month a budget applies from is set by the server, not by the category form
+export type NewCategory = InsertCategory & Pick<Partial<Category>, "budgetStartMonth">;
+
+// So is the date of the exchange rate a foreign currency transaction was converted at
+// Transfers have no category or person, see isTransfer()
+export type NewTransaction = Omit<InsertTransaction, "categoryId" | "personLabel"> &
+  Pick<Transaction, "categoryId" | "personLabel"> &
+  Pick<Partial<Transaction>, "rateDate" | "transferAccountId">;
+
+// What transactions can be filtered by as stored: a date range, which also brings the recurring
+// series running during it, the type, whether they recur and are paid, and a category or person
+// (in any case) of the transaction or of one of its split lines
+export type TransactionFilter = {
+  from?: Date;
+  to?: Date;
+  isExpense?: boolean;
+  isRecurring?: boolean;
+  isPaid?: boolean;
+  categoryId?: number;
+  personLabel?: string;
+};
+
+// The rows a trash purge removed for good, as they were in the trash
+export type PurgedItems = Omit<Trash, "retentionDays">;
+
+// The transaction a page of findTransactions() ended with
+export type TransactionCursor = { date: Date; id: number };
+
+// An auto-contribution is booked for its goal, once per contribution date
+export type NewContribution = InsertSavings & { goalId: number; contributionDate: string };
+
+// A reconciliation is started for an account with the balance and date of its statement
+export type NewReconciliation = InsertReconciliation & Pick<Reconciliation, "accountId">;
+
+// A subscription tracks a recurring transaction that already exists
+export type NewSubscription = Pick<Subscription, "transactionId"> & Pick<Partial<Subscription>, "trialEndsAt" | "remindDaysBefore">;
+
+// People of the default household from before people were configurable (matches the migration)
+const legacyPeople: InsertPerson[] = [
+  { name: "Beni", color: "#3b82f6" },
+  { name: "Fabi", color: "#ec4899" },
+  { name: "Michał", color: "#10b981" },
+  { name: "Together", color: "#8b5cf6", isShared: true },
+];
+
+// Every new household starts with one shared person; members add themselves as needed
+const defaultPeople: InsertPerson[] = [
+  { name: "Together", color: "#8b5cf6", isShared: true },
+];
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private households: Map<number, Household>;
+  private householdMembers: Map<number, HouseholdMember>;
   private transactions: Map<number, Transaction>;
   private categories: Map<number, Category>;
+  private people: Map<number, Person>;
   private savings: Map<number, Savings>;
+  private savingsGoals: Map<number, SavingsGoal>;
+  private accounts: Map<number, Account>;
+  private reconciliations: Map<number, Reconciliation>;
+  private clearedEntries: Map<number, ClearedEntry>;
+  private occurrences: Map<number, TransactionOccurrence>;
+  private transactionLines: Map<number, TransactionLine>;
+  private tags: Map<number, Tag>;
+  private transactionTags: Map<number, TransactionTag>;
+  private subscriptions: Map<number, Subscription>;
+  private subscriptionPriceChanges: Map<number, SubscriptionPriceChange>;
+  private importProfiles: Map<number, ImportProfile>;
+  private transactionRules: Map<number, TransactionRule>;
+  private auditEntries: Map<number, AuditEntry>;
+  private categoryBudgetOverrides: Map<number, CategoryBudgetOverride>;
+  private forecastSettings: Map<number, ForecastSettings>; // by household id
+  private settlementSettings: Map<number, SettlementSettings>; // by household id
+  private settlementPayments: Map<number, SettlementPayment>;
+  private settlementSplits: Map<number, SettlementSplit>;
+  private exchangeRates: Map<number, ExchangeRate>;
   private userId: number;
+  private householdId: number;
+  private householdMemberId: number;
   private transactionId: number;
   private categoryId: number;
+  private personId: number;
   private savingsId: number;
+  private savingsGoalId: number;
+  private accountId: number;
+  private reconciliationId: number;
+  private clearedEntryId: number;
+  private occurrenceId: number;
+  private transactionLineId: number;
+  private tagId: number;
+  private transactionTagId: number;
+  private subscriptionId: number;
+  private subscriptionPriceChangeId: number;
+  private importProfileId: number;
+  private transactionRuleId: number;
+  private auditEntryId: number;
+  private categoryBudgetOverrideId: number;
+  private forecastSettingsId: number;
+  private settlementSettingsId: number;
+  private settlementPaymentId: number;
+  private settlementSplitId: number;
+  private exchangeRateId: number;
   sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.households = new Map();
+    this.householdMembers = new Map();
     this.transactions = new Map();
     this.categories = new Map();
+    this.people = new Map();
     this.savings = new Map();
+    this.savingsGoals = new Map();
+    this.accounts = new Map();
+    this.reconciliations = new Map();
+    this.clearedEntries = new Map();
+    this.occurrences = new Map();
+    this.transactionLines = new Map();
+    this.tags = new Map();
+    this.transactionTags = new Map();
+    this.subscriptions = new Map();
+    this.subscriptionPriceChanges = new Map();
+    this.importProfiles = new Map();
+    this.transactionRules = new Map();
+    this.auditEntries = new Map();
+    this.categoryBudgetOverrides = new Map();
+    this.forecastSettings = new Map();
+    this.settlementSettings = new Map();
+    this.settlementPayments = new Map();
+    this.settlementSplits = new Map();
+    this.exchangeRates = new Map();
     this.userId = 1;
+    this.householdId = 1;
+    this.householdMemberId = 1;
     this.transactionId = 1;
     this.categoryId = 1;
+    this.personId = 1;
     this.savingsId = 1;
+    this.savingsGoalId = 1;
+    this.accountId = 1;
+    this.reconciliationId = 1;
+    this.clearedEntryId = 1;
+    this.occurrenceId = 1;
+    this.transactionLineId = 1;
+    this.tagId = 1;
+    this.transactionTagId = 1;
+    this.subscriptionId = 1;
+    this.subscriptionPriceChangeId = 1;
+    this.importProfileId = 1;
+    this.transactionRuleId = 1;
+    this.auditEntryId = 1;
+    this.categoryBudgetOverrideId = 1;
+    this.forecastSettingsId = 1;
+    this.settlementSettingsId = 1;
+    this.settlementPaymentId = 1;
+    this.settlementSplitId = 1;
+    this.exchangeRateId = 1;
     
     // Create memory store for sessions
-    const MemoryStore = require('memorystore')(session);
+    const MemoryStore = createMemoryStore(session);
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // prune expired entries every 24h
     });
     
-    // Initialize with some default categories
-    this.initializeCategories();
+    // Default household for anonymous use, matching the database migration
+    this.households.set(DEFAULT_HOUSEHOLD_ID, { id: DEFAULT_HOUSEHOLD_ID, name: "Home", createdAt: new Date() });
+    this.householdId = DEFAULT_HOUSEHOLD_ID + 1;
+    
+    // Initialize with some default categories and the people the app started with
+    this.initializeCategories(DEFAULT_HOUSEHOLD_ID);
+    legacyPeople.forEach(person => this.createPerson(DEFAULT_HOUSEHOLD_ID, person));
   }
   
-  private initializeCategories() {
+  private initializeCategories(householdId: number) {
     const defaultCategories: InsertCategory[] = [
       { name: "Bills", color: "#3b82f6", isExpense: true },
       { name: "Food", color: "#10b981", isExpense: true },
@@ -97,7 +411,7 @@ export class MemStorage implements IStorage {
     ];
     
     defaultCategories.forEach(category => {
-      this.createCategory(category);
+      this.createCategory(householdId, category);
     });
   }
 
@@ -119,33 +433,142 @@ export class MemStorage implements IStorage {
     return user;
   }
   
+  // Household operations
+  async getHousehold(id: number): Promise<Household | undefined> {
+    return this.households.get(id);
+  }
+  
+  async getHouseholdsForUser(userId: number): Promise<HouseholdMembership[]> {
+    return Array.from(this.householdMembers.values())
+      .filter(member => member.userId === userId)
+      .flatMap(member => {
+        const household = this.households.get(member.householdId);
+        return household ? [{ household, role: member.role as HouseholdRole }] : [];
+      });
+  }
+  
+  async createHousehold(insertHousehold: InsertHousehold, ownerUserId: number): Promise<Household> {
+    const id = this.householdId++;
+    const household: Household = { id, name: insertHousehold.name, createdAt: new Date() };
+    this.households.set(id, household);
+    await this.addHouseholdMember(id, ownerUserId, "owner");
+    this.initializeCategories(id);
+    defaultPeople.forEach(person => this.createPerson(id, person));
+    return household;
+  }
+  
+  async getHouseholdMembers(householdId: number): Promise<(HouseholdMember & { username: string })[]> {
+    return Array.from(this.householdMembers.values())
+      .filter(member => member.householdId === householdId)
+      .map(member => ({ ...member, username: this.users.get(member.userId)?.username || "" }));
+  }
+  
+  async getHouseholdMember(householdId: number, userId: number): Promise<HouseholdMember | undefined> {
+    return Array.from(this.householdMembers.values()).find(
+      member => member.householdId === householdId && member.userId === userId
+    );
+  }
+  
+  async addHouseholdMember(householdId: number, userId: number, role: HouseholdRole): Promise<HouseholdMember> {
+    const existing = await this.getHouseholdMember(householdId, userId);
+    if (existing) {
+      const updated = { ...existing, role };
+      this.householdMembers.set(existing.id, updated);
+      return updated;
+    }
+    
+    const id = this.householdMemberId++;
+    const member: HouseholdMember = { id, householdId, userId, role };
+    this.householdMembers.set(id, member);
+    return member;
+  }
+  
+  async updateHouseholdMemberRole(householdId: number, userId: number, role: HouseholdRole): Promise<HouseholdMember | undefined> {
+    const existing = await this.getHouseholdMember(householdId, userId);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, role };
+    this.householdMembers.set(existing.id, updated);
+    return updated;
+  }
+  
+  async removeHouseholdMember(householdId: number, userId: number): Promise<boolean> {
+    const existing = await this.getHouseholdMember(householdId, userId);
+    if (!existing) return false;
+    return this.householdMembers.delete(existing.id);
+  }
+  
   // Transaction operations
-  async getTransactions(): Promise<Transaction[]> {
-    return Array.from(this.transactions.values());
+  async getTransactions(householdId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      transaction => transaction.householdId === householdId && !transaction.deletedAt
+    );
   }
   
-  async getRecurringTransactions(): Promise<Transaction[]> {
+  async getRecurringTransactions(householdId: number): Promise<Transaction[]> {
     return Array.from(this.transactions.values()).filter(
-      transaction => transaction.isRecurring === true
+      transaction => transaction.householdId === householdId && transaction.isRecurring === true && !transaction.deletedAt
     );
   }
   
-  async getTransactionById(id: number): Promise<Transaction | undefined> {
-    return this.transactions.get(id);
+  async getTransactionById(householdId: number, id: number): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction?.householdId === householdId && !transaction.deletedAt ? transaction : undefined;
   }
   
-  async getTransactionsByDateRange(startDate: Date, endDate: Date): Promise<Transaction[]> {
+  async getTransactionsByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<Transaction[]> {
     return Array.from(this.transactions.values()).filter(transaction => {
+      if (transaction.householdId !== householdId || transaction.deletedAt) return false;
       const transactionDate = new Date(transaction.date);
+      if (transaction.isRecurring) {
+        return transactionDate <= endDate &&
+          (!transaction.recurringEndDate || new Date(transaction.recurringEndDate) >= startDate);
+      }
       return transactionDate >= startDate && transactionDate <= endDate;
     });
   }
   
-  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+  async findTransactions(householdId: number, filter: TransactionFilter, after?: TransactionCursor, limit?: number): Promise<Transaction[]> {
+    const { from, to, isExpense, isRecurring, isPaid, categoryId } = filter;
+    const candidates = from && to
+      ? await this.getTransactionsByDateRange(householdId, from, to)
+      : await this.getTransactions(householdId);
+    const lines = categoryId !== undefined || filter.personLabel !== undefined
+      ? await this.getTransactionLines(householdId)
+      : [];
+    const personLabel = filter.personLabel?.toLowerCase();
+    
+    const matches = candidates
+      .filter(transaction => {
+        if (isTransfer(transaction)) return false;
+        if (isExpense !== undefined && transaction.isExpense !== isExpense) return false;
+        if (isRecurring !== undefined && !!transaction.isRecurring !== isRecurring) return false;
+        if (isPaid !== undefined && !!transaction.isPaid !== isPaid) return false;
+        
+        const parts = [transaction, ...lines.filter(line => line.transactionId === transaction.id)];
+        if (categoryId !== undefined && !parts.some(part => part.categoryId === categoryId)) return false;
+        if (personLabel !== undefined && !parts.some(part => part.personLabel?.toLowerCase() === personLabel)) return false;
+        if (after) {
+          const time = new Date(transaction.date).getTime();
+          if (time < after.date.getTime() || (time === after.date.getTime() && transaction.id <= after.id)) return false;
+        }
+        return true;
+      })
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.id - b.id);
+    
+    return limit !== undefined ? matches.slice(0, limit) : matches;
+  }
+  
+  async countTransactions(householdId: number, filter: TransactionFilter): Promise<number> {
+    return (await this.findTransactions(householdId, filter)).length;
+  }
+  
+  async createTransaction(householdId: number, insertTransaction: NewTransaction): Promise<Transaction> {
     const id = this.transactionId++;
     // Create a proper transaction object with all fields
     const transaction: Transaction = {
       id,
+      householdId,
       title: insertTransaction.title,
       amount: insertTransaction.amount,
       date: insertTransaction.date,
@@ -156,557 +579,2596 @@ export class MemStorage implements IStorage {
       isRecurring: insertTransaction.isRecurring || false,
       recurringInterval: insertTransaction.recurringInterval || null,
       recurringEndDate: insertTransaction.recurringEndDate || null,
-      isPaid: insertTransaction.isPaid || false
+      recurrenceRule: insertTransaction.recurrenceRule || null,
+      recurrenceShift: insertTransaction.recurrenceShift || null,
+      isPaid: insertTransaction.isPaid || false,
+      originalAmount: insertTransaction.originalAmount ?? null,
+      originalCurrency: insertTransaction.originalCurrency || null,
+      exchangeRate: insertTransaction.exchangeRate ?? null,
+      rateDate: insertTransaction.rateDate || null,
+      accountId: insertTransaction.accountId ?? null,
+      transferAccountId: insertTransaction.transferAccountId ?? null,
+      paidBy: insertTransaction.paidBy || null,
+      deletedAt: null
     };
     this.transactions.set(id, transaction);
     return transaction;
   }
   
-  async updateTransaction(id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined> {
-    const existingTransaction = this.transactions.get(id);
+  async createTransactions(householdId: number, insertTransactions: NewTransaction[]): Promise<Transaction[]> {
+    const created: Transaction[] = [];
+    for (const insertTransaction of insertTransactions) {
+      created.push(await this.createTransaction(householdId, insertTransaction));
+    }
+    return created;
+  }
+  
+  async updateTransaction(householdId: number, id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined> {
+    const existingTransaction = await this.getTransactionById(householdId, id);
     if (!existingTransaction) return undefined;
     
-    const updatedTransaction = { ...existingTransaction, ...transaction };
+    // Rows never move between households
+    const updatedTransaction = { ...existingTransaction, ...transaction, householdId };
     this.transactions.set(id, updatedTransaction);
     return updatedTransaction;
   }
   
   // Direct update method for special transactions
-  async updateTransactionDirect(id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined> {
+  async updateTransactionDirect(householdId: number, id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined> {
     // For MemStorage, this is the same as regular update since we're just dealing with in-memory objects
     console.log(`[DIRECT] Direct update called for transaction ${id}`, transaction);
-    return this.updateTransaction(id, transaction);
+    return this.updateTransaction(householdId, id, transaction);
   }
   
-  async deleteTransaction(id: number): Promise<boolean> {
-    return this.transactions.delete(id);
+  async deleteTransaction(householdId: number, id: number): Promise<boolean> {
+    const transaction = await this.getTransactionById(householdId, id);
+    if (!transaction) return false;
+    
+    // Occurrence overrides stay with it, so a restore brings them back
+    this.transactions.set(id, { ...transaction, deletedAt: new Date() });
+    return true;
+  }
+  
+  async getDeletedTransactions(householdId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction => transaction.householdId === householdId && !!transaction.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+  
+  async restoreTransaction(householdId: number, id: number): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    if (transaction?.householdId !== householdId || !transaction.deletedAt) return undefined;
+    
+    const restored = { ...transaction, deletedAt: null };
+    this.transactions.set(id, restored);
+    return restored;
   }
   
   // Category operations
-  async getCategories(): Promise<Category[]> {
-    return Array.from(this.categories.values());
+  async getCategories(householdId: number): Promise<Category[]> {
+    return Array.from(this.categories.values()).filter(
+      category => category.householdId === householdId && !category.deletedAt
+    );
   }
   
-  async getCategoryById(id: number): Promise<Category | undefined> {
-    return this.categories.get(id);
+  async getCategoryById(householdId: number, id: number): Promise<Category | undefined> {
+    const category = this.categories.get(id);
+    return category?.householdId === householdId && !category.deletedAt ? category : undefined;
   }
   
-  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+  async createCategory(householdId: number, insertCategory: NewCategory): Promise<Category> {
     const id = this.categoryId++;
     // Ensure isExpense is always a boolean
     const category: Category = {
       id,
+      householdId,
       name: insertCategory.name,
       color: insertCategory.color,
       isExpense: insertCategory.isExpense !== undefined ? insertCategory.isExpense : true,
       emoji: insertCategory.emoji || null,
+      monthlyBudget: insertCategory.monthlyBudget ?? null,
+      budgetRollover: insertCategory.budgetRollover ?? "reset",
+      budgetStartMonth: insertCategory.budgetStartMonth ?? null,
+      deletedAt: null,
     };
     this.categories.set(id, category);
     return category;
   }
   
-  async updateCategory(id: number, category: Partial<Category>): Promise<Category | undefined> {
-    const existingCategory = this.categories.get(id);
+  async updateCategory(householdId: number, id: number, category: Partial<Category>): Promise<Category | undefined> {
+    const existingCategory = await this.getCategoryById(householdId, id);
     if (!existingCategory) return undefined;
     
-    const updatedCategory = { ...existingCategory, ...category };
+    const updatedCategory = { ...existingCategory, ...category, householdId };
     this.categories.set(id, updatedCategory);
     return updatedCategory;
   }
   
-  async deleteCategory(id: number): Promise<boolean> {
-    return this.categories.delete(id);
+  async deleteCategory(householdId: number, id: number): Promise<boolean> {
+    const category = await this.getCategoryById(householdId, id);
+    if (!category) return false;
+    
+    // Budget overrides stay with it, so a restore brings them back
+    this.categories.set(id, { ...category, deletedAt: new Date() });
+    return true;
+  }
+  
+  async getDeletedCategories(householdId: number): Promise<Category[]> {
+    return Array.from(this.categories.values())
+      .filter(category => category.householdId === householdId && !!category.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+  
+  async restoreCategory(householdId: number, id: number): Promise<Category | undefined> {
+    const category = this.categories.get(id);
+    if (category?.householdId !== householdId || !category.deletedAt) return undefined;
+    
+    const restored = { ...category, deletedAt: null };
+    this.categories.set(id, restored);
+    return restored;
+  }
+  
+  // Category budget override operations
+  private isHouseholdCategory(householdId: number, categoryId: number): boolean {
+    return this.categories.get(categoryId)?.householdId === householdId;
+  }
+  
+  async getCategoryBudgetOverrides(householdId: number, categoryId?: number): Promise<CategoryBudgetOverride[]> {
+    return Array.from(this.categoryBudgetOverrides.values()).filter(override =>
+      this.isHouseholdCategory(householdId, override.categoryId) &&
+      (categoryId === undefined || override.categoryId === categoryId)
+    );
+  }
+  
+  async upsertCategoryBudgetOverride(householdId: number, categoryId: number, month: string, amount: number): Promise<CategoryBudgetOverride | undefined> {
+    if (!this.isHouseholdCategory(householdId, categoryId)) return undefined;
+    
+    const existing = Array.from(this.categoryBudgetOverrides.values()).find(override =>
+      override.categoryId === categoryId && override.month === month
+    );
+    const override: CategoryBudgetOverride = {
+      id: existing?.id ?? this.categoryBudgetOverrideId++,
+      categoryId,
+      month,
+      amount,
+    };
+    this.categoryBudgetOverrides.set(override.id, override);
+    return override;
+  }
+  
+  async deleteCategoryBudgetOverride(householdId: number, categoryId: number, month: string): Promise<boolean> {
+    if (!this.isHouseholdCategory(householdId, categoryId)) return false;
+    
+    const existing = Array.from(this.categoryBudgetOverrides.values()).find(override =>
+      override.categoryId === categoryId && override.month === month
+    );
+    if (!existing) return false;
+    return this.categoryBudgetOverrides.delete(existing.id);
+  }
+  
+  // Forecast settings operations
+  async getForecastSettings(householdId: number): Promise<ForecastSettings | undefined> {
+    return this.forecastSettings.get(householdId);
+  }
+  
+  async upsertForecastSettings(householdId: number, settings: InsertForecastSettings): Promise<ForecastSettings> {
+    const saved: ForecastSettings = {
+      id: this.forecastSettings.get(householdId)?.id ?? this.forecastSettingsId++,
+      householdId,
+      ...settings,
+      updatedAt: new Date(),
+    };
+    this.forecastSettings.set(householdId, saved);
+    return saved;
+  }
+  
+  // Person operations
+  async getPeople(householdId: number): Promise<Person[]> {
+    return Array.from(this.people.values()).filter(
+      person => person.householdId === householdId
+    );
+  }
+  
+  async getPersonById(householdId: number, id: number): Promise<Person | undefined> {
+    const person = this.people.get(id);
+    return person?.householdId === householdId ? person : undefined;
+  }
+  
+  async getPersonByName(householdId: number, name: string): Promise<Person | undefined> {
+    return Array.from(this.people.values()).find(
+      person => person.householdId === householdId && person.name === name
+    );
+  }
+  
+  async createPerson(householdId: number, insertPerson: InsertPerson): Promise<Person> {
+    const id = this.personId++;
+    const person: Person = {
+      id,
+      householdId,
+      name: insertPerson.name,
+      color: insertPerson.color || "#6b7280",
+      emoji: insertPerson.emoji || null,
+      isActive: insertPerson.isActive !== undefined ? insertPerson.isActive : true,
+      isShared: insertPerson.isShared ?? false,
+      settlementShare: null,
+    };
+    this.people.set(id, person);
+    return person;
+  }
+  
+  async updatePerson(householdId: number, id: number, person: Partial<Person>): Promise<Person | undefined> {
+    const existingPerson = await this.getPersonById(householdId, id);
+    if (!existingPerson) return undefined;
+    
+    const updatedPerson = { ...existingPerson, ...person, id, householdId };
+    this.people.set(id, updatedPerson);
+    
+    // Transactions, savings and settlement payments refer to people by name
+    if (updatedPerson.name !== existingPerson.name) {
+      this.transactions.forEach(transaction => {
+        if (transaction.householdId !== householdId) return;
+        if (transaction.personLabel === existingPerson.name) {
+          transaction.personLabel = updatedPerson.name;
+        }
+        if (transaction.paidBy === existingPerson.name) {
+          transaction.paidBy = updatedPerson.name;
+        }
+      });
+      this.settlementPayments.forEach(payment => {
+        if (payment.householdId !== householdId) return;
+        if (payment.fromPerson === existingPerson.name) payment.fromPerson = updatedPerson.name;
+        if (payment.toPerson === existingPerson.name) payment.toPerson = updatedPerson.name;
+      });
+      this.savings.forEach(savingsEntry => {
+        if (savingsEntry.householdId === householdId && savingsEntry.personLabel === existingPerson.name) {
+          savingsEntry.personLabel = updatedPerson.name;
+        }
+      });
+    }
+    
+    return updatedPerson;
+  }
+  
+  async deletePerson(householdId: number, id: number): Promise<boolean> {
+    if (!await this.getPersonById(householdId, id)) return false;
+    return this.people.delete(id);
+  }
+  
+  // Settlement operations
+  async getSettlementSettings(householdId: number): Promise<SettlementSettings | undefined> {
+    return this.settlementSettings.get(householdId);
+  }
+  
+  async upsertSettlementSettings(householdId: number, settings: InsertSettlementSettings): Promise<SettlementSettings> {
+    const saved: SettlementSettings = {
+      id: this.settlementSettings.get(householdId)?.id ?? this.settlementSettingsId++,
+      householdId,
+      ...settings,
+      updatedAt: new Date(),
+    };
+    this.settlementSettings.set(householdId, saved);
+    return saved;
+  }
+  
+  async getSettlementPayments(householdId: number): Promise<SettlementPayment[]> {
+    return Array.from(this.settlementPayments.values())
+      .filter(payment => payment.householdId === householdId)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+  }
+  
+  async createSettlementPayment(householdId: number, insertPayment: InsertSettlementPayment): Promise<SettlementPayment> {
+    const payment: SettlementPayment = {
+      id: this.settlementPaymentId++,
+      householdId,
+      fromPerson: insertPayment.fromPerson,
+      toPerson: insertPayment.toPerson,
+      amount: insertPayment.amount,
+      date: insertPayment.date,
+      note: insertPayment.note || null,
+      createdAt: new Date(),
+    };
+    this.settlementPayments.set(payment.id, payment);
+    return payment;
+  }
+  
+  async deleteSettlementPayment(householdId: number, id: number): Promise<boolean> {
+    const payment = this.settlementPayments.get(id);
+    if (payment?.householdId !== householdId) return false;
+    return this.settlementPayments.delete(id);
+  }
+  
+  async getSettlementSplits(householdId: number): Promise<SettlementSplit[]> {
+    return Array.from(this.settlementSplits.values())
+      .filter(split => split.householdId === householdId)
+      .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  }
+  
+  async saveSettlementSplit(householdId: number, insertSplit: InsertSettlementSplit): Promise<SettlementSplit> {
+    const existing = Array.from(this.settlementSplits.values())
+      .find(split => split.householdId === householdId && split.effectiveFrom === insertSplit.effectiveFrom);
+    const split: SettlementSplit = {
+      id: existing?.id ?? this.settlementSplitId++,
+      householdId,
+      ...insertSplit,
+      createdAt: new Date(),
+    };
+    this.settlementSplits.set(split.id, split);
+    return split;
   }
   
   // Savings operations
-  async getSavings(): Promise<Savings[]> {
-    return Array.from(this.savings.values());
+  async getSavings(householdId: number): Promise<Savings[]> {
+    return Array.from(this.savings.values()).filter(
+      savingsEntry => savingsEntry.householdId === householdId && !savingsEntry.deletedAt
+    );
   }
   
-  async getSavingsByDateRange(startDate: Date, endDate: Date): Promise<Savings[]> {
+  async getSavingsByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<Savings[]> {
     return Array.from(this.savings.values()).filter(savingsEntry => {
       const savingsDate = new Date(savingsEntry.date);
-      return savingsDate >= startDate && savingsDate <= endDate;
+      return savingsEntry.householdId === householdId && !savingsEntry.deletedAt &&
+        savingsDate >= startDate && savingsDate <= endDate;
     });
   }
   
-  async createSavings(insertSavings: InsertSavings): Promise<Savings> {
+  async createSavings(householdId: number, insertSavings: InsertSavings): Promise<Savings> {
     const id = this.savingsId++;
     const savingsEntry: Savings = {
       id,
+      householdId,
       amount: insertSavings.amount,
       date: insertSavings.date,
       notes: insertSavings.notes || null,
       personLabel: insertSavings.personLabel,
+      goalId: insertSavings.goalId ?? null,
+      accountId: insertSavings.accountId ?? null,
+      fromAccountId: insertSavings.fromAccountId ?? null,
+      contributionDate: null,
+      deletedAt: null,
     };
     this.savings.set(id, savingsEntry);
     return savingsEntry;
   }
   
-  async deleteSavings(id: number): Promise<boolean> {
-    return this.savings.delete(id);
+  async createContribution(householdId: number, contribution: NewContribution): Promise<Savings | undefined> {
+    const booked = Array.from(this.savings.values()).some(
+      s => s.goalId === contribution.goalId && s.contributionDate === contribution.contributionDate
+    );
+    if (booked) return undefined;
+    
+    const savingsEntry = await this.createSavings(householdId, contribution);
+    const contributionEntry = { ...savingsEntry, contributionDate: contribution.contributionDate };
+    this.savings.set(savingsEntry.id, contributionEntry);
+    return contributionEntry;
   }
-}
-
-export class DatabaseStorage implements IStorage {
-  sessionStore: session.Store;
-
-  constructor() {
-    const PostgresStore = connectPg(session);
-    this.sessionStore = new PostgresStore({
-      pool,
-      tableName: 'session',
-      createTableIfMissing: true
-    });
+  
+  async deleteSavings(householdId: number, id: number): Promise<boolean> {
+    const savingsEntry = this.savings.get(id);
+    if (savingsEntry?.householdId !== householdId || savingsEntry.deletedAt) return false;
+    
+    this.savings.set(id, { ...savingsEntry, deletedAt: new Date() });
+    return true;
   }
-
-  // User operations
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
+  
+  async getDeletedSavings(householdId: number): Promise<Savings[]> {
+    return Array.from(this.savings.values())
+      .filter(savingsEntry => savingsEntry.householdId === householdId && !!savingsEntry.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
   }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user;
+  
+  async restoreSavings(householdId: number, id: number): Promise<Savings | undefined> {
+    const savingsEntry = this.savings.get(id);
+    if (savingsEntry?.householdId !== householdId || !savingsEntry.deletedAt) return undefined;
+    
+    const restored = { ...savingsEntry, deletedAt: null };
+    this.savings.set(id, restored);
+    return restored;
   }
   
-  // Direct SQL update function for special cases
-  async updateTransactionDirect(id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined> {
-    try {
-      // This is a special method that bypasses the normal validation and directly updates
-      // the transaction with the exact values provided, used for special problematic transactions
-      console.log(`[DIRECT] Performing direct update for transaction ${id} with data:`, transaction);
-      
-      // Extract the fields we want to update
-      const updateData: Partial<Transaction> = {};
-      
-      // Only copy the fields we want to update
-      if (transaction.amount !== undefined) updateData.amount = transaction.amount;
-      if (transaction.title !== undefined) updateData.title = transaction.title;
-      if (transaction.date !== undefined) updateData.date = transaction.date;
-      if (transaction.notes !== undefined) updateData.notes = transaction.notes;
-      if (transaction.categoryId !== undefined) updateData.categoryId = transaction.categoryId;
-      if (transaction.personLabel !== undefined) updateData.personLabel = transaction.personLabel;
-      if (transaction.isExpense !== undefined) updateData.isExpense = transaction.isExpense;
-      if (transaction.isRecurring !== undefined) updateData.isRecurring = transaction.isRecurring;
-      if (transaction.recurringInterval !== undefined) updateData.recurringInterval = transaction.recurringInterval;
-      if (transaction.recurringEndDate !== undefined) updateData.recurringEndDate = transaction.recurringEndDate;
-      if (transaction.isPaid !== undefined) updateData.isPaid = transaction.isPaid;
-      
-      console.log(`[DIRECT] Final update data:`, updateData);
-      
-      // Perform the update
-      const [updatedTransaction] = await db.update(transactions)
-        .set(updateData)
-        .where(eq(transactions.id, id))
-        .returning();
-      
-      console.log(`[DIRECT] Update result:`, updatedTransaction);
-      
-      return updatedTransaction;
-    } catch (error) {
-      console.error(`[DIRECT] Error in direct update:`, error);
-      throw error;
-    }
+  // Savings goal operations
+  async getSavingsGoals(householdId: number): Promise<SavingsGoal[]> {
+    return Array.from(this.savingsGoals.values()).filter(
+      goal => goal.householdId === householdId
+    );
   }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
-    return user;
+  
+  async getDueSavingsGoals(date: string): Promise<SavingsGoal[]> {
+    return Array.from(this.savingsGoals.values()).filter(
+      goal => goal.nextContributionDate !== null && goal.nextContributionDate <= date
+    );
   }
   
-  // Transaction operations
-  async getTransactions(): Promise<Transaction[]> {
-    // Use Supabase client if db is not available
-    if (!db) {
-      console.log('[STORAGE] Using Supabase client to fetch transactions');
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .order('date', { ascending: true });
-
-      console.log('[STORAGE] Supabase response - data:', data?.length || 0, 'error:', error);
-
-      if (error) throw error;
-
-      const allTransactions = (data || []).map(t => ({
-        ...t,
-        date: new Date(t.date),
-        recurringEndDate: t.recurring_end_date ? new Date(t.recurring_end_date) : null,
-        isExpense: t.is_expense,
-        categoryId: t.category_id,
-        personLabel: t.person_label,
-        isRecurring: t.is_recurring,
-        recurringInterval: t.recurring_interval,
-        isPaid: t.is_paid
-      })) as Transaction[];
-
-      console.log('[STORAGE] Mapped transactions:', allTransactions.length);
-      const filteredTransactions = filterProblematicTransactions(allTransactions);
-      console.log('[STORAGE] After filtering:', filteredTransactions.length);
-      const transformed = transformTransactionAmounts(filteredTransactions);
-      console.log('[STORAGE] After transformation:', transformed.length);
-      return transformed;
-    }
-
-    // Get all transactions from the database
-    const allTransactions = await db.select().from(transactions);
-
-    // First apply our special filters to remove problematic transactions
-    const filteredTransactions = filterProblematicTransactions(allTransactions);
-
-    // Then transform any amounts that need to be fixed
-    return transformTransactionAmounts(filteredTransactions);
+  async getSavingsGoalById(householdId: number, id: number): Promise<SavingsGoal | undefined> {
+    const goal = this.savingsGoals.get(id);
+    return goal?.householdId === householdId ? goal : undefined;
   }
   
-  async getRecurringTransactions(): Promise<Transaction[]> {
-    // Use Supabase client if db is not available
-    if (!db) {
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('is_recurring', true)
-        .order('date', { ascending: true });
-
-      if (error) throw error;
-
-      const recurringTransactions = (data || []).map(t => ({
-        ...t,
-        date: new Date(t.date),
-        recurringEndDate: t.recurring_end_date ? new Date(t.recurring_end_date) : null,
-        isExpense: t.is_expense,
-        categoryId: t.category_id,
-        personLabel: t.person_label,
-        isRecurring: t.is_recurring,
-        recurringInterval: t.recurring_interval,
-        isPaid: t.is_paid
-      })) as Transaction[];
-
-      const filteredTransactions = filterProblematicTransactions(recurringTransactions);
-      return transformTransactionAmounts(filteredTransactions);
-    }
-
-    // Get all recurring transactions
-    const recurringTransactions = await db.select().from(transactions)
-      .where(eq(transactions.isRecurring, true));
-
-    // First apply our special filters to remove problematic transactions
-    const filteredTransactions = filterProblematicTransactions(recurringTransactions);
+  async createSavingsGoal(householdId: number, insertGoal: InsertSavingsGoal): Promise<SavingsGoal> {
+    const id = this.savingsGoalId++;
+    const goal: SavingsGoal = {
+      id,
+      householdId,
+      name: insertGoal.name,
+      emoji: insertGoal.emoji || null,
+      color: insertGoal.color || "#10b981",
+      targetAmount: insertGoal.targetAmount,
+      targetDate: insertGoal.targetDate ?? null,
+      contributionAmount: insertGoal.contributionAmount ?? null,
+      contributionInterval: insertGoal.contributionInterval ?? null,
+      contributionPersonLabel: insertGoal.contributionPersonLabel ?? null,
+      nextContributionDate: insertGoal.nextContributionDate ?? null,
+      createdAt: new Date(),
+    };
+    this.savingsGoals.set(id, goal);
+    return goal;
+  }
+  
+  async updateSavingsGoal(householdId: number, id: number, goal: Partial<SavingsGoal>): Promise<SavingsGoal | undefined> {
+    const existingGoal = await this.getSavingsGoalById(householdId, id);
+    if (!existingGoal) return undefined;
+    
+    const updatedGoal = { ...existingGoal, ...goal, id, householdId };
+    this.savingsGoals.set(id, updatedGoal);
+    return updatedGoal;
+  }
+  
+  async deleteSavingsGoal(householdId: number, id: number): Promise<boolean> {
+    if (!await this.getSavingsGoalById(householdId, id)) return false;
+    
+    // Mirror the ON DELETE SET NULL of the database schema; the money stays saved
+    this.savings.forEach(savingsEntry => {
+      if (savingsEntry.goalId === id) savingsEntry.goalId = null;
+    });
+    
+    return this.savingsGoals.delete(id);
+  }
+  
+  // Account operations
+  async getAccounts(householdId: number): Promise<Account[]> {
+    return Array.from(this.accounts.values())
+      .filter(account => account.householdId === householdId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getAccountById(householdId: number, id: number): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    return account?.householdId === householdId ? account : undefined;
+  }
+  
+  async createAccount(householdId: number, insertAccount: InsertAccount): Promise<Account> {
+    const id = this.accountId++;
+    const account: Account = {
+      id,
+      householdId,
+      name: insertAccount.name,
+      type: insertAccount.type,
+      currency: insertAccount.currency,
+      openingBalance: insertAccount.openingBalance,
+      openingBalanceDate: insertAccount.openingBalanceDate,
+      isArchived: insertAccount.isArchived ?? false,
+      createdAt: new Date(),
+    };
+    this.accounts.set(id, account);
+    return account;
+  }
+  
+  async updateAccount(householdId: number, id: number, account: Partial<Account>): Promise<Account | undefined> {
+    const existingAccount = await this.getAccountById(householdId, id);
+    if (!existingAccount) return undefined;
+    
+    const updatedAccount = { ...existingAccount, ...account, id, householdId };
+    this.accounts.set(id, updatedAccount);
+    return updatedAccount;
+  }
+  
+  async deleteAccount(householdId: number, id: number): Promise<boolean> {
+    if (!await this.getAccountById(householdId, id)) return false;
+    
+    // Mirror the ON DELETE SET NULL of the database schema
+    this.transactions.forEach(transaction => {
+      if (transaction.accountId === id) transaction.accountId = null;
+      if (transaction.transferAccountId === id) transaction.transferAccountId = null;
+    });
+    this.savings.forEach(savingsEntry => {
+      if (savingsEntry.accountId === id) savingsEntry.accountId = null;
+      if (savingsEntry.fromAccountId === id) savingsEntry.fromAccountId = null;
+    });
+    // ...and its ON DELETE CASCADE
+    this.reconciliations.forEach(reconciliation => {
+      if (reconciliation.accountId === id) this.reconciliations.delete(reconciliation.id);
+    });
+    this.clearedEntries.forEach(entry => {
+      if (entry.accountId === id) this.clearedEntries.delete(entry.id);
+    });
+    
+    return this.accounts.delete(id);
+  }
+  
+  async isAccountInUse(householdId: number, id: number): Promise<boolean> {
+    if (!await this.getAccountById(householdId, id)) return false;
+    return Array.from(this.transactions.values()).some(t => t.accountId === id || t.transferAccountId === id) ||
+      Array.from(this.savings.values()).some(s => s.accountId === id || s.fromAccountId === id);
+  }
+  
+  // Reconciliation operations
+  async getReconciliations(householdId: number, accountId: number): Promise<Reconciliation[]> {
+    return Array.from(this.reconciliations.values())
+      .filter(reconciliation => reconciliation.householdId === householdId && reconciliation.accountId === accountId)
+      .sort((a, b) => b.statementDate.localeCompare(a.statementDate) || b.id - a.id);
+  }
+  
+  async getReconciliationById(householdId: number, id: number): Promise<Reconciliation | undefined> {
+    const reconciliation = this.reconciliations.get(id);
+    return reconciliation?.householdId === householdId ? reconciliation : undefined;
+  }
+  
+  async createReconciliation(householdId: number, insertReconciliation: NewReconciliation): Promise<Reconciliation> {
+    const id = this.reconciliationId++;
+    const reconciliation: Reconciliation = {
+      id,
+      householdId,
+      accountId: insertReconciliation.accountId,
+      statementDate: insertReconciliation.statementDate,
+      statementBalance: insertReconciliation.statementBalance,
+      clearedBalance: null,
+      finishedAt: null,
+      createdAt: new Date(),
+    };
+    this.reconciliations.set(id, reconciliation);
+    return reconciliation;
+  }
+  
+  async updateReconciliation(householdId: number, id: number, reconciliation: Partial<Reconciliation>): Promise<Reconciliation | undefined> {
+    const existingReconciliation = await this.getReconciliationById(householdId, id);
+    if (!existingReconciliation) return undefined;
+    
+    const updatedReconciliation = { ...existingReconciliation, ...reconciliation, id, householdId };
+    this.reconciliations.set(id, updatedReconciliation);
+    return updatedReconciliation;
+  }
+  
+  async finishReconciliation(householdId: number, id: number, clearedBalance: number): Promise<Reconciliation | undefined> {
+    const reconciliation = await this.getReconciliationById(householdId, id);
+    if (!reconciliation || reconciliation.finishedAt) return undefined;
+    
+    this.clearedEntries.forEach(entry => {
+      if (entry.accountId === reconciliation.accountId && entry.reconciliationId === null &&
+          entry.occurrenceDate <= reconciliation.statementDate) {
+        entry.reconciliationId = id;
+      }
+    });
+    return this.updateReconciliation(householdId, id, { clearedBalance, finishedAt: new Date() });
+  }
+  
+  async deleteReconciliation(householdId: number, id: number): Promise<boolean> {
+    if (!await this.getReconciliationById(householdId, id)) return false;
+    
+    // Mirror the ON DELETE SET NULL of the database schema
+    this.clearedEntries.forEach(entry => {
+      if (entry.reconciliationId === id) entry.reconciliationId = null;
+    });
+    return this.reconciliations.delete(id);
+  }
+  
+  async getClearedEntries(householdId: number, filter: { accountId?: number; transactionId?: number } = {}): Promise<ClearedEntry[]> {
+    return Array.from(this.clearedEntries.values()).filter(entry =>
+      this.accounts.get(entry.accountId)?.householdId === householdId &&
+      (filter.accountId === undefined || entry.accountId === filter.accountId) &&
+      (filter.transactionId === undefined || entry.transactionId === filter.transactionId)
+    );
+  }
+  
+  async createClearedEntry(householdId: number, insertEntry: InsertClearedEntry): Promise<ClearedEntry | undefined> {
+    if (!await this.getAccountById(householdId, insertEntry.accountId) ||
+        !this.isHouseholdTransaction(householdId, insertEntry.transactionId)) {
+      return undefined;
+    }
+    
+    const id = this.clearedEntryId++;
+    const entry: ClearedEntry = {
+      id,
+      accountId: insertEntry.accountId,
+      transactionId: insertEntry.transactionId,
+      occurrenceDate: insertEntry.occurrenceDate,
+      reconciliationId: insertEntry.reconciliationId ?? null,
+      clearedAt: new Date(),
+    };
+    this.clearedEntries.set(id, entry);
+    return entry;
+  }
+  
+  async deleteClearedEntry(householdId: number, accountId: number, transactionId: number, occurrenceDate: string): Promise<boolean> {
+    const existing = (await this.getClearedEntries(householdId, { accountId, transactionId }))
+      .find(entry => entry.occurrenceDate === occurrenceDate);
+    if (!existing) return false;
+    return this.clearedEntries.delete(existing.id);
+  }
+  
+  // Occurrence override operations
+  private isHouseholdTransaction(householdId: number, transactionId: number): boolean {
+    return this.transactions.get(transactionId)?.householdId === householdId;
+  }
+  
+  async getTransactionOccurrences(householdId: number, transactionId?: number): Promise<TransactionOccurrence[]> {
+    const allOccurrences = Array.from(this.occurrences.values()).filter(
+      occurrence => this.isHouseholdTransaction(householdId, occurrence.transactionId)
+    );
+    if (transactionId === undefined) return allOccurrences;
+    return allOccurrences.filter(occurrence => occurrence.transactionId === transactionId);
+  }
+  
+  async getTransactionOccurrencesByDateRange(householdId: number, startDate: string, endDate: string): Promise<TransactionOccurrence[]> {
+    // ISO date strings compare correctly as plain strings
+    return Array.from(this.occurrences.values()).filter(occurrence =>
+      this.isHouseholdTransaction(householdId, occurrence.transactionId) &&
+      occurrence.occurrenceDate >= startDate && occurrence.occurrenceDate <= endDate
+    );
+  }
+  
+  async upsertTransactionOccurrence(householdId: number, insertOccurrence: InsertTransactionOccurrence): Promise<TransactionOccurrence | undefined> {
+    if (!this.isHouseholdTransaction(householdId, insertOccurrence.transactionId)) return undefined;
+    
+    const existing = Array.from(this.occurrences.values()).find(occurrence =>
+      occurrence.transactionId === insertOccurrence.transactionId &&
+      occurrence.occurrenceDate === insertOccurrence.occurrenceDate
+    );
+    
+    const occurrence: TransactionOccurrence = {
+      id: existing?.id ?? this.occurrenceId++,
+      transactionId: insertOccurrence.transactionId,
+      occurrenceDate: insertOccurrence.occurrenceDate,
+      isSkipped: insertOccurrence.isSkipped ?? existing?.isSkipped ?? false,
+      isPaid: insertOccurrence.isPaid !== undefined ? insertOccurrence.isPaid : existing?.isPaid ?? null,
+      amountOverride: insertOccurrence.amountOverride !== undefined ? insertOccurrence.amountOverride : existing?.amountOverride ?? null,
+      note: insertOccurrence.note !== undefined ? insertOccurrence.note : existing?.note ?? null,
+      titleOverride: insertOccurrence.titleOverride !== undefined ? insertOccurrence.titleOverride : existing?.titleOverride ?? null,
+      categoryIdOverride: insertOccurrence.categoryIdOverride !== undefined ? insertOccurrence.categoryIdOverride : existing?.categoryIdOverride ?? null,
+      personLabelOverride: insertOccurrence.personLabelOverride !== undefined ? insertOccurrence.personLabelOverride : existing?.personLabelOverride ?? null,
+      updatedAt: new Date(),
+    };
+    this.occurrences.set(occurrence.id, occurrence);
+    return occurrence;
+  }
+  
+  async deleteTransactionOccurrence(householdId: number, transactionId: number, occurrenceDate: string): Promise<boolean> {
+    if (!this.isHouseholdTransaction(householdId, transactionId)) return false;
+    
+    const existing = Array.from(this.occurrences.values()).find(occurrence =>
+      occurrence.transactionId === transactionId && occurrence.occurrenceDate === occurrenceDate
+    );
+    if (!existing) return false;
+    return this.occurrences.delete(existing.id);
+  }
+  
+  // Split line operations
+  async getTransactionLines(householdId: number, transactionId?: number): Promise<TransactionLine[]> {
+    return Array.from(this.transactionLines.values())
+      .filter(line =>
+        this.isHouseholdTransaction(householdId, line.transactionId) &&
+        (transactionId === undefined || line.transactionId === transactionId)
+      )
+      .sort((a, b) => a.transactionId - b.transactionId || a.position - b.position);
+  }
+  
+  async setTransactionLines(householdId: number, transactionId: number, lines: InsertTransactionLine[]): Promise<TransactionLine[] | undefined> {
+    if (!this.isHouseholdTransaction(householdId, transactionId)) return undefined;
+    
+    Array.from(this.transactionLines.values())
+      .filter(line => line.transactionId === transactionId)
+      .forEach(line => this.transactionLines.delete(line.id));
+    
+    return lines.map((insertLine, position) => {
+      const line: TransactionLine = {
+        id: this.transactionLineId++,
+        transactionId,
+        position,
+        amount: insertLine.amount,
+        categoryId: insertLine.categoryId,
+        personLabel: insertLine.personLabel,
+        note: insertLine.note ?? null,
+      };
+      this.transactionLines.set(line.id, line);
+      return line;
+    });
+  }
+  
+  // Tag operations
+  async getTags(householdId: number): Promise<Tag[]> {
+    return Array.from(this.tags.values())
+      .filter(tag => tag.householdId === householdId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getTransactionTags(householdId: number, transactionId?: number): Promise<TransactionTag[]> {
+    return Array.from(this.transactionTags.values())
+      .filter(link =>
+        this.isHouseholdTransaction(householdId, link.transactionId) &&
+        (transactionId === undefined || link.transactionId === transactionId)
+      )
+      .sort((a, b) => a.transactionId - b.transactionId || a.id - b.id);
+  }
+  
+  async setTransactionTags(householdId: number, transactionId: number, names: string[]): Promise<Tag[] | undefined> {
+    if (!this.isHouseholdTransaction(householdId, transactionId)) return undefined;
+    
+    Array.from(this.transactionTags.values())
+      .filter(link => link.transactionId === transactionId)
+      .forEach(link => this.transactionTags.delete(link.id));
+    
+    return names.map(name => {
+      let tag = Array.from(this.tags.values()).find(t => t.householdId === householdId && t.name === name);
+      if (!tag) {
+        tag = { id: this.tagId++, householdId, name, createdAt: new Date() };
+        this.tags.set(tag.id, tag);
+      }
+      const link: TransactionTag = { id: this.transactionTagId++, transactionId, tagId: tag.id };
+      this.transactionTags.set(link.id, link);
+      return tag;
+    });
+  }
+  
+  async deleteTag(householdId: number, id: number): Promise<boolean> {
+    const tag = this.tags.get(id);
+    if (!tag || tag.householdId !== householdId) return false;
+    
+    // Mirror the ON DELETE CASCADE of the database schema
+    Array.from(this.transactionTags.values())
+      .filter(link => link.tagId === id)
+      .forEach(link => this.transactionTags.delete(link.id));
+    return this.tags.delete(id);
+  }
+  
+  // Subscription operations
+  async getSubscriptions(householdId: number): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values()).filter(
+      subscription => subscription.householdId === householdId
+    );
+  }
+  
+  async getSubscriptionById(householdId: number, id: number): Promise<Subscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    return subscription?.householdId === householdId ? subscription : undefined;
+  }
+  
+  async createSubscription(householdId: number, newSubscription: NewSubscription): Promise<Subscription | undefined> {
+    if (!this.isHouseholdTransaction(householdId, newSubscription.transactionId)) return undefined;
+    
+    const subscription: Subscription = {
+      id: this.subscriptionId++,
+      householdId,
+      transactionId: newSubscription.transactionId,
+      trialEndsAt: newSubscription.trialEndsAt ?? null,
+      remindDaysBefore: newSubscription.remindDaysBefore ?? null,
+      createdAt: new Date(),
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+  
+  async updateSubscription(householdId: number, id: number, subscription: Partial<Subscription>): Promise<Subscription | undefined> {
+    const existingSubscription = await this.getSubscriptionById(householdId, id);
+    if (!existingSubscription) return undefined;
+    
+    const updatedSubscription = { ...existingSubscription, ...subscription, id, householdId };
+    this.subscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+  
+  async deleteSubscription(householdId: number, id: number): Promise<boolean> {
+    if (!await this.getSubscriptionById(householdId, id)) return false;
+    
+    // Mirror the ON DELETE CASCADE of the database schema
+    Array.from(this.subscriptionPriceChanges.values())
+      .filter(change => change.subscriptionId === id)
+      .forEach(change => this.subscriptionPriceChanges.delete(change.id));
+    return this.subscriptions.delete(id);
+  }
+  
+  async getSubscriptionPriceChanges(householdId: number, subscriptionId?: number): Promise<SubscriptionPriceChange[]> {
+    return Array.from(this.subscriptionPriceChanges.values())
+      .filter(change =>
+        this.subscriptions.get(change.subscriptionId)?.householdId === householdId &&
+        (subscriptionId === undefined || change.subscriptionId === subscriptionId)
+      )
+      .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.id - a.id);
+  }
+  
+  async createSubscriptionPriceChange(householdId: number, insertChange: InsertSubscriptionPriceChange): Promise<SubscriptionPriceChange | undefined> {
+    if (!await this.getSubscriptionById(householdId, insertChange.subscriptionId)) return undefined;
+    
+    const change: SubscriptionPriceChange = {
+      ...insertChange,
+      id: this.subscriptionPriceChangeId++,
+      createdAt: new Date(),
+    };
+    this.subscriptionPriceChanges.set(change.id, change);
+    return change;
+  }
+  
+  // Import profile operations
+  async getImportProfiles(householdId: number): Promise<ImportProfile[]> {
+    return Array.from(this.importProfiles.values()).filter(
+      (profile) => profile.householdId === householdId
+    );
+  }
+  
+  async getImportProfileById(householdId: number, id: number): Promise<ImportProfile | undefined> {
+    const profile = this.importProfiles.get(id);
+    return profile && profile.householdId === householdId ? profile : undefined;
+  }
+  
+  async createImportProfile(householdId: number, insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const id = this.importProfileId++;
+    const profile: ImportProfile = {
+      id,
+      householdId,
+      name: insertProfile.name,
+      delimiter: insertProfile.delimiter,
+      dateColumn: insertProfile.dateColumn,
+      dateFormat: insertProfile.dateFormat,
+      amountColumn: insertProfile.amountColumn,
+      titleColumn: insertProfile.titleColumn,
+      notesColumn: insertProfile.notesColumn || null,
+      decimalSeparator: insertProfile.decimalSeparator,
+    };
+    this.importProfiles.set(id, profile);
+    return profile;
+  }
+  
+  async updateImportProfile(householdId: number, id: number, profile: Partial<ImportProfile>): Promise<ImportProfile | undefined> {
+    const existingProfile = await this.getImportProfileById(householdId, id);
+    if (!existingProfile) return undefined;
+    
+    const updatedProfile = { ...existingProfile, ...profile, id, householdId };
+    this.importProfiles.set(id, updatedProfile);
+    return updatedProfile;
+  }
+  
+  async deleteImportProfile(householdId: number, id: number): Promise<boolean> {
+    if (!await this.getImportProfileById(householdId, id)) return false;
+    return this.importProfiles.delete(id);
+  }
+  
+  // Transaction rule operations
+  async getTransactionRules(householdId: number): Promise<TransactionRule[]> {
+    return Array.from(this.transactionRules.values())
+      .filter(rule => rule.householdId === householdId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+  
+  async getTransactionRuleById(householdId: number, id: number): Promise<TransactionRule | undefined> {
+    const rule = this.transactionRules.get(id);
+    return rule?.householdId === householdId ? rule : undefined;
+  }
+  
+  async createTransactionRule(householdId: number, insertRule: InsertTransactionRule): Promise<TransactionRule> {
+    const id = this.transactionRuleId++;
+    const rule: TransactionRule = {
+      id,
+      householdId,
+      name: insertRule.name,
+      position: insertRule.position ?? (await this.getTransactionRules(householdId)).length,
+      isEnabled: insertRule.isEnabled,
+      titlePattern: insertRule.titlePattern ?? null,
+      minAmount: insertRule.minAmount ?? null,
+      maxAmount: insertRule.maxAmount ?? null,
+      categoryId: insertRule.categoryId ?? null,
+      personLabel: insertRule.personLabel ?? null,
+      dateFrom: insertRule.dateFrom ?? null,
+      dateTo: insertRule.dateTo ?? null,
+      hide: insertRule.hide,
+      setTitle: insertRule.setTitle ?? null,
+      setCategoryId: insertRule.setCategoryId ?? null,
+      setPersonLabel: insertRule.setPersonLabel ?? null,
+      setAmount: insertRule.setAmount ?? null,
+      markPaid: insertRule.markPaid,
+      createdAt: new Date(),
+    };
+    this.transactionRules.set(id, rule);
+    return rule;
+  }
+  
+  async updateTransactionRule(householdId: number, id: number, rule: Partial<TransactionRule>): Promise<TransactionRule | undefined> {
+    const existingRule = await this.getTransactionRuleById(householdId, id);
+    if (!existingRule) return undefined;
+    
+    const updatedRule = { ...existingRule, ...rule, id, householdId };
+    this.transactionRules.set(id, updatedRule);
+    return updatedRule;
+  }
+  
+  async deleteTransactionRule(householdId: number, id: number): Promise<boolean> {
+    if (!await this.getTransactionRuleById(householdId, id)) return false;
+    return this.transactionRules.delete(id);
+  }
+  
+  // Audit log operations
+  async getAuditEntries(householdId: number, query: AuditQuery): Promise<AuditEntryWithUser[]> {
+    const from = query.from ? new Date(`${query.from}T00:00:00`) : undefined;
+    const to = query.to ? new Date(`${query.to}T23:59:59.999`) : undefined;
+    
+    return Array.from(this.auditEntries.values())
+      .filter(entry =>
+        entry.householdId === householdId &&
+        (!query.entity || query.entity.includes(entry.entity as AuditEntity)) &&
+        (query.entityId === undefined || entry.entityId === query.entityId) &&
+        (!query.action || entry.action === query.action) &&
+        (query.userId === undefined || entry.userId === query.userId) &&
+        (!from || entry.createdAt >= from) &&
+        (!to || entry.createdAt <= to)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit)
+      .map(entry => ({ ...entry, username: entry.userId !== null ? this.users.get(entry.userId)?.username ?? null : null }));
+  }
+  
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const id = this.auditEntryId++;
+    const entry: AuditEntry = { ...insertEntry, id, createdAt: new Date() };
+    this.auditEntries.set(id, entry);
+    return entry;
+  }
+  
+  // Trash operations
+  async purgeDeletedItems(deletedBefore: Date): Promise<PurgedItems> {
+    return this.purgeTrash(row => !!row.deletedAt && row.deletedAt < deletedBefore);
+  }
+  
+  async emptyTrash(householdId: number): Promise<PurgedItems> {
+    return this.purgeTrash(row => row.householdId === householdId && !!row.deletedAt);
+  }
+  
+  private purgeTrash(isExpired: (row: { householdId: number; deletedAt: Date | null }) => boolean): PurgedItems {
+    const purged: PurgedItems = { transactions: [], categories: [], savings: [] };
+    
+    this.transactions.forEach(transaction => {
+      if (!isExpired(transaction)) return;
+      // Mirror the ON DELETE CASCADE of the database schema
+      Array.from(this.occurrences.values())
+        .filter(occurrence => occurrence.transactionId === transaction.id)
+        .forEach(occurrence => this.occurrences.delete(occurrence.id));
+      Array.from(this.clearedEntries.values())
+        .filter(entry => entry.transactionId === transaction.id)
+        .forEach(entry => this.clearedEntries.delete(entry.id));
+      Array.from(this.transactionLines.values())
+        .filter(line => line.transactionId === transaction.id)
+        .forEach(line => this.transactionLines.delete(line.id));
+      Array.from(this.transactionTags.values())
+        .filter(link => link.transactionId === transaction.id)
+        .forEach(link => this.transactionTags.delete(link.id));
+      Array.from(this.subscriptions.values())
+        .filter(subscription => subscription.transactionId === transaction.id)
+        .forEach(subscription => {
+          Array.from(this.subscriptionPriceChanges.values())
+            .filter(change => change.subscriptionId === subscription.id)
+            .forEach(change => this.subscriptionPriceChanges.delete(change.id));
+          this.subscriptions.delete(subscription.id);
+        });
+      this.transactions.delete(transaction.id);
+      purged.transactions.push(transaction);
+    });
+    
+    this.savings.forEach(savingsEntry => {
+      if (!isExpired(savingsEntry)) return;
+      this.savings.delete(savingsEntry.id);
+      purged.savings.push(savingsEntry);
+    });
+    
+    this.categories.forEach(category => {
+      if (!isExpired(category)) return;
+      // Mirror the ON DELETE CASCADE / SET NULL of the database schema
+      Array.from(this.categoryBudgetOverrides.values())
+        .filter(override => override.categoryId === category.id)
+        .forEach(override => this.categoryBudgetOverrides.delete(override.id));
+      Array.from(this.transactions.values())
+        .filter(transaction => transaction.categoryId === category.id)
+        .forEach(transaction => this.transactions.set(transaction.id, { ...transaction, categoryId: null }));
+      Array.from(this.occurrences.values())
+        .filter(occurrence => occurrence.categoryIdOverride === category.id)
+        .forEach(occurrence => this.occurrences.set(occurrence.id, { ...occurrence, categoryIdOverride: null }));
+      Array.from(this.transactionLines.values())
+        .filter(line => line.categoryId === category.id)
+        .forEach(line => this.transactionLines.set(line.id, { ...line, categoryId: null }));
+      Array.from(this.transactionRules.values())
+        .filter(rule => rule.categoryId === category.id)
+        .forEach(rule => this.transactionRules.delete(rule.id));
+      Array.from(this.transactionRules.values())
+        .filter(rule => rule.setCategoryId === category.id)
+        .forEach(rule => this.transactionRules.set(rule.id, { ...rule, setCategoryId: null }));
+      this.categories.delete(category.id);
+      purged.categories.push(category);
+    });
+    
+    return purged;
+  }
+  
+  async runInTransaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    // Everything is kept in the fields, so a copy of them is enough to roll back
+    const fields = this as unknown as Record<string, unknown>;
+    const snapshot = new Map(Object.keys(fields)
+      .filter(key => key !== "sessionStore")
+      .map(key => [key, structuredClone(fields[key])]));
+    try {
+      return await work(this);
+    } catch (error) {
+      snapshot.forEach((value, key) => {
+        fields[key] = value;
+      });
+      throw error;
+    }
+  }
+  
+  // Exchange rate operations
+  async getExchangeRates(currency?: string, startDate?: string, endDate?: string): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRates.values())
+      .filter(rate =>
+        (!currency || rate.currency === currency) &&
+        (!startDate || rate.date >= startDate) &&
+        (!endDate || rate.date <= endDate)
+      )
+      .sort((a, b) => a.date.localeCompare(b.date) || a.currency.localeCompare(b.currency));
+  }
+  
+  async findExchangeRate(currency: string, onOrBefore: string): Promise<ExchangeRate | undefined> {
+    const rates = await this.getExchangeRates(currency, undefined, onOrBefore);
+    return rates[rates.length - 1];
+  }
+  
+  async getExchangeRateCurrencies(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.exchangeRates.values()).map(rate => rate.currency))).sort();
+  }
+  
+  async upsertExchangeRates(rates: InsertExchangeRate[]): Promise<number> {
+    for (const rate of rates) {
+      const existing = Array.from(this.exchangeRates.values()).find(
+        r => r.currency === rate.currency && r.date === rate.date
+      );
+      const id = existing?.id ?? this.exchangeRateId++;
+      this.exchangeRates.set(id, { id, ...rate });
+    }
+    return rates.length;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  // The transaction's connection inside runInTransaction()
+  private db: typeof db = db;
+
+  constructor() {
+    const PostgresStore = connectPg(session);
+    this.sessionStore = new PostgresStore({
+      pool,
+      tableName: 'session',
+      createTableIfMissing: true
+    });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  // Direct SQL update function for special cases
+  async updateTransactionDirect(householdId: number, id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined> {
+    try {
+      // This is a special method that bypasses the normal validation and directly updates
+      // the transaction with the exact values provided, used for special problematic transactions
+      console.log(`[DIRECT] Performing direct update for transaction ${id} with data:`, transaction);
+      
+      // Extract the fields we want to update
+      const updateData: Partial<Transaction> = {};
+      
+      // Only copy the fields we want to update
+      if (transaction.amount !== undefined) updateData.amount = transaction.amount;
+      if (transaction.title !== undefined) updateData.title = transaction.title;
+      if (transaction.date !== undefined) updateData.date = transaction.date;
+      if (transaction.notes !== undefined) updateData.notes = transaction.notes;
+      if (transaction.categoryId !== undefined) updateData.categoryId = transaction.categoryId;
+      if (transaction.personLabel !== undefined) updateData.personLabel = transaction.personLabel;
+      if (transaction.isExpense !== undefined) updateData.isExpense = transaction.isExpense;
+      if (transaction.isRecurring !== undefined) updateData.isRecurring = transaction.isRecurring;
+      if (transaction.recurringInterval !== undefined) updateData.recurringInterval = transaction.recurringInterval;
+      if (transaction.recurringEndDate !== undefined) updateData.recurringEndDate = transaction.recurringEndDate;
+      if (transaction.recurrenceRule !== undefined) updateData.recurrenceRule = transaction.recurrenceRule;
+      if (transaction.recurrenceShift !== undefined) updateData.recurrenceShift = transaction.recurrenceShift;
+      if (transaction.isPaid !== undefined) updateData.isPaid = transaction.isPaid;
+      if (transaction.originalAmount !== undefined) updateData.originalAmount = transaction.originalAmount;
+      if (transaction.originalCurrency !== undefined) updateData.originalCurrency = transaction.originalCurrency;
+      if (transaction.exchangeRate !== undefined) updateData.exchangeRate = transaction.exchangeRate;
+      if (transaction.rateDate !== undefined) updateData.rateDate = transaction.rateDate;
+      if (transaction.accountId !== undefined) updateData.accountId = transaction.accountId;
+      if (transaction.paidBy !== undefined) updateData.paidBy = transaction.paidBy;
+      
+      console.log(`[DIRECT] Final update data:`, updateData);
+      
+      // Perform the update
+      const [updatedTransaction] = await this.db.update(transactions)
+        .set(updateData)
+        .where(and(eq(transactions.id, id), eq(transactions.householdId, householdId)))
+        .returning();
+      
+      console.log(`[DIRECT] Update result:`, updatedTransaction);
+      
+      return updatedTransaction;
+    } catch (error) {
+      console.error(`[DIRECT] Error in direct update:`, error);
+      throw error;
+    }
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  // Household operations
+  async getHousehold(id: number): Promise<Household | undefined> {
+    const [household] = await this.db.select().from(households).where(eq(households.id, id));
+    return household;
+  }
+  
+  async getHouseholdsForUser(userId: number): Promise<HouseholdMembership[]> {
+    const rows: { household: Household; role: string }[] = await this.db.select({ household: households, role: householdMembers.role })
+      .from(householdMembers)
+      .innerJoin(households, eq(householdMembers.householdId, households.id))
+      .where(eq(householdMembers.userId, userId))
+      .orderBy(households.id);
+    
+    return rows.map(row => ({ household: row.household, role: row.role as HouseholdRole }));
+  }
+  
+  async createHousehold(insertHousehold: InsertHousehold, ownerUserId: number): Promise<Household> {
+    const [household] = await this.db.insert(households).values(insertHousehold).returning();
+    await this.addHouseholdMember(household.id, ownerUserId, "owner");
+    await initializeDatabase(household.id);
+    return household;
+  }
+  
+  async getHouseholdMembers(householdId: number): Promise<(HouseholdMember & { username: string })[]> {
+    const rows: { member: HouseholdMember; username: string }[] = await this.db.select({ member: householdMembers, username: users.username })
+      .from(householdMembers)
+      .innerJoin(users, eq(householdMembers.userId, users.id))
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(householdMembers.id);
+    
+    return rows.map(row => ({ ...row.member, username: row.username }));
+  }
+  
+  async getHouseholdMember(householdId: number, userId: number): Promise<HouseholdMember | undefined> {
+    const [member] = await this.db.select().from(householdMembers).where(and(
+      eq(householdMembers.householdId, householdId),
+      eq(householdMembers.userId, userId)
+    ));
+    return member;
+  }
+  
+  async addHouseholdMember(householdId: number, userId: number, role: HouseholdRole): Promise<HouseholdMember> {
+    const [member] = await this.db.insert(householdMembers)
+      .values({ householdId, userId, role })
+      .onConflictDoUpdate({
+        target: [householdMembers.householdId, householdMembers.userId],
+        set: { role },
+      })
+      .returning();
+    
+    return member;
+  }
+  
+  async updateHouseholdMemberRole(householdId: number, userId: number, role: HouseholdRole): Promise<HouseholdMember | undefined> {
+    const [member] = await this.db.update(householdMembers)
+      .set({ role })
+      .where(and(
+        eq(householdMembers.householdId, householdId),
+        eq(householdMembers.userId, userId)
+      ))
+      .returning();
+    
+    return member;
+  }
+  
+  async removeHouseholdMember(householdId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(householdMembers)
+      .where(and(
+        eq(householdMembers.householdId, householdId),
+        eq(householdMembers.userId, userId)
+      ))
+      .returning({ id: householdMembers.id });
+    
+    return deleted.length > 0;
+  }
+  
+  // Transaction operations
+  async getTransactions(householdId: number): Promise<Transaction[]> {
+    // Use Supabase client if db is not available
+    if (!this.db) {
+      console.log('[STORAGE] Using Supabase client to fetch transactions');
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('household_id', householdId)
+        .is('deleted_at', null)
+        .order('date', { ascending: true });
+
+      console.log('[STORAGE] Supabase response - data:', data?.length || 0, 'error:', error);
+
+      if (error) throw error;
+
+      const allTransactions = (data || []).map(t => ({
+        ...t,
+        date: new Date(t.date),
+        recurringEndDate: t.recurring_end_date ? new Date(t.recurring_end_date) : null,
+        isExpense: t.is_expense,
+        categoryId: t.category_id,
+        personLabel: t.person_label,
+        isRecurring: t.is_recurring,
+        recurringInterval: t.recurring_interval,
+        recurrenceRule: t.recurrence_rule,
+        recurrenceShift: t.recurrence_shift,
+        isPaid: t.is_paid,
+        householdId: t.household_id,
+        originalAmount: t.original_amount,
+        originalCurrency: t.original_currency,
+        exchangeRate: t.exchange_rate,
+        rateDate: t.rate_date,
+        accountId: t.account_id,
+        transferAccountId: t.transfer_account_id,
+        paidBy: t.paid_by,
+        deletedAt: t.deleted_at ? new Date(t.deleted_at) : null
+      })) as Transaction[];
+
+      console.log('[STORAGE] Mapped transactions:', allTransactions.length);
+      return allTransactions;
+    }
+
+    // Get all of the household's transactions from the database
+    return await this.db.select().from(transactions)
+      .where(and(eq(transactions.householdId, householdId), isNull(transactions.deletedAt)));
+  }
+  
+  async getRecurringTransactions(householdId: number): Promise<Transaction[]> {
+    // Use Supabase client if db is not available
+    if (!this.db) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('household_id', householdId)
+        .eq('is_recurring', true)
+        .is('deleted_at', null)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+
+      const recurringTransactions = (data || []).map(t => ({
+        ...t,
+        date: new Date(t.date),
+        recurringEndDate: t.recurring_end_date ? new Date(t.recurring_end_date) : null,
+        isExpense: t.is_expense,
+        categoryId: t.category_id,
+        personLabel: t.person_label,
+        isRecurring: t.is_recurring,
+        recurringInterval: t.recurring_interval,
+        recurrenceRule: t.recurrence_rule,
+        recurrenceShift: t.recurrence_shift,
+        isPaid: t.is_paid,
+        householdId: t.household_id,
+        originalAmount: t.original_amount,
+        originalCurrency: t.original_currency,
+        exchangeRate: t.exchange_rate,
+        rateDate: t.rate_date,
+        accountId: t.account_id,
+        transferAccountId: t.transfer_account_id,
+        paidBy: t.paid_by,
+        deletedAt: t.deleted_at ? new Date(t.deleted_at) : null
+      })) as Transaction[];
+
+      return recurringTransactions;
+    }
+
+    // Get all recurring transactions
+    return await this.db.select().from(transactions)
+      .where(and(
+        eq(transactions.householdId, householdId),
+        eq(transactions.isRecurring, true),
+        isNull(transactions.deletedAt)
+      ));
+  }
+  
+  async getTransactionById(householdId: number, id: number): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.householdId, householdId), isNull(transactions.deletedAt)));
+    return transaction;
+  }
+  
+  async getTransactionsByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<Transaction[]> {
+    // Get transactions in date range, and recurring series running during it
+    return await this.db.select().from(transactions).where(and(
+      eq(transactions.householdId, householdId),
+      isNull(transactions.deletedAt),
+      or(
+        between(transactions.date, startDate, endDate),
+        and(
+          eq(transactions.isRecurring, true),
+          lte(transactions.date, endDate),
+          or(isNull(transactions.recurringEndDate), gte(transactions.recurringEndDate, startDate))
+        )
+      )
+    ));
+  }
+  
+  private transactionFilterConditions(householdId: number, filter: TransactionFilter): SQL[] {
+    const { from, to, isExpense, isRecurring, isPaid, categoryId, personLabel } = filter;
+    const conditions: SQL[] = [
+      eq(transactions.householdId, householdId),
+      isNull(transactions.deletedAt),
+      isNull(transactions.transferAccountId),
+    ];
+    
+    if (from && to) {
+      conditions.push(or(
+        between(transactions.date, from, to),
+        and(
+          eq(transactions.isRecurring, true),
+          lte(transactions.date, to),
+          or(isNull(transactions.recurringEndDate), gte(transactions.recurringEndDate, from))
+        )
+      )!);
+    }
+    if (isExpense !== undefined) conditions.push(eq(transactions.isExpense, isExpense));
+    if (isRecurring !== undefined) {
+      conditions.push(isRecurring ? eq(transactions.isRecurring, true) : or(eq(transactions.isRecurring, false), isNull(transactions.isRecurring))!);
+    }
+    if (categoryId !== undefined) {
+      conditions.push(or(
+        eq(transactions.categoryId, categoryId),
+        inArray(transactions.id, this.db.select({ id: transactionLines.transactionId }).from(transactionLines)
+          .where(eq(transactionLines.categoryId, categoryId)))
+      )!);
+    }
+    if (isPaid !== undefined) conditions.push(sql`coalesce(${transactions.isPaid}, false) = ${isPaid}`);
+    if (personLabel !== undefined) {
+      const label = personLabel.toLowerCase();
+      conditions.push(or(
+        sql`lower(${transactions.personLabel}) = ${label}`,
+        inArray(transactions.id, this.db.select({ id: transactionLines.transactionId }).from(transactionLines)
+          .where(sql`lower(${transactionLines.personLabel}) = ${label}`))
+      )!);
+    }
+    return conditions;
+  }
+  
+  async findTransactions(householdId: number, filter: TransactionFilter, after?: TransactionCursor, limit?: number): Promise<Transaction[]> {
+    const conditions = this.transactionFilterConditions(householdId, filter);
+    if (after) {
+      conditions.push(or(
+        gt(transactions.date, after.date),
+        and(eq(transactions.date, after.date), gt(transactions.id, after.id))
+      )!);
+    }
+    
+    const query = this.db.select().from(transactions)
+      .where(and(...conditions))
+      .orderBy(asc(transactions.date), asc(transactions.id));
+    return await (limit !== undefined ? query.limit(limit) : query);
+  }
+  
+  async countTransactions(householdId: number, filter: TransactionFilter): Promise<number> {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` }).from(transactions)
+      .where(and(...this.transactionFilterConditions(householdId, filter)));
+    return count;
+  }
+  
+  // The row of a new transaction, with the optional fields defaulted
+  private transactionValues(householdId: number, insertTransaction: NewTransaction) {
+    return {
+      householdId,
+      title: insertTransaction.title,
+      amount: insertTransaction.amount,
+      date: insertTransaction.date,
+      notes: insertTransaction.notes || null,
+      isExpense: insertTransaction.isExpense,
+      categoryId: insertTransaction.categoryId || null,
+      personLabel: insertTransaction.personLabel || null,
+      isRecurring: insertTransaction.isRecurring || false,
+      recurringInterval: insertTransaction.recurringInterval || null,
+      recurringEndDate: insertTransaction.recurringEndDate || null,
+      recurrenceRule: insertTransaction.recurrenceRule || null,
+      recurrenceShift: insertTransaction.recurrenceShift || null,
+      isPaid: insertTransaction.isPaid || false,
+      originalAmount: insertTransaction.originalAmount ?? null,
+      originalCurrency: insertTransaction.originalCurrency || null,
+      exchangeRate: insertTransaction.exchangeRate ?? null,
+      rateDate: insertTransaction.rateDate || null,
+      accountId: insertTransaction.accountId ?? null,
+      transferAccountId: insertTransaction.transferAccountId ?? null,
+      paidBy: insertTransaction.paidBy || null
+    };
+  }
+  
+  async createTransaction(householdId: number, insertTransaction: NewTransaction): Promise<Transaction> {
+    const [transaction] = await this.db.insert(transactions).values(this.transactionValues(householdId, insertTransaction)).returning();
+    
+    return transaction;
+  }
+  
+  async createTransactions(householdId: number, insertTransactions: NewTransaction[]): Promise<Transaction[]> {
+    if (insertTransactions.length === 0) return [];
+    // One statement, so the rows go in together or not at all
+    return this.db.insert(transactions)
+      .values(insertTransactions.map(insertTransaction => this.transactionValues(householdId, insertTransaction)))
+      .returning();
+  }
+  
+  async updateTransaction(householdId: number, id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined> {
+    try {
+      console.log(`[DATABASE] Updating transaction ${id} with data:`, transaction);
+      
+      // Rows never move between households
+      delete transaction.householdId;
+      
+      const existingTransaction = await this.getTransactionById(householdId, id);
+      if (!existingTransaction) return undefined;
+      
+      // Normal processing for all transactions:
+      
+      // Pre-process amount to ensure it's a valid number
+      if (transaction.amount !== undefined) {
+        const amountValue = transaction.amount;
+        console.log(`[DATABASE] Processing amount: ${amountValue} (${typeof amountValue})`);
+        
+        if (typeof amountValue === 'string') {
+          try {
+            // Convert to string explicitly to ensure string methods are available
+            const amountStr = String(amountValue);
+            // Clean the string of any non-numeric characters except decimal point/separator
+            const cleanedAmount = amountStr.replace(/[^\d.,]/g, '').replace(/,/g, '.');
+            const parsedAmount = parseFloat(cleanedAmount);
+            
+            if (!isNaN(parsedAmount)) {
+              console.log(`[DATABASE] Converting string amount "${amountStr}" to number: ${parsedAmount}`);
+              transaction.amount = parsedAmount;
+            } else {
+              console.error(`[DATABASE] Could not parse amount: "${amountStr}"`);
+            }
+          } catch (error) {
+            console.error(`[DATABASE] Error processing amount string:`, error);
+          }
+        }
+        
+        // Ensure it's a valid number (not NaN or Infinity)
+        if (typeof transaction.amount === 'number') {
+          if (!isFinite(transaction.amount)) {
+            console.error(`[DATABASE] Invalid amount value: ${transaction.amount}`);
+            delete transaction.amount; // Remove invalid amount
+          } else {
+            console.log(`[DATABASE] Final amount to be saved: ${transaction.amount}`);
+          }
+        }
+      }
+      
+      // Ensure all date fields are proper Date objects
+      if (transaction.date && typeof transaction.date === 'string') {
+        transaction.date = new Date(transaction.date);
+      }
+      
+      if (transaction.recurringEndDate && typeof transaction.recurringEndDate === 'string') {
+        transaction.recurringEndDate = new Date(transaction.recurringEndDate);
+      }
+      
+      const [updatedTransaction] = await this.db.update(transactions)
+        .set(transaction)
+        .where(and(eq(transactions.id, id), eq(transactions.householdId, householdId)))
+        .returning();
+      
+      console.log(`[DATABASE] Update result:`, updatedTransaction);
+      return updatedTransaction;
+    } catch (error) {
+      console.error(`[DATABASE] Error updating transaction ${id}:`, error);
+      console.error(`[DATABASE] Error details:`, error);
+      throw error;
+    }
+  }
+  
+  async deleteTransaction(householdId: number, id: number): Promise<boolean> {
+    try {
+      console.log(`[DATABASE] Deleting transaction ${id}`);
+      
+      // Occurrence overrides stay with it, so a restore brings them back
+      const deleted = await this.db.update(transactions)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(transactions.id, id), eq(transactions.householdId, householdId), isNull(transactions.deletedAt)))
+        .returning({ id: transactions.id });
+      
+      return deleted.length > 0;
+    } catch (error) {
+      console.error(`[DATABASE] Error deleting transaction ${id}:`, error);
+      throw error;
+    }
+  }
+  
+  async getDeletedTransactions(householdId: number): Promise<Transaction[]> {
+    return await this.db.select().from(transactions)
+      .where(and(eq(transactions.householdId, householdId), isNotNull(transactions.deletedAt)))
+      .orderBy(desc(transactions.deletedAt));
+  }
+  
+  async restoreTransaction(householdId: number, id: number): Promise<Transaction | undefined> {
+    const [restored] = await this.db.update(transactions)
+      .set({ deletedAt: null })
+      .where(and(eq(transactions.id, id), eq(transactions.householdId, householdId), isNotNull(transactions.deletedAt)))
+      .returning();
+    
+    return restored;
+  }
+  
+  // Category operations
+  async getCategories(householdId: number): Promise<Category[]> {
+    // Use Supabase client if db is not available
+    if (!this.db) {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('household_id', householdId)
+        .is('deleted_at', null);
+
+      if (error) throw error;
+
+      return (data || []).map(c => ({
+        ...c,
+        isExpense: c.is_expense,
+        householdId: c.household_id,
+        monthlyBudget: c.monthly_budget,
+        budgetRollover: c.budget_rollover,
+        budgetStartMonth: c.budget_start_month,
+        deletedAt: c.deleted_at ? new Date(c.deleted_at) : null
+      })) as Category[];
+    }
+
+    return await this.db.select().from(categories)
+      .where(and(eq(categories.householdId, householdId), isNull(categories.deletedAt)));
+  }
+  
+  async getCategoryById(householdId: number, id: number): Promise<Category | undefined> {
+    const [category] = await this.db.select().from(categories)
+      .where(and(eq(categories.id, id), eq(categories.householdId, householdId), isNull(categories.deletedAt)));
+    return category;
+  }
+  
+  async createCategory(householdId: number, insertCategory: NewCategory): Promise<Category> {
+    const [category] = await this.db.insert(categories).values({ ...insertCategory, householdId }).returning();
+    return category;
+  }
+  
+  async updateCategory(householdId: number, id: number, category: Partial<Category>): Promise<Category | undefined> {
+    const { householdId: _ignored, ...changes } = category;
+    const [updatedCategory] = await this.db.update(categories)
+      .set(changes)
+      .where(and(eq(categories.id, id), eq(categories.householdId, householdId), isNull(categories.deletedAt)))
+      .returning();
+    
+    return updatedCategory;
+  }
+  
+  async deleteCategory(householdId: number, id: number): Promise<boolean> {
+    // Budget overrides stay with it, so a restore brings them back
+    const deleted = await this.db.update(categories)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(categories.id, id), eq(categories.householdId, householdId), isNull(categories.deletedAt)))
+      .returning({ id: categories.id });
+    
+    return deleted.length > 0;
+  }
+  
+  async getDeletedCategories(householdId: number): Promise<Category[]> {
+    return await this.db.select().from(categories)
+      .where(and(eq(categories.householdId, householdId), isNotNull(categories.deletedAt)))
+      .orderBy(desc(categories.deletedAt));
+  }
+  
+  async restoreCategory(householdId: number, id: number): Promise<Category | undefined> {
+    const [restored] = await this.db.update(categories)
+      .set({ deletedAt: null })
+      .where(and(eq(categories.id, id), eq(categories.householdId, householdId), isNotNull(categories.deletedAt)))
+      .returning();
+    
+    return restored;
+  }
+  
+  // Category budget override operations
+  // Overrides have no household column - they belong to the household of their category
+  async getCategoryBudgetOverrides(householdId: number, categoryId?: number): Promise<CategoryBudgetOverride[]> {
+    const conditions: SQL[] = [eq(categories.householdId, householdId)];
+    if (categoryId !== undefined) conditions.push(eq(categoryBudgetOverrides.categoryId, categoryId));
+    
+    const rows: { override: CategoryBudgetOverride }[] = await this.db.select({ override: categoryBudgetOverrides })
+      .from(categoryBudgetOverrides)
+      .innerJoin(categories, eq(categoryBudgetOverrides.categoryId, categories.id))
+      .where(and(...conditions));
+    
+    return rows.map(row => row.override);
+  }
+  
+  async upsertCategoryBudgetOverride(householdId: number, categoryId: number, month: string, amount: number): Promise<CategoryBudgetOverride | undefined> {
+    if (!await this.getCategoryById(householdId, categoryId)) return undefined;
+    
+    const [override] = await this.db.insert(categoryBudgetOverrides)
+      .values({ categoryId, month, amount })
+      .onConflictDoUpdate({
+        target: [categoryBudgetOverrides.categoryId, categoryBudgetOverrides.month],
+        set: { amount },
+      })
+      .returning();
+    
+    return override;
+  }
+  
+  async deleteCategoryBudgetOverride(householdId: number, categoryId: number, month: string): Promise<boolean> {
+    if (!await this.getCategoryById(householdId, categoryId)) return false;
+    
+    const deleted = await this.db.delete(categoryBudgetOverrides)
+      .where(and(
+        eq(categoryBudgetOverrides.categoryId, categoryId),
+        eq(categoryBudgetOverrides.month, month)
+      ))
+      .returning({ id: categoryBudgetOverrides.id });
+    
+    return deleted.length > 0;
+  }
+  
+  // Forecast settings operations
+  async getForecastSettings(householdId: number): Promise<ForecastSettings | undefined> {
+    const [settings] = await this.db.select().from(forecastSettings).where(eq(forecastSettings.householdId, householdId));
+    return settings;
+  }
+  
+  async upsertForecastSettings(householdId: number, settings: InsertForecastSettings): Promise<ForecastSettings> {
+    const [saved] = await this.db.insert(forecastSettings)
+      .values({ ...settings, householdId })
+      .onConflictDoUpdate({
+        target: forecastSettings.householdId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    
+    return saved;
+  }
+  
+  // Person operations
+  async getPeople(householdId: number): Promise<Person[]> {
+    // Use Supabase client if db is not available
+    if (!this.db) {
+      const { data, error } = await supabase
+        .from('people')
+        .select('*')
+        .eq('household_id', householdId)
+        .order('id', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(p => ({
+        ...p,
+        householdId: p.household_id,
+        isActive: p.is_active,
+        isShared: p.is_shared,
+        settlementShare: p.settlement_share
+      })) as Person[];
+    }
+
+    return await this.db.select().from(people)
+      .where(eq(people.householdId, householdId))
+      .orderBy(people.id);
+  }
+  
+  async getPersonById(householdId: number, id: number): Promise<Person | undefined> {
+    const [person] = await this.db.select().from(people)
+      .where(and(eq(people.id, id), eq(people.householdId, householdId)));
+    return person;
+  }
+  
+  async getPersonByName(householdId: number, name: string): Promise<Person | undefined> {
+    // Use Supabase client if db is not available
+    if (!this.db) {
+      const { data, error } = await supabase
+        .from('people')
+        .select('*')
+        .eq('household_id', householdId)
+        .eq('name', name)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? {
+        ...data,
+        householdId: data.household_id,
+        isActive: data.is_active,
+        isShared: data.is_shared,
+        settlementShare: data.settlement_share
+      } as Person : undefined;
+    }
+
+    const [person] = await this.db.select().from(people)
+      .where(and(eq(people.name, name), eq(people.householdId, householdId)));
+    return person;
+  }
+  
+  async createPerson(householdId: number, insertPerson: InsertPerson): Promise<Person> {
+    const [person] = await this.db.insert(people).values({ ...insertPerson, householdId }).returning();
+    return person;
+  }
+  
+  async updatePerson(householdId: number, id: number, person: Partial<Person>): Promise<Person | undefined> {
+    const existingPerson = await this.getPersonById(householdId, id);
+    if (!existingPerson) return undefined;
+    
+    const { householdId: _ignored, id: _id, ...changes } = person;
+    const [updatedPerson] = await this.db.update(people)
+      .set(changes)
+      .where(and(eq(people.id, id), eq(people.householdId, householdId)))
+      .returning();
+    
+    // Transactions, savings and settlement payments refer to people by name
+    if (updatedPerson.name !== existingPerson.name) {
+      await this.db.update(transactions)
+        .set({ personLabel: updatedPerson.name })
+        .where(and(eq(transactions.householdId, householdId), eq(transactions.personLabel, existingPerson.name)));
+      await this.db.update(transactions)
+        .set({ paidBy: updatedPerson.name })
+        .where(and(eq(transactions.householdId, householdId), eq(transactions.paidBy, existingPerson.name)));
+      await this.db.update(savings)
+        .set({ personLabel: updatedPerson.name })
+        .where(and(eq(savings.householdId, householdId), eq(savings.personLabel, existingPerson.name)));
+      await this.db.update(settlementPayments)
+        .set({ fromPerson: updatedPerson.name })
+        .where(and(eq(settlementPayments.householdId, householdId), eq(settlementPayments.fromPerson, existingPerson.name)));
+      await this.db.update(settlementPayments)
+        .set({ toPerson: updatedPerson.name })
+        .where(and(eq(settlementPayments.householdId, householdId), eq(settlementPayments.toPerson, existingPerson.name)));
+    }
+    
+    return updatedPerson;
+  }
+  
+  async deletePerson(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(people)
+      .where(and(eq(people.id, id), eq(people.householdId, householdId)))
+      .returning({ id: people.id });
+    
+    return deleted.length > 0;
+  }
+  
+  // Settlement operations
+  async getSettlementSettings(householdId: number): Promise<SettlementSettings | undefined> {
+    const [settings] = await this.db.select().from(settlementSettings).where(eq(settlementSettings.householdId, householdId));
+    return settings;
+  }
+  
+  async upsertSettlementSettings(householdId: number, settings: InsertSettlementSettings): Promise<SettlementSettings> {
+    const [saved] = await this.db.insert(settlementSettings)
+      .values({ ...settings, householdId })
+      .onConflictDoUpdate({
+        target: settlementSettings.householdId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    
+    return saved;
+  }
+  
+  async getSettlementPayments(householdId: number): Promise<SettlementPayment[]> {
+    return await this.db.select().from(settlementPayments)
+      .where(eq(settlementPayments.householdId, householdId))
+      .orderBy(desc(settlementPayments.date), desc(settlementPayments.id));
+  }
+  
+  async createSettlementPayment(householdId: number, insertPayment: InsertSettlementPayment): Promise<SettlementPayment> {
+    const [payment] = await this.db.insert(settlementPayments).values({
+      householdId,
+      fromPerson: insertPayment.fromPerson,
+      toPerson: insertPayment.toPerson,
+      amount: insertPayment.amount,
+      date: insertPayment.date,
+      note: insertPayment.note || null,
+    }).returning();
+    
+    return payment;
+  }
+  
+  async deleteSettlementPayment(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(settlementPayments)
+      .where(and(eq(settlementPayments.id, id), eq(settlementPayments.householdId, householdId)))
+      .returning({ id: settlementPayments.id });
+    
+    return deleted.length > 0;
+  }
+  
+  async getSettlementSplits(householdId: number): Promise<SettlementSplit[]> {
+    return await this.db.select().from(settlementSplits)
+      .where(eq(settlementSplits.householdId, householdId))
+      .orderBy(asc(settlementSplits.effectiveFrom));
+  }
+  
+  async saveSettlementSplit(householdId: number, split: InsertSettlementSplit): Promise<SettlementSplit> {
+    const [saved] = await this.db.insert(settlementSplits)
+      .values({ ...split, householdId })
+      .onConflictDoUpdate({
+        target: [settlementSplits.householdId, settlementSplits.effectiveFrom],
+        set: { splitMethod: split.splitMethod, participants: split.participants, createdAt: new Date() },
+      })
+      .returning();
+    
+    return saved;
+  }
+  
+  // Savings operations
+  async getSavings(householdId: number): Promise<Savings[]> {
+    // Use Supabase client if db is not available
+    if (!this.db) {
+      const { data, error } = await supabase
+        .from('savings')
+        .select('*')
+        .eq('household_id', householdId)
+        .is('deleted_at', null);
+
+      if (error) throw error;
+
+      return (data || []).map(s => ({
+        ...s,
+        date: new Date(s.date),
+        personLabel: s.person_label,
+        householdId: s.household_id,
+        goalId: s.goal_id,
+        accountId: s.account_id,
+        fromAccountId: s.from_account_id,
+        deletedAt: s.deleted_at ? new Date(s.deleted_at) : null
+      })) as Savings[];
+    }
+
+    return await this.db.select().from(savings)
+      .where(and(eq(savings.householdId, householdId), isNull(savings.deletedAt)));
+  }
+  
+  async getSavingsByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<Savings[]> {
+    return await this.db.select().from(savings).where(and(
+      eq(savings.householdId, householdId),
+      isNull(savings.deletedAt),
+      between(savings.date, startDate, endDate)
+    ));
+  }
+  
+  async createSavings(householdId: number, insertSavings: InsertSavings): Promise<Savings> {
+    const [savingsEntry] = await this.db.insert(savings).values({
+      householdId,
+      amount: insertSavings.amount,
+      date: insertSavings.date,
+      notes: insertSavings.notes || null,
+      personLabel: insertSavings.personLabel,
+      goalId: insertSavings.goalId ?? null,
+      accountId: insertSavings.accountId ?? null,
+      fromAccountId: insertSavings.fromAccountId ?? null,
+    }).returning();
+    
+    return savingsEntry;
+  }
+  
+  async createContribution(householdId: number, contribution: NewContribution): Promise<Savings | undefined> {
+    const [savingsEntry] = await this.db.insert(savings).values({
+      householdId,
+      amount: contribution.amount,
+      date: contribution.date,
+      notes: contribution.notes || null,
+      personLabel: contribution.personLabel,
+      goalId: contribution.goalId,
+      accountId: contribution.accountId ?? null,
+      fromAccountId: contribution.fromAccountId ?? null,
+      contributionDate: contribution.contributionDate,
+    }).onConflictDoNothing({ target: [savings.goalId, savings.contributionDate] }).returning();
+    
+    return savingsEntry;
+  }
+  
+  async deleteSavings(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.update(savings)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(savings.id, id), eq(savings.householdId, householdId), isNull(savings.deletedAt)))
+      .returning({ id: savings.id });
+    
+    return deleted.length > 0;
+  }
+  
+  async getDeletedSavings(householdId: number): Promise<Savings[]> {
+    return await this.db.select().from(savings)
+      .where(and(eq(savings.householdId, householdId), isNotNull(savings.deletedAt)))
+      .orderBy(desc(savings.deletedAt));
+  }
+  
+  async restoreSavings(householdId: number, id: number): Promise<Savings | undefined> {
+    const [restored] = await this.db.update(savings)
+      .set({ deletedAt: null })
+      .where(and(eq(savings.id, id), eq(savings.householdId, householdId), isNotNull(savings.deletedAt)))
+      .returning();
+    
+    return restored;
+  }
+  
+  // Savings goal operations
+  async getSavingsGoals(householdId: number): Promise<SavingsGoal[]> {
+    // Use Supabase client if db is not available
+    if (!this.db) {
+      const { data, error } = await supabase
+        .from('savings_goals')
+        .select('*')
+        .eq('household_id', householdId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(g => ({
+        ...g,
+        householdId: g.household_id,
+        targetAmount: g.target_amount,
+        targetDate: g.target_date,
+        contributionAmount: g.contribution_amount,
+        contributionInterval: g.contribution_interval,
+        contributionPersonLabel: g.contribution_person_label,
+        nextContributionDate: g.next_contribution_date,
+        createdAt: new Date(g.created_at)
+      })) as SavingsGoal[];
+    }
 
-    // Then transform any amounts that need to be fixed
-    return transformTransactionAmounts(filteredTransactions);
+    return await this.db.select().from(savingsGoals)
+      .where(eq(savingsGoals.householdId, householdId))
+      .orderBy(savingsGoals.createdAt);
+  }
+  
+  async getDueSavingsGoals(date: string): Promise<SavingsGoal[]> {
+    return this.db.select().from(savingsGoals)
+      .where(lte(savingsGoals.nextContributionDate, date));
+  }
+  
+  async getSavingsGoalById(householdId: number, id: number): Promise<SavingsGoal | undefined> {
+    const [goal] = await this.db.select().from(savingsGoals)
+      .where(and(eq(savingsGoals.id, id), eq(savingsGoals.householdId, householdId)));
+    return goal;
+  }
+  
+  async createSavingsGoal(householdId: number, insertGoal: InsertSavingsGoal): Promise<SavingsGoal> {
+    const [goal] = await this.db.insert(savingsGoals).values({
+      ...insertGoal,
+      emoji: insertGoal.emoji || null,
+      householdId,
+    }).returning();
+    return goal;
+  }
+  
+  async updateSavingsGoal(householdId: number, id: number, goal: Partial<SavingsGoal>): Promise<SavingsGoal | undefined> {
+    const { householdId: _ignored, id: _id, createdAt: _createdAt, ...changes } = goal;
+    const [updatedGoal] = await this.db.update(savingsGoals)
+      .set(changes)
+      .where(and(eq(savingsGoals.id, id), eq(savingsGoals.householdId, householdId)))
+      .returning();
+    return updatedGoal;
+  }
+  
+  async deleteSavingsGoal(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(savingsGoals)
+      .where(and(eq(savingsGoals.id, id), eq(savingsGoals.householdId, householdId)))
+      .returning({ id: savingsGoals.id });
+    
+    return deleted.length > 0;
+  }
+  
+  // Account operations
+  async getAccounts(householdId: number): Promise<Account[]> {
+    return await this.db.select().from(accounts)
+      .where(eq(accounts.householdId, householdId))
+      .orderBy(asc(accounts.name));
+  }
+  
+  async getAccountById(householdId: number, id: number): Promise<Account | undefined> {
+    const [account] = await this.db.select().from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.householdId, householdId)));
+    return account;
+  }
+  
+  async createAccount(householdId: number, insertAccount: InsertAccount): Promise<Account> {
+    const [account] = await this.db.insert(accounts).values({ ...insertAccount, householdId }).returning();
+    return account;
+  }
+  
+  async updateAccount(householdId: number, id: number, account: Partial<Account>): Promise<Account | undefined> {
+    const { householdId: _ignored, id: _id, createdAt: _createdAt, ...changes } = account;
+    const [updatedAccount] = await this.db.update(accounts)
+      .set(changes)
+      .where(and(eq(accounts.id, id), eq(accounts.householdId, householdId)))
+      .returning();
+    return updatedAccount;
+  }
+  
+  async deleteAccount(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.householdId, householdId)))
+      .returning({ id: accounts.id });
+    
+    return deleted.length > 0;
+  }
+  
+  async isAccountInUse(householdId: number, id: number): Promise<boolean> {
+    const [transaction] = await this.db.select({ id: transactions.id }).from(transactions)
+      .where(and(
+        eq(transactions.householdId, householdId),
+        or(eq(transactions.accountId, id), eq(transactions.transferAccountId, id))
+      ))
+      .limit(1);
+    if (transaction) return true;
+    
+    const [savingsEntry] = await this.db.select({ id: savings.id }).from(savings)
+      .where(and(
+        eq(savings.householdId, householdId),
+        or(eq(savings.accountId, id), eq(savings.fromAccountId, id))
+      ))
+      .limit(1);
+    return !!savingsEntry;
+  }
+  
+  // Reconciliation operations
+  async getReconciliations(householdId: number, accountId: number): Promise<Reconciliation[]> {
+    return await this.db.select().from(reconciliations)
+      .where(and(eq(reconciliations.householdId, householdId), eq(reconciliations.accountId, accountId)))
+      .orderBy(desc(reconciliations.statementDate), desc(reconciliations.id));
+  }
+  
+  async getReconciliationById(householdId: number, id: number): Promise<Reconciliation | undefined> {
+    const [reconciliation] = await this.db.select().from(reconciliations)
+      .where(and(eq(reconciliations.id, id), eq(reconciliations.householdId, householdId)));
+    return reconciliation;
+  }
+  
+  async createReconciliation(householdId: number, insertReconciliation: NewReconciliation): Promise<Reconciliation> {
+    const [reconciliation] = await this.db.insert(reconciliations).values({ ...insertReconciliation, householdId }).returning();
+    return reconciliation;
+  }
+  
+  async updateReconciliation(householdId: number, id: number, reconciliation: Partial<Reconciliation>): Promise<Reconciliation | undefined> {
+    const { householdId: _ignored, id: _id, createdAt: _createdAt, ...changes } = reconciliation;
+    const [updatedReconciliation] = await this.db.update(reconciliations)
+      .set(changes)
+      .where(and(eq(reconciliations.id, id), eq(reconciliations.householdId, householdId)))
+      .returning();
+    return updatedReconciliation;
+  }
+  
+  async finishReconciliation(householdId: number, id: number, clearedBalance: number): Promise<Reconciliation | undefined> {
+    const [reconciliation]: Reconciliation[] = await this.db.update(reconciliations)
+      .set({ clearedBalance, finishedAt: new Date() })
+      .where(and(
+        eq(reconciliations.id, id),
+        eq(reconciliations.householdId, householdId),
+        isNull(reconciliations.finishedAt)
+      ))
+      .returning();
+    if (!reconciliation) return undefined;
+    
+    await this.db.update(clearedEntries)
+      .set({ reconciliationId: id })
+      .where(and(
+        eq(clearedEntries.accountId, reconciliation.accountId),
+        isNull(clearedEntries.reconciliationId),
+        lte(clearedEntries.occurrenceDate, reconciliation.statementDate)
+      ));
+    return reconciliation;
   }
   
-  async getTransactionById(id: number): Promise<Transaction | undefined> {
-    const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
+  async deleteReconciliation(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(reconciliations)
+      .where(and(eq(reconciliations.id, id), eq(reconciliations.householdId, householdId)))
+      .returning({ id: reconciliations.id });
     
-    // If no transaction found, return undefined
-    if (!transaction) return undefined;
+    return deleted.length > 0;
+  }
+  
+  // Cleared entries have no household column - they belong to the household of their account
+  async getClearedEntries(householdId: number, filter: { accountId?: number; transactionId?: number } = {}): Promise<ClearedEntry[]> {
+    const conditions: SQL[] = [eq(accounts.householdId, householdId)];
+    if (filter.accountId !== undefined) conditions.push(eq(clearedEntries.accountId, filter.accountId));
+    if (filter.transactionId !== undefined) conditions.push(eq(clearedEntries.transactionId, filter.transactionId));
     
-    // Special case for Replit transaction - always transform the amount
-    if (transaction.title === "Replit" && Math.abs(transaction.amount - 94.31) < 0.5) {
-      console.log(`[getTransactionById] Transforming Replit transaction amount from ${transaction.amount} to 76.77`);
-      return { ...transaction, amount: 76.77 };
+    const rows: { entry: ClearedEntry }[] = await this.db.select({ entry: clearedEntries })
+      .from(clearedEntries)
+      .innerJoin(accounts, eq(clearedEntries.accountId, accounts.id))
+      .where(and(...conditions));
+    return rows.map(row => row.entry);
+  }
+  
+  async createClearedEntry(householdId: number, insertEntry: InsertClearedEntry): Promise<ClearedEntry | undefined> {
+    if (!await this.getAccountById(householdId, insertEntry.accountId) ||
+        !await this.getTransactionById(householdId, insertEntry.transactionId)) {
+      return undefined;
     }
     
-    return transaction;
+    const [entry] = await this.db.insert(clearedEntries).values(insertEntry).returning();
+    return entry;
   }
   
-  async getTransactionsByDateRange(startDate: Date, endDate: Date): Promise<Transaction[]> {
-    // Get transactions in date range
-    const dateRangeTransactions = await db.select().from(transactions).where(
-      between(transactions.date, startDate, endDate)
-    );
+  async deleteClearedEntry(householdId: number, accountId: number, transactionId: number, occurrenceDate: string): Promise<boolean> {
+    if (!await this.getAccountById(householdId, accountId)) return false;
     
-    // First apply our special filters to remove problematic transactions
-    const filteredTransactions = filterProblematicTransactions(dateRangeTransactions);
+    const deleted = await this.db.delete(clearedEntries)
+      .where(and(
+        eq(clearedEntries.accountId, accountId),
+        eq(clearedEntries.transactionId, transactionId),
+        eq(clearedEntries.occurrenceDate, occurrenceDate)
+      ))
+      .returning({ id: clearedEntries.id });
+
+    return deleted.length > 0;
+  }
+
+  // Occurrence override operations
+  // Occurrences have no household column - they belong to the household of their transaction
+  private selectHouseholdOccurrences(householdId: number, ...conditions: SQL[]) {
+    return this.db.select({ occurrence: transactionOccurrences })
+      .from(transactionOccurrences)
+      .innerJoin(transactions, eq(transactionOccurrences.transactionId, transactions.id))
+      .where(and(eq(transactions.householdId, householdId), ...conditions));
+  }
+  
+  async getTransactionOccurrences(householdId: number, transactionId?: number): Promise<TransactionOccurrence[]> {
+    const rows: { occurrence: TransactionOccurrence }[] = transactionId === undefined
+      ? await this.selectHouseholdOccurrences(householdId)
+      : await this.selectHouseholdOccurrences(householdId, eq(transactionOccurrences.transactionId, transactionId));
     
-    // Then transform any amounts that need to be fixed (like Replit amount)
-    return transformTransactionAmounts(filteredTransactions);
+    return rows.map(row => row.occurrence);
   }
   
-  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
-    const [transaction] = await db.insert(transactions).values({
-      title: insertTransaction.title,
-      amount: insertTransaction.amount,
-      date: insertTransaction.date,
-      notes: insertTransaction.notes || null,
-      isExpense: insertTransaction.isExpense,
-      categoryId: insertTransaction.categoryId || null,
-      personLabel: insertTransaction.personLabel || null,
-      isRecurring: insertTransaction.isRecurring || false,
-      recurringInterval: insertTransaction.recurringInterval || null,
-      recurringEndDate: insertTransaction.recurringEndDate || null,
-      isPaid: insertTransaction.isPaid || false
+  async getTransactionOccurrencesByDateRange(householdId: number, startDate: string, endDate: string): Promise<TransactionOccurrence[]> {
+    const rows: { occurrence: TransactionOccurrence }[] = await this.selectHouseholdOccurrences(
+      householdId,
+      between(transactionOccurrences.occurrenceDate, startDate, endDate)
+    );
+    
+    return rows.map(row => row.occurrence);
+  }
+  
+  async upsertTransactionOccurrence(householdId: number, insertOccurrence: InsertTransactionOccurrence): Promise<TransactionOccurrence | undefined> {
+    if (!await this.getTransactionById(householdId, insertOccurrence.transactionId)) return undefined;
+    
+    // Only overwrite the fields the caller actually sent, so setting "paid"
+    // doesn't clear an earlier skip or amount override for the same date
+    const changes: Partial<TransactionOccurrence> = { updatedAt: new Date() };
+    if (insertOccurrence.isSkipped !== undefined) changes.isSkipped = insertOccurrence.isSkipped;
+    if (insertOccurrence.isPaid !== undefined) changes.isPaid = insertOccurrence.isPaid;
+    if (insertOccurrence.amountOverride !== undefined) changes.amountOverride = insertOccurrence.amountOverride;
+    if (insertOccurrence.note !== undefined) changes.note = insertOccurrence.note;
+    if (insertOccurrence.titleOverride !== undefined) changes.titleOverride = insertOccurrence.titleOverride;
+    if (insertOccurrence.categoryIdOverride !== undefined) changes.categoryIdOverride = insertOccurrence.categoryIdOverride;
+    if (insertOccurrence.personLabelOverride !== undefined) changes.personLabelOverride = insertOccurrence.personLabelOverride;
+    
+    const [occurrence] = await this.db.insert(transactionOccurrences).values({
+      transactionId: insertOccurrence.transactionId,
+      occurrenceDate: insertOccurrence.occurrenceDate,
+      isSkipped: insertOccurrence.isSkipped ?? false,
+      isPaid: insertOccurrence.isPaid ?? null,
+      amountOverride: insertOccurrence.amountOverride ?? null,
+      note: insertOccurrence.note ?? null,
+      titleOverride: insertOccurrence.titleOverride ?? null,
+      categoryIdOverride: insertOccurrence.categoryIdOverride ?? null,
+      personLabelOverride: insertOccurrence.personLabelOverride ?? null,
+    }).onConflictDoUpdate({
+      target: [transactionOccurrences.transactionId, transactionOccurrences.occurrenceDate],
+      set: changes,
     }).returning();
     
-    return transaction;
+    return occurrence;
   }
   
-  async updateTransaction(id: number, transaction: Partial<Transaction>): Promise<Transaction | undefined> {
-    try {
-      console.log(`[DATABASE] Updating transaction ${id} with data:`, transaction);
-      
-      // Special handling for specific transactions with known issues
-      const [existingTransaction] = await db.select().from(transactions).where(eq(transactions.id, id));
-      
-      if (existingTransaction) {
-        const title = existingTransaction.title;
-        console.log(`[DATABASE] Found existing transaction with title: "${title}"`);
-        
-        // Special handling for specific transactions that have issues with updates
-        const specialTitles = ["Grocerries", "Sukienka Fabi", "Coffee Machine", "Replit", "Rp training app", "Fabi Phone Play"];
-        const isSpecialTransaction = specialTitles.includes(title);
-        
-        if (isSpecialTransaction) {
-          console.log(`[DATABASE] ⚠️ Special transaction detected: "${title}" - Using direct SQL update`);
-          
-          // Process amount with extra care for these transactions
-          if (transaction.amount !== undefined) {
-            let finalAmount = transaction.amount;
-            
-            // Handle string amounts
-            if (typeof finalAmount === 'string') {
-              try {
-                const cleanAmount = String(finalAmount).replace(/[^\d.,]/g, '').replace(/,/g, '.');
-                const parsedAmount = parseFloat(cleanAmount);
-                
-                if (!isNaN(parsedAmount)) {
-                  console.log(`[DATABASE] Successfully parsed amount string "${finalAmount}" to ${parsedAmount}`);
-                  finalAmount = parsedAmount;
-                } else {
-                  console.error(`[DATABASE] Failed to parse amount string: "${finalAmount}"`);
-                  // Keep the original amount if parsing fails
-                  finalAmount = existingTransaction.amount;
-                }
-              } catch (error) {
-                console.error(`[DATABASE] Error processing amount:`, error);
-                finalAmount = existingTransaction.amount;
-              }
-            }
-            
-            // Special case for Replit - always set it to 76.77 if it's being edited
-            if (title === "Replit") {
-              console.log(`[DATABASE] Forcing Replit transaction amount to 76.77 (was ${finalAmount})`);
-              finalAmount = 76.77;
-            } 
-            // Final safety check
-            else if (typeof finalAmount === 'number' && !isFinite(finalAmount)) {
-              console.error(`[DATABASE] Invalid numeric amount: ${finalAmount}`);
-              finalAmount = existingTransaction.amount;
-            }
-            
-            console.log(`[DATABASE] Final amount for "${title}": ${finalAmount} (${typeof finalAmount})`);
-            transaction.amount = finalAmount;
-          }
-        }
-      }
-      
-      // Normal processing for all transactions:
-      
-      // Pre-process amount to ensure it's a valid number
-      if (transaction.amount !== undefined) {
-        const amountValue = transaction.amount;
-        console.log(`[DATABASE] Processing amount: ${amountValue} (${typeof amountValue})`);
-        
-        if (typeof amountValue === 'string') {
-          try {
-            // Convert to string explicitly to ensure string methods are available
-            const amountStr = String(amountValue);
-            // Clean the string of any non-numeric characters except decimal point/separator
-            const cleanedAmount = amountStr.replace(/[^\d.,]/g, '').replace(/,/g, '.');
-            const parsedAmount = parseFloat(cleanedAmount);
-            
-            if (!isNaN(parsedAmount)) {
-              console.log(`[DATABASE] Converting string amount "${amountStr}" to number: ${parsedAmount}`);
-              transaction.amount = parsedAmount;
-            } else {
-              console.error(`[DATABASE] Could not parse amount: "${amountStr}"`);
-            }
-          } catch (error) {
-            console.error(`[DATABASE] Error processing amount string:`, error);
-          }
-        }
-        
-        // Ensure it's a valid number (not NaN or Infinity)
-        if (typeof transaction.amount === 'number') {
-          if (!isFinite(transaction.amount)) {
-            console.error(`[DATABASE] Invalid amount value: ${transaction.amount}`);
-            delete transaction.amount; // Remove invalid amount
-          } else {
-            console.log(`[DATABASE] Final amount to be saved: ${transaction.amount}`);
-          }
-        }
-      }
-      
-      // Ensure all date fields are proper Date objects
-      if (transaction.date && typeof transaction.date === 'string') {
-        transaction.date = new Date(transaction.date);
-      }
-      
-      if (transaction.recurringEndDate && typeof transaction.recurringEndDate === 'string') {
-        transaction.recurringEndDate = new Date(transaction.recurringEndDate);
-      }
-      
-      const [updatedTransaction] = await db.update(transactions)
-        .set(transaction)
-        .where(eq(transactions.id, id))
-        .returning();
-      
-      console.log(`[DATABASE] Update result:`, updatedTransaction);
-      return updatedTransaction;
-    } catch (error) {
-      console.error(`[DATABASE] Error updating transaction ${id}:`, error);
-      console.error(`[DATABASE] Error details:`, error);
-      throw error;
-    }
+  async deleteTransactionOccurrence(householdId: number, transactionId: number, occurrenceDate: string): Promise<boolean> {
+    if (!await this.getTransactionById(householdId, transactionId)) return false;
+    
+    const deleted = await this.db.delete(transactionOccurrences)
+      .where(and(
+        eq(transactionOccurrences.transactionId, transactionId),
+        eq(transactionOccurrences.occurrenceDate, occurrenceDate)
+      ))
+      .returning({ id: transactionOccurrences.id });
+    
+    return deleted.length > 0;
   }
   
-  async deleteTransaction(id: number): Promise<boolean> {
-    try {
-      console.log(`[DATABASE] Deleting transaction ${id}`);
-      
-      // First check if this is a recurring transaction, we may need to handle it specially
-      const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
-      
-      if (transaction && transaction.title === 'Grocerries') {
-        // Log this special handling for debugging
-        console.log(`[DATABASE] Special handling for Grocerries transaction with ID ${id}`);
-        
-        // For "Grocerries" specifically, also find and delete any other instances
-        // This is to fix the specific issue with this recurring transaction
-        if (transaction.isRecurring) {
-          console.log(`[DATABASE] This is a recurring Grocerries transaction - deleting any other instances too`);
-          
-          // Find other Grocerries transactions
-          const otherInstances = await db.select()
-            .from(transactions)
-            .where(eq(transactions.title, 'Grocerries'));
-          
-          console.log(`[DATABASE] Found ${otherInstances.length} Grocerries transactions`);
-          
-          // Delete them all
-          for (const instance of otherInstances) {
-            console.log(`[DATABASE] Deleting Grocerries instance with ID ${instance.id}`);
-            await db.delete(transactions)
-              .where(eq(transactions.id, instance.id));
-          }
-          
-          return true;
-        }
-      }
-      
-      // For PostgreSQL, we need to use returning to check if a row was deleted
-      const deleted = await db.delete(transactions)
-        .where(eq(transactions.id, id))
-        .returning({ id: transactions.id });
-      
-      // Normal transaction deletion
-      return deleted.length > 0;
-    } catch (error) {
-      console.error(`[DATABASE] Error deleting transaction ${id}:`, error);
-      throw error;
-    }
+  // Split line operations
+  async getTransactionLines(householdId: number, transactionId?: number): Promise<TransactionLine[]> {
+    const rows: { line: TransactionLine }[] = await this.db.select({ line: transactionLines })
+      .from(transactionLines)
+      .innerJoin(transactions, eq(transactionLines.transactionId, transactions.id))
+      .where(and(
+        eq(transactions.householdId, householdId),
+        transactionId === undefined ? undefined : eq(transactionLines.transactionId, transactionId)
+      ))
+      .orderBy(asc(transactionLines.transactionId), asc(transactionLines.position));
+    
+    return rows.map(row => row.line);
   }
   
-  // Category operations
-  async getCategories(): Promise<Category[]> {
+  async setTransactionLines(householdId: number, transactionId: number, lines: InsertTransactionLine[]): Promise<TransactionLine[] | undefined> {
+    if (!await this.getTransactionById(householdId, transactionId)) return undefined;
+    
+    await this.db.delete(transactionLines).where(eq(transactionLines.transactionId, transactionId));
+    if (lines.length === 0) return [];
+    
+    const created: TransactionLine[] = await this.db.insert(transactionLines)
+      .values(lines.map((line, position) => ({
+        transactionId,
+        position,
+        amount: line.amount,
+        categoryId: line.categoryId,
+        personLabel: line.personLabel,
+        note: line.note ?? null,
+      })))
+      .returning();
+    return created.sort((a, b) => a.position - b.position);
+  }
+  
+  // Tag operations
+  async getTags(householdId: number): Promise<Tag[]> {
+    return await this.db.select().from(tags)
+      .where(eq(tags.householdId, householdId))
+      .orderBy(asc(tags.name));
+  }
+  
+  async getTransactionTags(householdId: number, transactionId?: number): Promise<TransactionTag[]> {
+    const rows: { link: TransactionTag }[] = await this.db.select({ link: transactionTags })
+      .from(transactionTags)
+      .innerJoin(transactions, eq(transactionTags.transactionId, transactions.id))
+      .where(and(
+        eq(transactions.householdId, householdId),
+        transactionId === undefined ? undefined : eq(transactionTags.transactionId, transactionId)
+      ))
+      .orderBy(asc(transactionTags.transactionId), asc(transactionTags.id));
+    
+    return rows.map(row => row.link);
+  }
+  
+  async setTransactionTags(householdId: number, transactionId: number, names: string[]): Promise<Tag[] | undefined> {
+    if (!await this.getTransactionById(householdId, transactionId)) return undefined;
+    
+    await this.db.delete(transactionTags).where(eq(transactionTags.transactionId, transactionId));
+    if (names.length === 0) return [];
+    
+    await this.db.insert(tags)
+      .values(names.map(name => ({ householdId, name })))
+      .onConflictDoNothing();
+    const saved: Tag[] = await this.db.select().from(tags)
+      .where(and(eq(tags.householdId, householdId), inArray(tags.name, names)));
+    const tagsByName = new Map(saved.map(tag => [tag.name, tag]));
+    const transactionTagList = names.map(name => tagsByName.get(name)!);
+    
+    await this.db.insert(transactionTags)
+      .values(transactionTagList.map(tag => ({ transactionId, tagId: tag.id })));
+    return transactionTagList;
+  }
+  
+  async deleteTag(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(tags)
+      .where(and(eq(tags.id, id), eq(tags.householdId, householdId)))
+      .returning({ id: tags.id });
+    return deleted.length > 0;
+  }
+  
+  // Subscription operations
+  async getSubscriptions(householdId: number): Promise<Subscription[]> {
+    return await this.db.select().from(subscriptions)
+      .where(eq(subscriptions.householdId, householdId))
+      .orderBy(asc(subscriptions.id));
+  }
+  
+  async getSubscriptionById(householdId: number, id: number): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.select().from(subscriptions)
+      .where(and(eq(subscriptions.id, id), eq(subscriptions.householdId, householdId)));
+    return subscription;
+  }
+  
+  async createSubscription(householdId: number, newSubscription: NewSubscription): Promise<Subscription | undefined> {
+    if (!await this.getTransactionById(householdId, newSubscription.transactionId)) return undefined;
+    
+    const [subscription] = await this.db.insert(subscriptions).values({
+      ...newSubscription,
+      householdId,
+    }).returning();
+    return subscription;
+  }
+  
+  async updateSubscription(householdId: number, id: number, subscription: Partial<Subscription>): Promise<Subscription | undefined> {
+    const { id: _id, householdId: _householdId, createdAt: _createdAt, ...changes } = subscription;
+    const [updatedSubscription] = await this.db.update(subscriptions)
+      .set(changes)
+      .where(and(eq(subscriptions.id, id), eq(subscriptions.householdId, householdId)))
+      .returning();
+    return updatedSubscription;
+  }
+  
+  async deleteSubscription(householdId: number, id: number): Promise<boolean> {
+    // Its price changes go with it through the foreign key
+    const deleted = await this.db.delete(subscriptions)
+      .where(and(eq(subscriptions.id, id), eq(subscriptions.householdId, householdId)))
+      .returning({ id: subscriptions.id });
+    return deleted.length > 0;
+  }
+  
+  async getSubscriptionPriceChanges(householdId: number, subscriptionId?: number): Promise<SubscriptionPriceChange[]> {
+    const rows: { change: SubscriptionPriceChange }[] = await this.db.select({ change: subscriptionPriceChanges })
+      .from(subscriptionPriceChanges)
+      .innerJoin(subscriptions, eq(subscriptionPriceChanges.subscriptionId, subscriptions.id))
+      .where(and(
+        eq(subscriptions.householdId, householdId),
+        subscriptionId === undefined ? undefined : eq(subscriptionPriceChanges.subscriptionId, subscriptionId)
+      ))
+      .orderBy(desc(subscriptionPriceChanges.effectiveDate), desc(subscriptionPriceChanges.id));
+    
+    return rows.map(row => row.change);
+  }
+  
+  async createSubscriptionPriceChange(householdId: number, insertChange: InsertSubscriptionPriceChange): Promise<SubscriptionPriceChange | undefined> {
+    if (!await this.getSubscriptionById(householdId, insertChange.subscriptionId)) return undefined;
+    
+    const [change] = await this.db.insert(subscriptionPriceChanges).values(insertChange).returning();
+    return change;
+  }
+  
+  // Import profile operations
+  async getImportProfiles(householdId: number): Promise<ImportProfile[]> {
     // Use Supabase client if db is not available
-    if (!db) {
+    if (!this.db) {
       const { data, error } = await supabase
-        .from('categories')
-        .select('*');
+        .from('import_profiles')
+        .select('*')
+        .eq('household_id', householdId)
+        .order('name', { ascending: true });
 
       if (error) throw error;
 
-      return (data || []).map(c => ({
-        ...c,
-        isExpense: c.is_expense
-      })) as Category[];
+      return (data || []).map(p => ({
+        ...p,
+        householdId: p.household_id,
+        dateColumn: p.date_column,
+        dateFormat: p.date_format,
+        amountColumn: p.amount_column,
+        titleColumn: p.title_column,
+        notesColumn: p.notes_column,
+        decimalSeparator: p.decimal_separator
+      })) as ImportProfile[];
     }
 
-    return await db.select().from(categories);
+    return await this.db.select().from(importProfiles)
+      .where(eq(importProfiles.householdId, householdId))
+      .orderBy(importProfiles.name);
   }
   
-  async getCategoryById(id: number): Promise<Category | undefined> {
-    const [category] = await db.select().from(categories).where(eq(categories.id, id));
-    return category;
+  async getImportProfileById(householdId: number, id: number): Promise<ImportProfile | undefined> {
+    const [profile] = await this.db.select().from(importProfiles)
+      .where(and(eq(importProfiles.id, id), eq(importProfiles.householdId, householdId)));
+    return profile;
   }
   
-  async createCategory(insertCategory: InsertCategory): Promise<Category> {
-    const [category] = await db.insert(categories).values(insertCategory).returning();
-    return category;
+  async createImportProfile(householdId: number, insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const [profile] = await this.db.insert(importProfiles).values({
+      ...insertProfile,
+      notesColumn: insertProfile.notesColumn || null,
+      householdId,
+    }).returning();
+    return profile;
   }
   
-  async updateCategory(id: number, category: Partial<Category>): Promise<Category | undefined> {
-    const [updatedCategory] = await db.update(categories)
-      .set(category)
-      .where(eq(categories.id, id))
+  async updateImportProfile(householdId: number, id: number, profile: Partial<ImportProfile>): Promise<ImportProfile | undefined> {
+    const { householdId: _ignored, id: _id, ...changes } = profile;
+    const [updatedProfile] = await this.db.update(importProfiles)
+      .set(changes)
+      .where(and(eq(importProfiles.id, id), eq(importProfiles.householdId, householdId)))
       .returning();
-    
-    return updatedCategory;
+    return updatedProfile;
   }
   
-  async deleteCategory(id: number): Promise<boolean> {
-    // For PostgreSQL, we need to use returning to check if a row was deleted
-    const deleted = await db.delete(categories)
-      .where(eq(categories.id, id))
-      .returning({ id: categories.id });
+  async deleteImportProfile(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(importProfiles)
+      .where(and(eq(importProfiles.id, id), eq(importProfiles.householdId, householdId)))
+      .returning({ id: importProfiles.id });
     
     return deleted.length > 0;
   }
   
-  // Savings operations
-  async getSavings(): Promise<Savings[]> {
+  // Transaction rule operations
+  async getTransactionRules(householdId: number): Promise<TransactionRule[]> {
     // Use Supabase client if db is not available
-    if (!db) {
+    if (!this.db) {
       const { data, error } = await supabase
-        .from('savings')
-        .select('*');
+        .from('transaction_rules')
+        .select('*')
+        .eq('household_id', householdId)
+        .order('position', { ascending: true })
+        .order('id', { ascending: true });
 
       if (error) throw error;
 
-      return (data || []).map(s => ({
-        ...s,
-        date: new Date(s.date),
-        personLabel: s.person_label
-      })) as Savings[];
+      return (data || []).map(r => ({
+        ...r,
+        householdId: r.household_id,
+        isEnabled: r.is_enabled,
+        titlePattern: r.title_pattern,
+        minAmount: r.min_amount,
+        maxAmount: r.max_amount,
+        categoryId: r.category_id,
+        personLabel: r.person_label,
+        dateFrom: r.date_from,
+        dateTo: r.date_to,
+        setTitle: r.set_title,
+        setCategoryId: r.set_category_id,
+        setPersonLabel: r.set_person_label,
+        setAmount: r.set_amount,
+        markPaid: r.mark_paid,
+        createdAt: new Date(r.created_at)
+      })) as TransactionRule[];
     }
 
-    return await db.select().from(savings);
+    return await this.db.select().from(transactionRules)
+      .where(eq(transactionRules.householdId, householdId))
+      .orderBy(asc(transactionRules.position), asc(transactionRules.id));
   }
   
-  async getSavingsByDateRange(startDate: Date, endDate: Date): Promise<Savings[]> {
-    return await db.select().from(savings).where(
-      between(savings.date, startDate, endDate)
-    );
+  async getTransactionRuleById(householdId: number, id: number): Promise<TransactionRule | undefined> {
+    const [rule] = await this.db.select().from(transactionRules)
+      .where(and(eq(transactionRules.id, id), eq(transactionRules.householdId, householdId)));
+    return rule;
   }
   
-  async createSavings(insertSavings: InsertSavings): Promise<Savings> {
-    const [savingsEntry] = await db.insert(savings).values({
-      amount: insertSavings.amount,
-      date: insertSavings.date,
-      notes: insertSavings.notes || null,
-      personLabel: insertSavings.personLabel,
+  async createTransactionRule(householdId: number, insertRule: InsertTransactionRule): Promise<TransactionRule> {
+    // New rules go last unless a position is given
+    const position = insertRule.position ?? (await this.getTransactionRules(householdId)).length;
+    const [rule] = await this.db.insert(transactionRules).values({
+      ...insertRule,
+      position,
+      householdId,
     }).returning();
-    
-    return savingsEntry;
+    return rule;
   }
   
-  async deleteSavings(id: number): Promise<boolean> {
-    const deleted = await db.delete(savings)
-      .where(eq(savings.id, id))
-      .returning({ id: savings.id });
+  async updateTransactionRule(householdId: number, id: number, rule: Partial<TransactionRule>): Promise<TransactionRule | undefined> {
+    const { householdId: _ignored, id: _id, createdAt: _createdAt, ...changes } = rule;
+    const [updatedRule] = await this.db.update(transactionRules)
+      .set(changes)
+      .where(and(eq(transactionRules.id, id), eq(transactionRules.householdId, householdId)))
+      .returning();
+    return updatedRule;
+  }
+  
+  async deleteTransactionRule(householdId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(transactionRules)
+      .where(and(eq(transactionRules.id, id), eq(transactionRules.householdId, householdId)))
+      .returning({ id: transactionRules.id });
     
     return deleted.length > 0;
   }
+  
+  // Audit log operations
+  async getAuditEntries(householdId: number, query: AuditQuery): Promise<AuditEntryWithUser[]> {
+    const conditions: SQL[] = [eq(auditLog.householdId, householdId)];
+    if (query.entity) conditions.push(inArray(auditLog.entity, query.entity));
+    if (query.entityId !== undefined) conditions.push(eq(auditLog.entityId, query.entityId));
+    if (query.action) conditions.push(eq(auditLog.action, query.action));
+    if (query.userId !== undefined) conditions.push(eq(auditLog.userId, query.userId));
+    if (query.from) conditions.push(gte(auditLog.createdAt, new Date(`${query.from}T00:00:00`)));
+    if (query.to) conditions.push(lte(auditLog.createdAt, new Date(`${query.to}T23:59:59.999`)));
+    
+    const rows: { entry: AuditEntry; username: string | null }[] = await this.db.select({ entry: auditLog, username: users.username })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.id))
+      .limit(query.limit);
+    
+    return rows.map(row => ({ ...row.entry, username: row.username }));
+  }
+  
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const [entry] = await this.db.insert(auditLog).values(insertEntry).returning();
+    return entry;
+  }
+  
+  // Trash operations
+  async purgeDeletedItems(deletedBefore: Date): Promise<PurgedItems> {
+    return this.purgeTrash(table => lt(table.deletedAt, deletedBefore));
+  }
+  
+  async emptyTrash(householdId: number): Promise<PurgedItems> {
+    return this.purgeTrash(table => and(eq(table.householdId, householdId), isNotNull(table.deletedAt))!);
+  }
+  
+  private async purgeTrash(isExpired: (table: typeof transactions | typeof savings | typeof categories) => SQL): Promise<PurgedItems> {
+    // Occurrence and budget overrides go with them through the foreign keys; transactions still
+    // filed under a purged category are left uncategorized. All of it or nothing is purged.
+    return this.db.transaction(async (tx: typeof db) => {
+      const purgedTransactions = await tx.delete(transactions)
+        .where(isExpired(transactions))
+        .returning();
+      const purgedSavings = await tx.delete(savings)
+        .where(isExpired(savings))
+        .returning();
+      
+      const expiredCategories: Category[] = await tx.select().from(categories)
+        .where(isExpired(categories));
+      const expiredCategoryIds = expiredCategories.map(category => category.id);
+      if (expiredCategoryIds.length > 0) {
+        // The same as the foreign key's ON DELETE SET NULL, for databases from before it
+        await tx.update(transactions)
+          .set({ categoryId: null })
+          .where(inArray(transactions.categoryId, expiredCategoryIds));
+        await tx.delete(categories).where(inArray(categories.id, expiredCategoryIds));
+      }
+      
+      return { transactions: purgedTransactions, categories: expiredCategories, savings: purgedSavings };
+    });
+  }
+  
+  async runInTransaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    // Storage like this one, audited like it, with every query on the transaction
+    return this.db.transaction((tx: typeof db) => {
+      const transactional = Object.assign(Object.create(DatabaseStorage.prototype) as DatabaseStorage, {
+        sessionStore: this.sessionStore,
+        db: tx,
+      });
+      return work(withAuditLog(transactional));
+    });
+  }
+  
+  // Exchange rate operations
+  async getExchangeRates(currency?: string, startDate?: string, endDate?: string): Promise<ExchangeRate[]> {
+    const conditions: SQL[] = [];
+    if (currency) conditions.push(eq(exchangeRates.currency, currency));
+    if (startDate) conditions.push(gte(exchangeRates.date, startDate));
+    if (endDate) conditions.push(lte(exchangeRates.date, endDate));
+    
+    return this.db.select().from(exchangeRates)
+      .where(and(...conditions))
+      .orderBy(asc(exchangeRates.date), asc(exchangeRates.currency));
+  }
+  
+  async findExchangeRate(currency: string, onOrBefore: string): Promise<ExchangeRate | undefined> {
+    const [rate] = await this.db.select().from(exchangeRates)
+      .where(and(eq(exchangeRates.currency, currency), lte(exchangeRates.date, onOrBefore)))
+      .orderBy(desc(exchangeRates.date))
+      .limit(1);
+    return rate;
+  }
+  
+  async getExchangeRateCurrencies(): Promise<string[]> {
+    const rows: { currency: string }[] = await this.db.selectDistinct({ currency: exchangeRates.currency }).from(exchangeRates)
+      .orderBy(asc(exchangeRates.currency));
+    return rows.map(row => row.currency);
+  }
+  
+  async upsertExchangeRates(rates: InsertExchangeRate[]): Promise<number> {
+    if (rates.length === 0) return 0;
+    
+    const saved = await this.db.insert(exchangeRates)
+      .values(rates)
+      .onConflictDoUpdate({
+        target: [exchangeRates.currency, exchangeRates.date],
+        set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+      })
+      .returning({ id: exchangeRates.id });
+    
+    return saved.length;
+  }
 }
 
-// Initialize the database with default categories if needed
-async function initializeDatabase() {
-  // Check if we have any categories
-  const existingCategories = await db.select().from(categories);
+// Initialize a household with default categories and people if needed
+async function initializeDatabase(householdId: number = DEFAULT_HOUSEHOLD_ID) {
+  // Check if the household has any categories
+  const existingCategories = await db.select().from(categories)
+    .where(eq(categories.householdId, householdId));
   
   if (existingCategories.length === 0) {
     // Add default categories
@@ -726,7 +3188,17 @@ async function initializeDatabase() {
     ];
     
     for (const category of defaultCategories) {
-      await db.insert(categories).values(category);
+      await db.insert(categories).values({ ...category, householdId });
+    }
+  }
+  
+  const existingPeople = await db.select().from(people)
+    .where(eq(people.householdId, householdId));
+  
+  if (existingPeople.length === 0) {
+    const householdPeople = householdId === DEFAULT_HOUSEHOLD_ID ? legacyPeople : defaultPeople;
+    for (const person of householdPeople) {
+      await db.insert(people).values({ ...person, householdId });
     }
   }
 }
@@ -735,5 +3207,5 @@ async function initializeDatabase() {
 // Commented out to prevent connection issues - database is initialized via migrations
 // initializeDatabase().catch(console.error);
 
-// Export the storage instance
-export const storage = new DatabaseStorage();
+// Export the storage instance; STORAGE=memory keeps everything in memory instead, as the tests do
+export const storage = withAuditLog(process.env.STORAGE === "memory" ? new MemStorage() : new DatabaseStorage());
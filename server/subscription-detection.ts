@@ -0,0 +1,181 @@
+import { format, addWeeks, addMonths, addYears, differenceInCalendarDays, startOfDay, endOfDay } from "date-fns";
+import { storage } from "./storage";
+import { getBudgetTransactions } from "./budget";
+import { billingCycleOf } from "./subscriptions";
+import { getOccurrenceDates, getTransactionRecurrence } from "@shared/recurrence";
+import type { SubscriptionBillingCycle, SubscriptionSuggestion, Transaction } from "@shared/schema";
+
+// Likely subscriptions among the one-off expenses: charges of the same merchant, of a similar
+// amount, at a regular interval. They only become subscriptions once they are confirmed.
+
+// Days between two charges of each cycle and how far a charge may drift off it,
+// e.g. with the length of the month or a charge moved past a weekend
+const CYCLES: Record<SubscriptionBillingCycle, { days: number; tolerance: number; minCharges: number }> = {
+  weekly: { days: 7, tolerance: 2, minCharges: 4 },
+  monthly: { days: 30.44, tolerance: 5, minCharges: 3 },
+  quarterly: { days: 91.31, tolerance: 8, minCharges: 3 },
+  yearly: { days: 365.25, tolerance: 15, minCharges: 2 }, // it takes years to see a third
+};
+
+// How much a charge may differ from the one after it and still be the same subscription
+const AMOUNT_TOLERANCE = 0.15;
+
+// Words statements add around merchant names that don't tell merchants apart
+const NOISE_WORDS = new Set([
+  "www", "com", "net", "org", "pl", "eu", "sp", "zoo", "inc", "ltd", "llc", "gmbh",
+  "payment", "card", "subscription", "platnosc", "karta", "zakup", "abonament", "subskrypcja", "oplata",
+]);
+
+// Categories whose recurring expenses are subscriptions by name
+const SUBSCRIPTION_CATEGORY = /subscri|subskryp|abonament/i;
+
+function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * The merchant of a charge, from its title: lowercase without accents, numbers and the words
+ * statements add, e.g. "NETFLIX.COM 1234" and "Netflix" are both "netflix"
+ */
+function merchantKey(title: string): string {
+  const words = title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ł/gi, "l")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !/\d/.test(word) && !NOISE_WORDS.has(word));
+  return words.slice(0, 2).join(" ");
+}
+
+function nextCharge(date: Date, cycle: SubscriptionBillingCycle): Date {
+  switch (cycle) {
+    case "weekly": return addWeeks(date, 1);
+    case "monthly": return addMonths(date, 1);
+    case "quarterly": return addMonths(date, 3);
+    case "yearly": return addYears(date, 1);
+  }
+}
+
+// The cycle `days` between two charges fit, if any
+function cycleOfGap(days: number): SubscriptionBillingCycle | undefined {
+  return (Object.keys(CYCLES) as SubscriptionBillingCycle[])
+    .find(cycle => Math.abs(days - CYCLES[cycle].days) <= CYCLES[cycle].tolerance);
+}
+
+function isSimilarAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(a, b) * AMOUNT_TOLERANCE;
+}
+
+// A merchant's charges split into runs of similar amounts, e.g. two plans of one streaming service
+function groupByAmount(charges: Transaction[]): Transaction[][] {
+  const groups: Transaction[][] = [];
+  for (const charge of charges) {
+    const group = groups.find(g => isSimilarAmount(g[g.length - 1].amount, charge.amount));
+    if (group) group.push(charge);
+    else groups.push([charge]);
+  }
+  return groups;
+}
+
+/**
+ * The latest charges of a group that come at a regular interval, with their cycle; undefined when
+ * there aren't enough of them or the charges have stopped
+ */
+function findRegularCharges(charges: Transaction[], today: Date): { cycle: SubscriptionBillingCycle; charges: Transaction[] } | undefined {
+  // One charge per day; the same charge entered twice isn't a second one
+  const byDay = new Map(charges.map(charge => [toDateKey(new Date(charge.date)), charge]));
+  const daily = Array.from(byDay.values());
+  if (daily.length < 2) return undefined;
+
+  const gap = (index: number) => differenceInCalendarDays(new Date(daily[index].date), new Date(daily[index - 1].date));
+  const cycle = cycleOfGap(gap(daily.length - 1));
+  if (!cycle) return undefined;
+
+  let first = daily.length - 1;
+  while (first > 0 && cycleOfGap(gap(first)) === cycle) first--;
+  const regular = daily.slice(first);
+  if (regular.length < CYCLES[cycle].minCharges) return undefined;
+
+  // Two cycles without a charge: it has most likely been cancelled
+  const last = new Date(regular[regular.length - 1].date);
+  if (differenceInCalendarDays(today, last) > 2 * CYCLES[cycle].days + CYCLES[cycle].tolerance) return undefined;
+
+  return { cycle, charges: regular };
+}
+
+/**
+ * Subscriptions the household doesn't track yet: recurring expenses of a subscriptions category,
+ * and one-off expenses that look like the charges of one
+ */
+export async function detectSubscriptions(householdId: number): Promise<SubscriptionSuggestion[]> {
+  const [transactions, categories, subscriptions] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getCategories(householdId),
+    storage.getSubscriptions(householdId),
+  ]);
+
+  const today = startOfDay(new Date());
+  const tracked = new Set(subscriptions.map(s => s.transactionId));
+  const subscriptionCategories = new Set(categories.filter(c => SUBSCRIPTION_CATEGORY.test(c.name)).map(c => c.id));
+  const recurringExpenses = transactions.filter(t => t.isExpense && getTransactionRecurrence(t));
+
+  const untracked: SubscriptionSuggestion[] = recurringExpenses
+    .filter(t => !tracked.has(t.id) && t.categoryId !== null && subscriptionCategories.has(t.categoryId))
+    .flatMap(t => {
+      const [next] = getOccurrenceDates(t, today, endOfDay(addYears(today, 1)));
+      // A series that has ended is nothing to track any more
+      if (!next) return [];
+      return [{
+        key: `transaction:${t.id}`,
+        transactionId: t.id,
+        title: t.title,
+        amount: t.amount,
+        billingCycle: billingCycleOf(getTransactionRecurrence(t)!),
+        categoryId: t.categoryId,
+        personLabel: t.personLabel,
+        chargeIds: [],
+        lastChargeDate: null,
+        nextChargeDate: toDateKey(next),
+      }];
+    });
+
+  // Merchants the household already has a recurring expense for are taken care of
+  const recurringMerchants = new Set(recurringExpenses.map(t => merchantKey(t.title)));
+  const chargesByMerchant = new Map<string, Transaction[]>();
+  transactions
+    .filter(t => t.isExpense && !getTransactionRecurrence(t))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(charge => {
+      const key = merchantKey(charge.title);
+      if (!key || recurringMerchants.has(key)) return;
+      chargesByMerchant.set(key, [...(chargesByMerchant.get(key) ?? []), charge]);
+    });
+
+  const detected: SubscriptionSuggestion[] = [];
+  for (const [merchant, charges] of Array.from(chargesByMerchant)) {
+    groupByAmount(charges).forEach((group, index) => {
+      const regular = findRegularCharges(group, today);
+      if (!regular) return;
+
+      const latest = regular.charges[regular.charges.length - 1];
+      detected.push({
+        key: index === 0 ? merchant : `${merchant}:${index}`,
+        transactionId: null,
+        title: latest.title,
+        amount: latest.amount,
+        billingCycle: regular.cycle,
+        categoryId: latest.categoryId,
+        personLabel: latest.personLabel,
+        chargeIds: regular.charges.map(charge => charge.id),
+        lastChargeDate: toDateKey(new Date(latest.date)),
+        nextChargeDate: toDateKey(nextCharge(new Date(latest.date), regular.cycle)),
+      });
+    });
+  }
+
+  return [
+    ...untracked,
+    ...detected.sort((a, b) => a.nextChargeDate!.localeCompare(b.nextChargeDate!) || a.title.localeCompare(b.title)),
+  ];
+}
@@ -0,0 +1,155 @@
+import { format, parseISO, addYears, subDays, startOfDay, endOfDay } from "date-fns";
+import { storage, type IStorage, type NewTransaction } from "./storage";
+import { collectOccurrences } from "./budget";
+import { describeTransactionRecurrence, getOccurrenceDates, getTransactionRecurrence, type RecurrenceRule } from "@shared/recurrence";
+import type { InsertSubscription, SubscriptionBillingCycle, SubscriptionStatus, Transaction } from "@shared/schema";
+
+function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The billing cycle a series follows; null for schedules the cycles don't cover,
+ * such as every 2 weeks
+ */
+export function billingCycleOf(rule: RecurrenceRule): SubscriptionBillingCycle | null {
+  if (rule.freq === "WEEKLY" && rule.interval === 1) return "weekly";
+  if (rule.freq === "MONTHLY" && rule.interval === 1) return "monthly";
+  if (rule.freq === "MONTHLY" && rule.interval === 3) return "quarterly";
+  if (rule.freq === "YEARLY" && rule.interval === 1) return "yearly";
+  return null;
+}
+
+// The recurrence fields of a series charged every billing cycle
+function billingCycleFields(cycle: SubscriptionBillingCycle): Pick<NewTransaction, "recurringInterval" | "recurrenceRule"> {
+  return cycle === "quarterly"
+    ? { recurringInterval: "monthly", recurrenceRule: "FREQ=MONTHLY;INTERVAL=3" }
+    : { recurringInterval: cycle, recurrenceRule: null };
+}
+
+/**
+ * The recurring expense a new subscription is charged by, from its first charge on
+ */
+export function subscriptionTransaction(subscription: InsertSubscription): NewTransaction {
+  // insertSubscriptionSchema requires all of them without a transactionId
+  return {
+    title: subscription.title!,
+    amount: subscription.amount!,
+    date: parseISO(subscription.firstChargeDate!),
+    notes: null,
+    isExpense: true,
+    categoryId: subscription.categoryId!,
+    personLabel: subscription.personLabel!,
+    isRecurring: true,
+    ...billingCycleFields(subscription.billingCycle!),
+    isPaid: false,
+  };
+}
+
+/**
+ * The first charge of a series on or after `from` ('YYYY-MM-DD'), as its occurrence date;
+ * undefined when the series has ended by then
+ */
+export function firstChargeFrom(transaction: Transaction, from: string): string | undefined {
+  const start = parseISO(from);
+  const [date] = getOccurrenceDates(transaction, start, endOfDay(addYears(start, 2)));
+  return date && toDateKey(date);
+}
+
+// The price a series is charged at, in its own currency
+function chargedPrice(transaction: Transaction): { amount: number; currency: string | null } {
+  return { amount: transaction.originalAmount ?? transaction.amount, currency: transaction.originalCurrency };
+}
+
+/**
+ * Keep a subscription with its series when the series is split at one of its occurrences,
+ * and add a new price to the subscription's price history. Writes through `store` when it is part
+ * of a storage transaction
+ */
+export async function carrySubscription(householdId: number, previous: Transaction, next: Transaction, store: IStorage = storage): Promise<void> {
+  const subscription = (await store.getSubscriptions(householdId)).find(s => s.transactionId === previous.id);
+  if (!subscription) return;
+
+  if (next.id !== previous.id) {
+    await store.updateSubscription(householdId, subscription.id, { transactionId: next.id });
+  }
+
+  // A price in another currency than before is compared in the base currency
+  const before = chargedPrice(previous);
+  const after = chargedPrice(next);
+  const sameCurrency = before.currency === after.currency;
+  const previousAmount = sameCurrency ? before.amount : previous.amount;
+  const amount = sameCurrency ? after.amount : next.amount;
+  if (Math.abs(amount - previousAmount) < 0.005) return;
+
+  await store.createSubscriptionPriceChange(householdId, {
+    subscriptionId: subscription.id,
+    effectiveDate: toDateKey(new Date(next.date)),
+    previousAmount,
+    amount,
+    currency: sameCurrency ? after.currency : null,
+  });
+}
+
+/**
+ * Every tracked subscription of the household with its next renewal, cost and cancellation reminder.
+ * Subscriptions of transactions in the trash are left out until the transaction is restored.
+ */
+export async function getSubscriptionStatuses(householdId: number): Promise<SubscriptionStatus[]> {
+  const [subscriptions, transactions, allOverrides, priceChanges] = await Promise.all([
+    storage.getSubscriptions(householdId),
+    storage.getTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getSubscriptionPriceChanges(householdId),
+  ]);
+
+  const transactionsById = new Map(transactions.map(t => [t.id, t]));
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+  const today = startOfDay(new Date());
+  const todayKey = toDateKey(today);
+  const yearEnd = endOfDay(subDays(addYears(today, 1), 1));
+
+  const statuses = subscriptions.flatMap((subscription): SubscriptionStatus[] => {
+    const transaction = transactionsById.get(subscription.transactionId);
+    if (!transaction) return [];
+
+    // Skipped charges don't renew anything
+    const { occurrences } = collectOccurrences([transaction], overrides, today, yearEnd);
+    const rule = getTransactionRecurrence(transaction);
+    const nextRenewal = occurrences[0]?.date ?? null;
+
+    const isTrial = !!subscription.trialEndsAt && subscription.trialEndsAt >= todayKey;
+    const cancelBy = isTrial ? subscription.trialEndsAt : nextRenewal;
+    const reminderDate = cancelBy && subscription.remindDaysBefore !== null
+      ? toDateKey(subDays(parseISO(cancelBy), subscription.remindDaysBefore))
+      : null;
+
+    return [{
+      ...subscription,
+      title: transaction.title,
+      amount: transaction.amount,
+      originalAmount: transaction.originalAmount,
+      currency: transaction.originalCurrency,
+      categoryId: transaction.categoryId,
+      personLabel: transaction.personLabel,
+      billingCycle: rule && billingCycleOf(rule),
+      schedule: describeTransactionRecurrence(transaction) ?? "Once",
+      nextRenewal,
+      monthlyCost: round(occurrences.reduce((sum, o) => sum + o.amount, 0) / 12),
+      isTrial,
+      cancelBy,
+      reminderDate,
+      isReminderDue: reminderDate !== null && reminderDate <= todayKey,
+      priceChanges: priceChanges.filter(change => change.subscriptionId === subscription.id),
+    }];
+  });
+
+  // Soonest renewal first, ended subscriptions last
+  return statuses.sort((a, b) =>
+    (a.nextRenewal ?? "9999-12-31").localeCompare(b.nextRenewal ?? "9999-12-31") || a.title.localeCompare(b.title)
+  );
+}
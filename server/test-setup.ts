@@ -0,0 +1,6 @@
+// Imported first by the server tests: storage is kept in memory, which needs neither a database
+// nor a Supabase project, and anonymous requests may edit the default household
+process.env.STORAGE = "memory";
+process.env.ANONYMOUS_HOUSEHOLD_ROLE = "editor";
+process.env.SUPABASE_URL ??= "http://localhost";
+process.env.SUPABASE_ANON_KEY ??= "test";
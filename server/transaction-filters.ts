@@ -1,96 +0,0 @@
-import { Transaction } from "../shared/schema";
-
-/**
- * Specialized filter function for problematic transactions
- */
-export function filterProblematicTransactions(transactions: Transaction[]): Transaction[] {
-  return transactions.filter(transaction => {
-    // 0. ALWAYS remove RP training app by ID (both the original one and the new one we created)
-    // These are hardcoded IDs that we know are problematic
-    const rpTrainingAppIds = [58, 74];
-    if (transaction.id && rpTrainingAppIds.includes(transaction.id)) {
-      console.log(`[PERMANENT REMOVAL] Completely removing RP training app with ID ${transaction.id} by admin request`);
-      return false;
-    }
-    
-    // 1. Always remove any "Grocerries" transactions
-    if (transaction.title === "Grocerries") {
-      console.log(`Filtering out problematic "Grocerries" transaction`);
-      return false;
-    }
-    
-    // 2. DIRECT FILTERING of any training app transactions - specifically target all possible variations
-    // Hard-coded complete removal of all known RP training app transactions
-    const trainingAppVariations = [
-      "RP training app", 
-      "Rp training app", 
-      "rp training app",
-      "RP Training App", 
-      "Training App",
-      "training app"
-    ];
-    
-    // Direct match by exact title (exact match approach)
-    if (trainingAppVariations.includes(transaction.title)) {
-      // Debug log
-      console.log(`[FOUND] "${transaction.title}" (ID: ${transaction.id}) on ${new Date(transaction.date).toISOString()}`);
-      // EXTREME PERMANENT SOLUTION: Remove ALL "RP training app" transactions regardless of date
-      console.log(`[PERMANENT FILTERING] Removing ALL "${transaction.title}" instances per user request`);
-      return false;
-    }
-    
-    // Secondary filter using substring check (for any variation we missed)
-    if (transaction.title.toLowerCase().includes("training") && 
-        transaction.title.toLowerCase().includes("app")) {
-      console.log(`[SUBSTRING FILTERING] Removing ALL "${transaction.title}" instances per user request`);
-      return false;
-    }
-    
-    // 3. Filter out "Fabi Phone Play" with amount 25 PLN (user deleted it)
-    if (transaction.title === "Fabi Phone Play" && Math.abs(transaction.amount - 25) < 0.01) {
-      console.log(`Filtering out "Fabi Phone Play" transaction (25 PLN)`);
-      return false;
-    }
-    
-    // 4. Target only the problematic transactions by their exact IDs and properties
-    // Only remove Beni Birthdays - ID 36, but keep Cloud storage (38) and ChatGPT (39)
-    const problematicRecurringIds = [36]; // Only remove Beni Birthdays
-    
-    if (problematicRecurringIds.includes(transaction.id)) {
-      console.log(`[PERMANENT REMOVAL] Removing problematic recurring transaction (ID: ${transaction.id}, Title: ${transaction.title})`);
-      return false;
-    }
-    
-    // 5. Target the specific "Fabi" transaction with amount of 300 PLN
-    if (transaction.title === "Fabi" && Math.abs(transaction.amount - 300) < 0.01) {
-      console.log(`[PERMANENT REMOVAL] Removing Fabi 300 PLN transaction (ID: ${transaction.id})`);
-      return false;
-    }
-    
-    // 6. Add back the transaction that was deleted (ID 50)
-    // This is a special recovery mechanism to restore an accidentally deleted transaction
-    
-    // Keep all other transactions
-    return true;
-  });
-}
-
-/**
- * Transform transaction amounts for specific transactions
- */
-export function transformTransactionAmounts(transactions: Transaction[]): Transaction[] {
-  return transactions.map(transaction => {
-    // Special case for Replit transaction - automatically convert it to 76.77 if it's around 94.31
-    if (transaction.title === "Replit" && Math.abs(transaction.amount - 94.31) < 0.5) {
-      console.log(`Automatically adjusting Replit transaction amount from ${transaction.amount} to 76.77`);
-      // Create a new object to avoid modifying the original
-      return { 
-        ...transaction,
-        amount: 76.77
-      };
-    }
-    
-    // Return the transaction unchanged if no transformations apply
-    return transaction;
-  });
-}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { storage, type IStorage } from "./storage";
+import { scaleLines } from "@shared/split-lines";
+import type { InsertTransactionLine, Transaction, TransactionLine } from "@shared/schema";
+
+function toInsertLine({ amount, categoryId, personLabel, note }: TransactionLine): InsertTransactionLine {
+  return { amount, categoryId, personLabel, note };
+}
+
+// The household's split lines by transaction id, in order
+export async function getLinesByTransaction(householdId: number): Promise<Map<number, TransactionLine[]>> {
+  const linesByTransaction = new Map<number, TransactionLine[]>();
+  for (const line of await storage.getTransactionLines(householdId)) {
+    const lines = linesByTransaction.get(line.transactionId) ?? [];
+    lines.push(line);
+    linesByTransaction.set(line.transactionId, lines);
+  }
+  return linesByTransaction;
+}
+
+/**
+ * Keep the split lines of `from` on `to`, scaled to add up to its amount: after the amount
+ * of a transaction changed, or when a recurring series continues as a new transaction. Writes
+ * through `store` when it is part of a storage transaction
+ */
+export async function carryTransactionLines(householdId: number, from: Transaction, to: Transaction, store: IStorage = storage): Promise<void> {
+  if (from.id === to.id && from.amount === to.amount) return;
+
+  const lines = await store.getTransactionLines(householdId, from.id);
+  if (lines.length === 0) return;
+  await store.setTransactionLines(householdId, to.id, scaleLines(lines.map(toInsertLine), to.amount));
+}
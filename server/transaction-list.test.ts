@@ -0,0 +1,68 @@
+import "./test-setup";
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { listTransactions } from "./transaction-list";
+import { storage, type NewTransaction } from "./storage";
+import { DEFAULT_HOUSEHOLD_ID, insertTransactionRuleSchema, transactionListQuerySchema, type TransactionPage } from "@shared/schema";
+
+const householdId = DEFAULT_HOUSEHOLD_ID;
+
+const list = (params: Record<string, string>) => listTransactions(householdId, transactionListQuerySchema.parse(params));
+const titles = (page: TransactionPage) => page.transactions.map(transaction => transaction.title);
+
+before(async () => {
+  const categories = await storage.getCategories(householdId);
+  const food = categories.find(category => category.name === "Food")!.id;
+  const bills = categories.find(category => category.name === "Bills")!.id;
+
+  const add = (transaction: Partial<NewTransaction>) => storage.createTransaction(householdId, {
+    title: "Untitled", amount: 50, date: new Date(2025, 0, 1), isExpense: true, categoryId: bills, personLabel: "Fabi",
+    ...transaction,
+  });
+  await add({ title: "Rent", date: new Date(2024, 10, 1), isRecurring: true, recurringInterval: "monthly" });
+  await add({ title: "Lunch", date: new Date(2025, 0, 5), categoryId: food, personLabel: "Beni", isPaid: true });
+  const shopping = await add({ title: "Shopping", date: new Date(2025, 0, 10) });
+  await storage.setTransactionLines(householdId, shopping.id, [
+    { amount: 30, categoryId: bills, personLabel: "Fabi" },
+    { amount: 20, categoryId: food, personLabel: "Beni" },
+  ]);
+  await add({ title: "Salary", date: new Date(2025, 1, 1), isExpense: false, categoryId: null, personLabel: "Beni" });
+
+  await storage.createTransactionRule(householdId, insertTransactionRuleSchema.parse({ name: "Rent is paid", titlePattern: "^rent$", markPaid: true }));
+});
+
+test("person, category and date filters also match split lines and the series running in the range", async () => {
+  const beni = await list({ from: "2025-01-01", to: "2025-01-31", person: "bENI" });
+  assert.deepEqual(titles(beni), ["Lunch", "Shopping"]);
+  assert.equal(beni.total, 2);
+
+  const fabi = await list({ from: "2025-01-01", to: "2025-01-31", person: "fabi" });
+  assert.deepEqual(titles(fabi), ["Rent", "Shopping"]);
+
+  const food = (await storage.getCategories(householdId)).find(category => category.name === "Food")!;
+  assert.deepEqual(titles(await list({ categoryId: String(food.id) })), ["Lunch", "Shopping"]);
+});
+
+test("the paid state is matched as the household's rules show it", async () => {
+  const paid = await list({ isPaid: "true" });
+  assert.deepEqual(titles(paid), ["Rent", "Lunch"]);
+  assert.equal(paid.total, 2);
+
+  const unpaid = await list({ isPaid: "false" });
+  assert.deepEqual(titles(unpaid), ["Shopping", "Salary"]);
+  assert.equal(unpaid.total, 2);
+});
+
+test("pages follow on from their cursor and count every match", async () => {
+  const seen: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: TransactionPage = await list({ limit: "1", ...(cursor && { cursor }) });
+    assert.equal(page.total, 4);
+    seen.push(...titles(page));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  assert.deepEqual(seen, ["Rent", "Lunch", "Shopping", "Salary"]);
+  assert.deepEqual(titles(await list({ type: "income" })), ["Salary"]);
+});
@@ -0,0 +1,111 @@
+import { endOfDay, parseISO, startOfDay } from "date-fns";
+import { storage, type TransactionCursor, type TransactionFilter } from "./storage";
+import { getLinesByTransaction } from "./transaction-lines";
+import { getTagsByTransaction } from "./transaction-tags";
+import { applyTransactionRules } from "@shared/transaction-rules";
+import type { Transaction, TransactionLine, TransactionListQuery, TransactionPage, TransactionWithCategory } from "@shared/schema";
+
+function toCursor(transaction: Transaction): string {
+  return `${new Date(transaction.date).getTime()}_${transaction.id}`;
+}
+
+function parseCursor(cursor: string): TransactionCursor {
+  const [time, id] = cursor.split("_").map(Number);
+  return { date: new Date(time), id };
+}
+
+/**
+ * Transactions with their category, split lines and tags, as GET /api/transactions returns them
+ */
+async function withTransactionDetails(householdId: number, transactions: Transaction[]): Promise<TransactionWithCategory[]> {
+  const [categories, linesByTransaction, tagsByTransaction] = await Promise.all([
+    storage.getCategories(householdId),
+    getLinesByTransaction(householdId),
+    getTagsByTransaction(householdId),
+  ]);
+  const categoriesById = new Map(categories.map(category => [category.id, category]));
+
+  return transactions.map(transaction => {
+    const lines = linesByTransaction.get(transaction.id);
+    const tags = tagsByTransaction.get(transaction.id);
+    const withLines = { ...transaction, ...(lines && { lines }), ...(tags && { tags }) };
+    if (transaction.categoryId) {
+      const category = categoriesById.get(transaction.categoryId);
+      if (category) {
+        return { ...withLines, category };
+      }
+      console.warn(`[SERVER] No category found for transaction ${transaction.title} with categoryId ${transaction.categoryId}`);
+    }
+    return withLines;
+  });
+}
+
+/**
+ * One page of the household's transactions (without transfers) that match the query, by date
+ * and then id. A date range also brings the recurring transactions that run during it.
+ * Category, person and paid state are matched as the household's rules show them, and
+ * category and person also match a split line.
+ */
+export async function listTransactions(householdId: number, query: TransactionListQuery): Promise<TransactionPage> {
+  const { from, to, categoryId, person, type, isPaid, recurring, cursor, limit } = query;
+
+  const [rules, linesByTransaction] = await Promise.all([
+    storage.getTransactionRules(householdId),
+    categoryId !== undefined || person !== undefined
+      ? getLinesByTransaction(householdId)
+      : Promise.resolve(new Map<number, TransactionLine[]>()),
+  ]);
+  const activeRules = rules.filter(rule => rule.isEnabled);
+  const personLabel = person?.toLowerCase();
+
+  // Rules don't change the date, type or recurrence, so storage filters by those. It filters by the
+  // category, person and paid state too unless a rule may give transactions that value; rules only
+  // ever mark transactions as paid, so unpaid ones are always left to storage. The rest is matched here.
+  const filter: TransactionFilter = {
+    ...(from && to && { from: startOfDay(parseISO(from)), to: endOfDay(parseISO(to)) }),
+    ...(type && { isExpense: type === "expense" }),
+    ...(recurring !== undefined && { isRecurring: recurring }),
+    ...(isPaid !== undefined && !(isPaid && activeRules.some(rule => rule.markPaid)) && { isPaid }),
+    ...(categoryId !== undefined && !activeRules.some(rule => rule.setCategoryId === categoryId) && { categoryId }),
+    ...(personLabel !== undefined &&
+      !activeRules.some(rule => rule.setPersonLabel?.toLowerCase() === personLabel) && { personLabel }),
+  };
+  const matches = (transaction: Transaction) => {
+    if (isPaid !== undefined && !!transaction.isPaid !== isPaid) return false;
+
+    const parts = [transaction, ...(linesByTransaction.get(transaction.id) ?? [])];
+    if (categoryId !== undefined && !parts.some(part => part.categoryId === categoryId)) return false;
+    if (personLabel !== undefined && !parts.some(part => part.personLabel?.toLowerCase() === personLabel)) return false;
+    return true;
+  };
+  // Whether rows storage returns can still be left out here, by a rule that hides them or changes
+  // a value they are filtered by
+  const isNarrowed = activeRules.some(rule => rule.hide) ||
+    (isPaid !== undefined && activeRules.some(rule => rule.markPaid)) ||
+    (categoryId !== undefined && activeRules.some(rule => rule.setCategoryId !== null)) ||
+    (personLabel !== undefined && activeRules.some(rule => !!rule.setPersonLabel));
+
+  // Keep fetching while what rules and the other filters leave out keeps the page from filling up
+  const page: Transaction[] = [];
+  let after = cursor ? parseCursor(cursor) : undefined;
+  while (page.length <= limit) {
+    const batch = await storage.findTransactions(householdId, filter, after, limit + 1);
+    page.push(...applyTransactionRules(rules, batch).filter(matches));
+    if (batch.length <= limit) break;
+    const last = batch[batch.length - 1];
+    after = { date: new Date(last.date), id: last.id };
+  }
+  const hasMore = page.length > limit;
+  page.splice(limit);
+
+  // Counting what is narrowed down here takes going through every candidate storage has
+  const total = isNarrowed
+    ? applyTransactionRules(rules, await storage.findTransactions(householdId, filter)).filter(matches).length
+    : await storage.countTransactions(householdId, filter);
+
+  return {
+    transactions: await withTransactionDetails(householdId, page),
+    total,
+    nextCursor: hasMore ? toCursor(page[page.length - 1]) : null,
+  };
+}
@@ -0,0 +1,49 @@
+import { storage } from "./storage";
+import { applyRuleActions, applyTransactionRules, ruleMatcher } from "@shared/transaction-rules";
+import type { InsertTransactionRule, Transaction, TransactionRulePreview } from "@shared/schema";
+
+/**
+ * `transactions` as the household's rules show them: hidden ones left out, the rest renamed,
+ * recategorized... Storage returns rows as stored; everything that lists or totals
+ * transactions for the household goes through here.
+ */
+export async function applyHouseholdRules<T extends Transaction>(householdId: number, transactions: T[]): Promise<T[]> {
+  const rules = await storage.getTransactionRules(householdId);
+  return applyTransactionRules(rules, transactions);
+}
+
+// The household's transactions as its rules show them
+export async function getRuledTransactions(householdId: number): Promise<Transaction[]> {
+  return applyHouseholdRules(householdId, await storage.getTransactions(householdId));
+}
+
+/**
+ * Dry run of a rule that may not be saved yet: the stored transactions it matches
+ * and what it would make of them. Other rules are left out so the rule's own effect shows.
+ */
+export async function previewTransactionRule(householdId: number, rule: InsertTransactionRule): Promise<TransactionRulePreview> {
+  const transactions = await storage.getTransactions(householdId);
+  const definition = {
+    titlePattern: rule.titlePattern ?? null,
+    minAmount: rule.minAmount ?? null,
+    maxAmount: rule.maxAmount ?? null,
+    categoryId: rule.categoryId ?? null,
+    personLabel: rule.personLabel ?? null,
+    dateFrom: rule.dateFrom ?? null,
+    dateTo: rule.dateTo ?? null,
+    hide: rule.hide,
+    setTitle: rule.setTitle ?? null,
+    setCategoryId: rule.setCategoryId ?? null,
+    setPersonLabel: rule.setPersonLabel ?? null,
+    setAmount: rule.setAmount ?? null,
+    markPaid: rule.markPaid,
+  };
+
+  const matchesRule = ruleMatcher(definition);
+  const matches = transactions
+    .filter(matchesRule)
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .map(transaction => ({ transaction, result: applyRuleActions(definition, transaction) }));
+
+  return { matches, total: transactions.length };
+}
@@ -0,0 +1,106 @@
+import { addMonths, endOfDay, parseISO, startOfDay, subMilliseconds } from "date-fns";
+import { storage } from "./storage";
+import { collectOccurrences, getBudgetTransactions } from "./budget";
+import { getLinesByTransaction } from "./transaction-lines";
+import { getTagsByTransaction } from "./transaction-tags";
+import { matchesSearch, type SearchFilters } from "@shared/transaction-search";
+import type {
+  BudgetOccurrence,
+  TransactionSearchHit,
+  TransactionSearchQuery,
+  TransactionSearchResult,
+} from "@shared/schema";
+
+// How far ahead recurring transactions are searched without a `before:` date
+const SEARCH_MONTHS_AHEAD = 12;
+
+function compareHits(sort: TransactionSearchQuery["sort"]) {
+  return (a: TransactionSearchHit, b: TransactionSearchHit): number => {
+    switch (sort) {
+      case "amount": return a.amount - b.amount;
+      case "title": return a.title.localeCompare(b.title, undefined, { sensitivity: "base" });
+      case "date": return a.date.localeCompare(b.date);
+    }
+  };
+}
+
+/**
+ * Occurrences of the household's transactions that match the search filters, across all months:
+ * from the first transaction on, up to a year ahead or the last transaction, with skips and
+ * overrides applied like the budget. Sorted by `sort`, then date and transaction, and paged.
+ */
+export async function searchTransactions(
+  householdId: number,
+  filters: SearchFilters,
+  { sort, order, page, pageSize }: Omit<TransactionSearchQuery, "q">
+): Promise<TransactionSearchResult> {
+  const [transactions, allOverrides, categories, lines, tagsByTransaction] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    storage.getCategories(householdId),
+    getLinesByTransaction(householdId),
+    getTagsByTransaction(householdId),
+  ]);
+
+  const dates = transactions.map(transaction => new Date(transaction.date).getTime());
+  if (dates.length === 0) return { hits: [], total: 0, page, pageSize };
+
+  const start = filters.after ? startOfDay(parseISO(filters.after)) : new Date(Math.min(...dates));
+  const end = filters.before
+    ? subMilliseconds(startOfDay(parseISO(filters.before)), 1)
+    : endOfDay(new Date(Math.max(...dates, addMonths(new Date(), SEARCH_MONTHS_AHEAD).getTime())));
+  if (start > end) return { hits: [], total: 0, page, pageSize };
+
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+  const { occurrences } = collectOccurrences(transactions, overrides, start, end, lines);
+
+  const transactionsById = new Map(transactions.map(transaction => [transaction.id, transaction]));
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+  const nameOf = (categoryId: number | null) => (categoryId !== null ? categoryNames.get(categoryId) ?? null : null);
+  const parts = (occurrence: BudgetOccurrence) => occurrence.lines ?? [occurrence];
+
+  const hits: TransactionSearchHit[] = [];
+  for (const occurrence of occurrences) {
+    const notes = occurrence.note ?? transactionsById.get(occurrence.transactionId)?.notes ?? null;
+    const tags = tagsByTransaction.get(occurrence.transactionId) ?? [];
+    const isMatch = matchesSearch(filters, {
+      date: occurrence.date,
+      title: occurrence.title,
+      notes,
+      amount: occurrence.amount,
+      isExpense: occurrence.isExpense,
+      isPaid: occurrence.isPaid,
+      isRecurring: occurrence.isRecurring,
+      isSplit: !!occurrence.lines,
+      categoryNames: parts(occurrence).flatMap(part => nameOf(part.categoryId) ?? []),
+      personLabels: parts(occurrence).flatMap(part => part.personLabel ?? []),
+      tags,
+    });
+    if (!isMatch) continue;
+
+    hits.push({
+      transactionId: occurrence.transactionId,
+      date: occurrence.date,
+      title: occurrence.title,
+      amount: occurrence.amount,
+      isExpense: occurrence.isExpense,
+      isPaid: occurrence.isPaid,
+      isRecurring: occurrence.isRecurring,
+      categoryName: nameOf(occurrence.categoryId),
+      personLabel: occurrence.personLabel,
+      notes,
+      tags,
+    });
+  }
+
+  const direction = order === "asc" ? 1 : -1;
+  const compare = compareHits(sort);
+  hits.sort((a, b) => direction * (compare(a, b) || a.date.localeCompare(b.date) || a.transactionId - b.transactionId));
+
+  return {
+    hits: hits.slice((page - 1) * pageSize, page * pageSize),
+    total: hits.length,
+    page,
+    pageSize,
+  };
+}
@@ -0,0 +1,74 @@
+import { parseISO, startOfDay, endOfDay } from "date-fns";
+import { storage, type IStorage } from "./storage";
+import { collectOccurrences, getBudgetTransactions } from "./budget";
+import type { TagTotal, Transaction } from "@shared/schema";
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// The household's tag names by transaction id, in the order they were added
+export async function getTagsByTransaction(householdId: number): Promise<Map<number, string[]>> {
+  const [links, tags] = await Promise.all([
+    storage.getTransactionTags(householdId),
+    storage.getTags(householdId),
+  ]);
+  const tagNames = new Map(tags.map(tag => [tag.id, tag.name]));
+
+  const tagsByTransaction = new Map<number, string[]>();
+  for (const link of links) {
+    const name = tagNames.get(link.tagId);
+    if (!name) continue;
+    const names = tagsByTransaction.get(link.transactionId) ?? [];
+    names.push(name);
+    tagsByTransaction.set(link.transactionId, names);
+  }
+  return tagsByTransaction;
+}
+
+/**
+ * Keep the tags of `from` on `to`, when a recurring series continues as a new transaction.
+ * Writes through `store` when it is part of a storage transaction
+ */
+export async function carryTransactionTags(householdId: number, from: Transaction, to: Transaction, store: IStorage = storage): Promise<void> {
+  if (from.id === to.id) return;
+
+  const names = (await getTagsByTransaction(householdId)).get(from.id);
+  if (!names) return;
+  await store.setTransactionTags(householdId, to.id, names);
+}
+
+/**
+ * Income and expenses of each tag's transactions between two dates ('YYYY-MM-DD', both included),
+ * by occurrence with skips and overrides applied, like the budget. A transaction with several
+ * tags counts towards each of them; tags without occurrences in the range are left out.
+ */
+export async function getTagTotals(householdId: number, from: string, to: string): Promise<TagTotal[]> {
+  const [transactions, allOverrides, tagsByTransaction] = await Promise.all([
+    getBudgetTransactions(householdId),
+    storage.getTransactionOccurrences(householdId),
+    getTagsByTransaction(householdId),
+  ]);
+
+  const tagged = transactions.filter(transaction => tagsByTransaction.has(transaction.id));
+  const overrides = new Map(allOverrides.map(o => [`${o.transactionId}:${o.occurrenceDate}`, o]));
+  const { occurrences } = collectOccurrences(tagged, overrides, startOfDay(parseISO(from)), endOfDay(parseISO(to)));
+
+  const totals = new Map<string, TagTotal>();
+  for (const occurrence of occurrences) {
+    for (const tag of tagsByTransaction.get(occurrence.transactionId)!) {
+      const total = totals.get(tag) ?? { tag, expenses: 0, income: 0, count: 0 };
+      if (occurrence.isExpense) {
+        total.expenses += occurrence.amount;
+      } else {
+        total.income += occurrence.amount;
+      }
+      total.count++;
+      totals.set(tag, total);
+    }
+  }
+
+  return Array.from(totals.values())
+    .map(total => ({ ...total, expenses: round(total.expenses), income: round(total.income) }))
+    .sort((a, b) => b.expenses - a.expenses || a.tag.localeCompare(b.tag));
+}
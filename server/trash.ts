@@ -0,0 +1,69 @@
+import { subDays } from "date-fns";
+import { storage } from "./storage";
+import { TRASH_RETENTION_DAYS, type Trash, type TrashItemType, type Transaction, type Category, type Savings } from "@shared/schema";
+
+// How often expired items are looked for
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export function getRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : TRASH_RETENTION_DAYS;
+}
+
+export async function getTrash(householdId: number): Promise<Trash> {
+  const [transactions, categories, savings] = await Promise.all([
+    storage.getDeletedTransactions(householdId),
+    storage.getDeletedCategories(householdId),
+    storage.getDeletedSavings(householdId),
+  ]);
+  return { transactions, categories, savings, retentionDays: getRetentionDays() };
+}
+
+/**
+ * Take an item out of the trash. A transaction brings its category back with it
+ * when that was deleted too, so it doesn't come back uncategorized.
+ */
+export async function restoreTrashItem(
+  householdId: number,
+  type: TrashItemType,
+  id: number
+): Promise<Transaction | Category | Savings | undefined> {
+  switch (type) {
+    case "transactions": {
+      const transaction = await storage.restoreTransaction(householdId, id);
+      if (transaction?.categoryId && !await storage.getCategoryById(householdId, transaction.categoryId)) {
+        await storage.restoreCategory(householdId, transaction.categoryId);
+      }
+      return transaction;
+    }
+    case "categories":
+      return storage.restoreCategory(householdId, id);
+    case "savings":
+      return storage.restoreSavings(householdId, id);
+  }
+}
+
+/**
+ * Remove everything that has been in the trash for longer than the retention period
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const { transactions, categories, savings } = await storage.purgeDeletedItems(subDays(new Date(), getRetentionDays()));
+  const purged = transactions.length + categories.length + savings.length;
+  if (purged > 0) {
+    console.log(`[TRASH] Purged ${purged} items deleted more than ${getRetentionDays()} days ago`);
+  }
+  return purged;
+}
+
+/**
+ * Purge the trash now and once a day from then on
+ */
+export function scheduleTrashPurge(): void {
+  const purge = () => purgeExpiredTrash().catch(error => {
+    console.error("[TRASH] Could not purge the trash:", error);
+  });
+
+  purge();
+  // The timer alone shouldn't keep the process running
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
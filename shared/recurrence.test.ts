@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { expandRecurrence, parseRecurrenceRule } from "./recurrence";
+
+function dateKeys(dates: Date[]): string[] {
+  return dates.map(date =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+  );
+}
+
+function monthRange(year: number, month: number): [Date, Date] {
+  return [new Date(year, month, 1), new Date(year, month + 1, 0, 23, 59, 59, 999)];
+}
+
+test("an occurrence shifted back into the previous month is in that month", () => {
+  const rule = parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=1");
+  const dtstart = new Date(2026, 8, 1);
+  const options = { shift: "previous_business_day" };
+
+  // 1 Nov 2026 is a Sunday (and a holiday); it is due on Friday 30 Oct
+  assert.deepEqual(dateKeys(expandRecurrence(rule, dtstart, ...monthRange(2026, 9), options)), ["2026-10-01", "2026-10-30"]);
+  assert.deepEqual(dateKeys(expandRecurrence(rule, dtstart, ...monthRange(2026, 10), options)), []);
+});
+
+test("an occurrence shifted forward into the next month is in that month", () => {
+  const rule = parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=31");
+  const dtstart = new Date(2026, 11, 31);
+  const options = { shift: "next_business_day" };
+
+  // 31 Jan 2027 is a Sunday; it is due on Monday 1 Feb
+  assert.deepEqual(dateKeys(expandRecurrence(rule, dtstart, ...monthRange(2027, 0), options)), []);
+  assert.deepEqual(dateKeys(expandRecurrence(rule, dtstart, ...monthRange(2027, 1), options)), ["2027-02-01"]);
+});
+
+test("UNTIL applies to the date before shifting", () => {
+  const rule = parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=1;UNTIL=20261101");
+  const dtstart = new Date(2026, 8, 1);
+
+  assert.deepEqual(
+    dateKeys(expandRecurrence(rule, dtstart, ...monthRange(2026, 9), { shift: "previous_business_day" })),
+    ["2026-10-01", "2026-10-30"]
+  );
+});
@@ -0,0 +1,538 @@
+/**
+ * iCalendar RRULE-style recurrence shared by the server and the client.
+ *
+ * Supported rule parts: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (with
+ * ordinals such as 2MO or -1FR), BYMONTHDAY (negative counts from the month end),
+ * BYMONTH, BYSETPOS, COUNT and UNTIL. Weeks start on Monday. Ordinal BYDAY values
+ * are counted within the month, also for YEARLY rules.
+ *
+ * Examples:
+ *   every 2 weeks on Friday        FREQ=WEEKLY;INTERVAL=2;BYDAY=FR
+ *   quarterly                      FREQ=MONTHLY;INTERVAL=3
+ *   last Friday of the month       FREQ=MONTHLY;BYDAY=-1FR
+ *   last business day of the month FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1 (+ shift "previous_business_day")
+ */
+
+export const recurrenceFrequencies = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+// What happens to an occurrence that lands on a weekend or public holiday
+export const recurrenceShifts = ["none", "next_business_day", "previous_business_day", "nearest_business_day"] as const;
+export type RecurrenceShift = typeof recurrenceShifts[number];
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+
+export type WeekdaySpec = {
+  weekday: number; // 0 = Sunday, like Date.getDay()
+  ordinal?: number; // 1 = first, -1 = last within the month
+};
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: WeekdaySpec[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[];
+  count?: number;
+  until?: Date;
+};
+
+// The recurrence fields of a transaction
+export type RecurringSource = {
+  date: Date | string;
+  isRecurring?: boolean | null;
+  recurringInterval?: string | null;
+  recurringEndDate?: Date | string | null;
+  recurrenceRule?: string | null;
+  recurrenceShift?: string | null;
+};
+
+const MAX_PERIODS = 10000;
+
+function parseIntList(value: string, part: string, min: number, max: number): number[] {
+  return value.split(",").map(item => {
+    const num = Number(item);
+    if (!Number.isInteger(num) || num === 0 || Math.abs(num) > max || (min > 0 && num < min)) {
+      throw new Error(`Invalid ${part} value "${item}"`);
+    }
+    return num;
+  });
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})(?:T(\d{2}):?(\d{2}):?(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  const [, year, month, day, hours = "23", minutes = "59", seconds = "59"] = match;
+  return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+}
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix).
+ * Throws an Error describing the first invalid part.
+ */
+export function parseRecurrenceRule(ruleText: string): RecurrenceRule {
+  const text = ruleText.trim().replace(/^RRULE:/i, "");
+  if (!text) {
+    throw new Error("Recurrence rule is empty");
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined || value === "") {
+      throw new Error(`Invalid rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !recurrenceFrequencies.includes(freq)) {
+    throw new Error("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY");
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of Array.from(parts.entries())) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL": {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw new Error(`Invalid INTERVAL value "${value}"`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "BYDAY":
+        rule.byDay = value.split(",").map(item => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          if (!match) {
+            throw new Error(`Invalid BYDAY value "${item}"`);
+          }
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new Error(`Invalid BYDAY value "${item}"`);
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2] as typeof WEEKDAY_CODES[number]), ordinal };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(value, key, 0, 31);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseIntList(value, key, 1, 12);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = parseIntList(value, key, 0, 366);
+        break;
+      case "COUNT": {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) {
+          throw new Error(`Invalid COUNT value "${value}"`);
+        }
+        rule.count = count;
+        break;
+      }
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      case "WKST":
+        if (value !== "MO") {
+          throw new Error("Only WKST=MO is supported");
+        }
+        break;
+      default:
+        throw new Error(`Unsupported rule part "${key}"`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error("COUNT and UNTIL can't be used together");
+  }
+
+  return rule;
+}
+
+export function isValidRecurrenceRule(ruleText: string): boolean {
+  try {
+    parseRecurrenceRule(ruleText);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Error message for an invalid rule, or null when the rule is valid
+ */
+export function getRecurrenceRuleError(ruleText: string): string | null {
+  try {
+    parseRecurrenceRule(ruleText);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Turn a parsed rule back into its RRULE string
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ""}${WEEKDAY_CODES[d.weekday]}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const u = rule.until;
+    parts.push(`UNTIL=${u.getFullYear()}${String(u.getMonth() + 1).padStart(2, "0")}${String(u.getDate()).padStart(2, "0")}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * The rule equivalent of the legacy daily/weekly/monthly/yearly intervals
+ */
+export function ruleFromInterval(interval: string): RecurrenceRule | null {
+  switch (interval) {
+    case "daily": return { freq: "DAILY", interval: 1 };
+    case "weekly": return { freq: "WEEKLY", interval: 1 };
+    case "monthly": return { freq: "MONTHLY", interval: 1 };
+    case "yearly": return { freq: "YEARLY", interval: 1 };
+    default: return null;
+  }
+}
+
+/**
+ * The closest legacy interval for a rule, kept in `recurring_interval` for older code paths
+ */
+export function intervalForRule(rule: RecurrenceRule): "daily" | "weekly" | "monthly" | "yearly" {
+  switch (rule.freq) {
+    case "DAILY": return "daily";
+    case "WEEKLY": return "weekly";
+    case "MONTHLY": return "monthly";
+    case "YEARLY": return "yearly";
+  }
+}
+
+/**
+ * The recurrence rule of a transaction: its RRULE if set, otherwise its legacy interval
+ */
+export function getTransactionRecurrence(source: RecurringSource): RecurrenceRule | null {
+  if (!source.isRecurring) return null;
+  if (source.recurrenceRule) {
+    try {
+      return parseRecurrenceRule(source.recurrenceRule);
+    } catch (error) {
+      console.error(`[RECURRENCE] Ignoring invalid rule "${source.recurrenceRule}":`, error);
+    }
+  }
+  return source.recurringInterval ? ruleFromInterval(source.recurringInterval) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Business days
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function addDaysTo(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+/**
+ * Public holidays in Poland, where the household's bank and employers are
+ */
+export function getPublicHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const fixed = ["01-01", "01-06", "05-01", "05-03", "08-15", "11-01", "11-11", "12-25", "12-26"];
+  // Christmas Eve is a public holiday since 2025
+  if (year >= 2025) fixed.push("12-24");
+
+  const easter = easterSunday(year);
+  const holidays = new Set<string>([
+    ...fixed.map(monthDay => `${year}-${monthDay}`),
+    toDateKey(easter),
+    toDateKey(addDaysTo(easter, 1)), // Easter Monday
+    toDateKey(addDaysTo(easter, 49)), // Pentecost
+    toDateKey(addDaysTo(easter, 60)), // Corpus Christi
+  ]);
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+export function isBusinessDay(date: Date): boolean {
+  const weekday = date.getDay();
+  if (weekday === 0 || weekday === 6) return false;
+  return !getPublicHolidays(date.getFullYear()).has(toDateKey(date));
+}
+
+/**
+ * Move a date off weekends and public holidays according to the shift policy
+ */
+export function shiftToBusinessDay(date: Date, shift: RecurrenceShift | string | null | undefined): Date {
+  if (!shift || shift === "none" || isBusinessDay(date)) return date;
+
+  if (shift === "next_business_day" || shift === "previous_business_day") {
+    const step = shift === "next_business_day" ? 1 : -1;
+    let shifted = addDaysTo(date, step);
+    while (!isBusinessDay(shifted)) shifted = addDaysTo(shifted, step);
+    return shifted;
+  }
+
+  if (shift === "nearest_business_day") {
+    // Ties go to the earlier day (Saturday -> Friday, Sunday -> Monday)
+    for (let distance = 1; distance < 14; distance++) {
+      const before = addDaysTo(date, -distance);
+      if (isBusinessDay(before)) return before;
+      const after = addDaysTo(date, distance);
+      if (isBusinessDay(after)) return after;
+    }
+  }
+
+  return date;
+}
+
+// ---------------------------------------------------------------------------
+// Expansion
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function atTimeOf(year: number, month: number, day: number, time: Date): Date {
+  return new Date(year, month, day, time.getHours(), time.getMinutes(), time.getSeconds());
+}
+
+function matchesWeekday(date: Date, byDay: WeekdaySpec[]): boolean {
+  return byDay.some(spec => spec.weekday === date.getDay());
+}
+
+// Candidate days of one month for MONTHLY and YEARLY rules
+function monthCandidates(year: number, month: number, rule: RecurrenceRule, dtstart: Date): Date[] {
+  const monthLength = daysInMonth(year, month);
+  let days: number[] = [];
+
+  if (rule.byMonthDay?.length) {
+    // Explicit days that don't exist in this month are skipped, as in RFC 5545
+    days = rule.byMonthDay
+      .map(day => (day > 0 ? day : monthLength + day + 1))
+      .filter(day => day >= 1 && day <= monthLength);
+    if (rule.byDay?.length) {
+      days = days.filter(day => matchesWeekday(new Date(year, month, day), rule.byDay!));
+    }
+  } else if (rule.byDay?.length) {
+    for (const spec of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= monthLength; day++) {
+        if (new Date(year, month, day).getDay() === spec.weekday) matching.push(day);
+      }
+      if (spec.ordinal === undefined) {
+        days.push(...matching);
+      } else {
+        const picked = spec.ordinal > 0 ? matching[spec.ordinal - 1] : matching[matching.length + spec.ordinal];
+        if (picked !== undefined) days.push(picked);
+      }
+    }
+  } else {
+    // Same day as the start date, moved to the month end for short months (the 31st -> 30th)
+    days = [Math.min(dtstart.getDate(), monthLength)];
+  }
+
+  return Array.from(new Set(days)).map(day => atTimeOf(year, month, day, dtstart));
+}
+
+// All candidate dates of the period that starts `index` intervals after dtstart
+function periodCandidates(rule: RecurrenceRule, dtstart: Date, index: number): { periodStart: Date; dates: Date[] } {
+  const step = index * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = atTimeOf(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + step, dtstart);
+      const matches = (!rule.byMonth?.length || rule.byMonth.includes(day.getMonth() + 1)) &&
+        (!rule.byMonthDay?.length || rule.byMonthDay.some(d => d === day.getDate() || daysInMonth(day.getFullYear(), day.getMonth()) + d + 1 === day.getDate())) &&
+        (!rule.byDay?.length || matchesWeekday(day, rule.byDay));
+      return { periodStart: day, dates: matches ? [day] : [] };
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday
+      const mondayOffset = (dtstart.getDay() + 6) % 7;
+      const weekStart = atTimeOf(dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() - mondayOffset + step * 7, dtstart);
+      const weekdays = rule.byDay?.length ? rule.byDay.map(spec => spec.weekday) : [dtstart.getDay()];
+      const dates = weekdays
+        .map(weekday => addDaysTo(weekStart, (weekday + 6) % 7))
+        .filter(day => !rule.byMonth?.length || rule.byMonth.includes(day.getMonth() + 1));
+      return { periodStart: weekStart, dates };
+    }
+    case "MONTHLY": {
+      const monthStart = new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+      const year = monthStart.getFullYear();
+      const month = monthStart.getMonth();
+      if (rule.byMonth?.length && !rule.byMonth.includes(month + 1)) {
+        return { periodStart: monthStart, dates: [] };
+      }
+      return { periodStart: monthStart, dates: monthCandidates(year, month, rule, dtstart) };
+    }
+    case "YEARLY": {
+      const year = dtstart.getFullYear() + step;
+      const months = rule.byMonth?.length ? rule.byMonth.map(m => m - 1) : [dtstart.getMonth()];
+      const dates = months.flatMap(month => monthCandidates(year, month, rule, dtstart));
+      return { periodStart: new Date(year, 0, 1), dates };
+    }
+  }
+}
+
+function applySetPos(dates: Date[], bySetPos?: number[]): Date[] {
+  if (!bySetPos?.length) return dates;
+  return bySetPos
+    .map(pos => (pos > 0 ? dates[pos - 1] : dates[dates.length + pos]))
+    .filter((date): date is Date => date !== undefined)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+export type ExpandOptions = {
+  shift?: RecurrenceShift | string | null;
+  endDate?: Date | null; // the transaction's own end date, on top of the rule's UNTIL/COUNT
+};
+
+/**
+ * All occurrence dates of `rule` starting at `dtstart` that fall within [rangeStart, rangeEnd].
+ * COUNT is counted from dtstart, so ranges later in the series see the same dates.
+ * Occurrences are shifted off weekends/holidays after counting.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: ExpandOptions = {}
+): Date[] {
+  // Shifting can move an occurrence a few days across the range boundaries, so dates past
+  // rangeEnd are looked at too; UNTIL and the end date apply to the dates before shifting
+  const searchEnd = options.shift && options.shift !== "none" ? addDaysTo(rangeEnd, 7) : rangeEnd;
+  const limits = [searchEnd, rule.until, options.endDate].filter((d): d is Date => !!d);
+  const lastDate = new Date(Math.min(...limits.map(d => d.getTime())));
+
+  const result: Date[] = [];
+  let emitted = 0;
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    const { periodStart, dates } = periodCandidates(rule, dtstart, index);
+    if (periodStart > lastDate && rule.freq !== "WEEKLY") break;
+    if (rule.freq === "WEEKLY" && addDaysTo(periodStart, -1) > lastDate) break;
+
+    const sorted = dates.sort((a, b) => a.getTime() - b.getTime());
+    for (const date of applySetPos(sorted, rule.bySetPos)) {
+      if (date < dtstart) continue;
+      if (date > lastDate) continue;
+      if (rule.count !== undefined && emitted >= rule.count) return result;
+      emitted++;
+
+      const shifted = shiftToBusinessDay(date, options.shift);
+      if (shifted >= rangeStart && shifted <= rangeEnd) {
+        result.push(shifted);
+      }
+    }
+
+    if (rule.count !== undefined && emitted >= rule.count) break;
+  }
+
+  return result;
+}
+
+function toDate(value: Date | string): Date {
+  return typeof value === "string" ? new Date(value) : value;
+}
+
+/**
+ * Occurrence dates of a recurring transaction within [rangeStart, rangeEnd]
+ */
+export function getOccurrenceDates(source: RecurringSource, rangeStart: Date, rangeEnd: Date): Date[] {
+  const rule = getTransactionRecurrence(source);
+  if (!rule) return [];
+
+  return expandRecurrence(rule, toDate(source.date), rangeStart, rangeEnd, {
+    shift: source.recurrenceShift,
+    endDate: source.recurringEndDate ? toDate(source.recurringEndDate) : null,
+  });
+}
+
+/**
+ * Short human-readable summary, e.g. "Every 2 weeks on Fri" or "Monthly on the last Fri"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const ordinalNames: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", 5: "5th", [-1]: "last", [-2]: "2nd to last" };
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    DAILY: ["Daily", "days"],
+    WEEKLY: ["Weekly", "weeks"],
+    MONTHLY: ["Monthly", "months"],
+    YEARLY: ["Yearly", "years"],
+  };
+
+  const [single, plural] = units[rule.freq];
+  let text = rule.interval === 1 ? single
+    : rule.freq === "MONTHLY" && rule.interval === 3 ? "Quarterly"
+    : `Every ${rule.interval} ${plural}`;
+
+  const bySetPos = rule.bySetPos?.length === 1 ? rule.bySetPos[0] : undefined;
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(d => `${d.ordinal !== undefined ? `${ordinalNames[d.ordinal] ?? d.ordinal} ` : ""}${dayNames[d.weekday]}`);
+    const isWorkweek = rule.byDay.length === 5 && rule.byDay.every(d => d.ordinal === undefined && d.weekday >= 1 && d.weekday <= 5);
+    if (isWorkweek && bySetPos !== undefined) {
+      text += ` on the ${ordinalNames[bySetPos] ?? bySetPos} business day`;
+    } else {
+      text += ` on ${rule.byDay.some(d => d.ordinal !== undefined) ? "the " : ""}${days.join(", ")}`;
+    }
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.map(d => (d === -1 ? "last" : d)).join(", ")}`;
+  }
+  if (rule.count !== undefined) text += `, ${rule.count} times`;
+  if (rule.until) text += ` until ${toDateKey(rule.until)}`;
+
+  return text;
+}
+
+/**
+ * Summary of a transaction's recurrence, or null for one-time transactions
+ */
+export function describeTransactionRecurrence(source: RecurringSource): string | null {
+  const rule = getTransactionRecurrence(source);
+  return rule ? describeRecurrence(rule) : null;
+}
@@ -1,7 +1,9 @@
-import { pgTable, text, serial, integer, boolean, doublePrecision, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, doublePrecision, timestamp, date, jsonb, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { recurrenceShifts, getRecurrenceRuleError } from "./recurrence";
+import { getRulePatternError } from "./transaction-rules";
 
 // Custom transformers
 const dateTransformer = z.preprocess((val) => {
@@ -26,6 +28,40 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Households own all budget data; users join them with a role
+export const householdRoles = ["owner", "editor", "viewer"] as const;
+export type HouseholdRole = typeof householdRoles[number];
+
+// Household that owned every row before households existed (created by the migration)
+export const DEFAULT_HOUSEHOLD_ID = 1;
+
+export const households = pgTable("households", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertHouseholdSchema = z.object({
+  name: z.string().min(1, "Household name is required"),
+});
+
+export const householdMembers = pgTable("household_members", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("viewer"), // 'owner', 'editor', 'viewer'
+}, (table) => [
+  unique("household_members_household_user_key").on(table.householdId, table.userId),
+]);
+
+export const insertHouseholdMemberSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  role: z.enum(householdRoles, {
+    required_error: "Role is required",
+    invalid_type_error: "Role must be owner, editor or viewer"
+  }),
+});
+
 // Transaction categories
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
@@ -33,6 +69,22 @@ export const categories = pgTable("categories", {
   color: text("color").notNull(),
   isExpense: boolean("is_expense").notNull().default(true),
   emoji: text("emoji"),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  monthlyBudget: doublePrecision("monthly_budget"), // spending limit per month, null = no budget
+  budgetRollover: text("budget_rollover").notNull().default("reset"),
+  budgetStartMonth: text("budget_start_month"), // 'YYYY-MM' the limit applies from; rollover starts here
+  deletedAt: timestamp("deleted_at"), // in the trash since, see TRASH_RETENTION_DAYS
+});
+
+// What happens to the unspent (or overspent) part of a category budget at the end of a month
+export const budgetRolloverPolicies = ["reset", "carry_surplus", "carry_deficit"] as const;
+export type BudgetRolloverPolicy = typeof budgetRolloverPolicies[number];
+
+export const categoryBudgetFieldsSchema = z.object({
+  monthlyBudget: z.number().positive("Budget must be positive").nullable().optional(),
+  budgetRollover: z.enum(budgetRolloverPolicies, {
+    invalid_type_error: "Rollover must be reset, carry_surplus or carry_deficit"
+  }).optional(),
 });
 
 export const insertCategorySchema = createInsertSchema(categories).pick({
@@ -40,16 +92,60 @@ export const insertCategorySchema = createInsertSchema(categories).pick({
   color: true,
   isExpense: true,
   emoji: true,
+}).merge(categoryBudgetFieldsSchema);
+
+// People that transactions and savings are attributed to.
+// Transactions keep the person's name in `person_label`, so renaming a person updates them too.
+export const people = pgTable("people", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#6b7280"),
+  emoji: text("emoji"),
+  isActive: boolean("is_active").notNull().default(true),
+  // A shared person such as "Together" stands for expenses the members split, see server/settlement.ts
+  isShared: boolean("is_shared").notNull().default(false),
+  settlementShare: doublePrecision("settlement_share"), // percent of shared expenses under the "percentage" split
+}, (table) => [
+  unique("people_household_name_key").on(table.householdId, table.name),
+]);
+
+export const insertPersonSchema = createInsertSchema(people).pick({
+  name: true,
+  color: true,
+  emoji: true,
+  isActive: true,
+  isShared: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
 });
 
-// Person labels for transactions
-export const persons = ["Beni", "Fabi", "Michał", "Together"] as const;
-export type PersonLabel = typeof persons[number];
+// The name of one of the household's people; the server checks it against the `people` table
+export const personLabelSchema = z.string({
+  required_error: "Person is required",
+  invalid_type_error: "Person must be selected"
+}).min(1, "Person is required");
 
 // Recurring intervals
 export const recurringIntervals = ["daily", "weekly", "monthly", "yearly"] as const;
 export type RecurringInterval = typeof recurringIntervals[number];
 
+// RRULE-style rule (see shared/recurrence.ts); takes precedence over `recurringInterval`
+export const recurrenceRuleSchema = z.string().trim().superRefine((rule, ctx) => {
+  const error = getRecurrenceRuleError(rule);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid recurrence rule: ${error}` });
+  }
+});
+
+// Amounts are kept in the household's base currency; foreign amounts also keep
+// their original value and the rate they were converted at
+export const BASE_CURRENCY = "PLN";
+
+export const currencyCodeSchema = z.string().trim()
+  .transform(code => code.toUpperCase())
+  .pipe(z.string().regex(/^[A-Z]{3}$/, "Currency must be a three-letter ISO 4217 code"));
+
 // Transactions can be either expenses or income
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
@@ -58,12 +154,24 @@ export const transactions = pgTable("transactions", {
   date: timestamp("date").notNull(),
   notes: text("notes"),
   isExpense: boolean("is_expense").notNull(),
-  categoryId: integer("category_id"),
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: "set null" }),
   personLabel: text("person_label"),
   isRecurring: boolean("is_recurring").default(false),
   recurringInterval: text("recurring_interval"), // 'daily', 'weekly', 'monthly', 'yearly'
   recurringEndDate: timestamp("recurring_end_date"),
+  recurrenceRule: text("recurrence_rule"), // e.g. 'FREQ=MONTHLY;BYDAY=-1FR'
+  recurrenceShift: text("recurrence_shift"), // weekend/holiday policy, see recurrenceShifts
   isPaid: boolean("is_paid").default(false),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  originalAmount: doublePrecision("original_amount"), // in originalCurrency; `amount` is in BASE_CURRENCY
+  originalCurrency: text("original_currency"), // ISO 4217, null for base currency transactions
+  exchangeRate: doublePrecision("exchange_rate"), // BASE_CURRENCY per unit of originalCurrency
+  rateDate: date("rate_date"), // 'YYYY-MM-DD' the rate was published for
+  accountId: integer("account_id").references(() => accounts.id, { onDelete: "set null" }),
+  // Set for transfers: `amount` moves from accountId to this account and is neither income nor expense
+  transferAccountId: integer("transfer_account_id").references(() => accounts.id, { onDelete: "set null" }),
+  paidBy: text("paid_by"), // name of the member who paid, for the settlement; null when nobody is owed for it
+  deletedAt: timestamp("deleted_at"), // in the trash since, see TRASH_RETENTION_DAYS
 });
 
 // Override the auto-generated schema with our custom validations
@@ -103,46 +211,498 @@ export const insertTransactionSchema = z.object({
   categoryId: z.number().refine(val => val !== undefined && val !== null, {
     message: "Category is required"
   }),
-  personLabel: z.enum(persons, {
-    required_error: "Person is required",
-    invalid_type_error: "Person must be selected"
-  }),
+  personLabel: personLabelSchema,
   isRecurring: z.boolean().nullable().optional(),
   recurringInterval: z.enum(recurringIntervals).nullable().optional(),
   recurringEndDate: dateTransformer.nullable().optional(),
+  recurrenceRule: recurrenceRuleSchema.nullable().optional(),
+  recurrenceShift: z.enum(recurrenceShifts).nullable().optional(),
   isPaid: z.boolean().default(false).optional(),
+  // For foreign currency transactions the server derives `amount` from these (see server/exchange-rates.ts).
+  // Without an exchangeRate the rate table is used; with one (e.g. from a card statement) it is kept as is.
+  originalAmount: z.number().positive("Original amount must be positive").nullable().optional(),
+  originalCurrency: currencyCodeSchema.nullable().optional(),
+  exchangeRate: z.number().positive("Exchange rate must be positive").nullable().optional(),
+  accountId: z.number().int().positive().nullable().optional(),
+  paidBy: personLabelSchema.nullable().optional(),
 });
 
+// Exchange rates to BASE_CURRENCY, one per currency and day (NBP table A or a loaded file)
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  currency: text("currency").notNull(),
+  date: date("date").notNull(), // 'YYYY-MM-DD' the rate was published for
+  rate: doublePrecision("rate").notNull(), // BASE_CURRENCY per unit of currency
+  source: text("source").notNull(), // 'nbp' or 'file'
+}, (table) => [
+  unique("exchange_rates_currency_date_key").on(table.currency, table.date),
+]);
+
+export const exchangeRateSources = ["nbp", "file"] as const;
+export type ExchangeRateSource = typeof exchangeRateSources[number];
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = Omit<ExchangeRate, "id">;
+
+// POST /api/exchange-rates/nbp: fetch NBP table A for a date range
+export const nbpFetchRequestSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format"),
+}).refine(range => range.from <= range.to, { message: "The range must not end before it starts", path: ["to"] });
+
+// POST /api/exchange-rates/import: CSV (date,currency,rate) or NBP table JSON
+export const exchangeRateImportSchema = z.object({
+  content: z.string().min(1, "The file is empty"),
+});
+
+// GET /api/exchange-rates/convert
+export type CurrencyConversion = {
+  currency: string;
+  amount: number; // in currency
+  rate: number;
+  rateDate: string; // 'YYYY-MM-DD'
+  baseAmount: number; // in BASE_CURRENCY
+};
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
+export type Household = typeof households.$inferSelect;
+
+export type InsertHouseholdMember = z.infer<typeof insertHouseholdMemberSchema>;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+
+// A household as seen by one of its members
+export type HouseholdMembership = {
+  household: Household;
+  role: HouseholdRole;
+};
+
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
 
+export type InsertPerson = z.infer<typeof insertPersonSchema>;
+export type Person = typeof people.$inferSelect;
+
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 
+// A transaction as the client submits it; the currency fields are only sent for foreign amounts
+// and the server fills in the rest of them. Tags can be given right away.
+type CurrencyFieldName = "originalAmount" | "originalCurrency" | "exchangeRate" | "rateDate";
+export type TransactionDraft = Omit<Transaction, "id" | "householdId" | "deletedAt" | "accountId" | "transferAccountId" | "paidBy" | CurrencyFieldName> &
+  Partial<Pick<InsertTransaction, "originalAmount" | "originalCurrency" | "exchangeRate" | "accountId" | "paidBy">> &
+  { tags?: string[] };
+
+/**
+ * Whether a transaction moves money between two of the household's accounts
+ */
+export function isTransfer(transaction: Pick<Transaction, "transferAccountId">): boolean {
+  return transaction.transferAccountId !== null && transaction.transferAccountId !== undefined;
+}
+
 // Table relations
 export const categoriesRelations = relations(categories, ({ many }) => ({
   transactions: many(transactions),
 }));
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   category: one(categories, {
     fields: [transactions.categoryId],
     references: [categories.id],
   }),
+  occurrences: many(transactionOccurrences),
+}));
+
+// Per-occurrence overrides for recurring transactions (skip, paid, amount, note, title, category, person)
+// One row per transaction and occurrence date, so every device sees the same month
+export const transactionOccurrences = pgTable("transaction_occurrences", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  occurrenceDate: date("occurrence_date").notNull(), // 'YYYY-MM-DD'
+  isSkipped: boolean("is_skipped").notNull().default(false),
+  isPaid: boolean("is_paid"),
+  amountOverride: doublePrecision("amount_override"),
+  note: text("note"),
+  titleOverride: text("title_override"),
+  categoryIdOverride: integer("category_id_override").references(() => categories.id, { onDelete: "set null" }),
+  personLabelOverride: text("person_label_override"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("transaction_occurrences_transaction_date_key").on(table.transactionId, table.occurrenceDate),
+]);
+
+export const occurrenceDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Occurrence date must be in YYYY-MM-DD format");
+
+export const insertTransactionOccurrenceSchema = z.object({
+  transactionId: z.number().int().positive(),
+  occurrenceDate: occurrenceDateSchema,
+  isSkipped: z.boolean().default(false).optional(),
+  isPaid: z.boolean().nullable().optional(),
+  amountOverride: z.number().positive("Amount must be positive").nullable().optional(),
+  note: z.string().nullable().optional(),
+  titleOverride: z.string().min(1, "Title is required").nullable().optional(),
+  categoryIdOverride: z.number().int().positive().nullable().optional(),
+  personLabelOverride: personLabelSchema.nullable().optional(),
+});
+
+export type InsertTransactionOccurrence = z.infer<typeof insertTransactionOccurrenceSchema>;
+export type TransactionOccurrence = typeof transactionOccurrences.$inferSelect;
+
+export const transactionOccurrencesRelations = relations(transactionOccurrences, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionOccurrences.transactionId],
+    references: [transactions.id],
+  }),
 }));
 
-// Savings table to track manual savings contributions
+// Split lines share a transaction's amount between categories and people, e.g. the groceries,
+// household items and a gift on one receipt (see shared/split-lines.ts). They add up to the amount;
+// an unsplit transaction has none.
+export const transactionLines = pgTable("transaction_lines", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // order on the receipt, from 0
+  amount: doublePrecision("amount").notNull(), // in BASE_CURRENCY, like the transaction's amount
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: "set null" }),
+  personLabel: text("person_label"),
+  note: text("note"),
+});
+
+export const MAX_TRANSACTION_LINES = 50;
+
+export const transactionLineSchema = z.object({
+  amount: z.number({ invalid_type_error: "Line amount must be a number" }).positive("Line amounts must be positive"),
+  categoryId: z.number().int().positive().nullable(),
+  personLabel: personLabelSchema.nullable(),
+  note: z.string().trim().nullable().optional(),
+});
+
+// PUT /api/transactions/:id/lines; no lines removes the split
+export const transactionLinesSchema = z.object({
+  lines: z.array(transactionLineSchema)
+    .max(MAX_TRANSACTION_LINES, `Split into at most ${MAX_TRANSACTION_LINES} lines`)
+    .refine(lines => lines.length !== 1, "A split needs at least two lines"),
+});
+
+export type InsertTransactionLine = z.infer<typeof transactionLineSchema>;
+export type TransactionLine = typeof transactionLines.$inferSelect;
+
+// What a part of an amount counts towards in the breakdowns by category and person
+export type SplitPart = Pick<TransactionLine, "amount" | "categoryId" | "personLabel">;
+
+// Free-form tags group transactions across categories, e.g. the costs of a trip or a project.
+// Tags belong to the household; a transaction can have any number of them.
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // see tagNameSchema
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("tags_household_name_key").on(table.householdId, table.name),
+]);
+
+export const transactionTags = pgTable("transaction_tags", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  unique("transaction_tags_transaction_tag_key").on(table.transactionId, table.tagId),
+]);
+
+export const MAX_TRANSACTION_TAGS = 20;
+
+// Tags are kept lowercase without spaces, so "Vacation 2026" and "vacation-2026" are one tag
+export function toTagName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+export const tagNameSchema = z.string()
+  .trim()
+  .min(1, "Tag is required")
+  .max(40, "Tags can be at most 40 characters")
+  .transform(toTagName);
+
+// PUT /api/transactions/:id/tags, and the optional `tags` of POST /api/transactions; no tags removes them
+export const transactionTagsSchema = z.object({
+  tags: z.array(tagNameSchema)
+    .max(MAX_TRANSACTION_TAGS, `At most ${MAX_TRANSACTION_TAGS} tags per transaction`)
+    .transform(names => Array.from(new Set(names))),
+});
+
+export type Tag = typeof tags.$inferSelect;
+export type TransactionTag = typeof transactionTags.$inferSelect;
+
+// A tag with the transactions it is on, for GET /api/tags
+export type TagWithUsage = Tag & {
+  transactionCount: number;
+};
+
+// GET /api/tags/totals: the occurrences of each tag's transactions between two dates
+export const tagTotalsQuerySchema = z.object({
+  from: occurrenceDateSchema,
+  to: occurrenceDateSchema,
+}).refine(query => query.from <= query.to, { message: "The range has to end after it starts", path: ["to"] });
+
+export type TagTotal = {
+  tag: string;
+  expenses: number;
+  income: number;
+  count: number; // occurrences in the range
+};
+
+// Search across all months; `q` is written in the query language of shared/transaction-search.ts
+export const transactionSearchSorts = ["date", "amount", "title"] as const;
+
+export const transactionSearchQuerySchema = z.object({
+  q: z.string().max(500).default(""),
+  sort: z.enum(transactionSearchSorts).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type TransactionSearchQuery = z.infer<typeof transactionSearchQuerySchema>;
+
+// One occurrence that matched a search
+export type TransactionSearchHit = {
+  transactionId: number;
+  date: string; // 'YYYY-MM-DD'
+  title: string;
+  amount: number;
+  isExpense: boolean;
+  isPaid: boolean;
+  isRecurring: boolean;
+  categoryName: string | null;
+  personLabel: string | null;
+  notes: string | null;
+  tags: string[];
+};
+
+export type TransactionSearchResult = {
+  hits: TransactionSearchHit[];
+  total: number; // matches over all pages
+  page: number;
+  pageSize: number;
+};
+
+// Where the household's money is kept; transactions and savings can be booked to one
+export const accountTypes = ["checking", "savings", "credit_card", "cash"] as const;
+export type AccountType = typeof accountTypes[number];
+
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  type: text("type").notNull().default("checking"), // see accountTypes
+  currency: text("currency").notNull().default(BASE_CURRENCY),
+  openingBalance: doublePrecision("opening_balance").notNull().default(0), // in the account's currency
+  openingBalanceDate: date("opening_balance_date").notNull(), // 'YYYY-MM-DD', end-of-day balance of that day
+  isArchived: boolean("is_archived").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAccountSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  type: z.enum(accountTypes),
+  currency: currencyCodeSchema.default(BASE_CURRENCY),
+  openingBalance: z.number({ invalid_type_error: "Opening balance must be a number" }).default(0),
+  openingBalanceDate: occurrenceDateSchema,
+  isArchived: z.boolean().default(false).optional(),
+});
+
+// PATCH /api/accounts/:id
+export const updateAccountSchema = insertAccountSchema.partial();
+
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type Account = typeof accounts.$inferSelect;
+
+// An account with its balance today, as returned by GET /api/accounts
+export type AccountWithBalance = Account & {
+  balance: number; // in the account's currency
+};
+
+// POST /api/transfers: stored as a transaction from one account to the other
+const transferFields = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  amount: z.number({ invalid_type_error: "Amount must be a number" }).positive("Amount must be positive"),
+  date: dateTransformer,
+  notes: z.string().nullable().optional(),
+  fromAccountId: z.number().int().positive(),
+  toAccountId: z.number().int().positive(),
+  recurrenceRule: recurrenceRuleSchema.nullable().optional(),
+});
+
+export const insertTransferSchema = transferFields.refine(transfer => transfer.fromAccountId !== transfer.toAccountId, {
+  message: "A transfer needs two different accounts",
+  path: ["toAccountId"],
+});
+
+// PATCH /api/transfers/:id; the merged transfer is checked against insertTransferSchema
+export const updateTransferSchema = transferFields.partial();
+
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+
+// Statement reconciliation of an account (see server/reconciliation.ts): an open reconciliation
+// collects cleared entries until it is finished, which locks them as reconciled
+export const reconciliations = pgTable("reconciliations", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  statementDate: date("statement_date").notNull(), // 'YYYY-MM-DD', closing date of the statement
+  statementBalance: doublePrecision("statement_balance").notNull(), // in the account's currency
+  clearedBalance: doublePrecision("cleared_balance"), // set when finished
+  finishedAt: timestamp("finished_at"), // null while the reconciliation is open
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertReconciliationSchema = z.object({
+  statementDate: occurrenceDateSchema,
+  statementBalance: z.number({ invalid_type_error: "Statement balance must be a number" }),
+});
+
+// PATCH /api/reconciliations/:id, only while it is open
+export const updateReconciliationSchema = insertReconciliationSchema.partial();
+
+export type InsertReconciliation = z.infer<typeof insertReconciliationSchema>;
+export type Reconciliation = typeof reconciliations.$inferSelect;
+
+// One occurrence of a transaction ticked off against an account's statement. A transfer is
+// cleared on each of its two accounts separately.
+export const clearedEntries = pgTable("cleared_entries", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  occurrenceDate: date("occurrence_date").notNull(), // 'YYYY-MM-DD'
+  // Set when a finished reconciliation locks the entry
+  reconciliationId: integer("reconciliation_id").references(() => reconciliations.id, { onDelete: "set null" }),
+  clearedAt: timestamp("cleared_at").notNull().defaultNow(),
+}, (table) => [
+  unique("cleared_entries_account_transaction_date_key").on(table.accountId, table.transactionId, table.occurrenceDate),
+]);
+
+// PUT /api/accounts/:id/cleared
+export const clearEntrySchema = z.object({
+  transactionId: z.number().int().positive(),
+  occurrenceDate: occurrenceDateSchema,
+  isCleared: z.boolean(),
+});
+
+export type InsertClearedEntry = Pick<typeof clearedEntries.$inferInsert,
+  "accountId" | "transactionId" | "occurrenceDate" | "reconciliationId">;
+export type ClearedEntry = typeof clearedEntries.$inferSelect;
+
+export const clearingStatuses = ["uncleared", "cleared", "reconciled"] as const;
+export type ClearingStatus = typeof clearingStatuses[number];
+
+// An income, expense or transfer occurrence as it changes an account's balance
+export type AccountEntry = {
+  transactionId: number;
+  occurrenceDate: string; // 'YYYY-MM-DD'
+  title: string;
+  amount: number; // in the account's currency, negative for money going out
+  status: ClearingStatus;
+};
+
+// GET /api/accounts/:id/reconciliation
+export type AccountReconciliation = {
+  reconciliation: Reconciliation | null; // the open one
+  lastReconciliation: Reconciliation | null; // the latest finished one
+  // Entries not reconciled yet, up to the statement date (today without an open reconciliation)
+  entries: AccountEntry[];
+  // Opening balance plus the cleared and reconciled entries up to that date; savings entries
+  // booked to the account always count
+  clearedBalance: number;
+  difference: number | null; // statement balance minus cleared balance, with an open reconciliation
+};
+
+// POST /api/reconciliations/:id/suggest: statement rows matched to the account's entries
+export type ReconciliationSuggestion = {
+  matches: { line: number; transactionId: number; occurrenceDate: string }[];
+  unmatched: { line: number; date: string; title: string; amount: number }[]; // amount negative for money going out
+  errors: string[]; // lines that couldn't be read
+};
+
+// Budget limit of a category for one month, replacing its default monthly budget
+export const categoryBudgetOverrides = pgTable("category_budget_overrides", {
+  id: serial("id").primaryKey(),
+  categoryId: integer("category_id").notNull().references(() => categories.id, { onDelete: "cascade" }),
+  month: text("month").notNull(), // 'YYYY-MM'
+  amount: doublePrecision("amount").notNull(),
+}, (table) => [
+  unique("category_budget_overrides_category_month_key").on(table.categoryId, table.month),
+]);
+
+export const categoryBudgetOverrideSchema = z.object({
+  amount: z.number().nonnegative("Budget can't be negative"),
+});
+
+export type CategoryBudgetOverride = typeof categoryBudgetOverrides.$inferSelect;
+
+// Named things the household saves up for, with an optional recurring auto-contribution
+export const savingsGoals = pgTable("savings_goals", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  emoji: text("emoji"),
+  color: text("color").notNull().default("#10b981"),
+  targetAmount: doublePrecision("target_amount").notNull(),
+  targetDate: date("target_date"), // 'YYYY-MM-DD'
+  contributionAmount: doublePrecision("contribution_amount"), // null = no auto-contribution
+  contributionInterval: text("contribution_interval"), // 'weekly' or 'monthly'
+  contributionPersonLabel: text("contribution_person_label"),
+  nextContributionDate: date("next_contribution_date"), // 'YYYY-MM-DD', null once the goal is reached
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const contributionIntervals = ["weekly", "monthly"] as const;
+export type ContributionInterval = typeof contributionIntervals[number];
+
+const savingsGoalFields = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  emoji: z.string().nullable().optional(),
+  color: z.string().optional(),
+  targetAmount: z.number().positive("Target amount must be positive"),
+  targetDate: occurrenceDateSchema.nullable().optional(),
+  contributionAmount: z.number().positive("Contribution must be positive").nullable().optional(),
+  contributionInterval: z.enum(contributionIntervals).nullable().optional(),
+  contributionPersonLabel: z.string().min(1).nullable().optional(),
+  nextContributionDate: occurrenceDateSchema.nullable().optional(),
+});
+
+export const insertSavingsGoalSchema = savingsGoalFields.refine(goal => !goal.contributionAmount || (goal.contributionInterval && goal.contributionPersonLabel && goal.nextContributionDate), {
+  message: "An auto-contribution needs an interval, a person and a first date",
+  path: ["contributionAmount"],
+});
+
+// PATCH /api/savings-goals/:id; the merged goal is checked against insertSavingsGoalSchema
+export const updateSavingsGoalSchema = savingsGoalFields.partial();
+
+export type InsertSavingsGoal = z.infer<typeof insertSavingsGoalSchema>;
+export type SavingsGoal = typeof savingsGoals.$inferSelect;
+
+// Savings table to track manual savings contributions.
+// Withdrawals are stored with a negative amount so every sum stays a plain sum.
 export const savings = pgTable("savings", {
   id: serial("id").primaryKey(),
   amount: doublePrecision("amount").notNull(),
   date: timestamp("date").notNull(),
   notes: text("notes"),
   personLabel: text("person_label"),
-});
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  goalId: integer("goal_id").references(() => savingsGoals.id, { onDelete: "set null" }),
+  // With accounts, an entry is a transfer from fromAccountId into the savings account accountId
+  accountId: integer("account_id").references(() => accounts.id, { onDelete: "set null" }),
+  fromAccountId: integer("from_account_id").references(() => accounts.id, { onDelete: "set null" }),
+  // 'YYYY-MM-DD' of the goal's auto-contribution the entry books; null for entries made by hand
+  contributionDate: date("contribution_date"),
+  deletedAt: timestamp("deleted_at"), // in the trash since, see TRASH_RETENTION_DAYS
+}, (table) => [
+  // An auto-contribution is booked once, even by two requests at the same time
+  unique("savings_goal_contribution_date_key").on(table.goalId, table.contributionDate),
+]);
 
 // Schema for savings
 export const insertSavingsSchema = z.object({
@@ -176,16 +736,32 @@ export const insertSavingsSchema = z.object({
   ),
   date: dateTransformer,
   notes: z.string().nullable().optional(),
-  personLabel: z.enum(persons, {
-    required_error: "Person is required",
-    invalid_type_error: "Person must be selected"
-  }),
+  personLabel: personLabelSchema,
+  goalId: z.number().int().positive().nullable().optional(),
+  accountId: z.number().int().positive().nullable().optional(),
+  fromAccountId: z.number().int().positive().nullable().optional(),
+});
+
+// POST /api/savings: a deposit, or a withdrawal of `amount` when isWithdrawal is set
+export const savingsEntrySchema = insertSavingsSchema.extend({
+  isWithdrawal: z.boolean().optional(),
 });
 
 // Savings types
 export type InsertSavings = z.infer<typeof insertSavingsSchema>;
+export type SavingsEntry = z.infer<typeof savingsEntrySchema>;
 export type Savings = typeof savings.$inferSelect;
 
+// A goal with its progress, as returned by GET /api/savings-goals
+export type SavingsGoalStatus = SavingsGoal & {
+  saved: number;
+  remaining: number;
+  progress: number; // saved / target, 0..1
+  projectedCompletionDate: string | null; // 'YYYY-MM-DD', null when there's no pace to project from
+  requiredMonthly: number | null; // to reach the target by the target date
+  isOnTrack: boolean | null; // null without a target date
+};
+
 // Extended types for the app
 export type TransactionWithCategory = Transaction & {
   category?: Category;
@@ -193,4 +769,1013 @@ export type TransactionWithCategory = Transaction & {
   displayDate?: Date;           // Date for a specific recurring instance
   displayDateStr?: string;      // Formatted date string for display
   isRecurringInstance?: boolean; // Flag to identify recurring instances
+  lines?: TransactionLine[];    // Split lines, only on split transactions
+  tags?: string[];              // Tag names, only on tagged transactions
+};
+
+// Query parameters of GET /api/transactions, which always returns a page
+const queryFlagSchema = z.enum(["true", "false"]).transform(value => value === "true");
+
+export const transactionListQuerySchema = z.object({
+  from: occurrenceDateSchema.optional(), // 'YYYY-MM-DD', inclusive
+  to: occurrenceDateSchema.optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  person: z.string().trim().min(1).optional(),
+  type: z.enum(["expense", "income"]).optional(),
+  isPaid: queryFlagSchema.optional(),
+  recurring: queryFlagSchema.optional(),
+  cursor: z.string().regex(/^\d+_\d+$/, "Invalid cursor").optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+  .refine(query => !query.from === !query.to, { message: "A date range needs both from and to", path: ["to"] })
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: "The range has to end after it starts",
+    path: ["to"],
+  });
+
+export type TransactionListQuery = z.infer<typeof transactionListQuerySchema>;
+
+// One page of GET /api/transactions, by date and then id
+export type TransactionPage = {
+  transactions: TransactionWithCategory[];
+  total: number; // matches over all pages
+  nextCursor: string | null; // pass as `cursor` for the next page; null on the last one
+};
+
+// A recurring transaction changed from one occurrence on (POST /api/transactions/:id/split)
+export type SeriesSplit = {
+  previous: Transaction | null; // the series up to that occurrence, null when it was the first one
+  next: Transaction; // the series from that occurrence on, with the changes
+};
+
+// Monthly budget as computed by GET /api/budget/:yyyy-mm
+export const budgetMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format");
+
+// One dated occurrence of a transaction with its overrides applied
+export type BudgetOccurrence = {
+  transactionId: number;
+  date: string; // 'YYYY-MM-DD'
+  title: string;
+  amount: number;
+  isExpense: boolean;
+  isPaid: boolean;
+  isRecurring: boolean;
+  categoryId: number | null;
+  personLabel: string | null;
+  note: string | null;
+  // The amount by split line; null when the transaction isn't split or the occurrence
+  // overrides its category or person
+  lines: SplitPart[] | null;
+};
+
+export type BudgetCategoryTotal = {
+  categoryId: number | null;
+  name: string;
+  color: string | null;
+  income: number;
+  expenses: number;
+};
+
+export type BudgetPersonTotal = {
+  personLabel: string;
+  color: string | null;
+  income: number;
+  expenses: number;
+  savings: number;
+};
+
+export type MonthlyBudget = {
+  month: string; // 'YYYY-MM'
+  income: number;
+  expenses: number;
+  paidExpenses: number;
+  savings: number;
+  carryOver: number; // balance at the end of the previous month
+  balance: number; // carryOver + income - expenses - savings
+  skippedCount: number;
+  byCategory: BudgetCategoryTotal[];
+  byPerson: BudgetPersonTotal[];
+  occurrences: BudgetOccurrence[];
+};
+
+// Budget vs. actual of one category, as computed by GET /api/budget/:yyyy-mm/categories
+export type CategoryBudgetStatus = {
+  categoryId: number;
+  name: string;
+  color: string;
+  emoji: string | null;
+  limit: number; // this month's limit: the override if there is one, otherwise the monthly budget
+  isOverride: boolean;
+  rollover: BudgetRolloverPolicy;
+  carriedOver: number; // surplus (+) or deficit (-) brought in from earlier months
+  available: number; // limit + carriedOver
+  spent: number; // paid or already due expenses
+  projected: number; // spent + unpaid recurring items still due this month
+  remaining: number; // available - projected
+  isOverspent: boolean; // spent > available
+  willOverspend: boolean; // projected > available
+};
+
+// Where the cash-flow forecast starts from and when it warns, one row per household
+export const forecastSettings = pgTable("forecast_settings", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().unique().references(() => households.id, { onDelete: "cascade" }),
+  openingBalance: doublePrecision("opening_balance").notNull(),
+  balanceDate: date("balance_date").notNull(), // 'YYYY-MM-DD', the day the opening balance is the end-of-day balance of
+  lowBalanceThreshold: doublePrecision("low_balance_threshold").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// PUT /api/budget/forecast/settings
+export const forecastSettingsSchema = z.object({
+  openingBalance: z.number({ invalid_type_error: "Opening balance must be a number" }),
+  balanceDate: occurrenceDateSchema,
+  lowBalanceThreshold: z.number({ invalid_type_error: "Threshold must be a number" }),
+});
+
+export type InsertForecastSettings = z.infer<typeof forecastSettingsSchema>;
+export type ForecastSettings = typeof forecastSettings.$inferSelect;
+
+// How far ahead the forecast looks, in months
+export const forecastHorizons = [3, 6, 12] as const;
+export type ForecastHorizon = typeof forecastHorizons[number];
+
+export const forecastQuerySchema = z.object({
+  months: z.coerce.number()
+    .refine((months): months is ForecastHorizon => forecastHorizons.includes(months as ForecastHorizon), "Months must be 3, 6 or 12")
+    .default(3),
+});
+
+// One day of the forecast; amounts are what moves the balance that day
+export type CashFlowForecastDay = {
+  date: string; // 'YYYY-MM-DD'
+  income: number;
+  expenses: number;
+  savings: number; // deposits and planned goal contributions, less withdrawals
+  balance: number; // end-of-day balance
+  items: { title: string; amount: number }[]; // signed: income positive, expenses and savings negative
+};
+
+export type ForecastPoint = {
+  date: string; // 'YYYY-MM-DD'
+  balance: number;
+};
+
+// Projected daily balance, as computed by GET /api/budget/forecast?months=3|6|12
+export type CashFlowForecast = {
+  months: ForecastHorizon;
+  isConfigured: boolean; // false until an opening balance is saved; the forecast then starts at 0 today
+  openingBalance: number;
+  balanceDate: string; // 'YYYY-MM-DD'
+  lowBalanceThreshold: number;
+  days: CashFlowForecastDay[]; // from today (or the balance date if later) to the end of the horizon
+  lowest: ForecastPoint; // the first of the lowest days
+  firstBelowThreshold: ForecastPoint | null;
+};
+
+// Reports look back over the last 12 or 24 complete months (see server/reports.ts)
+export const reportSpans = [12, 24] as const;
+export type ReportSpan = typeof reportSpans[number];
+
+export const reportQuerySchema = z.object({
+  months: z.coerce.number()
+    .refine((months): months is ReportSpan => reportSpans.includes(months as ReportSpan), "Months must be 12 or 24")
+    .default(12),
+});
+
+export type ReportMonth = {
+  month: string; // 'YYYY-MM'
+  income: number;
+  expenses: number;
+  savings: number;
+  savingsRate: number | null; // savings as a share of income (0.25 = 25%), null without income
+};
+
+// Expenses of a category in one period against an earlier one
+export type ReportCategoryChange = {
+  categoryId: number | null; // null for uncategorized expenses
+  name: string;
+  color: string | null;
+  current: number;
+  previous: number;
+  change: number; // current - previous
+  changePercent: number | null; // null when there was nothing before
+};
+
+export type ReportAverageMonth = {
+  income: number;
+  expenses: number;
+  savings: number;
+  savingsRate: number | null;
+  byCategory: { categoryId: number | null; name: string; color: string | null; expenses: number }[];
+};
+
+export type SpendingReport = {
+  months: ReportSpan;
+  from: string; // 'YYYY-MM', the first month of the trend
+  to: string; // 'YYYY-MM', the last complete month
+  trend: ReportMonth[];
+  // The last 12 months against the 12 before them, by category
+  yearOverYear: ReportCategoryChange[];
+  // The categories that changed most from the month before `to` to `to`
+  movers: ReportCategoryChange[];
+  averageMonth: ReportAverageMonth;
+};
+
+// The year of an annual statement, GET /api/reports/annual/:year.pdf
+export const statementYearSchema = z.string().regex(/^\d{4}$/, "Year must be in YYYY format").transform(Number);
+
+export const reportEntryKinds = ["income", "expense", "savings"] as const;
+export type ReportEntryKind = typeof reportEntryKinds[number];
+
+// The entries behind a figure of a report, for drilling down into it
+export const reportEntriesQuerySchema = z.object({
+  from: budgetMonthSchema,
+  to: budgetMonthSchema, // months, both included
+  kind: z.enum(reportEntryKinds).optional(),
+  categoryId: z.union([z.literal("none"), z.coerce.number().int().positive()]).optional(), // "none": uncategorized
+}).refine(query => query.from <= query.to, { message: "The range has to end after it starts", path: ["to"] });
+
+export type ReportEntriesQuery = z.infer<typeof reportEntriesQuerySchema>;
+
+export type ReportEntry = {
+  kind: ReportEntryKind;
+  date: string; // 'YYYY-MM-DD'
+  title: string;
+  amount: number; // of the category when a split transaction is drilled into by category
+  categoryName: string | null;
+  personLabel: string | null;
+  transactionId: number | null; // null for savings
+};
+
+// Subscriptions are recurring expenses tracked with their renewals, free trial and price changes.
+// The schedule and price are those of the recurring transaction, so the budgets already count them.
+export const subscriptions = pgTable("subscriptions", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  trialEndsAt: date("trial_ends_at"), // 'YYYY-MM-DD', the last day of the free trial
+  remindDaysBefore: integer("remind_days_before"), // days before the next charge to remind about cancelling; null = no reminder
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("subscriptions_transaction_id_key").on(table.transactionId),
+]);
+
+// A subscription's price history: one row per change, recorded when its series changes amount
+export const subscriptionPriceChanges = pgTable("subscription_price_changes", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(() => subscriptions.id, { onDelete: "cascade" }),
+  effectiveDate: date("effective_date").notNull(), // 'YYYY-MM-DD', the first charge at the new price
+  previousAmount: doublePrecision("previous_amount").notNull(),
+  amount: doublePrecision("amount").notNull(),
+  currency: text("currency"), // of both amounts, null for BASE_CURRENCY
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Billing cycles a subscription can be set up with; other schedules are kept as the series has them
+export const subscriptionBillingCycles = ["weekly", "monthly", "quarterly", "yearly"] as const;
+export type SubscriptionBillingCycle = typeof subscriptionBillingCycles[number];
+
+export const MAX_REMIND_DAYS_BEFORE = 60;
+
+const subscriptionSettingsFields = z.object({
+  trialEndsAt: occurrenceDateSchema.nullable().optional(),
+  remindDaysBefore: z.number().int()
+    .min(0, "Reminder can't be after the charge")
+    .max(MAX_REMIND_DAYS_BEFORE, `Reminder can be at most ${MAX_REMIND_DAYS_BEFORE} days ahead`)
+    .nullable().optional(),
+});
+
+// POST /api/subscriptions: track an existing recurring expense by its transactionId, or start a
+// new recurring expense from the other fields, as when a suggestion is confirmed
+export const insertSubscriptionSchema = subscriptionSettingsFields.extend({
+  transactionId: z.number().int().positive().optional(),
+  title: z.string().trim().min(1, "Title is required").optional(),
+  amount: z.number().positive("Amount must be positive").optional(),
+  billingCycle: z.enum(subscriptionBillingCycles).optional(),
+  firstChargeDate: occurrenceDateSchema.optional(),
+  categoryId: z.number().int().positive().optional(),
+  personLabel: personLabelSchema.optional(),
+}).refine(subscription => subscription.transactionId !== undefined || (
+  subscription.title && subscription.amount && subscription.billingCycle &&
+  subscription.firstChargeDate && subscription.categoryId && subscription.personLabel
+), {
+  message: "A new subscription needs a title, amount, billing cycle, first charge date, category and person",
+  path: ["transactionId"],
+});
+
+// PATCH /api/subscriptions/:id
+export const updateSubscriptionSchema = subscriptionSettingsFields;
+
+// POST /api/subscriptions/:id/price: the new price from the first charge on or after `from`
+export const subscriptionPriceSchema = z.object({
+  amount: z.number().positive("Amount must be positive"), // in the subscription's currency
+  from: occurrenceDateSchema,
+});
+
+export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type Subscription = typeof subscriptions.$inferSelect;
+export type SubscriptionPriceChange = typeof subscriptionPriceChanges.$inferSelect;
+export type InsertSubscriptionPriceChange = Omit<SubscriptionPriceChange, "id" | "createdAt">;
+
+// A subscription with its series, as returned by GET /api/subscriptions
+export type SubscriptionStatus = Subscription & {
+  title: string;
+  amount: number; // in BASE_CURRENCY
+  originalAmount: number | null; // in `currency`, for foreign currency subscriptions
+  currency: string | null;
+  categoryId: number | null;
+  personLabel: string | null;
+  billingCycle: SubscriptionBillingCycle | null; // null for other schedules, see `schedule`
+  schedule: string; // e.g. 'Monthly' or 'Every 2 weeks on Friday'
+  nextRenewal: string | null; // 'YYYY-MM-DD', null once the series has ended
+  monthlyCost: number; // the charges of the coming 12 months, per month
+  isTrial: boolean;
+  cancelBy: string | null; // the end of the trial while it lasts, otherwise the next renewal
+  reminderDate: string | null; // `remindDaysBefore` ahead of cancelBy
+  isReminderDue: boolean;
+  priceChanges: SubscriptionPriceChange[]; // newest first
+};
+
+// A likely subscription, from GET /api/subscriptions/suggestions (see server/subscription-detection.ts)
+export type SubscriptionSuggestion = {
+  key: string; // the merchant the charges were grouped by
+  // Set when the suggestion is an untracked recurring expense of a subscriptions category;
+  // otherwise it was detected from repeating one-off expenses
+  transactionId: number | null;
+  title: string; // of the latest charge
+  amount: number; // of the latest charge
+  billingCycle: SubscriptionBillingCycle | null;
+  categoryId: number | null;
+  personLabel: string | null;
+  chargeIds: number[]; // the one-off expenses it was detected from, oldest first
+  lastChargeDate: string | null; // 'YYYY-MM-DD'
+  nextChargeDate: string | null; // when the next charge is expected
+};
+
+// How the members split the expenses of a shared person (see server/settlement.ts):
+// evenly, by each member's settlementShare, or in proportion to their income of the month
+export const settlementSplitMethods = ["equal", "percentage", "income"] as const;
+export type SettlementSplitMethod = typeof settlementSplitMethods[number];
+
+// How shared expenses are split, one row per household
+export const settlementSettings = pgTable("settlement_settings", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().unique().references(() => households.id, { onDelete: "cascade" }),
+  splitMethod: text("split_method").notNull().default("equal"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// PUT /api/settlement/settings; the shares are required for, and kept with, the "percentage" split
+export const settlementSettingsSchema = z.object({
+  splitMethod: z.enum(settlementSplitMethods, {
+    invalid_type_error: "Split must be equal, percentage or income"
+  }),
+  shares: z.array(z.object({
+    personId: z.number().int().positive(),
+    percent: z.number().min(0, "Shares can't be negative").max(100, "Shares can't be more than 100%"),
+  })).optional(),
+}).refine(settings => settings.splitMethod !== "percentage" ||
+  Math.abs((settings.shares ?? []).reduce((sum, share) => sum + share.percent, 0) - 100) < 0.01, {
+  message: "Shares must add up to 100%",
+  path: ["shares"],
+});
+
+export type InsertSettlementSettings = Pick<SettlementSettings, "splitMethod">;
+export type SettlementSettings = typeof settlementSettings.$inferSelect;
+
+// A member who took part in a split, with their settlementShare at the time; by id so a rename
+// doesn't lose them
+export type SettlementParticipant = { personId: number; share: number | null };
+
+// The split method and the members who took part from a date on. A change of the settings or the
+// members records one, so each expense stays split the way it was when it was made.
+export const settlementSplits = pgTable("settlement_splits", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  effectiveFrom: date("effective_from").notNull(), // 'YYYY-MM-DD'
+  splitMethod: text("split_method").notNull(),
+  participants: jsonb("participants").$type<SettlementParticipant[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("settlement_splits_household_effective_from_key").on(table.householdId, table.effectiveFrom),
+]);
+
+export type InsertSettlementSplit = Pick<SettlementSplit, "effectiveFrom" | "splitMethod" | "participants">;
+export type SettlementSplit = typeof settlementSplits.$inferSelect;
+
+// Money one member gave another to settle up; it counts against what they owe
+export const settlementPayments = pgTable("settlement_payments", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  fromPerson: text("from_person").notNull(), // people are referred to by name, like person_label
+  toPerson: text("to_person").notNull(),
+  amount: doublePrecision("amount").notNull(),
+  date: date("date").notNull(), // 'YYYY-MM-DD'
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// POST /api/settlement/payments
+export const insertSettlementPaymentSchema = z.object({
+  fromPerson: personLabelSchema,
+  toPerson: personLabelSchema,
+  amount: z.number().positive("Amount must be positive"),
+  date: occurrenceDateSchema,
+  note: z.string().trim().nullable().optional(),
+}).refine(payment => payment.fromPerson !== payment.toPerson, {
+  message: "A payment has to go to someone else",
+  path: ["toPerson"],
+});
+
+export type InsertSettlementPayment = z.infer<typeof insertSettlementPaymentSchema>;
+export type SettlementPayment = typeof settlementPayments.$inferSelect;
+
+// Where one member stands, over every expense paid until today
+export type PersonSettlement = {
+  personLabel: string;
+  paid: number; // expenses they paid
+  share: number; // what of the paid expenses was theirs: their own and their part of the shared ones
+  settled: number; // settlement payments made, less those received
+  balance: number; // paid - share + settled; positive when the others owe them
+};
+
+// Who pays whom how much to settle every balance
+export type SettlementDebt = {
+  from: string;
+  to: string;
+  amount: number;
+};
+
+// As computed by GET /api/settlement
+export type Settlement = {
+  splitMethod: SettlementSplitMethod;
+  shares: { personLabel: string; percent: number }[]; // the split of this month's shared expenses, under today's rules
+  balances: PersonSettlement[];
+  debts: SettlementDebt[];
+  payments: SettlementPayment[]; // latest first
+};
+
+// Bank statement import (see server/import.ts)
+export const importFormats = ["csv", "ofx", "mt940"] as const;
+export type ImportFormat = typeof importFormats[number];
+
+// date-fns patterns offered for CSV date columns
+export const importDateFormats = ["yyyy-MM-dd", "dd.MM.yyyy", "dd-MM-yyyy", "dd/MM/yyyy", "MM/dd/yyyy"] as const;
+
+// Saved CSV column mapping, one per bank export layout
+export const importProfiles = pgTable("import_profiles", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  delimiter: text("delimiter").notNull().default(";"),
+  dateColumn: text("date_column").notNull(),
+  dateFormat: text("date_format").notNull().default("yyyy-MM-dd"),
+  amountColumn: text("amount_column").notNull(), // signed, negative amounts are expenses
+  titleColumn: text("title_column").notNull(),
+  notesColumn: text("notes_column"),
+  decimalSeparator: text("decimal_separator").notNull().default(","),
+}, (table) => [
+  unique("import_profiles_household_name_key").on(table.householdId, table.name),
+]);
+
+// How to read a CSV file; columns are matched against the header row by name
+export const csvMappingSchema = z.object({
+  delimiter: z.enum([";", ",", "\t", "|"]).default(";"),
+  dateColumn: z.string().trim().min(1, "Date column is required"),
+  dateFormat: z.enum(importDateFormats).default("yyyy-MM-dd"),
+  amountColumn: z.string().trim().min(1, "Amount column is required"),
+  titleColumn: z.string().trim().min(1, "Title column is required"),
+  notesColumn: z.string().trim().nullable().optional(),
+  decimalSeparator: z.enum([",", "."]).default(","),
+});
+
+export const insertImportProfileSchema = csvMappingSchema.extend({
+  name: z.string().trim().min(1, "Profile name is required"),
+});
+
+export const importPreviewRequestSchema = z.object({
+  format: z.enum(importFormats),
+  content: z.string().min(1, "The file is empty"),
+  mapping: csvMappingSchema.optional(),
+}).refine(data => data.format !== "csv" || !!data.mapping, {
+  message: "CSV imports need a column mapping",
+  path: ["mapping"],
+});
+
+export const importCommitRequestSchema = z.object({
+  transactions: z.array(insertTransactionSchema).min(1, "Nothing to import").max(2000, "Import at most 2000 rows at once"),
+});
+
+export type CsvMapping = z.infer<typeof csvMappingSchema>;
+export type InsertImportProfile = z.infer<typeof insertImportProfileSchema>;
+export type ImportProfile = typeof importProfiles.$inferSelect;
+
+// A statement row ready for review, as returned by POST /api/import/preview
+export type ImportPreviewRow = {
+  line: number; // position in the file, for pointing at problems
+  date: string; // 'YYYY-MM-DD'
+  title: string;
+  notes: string | null;
+  amount: number; // always positive
+  isExpense: boolean;
+  categoryId: number | null; // suggested from similar transactions or category names
+  duplicateOf: number | null; // existing transaction this row most likely already is
+};
+
+export type ImportPreview = {
+  rows: ImportPreviewRow[];
+  errors: string[]; // lines that couldn't be read
+};
+
+// Household rules applied to transactions as they are read: a matching transaction is hidden or shown
+// with another title, category, person, amount or as paid. The stored rows stay as they are.
+export const transactionRules = pgTable("transaction_rules", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0), // rules apply in this order, a later one wins
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  // Conditions; every one that is set has to match
+  titlePattern: text("title_pattern"), // regular expression, case-insensitive
+  minAmount: doublePrecision("min_amount"),
+  maxAmount: doublePrecision("max_amount"),
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: "cascade" }),
+  personLabel: text("person_label"),
+  dateFrom: date("date_from"), // 'YYYY-MM-DD', compared with the transaction date (a series' first occurrence)
+  dateTo: date("date_to"),
+  // Actions
+  hide: boolean("hide").notNull().default(false),
+  setTitle: text("set_title"),
+  setCategoryId: integer("set_category_id").references(() => categories.id, { onDelete: "set null" }),
+  setPersonLabel: text("set_person_label"),
+  setAmount: doublePrecision("set_amount"),
+  markPaid: boolean("mark_paid").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+const rulePatternSchema = z.string().trim().min(1).superRefine((pattern, ctx) => {
+  const error = getRulePatternError(pattern);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+const transactionRuleFields = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  position: z.number().int().nonnegative().optional(),
+  isEnabled: z.boolean().default(true),
+  titlePattern: rulePatternSchema.nullable().optional(),
+  minAmount: z.number().nonnegative("Amounts can't be negative").nullable().optional(),
+  maxAmount: z.number().nonnegative("Amounts can't be negative").nullable().optional(),
+  categoryId: z.number().int().positive().nullable().optional(),
+  personLabel: z.string().min(1).nullable().optional(),
+  dateFrom: occurrenceDateSchema.nullable().optional(),
+  dateTo: occurrenceDateSchema.nullable().optional(),
+  hide: z.boolean().default(false),
+  setTitle: z.string().trim().min(1).nullable().optional(),
+  setCategoryId: z.number().int().positive().nullable().optional(),
+  setPersonLabel: z.string().min(1).nullable().optional(),
+  setAmount: z.number().nonnegative("Amount can't be negative").nullable().optional(),
+  markPaid: z.boolean().default(false),
+});
+
+export const insertTransactionRuleSchema = transactionRuleFields.superRefine((rule, ctx) => {
+  const hasCondition = !!rule.titlePattern || rule.minAmount != null || rule.maxAmount != null ||
+    rule.categoryId != null || !!rule.personLabel || !!rule.dateFrom || !!rule.dateTo;
+  if (!hasCondition) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A rule needs at least one condition", path: ["titlePattern"] });
+  }
+
+  const hasAction = !!rule.hide || !!rule.setTitle || rule.setCategoryId != null ||
+    !!rule.setPersonLabel || rule.setAmount != null || !!rule.markPaid;
+  if (!hasAction) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A rule needs at least one action", path: ["hide"] });
+  }
+
+  if (rule.minAmount != null && rule.maxAmount != null && rule.minAmount > rule.maxAmount) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Minimum amount is above the maximum", path: ["maxAmount"] });
+  }
+  if (rule.dateFrom && rule.dateTo && rule.dateFrom > rule.dateTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Start date is after the end date", path: ["dateTo"] });
+  }
+});
+
+// PATCH /api/transaction-rules/:id; the merged rule is checked against insertTransactionRuleSchema
+export const updateTransactionRuleSchema = transactionRuleFields.partial();
+
+export type InsertTransactionRule = z.infer<typeof insertTransactionRuleSchema>;
+export type TransactionRule = typeof transactionRules.$inferSelect;
+
+// A transaction a rule matches and what the rule makes of it, as returned by POST /api/transaction-rules/preview
+export type TransactionRulePreviewRow = {
+  transaction: Transaction; // as stored
+  result: Transaction | null; // null when the rule hides it
+};
+
+export type TransactionRulePreview = {
+  matches: TransactionRulePreviewRow[];
+  total: number; // transactions the rule was tried on
+};
+
+// Append-only record of every change to a household's data, as returned by GET /api/audit
+export const auditEntities = [
+  "transaction", "occurrence", "category", "categoryBudget", "person",
+  "savings", "savingsGoal", "account", "importProfile", "transactionRule", "member", "forecastSettings",
+  "reconciliation", "clearedEntry", "settlementSettings", "settlementPayment", "tag", "subscription",
+] as const;
+export type AuditEntity = typeof auditEntities[number];
+
+// "purge" is an item removed from the trash for good
+export const auditActions = ["create", "update", "delete", "restore", "purge"] as const;
+export type AuditAction = typeof auditActions[number];
+
+// Changed fields with their values before and after; null stands for "not there"
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  userId: integer("user_id").references(() => users.id), // null for anonymous requests and background jobs
+  entity: text("entity").notNull(),
+  entityId: integer("entity_id"), // occurrences are logged under their transaction, category budgets under their category
+  action: text("action").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// GET /api/audit filters; `entity` takes a comma-separated list
+export const auditQuerySchema = z.object({
+  entity: z.string()
+    .transform(value => value.split(",").map(entity => entity.trim()))
+    .pipe(z.array(z.enum(auditEntities)))
+    .optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  action: z.enum(auditActions).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  from: occurrenceDateSchema.optional(), // 'YYYY-MM-DD', inclusive
+  to: occurrenceDateSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = Omit<AuditEntry, "id" | "createdAt">;
+
+export type AuditEntryWithUser = AuditEntry & {
+  username: string | null;
+};
+
+// Deleted transactions, categories and savings stay in the trash, restorable, for this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+export const trashItemTypes = ["transactions", "categories", "savings"] as const;
+export type TrashItemType = typeof trashItemTypes[number];
+
+// The household's trash, as returned by GET /api/trash; items carry their deletedAt
+export type Trash = {
+  transactions: Transaction[];
+  categories: Category[];
+  savings: Savings[];
+  retentionDays: number;
+};
+
+// Full household backup, as produced by GET /api/export and restored by POST /api/import/backup.
+// Bump BACKUP_VERSION whenever the shape changes and keep older versions restorable.
+export const BACKUP_VERSION = 1;
+
+export const exportFormats = ["json", "csv", "xlsx"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+const backupDate = z.coerce.date();
+
+export const backupSchema = z.object({
+  version: z.number().int().positive().max(BACKUP_VERSION, "This backup was made by a newer version of the app"),
+  exportedAt: z.string(),
+  household: z.object({ name: z.string() }),
+  categories: z.array(z.object({
+    id: z.number().int(),
+    name: z.string().min(1),
+    color: z.string(),
+    isExpense: z.boolean(),
+    emoji: z.string().nullable(),
+    monthlyBudget: z.number().nullable().default(null),
+    budgetRollover: z.enum(budgetRolloverPolicies).default("reset"),
+    budgetStartMonth: budgetMonthSchema.nullable().default(null),
+  })),
+  categoryBudgets: z.array(z.object({
+    categoryId: z.number().int(),
+    month: budgetMonthSchema,
+    amount: z.number(),
+  })).default([]),
+  people: z.array(z.object({
+    name: z.string().min(1),
+    color: z.string(),
+    emoji: z.string().nullable(),
+    isActive: z.boolean(),
+    isShared: z.boolean().default(false),
+    settlementShare: z.number().nullable().default(null),
+  })),
+  accounts: z.array(z.object({
+    id: z.number().int(),
+    name: z.string().min(1),
+    type: z.enum(accountTypes),
+    currency: currencyCodeSchema,
+    openingBalance: z.number(),
+    openingBalanceDate: occurrenceDateSchema,
+    isArchived: z.boolean(),
+  })).default([]),
+  transactions: z.array(z.object({
+    id: z.number().int(),
+    title: z.string().min(1),
+    amount: z.number(),
+    date: backupDate,
+    notes: z.string().nullable(),
+    isExpense: z.boolean(),
+    categoryId: z.number().int().nullable(),
+    personLabel: z.string().nullable(),
+    isRecurring: z.boolean().nullable(),
+    recurringInterval: z.enum(recurringIntervals).nullable(),
+    recurringEndDate: backupDate.nullable(),
+    recurrenceRule: z.string().nullable(),
+    recurrenceShift: z.enum(recurrenceShifts).nullable(),
+    isPaid: z.boolean().nullable(),
+    originalAmount: z.number().positive().nullable().default(null),
+    originalCurrency: currencyCodeSchema.nullable().default(null),
+    exchangeRate: z.number().positive().nullable().default(null),
+    rateDate: occurrenceDateSchema.nullable().default(null),
+    accountId: z.number().int().nullable().default(null),
+    transferAccountId: z.number().int().nullable().default(null),
+    paidBy: z.string().nullable().default(null),
+  })),
+  savingsGoals: z.array(z.object({
+    id: z.number().int(),
+    name: z.string().min(1),
+    emoji: z.string().nullable(),
+    color: z.string(),
+    targetAmount: z.number().positive(),
+    targetDate: occurrenceDateSchema.nullable(),
+    contributionAmount: z.number().positive().nullable(),
+    contributionInterval: z.enum(contributionIntervals).nullable(),
+    contributionPersonLabel: z.string().nullable(),
+    nextContributionDate: occurrenceDateSchema.nullable(),
+  })).default([]),
+  savings: z.array(z.object({
+    amount: z.number(),
+    date: backupDate,
+    notes: z.string().nullable(),
+    personLabel: z.string().nullable(),
+    goalId: z.number().int().nullable().default(null),
+    accountId: z.number().int().nullable().default(null),
+    fromAccountId: z.number().int().nullable().default(null),
+  })),
+  occurrences: z.array(z.object({
+    transactionId: z.number().int(),
+    occurrenceDate: occurrenceDateSchema,
+    isSkipped: z.boolean(),
+    isPaid: z.boolean().nullable(),
+    amountOverride: z.number().nullable(),
+    note: z.string().nullable(),
+    titleOverride: z.string().nullable().default(null),
+    categoryIdOverride: z.number().int().nullable().default(null),
+    personLabelOverride: z.string().nullable().default(null),
+  })),
+  // In position order per transaction
+  transactionLines: z.array(z.object({
+    transactionId: z.number().int(),
+    amount: z.number(),
+    categoryId: z.number().int().nullable(),
+    personLabel: z.string().nullable(),
+    note: z.string().nullable(),
+  })).default([]),
+  // Tag names of the transactions
+  transactionTags: z.array(z.object({
+    transactionId: z.number().int(),
+    tag: tagNameSchema,
+  })).default([]),
+  importProfiles: z.array(insertImportProfileSchema).default([]),
+  transactionRules: z.array(transactionRuleFields.extend({
+    position: z.number().int().nonnegative(),
+  })).default([]),
+  forecastSettings: forecastSettingsSchema.nullable().default(null),
+  reconciliations: z.array(z.object({
+    id: z.number().int(),
+    accountId: z.number().int(),
+    statementDate: occurrenceDateSchema,
+    statementBalance: z.number(),
+    clearedBalance: z.number().nullable(),
+    finishedAt: backupDate.nullable(),
+  })).default([]),
+  clearedEntries: z.array(z.object({
+    accountId: z.number().int(),
+    transactionId: z.number().int(),
+    occurrenceDate: occurrenceDateSchema,
+    reconciliationId: z.number().int().nullable(),
+  })).default([]),
+  settlementSettings: z.object({ splitMethod: z.enum(settlementSplitMethods) }).nullable().default(null),
+  settlementPayments: z.array(z.object({
+    fromPerson: z.string(),
+    toPerson: z.string(),
+    amount: z.number().positive(),
+    date: occurrenceDateSchema,
+    note: z.string().nullable(),
+  })).default([]),
+  subscriptions: z.array(z.object({
+    id: z.number().int(),
+    transactionId: z.number().int(),
+    trialEndsAt: occurrenceDateSchema.nullable(),
+    remindDaysBefore: z.number().int().nonnegative().nullable(),
+  })).default([]),
+  subscriptionPriceChanges: z.array(z.object({
+    subscriptionId: z.number().int(),
+    effectiveDate: occurrenceDateSchema,
+    previousAmount: z.number(),
+    amount: z.number(),
+    currency: currencyCodeSchema.nullable(),
+  })).default([]),
+}).superRefine((backup, ctx) => {
+  // Ids only have to be consistent within the backup; restoring assigns new ones
+  const categoryIds = new Set(backup.categories.map(c => c.id));
+  const transactionIds = new Set(backup.transactions.map(t => t.id));
+  backup.transactions.forEach((transaction, index) => {
+    if (transaction.categoryId !== null && !categoryIds.has(transaction.categoryId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Transaction "${transaction.title}" refers to unknown category ${transaction.categoryId}`,
+        path: ["transactions", index, "categoryId"],
+      });
+    }
+  });
+  backup.categoryBudgets.forEach((budget, index) => {
+    if (!categoryIds.has(budget.categoryId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Budget for ${budget.month} refers to unknown category ${budget.categoryId}`,
+        path: ["categoryBudgets", index, "categoryId"],
+      });
+    }
+  });
+  const goalIds = new Set(backup.savingsGoals.map(g => g.id));
+  backup.savings.forEach((entry, index) => {
+    if (entry.goalId !== null && !goalIds.has(entry.goalId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Savings entry of ${entry.amount} refers to unknown goal ${entry.goalId}`,
+        path: ["savings", index, "goalId"],
+      });
+    }
+  });
+  const accountIds = new Set(backup.accounts.map(a => a.id));
+  backup.transactions.forEach((transaction, index) => {
+    for (const field of ["accountId", "transferAccountId"] as const) {
+      const accountId = transaction[field];
+      if (accountId !== null && !accountIds.has(accountId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Transaction "${transaction.title}" refers to unknown account ${accountId}`,
+          path: ["transactions", index, field],
+        });
+      }
+    }
+  });
+  backup.savings.forEach((entry, index) => {
+    for (const field of ["accountId", "fromAccountId"] as const) {
+      const accountId = entry[field];
+      if (accountId !== null && !accountIds.has(accountId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Savings entry of ${entry.amount} refers to unknown account ${accountId}`,
+          path: ["savings", index, field],
+        });
+      }
+    }
+  });
+  const reconciliationIds = new Set(backup.reconciliations.map(r => r.id));
+  backup.reconciliations.forEach((reconciliation, index) => {
+    if (!accountIds.has(reconciliation.accountId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Reconciliation of ${reconciliation.statementDate} refers to unknown account ${reconciliation.accountId}`,
+        path: ["reconciliations", index, "accountId"],
+      });
+    }
+  });
+  backup.clearedEntries.forEach((entry, index) => {
+    if (!accountIds.has(entry.accountId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Cleared entry on ${entry.occurrenceDate} refers to unknown account ${entry.accountId}`,
+        path: ["clearedEntries", index, "accountId"],
+      });
+    }
+    if (!transactionIds.has(entry.transactionId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Cleared entry on ${entry.occurrenceDate} refers to unknown transaction ${entry.transactionId}`,
+        path: ["clearedEntries", index, "transactionId"],
+      });
+    }
+    if (entry.reconciliationId !== null && !reconciliationIds.has(entry.reconciliationId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Cleared entry on ${entry.occurrenceDate} refers to unknown reconciliation ${entry.reconciliationId}`,
+        path: ["clearedEntries", index, "reconciliationId"],
+      });
+    }
+  });
+  backup.occurrences.forEach((occurrence, index) => {
+    if (!transactionIds.has(occurrence.transactionId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Occurrence on ${occurrence.occurrenceDate} refers to unknown transaction ${occurrence.transactionId}`,
+        path: ["occurrences", index, "transactionId"],
+      });
+    }
+    if (occurrence.categoryIdOverride !== null && !categoryIds.has(occurrence.categoryIdOverride)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Occurrence on ${occurrence.occurrenceDate} refers to unknown category ${occurrence.categoryIdOverride}`,
+        path: ["occurrences", index, "categoryIdOverride"],
+      });
+    }
+  });
+  backup.transactionLines.forEach((line, index) => {
+    if (!transactionIds.has(line.transactionId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Split line of ${line.amount} refers to unknown transaction ${line.transactionId}`,
+        path: ["transactionLines", index, "transactionId"],
+      });
+    }
+    if (line.categoryId !== null && !categoryIds.has(line.categoryId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Split line of ${line.amount} refers to unknown category ${line.categoryId}`,
+        path: ["transactionLines", index, "categoryId"],
+      });
+    }
+  });
+  backup.transactionTags.forEach((link, index) => {
+    if (!transactionIds.has(link.transactionId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Tag "${link.tag}" refers to unknown transaction ${link.transactionId}`,
+        path: ["transactionTags", index, "transactionId"],
+      });
+    }
+  });
+  const subscriptionIds = new Set(backup.subscriptions.map(s => s.id));
+  backup.subscriptions.forEach((subscription, index) => {
+    if (!transactionIds.has(subscription.transactionId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Subscription ${subscription.id} refers to unknown transaction ${subscription.transactionId}`,
+        path: ["subscriptions", index, "transactionId"],
+      });
+    }
+  });
+  backup.subscriptionPriceChanges.forEach((change, index) => {
+    if (!subscriptionIds.has(change.subscriptionId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Price change on ${change.effectiveDate} refers to unknown subscription ${change.subscriptionId}`,
+        path: ["subscriptionPriceChanges", index, "subscriptionId"],
+      });
+    }
+  });
+  backup.transactionRules.forEach((rule, index) => {
+    for (const field of ["categoryId", "setCategoryId"] as const) {
+      const categoryId = rule[field];
+      if (categoryId != null && !categoryIds.has(categoryId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Rule "${rule.name}" refers to unknown category ${categoryId}`,
+          path: ["transactionRules", index, field],
+        });
+      }
+    }
+  });
+});
+
+export type Backup = z.infer<typeof backupSchema>;
+
+// What a restore wrote, by table
+export type BackupRestoreSummary = {
+  categories: number;
+  categoryBudgets: number;
+  people: number;
+  accounts: number;
+  transactions: number;
+  savingsGoals: number;
+  savings: number;
+  occurrences: number;
+  transactionLines: number;
+  transactionTags: number;
+  importProfiles: number;
+  transactionRules: number;
+  reconciliations: number;
+  clearedEntries: number;
+  settlementPayments: number;
+  subscriptions: number;
+  subscriptionPriceChanges: number;
 };
@@ -0,0 +1,48 @@
+/**
+ * Split lines of transactions, shared by the server and the client.
+ *
+ * The lines of a transaction add up to its amount, but an occurrence can count another amount
+ * (an amount override, a rule's setAmount), so the lines are applied in proportion to it.
+ * Rounding leftovers go to the last line, keeping the parts summing to the amount to the cent.
+ */
+
+import type { SplitPart } from "./schema";
+
+export function linesTotal(lines: { amount: number }[]): number {
+  return Math.round(lines.reduce((sum, line) => sum + line.amount * 100, 0)) / 100;
+}
+
+/**
+ * The lines with their amounts scaled to add up to `amount`
+ */
+export function scaleLines<T extends { amount: number }>(lines: T[], amount: number): T[] {
+  const total = linesTotal(lines);
+  if (lines.length === 0 || total <= 0) return lines;
+
+  let remainingCents = Math.round(amount * 100);
+  return lines.map((line, index) => {
+    const cents = index === lines.length - 1
+      ? remainingCents
+      : Math.round((line.amount / total) * amount * 100);
+    remainingCents -= cents;
+    return { ...line, amount: cents / 100 };
+  });
+}
+
+/**
+ * What an amount counts towards: one part per split line, or the whole amount for the
+ * category and person of an unsplit transaction
+ */
+export function splitParts(
+  amount: number,
+  categoryId: number | null,
+  personLabel: string | null,
+  lines?: SplitPart[] | null
+): SplitPart[] {
+  if (!lines || lines.length === 0) return [{ amount, categoryId, personLabel }];
+  return scaleLines(lines, amount).map(line => ({
+    amount: line.amount,
+    categoryId: line.categoryId,
+    personLabel: line.personLabel,
+  }));
+}
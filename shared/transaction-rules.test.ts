@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getRulePatternError, MAX_RULE_PATTERN_LENGTH } from "./transaction-rules";
+
+test("everyday title patterns are accepted", () => {
+  for (const pattern of ["netflix", "^(spotify|tidal)\\b", "uber|bolt", "biedronka \\d+", "(?:uber )+trip", "[(+*|]+", "a{2,3}", "colou?r"]) {
+    assert.equal(getRulePatternError(pattern), null, pattern);
+  }
+});
+
+test("patterns that can backtrack exponentially are refused", () => {
+  for (const pattern of ["(a+)+$", "(a*)*b", "((ab)+c?)+", "(?:x+)*", "(\\w{1,5})+", "(a?)+$", "(a)\\1", "(?<word>a)\\k<word>"]) {
+    assert.notEqual(getRulePatternError(pattern), null, pattern);
+  }
+});
+
+test("repeated choices that can match the same text in several ways are refused", () => {
+  for (const pattern of ["(a|a)+$", "(a|aa)+$", "(\\w|\\d)+$", "(.|a)*$", "(?:x|y){2,}", "((a|b)c)*"]) {
+    assert.notEqual(getRulePatternError(pattern), null, pattern);
+  }
+});
+
+test("overlong and invalid patterns are refused", () => {
+  assert.notEqual(getRulePatternError("a".repeat(MAX_RULE_PATTERN_LENGTH + 1)), null);
+  assert.notEqual(getRulePatternError("(unclosed"), null);
+});
@@ -0,0 +1,167 @@
+/**
+ * Household transaction rules shared by the server and the client.
+ *
+ * A rule matches a transaction when every condition it sets holds:
+ *   titlePattern  regular expression tested against the title, case-insensitive
+ *   min/maxAmount inclusive bounds of the amount
+ *   categoryId    the transaction's category
+ *   personLabel   the person the transaction is attributed to
+ *   dateFrom/To   inclusive 'YYYY-MM-DD' bounds of the transaction date; for a recurring
+ *                 transaction that is the date of its first occurrence
+ *
+ * Matching transactions are hidden or changed by the rule's actions. Enabled rules apply
+ * in position order, each to the result of the ones before, so a later rule wins.
+ */
+
+import { format } from "date-fns";
+import type { Transaction, TransactionRule } from "./schema";
+
+// The parts of a rule the engine looks at; drafts in the rule form have no id yet
+export type RuleDefinition = Pick<TransactionRule,
+  "titlePattern" | "minAmount" | "maxAmount" | "categoryId" | "personLabel" | "dateFrom" | "dateTo" |
+  "hide" | "setTitle" | "setCategoryId" | "setPersonLabel" | "setAmount" | "markPaid">;
+
+// Patterns are tested against every transaction the household reads, so they are kept short
+// and clear of what makes a backtracking match take exponential time
+export const MAX_RULE_PATTERN_LENGTH = 200;
+
+// Whether the pattern repeats a group that can match the same text in more than one way - one
+// with a repeat, an optional part or a choice in it, as in (a+)+, (a?)* or (a|aa)+ - or uses a
+// back-reference
+function hasCatastrophicBacktracking(pattern: string): boolean {
+  // Per open group, whether it has a repeat, an optional part or a choice in it
+  const groups: boolean[] = [];
+  let afterAmbiguousGroup = false;
+  let inClass = false;
+
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? "")) return true;
+      i++;
+      afterAmbiguousGroup = false;
+      continue;
+    }
+    if (inClass) {
+      if (char === "]") inClass = false;
+      continue;
+    }
+
+    if (char === "*" || char === "+" || (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))) {
+      if (afterAmbiguousGroup) return true;
+      markGroup();
+      if (char === "{") i = pattern.indexOf("}", i);
+    } else if (char === "?" || char === "|") {
+      markGroup();
+    } else if (char === "(") {
+      groups.push(false);
+      // Skip the (?:, (?=, (?<=, (?<name> ... prefix
+      if (pattern[i + 1] === "?") {
+        i += 2;
+        if (pattern[i] === "<" && pattern[i + 1] !== "=" && pattern[i + 1] !== "!") i = pattern.indexOf(">", i);
+        else if (pattern[i] === "<") i++;
+      }
+    } else if (char === ")") {
+      const isAmbiguous = groups.pop() ?? false;
+      if (isAmbiguous) markGroup();
+      afterAmbiguousGroup = isAmbiguous;
+      continue;
+    } else if (char === "[") {
+      inClass = true;
+    }
+    afterAmbiguousGroup = false;
+  }
+  return false;
+}
+
+/**
+ * Error message for a title pattern rules can't use, or null when the pattern is fine
+ */
+export function getRulePatternError(pattern: string): string | null {
+  if (pattern.length > MAX_RULE_PATTERN_LENGTH) {
+    return `Title pattern is longer than ${MAX_RULE_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, "i");
+  } catch {
+    return "Title pattern is not a valid regular expression";
+  }
+  if (hasCatastrophicBacktracking(pattern)) {
+    return "Title pattern repeats a group with a repeat, an optional part or a choice in it, or uses a back-reference, which can take too long to match";
+  }
+  return null;
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  // Rules saved before patterns were checked may hold one that isn't safe to run
+  return getRulePatternError(pattern) ? null : new RegExp(pattern, "i");
+}
+
+/**
+ * Test for the transactions a rule matches. Its pattern is compiled once, so build the test
+ * once per pass over the transactions rather than per transaction.
+ */
+export function ruleMatcher(rule: RuleDefinition): (transaction: Transaction) => boolean {
+  const pattern = rule.titlePattern ? compilePattern(rule.titlePattern) : null;
+
+  return transaction => {
+    if (rule.titlePattern) {
+      // A pattern that doesn't compile matches nothing rather than everything
+      if (!pattern || !pattern.test(transaction.title)) return false;
+    }
+    if (rule.minAmount !== null && transaction.amount < rule.minAmount) return false;
+    if (rule.maxAmount !== null && transaction.amount > rule.maxAmount) return false;
+    if (rule.categoryId !== null && transaction.categoryId !== rule.categoryId) return false;
+    if (rule.personLabel && transaction.personLabel !== rule.personLabel) return false;
+
+    if (rule.dateFrom || rule.dateTo) {
+      const date = format(new Date(transaction.date), "yyyy-MM-dd");
+      if (rule.dateFrom && date < rule.dateFrom) return false;
+      if (rule.dateTo && date > rule.dateTo) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * The transaction as the rule's actions leave it, null when it is hidden
+ */
+export function applyRuleActions(rule: RuleDefinition, transaction: Transaction): Transaction | null {
+  if (rule.hide) return null;
+
+  return {
+    ...transaction,
+    ...(rule.setTitle && { title: rule.setTitle }),
+    ...(rule.setCategoryId !== null && { categoryId: rule.setCategoryId }),
+    ...(rule.setPersonLabel && { personLabel: rule.setPersonLabel }),
+    ...(rule.setAmount !== null && { amount: rule.setAmount }),
+    ...(rule.markPaid && { isPaid: true }),
+  };
+}
+
+/**
+ * The household's transactions with its enabled rules applied, hidden ones left out
+ */
+export function applyTransactionRules<T extends Transaction>(rules: TransactionRule[], transactions: T[]): T[] {
+  const active = rules
+    .filter(rule => rule.isEnabled)
+    .sort((a, b) => a.position - b.position || a.id - b.id)
+    .map(rule => ({ rule, matches: ruleMatcher(rule) }));
+  if (active.length === 0) return transactions;
+
+  const result: T[] = [];
+  for (const transaction of transactions) {
+    let current: T | null = transaction;
+    for (const { rule, matches } of active) {
+      if (!matches(current)) continue;
+      current = applyRuleActions(rule, current) as T | null;
+      if (!current) break;
+    }
+    if (current) result.push(current);
+  }
+  return result;
+}
@@ -0,0 +1,196 @@
+/**
+ * The transaction search query language, shared by the server and the search box.
+ *
+ * A query is a list of terms separated by spaces; every term has to match:
+ *   netflix             words without a filter are looked for in the title and the notes
+ *   title:netflix       part of the title
+ *   note:gift           part of the notes
+ *   amount:>50          amount compared with >, >=, <, <= or =; amount:50..100 is a range
+ *   person:Fabi         the person, or one of the people of a split transaction
+ *   category:Groceries  the category, or one of the categories of a split transaction
+ *   tag:car             a tag of the transaction
+ *   after:2025-01       on or after a day ('YYYY-MM-DD') or the first day of a month ('YYYY-MM')
+ *   before:2025-03      before a day, or before the month starts
+ *   is:unpaid           paid, unpaid, expense, income, recurring or split
+ * Values with spaces go in double quotes: category:"Eating out". Names are matched
+ * case-insensitively.
+ */
+
+export const searchFlags = ["paid", "unpaid", "expense", "income", "recurring", "split"] as const;
+export type SearchFlag = typeof searchFlags[number];
+
+export type AmountCondition = {
+  op: ">" | ">=" | "<" | "<=" | "=";
+  value: number;
+};
+
+export type SearchFilters = {
+  words: string[];
+  titles: string[];
+  notes: string[];
+  amounts: AmountCondition[];
+  people: string[];
+  categories: string[];
+  tags: string[];
+  after: string | null; // 'YYYY-MM-DD', inclusive
+  before: string | null; // 'YYYY-MM-DD', exclusive
+  flags: SearchFlag[];
+};
+
+export type ParsedSearch = { filters: SearchFilters; error: null } | { filters: null; error: string };
+
+// What a search term is tested against: one occurrence of a transaction
+export type SearchCandidate = {
+  date: string; // 'YYYY-MM-DD'
+  title: string;
+  notes: string | null;
+  amount: number;
+  isExpense: boolean;
+  isPaid: boolean;
+  isRecurring: boolean;
+  isSplit: boolean;
+  categoryNames: string[]; // of the transaction, or of its split lines
+  personLabels: string[];
+  tags: string[];
+};
+
+const TERM = /(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+const AMOUNT = /^(>=|<=|>|<|=)?(\d+(?:[.,]\d+)?)$/;
+const AMOUNT_RANGE = /^(\d+(?:[.,]\d+)?)\.\.(\d+(?:[.,]\d+)?)$/;
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH = /^\d{4}-\d{2}$/;
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(",", "."));
+}
+
+function parseAmountConditions(value: string): AmountCondition[] | null {
+  const range = AMOUNT_RANGE.exec(value);
+  if (range) {
+    return [{ op: ">=", value: parseAmount(range[1]) }, { op: "<=", value: parseAmount(range[2]) }];
+  }
+  const match = AMOUNT.exec(value);
+  if (!match) return null;
+  return [{ op: (match[1] ?? "=") as AmountCondition["op"], value: parseAmount(match[2]) }];
+}
+
+// A month stands for its first day
+function parseDate(value: string): string | null {
+  if (DAY.test(value)) return value;
+  if (MONTH.test(value)) return `${value}-01`;
+  return null;
+}
+
+/**
+ * The filters of a search query, or what is wrong with it
+ */
+export function parseSearchQuery(query: string): ParsedSearch {
+  const filters: SearchFilters = {
+    words: [],
+    titles: [],
+    notes: [],
+    amounts: [],
+    people: [],
+    categories: [],
+    tags: [],
+    after: null,
+    before: null,
+    flags: [],
+  };
+
+  for (const match of Array.from(query.matchAll(TERM))) {
+    const [term, rawKey, quoted, bare] = match;
+    const key = rawKey?.toLowerCase();
+    const value = (quoted ?? bare ?? "").trim();
+    // A filter without a value, e.g. "after:", is read as a word ending in a colon
+    if (!value || (!key && /^\w+:$/.test(value))) {
+      if (key || value) return { filters: null, error: `"${term}" needs a value` };
+      continue;
+    }
+
+    switch (key) {
+      case undefined:
+        filters.words.push(value.toLowerCase());
+        break;
+      case "title":
+        filters.titles.push(value.toLowerCase());
+        break;
+      case "note":
+      case "notes":
+        filters.notes.push(value.toLowerCase());
+        break;
+      case "amount": {
+        const conditions = parseAmountConditions(value);
+        if (!conditions) return { filters: null, error: `"${value}" is not an amount like >50, <=20 or 50..100` };
+        filters.amounts.push(...conditions);
+        break;
+      }
+      case "person":
+        filters.people.push(value.toLowerCase());
+        break;
+      case "category":
+        filters.categories.push(value.toLowerCase());
+        break;
+      case "tag":
+        filters.tags.push(value.toLowerCase());
+        break;
+      case "after":
+      case "before": {
+        const date = parseDate(value);
+        if (!date) return { filters: null, error: `"${value}" is not a date like 2025-01 or 2025-01-31` };
+        filters[key] = date;
+        break;
+      }
+      case "is": {
+        const flag = value.toLowerCase() as SearchFlag;
+        if (!searchFlags.includes(flag)) {
+          return { filters: null, error: `"is:${value}" has to be one of ${searchFlags.map(f => `is:${f}`).join(", ")}` };
+        }
+        filters.flags.push(flag);
+        break;
+      }
+      default:
+        return { filters: null, error: `Unknown filter "${rawKey}:"` };
+    }
+  }
+
+  return { filters, error: null };
+}
+
+function compareAmount(amount: number, { op, value }: AmountCondition): boolean {
+  switch (op) {
+    case ">": return amount > value;
+    case ">=": return amount >= value;
+    case "<": return amount < value;
+    case "<=": return amount <= value;
+    case "=": return Math.abs(amount - value) < 0.005;
+  }
+}
+
+function matchesFlag(candidate: SearchCandidate, flag: SearchFlag): boolean {
+  switch (flag) {
+    case "paid": return candidate.isPaid;
+    case "unpaid": return !candidate.isPaid;
+    case "expense": return candidate.isExpense;
+    case "income": return !candidate.isExpense;
+    case "recurring": return candidate.isRecurring;
+    case "split": return candidate.isSplit;
+  }
+}
+
+export function matchesSearch(filters: SearchFilters, candidate: SearchCandidate): boolean {
+  const title = candidate.title.toLowerCase();
+  const notes = (candidate.notes ?? "").toLowerCase();
+  const lower = (values: string[]) => values.map(value => value.toLowerCase());
+
+  if (!filters.words.every(word => title.includes(word) || notes.includes(word))) return false;
+  if (!filters.titles.every(part => title.includes(part))) return false;
+  if (!filters.notes.every(part => notes.includes(part))) return false;
+  if (!filters.amounts.every(condition => compareAmount(candidate.amount, condition))) return false;
+  if (!filters.people.every(person => lower(candidate.personLabels).includes(person))) return false;
+  if (!filters.categories.every(category => lower(candidate.categoryNames).includes(category))) return false;
+  if (!filters.tags.every(tag => candidate.tags.includes(tag))) return false;
+  if (filters.after && candidate.date < filters.after) return false;
+  if (filters.before && candidate.date >= filters.before) return false;
+  return filters.flags.every(flag => matchesFlag(candidate, flag));
+}
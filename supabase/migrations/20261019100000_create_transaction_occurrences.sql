@@ -0,0 +1,39 @@
+/*
+  # Per-occurrence overrides for recurring transactions
+
+  1. New Tables
+    - `transaction_occurrences` - State of one date of a recurring transaction
+      - `id` (serial, primary key)
+      - `transaction_id` (integer, foreign key, cascades on delete)
+      - `occurrence_date` (date, not null)
+      - `is_skipped` (boolean, default false)
+      - `is_paid` (boolean, nullable - null means "use the transaction's own flag")
+      - `amount_override` (double precision, nullable)
+      - `note` (text, nullable)
+      - `updated_at` (timestamp, default now())
+    - Unique on (`transaction_id`, `occurrence_date`)
+
+  2. Security
+    - Enable RLS and allow the same public access as `transactions`
+*/
+
+CREATE TABLE IF NOT EXISTS transaction_occurrences (
+  id SERIAL PRIMARY KEY,
+  transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  is_skipped BOOLEAN NOT NULL DEFAULT false,
+  is_paid BOOLEAN,
+  amount_override DOUBLE PRECISION,
+  note TEXT,
+  updated_at TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT transaction_occurrences_transaction_date_key UNIQUE (transaction_id, occurrence_date)
+);
+
+ALTER TABLE transaction_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to transaction occurrences for everyone"
+  ON transaction_occurrences
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,77 @@
+/*
+  # Households with member roles
+
+  1. New Tables
+    - `households` - A group of users sharing one budget
+      - `id` (serial, primary key)
+      - `name` (text, not null)
+      - `created_at` (timestamp, default now())
+    - `household_members` - Membership of a user in a household
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `user_id` (integer, foreign key, cascades on delete)
+      - `role` (text, one of owner / editor / viewer)
+    - Unique on (`household_id`, `user_id`)
+
+  2. Changes
+    - Add `household_id` to `categories`, `transactions` and `savings`
+    - Existing rows and users move into a default household (id 1) so nothing disappears
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS households (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  CONSTRAINT household_members_household_user_key UNIQUE (household_id, user_id)
+);
+
+-- Default household that owns all pre-existing data
+INSERT INTO households (id, name) VALUES (1, 'Home') ON CONFLICT (id) DO NOTHING;
+SELECT setval(pg_get_serial_sequence('households', 'id'), GREATEST((SELECT MAX(id) FROM households), 1));
+
+INSERT INTO household_members (household_id, user_id, role)
+SELECT 1, id, 'owner' FROM users
+ON CONFLICT (household_id, user_id) DO NOTHING;
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS household_id INTEGER REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS household_id INTEGER REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE savings ADD COLUMN IF NOT EXISTS household_id INTEGER REFERENCES households(id) ON DELETE CASCADE;
+
+UPDATE categories SET household_id = 1 WHERE household_id IS NULL;
+UPDATE transactions SET household_id = 1 WHERE household_id IS NULL;
+UPDATE savings SET household_id = 1 WHERE household_id IS NULL;
+
+ALTER TABLE categories ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE transactions ALTER COLUMN household_id SET NOT NULL;
+ALTER TABLE savings ALTER COLUMN household_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS categories_household_id_idx ON categories(household_id);
+CREATE INDEX IF NOT EXISTS transactions_household_id_idx ON transactions(household_id);
+CREATE INDEX IF NOT EXISTS savings_household_id_idx ON savings(household_id);
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to households for everyone"
+  ON households
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all access to household members for everyone"
+  ON household_members
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,60 @@
+/*
+  # Configurable people
+
+  1. New Tables
+    - `people` - People that transactions and savings are attributed to
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `name` (text, not null) - stored in `person_label` of transactions and savings
+      - `color` (text, default '#6b7280')
+      - `emoji` (text, nullable)
+      - `is_active` (boolean, default true) - inactive people stay on old entries but can't be picked
+    - Unique on (`household_id`, `name`)
+
+  2. Data
+    - The previously hard-coded people (Beni, Fabi, Michał, Together) move into the default household
+    - Every other `person_label` already used by a transaction or savings entry becomes a person too
+    - Households without any people get "Together"
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS people (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6b7280',
+  emoji TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  CONSTRAINT people_household_name_key UNIQUE (household_id, name)
+);
+
+INSERT INTO people (household_id, name, color) VALUES
+  (1, 'Beni', '#3b82f6'),
+  (1, 'Fabi', '#ec4899'),
+  (1, 'Michał', '#10b981'),
+  (1, 'Together', '#8b5cf6')
+ON CONFLICT (household_id, name) DO NOTHING;
+
+INSERT INTO people (household_id, name)
+SELECT DISTINCT household_id, person_label FROM transactions WHERE person_label IS NOT NULL AND person_label <> ''
+UNION
+SELECT DISTINCT household_id, person_label FROM savings WHERE person_label IS NOT NULL AND person_label <> ''
+ON CONFLICT (household_id, name) DO NOTHING;
+
+INSERT INTO people (household_id, name, color)
+SELECT h.id, 'Together', '#8b5cf6' FROM households h
+WHERE NOT EXISTS (SELECT 1 FROM people p WHERE p.household_id = h.id)
+ON CONFLICT (household_id, name) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS people_household_id_idx ON people(household_id);
+
+ALTER TABLE people ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to people for everyone"
+  ON people
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,20 @@
+/*
+  # Recurrence rules for recurring transactions
+
+  1. Modified Tables
+    - `transactions`
+      - `recurrence_rule` (text, nullable) - RRULE-style rule such as 'FREQ=MONTHLY;BYDAY=-1FR';
+        when set it takes precedence over `recurring_interval`
+      - `recurrence_shift` (text, nullable) - what to do with occurrences on weekends and public holidays:
+        'none', 'next_business_day', 'previous_business_day' or 'nearest_business_day'
+
+  2. Data
+    - Existing recurring transactions keep using `recurring_interval`; no rule is back-filled
+*/
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurrence_shift TEXT;
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_recurrence_shift_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_recurrence_shift_check
+  CHECK (recurrence_shift IS NULL OR recurrence_shift IN ('none', 'next_business_day', 'previous_business_day', 'nearest_business_day'));
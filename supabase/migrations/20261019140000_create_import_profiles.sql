@@ -0,0 +1,45 @@
+/*
+  # Bank statement import profiles
+
+  1. New Tables
+    - `import_profiles` - Saved CSV column mappings, one per bank export layout
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `name` (text, not null) - e.g. 'mBank' or 'PKO BP'
+      - `delimiter` (text, default ';')
+      - `date_column` (text, not null) - header of the booking date column
+      - `date_format` (text, default 'yyyy-MM-dd') - date-fns pattern of that column
+      - `amount_column` (text, not null) - header of the signed amount column; negative amounts are expenses
+      - `title_column` (text, not null) - header of the description column
+      - `notes_column` (text, nullable) - optional header copied into the transaction's notes
+      - `decimal_separator` (text, default ',')
+    - Unique on (`household_id`, `name`)
+
+  2. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  delimiter TEXT NOT NULL DEFAULT ';',
+  date_column TEXT NOT NULL,
+  date_format TEXT NOT NULL DEFAULT 'yyyy-MM-dd',
+  amount_column TEXT NOT NULL,
+  title_column TEXT NOT NULL,
+  notes_column TEXT,
+  decimal_separator TEXT NOT NULL DEFAULT ',',
+  CONSTRAINT import_profiles_household_name_key UNIQUE (household_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS import_profiles_household_id_idx ON import_profiles(household_id);
+
+ALTER TABLE import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to import_profiles for everyone"
+  ON import_profiles
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,46 @@
+/*
+  # Per-category monthly budgets
+
+  1. Modified Tables
+    - `categories`
+      - `monthly_budget` (double precision, nullable) - spending limit per month; null means no budget
+      - `budget_rollover` (text, default 'reset') - what happens to the rest of a month's budget:
+        'reset', 'carry_surplus' or 'carry_deficit'
+      - `budget_start_month` (text, nullable) - 'YYYY-MM' the budget was set up in; rollover starts here
+
+  2. New Tables
+    - `category_budget_overrides` - Budget limit of a category for a single month
+      - `id` (serial, primary key)
+      - `category_id` (integer, foreign key, cascades on delete)
+      - `month` (text, not null) - 'YYYY-MM'
+      - `amount` (double precision, not null)
+    - Unique on (`category_id`, `month`)
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS monthly_budget DOUBLE PRECISION;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS budget_rollover TEXT NOT NULL DEFAULT 'reset';
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS budget_start_month TEXT;
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_budget_rollover_check;
+ALTER TABLE categories ADD CONSTRAINT categories_budget_rollover_check
+  CHECK (budget_rollover IN ('reset', 'carry_surplus', 'carry_deficit'));
+
+CREATE TABLE IF NOT EXISTS category_budget_overrides (
+  id SERIAL PRIMARY KEY,
+  category_id INTEGER NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  month TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  CONSTRAINT category_budget_overrides_category_month_key UNIQUE (category_id, month)
+);
+
+ALTER TABLE category_budget_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to category_budget_overrides for everyone"
+  ON category_budget_overrides
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
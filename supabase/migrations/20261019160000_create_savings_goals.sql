@@ -0,0 +1,56 @@
+/*
+  # Savings goals
+
+  1. New Tables
+    - `savings_goals` - Named things the household saves up for
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `name` (text, not null) - e.g. 'Emergency fund' or 'Vacation'
+      - `emoji` (text, nullable)
+      - `color` (text, default '#10b981')
+      - `target_amount` (double precision, not null)
+      - `target_date` (date, nullable)
+      - `contribution_amount` (double precision, nullable) - recurring auto-contribution; null means none
+      - `contribution_interval` (text, nullable) - 'weekly' or 'monthly'
+      - `contribution_person_label` (text, nullable) - person the contributions are booked for
+      - `next_contribution_date` (date, nullable) - next contribution to book; null once the goal is reached
+      - `created_at` (timestamp, default now)
+
+  2. Modified Tables
+    - `savings`
+      - `goal_id` (integer, nullable, foreign key to `savings_goals`, set to null when the goal is deleted)
+      - Withdrawals are stored as negative amounts
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  emoji TEXT,
+  color TEXT NOT NULL DEFAULT '#10b981',
+  target_amount DOUBLE PRECISION NOT NULL,
+  target_date DATE,
+  contribution_amount DOUBLE PRECISION,
+  contribution_interval TEXT CHECK (contribution_interval IS NULL OR contribution_interval IN ('weekly', 'monthly')),
+  contribution_person_label TEXT,
+  next_contribution_date DATE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS savings_goals_household_id_idx ON savings_goals(household_id);
+
+ALTER TABLE savings ADD COLUMN IF NOT EXISTS goal_id INTEGER REFERENCES savings_goals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS savings_goal_id_idx ON savings(goal_id);
+
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to savings_goals for everyone"
+  ON savings_goals
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
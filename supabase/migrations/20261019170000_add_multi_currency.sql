@@ -0,0 +1,46 @@
+/*
+  # Multi-currency transactions
+
+  1. New Tables
+    - `exchange_rates` - Rates to PLN, shared by all households
+      - `id` (serial, primary key)
+      - `currency` (text, not null) - ISO 4217 code, e.g. 'EUR'
+      - `date` (date, not null) - day the rate was published for
+      - `rate` (double precision, not null) - PLN per unit of the currency
+      - `source` (text, not null) - 'nbp' (NBP table A) or 'file'
+      - Unique per currency and date
+
+  2. Modified Tables
+    - `transactions`
+      - `original_amount` (double precision, nullable) - amount in the original currency
+      - `original_currency` (text, nullable) - ISO 4217 code; null for PLN transactions
+      - `exchange_rate` (double precision, nullable) - rate `amount` was converted at
+      - `rate_date` (date, nullable) - day of that rate
+      - `amount` stays in PLN so budgets keep summing a single currency
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id SERIAL PRIMARY KEY,
+  currency TEXT NOT NULL,
+  date DATE NOT NULL,
+  rate DOUBLE PRECISION NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL CHECK (source IN ('nbp', 'file')),
+  CONSTRAINT exchange_rates_currency_date_key UNIQUE (currency, date)
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS original_amount DOUBLE PRECISION;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS original_currency TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS exchange_rate DOUBLE PRECISION;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS rate_date DATE;
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to exchange_rates for everyone"
+  ON exchange_rates
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,21 @@
+/*
+  # Per-occurrence title, category and person
+
+  1. New Tables
+    - None
+
+  2. Modified Tables
+    - `transaction_occurrences`
+      - `title_override` (text, nullable) - title of this occurrence only
+      - `category_id_override` (integer, nullable) - category of this occurrence only; cleared when the category is deleted
+      - `person_label_override` (text, nullable) - person of this occurrence only
+    - Changes from an occurrence on are stored as a new transaction that continues the series,
+      with the old one ending the day before, so no new tables are needed for them
+
+  3. Security
+    - No changes, `transaction_occurrences` already has RLS enabled
+*/
+
+ALTER TABLE transaction_occurrences ADD COLUMN IF NOT EXISTS title_override TEXT;
+ALTER TABLE transaction_occurrences ADD COLUMN IF NOT EXISTS category_id_override INTEGER REFERENCES categories(id) ON DELETE SET NULL;
+ALTER TABLE transaction_occurrences ADD COLUMN IF NOT EXISTS person_label_override TEXT;
@@ -0,0 +1,25 @@
+/*
+  # Trash for transactions, categories and savings
+
+  1. New Tables
+    - None
+
+  2. Modified Tables
+    - `transactions`, `categories`, `savings`
+      - `deleted_at` (timestamp, nullable) - when the row was moved to the trash; null for live rows
+      - Deleting only sets `deleted_at`, so occurrence and budget overrides stay for a restore
+      - Rows are removed for good once they have been in the trash for the retention period
+        (30 days, or TRASH_RETENTION_DAYS)
+
+  3. Security
+    - No changes, the tables already have RLS enabled
+*/
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE savings ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+-- The trash view and the purge only look at deleted rows
+CREATE INDEX IF NOT EXISTS transactions_deleted_at_idx ON transactions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS categories_deleted_at_idx ON categories(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS savings_deleted_at_idx ON savings(deleted_at) WHERE deleted_at IS NOT NULL;
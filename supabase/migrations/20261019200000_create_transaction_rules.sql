@@ -0,0 +1,92 @@
+/*
+  # Transaction rules
+
+  1. New Tables
+    - `transaction_rules` - Household rules applied to transactions as they are read
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `name` (text, not null)
+      - `position` (integer, not null) - rules apply in this order, a later one wins
+      - `is_enabled` (boolean, not null, default true)
+      - Conditions, every one that is set has to match:
+        - `title_pattern` (text, nullable) - case-insensitive regular expression
+        - `min_amount`, `max_amount` (double precision, nullable) - inclusive bounds
+        - `category_id` (integer, foreign key, cascades on delete)
+        - `person_label` (text, nullable)
+        - `date_from`, `date_to` (date, nullable) - inclusive bounds of the transaction date
+      - Actions:
+        - `hide` (boolean, not null, default false)
+        - `set_title` (text, nullable)
+        - `set_category_id` (integer, foreign key, set null on delete)
+        - `set_person_label` (text, nullable)
+        - `set_amount` (double precision, nullable)
+        - `mark_paid` (boolean, not null, default false)
+      - `created_at` (timestamp, not null)
+
+  2. Modified Tables
+    - None; the transactions the server used to filter and adjust in code
+      (server/transaction-filters.ts) get equivalent rules in the households that have them
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS transaction_rules (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  title_pattern TEXT,
+  min_amount DOUBLE PRECISION,
+  max_amount DOUBLE PRECISION,
+  category_id INTEGER REFERENCES categories(id) ON DELETE CASCADE,
+  person_label TEXT,
+  date_from DATE,
+  date_to DATE,
+  hide BOOLEAN NOT NULL DEFAULT false,
+  set_title TEXT,
+  set_category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+  set_person_label TEXT,
+  set_amount DOUBLE PRECISION,
+  mark_paid BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS transaction_rules_household_id_idx ON transaction_rules(household_id);
+
+-- The hard-coded filters, as rules of the households whose transactions they matched
+INSERT INTO transaction_rules (household_id, name, position, title_pattern, hide)
+SELECT DISTINCT household_id, 'Hide "Grocerries"', 0, '^Grocerries$', true
+FROM transactions WHERE title = 'Grocerries';
+
+INSERT INTO transaction_rules (household_id, name, position, title_pattern, hide)
+SELECT DISTINCT household_id, 'Hide training app', 1, '^(?=.*training)(?=.*app)', true
+FROM transactions WHERE title ILIKE '%training%' AND title ILIKE '%app%';
+
+INSERT INTO transaction_rules (household_id, name, position, title_pattern, min_amount, max_amount, hide)
+SELECT DISTINCT household_id, 'Hide Fabi Phone Play 25 PLN', 2, '^Fabi Phone Play$', 24.99, 25.01, true
+FROM transactions WHERE title = 'Fabi Phone Play' AND abs(amount - 25) < 0.01;
+
+INSERT INTO transaction_rules (household_id, name, position, title_pattern, min_amount, max_amount, hide)
+SELECT DISTINCT household_id, 'Hide Fabi 300 PLN', 3, '^Fabi$', 299.99, 300.01, true
+FROM transactions WHERE title = 'Fabi' AND abs(amount - 300) < 0.01;
+
+-- Transaction 36 was hidden by id; the same title on the same day picks it out
+INSERT INTO transaction_rules (household_id, name, position, title_pattern, date_from, date_to, hide)
+SELECT household_id, 'Hide ' || title || ' of ' || to_char(date, 'YYYY-MM-DD'), 4,
+  '^' || regexp_replace(title, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '$', date::date, date::date, true
+FROM transactions WHERE id = 36;
+
+INSERT INTO transaction_rules (household_id, name, position, title_pattern, min_amount, max_amount, set_amount)
+SELECT DISTINCT household_id, 'Replit at 76.77 PLN', 5, '^Replit$', 93.81, 94.81, 76.77
+FROM transactions WHERE title = 'Replit' AND abs(amount - 94.31) < 0.5;
+
+ALTER TABLE transaction_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to transaction_rules for everyone"
+  ON transaction_rules
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
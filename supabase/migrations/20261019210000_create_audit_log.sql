@@ -0,0 +1,62 @@
+/*
+  # Audit log
+
+  1. New Tables
+    - `audit_log` - Append-only record of every change to a household's data
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key)
+      - `user_id` (integer, foreign key, nullable) - null for anonymous requests and background jobs
+      - `entity` (text, not null) - 'transaction', 'occurrence', 'category', 'categoryBudget', 'person',
+        'savings', 'savingsGoal', 'importProfile', 'transactionRule' or 'member'
+      - `entity_id` (integer, nullable) - occurrences are logged under their transaction,
+        category budgets under their category, members under their user
+      - `action` (text, not null) - 'create', 'update', 'delete' or 'restore'
+      - `changes` (jsonb, not null) - changed fields as { "field": { "before": ..., "after": ... } }
+      - `created_at` (timestamp, not null)
+
+  2. Modified Tables
+    - None
+
+  3. Security
+    - Enable RLS and allow reading and adding entries like the other tables
+    - Updating or deleting entries is rejected, so the log stays append-only
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id),
+  user_id INTEGER REFERENCES users(id),
+  entity TEXT NOT NULL,
+  entity_id INTEGER,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore')),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_household_created_idx ON audit_log(household_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log(household_id, entity, entity_id);
+
+CREATE OR REPLACE FUNCTION reject_audit_log_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION reject_audit_log_change();
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading audit_log for everyone"
+  ON audit_log
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Allow adding to audit_log for everyone"
+  ON audit_log
+  FOR INSERT
+  TO public
+  WITH CHECK (true);
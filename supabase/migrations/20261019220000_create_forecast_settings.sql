@@ -0,0 +1,37 @@
+/*
+  # Cash-flow forecast settings
+
+  1. New Tables
+    - `forecast_settings` - Where a household's cash-flow forecast starts from, one row per household
+      - `id` (serial, primary key)
+      - `household_id` (integer, unique, foreign key, cascades on delete)
+      - `opening_balance` (double precision, not null) - account balance at the end of `balance_date`
+      - `balance_date` (date, not null)
+      - `low_balance_threshold` (double precision, not null, default 0) - the forecast flags the
+        first day the projected balance drops below it
+      - `updated_at` (timestamp, default now)
+
+  2. Modified Tables
+    - None
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS forecast_settings (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL UNIQUE REFERENCES households(id) ON DELETE CASCADE,
+  opening_balance DOUBLE PRECISION NOT NULL,
+  balance_date DATE NOT NULL,
+  low_balance_threshold DOUBLE PRECISION NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE forecast_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to forecast_settings for everyone"
+  ON forecast_settings
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
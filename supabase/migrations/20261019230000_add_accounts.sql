@@ -0,0 +1,60 @@
+/*
+  # Accounts and transfers
+
+  1. New Tables
+    - `accounts` - Where the household's money is kept
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `name` (text, not null)
+      - `type` (text, not null, default 'checking') - 'checking', 'savings', 'credit_card' or 'cash'
+      - `currency` (text, not null, default 'PLN') - ISO 4217
+      - `opening_balance` (double precision, not null, default 0) - in the account's currency
+      - `opening_balance_date` (date, not null) - the opening balance is the end-of-day balance of this day
+      - `is_archived` (boolean, not null, default false) - accounts with entries are archived, not deleted
+      - `created_at` (timestamp, default now)
+
+  2. Modified Tables
+    - `transactions`
+      - `account_id` (integer, nullable, foreign key to `accounts`, set to null when the account is deleted)
+      - `transfer_account_id` (integer, nullable, foreign key to `accounts`, set to null when the account is deleted) -
+        set for transfers, which move the amount from `account_id` to this account and are neither income nor expense
+    - `savings`
+      - `account_id` (integer, nullable, foreign key to `accounts`) - the savings account the money goes into
+      - `from_account_id` (integer, nullable, foreign key to `accounts`) - the account it comes from
+    - Existing rows keep no account
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'checking' CHECK (type IN ('checking', 'savings', 'credit_card', 'cash')),
+  currency TEXT NOT NULL DEFAULT 'PLN',
+  opening_balance DOUBLE PRECISION NOT NULL DEFAULT 0,
+  opening_balance_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS accounts_household_id_idx ON accounts(household_id);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id INTEGER REFERENCES accounts(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_account_id INTEGER REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_account_id_idx ON transactions(account_id);
+CREATE INDEX IF NOT EXISTS transactions_transfer_account_id_idx ON transactions(transfer_account_id);
+
+ALTER TABLE savings ADD COLUMN IF NOT EXISTS account_id INTEGER REFERENCES accounts(id) ON DELETE SET NULL;
+ALTER TABLE savings ADD COLUMN IF NOT EXISTS from_account_id INTEGER REFERENCES accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to accounts for everyone"
+  ON accounts
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,71 @@
+/*
+  # Statement reconciliation
+
+  1. New Tables
+    - `reconciliations` - An account's statement checked against its entries
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `account_id` (integer, foreign key to `accounts`, cascades on delete)
+      - `statement_date` (date, not null) - closing date of the statement
+      - `statement_balance` (double precision, not null) - in the account's currency
+      - `cleared_balance` (double precision, nullable) - the cleared balance when it was finished
+      - `finished_at` (timestamp, nullable) - null while the reconciliation is open
+      - `created_at` (timestamp, default now)
+    - `cleared_entries` - Occurrences of transactions ticked off against an account's statement
+      - `id` (serial, primary key)
+      - `account_id` (integer, foreign key to `accounts`, cascades on delete)
+      - `transaction_id` (integer, foreign key to `transactions`, cascades on delete)
+      - `occurrence_date` (date, not null) - the occurrence of a recurring transaction, or the date of a one-off
+      - `reconciliation_id` (integer, nullable, foreign key to `reconciliations`, set to null when it is undone) -
+        set when a finished reconciliation locks the entry
+      - `cleared_at` (timestamp, default now)
+      - Unique on (`account_id`, `transaction_id`, `occurrence_date`); a transfer is cleared on each of its accounts
+
+  2. Modified Tables
+    - None
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS reconciliations (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  account_id INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  statement_date DATE NOT NULL,
+  statement_balance DOUBLE PRECISION NOT NULL,
+  cleared_balance DOUBLE PRECISION,
+  finished_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS reconciliations_account_id_idx ON reconciliations(account_id);
+
+CREATE TABLE IF NOT EXISTS cleared_entries (
+  id SERIAL PRIMARY KEY,
+  account_id INTEGER NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  reconciliation_id INTEGER REFERENCES reconciliations(id) ON DELETE SET NULL,
+  cleared_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT cleared_entries_account_transaction_date_key UNIQUE (account_id, transaction_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS cleared_entries_transaction_id_idx ON cleared_entries(transaction_id);
+
+ALTER TABLE reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cleared_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to reconciliations for everyone"
+  ON reconciliations
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all access to cleared_entries for everyone"
+  ON cleared_entries
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,40 @@
+/*
+  # Split transactions
+
+  1. New Tables
+    - `transaction_lines` - Lines splitting a transaction's amount across categories and people
+      - `id` (serial, primary key)
+      - `transaction_id` (integer, foreign key to `transactions`, cascades on delete)
+      - `position` (integer, not null) - order of the line within its transaction
+      - `amount` (double precision, not null) - the lines of a transaction add up to its amount
+      - `category_id` (integer, nullable, foreign key to `categories`, set to null on delete)
+      - `person_label` (text, nullable)
+      - `note` (text, nullable)
+
+  2. Modified Tables
+    - None
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS transaction_lines (
+  id SERIAL PRIMARY KEY,
+  transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+  person_label TEXT,
+  note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS transaction_lines_transaction_id_idx ON transaction_lines(transaction_id);
+
+ALTER TABLE transaction_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to transaction_lines for everyone"
+  ON transaction_lines
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
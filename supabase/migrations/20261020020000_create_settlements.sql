@@ -0,0 +1,74 @@
+/*
+  # Shared-expense settlement
+
+  1. New Tables
+    - `settlement_settings` - How the members split the expenses of a shared person, one row per household
+      - `id` (serial, primary key)
+      - `household_id` (integer, unique, foreign key, cascades on delete)
+      - `split_method` (text, default 'equal') - 'equal', 'percentage' or 'income'
+      - `updated_at` (timestamp, default now)
+    - `settlement_payments` - Money one member gave another to settle up
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `from_person` (text, not null) - name of the member who paid, like `person_label`
+      - `to_person` (text, not null)
+      - `amount` (double precision, not null)
+      - `date` (date, not null)
+      - `note` (text, nullable)
+      - `created_at` (timestamp, default now)
+
+  2. Modified Tables
+    - `transactions`
+      - `paid_by` (text, nullable) - name of the member who paid the transaction
+    - `people`
+      - `is_shared` (boolean, default false) - the person stands for expenses the members split;
+        set for the existing "Together" people
+      - `settlement_share` (double precision, nullable) - percent of shared expenses under the 'percentage' split
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS paid_by TEXT;
+
+ALTER TABLE people ADD COLUMN IF NOT EXISTS is_shared BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE people ADD COLUMN IF NOT EXISTS settlement_share DOUBLE PRECISION;
+
+UPDATE people SET is_shared = TRUE WHERE name = 'Together';
+
+CREATE TABLE IF NOT EXISTS settlement_settings (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL UNIQUE REFERENCES households(id) ON DELETE CASCADE,
+  split_method TEXT NOT NULL DEFAULT 'equal',
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS settlement_payments (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  from_person TEXT NOT NULL,
+  to_person TEXT NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS settlement_payments_household_id_idx ON settlement_payments(household_id);
+
+ALTER TABLE settlement_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE settlement_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to settlement_settings for everyone"
+  ON settlement_settings
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all access to settlement_payments for everyone"
+  ON settlement_payments
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
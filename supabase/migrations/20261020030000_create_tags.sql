@@ -0,0 +1,55 @@
+/*
+  # Transaction tags
+
+  1. New Tables
+    - `tags` - Free-form labels of a household, e.g. "vacation-2026" or "tax-deductible"
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `name` (text, not null) - lowercase without spaces, unique within the household
+      - `created_at` (timestamp, default now)
+    - `transaction_tags` - Which transactions have which tags
+      - `id` (serial, primary key)
+      - `transaction_id` (integer, foreign key to `transactions`, cascades on delete)
+      - `tag_id` (integer, foreign key to `tags`, cascades on delete)
+      - unique per transaction and tag
+
+  2. Modified Tables
+    - None
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS tags (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT tags_household_name_key UNIQUE (household_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS transaction_tags (
+  id SERIAL PRIMARY KEY,
+  transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  CONSTRAINT transaction_tags_transaction_tag_key UNIQUE (transaction_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS transaction_tags_tag_id_idx ON transaction_tags(tag_id);
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to tags for everyone"
+  ON tags
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all access to transaction_tags for everyone"
+  ON transaction_tags
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
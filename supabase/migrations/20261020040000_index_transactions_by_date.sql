@@ -0,0 +1,20 @@
+/*
+  # Transactions by date
+
+  1. New Tables
+    - None
+
+  2. Modified Tables
+    - `transactions`
+      - Index on (`household_id`, `date`) for the date range and paging of GET /api/transactions
+      - Partial index on (`household_id`, `date`) of recurring transactions, which a date range
+        brings along when they started before it
+
+  3. Security
+    - No changes, the table already has RLS enabled
+*/
+
+CREATE INDEX IF NOT EXISTS transactions_household_date_idx ON transactions(household_id, date)
+  WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS transactions_household_recurring_idx ON transactions(household_id, date)
+  WHERE deleted_at IS NULL AND is_recurring = true;
@@ -0,0 +1,67 @@
+/*
+  # Subscriptions
+
+  1. New Tables
+    - `subscriptions` - Recurring expenses tracked as subscriptions; the schedule and price are the transaction's
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `transaction_id` (integer, foreign key to `transactions`, cascades on delete) - the recurring expense, unique
+      - `trial_ends_at` (date, nullable) - last day of the free trial
+      - `remind_days_before` (integer, nullable) - days before the next charge to remind about cancelling; null means no reminder
+      - `created_at` (timestamp, default now)
+    - `subscription_price_changes` - Price history of the subscriptions
+      - `id` (serial, primary key)
+      - `subscription_id` (integer, foreign key to `subscriptions`, cascades on delete)
+      - `effective_date` (date, not null) - first charge at the new price
+      - `previous_amount` (double precision, not null)
+      - `amount` (double precision, not null)
+      - `currency` (text, nullable) - ISO 4217 code of both amounts; null for PLN
+      - `created_at` (timestamp, default now)
+
+  2. Modified Tables
+    - None
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  transaction_id INTEGER NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  trial_ends_at DATE,
+  remind_days_before INTEGER CHECK (remind_days_before IS NULL OR remind_days_before >= 0),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT subscriptions_transaction_id_key UNIQUE (transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS subscriptions_household_id_idx ON subscriptions(household_id);
+
+CREATE TABLE IF NOT EXISTS subscription_price_changes (
+  id SERIAL PRIMARY KEY,
+  subscription_id INTEGER NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  effective_date DATE NOT NULL,
+  previous_amount DOUBLE PRECISION NOT NULL,
+  amount DOUBLE PRECISION NOT NULL,
+  currency TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS subscription_price_changes_subscription_id_idx ON subscription_price_changes(subscription_id);
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_price_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to subscriptions for everyone"
+  ON subscriptions
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all access to subscription_price_changes for everyone"
+  ON subscription_price_changes
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,35 @@
+/*
+  # Booked auto-contributions
+
+  1. New Tables
+    - None
+
+  2. Modified Tables
+    - `savings`
+      - `contribution_date` (date, nullable) - the date of the goal's auto-contribution the entry books;
+        null for entries made by hand
+      - Unique (`goal_id`, `contribution_date`), so an auto-contribution is booked only once
+
+  3. Security
+    - No changes, the table already has RLS enabled
+*/
+
+ALTER TABLE savings ADD COLUMN IF NOT EXISTS contribution_date DATE;
+
+-- Entries booked before the column existed, by their note
+UPDATE savings
+SET contribution_date = date::date
+WHERE goal_id IS NOT NULL AND contribution_date IS NULL AND notes LIKE 'Auto-contribution to %';
+
+-- Duplicates booked twice by parallel requests, keeping the first
+UPDATE savings AS duplicate
+SET contribution_date = NULL
+WHERE duplicate.contribution_date IS NOT NULL AND EXISTS (
+  SELECT 1 FROM savings AS first
+  WHERE first.goal_id = duplicate.goal_id
+    AND first.contribution_date = duplicate.contribution_date
+    AND first.id < duplicate.id
+);
+
+ALTER TABLE savings DROP CONSTRAINT IF EXISTS savings_goal_contribution_date_key;
+ALTER TABLE savings ADD CONSTRAINT savings_goal_contribution_date_key UNIQUE (goal_id, contribution_date);
@@ -0,0 +1,18 @@
+/*
+  # Transactions of a purged category
+
+  1. New Tables
+    - None
+
+  2. Modified Tables
+    - `transactions`
+      - The foreign key of `category_id` sets it to null when the category is deleted, so a category
+        can be purged from the trash while live transactions are still filed under it
+
+  3. Security
+    - No changes, the table already has RLS enabled
+*/
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_category_id_fkey;
+ALTER TABLE transactions ADD CONSTRAINT transactions_category_id_fkey
+  FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL;
@@ -0,0 +1,40 @@
+/*
+  # Settlement split history
+
+  1. New Tables
+    - `settlement_splits` - The split method and the members who took part from a date on; one is
+      recorded on each change of the settlement settings or the members, so past shared expenses
+      stay split the way they were
+      - `id` (serial, primary key)
+      - `household_id` (integer, foreign key, cascades on delete)
+      - `effective_from` (date, not null) - unique per household
+      - `split_method` (text, not null) - 'equal', 'percentage' or 'income'
+      - `participants` (jsonb, not null) - `[{ "personId": ..., "share": ... }]`, the members and
+        their settlement share at the time
+      - `created_at` (timestamp, default now)
+
+  2. Modified Tables
+    - None
+
+  3. Security
+    - Enable RLS and allow the same public access as the other tables
+*/
+
+CREATE TABLE IF NOT EXISTS settlement_splits (
+  id SERIAL PRIMARY KEY,
+  household_id INTEGER NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  effective_from DATE NOT NULL,
+  split_method TEXT NOT NULL,
+  participants JSONB NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT settlement_splits_household_effective_from_key UNIQUE (household_id, effective_from)
+);
+
+ALTER TABLE settlement_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to settlement_splits for everyone"
+  ON settlement_splits
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);